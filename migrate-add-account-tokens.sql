@@ -0,0 +1,47 @@
+-- Migration Script: Add password reset and email verification support
+-- Run this script on existing databases to enable the forgot-password and verify-email flows
+-- Description: Adds users.email_verified_at plus one-time token tables for both flows
+
+-- Track when a user confirmed their email address
+ALTER TABLE `users`
+ADD COLUMN `email_verified_at` DATETIME NULL AFTER `last_name`;
+
+-- Existing accounts predate verification; treat them as verified so nobody is locked out
+UPDATE `users` SET `email_verified_at` = `created_at` WHERE `email_verified_at` IS NULL;
+
+CREATE TABLE IF NOT EXISTS `password_reset_tokens` (
+  `id` BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `user_id` INT UNSIGNED NOT NULL,
+  `token_hash` CHAR(64) NOT NULL,
+  `expires_at` DATETIME NOT NULL,
+  `used_at` DATETIME NULL,
+  `ip_address` VARCHAR(45) NULL,
+  `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `uq_password_reset_token` (`token_hash`),
+  FOREIGN KEY `fk_password_reset_user` (`user_id`) REFERENCES `users` (`id`) ON DELETE CASCADE,
+  INDEX `idx_password_reset_user` (`user_id`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE IF NOT EXISTS `email_verification_tokens` (
+  `id` BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `user_id` INT UNSIGNED NOT NULL,
+  `email` VARCHAR(255) NOT NULL,
+  `token_hash` CHAR(64) NOT NULL,
+  `expires_at` DATETIME NOT NULL,
+  `used_at` DATETIME NULL,
+  `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `uq_email_verification_token` (`token_hash`),
+  FOREIGN KEY `fk_email_verification_user` (`user_id`) REFERENCES `users` (`id`) ON DELETE CASCADE,
+  INDEX `idx_email_verification_user` (`user_id`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Optional: purge tokens that can no longer be used
+-- DELETE FROM `password_reset_tokens` WHERE `expires_at` < NOW() OR `used_at` IS NOT NULL;
+-- DELETE FROM `email_verification_tokens` WHERE `expires_at` < NOW() OR `used_at` IS NOT NULL;
+
+-- Verify the changes
+DESCRIBE `users`;
+DESCRIBE `password_reset_tokens`;
+DESCRIBE `email_verification_tokens`;
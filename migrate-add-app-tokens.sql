@@ -0,0 +1,18 @@
+-- Migration Script: Add app tokens for e-reader apps
+-- Run this script on existing databases to enable the OPDS catalog
+-- Description: Adds user_app_tokens; users create tokens on their profile page
+
+-- `user_app_tokens` table: Long-lived tokens for e-reader apps browsing the OPDS catalog.
+-- Only the SHA-256 hash is stored; the last four characters help users tell tokens apart.
+CREATE TABLE IF NOT EXISTS `user_app_tokens` (
+  `id` INT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `user_id` INT UNSIGNED NOT NULL,
+  `name` VARCHAR(100) NOT NULL, -- Chosen by the user, usually the device
+  `token_hash` CHAR(64) NOT NULL,
+  `token_hint` CHAR(4) NOT NULL,
+  `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `last_used_at` TIMESTAMP NULL,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `uq_app_token` (`token_hash`),
+  FOREIGN KEY `fk_app_token_user` (`user_id`) REFERENCES `users` (`id`) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
@@ -0,0 +1,47 @@
+-- Migration Script: Add multiple files per book
+-- Run this script on existing databases to offer several formats, editions or languages of a book
+-- Description: Adds book_files and download_logs.book_file_id, and copies each book's current file into book_files
+
+-- `book_files` table: Every downloadable file of a book, one row per format, edition or language.
+-- The primary file is mirrored into books.file_path/file_type/file_size for the reader and text search.
+CREATE TABLE IF NOT EXISTS `book_files` (
+  `id` INT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `book_id` INT UNSIGNED NOT NULL,
+  `format` VARCHAR(20) NOT NULL, -- File extension, e.g. pdf or epub
+  `edition` VARCHAR(100) NULL, -- e.g. "2nd edition"
+  `language` VARCHAR(35) NULL, -- BCP 47 tag, e.g. en or pt-BR
+  `file_path` VARCHAR(255) NOT NULL, -- Storage location: /uploads/... or s3://bucket/key
+  `file_name` VARCHAR(255) NULL, -- Original file name
+  `file_type` VARCHAR(100) NULL, -- MIME type
+  `file_size` INT NULL, -- File size in bytes
+  `is_primary` BOOLEAN NOT NULL DEFAULT FALSE, -- Served when a download does not name a file
+  `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  FOREIGN KEY `fk_book_files_book` (`book_id`) REFERENCES `books` (`id`) ON DELETE CASCADE,
+  INDEX `idx_book_files_book` (`book_id`, `is_primary`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Record which of a book's files each download was for
+ALTER TABLE `download_logs`
+ADD COLUMN `book_file_id` INT UNSIGNED NULL AFTER `ip_address`,
+ADD FOREIGN KEY `fk_download_logs_book_file` (`book_file_id`) REFERENCES `book_files` (`id`) ON DELETE SET NULL;
+
+-- Existing uploads and S3 objects become each book's primary file.
+-- Files held only in books.file_content have no storage location yet and keep being served from the books row.
+INSERT INTO `book_files` (`book_id`, `format`, `file_path`, `file_name`, `file_type`, `file_size`, `is_primary`)
+SELECT
+  b.`id`,
+  IF(b.`file_path` REGEXP '\\.[A-Za-z0-9]{1,10}$', LOWER(SUBSTRING_INDEX(b.`file_path`, '.', -1)), 'file'),
+  b.`file_path`,
+  SUBSTRING_INDEX(b.`file_path`, '/', -1),
+  b.`file_type`,
+  b.`file_size`,
+  TRUE
+FROM `books` b
+WHERE b.`book_type` = 'file'
+  AND (b.`file_path` LIKE '/uploads/%' OR b.`file_path` LIKE 's3://%')
+  AND NOT EXISTS (SELECT 1 FROM `book_files` f WHERE f.`book_id` = b.`id`);
+
+-- Verify the changes
+DESCRIBE `book_files`;
+DESCRIBE `download_logs`;
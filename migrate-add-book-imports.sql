@@ -0,0 +1,39 @@
+-- Migration Script: Add bulk book imports
+-- Run this script on existing databases to enable importing books from a CSV/JSON manifest and a ZIP of files
+-- Description: Adds book_imports and book_import_rows
+
+-- `book_imports` table: Bulk imports from a CSV/JSON manifest and an optional ZIP of files.
+-- An import is validated (dry run) first and only runs once an admin starts it.
+CREATE TABLE IF NOT EXISTS `book_imports` (
+  `id` INT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `created_by` INT UNSIGNED NULL,
+  `manifest_name` VARCHAR(255) NOT NULL,
+  `archive_path` VARCHAR(500) NULL, -- Server-side copy of the uploaded ZIP, removed when the import ends
+  `status` ENUM('validated', 'running', 'completed', 'failed') NOT NULL DEFAULT 'validated',
+  `total_rows` INT UNSIGNED NOT NULL DEFAULT 0,
+  `valid_rows` INT UNSIGNED NOT NULL DEFAULT 0,
+  `imported_rows` INT UNSIGNED NOT NULL DEFAULT 0,
+  `failed_rows` INT UNSIGNED NOT NULL DEFAULT 0,
+  `error` VARCHAR(500) NULL,
+  `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `started_at` DATETIME NULL,
+  `finished_at` DATETIME NULL,
+  PRIMARY KEY (`id`),
+  INDEX `idx_book_import_created` (`created_at`),
+  FOREIGN KEY `fk_book_import_user` (`created_by`) REFERENCES `users` (`id`) ON DELETE SET NULL
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- `book_import_rows` table: One row per manifest entry with its validation and import result.
+CREATE TABLE IF NOT EXISTS `book_import_rows` (
+  `id` INT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `import_id` INT UNSIGNED NOT NULL,
+  `line` INT UNSIGNED NOT NULL, -- 1-based position in the manifest (CSV header excluded)
+  `data` JSON NOT NULL, -- The manifest row as read
+  `status` ENUM('valid', 'invalid', 'imported', 'failed') NOT NULL,
+  `messages` JSON NULL, -- { errors: [...], warnings: [...] }
+  `book_id` INT UNSIGNED NULL,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `uq_book_import_line` (`import_id`, `line`),
+  FOREIGN KEY `fk_book_import_row_import` (`import_id`) REFERENCES `book_imports` (`id`) ON DELETE CASCADE,
+  FOREIGN KEY `fk_book_import_row_book` (`book_id`) REFERENCES `books` (`id`) ON DELETE SET NULL
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
@@ -0,0 +1,25 @@
+-- Migration Script: Add book series
+-- Run this script on existing databases to group books into series with a reading order
+-- Description: Adds the series table and books.series_id / books.series_position (the volume number).
+
+-- Named series of books
+CREATE TABLE IF NOT EXISTS `series` (
+  `id` INT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `name` VARCHAR(255) NOT NULL,
+  `description` TEXT NULL,
+  `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `updated_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `uq_series_name` (`name`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- The series a book belongs to and its volume number
+ALTER TABLE `books`
+ADD COLUMN `series_id` INT UNSIGNED NULL AFTER `page_count`,
+ADD COLUMN `series_position` SMALLINT UNSIGNED NULL AFTER `series_id`,
+ADD CONSTRAINT `fk_books_series` FOREIGN KEY (`series_id`) REFERENCES `series` (`id`) ON DELETE SET NULL,
+ADD INDEX `idx_book_series` (`series_id`, `series_position`);
+
+-- Verify the changes
+DESCRIBE `series`;
+DESCRIBE `books`;
@@ -0,0 +1,14 @@
+-- Migration Script: Add full-text search inside books
+-- Run this script on existing databases to enable searching the text of uploaded PDFs and EPUBs
+-- Description: Adds book_text_pages; index existing books afterwards with POST /api/admin/books/text-index
+
+-- `book_text_pages` table: Text extracted from book files, one row per page, for full-text search.
+-- EPUBs have no pages, so their "pages" are chunks of about 1600 characters (the reader's locations).
+CREATE TABLE IF NOT EXISTS `book_text_pages` (
+  `book_id` INT UNSIGNED NOT NULL,
+  `page` INT UNSIGNED NOT NULL, -- 1-based; opens the reader at this page
+  `content` MEDIUMTEXT NOT NULL,
+  PRIMARY KEY (`book_id`, `page`),
+  FULLTEXT KEY `ft_book_text_content` (`content`),
+  FOREIGN KEY `fk_book_text_book` (`book_id`) REFERENCES `books` (`id`) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
@@ -0,0 +1,22 @@
+-- Migration Script: Add content licensing and access levels
+-- Run this script on existing databases to record licenses and limit who may open books and tutorials
+-- Description: Adds license, access_level and access_role_id to books and tutorials. Everything stays public
+-- until an admin changes its access level.
+
+-- License and access level of books
+ALTER TABLE `books`
+ADD COLUMN `license` ENUM('cc-by', 'cc-by-sa', 'cc-by-nd', 'cc-by-nc', 'cc-by-nc-sa', 'cc-by-nc-nd', 'cc0', 'public-domain', 'all-rights-reserved') NULL AFTER `series_position`,
+ADD COLUMN `access_level` ENUM('public', 'signed_in', 'restricted') NOT NULL DEFAULT 'public' AFTER `license`,
+ADD COLUMN `access_role_id` INT UNSIGNED NULL AFTER `access_level`,
+ADD CONSTRAINT `fk_books_access_role` FOREIGN KEY (`access_role_id`) REFERENCES `roles` (`id`) ON DELETE SET NULL;
+
+-- License and access level of tutorials
+ALTER TABLE `tutorials`
+ADD COLUMN `license` ENUM('cc-by', 'cc-by-sa', 'cc-by-nd', 'cc-by-nc', 'cc-by-nc-sa', 'cc-by-nc-nd', 'cc0', 'public-domain', 'all-rights-reserved') NULL AFTER `file_path`,
+ADD COLUMN `access_level` ENUM('public', 'signed_in', 'restricted') NOT NULL DEFAULT 'public' AFTER `license`,
+ADD COLUMN `access_role_id` INT UNSIGNED NULL AFTER `access_level`,
+ADD CONSTRAINT `fk_tutorials_access_role` FOREIGN KEY (`access_role_id`) REFERENCES `roles` (`id`) ON DELETE SET NULL;
+
+-- Verify the changes
+DESCRIBE `books`;
+DESCRIBE `tutorials`;
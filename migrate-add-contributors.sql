@@ -0,0 +1,32 @@
+-- Migration Script: Add contributors
+-- Run this script on existing databases to credit several people, with roles, on books and tutorials
+-- Description: Adds the contributors and content_contributors tables. Afterwards, credit existing books and
+-- tutorials from their author / creator text with Credit Contributors on the admin Settings page
+-- (POST /api/admin/contributors/backfill).
+
+-- `contributors` table: People credited on books and tutorials (authors, editors, translators, instructors).
+CREATE TABLE IF NOT EXISTS `contributors` (
+  `id` INT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `name` VARCHAR(255) NOT NULL,
+  `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `updated_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `uq_contributor_name` (`name`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- `content_contributors`: Polymorphic pivot table crediting contributors on books and tutorials, with their role.
+-- books.author and tutorials.creator remain the display text.
+CREATE TABLE IF NOT EXISTS `content_contributors` (
+  `contributor_id` INT UNSIGNED NOT NULL,
+  `content_id` INT UNSIGNED NOT NULL,
+  `content_type` ENUM('book', 'tutorial') NOT NULL,
+  `role` ENUM('author', 'editor', 'translator', 'instructor') NOT NULL DEFAULT 'author',
+  `position` SMALLINT UNSIGNED NOT NULL DEFAULT 0, -- Credit order on the item
+  PRIMARY KEY (`content_type`, `content_id`, `contributor_id`, `role`),
+  FOREIGN KEY `fk_content_contributors_contributor` (`contributor_id`) REFERENCES `contributors` (`id`) ON DELETE CASCADE,
+  INDEX `idx_content_contributors_contributor` (`contributor_id`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Verify the changes
+DESCRIBE `contributors`;
+DESCRIBE `content_contributors`;
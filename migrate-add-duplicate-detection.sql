@@ -0,0 +1,25 @@
+-- Migration Script: Add duplicate book detection
+-- Run this script on existing databases to warn about likely duplicate books and merge them
+-- Description: Adds book_files.file_hash and book_duplicate_dismissals. Hashes of files added
+-- before this migration are filled in the background the first time the admin Duplicates view is opened.
+
+-- SHA-256 of each file's bytes, for spotting the same file uploaded twice
+ALTER TABLE `book_files`
+ADD COLUMN `file_hash` CHAR(64) NULL AFTER `is_primary`,
+ADD INDEX `idx_book_files_hash` (`file_hash`);
+
+-- Pairs of books an admin marked as "not duplicates"
+CREATE TABLE IF NOT EXISTS `book_duplicate_dismissals` (
+  `book_id` INT UNSIGNED NOT NULL,
+  `other_book_id` INT UNSIGNED NOT NULL,
+  `dismissed_by` INT UNSIGNED NULL,
+  `dismissed_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`book_id`, `other_book_id`),
+  FOREIGN KEY `fk_dup_dismissal_book` (`book_id`) REFERENCES `books` (`id`) ON DELETE CASCADE,
+  FOREIGN KEY `fk_dup_dismissal_other` (`other_book_id`) REFERENCES `books` (`id`) ON DELETE CASCADE,
+  FOREIGN KEY `fk_dup_dismissal_user` (`dismissed_by`) REFERENCES `users` (`id`) ON DELETE SET NULL
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Verify the changes
+DESCRIBE `book_files`;
+DESCRIBE `book_duplicate_dismissals`;
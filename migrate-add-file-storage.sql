@@ -0,0 +1,14 @@
+-- Migration Script: Move book files and thumbnails out of MySQL
+-- Run this script on existing databases before starting the server with file storage
+-- Description: Adds books.thumbnail_path. Then move existing blobs with File Storage > Move Files on the
+-- admin settings page (POST /api/admin/storage/migrate), which verifies each copy and clears the blob columns.
+
+-- Storage location (/uploads/... or s3://bucket/key) of the generated thumbnail
+ALTER TABLE `books`
+ADD COLUMN `thumbnail_path` VARCHAR(255) NULL AFTER `thumbnail_content`;
+
+-- Verify the changes
+DESCRIBE `books`;
+
+-- After the migration has run, reclaim the space the blobs used:
+-- OPTIMIZE TABLE `books`;
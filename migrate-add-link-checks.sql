@@ -0,0 +1,48 @@
+-- Migration Script: Add the dead-link checker
+-- Run this script on existing databases to record the health of books' and tutorials' outside links
+-- Description: Adds external_links (latest result per URL) and external_link_checks (status history),
+-- and books.link_hidden_at / tutorials.link_hidden_at for items hidden while their link is broken.
+-- The server fills the tables on its first scheduled check (LINK_CHECK_INTERVAL_HOURS).
+
+-- Every outside URL a book or tutorial points at, with its latest check
+CREATE TABLE IF NOT EXISTS `external_links` (
+  `url_hash` CHAR(64) NOT NULL,
+  `url` VARCHAR(1000) NOT NULL,
+  `status` ENUM('ok', 'broken', 'unreachable') NULL,
+  `status_code` SMALLINT UNSIGNED NULL,
+  `error` VARCHAR(255) NULL,
+  `final_url` VARCHAR(1000) NULL,
+  `last_checked_at` TIMESTAMP NULL,
+  `broken_since` TIMESTAMP NULL,
+  `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`url_hash`),
+  INDEX `idx_external_links_checked` (`last_checked_at`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- One row per check of a link
+CREATE TABLE IF NOT EXISTS `external_link_checks` (
+  `id` BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `url_hash` CHAR(64) NOT NULL,
+  `status` ENUM('ok', 'broken', 'unreachable') NOT NULL,
+  `status_code` SMALLINT UNSIGNED NULL,
+  `error` VARCHAR(255) NULL,
+  `response_ms` INT UNSIGNED NULL,
+  `checked_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  FOREIGN KEY `fk_link_check_link` (`url_hash`) REFERENCES `external_links` (`url_hash`) ON DELETE CASCADE,
+  INDEX `idx_link_checks_link` (`url_hash`, `checked_at`),
+  INDEX `idx_link_checks_time` (`checked_at`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Set while an item's link has been broken for LINK_CHECK_HIDE_AFTER_DAYS
+ALTER TABLE `books`
+ADD COLUMN `link_hidden_at` TIMESTAMP NULL AFTER `page_count`;
+
+ALTER TABLE `tutorials`
+ADD COLUMN `link_hidden_at` TIMESTAMP NULL AFTER `file_path`;
+
+-- Verify the changes
+DESCRIBE `external_links`;
+DESCRIBE `external_link_checks`;
+DESCRIBE `books`;
+DESCRIBE `tutorials`;
@@ -0,0 +1,11 @@
+-- Migration Script: Add sign-in throttling and account lockout
+-- Run this script on existing databases to enable lockout after repeated failed sign-ins
+-- Description: Adds users.failed_login_count and users.locked_until
+
+-- Count consecutive failed sign-ins and hold the time until which sign-in is refused
+ALTER TABLE `users`
+ADD COLUMN `failed_login_count` INT UNSIGNED NOT NULL DEFAULT 0 AFTER `email_verified_at`,
+ADD COLUMN `locked_until` DATETIME NULL AFTER `failed_login_count`;
+
+-- Verify the changes
+DESCRIBE `users`;
@@ -0,0 +1,46 @@
+-- Migration Script: Add OpenID Connect sign-in
+-- Run this script on existing databases to enable "Continue with ..." provider sign-in
+-- Description: Adds user_identities (linked provider accounts) and oidc_login_requests (sign-ins in progress)
+
+-- `user_identities` table: Accounts at external OpenID Connect / OAuth providers linked to a user.
+CREATE TABLE IF NOT EXISTS `user_identities` (
+  `id` INT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `user_id` INT UNSIGNED NOT NULL,
+  `provider` VARCHAR(50) NOT NULL, -- Provider id from OIDC_PROVIDERS
+  `subject` VARCHAR(255) NOT NULL, -- The provider's stable user id (`sub` claim)
+  `email` VARCHAR(255) NULL, -- Address the provider reported when the link was made
+  `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `last_used_at` DATETIME NULL,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `uq_user_identity_subject` (`provider`, `subject`),
+  UNIQUE KEY `uq_user_identity_provider` (`user_id`, `provider`),
+  FOREIGN KEY `fk_user_identity_user` (`user_id`) REFERENCES `users` (`id`) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- `oidc_login_requests` table: Provider sign-ins and account links in progress.
+-- Holds the state, nonce and PKCE verifier until the provider redirects back, then a one-time
+-- handoff code the web app exchanges for a session.
+CREATE TABLE IF NOT EXISTS `oidc_login_requests` (
+  `id` BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `provider` VARCHAR(50) NOT NULL,
+  `state_hash` CHAR(64) NOT NULL,
+  `nonce` VARCHAR(64) NOT NULL,
+  `code_verifier` VARCHAR(128) NOT NULL,
+  `link_user_id` INT UNSIGNED NULL, -- Set when a signed-in user is linking a provider
+  `user_id` INT UNSIGNED NULL, -- User resolved by the callback
+  `handoff_hash` CHAR(64) NULL,
+  `expires_at` DATETIME NOT NULL,
+  `used_at` DATETIME NULL, -- Callback received
+  `completed_at` DATETIME NULL, -- Handoff code exchanged
+  `ip_address` VARCHAR(45) NULL,
+  `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `uq_oidc_login_state` (`state_hash`),
+  UNIQUE KEY `uq_oidc_login_handoff` (`handoff_hash`),
+  FOREIGN KEY `fk_oidc_login_link_user` (`link_user_id`) REFERENCES `users` (`id`) ON DELETE CASCADE,
+  FOREIGN KEY `fk_oidc_login_user` (`user_id`) REFERENCES `users` (`id`) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Verify the changes
+DESCRIBE `user_identities`;
+DESCRIBE `oidc_login_requests`;
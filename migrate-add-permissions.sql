@@ -0,0 +1,48 @@
+-- Migration Script: Add permissions and role_permissions tables
+-- Run this script on existing databases to enable per-permission access control
+-- Description: Maps roles to fine-grained permissions; 'admin' implicitly holds all of them
+
+CREATE TABLE IF NOT EXISTS `permissions` (
+  `id` INT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `name` VARCHAR(100) NOT NULL,
+  `description` VARCHAR(255) NULL,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `uq_permission_name` (`name`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE IF NOT EXISTS `role_permissions` (
+  `role_id` INT UNSIGNED NOT NULL,
+  `permission_id` INT UNSIGNED NOT NULL,
+  PRIMARY KEY (`role_id`, `permission_id`),
+  FOREIGN KEY `fk_role_permissions_role` (`role_id`) REFERENCES `roles` (`id`) ON DELETE CASCADE,
+  FOREIGN KEY `fk_role_permissions_permission` (`permission_id`) REFERENCES `permissions` (`id`) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Make sure the built-in roles exist
+INSERT IGNORE INTO `roles` (`name`) VALUES ('admin'), ('moderator'), ('user');
+
+-- Seed the permission catalog
+INSERT IGNORE INTO `permissions` (`name`, `description`) VALUES
+  ('admin.access', 'Open the admin panel'),
+  ('books.write', 'Create, edit and delete books'),
+  ('tutorials.write', 'Create, edit and delete tutorials'),
+  ('categories.write', 'Create, edit and delete categories'),
+  ('comments.moderate', 'Moderate user comments'),
+  ('analytics.read', 'View analytics and activity reports'),
+  ('users.manage', 'Create, edit and delete user accounts'),
+  ('settings.manage', 'Change site settings and role permissions');
+
+-- Default moderator permissions: content curation only
+INSERT IGNORE INTO `role_permissions` (`role_id`, `permission_id`)
+SELECT r.id, p.id FROM `roles` r JOIN `permissions` p
+WHERE r.name = 'moderator'
+  AND p.name IN ('admin.access', 'books.write', 'tutorials.write', 'categories.write', 'comments.moderate');
+
+-- Verify the changes
+DESCRIBE `permissions`;
+DESCRIBE `role_permissions`;
+SELECT r.name AS role, p.name AS permission
+FROM `role_permissions` rp
+JOIN `roles` r ON r.id = rp.role_id
+JOIN `permissions` p ON p.id = rp.permission_id
+ORDER BY r.name, p.name;
@@ -0,0 +1,56 @@
+-- Migration Script: Add price history, exchange rates and purchase click tracking
+-- Run this script on existing databases to track purchase books' prices and outbound clicks
+-- Description: Adds book_price_history, exchange_rates and purchase_clicks, and records each
+-- purchase book's current price as the start of its history.
+
+-- Every price a purchase book has had, newest last
+CREATE TABLE IF NOT EXISTS `book_price_history` (
+  `id` INT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `book_id` INT UNSIGNED NOT NULL,
+  `price` DECIMAL(10, 2) NOT NULL,
+  `currency` VARCHAR(3) NOT NULL,
+  `changed_by` INT UNSIGNED NULL,
+  `recorded_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  FOREIGN KEY `fk_price_history_book` (`book_id`) REFERENCES `books` (`id`) ON DELETE CASCADE,
+  FOREIGN KEY `fk_price_history_user` (`changed_by`) REFERENCES `users` (`id`) ON DELETE SET NULL,
+  INDEX `idx_price_history_book` (`book_id`, `recorded_at`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Units of each currency per 1 USD, maintained under Settings > Exchange Rates
+CREATE TABLE IF NOT EXISTS `exchange_rates` (
+  `currency` CHAR(3) NOT NULL,
+  `rate` DECIMAL(18, 8) NOT NULL,
+  `updated_by` INT UNSIGNED NULL,
+  `updated_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  PRIMARY KEY (`currency`),
+  FOREIGN KEY `fk_exchange_rates_user` (`updated_by`) REFERENCES `users` (`id`) ON DELETE SET NULL
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Clicks on purchase links, logged by /api/books/:id/purchase
+CREATE TABLE IF NOT EXISTS `purchase_clicks` (
+  `id` BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `user_id` INT UNSIGNED NULL,
+  `book_id` INT UNSIGNED NOT NULL,
+  `purchase_link` VARCHAR(500) NOT NULL,
+  `clicked_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `ip_address` VARCHAR(45) NULL,
+  PRIMARY KEY (`id`),
+  FOREIGN KEY `fk_purchase_clicks_user` (`user_id`) REFERENCES `users` (`id`) ON DELETE SET NULL,
+  FOREIGN KEY `fk_purchase_clicks_book` (`book_id`) REFERENCES `books` (`id`) ON DELETE CASCADE,
+  INDEX `idx_purchase_clicks_book` (`book_id`, `clicked_at`),
+  INDEX `idx_purchase_clicks_time` (`clicked_at`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Current prices start each book's history
+INSERT INTO `book_price_history` (`book_id`, `price`, `currency`, `recorded_at`)
+SELECT b.`id`, b.`price`, COALESCE(b.`currency`, 'USD'), b.`updated_at`
+FROM `books` b
+WHERE b.`book_type` = 'purchase'
+  AND b.`price` IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM `book_price_history` h WHERE h.`book_id` = b.`id`);
+
+-- Verify the changes
+DESCRIBE `book_price_history`;
+DESCRIBE `exchange_rates`;
+DESCRIBE `purchase_clicks`;
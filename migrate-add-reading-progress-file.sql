@@ -0,0 +1,11 @@
+-- Migration Script: Remember which book file a reading position belongs to
+-- Run this script on existing databases after migrate-add-book-files.sql
+-- Description: Adds reading_history.book_file_id, so a page saved in one format or edition is not used to open another
+
+-- Positions saved before this migration were all read in the book's primary file and keep NULL
+ALTER TABLE `reading_history`
+ADD COLUMN `book_file_id` INT UNSIGNED NULL AFTER `progress`,
+ADD FOREIGN KEY `fk_history_book_file` (`book_file_id`) REFERENCES `book_files` (`id`) ON DELETE SET NULL;
+
+-- Verify the changes
+DESCRIBE `reading_history`;
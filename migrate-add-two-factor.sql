@@ -0,0 +1,47 @@
+-- Migration Script: Add TOTP two-factor authentication
+-- Run this script on existing databases to enable two-factor sign in and per-role enforcement
+-- Description: Adds TOTP columns to users, roles.require_two_factor, recovery codes and sign-in challenges
+
+ALTER TABLE `users`
+ADD COLUMN `totp_secret` VARCHAR(64) NULL AFTER `locked_until`,
+ADD COLUMN `totp_pending_secret` VARCHAR(64) NULL AFTER `totp_secret`,
+ADD COLUMN `totp_enabled_at` DATETIME NULL AFTER `totp_pending_secret`,
+ADD COLUMN `totp_last_used_step` BIGINT UNSIGNED NULL AFTER `totp_enabled_at`;
+
+-- Members of a role with this flag get no permissions until they enable 2FA
+ALTER TABLE `roles`
+ADD COLUMN `require_two_factor` BOOLEAN NOT NULL DEFAULT FALSE AFTER `name`;
+
+CREATE TABLE IF NOT EXISTS `user_recovery_codes` (
+  `id` BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `user_id` INT UNSIGNED NOT NULL,
+  `code_hash` CHAR(64) NOT NULL,
+  `used_at` DATETIME NULL,
+  `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  FOREIGN KEY `fk_recovery_codes_user` (`user_id`) REFERENCES `users` (`id`) ON DELETE CASCADE,
+  INDEX `idx_recovery_codes_user` (`user_id`, `code_hash`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+CREATE TABLE IF NOT EXISTS `two_factor_challenges` (
+  `id` BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `user_id` INT UNSIGNED NOT NULL,
+  `token_hash` CHAR(64) NOT NULL,
+  `expires_at` DATETIME NOT NULL,
+  `used_at` DATETIME NULL,
+  `attempts` TINYINT UNSIGNED NOT NULL DEFAULT 0,
+  `ip_address` VARCHAR(45) NULL,
+  `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `uq_two_factor_challenge_token` (`token_hash`),
+  FOREIGN KEY `fk_two_factor_challenge_user` (`user_id`) REFERENCES `users` (`id`) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Clean up expired challenges (optional, safe to run any time)
+-- DELETE FROM `two_factor_challenges` WHERE `expires_at` < NOW();
+
+-- Verify the changes
+DESCRIBE `users`;
+DESCRIBE `roles`;
+DESCRIBE `user_recovery_codes`;
+DESCRIBE `two_factor_challenges`;
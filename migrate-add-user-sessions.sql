@@ -0,0 +1,28 @@
+-- Migration Script: Add user_sessions table
+-- Run this script on existing databases to enable token-based sign in
+-- Description: Stores hashed access/refresh tokens so sessions can expire and be revoked
+
+CREATE TABLE IF NOT EXISTS `user_sessions` (
+  `id` BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `user_id` INT UNSIGNED NOT NULL,
+  `token_hash` CHAR(64) NOT NULL,
+  `refresh_token_hash` CHAR(64) NOT NULL,
+  `expires_at` DATETIME NOT NULL,
+  `refresh_expires_at` DATETIME NOT NULL,
+  `revoked_at` DATETIME NULL,
+  `ip_address` VARCHAR(45) NULL,
+  `user_agent` VARCHAR(255) NULL,
+  `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `last_used_at` TIMESTAMP NULL,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `uq_session_token` (`token_hash`),
+  UNIQUE KEY `uq_session_refresh_token` (`refresh_token_hash`),
+  FOREIGN KEY `fk_user_sessions_user` (`user_id`) REFERENCES `users` (`id`) ON DELETE CASCADE,
+  INDEX `idx_user_sessions_user` (`user_id`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Optional: purge sessions that can no longer be refreshed
+-- DELETE FROM `user_sessions` WHERE `refresh_expires_at` < NOW() OR `revoked_at` IS NOT NULL;
+
+-- Verify the changes
+DESCRIBE `user_sessions`;
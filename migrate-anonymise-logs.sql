@@ -0,0 +1,15 @@
+-- Migration Script: Keep anonymised logs when an account is deleted
+-- Run this script on existing databases before using self-service account deletion
+-- Description: Makes download_logs.user_id and user_activity_logs.user_id nullable
+
+-- Account deletion sets these to NULL (and clears IP addresses / details) before removing the user,
+-- so the existing ON DELETE CASCADE foreign keys no longer remove any rows.
+ALTER TABLE `download_logs`
+MODIFY COLUMN `user_id` INT UNSIGNED NULL;
+
+ALTER TABLE `user_activity_logs`
+MODIFY COLUMN `user_id` INT UNSIGNED NULL;
+
+-- Verify the changes
+DESCRIBE `download_logs`;
+DESCRIBE `user_activity_logs`;
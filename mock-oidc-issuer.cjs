@@ -0,0 +1,176 @@
+#!/usr/bin/env node
+
+// Minimal OpenID Connect issuer for trying provider sign-in locally.
+// It signs in whoever you type on its login page, so never expose it beyond localhost.
+//
+// Point the API server at it with:
+//   ENABLE_SOCIAL_LOGIN=true
+//   OIDC_PROVIDERS=mock
+//   OIDC_MOCK_NAME=Mock Provider
+//   OIDC_MOCK_ISSUER=http://localhost:9400
+//   OIDC_MOCK_CLIENT_ID=iykelib
+//   OIDC_MOCK_CLIENT_SECRET=mock-secret
+
+const http = require('http');
+const crypto = require('crypto');
+
+const PORT = process.env.MOCK_OIDC_PORT ? Number(process.env.MOCK_OIDC_PORT) : 9400;
+const ISSUER = `http://localhost:${PORT}`;
+const CLIENT_ID = process.env.MOCK_OIDC_CLIENT_ID || 'iykelib';
+const CLIENT_SECRET = process.env.MOCK_OIDC_CLIENT_SECRET || 'mock-secret';
+
+// Authorization codes and access tokens live in memory for the life of the process
+const codes = new Map();
+const accessTokens = new Map();
+
+function base64url(input) {
+  return Buffer.from(input).toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function escapeHtml(value) {
+  return String(value).replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]));
+}
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+}
+
+function readForm(req) {
+  return new Promise((resolve) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => resolve(new URLSearchParams(body)));
+  });
+}
+
+function signIdToken(claims) {
+  const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const payload = base64url(JSON.stringify(claims));
+  const signature = crypto.createHmac('sha256', CLIENT_SECRET).update(`${header}.${payload}`).digest('base64')
+    .replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  return `${header}.${payload}.${signature}`;
+}
+
+function loginPage(params) {
+  const hidden = ['client_id', 'redirect_uri', 'state', 'nonce', 'code_challenge', 'code_challenge_method']
+    .map(name => `<input type="hidden" name="${name}" value="${escapeHtml(params.get(name) || '')}">`)
+    .join('\n    ');
+  return `<!doctype html>
+<html>
+<head><title>Mock OIDC sign in</title></head>
+<body style="font-family: sans-serif; max-width: 420px; margin: 40px auto">
+  <h1>Mock OIDC provider</h1>
+  <p>Sign in as any user. The subject defaults to the email address.</p>
+  <form method="post" action="/authorize">
+    ${hidden}
+    <p><label>Email<br><input name="email" type="email" value="reader@example.com" required></label></p>
+    <p><label>Subject (optional)<br><input name="sub"></label></p>
+    <p><label>First name<br><input name="given_name" value="Mock"></label></p>
+    <p><label>Last name<br><input name="family_name" value="Reader"></label></p>
+    <p><label><input type="checkbox" name="email_verified" checked> Email is verified</label></p>
+    <p><button type="submit">Sign in</button> <button type="submit" name="deny" value="1">Deny</button></p>
+  </form>
+</body>
+</html>`;
+}
+
+async function handleAuthorize(req, res, url) {
+  const params = req.method === 'POST' ? await readForm(req) : url.searchParams;
+  if (params.get('client_id') !== CLIENT_ID || !params.get('redirect_uri')) {
+    res.writeHead(400, { 'Content-Type': 'text/plain' });
+    return res.end('Unknown client_id or missing redirect_uri');
+  }
+
+  if (req.method !== 'POST') {
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+    return res.end(loginPage(params));
+  }
+
+  const redirect = new URL(params.get('redirect_uri'));
+  redirect.searchParams.set('state', params.get('state') || '');
+  if (params.get('deny')) {
+    redirect.searchParams.set('error', 'access_denied');
+  } else {
+    const code = crypto.randomBytes(24).toString('hex');
+    const email = params.get('email');
+    codes.set(code, {
+      redirectUri: params.get('redirect_uri'),
+      nonce: params.get('nonce'),
+      codeChallenge: params.get('code_challenge'),
+      claims: {
+        sub: params.get('sub') || email,
+        email,
+        email_verified: params.get('email_verified') === 'on',
+        given_name: params.get('given_name') || undefined,
+        family_name: params.get('family_name') || undefined,
+        preferred_username: email.split('@')[0]
+      }
+    });
+    redirect.searchParams.set('code', code);
+  }
+  res.writeHead(302, { Location: redirect.toString() });
+  res.end();
+}
+
+async function handleToken(req, res) {
+  const form = await readForm(req);
+  const grant = codes.get(form.get('code'));
+  codes.delete(form.get('code'));
+
+  if (form.get('client_id') !== CLIENT_ID || form.get('client_secret') !== CLIENT_SECRET) {
+    return sendJson(res, 401, { error: 'invalid_client' });
+  }
+  if (!grant || grant.redirectUri !== form.get('redirect_uri')) {
+    return sendJson(res, 400, { error: 'invalid_grant' });
+  }
+  const challenge = base64url(crypto.createHash('sha256').update(form.get('code_verifier') || '').digest());
+  if (grant.codeChallenge && challenge !== grant.codeChallenge) {
+    return sendJson(res, 400, { error: 'invalid_grant', error_description: 'PKCE verification failed' });
+  }
+
+  const accessToken = crypto.randomBytes(24).toString('hex');
+  accessTokens.set(accessToken, grant.claims);
+  const now = Math.floor(Date.now() / 1000);
+  sendJson(res, 200, {
+    access_token: accessToken,
+    token_type: 'Bearer',
+    expires_in: 3600,
+    id_token: signIdToken({ ...grant.claims, iss: ISSUER, aud: CLIENT_ID, iat: now, exp: now + 300, nonce: grant.nonce })
+  });
+}
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url, ISSUER);
+
+  if (url.pathname === '/.well-known/openid-configuration') {
+    return sendJson(res, 200, {
+      issuer: ISSUER,
+      authorization_endpoint: `${ISSUER}/authorize`,
+      token_endpoint: `${ISSUER}/token`,
+      userinfo_endpoint: `${ISSUER}/userinfo`,
+      response_types_supported: ['code'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: ['HS256'],
+      code_challenge_methods_supported: ['S256']
+    });
+  }
+  if (url.pathname === '/authorize') {
+    return handleAuthorize(req, res, url);
+  }
+  if (url.pathname === '/token' && req.method === 'POST') {
+    return handleToken(req, res);
+  }
+  if (url.pathname === '/userinfo') {
+    const token = String(req.headers.authorization || '').replace(/^Bearer\s+/i, '');
+    const claims = accessTokens.get(token);
+    return claims ? sendJson(res, 200, claims) : sendJson(res, 401, { error: 'invalid_token' });
+  }
+
+  sendJson(res, 404, { error: 'not_found' });
+});
+
+server.listen(PORT, () => {
+  console.log(`🔑 Mock OIDC issuer running at ${ISSUER}`);
+  console.log(`   client_id=${CLIENT_ID} client_secret=${CLIENT_SECRET}`);
+});
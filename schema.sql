@@ -23,6 +23,13 @@ CREATE TABLE `users` (
   `password_hash` VARCHAR(255) NOT NULL,
   `first_name` VARCHAR(50) NULL,
   `last_name` VARCHAR(50) NULL,
+  `email_verified_at` DATETIME NULL, -- Set once the user confirms their email address
+  `failed_login_count` INT UNSIGNED NOT NULL DEFAULT 0, -- Consecutive failed sign-ins, reset on success
+  `locked_until` DATETIME NULL, -- Sign-in refused until this time (backoff or lockout)
+  `totp_secret` VARCHAR(64) NULL, -- Base32 TOTP secret once two-factor authentication is enabled
+  `totp_pending_secret` VARCHAR(64) NULL, -- Secret shown during enrollment, until confirmed with a code
+  `totp_enabled_at` DATETIME NULL,
+  `totp_last_used_step` BIGINT UNSIGNED NULL, -- Last accepted TOTP time step, to reject replayed codes
   `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
   `updated_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
   PRIMARY KEY (`id`),
@@ -34,6 +41,7 @@ CREATE TABLE `users` (
 CREATE TABLE `roles` (
   `id` INT UNSIGNED NOT NULL AUTO_INCREMENT,
   `name` VARCHAR(50) NOT NULL,
+  `require_two_factor` BOOLEAN NOT NULL DEFAULT FALSE, -- Members get no permissions until they enable 2FA
   PRIMARY KEY (`id`),
   UNIQUE KEY `uq_role_name` (`name`)
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
@@ -47,6 +55,159 @@ CREATE TABLE `user_roles` (
   FOREIGN KEY `fk_user_roles_role` (`role_id`) REFERENCES `roles` (`id`) ON DELETE CASCADE
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
 
+-- `permissions` table: Fine-grained capabilities checked by the API (e.g. 'books.write').
+CREATE TABLE `permissions` (
+  `id` INT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `name` VARCHAR(100) NOT NULL,
+  `description` VARCHAR(255) NULL,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `uq_permission_name` (`name`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- `role_permissions` table: Links roles to permissions (Many-to-Many).
+-- The 'admin' role implicitly holds every permission.
+CREATE TABLE `role_permissions` (
+  `role_id` INT UNSIGNED NOT NULL,
+  `permission_id` INT UNSIGNED NOT NULL,
+  PRIMARY KEY (`role_id`, `permission_id`),
+  FOREIGN KEY `fk_role_permissions_role` (`role_id`) REFERENCES `roles` (`id`) ON DELETE CASCADE,
+  FOREIGN KEY `fk_role_permissions_permission` (`permission_id`) REFERENCES `permissions` (`id`) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- `user_sessions` table: Server-side sessions backing the bearer tokens issued at sign in.
+-- Only SHA-256 hashes of the access and refresh tokens are stored.
+CREATE TABLE `user_sessions` (
+  `id` BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `user_id` INT UNSIGNED NOT NULL,
+  `token_hash` CHAR(64) NOT NULL,
+  `refresh_token_hash` CHAR(64) NOT NULL,
+  `expires_at` DATETIME NOT NULL, -- Access token expiry
+  `refresh_expires_at` DATETIME NOT NULL, -- Refresh token expiry
+  `revoked_at` DATETIME NULL, -- Set on sign out or refresh rotation
+  `ip_address` VARCHAR(45) NULL,
+  `user_agent` VARCHAR(255) NULL,
+  `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `last_used_at` TIMESTAMP NULL,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `uq_session_token` (`token_hash`),
+  UNIQUE KEY `uq_session_refresh_token` (`refresh_token_hash`),
+  FOREIGN KEY `fk_user_sessions_user` (`user_id`) REFERENCES `users` (`id`) ON DELETE CASCADE,
+  INDEX `idx_user_sessions_user` (`user_id`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- `password_reset_tokens` table: One-time tokens emailed by the forgot-password flow.
+-- Only the SHA-256 hash of the token is stored.
+CREATE TABLE `password_reset_tokens` (
+  `id` BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `user_id` INT UNSIGNED NOT NULL,
+  `token_hash` CHAR(64) NOT NULL,
+  `expires_at` DATETIME NOT NULL,
+  `used_at` DATETIME NULL, -- Set when consumed or superseded by a newer request
+  `ip_address` VARCHAR(45) NULL,
+  `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `uq_password_reset_token` (`token_hash`),
+  FOREIGN KEY `fk_password_reset_user` (`user_id`) REFERENCES `users` (`id`) ON DELETE CASCADE,
+  INDEX `idx_password_reset_user` (`user_id`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- `email_verification_tokens` table: One-time tokens proving ownership of an email address.
+CREATE TABLE `email_verification_tokens` (
+  `id` BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `user_id` INT UNSIGNED NOT NULL,
+  `email` VARCHAR(255) NOT NULL, -- Address the token was sent to
+  `token_hash` CHAR(64) NOT NULL,
+  `expires_at` DATETIME NOT NULL,
+  `used_at` DATETIME NULL,
+  `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `uq_email_verification_token` (`token_hash`),
+  FOREIGN KEY `fk_email_verification_user` (`user_id`) REFERENCES `users` (`id`) ON DELETE CASCADE,
+  INDEX `idx_email_verification_user` (`user_id`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- `user_recovery_codes` table: Single-use codes for signing in without the authenticator app.
+-- Only SHA-256 hashes are stored; the codes are shown to the user once.
+CREATE TABLE `user_recovery_codes` (
+  `id` BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `user_id` INT UNSIGNED NOT NULL,
+  `code_hash` CHAR(64) NOT NULL,
+  `used_at` DATETIME NULL,
+  `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  FOREIGN KEY `fk_recovery_codes_user` (`user_id`) REFERENCES `users` (`id`) ON DELETE CASCADE,
+  INDEX `idx_recovery_codes_user` (`user_id`, `code_hash`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- `two_factor_challenges` table: Pending sign-ins waiting for a TOTP or recovery code.
+CREATE TABLE `two_factor_challenges` (
+  `id` BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `user_id` INT UNSIGNED NOT NULL,
+  `token_hash` CHAR(64) NOT NULL,
+  `expires_at` DATETIME NOT NULL,
+  `used_at` DATETIME NULL,
+  `attempts` TINYINT UNSIGNED NOT NULL DEFAULT 0, -- Wrong codes entered against this challenge
+  `ip_address` VARCHAR(45) NULL,
+  `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `uq_two_factor_challenge_token` (`token_hash`),
+  FOREIGN KEY `fk_two_factor_challenge_user` (`user_id`) REFERENCES `users` (`id`) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- `user_identities` table: Accounts at external OpenID Connect / OAuth providers linked to a user.
+CREATE TABLE `user_identities` (
+  `id` INT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `user_id` INT UNSIGNED NOT NULL,
+  `provider` VARCHAR(50) NOT NULL, -- Provider id from OIDC_PROVIDERS
+  `subject` VARCHAR(255) NOT NULL, -- The provider's stable user id (`sub` claim)
+  `email` VARCHAR(255) NULL, -- Address the provider reported when the link was made
+  `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `last_used_at` DATETIME NULL,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `uq_user_identity_subject` (`provider`, `subject`),
+  UNIQUE KEY `uq_user_identity_provider` (`user_id`, `provider`),
+  FOREIGN KEY `fk_user_identity_user` (`user_id`) REFERENCES `users` (`id`) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- `oidc_login_requests` table: Provider sign-ins and account links in progress.
+-- Holds the state, nonce and PKCE verifier until the provider redirects back, then a one-time
+-- handoff code the web app exchanges for a session.
+CREATE TABLE `oidc_login_requests` (
+  `id` BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `provider` VARCHAR(50) NOT NULL,
+  `state_hash` CHAR(64) NOT NULL,
+  `nonce` VARCHAR(64) NOT NULL,
+  `code_verifier` VARCHAR(128) NOT NULL,
+  `link_user_id` INT UNSIGNED NULL, -- Set when a signed-in user is linking a provider
+  `user_id` INT UNSIGNED NULL, -- User resolved by the callback
+  `handoff_hash` CHAR(64) NULL,
+  `expires_at` DATETIME NOT NULL,
+  `used_at` DATETIME NULL, -- Callback received
+  `completed_at` DATETIME NULL, -- Handoff code exchanged
+  `ip_address` VARCHAR(45) NULL,
+  `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `uq_oidc_login_state` (`state_hash`),
+  UNIQUE KEY `uq_oidc_login_handoff` (`handoff_hash`),
+  FOREIGN KEY `fk_oidc_login_link_user` (`link_user_id`) REFERENCES `users` (`id`) ON DELETE CASCADE,
+  FOREIGN KEY `fk_oidc_login_user` (`user_id`) REFERENCES `users` (`id`) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- `user_app_tokens` table: Long-lived tokens for e-reader apps browsing the OPDS catalog.
+-- Only the SHA-256 hash is stored; the last four characters help users tell tokens apart.
+CREATE TABLE `user_app_tokens` (
+  `id` INT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `user_id` INT UNSIGNED NOT NULL,
+  `name` VARCHAR(100) NOT NULL, -- Chosen by the user, usually the device
+  `token_hash` CHAR(64) NOT NULL,
+  `token_hint` CHAR(4) NOT NULL,
+  `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `last_used_at` TIMESTAMP NULL,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `uq_app_token` (`token_hash`),
+  FOREIGN KEY `fk_app_token_user` (`user_id`) REFERENCES `users` (`id`) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
 
 -- =============================================
 -- SECTION 2: CONTENT MANAGEMENT
@@ -62,6 +223,18 @@ CREATE TABLE `categories` (
   UNIQUE KEY `uq_slug` (`slug`)
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
 
+-- `series` table: Named series of books, e.g. "You Don't Know JS". Books join one through
+-- books.series_id, with their volume number in books.series_position.
+CREATE TABLE `series` (
+  `id` INT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `name` VARCHAR(255) NOT NULL,
+  `description` TEXT NULL,
+  `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `updated_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `uq_series_name` (`name`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
 -- `books` table: Stores all book details.
 CREATE TABLE `books` (
   `id` INT UNSIGNED NOT NULL AUTO_INCREMENT,
@@ -71,8 +244,8 @@ CREATE TABLE `books` (
   `description` TEXT NULL,
   `isbn` VARCHAR(20) NULL,
   `book_type` ENUM('file', 'link', 'purchase') NOT NULL DEFAULT 'file',
-  `file_path` VARCHAR(255) NULL, -- Original filename for display
-  `file_content` LONGBLOB NULL, -- Actual file content stored in database
+  `file_path` VARCHAR(255) NULL, -- Storage location (/uploads/... or s3://bucket/key); the original filename for legacy blob rows
+  `file_content` LONGBLOB NULL, -- Legacy: file content stored in the database until the storage migration moves it out
   `file_size` INT NULL, -- File size in bytes
   `file_type` VARCHAR(100) NULL, -- MIME type (e.g., application/pdf)
   `external_link` VARCHAR(500) NULL, -- URL for external book (for link type)
@@ -80,16 +253,133 @@ CREATE TABLE `books` (
   `price` DECIMAL(10, 2) NULL, -- Price for purchase type books
   `currency` VARCHAR(3) DEFAULT 'USD', -- Currency for price
   `cover_image_path` VARCHAR(255) NULL,
-  `thumbnail_content` LONGBLOB NULL,
+  `thumbnail_content` LONGBLOB NULL, -- Legacy: thumbnails now go to file storage (thumbnail_path)
+  `thumbnail_path` VARCHAR(255) NULL, -- Storage location of the generated thumbnail
   `thumbnail_mime` VARCHAR(100) NULL,
   `published_year` SMALLINT NULL,
   `page_count` INT NULL,
+  `series_id` INT UNSIGNED NULL, -- Series the book is a volume of
+  `series_position` SMALLINT UNSIGNED NULL, -- Volume number within the series (reading order)
+  `license` ENUM('cc-by', 'cc-by-sa', 'cc-by-nd', 'cc-by-nc', 'cc-by-nc-sa', 'cc-by-nc-nd', 'cc0', 'public-domain', 'all-rights-reserved') NULL, -- NULL when unknown
+  `access_level` ENUM('public', 'signed_in', 'restricted') NOT NULL DEFAULT 'public', -- Who may open the book and its files
+  `access_role_id` INT UNSIGNED NULL, -- Role a restricted book is open to; NULL means staff only
+  `link_hidden_at` TIMESTAMP NULL, -- Set by the link checker while the external or purchase link has been broken too long
   `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
   `updated_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
   PRIMARY KEY (`id`),
   FOREIGN KEY `fk_books_category` (`category_id`) REFERENCES `categories` (`id`) ON DELETE RESTRICT,
+  FOREIGN KEY `fk_books_series` (`series_id`) REFERENCES `series` (`id`) ON DELETE SET NULL,
+  FOREIGN KEY `fk_books_access_role` (`access_role_id`) REFERENCES `roles` (`id`) ON DELETE SET NULL,
   INDEX `idx_book_title` (`title`),
-  INDEX `idx_book_type` (`book_type`)
+  INDEX `idx_book_type` (`book_type`),
+  INDEX `idx_book_series` (`series_id`, `series_position`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- `book_files` table: Every downloadable file of a book, one row per format, edition or language.
+-- The primary file is mirrored into books.file_path/file_type/file_size for the reader and text search.
+CREATE TABLE `book_files` (
+  `id` INT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `book_id` INT UNSIGNED NOT NULL,
+  `format` VARCHAR(20) NOT NULL, -- File extension, e.g. pdf or epub
+  `edition` VARCHAR(100) NULL, -- e.g. "2nd edition"
+  `language` VARCHAR(35) NULL, -- BCP 47 tag, e.g. en or pt-BR
+  `file_path` VARCHAR(255) NOT NULL, -- Storage location: /uploads/... or s3://bucket/key
+  `file_name` VARCHAR(255) NULL, -- Original file name
+  `file_type` VARCHAR(100) NULL, -- MIME type
+  `file_size` INT NULL, -- File size in bytes
+  `is_primary` BOOLEAN NOT NULL DEFAULT FALSE, -- Served when a download does not name a file
+  `file_hash` CHAR(64) NULL, -- SHA-256 of the file's bytes, for spotting the same file uploaded twice
+  `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  FOREIGN KEY `fk_book_files_book` (`book_id`) REFERENCES `books` (`id`) ON DELETE CASCADE,
+  INDEX `idx_book_files_book` (`book_id`, `is_primary`),
+  INDEX `idx_book_files_hash` (`file_hash`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- `book_duplicate_dismissals` table: Pairs of books an admin marked as "not duplicates",
+-- so the Duplicates view stops suggesting them. Stored with book_id < other_book_id.
+CREATE TABLE `book_duplicate_dismissals` (
+  `book_id` INT UNSIGNED NOT NULL,
+  `other_book_id` INT UNSIGNED NOT NULL,
+  `dismissed_by` INT UNSIGNED NULL,
+  `dismissed_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`book_id`, `other_book_id`),
+  FOREIGN KEY `fk_dup_dismissal_book` (`book_id`) REFERENCES `books` (`id`) ON DELETE CASCADE,
+  FOREIGN KEY `fk_dup_dismissal_other` (`other_book_id`) REFERENCES `books` (`id`) ON DELETE CASCADE,
+  FOREIGN KEY `fk_dup_dismissal_user` (`dismissed_by`) REFERENCES `users` (`id`) ON DELETE SET NULL
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- `book_price_history` table: Every price a purchase book has had, newest last.
+-- A row is added when a book is created with a price or its price or currency changes.
+CREATE TABLE `book_price_history` (
+  `id` INT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `book_id` INT UNSIGNED NOT NULL,
+  `price` DECIMAL(10, 2) NOT NULL,
+  `currency` VARCHAR(3) NOT NULL,
+  `changed_by` INT UNSIGNED NULL, -- Admin who set the price; NULL for imports and deleted users
+  `recorded_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  FOREIGN KEY `fk_price_history_book` (`book_id`) REFERENCES `books` (`id`) ON DELETE CASCADE,
+  FOREIGN KEY `fk_price_history_user` (`changed_by`) REFERENCES `users` (`id`) ON DELETE SET NULL,
+  INDEX `idx_price_history_book` (`book_id`, `recorded_at`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- `exchange_rates` table: Admin-maintained rates for showing prices in a visitor's currency.
+-- Rates are units of the currency per 1 USD; USD itself is always 1 and has no row.
+CREATE TABLE `exchange_rates` (
+  `currency` CHAR(3) NOT NULL, -- ISO 4217 code, e.g. EUR
+  `rate` DECIMAL(18, 8) NOT NULL,
+  `updated_by` INT UNSIGNED NULL,
+  `updated_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  PRIMARY KEY (`currency`),
+  FOREIGN KEY `fk_exchange_rates_user` (`updated_by`) REFERENCES `users` (`id`) ON DELETE SET NULL
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- `book_text_pages` table: Text extracted from book files, one row per page, for full-text search.
+-- EPUBs have no pages, so their "pages" are chunks of about 1600 characters (the reader's locations).
+CREATE TABLE `book_text_pages` (
+  `book_id` INT UNSIGNED NOT NULL,
+  `page` INT UNSIGNED NOT NULL, -- 1-based; opens the reader at this page
+  `content` MEDIUMTEXT NOT NULL,
+  PRIMARY KEY (`book_id`, `page`),
+  FULLTEXT KEY `ft_book_text_content` (`content`),
+  FOREIGN KEY `fk_book_text_book` (`book_id`) REFERENCES `books` (`id`) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- `book_imports` table: Bulk imports from a CSV/JSON manifest and an optional ZIP of files.
+-- An import is validated (dry run) first and only runs once an admin starts it.
+CREATE TABLE `book_imports` (
+  `id` INT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `created_by` INT UNSIGNED NULL,
+  `manifest_name` VARCHAR(255) NOT NULL,
+  `archive_path` VARCHAR(500) NULL, -- Server-side copy of the uploaded ZIP, removed when the import ends
+  `status` ENUM('validated', 'running', 'completed', 'failed') NOT NULL DEFAULT 'validated',
+  `total_rows` INT UNSIGNED NOT NULL DEFAULT 0,
+  `valid_rows` INT UNSIGNED NOT NULL DEFAULT 0,
+  `imported_rows` INT UNSIGNED NOT NULL DEFAULT 0,
+  `failed_rows` INT UNSIGNED NOT NULL DEFAULT 0,
+  `error` VARCHAR(500) NULL,
+  `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `started_at` DATETIME NULL,
+  `finished_at` DATETIME NULL,
+  PRIMARY KEY (`id`),
+  INDEX `idx_book_import_created` (`created_at`),
+  FOREIGN KEY `fk_book_import_user` (`created_by`) REFERENCES `users` (`id`) ON DELETE SET NULL
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- `book_import_rows` table: One row per manifest entry with its validation and import result.
+CREATE TABLE `book_import_rows` (
+  `id` INT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `import_id` INT UNSIGNED NOT NULL,
+  `line` INT UNSIGNED NOT NULL, -- 1-based position in the manifest (CSV header excluded)
+  `data` JSON NOT NULL, -- The manifest row as read
+  `status` ENUM('valid', 'invalid', 'imported', 'failed') NOT NULL,
+  `messages` JSON NULL, -- { errors: [...], warnings: [...] }
+  `book_id` INT UNSIGNED NULL,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `uq_book_import_line` (`import_id`, `line`),
+  FOREIGN KEY `fk_book_import_row_import` (`import_id`) REFERENCES `book_imports` (`id`) ON DELETE CASCADE,
+  FOREIGN KEY `fk_book_import_row_book` (`book_id`) REFERENCES `books` (`id`) ON DELETE SET NULL
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
 
 -- `tutorials` table: Stores all tutorial details.
@@ -104,14 +394,50 @@ CREATE TABLE `tutorials` (
   `content_url` VARCHAR(255) NULL, -- URL for videos or external PDFs
   `embed_url` VARCHAR(1000) NULL, -- Optional full embed URL for quizzes/certifications
   `file_path` VARCHAR(255) NULL,   -- Path for locally hosted PDFs
+  `license` ENUM('cc-by', 'cc-by-sa', 'cc-by-nd', 'cc-by-nc', 'cc-by-nc-sa', 'cc-by-nc-nd', 'cc0', 'public-domain', 'all-rights-reserved') NULL, -- NULL when unknown
+  `access_level` ENUM('public', 'signed_in', 'restricted') NOT NULL DEFAULT 'public', -- Who may open the tutorial
+  `access_role_id` INT UNSIGNED NULL, -- Role a restricted tutorial is open to; NULL means staff only
+  `link_hidden_at` TIMESTAMP NULL, -- Set by the link checker while content_url or embed_url has been broken too long
   `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
   `updated_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
   PRIMARY KEY (`id`),
   FOREIGN KEY `fk_tutorials_category` (`category_id`) REFERENCES `categories` (`id`) ON DELETE RESTRICT,
+  FOREIGN KEY `fk_tutorials_access_role` (`access_role_id`) REFERENCES `roles` (`id`) ON DELETE SET NULL,
   INDEX `idx_tutorial_title` (`title`),
   INDEX `idx_tutorial_creator` (`creator`)
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
 
+-- `external_links` table: Every outside URL a book or tutorial points at, with its latest check.
+-- Books and tutorials find their row by SHA-256 of the URL, so the URL columns need no index.
+CREATE TABLE `external_links` (
+  `url_hash` CHAR(64) NOT NULL, -- SHA-256 (hex) of url
+  `url` VARCHAR(1000) NOT NULL,
+  `status` ENUM('ok', 'broken', 'unreachable') NULL, -- NULL until first checked
+  `status_code` SMALLINT UNSIGNED NULL, -- HTTP status of the last response, after redirects
+  `error` VARCHAR(255) NULL, -- Why an unreachable URL could not be fetched
+  `final_url` VARCHAR(1000) NULL, -- Where redirects ended
+  `last_checked_at` TIMESTAMP NULL,
+  `broken_since` TIMESTAMP NULL, -- First failed check of the current run of failures
+  `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`url_hash`),
+  INDEX `idx_external_links_checked` (`last_checked_at`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- `external_link_checks` table: Status history of each external link, one row per check.
+CREATE TABLE `external_link_checks` (
+  `id` BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `url_hash` CHAR(64) NOT NULL,
+  `status` ENUM('ok', 'broken', 'unreachable') NOT NULL,
+  `status_code` SMALLINT UNSIGNED NULL,
+  `error` VARCHAR(255) NULL,
+  `response_ms` INT UNSIGNED NULL,
+  `checked_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  FOREIGN KEY `fk_link_check_link` (`url_hash`) REFERENCES `external_links` (`url_hash`) ON DELETE CASCADE,
+  INDEX `idx_link_checks_link` (`url_hash`, `checked_at`),
+  INDEX `idx_link_checks_time` (`checked_at`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
 -- `tags` table: Stores all available tags for content.
 CREATE TABLE `tags` (
   `id` INT UNSIGNED NOT NULL AUTO_INCREMENT,
@@ -132,6 +458,29 @@ CREATE TABLE `content_tags` (
   INDEX `idx_content_tags_content` (`content_id`, `content_type`)
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
 
+-- `contributors` table: People credited on books and tutorials (authors, editors, translators, instructors).
+CREATE TABLE `contributors` (
+  `id` INT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `name` VARCHAR(255) NOT NULL,
+  `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `updated_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `uq_contributor_name` (`name`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- `content_contributors`: Polymorphic pivot table crediting contributors on books and tutorials, with their role.
+-- books.author and tutorials.creator remain the display text.
+CREATE TABLE `content_contributors` (
+  `contributor_id` INT UNSIGNED NOT NULL,
+  `content_id` INT UNSIGNED NOT NULL,
+  `content_type` ENUM('book', 'tutorial') NOT NULL,
+  `role` ENUM('author', 'editor', 'translator', 'instructor') NOT NULL DEFAULT 'author',
+  `position` SMALLINT UNSIGNED NOT NULL DEFAULT 0, -- Credit order on the item
+  PRIMARY KEY (`content_type`, `content_id`, `contributor_id`, `role`),
+  FOREIGN KEY `fk_content_contributors_contributor` (`contributor_id`) REFERENCES `contributors` (`id`) ON DELETE CASCADE,
+  INDEX `idx_content_contributors_contributor` (`contributor_id`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
 -- `book_tutorial_recommendations`: Links books to recommended tutorials (Many-to-Many).
 CREATE TABLE `book_tutorial_recommendations` (
   `book_id` INT UNSIGNED NOT NULL,
@@ -224,9 +573,11 @@ CREATE TABLE `reading_history` (
   `content_id` INT UNSIGNED NOT NULL,
   `content_type` ENUM('book', 'tutorial') NOT NULL,
   `progress` VARCHAR(50) NULL, -- e.g., "page 50" or "25:30" timestamp
+  `book_file_id` INT UNSIGNED NULL, -- Which of a book's files (format / edition) the position is in; NULL for its primary file
   `last_accessed_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
   PRIMARY KEY (`id`),
   FOREIGN KEY `fk_history_user` (`user_id`) REFERENCES `users` (`id`) ON DELETE CASCADE,
+  FOREIGN KEY `fk_history_book_file` (`book_file_id`) REFERENCES `book_files` (`id`) ON DELETE SET NULL,
   UNIQUE KEY `uq_user_content_history` (`user_id`, `content_id`, `content_type`)
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
 
@@ -253,16 +604,34 @@ CREATE TABLE `comments` (
 -- `download_logs`: Logs every file download for analytics.
 CREATE TABLE `download_logs` (
   `id` BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
-  `user_id` INT UNSIGNED NOT NULL,
+  `user_id` INT UNSIGNED NULL, -- NULL once the user deletes their account
   `content_id` INT UNSIGNED NOT NULL,
   `content_type` ENUM('book', 'tutorial') NOT NULL,
   `downloaded_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
   `ip_address` VARCHAR(45) NULL,
+  `book_file_id` INT UNSIGNED NULL, -- Which of a book's files was downloaded
   PRIMARY KEY (`id`),
-  FOREIGN KEY `fk_download_logs_user` (`user_id`) REFERENCES `users` (`id`) ON DELETE CASCADE,
+  FOREIGN KEY `fk_download_logs_user` (`user_id`) REFERENCES `users` (`id`) ON DELETE SET NULL,
+  FOREIGN KEY `fk_download_logs_book_file` (`book_file_id`) REFERENCES `book_files` (`id`) ON DELETE SET NULL,
   INDEX `idx_download_logs_content` (`content_id`, `content_type`)
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
 
+-- `purchase_clicks`: Logs every click on a purchase link, made through /api/books/:id/purchase.
+-- The link is stored as clicked, so clicks stay attributed to the right shop when a link changes.
+CREATE TABLE `purchase_clicks` (
+  `id` BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
+  `user_id` INT UNSIGNED NULL, -- NULL for visitors who are not signed in
+  `book_id` INT UNSIGNED NOT NULL,
+  `purchase_link` VARCHAR(500) NOT NULL,
+  `clicked_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `ip_address` VARCHAR(45) NULL,
+  PRIMARY KEY (`id`),
+  FOREIGN KEY `fk_purchase_clicks_user` (`user_id`) REFERENCES `users` (`id`) ON DELETE SET NULL,
+  FOREIGN KEY `fk_purchase_clicks_book` (`book_id`) REFERENCES `books` (`id`) ON DELETE CASCADE,
+  INDEX `idx_purchase_clicks_book` (`book_id`, `clicked_at`),
+  INDEX `idx_purchase_clicks_time` (`clicked_at`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
 -- `view_logs`: Logs content views for tracking popularity.
 CREATE TABLE `view_logs` (
   `id` BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
@@ -289,16 +658,38 @@ CREATE TABLE `search_history` (
 -- `user_activity_logs`: Generic log for important user actions.
 CREATE TABLE `user_activity_logs` (
   `id` BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,
-  `user_id` INT UNSIGNED NOT NULL,
+  `user_id` INT UNSIGNED NULL, -- NULL once the user deletes their account
   `action_type` VARCHAR(50) NOT NULL, -- e.g., 'USER_LOGIN', 'BOOK_UPLOAD'
   `details` TEXT NULL,
   `created_at` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
   PRIMARY KEY (`id`),
-  FOREIGN KEY `fk_activity_logs_user` (`user_id`) REFERENCES `users` (`id`) ON DELETE CASCADE
+  FOREIGN KEY `fk_activity_logs_user` (`user_id`) REFERENCES `users` (`id`) ON DELETE SET NULL
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
 
 SET FOREIGN_KEY_CHECKS = 1;
 
+-- =============================================
+-- DEFAULT ROLES & PERMISSIONS
+-- =============================================
+
+INSERT IGNORE INTO `roles` (`name`) VALUES ('admin'), ('moderator'), ('user');
+
+INSERT IGNORE INTO `permissions` (`name`, `description`) VALUES
+  ('admin.access', 'Open the admin panel'),
+  ('books.write', 'Create, edit and delete books'),
+  ('tutorials.write', 'Create, edit and delete tutorials'),
+  ('categories.write', 'Create, edit and delete categories'),
+  ('comments.moderate', 'Moderate user comments'),
+  ('analytics.read', 'View analytics and activity reports'),
+  ('users.manage', 'Create, edit and delete user accounts'),
+  ('settings.manage', 'Change site settings and role permissions');
+
+-- Moderators curate content but cannot manage users or settings
+INSERT IGNORE INTO `role_permissions` (`role_id`, `permission_id`)
+SELECT r.id, p.id FROM `roles` r JOIN `permissions` p
+WHERE r.name = 'moderator'
+  AND p.name IN ('admin.access', 'books.write', 'tutorials.write', 'categories.write', 'comments.moderate');
+
 -- =============================================
 -- MIGRATION SCRIPTS FOR EXISTING DATABASES
 -- =============================================
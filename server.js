@@ -8,42 +8,42 @@ import dotenv from 'dotenv';
 import bcrypt from 'bcryptjs';
 import { fromPath } from 'pdf2pic';
 import sharp from 'sharp';
-import { writeFileSync, unlinkSync, mkdirSync, existsSync, createReadStream } from 'fs';
-import { join, extname } from 'path';
+import { writeFileSync, readFileSync, unlinkSync, mkdirSync, existsSync } from 'fs';
+import { join, extname, posix } from 'path';
 import { tmpdir } from 'os';
+import { pipeline } from 'stream';
+import { randomBytes, createHash, timingSafeEqual } from 'crypto';
 import multer from 'multer';
-import { S3Client, PutObjectCommand, GetObjectCommand } from '@aws-sdk/client-s3';
-import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { createMailer } from './server/mailer.js';
+import { createFileStorage } from './server/storage.js';
+import { generateTotpSecret, buildOtpauthUrl, verifyTotp, generateRecoveryCodes, normalizeRecoveryCode } from './server/totp.js';
+import QRCode from 'qrcode';
+import { loadOidcProviders, getProviderEndpoints, createAuthorizationRequest, buildAuthorizationUrl, completeAuthorization } from './server/oidc.js';
+import { bookTextFormat, extractBookText, searchTerms, buildSnippet } from './server/book-text.js';
+import { normalizeIsbn, loadMetadataProviders, lookupBookMetadata, fetchCoverImage } from './server/book-metadata.js';
+import { findLikelyDuplicates, findDuplicatePairs } from './server/book-duplicates.js';
+import { checkUrls, isCheckableUrl } from './server/link-checker.js';
+import { CONTRIBUTOR_ROLES, parseContributors, normalizeContributors, formatContributors, hasEtAl } from './server/contributors.js';
+import { validateContentAccess, contentAccessDenial, withoutContentLinks } from './server/content-access.js';
+import { parseManifest, findArchiveEntry, mimeTypeForFile, openArchive } from './server/book-import.js';
+import { BOOK_EXPORT_COLUMNS, TUTORIAL_EXPORT_COLUMNS, createExportStream } from './server/catalog-export.js';
+import { OPDS1_CONTENT_TYPE, OPDS2_CONTENT_TYPE, renderOpds1, renderOpds2, renderOpds2Publication, renderOpenSearchDescription } from './server/opds.js';
 dotenv.config();
 
 const app = express();
 app.use(cors());
 
-// S3 configuration (optional)
-const S3_BUCKET = process.env.S3_BUCKET || process.env.AWS_S3_BUCKET || '';
-const S3_REGION = process.env.S3_REGION || process.env.AWS_REGION || '';
-const S3_ACCESS_KEY = process.env.S3_ACCESS_KEY_ID || process.env.AWS_ACCESS_KEY_ID || '';
-const S3_SECRET = process.env.S3_SECRET_ACCESS_KEY || process.env.AWS_SECRET_ACCESS_KEY || '';
-
-let s3Client = null;
-if (S3_BUCKET && S3_REGION && S3_ACCESS_KEY && S3_SECRET) {
-  s3Client = new S3Client({
-    region: S3_REGION,
-    credentials: {
-      accessKeyId: S3_ACCESS_KEY,
-      secretAccessKey: S3_SECRET
-    }
-  });
-}
-
 // Create uploads directory if it doesn't exist
 const uploadsDir = join(process.cwd(), 'uploads');
 if (!existsSync(uploadsDir)) {
   mkdirSync(uploadsDir, { recursive: true });
 }
 
-// Serve uploaded files statically
-app.use('/uploads', express.static(uploadsDir));
+// Where book files and thumbnails are stored: local disk or S3 (see server/storage.js)
+const fileStorage = createFileStorage({ uploadsDir });
+
+// Serve uploaded files statically; files used by a book or tutorial only to those allowed to open it
+app.use('/uploads', guardStoredFiles, express.static(uploadsDir));
 
 // Configure multer for file uploads
 const storage = multer.diskStorage({
@@ -125,13 +125,15 @@ app.use((err, req, res, next) => {
   next(err);
 });
 
-const db = mysql.createConnection({
+const dbConfig = {
   host: process.env.MYSQL_HOST || '',
   user: process.env.MYSQL_USER || '',
   password: process.env.MYSQL_PASSWORD || '',
   database: process.env.MYSQL_DATABASE || '',
   port: process.env.MYSQL_PORT ? Number(process.env.MYSQL_PORT) : 3306
-});
+};
+
+const db = mysql.createConnection(dbConfig);
 
 // Handle database connection
 db.connect((err) => {
@@ -152,6 +154,383 @@ db.on('error', (err) => {
   }
 });
 
+// Runs a query on the shared connection and resolves with its results, for handlers written with async/await
+function dbQuery(sql, params = []) {
+  return new Promise((resolve, reject) => {
+    db.query(sql, params, (err, results) => (err ? reject(err) : resolve(results)));
+  });
+}
+
+// =============================================
+// SESSION TOKENS
+// =============================================
+
+// Access tokens are short-lived; refresh tokens let the client rotate them without a password.
+// Both are opaque random strings and only their SHA-256 hashes are stored in `user_sessions`.
+const SESSION_TTL_MINUTES = process.env.SESSION_TTL_MINUTES ? Number(process.env.SESSION_TTL_MINUTES) : 60;
+const SESSION_REFRESH_TTL_DAYS = process.env.SESSION_REFRESH_TTL_DAYS ? Number(process.env.SESSION_REFRESH_TTL_DAYS) : 30;
+
+// Helper to hash a raw session token before it is stored or looked up
+function hashToken(token) {
+  return createHash('sha256').update(String(token)).digest('hex');
+}
+
+// Create a session for a user and return the raw tokens (they are never stored in plain text)
+async function issueSession(userId, req) {
+  const accessToken = randomBytes(32).toString('hex');
+  const refreshToken = randomBytes(48).toString('hex');
+  const userAgent = String(req.get('user-agent') || '').slice(0, 255);
+
+  await new Promise((resolve, reject) => {
+    db.query(
+      `INSERT INTO user_sessions (user_id, token_hash, refresh_token_hash, expires_at, refresh_expires_at, ip_address, user_agent)
+       VALUES (?, ?, ?, DATE_ADD(NOW(), INTERVAL ? MINUTE), DATE_ADD(NOW(), INTERVAL ? DAY), ?, ?)`,
+      [userId, hashToken(accessToken), hashToken(refreshToken), SESSION_TTL_MINUTES, SESSION_REFRESH_TTL_DAYS, req.ip || null, userAgent || null],
+      (err) => (err ? reject(err) : resolve())
+    );
+  });
+
+  return {
+    access_token: accessToken,
+    refresh_token: refreshToken,
+    token_type: 'Bearer',
+    expires_at: new Date(Date.now() + SESSION_TTL_MINUTES * 60 * 1000).toISOString(),
+    refresh_expires_at: new Date(Date.now() + SESSION_REFRESH_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString()
+  };
+}
+
+// Helper to read the bearer token from the Authorization header
+function getBearerToken(req) {
+  const header = req.header('authorization');
+  if (!header || typeof header !== 'string') return null;
+  const [scheme, token] = header.trim().split(/\s+/);
+  if (!scheme || scheme.toLowerCase() !== 'bearer' || !token) return null;
+  return token;
+}
+
+// Resolve the user behind the request's access token.
+// Returns null for missing, expired or revoked tokens and for deactivated accounts.
+async function getSessionUser(req) {
+  if (req.sessionUser !== undefined) return req.sessionUser;
+
+  const token = getBearerToken(req);
+  if (!token) {
+    req.sessionUser = null;
+    return null;
+  }
+
+  const sql = `
+    SELECT s.id AS session_id, u.id, u.email, u.username, u.is_active
+    FROM user_sessions s
+    JOIN users u ON u.id = s.user_id
+    WHERE s.token_hash = ? AND s.revoked_at IS NULL AND s.expires_at > NOW()
+    LIMIT 1
+  `;
+  const rows = await new Promise((resolve, reject) => {
+    db.query(sql, [hashToken(token)], (err, results) => (err ? reject(err) : resolve(results)));
+  });
+
+  const row = Array.isArray(rows) && rows.length > 0 ? rows[0] : null;
+  if (!row || row.is_active === 0 || row.is_active === false) {
+    req.sessionUser = null;
+    return null;
+  }
+
+  db.query('UPDATE user_sessions SET last_used_at = CURRENT_TIMESTAMP WHERE id = ?', [row.session_id], (err) => {
+    if (err) console.error('Failed to update session last_used_at:', err);
+  });
+
+  req.sessionUser = { id: row.id, email: row.email, username: row.username, sessionId: row.session_id };
+  return req.sessionUser;
+}
+
+// Helper to revoke a single session by one of its raw tokens
+function revokeSessionByToken(column, token) {
+  return new Promise((resolve, reject) => {
+    db.query(
+      `UPDATE user_sessions SET revoked_at = CURRENT_TIMESTAMP WHERE ${column} = ? AND revoked_at IS NULL`,
+      [hashToken(token)],
+      (err, result) => (err ? reject(err) : resolve(result.affectedRows > 0))
+    );
+  });
+}
+
+// Helper to revoke every open session of a user (role change, deactivation)
+function revokeUserSessions(userId) {
+  return new Promise((resolve, reject) => {
+    db.query(
+      'UPDATE user_sessions SET revoked_at = CURRENT_TIMESTAMP WHERE user_id = ? AND revoked_at IS NULL',
+      [userId],
+      (err, result) => (err ? reject(err) : resolve(result.affectedRows))
+    );
+  });
+}
+
+// Helper to record an entry in user_activity_logs (failures are logged, never thrown)
+function logUserActivity(userId, actionType, details = null) {
+  db.query(
+    'INSERT INTO user_activity_logs (user_id, action_type, details) VALUES (?, ?, ?)',
+    [userId, actionType, details ? JSON.stringify(details) : null],
+    (err) => {
+      if (err) console.error(`Failed to log ${actionType} activity:`, err);
+    }
+  );
+}
+
+// =============================================
+// LOGIN THROTTLING
+// =============================================
+
+// Per-account: the first few failures are free, then each failure doubles the wait,
+// and reaching LOGIN_MAX_FAILURES locks the account for LOGIN_LOCKOUT_MINUTES.
+const LOGIN_FREE_ATTEMPTS = parseInt(process.env.LOGIN_FREE_ATTEMPTS || '3', 10);
+const LOGIN_MAX_FAILURES = parseInt(process.env.LOGIN_MAX_FAILURES || '10', 10);
+const LOGIN_LOCKOUT_MINUTES = parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15', 10);
+// Per-IP: same backoff, with a larger allowance since several people may share an address
+const LOGIN_IP_FREE_ATTEMPTS = parseInt(process.env.LOGIN_IP_FREE_ATTEMPTS || '10', 10);
+
+// Seconds to wait after the given number of consecutive failures
+function loginBackoffSeconds(failures, freeAttempts) {
+  if (failures <= freeAttempts) return 0;
+  return Math.min(2 ** (failures - freeAttempts), LOGIN_LOCKOUT_MINUTES * 60);
+}
+
+// In-memory per-IP failure counters: ip -> { count, blockedUntil, lastFailureAt }. Successful sign ins
+// do not clear them; an IP is forgotten once it has been quiet for a lockout period.
+const ipLoginFailures = new Map();
+
+function getIpRetryAfterSeconds(ip) {
+  const entry = ipLoginFailures.get(ip);
+  if (!entry || entry.blockedUntil <= Date.now()) return 0;
+  return Math.ceil((entry.blockedUntil - Date.now()) / 1000);
+}
+
+function recordIpLoginFailure(ip) {
+  const entry = ipLoginFailures.get(ip) || { count: 0, blockedUntil: 0, lastFailureAt: 0 };
+  entry.count += 1;
+  entry.lastFailureAt = Date.now();
+  entry.blockedUntil = Date.now() + loginBackoffSeconds(entry.count, LOGIN_IP_FREE_ATTEMPTS) * 1000;
+  ipLoginFailures.set(ip, entry);
+}
+
+// Forget IPs that have been quiet for a full lockout period
+setInterval(() => {
+  const cutoff = Date.now() - LOGIN_LOCKOUT_MINUTES * 60 * 1000;
+  for (const [ip, entry] of ipLoginFailures) {
+    if (entry.lastFailureAt < cutoff && entry.blockedUntil < Date.now()) {
+      ipLoginFailures.delete(ip);
+    }
+  }
+}, 60 * 1000).unref();
+
+// Helper to count a failed password for an account, locking it when needed.
+// Resolves with the number of seconds the account is now blocked for.
+function recordAccountLoginFailure(user, req) {
+  const failures = (user.failed_login_count || 0) + 1;
+  const lockSeconds = failures >= LOGIN_MAX_FAILURES
+    ? LOGIN_LOCKOUT_MINUTES * 60
+    : loginBackoffSeconds(failures, LOGIN_FREE_ATTEMPTS);
+
+  logUserActivity(user.id, 'LOGIN_FAILED', {
+    ip: req.ip || null,
+    user_agent: req.header('user-agent') || null,
+    failed_attempts: failures
+  });
+  if (failures === LOGIN_MAX_FAILURES) {
+    logUserActivity(user.id, 'ACCOUNT_LOCKED', { ip: req.ip || null, minutes: LOGIN_LOCKOUT_MINUTES });
+  }
+
+  return new Promise((resolve, reject) => {
+    db.query(
+      `UPDATE users
+       SET failed_login_count = failed_login_count + 1,
+           locked_until = IF(? > 0, DATE_ADD(NOW(), INTERVAL ? SECOND), locked_until)
+       WHERE id = ?`,
+      [lockSeconds, lockSeconds, user.id],
+      (err) => (err ? reject(err) : resolve(lockSeconds))
+    );
+  });
+}
+
+// Helper to build the 429 response for throttled sign-in attempts
+function sendLoginThrottled(res, retryAfterSeconds, locked) {
+  const wait = retryAfterSeconds >= 120
+    ? `${Math.ceil(retryAfterSeconds / 60)} minutes`
+    : `${retryAfterSeconds} seconds`;
+  res.set('Retry-After', String(retryAfterSeconds));
+  return res.status(429).json({
+    error: locked
+      ? `This account is temporarily locked after too many failed sign-in attempts. Try again in ${wait}.`
+      : `Too many failed sign-in attempts. Please wait ${wait} before trying again.`,
+    code: locked ? 'ACCOUNT_LOCKED' : 'TOO_MANY_ATTEMPTS',
+    retry_after: retryAfterSeconds
+  });
+}
+
+// =============================================
+// TWO-FACTOR AUTHENTICATION (TOTP)
+// =============================================
+
+// After a correct password, accounts with 2FA get a short-lived challenge token instead of a
+// session; the session is only issued once a TOTP or recovery code is checked against it.
+const TWO_FACTOR_ISSUER = process.env.TOTP_ISSUER || 'iykeLib';
+const TWO_FACTOR_CHALLENGE_MINUTES = 5;
+const TWO_FACTOR_MAX_ATTEMPTS = 5;
+const RECOVERY_CODE_COUNT = 10;
+
+// Helper to create a sign-in challenge for a user whose password was correct
+async function createTwoFactorChallenge(userId, req) {
+  const token = randomBytes(32).toString('hex');
+  await new Promise((resolve, reject) => {
+    db.query(
+      `INSERT INTO two_factor_challenges (user_id, token_hash, expires_at, ip_address)
+       VALUES (?, ?, DATE_ADD(NOW(), INTERVAL ? MINUTE), ?)`,
+      [userId, hashToken(token), TWO_FACTOR_CHALLENGE_MINUTES, req.ip || null],
+      (err) => (err ? reject(err) : resolve())
+    );
+  });
+  return token;
+}
+
+// Helper to replace a user's recovery codes; resolves with the new plain-text codes
+async function replaceRecoveryCodes(userId) {
+  const codes = generateRecoveryCodes(RECOVERY_CODE_COUNT);
+  await new Promise((resolve, reject) => {
+    db.query('DELETE FROM user_recovery_codes WHERE user_id = ?', [userId], (err) => (err ? reject(err) : resolve()));
+  });
+  await new Promise((resolve, reject) => {
+    db.query(
+      'INSERT INTO user_recovery_codes (user_id, code_hash) VALUES ?',
+      [codes.map(code => [userId, hashToken(normalizeRecoveryCode(code))])],
+      (err) => (err ? reject(err) : resolve())
+    );
+  });
+  return codes;
+}
+
+// Helper to spend a recovery code; resolves true when an unused code matched
+function consumeRecoveryCode(userId, code) {
+  return new Promise((resolve, reject) => {
+    db.query(
+      'UPDATE user_recovery_codes SET used_at = CURRENT_TIMESTAMP WHERE user_id = ? AND code_hash = ? AND used_at IS NULL',
+      [userId, hashToken(normalizeRecoveryCode(code))],
+      (err, result) => (err ? reject(err) : resolve(result.affectedRows > 0))
+    );
+  });
+}
+
+// Helper to check a user's current password (used before sensitive 2FA changes)
+function verifyUserPassword(userId, password) {
+  return new Promise((resolve, reject) => {
+    db.query('SELECT password_hash FROM users WHERE id = ?', [userId], async (err, rows) => {
+      if (err) return reject(err);
+      if (!Array.isArray(rows) || rows.length === 0 || !password) return resolve(false);
+      try {
+        resolve(await bcrypt.compare(password, rows[0].password_hash));
+      } catch (compareErr) {
+        reject(compareErr);
+      }
+    });
+  });
+}
+
+// Finish a successful sign in: clear the account's failure counter, log it and issue the session.
+// The per-IP counter is left to expire, or signing in to one's own account would reset the backoff
+// for guesses against everyone else's.
+async function completeSignIn(user, req, res, method) {
+  db.query('UPDATE users SET last_login = CURRENT_TIMESTAMP, failed_login_count = 0, locked_until = NULL WHERE id = ?', [user.id]);
+  logUserActivity(user.id, 'USER_LOGIN', { ip: req.ip || null, method });
+  
+  const access = await getUserAccess(user.id);
+  
+  // Return user data (without password)
+  const userData = {
+    id: user.id,
+    username: user.username,
+    email: user.email,
+    first_name: user.first_name,
+    last_name: user.last_name,
+    role: access.role,
+    is_active: user.is_active,
+    email_verified: Boolean(user.email_verified_at),
+    two_factor_enabled: Boolean(user.totp_enabled_at),
+    two_factor_setup_required: access.two_factor_setup_required
+  };
+  
+  const session = await issueSession(user.id, req);
+  
+  res.json({ 
+    user: userData,
+    session,
+    message: 'Sign in successful'
+  });
+}
+
+// =============================================
+// ACCOUNT EMAILS (verification & password reset)
+// =============================================
+
+const mailer = createMailer();
+console.log(`Mailer transport: ${mailer.transport}`);
+
+// Base URL of the web app, used to build links in emails
+const APP_URL = (process.env.APP_URL || 'http://localhost:8080').replace(/\/$/, '');
+const PASSWORD_RESET_TTL_MINUTES = parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '60', 10);
+const EMAIL_VERIFICATION_TTL_HOURS = parseInt(process.env.EMAIL_VERIFICATION_TTL_HOURS || '48', 10);
+// When enabled, unverified accounts cannot sign in
+const REQUIRE_EMAIL_VERIFICATION = process.env.ENABLE_EMAIL_VERIFICATION === 'true';
+const PASSWORD_RESET_ENABLED = process.env.ENABLE_PASSWORD_RESET !== 'false';
+const MIN_PASSWORD_LENGTH = 8;
+
+// Helper to create a verification token for an address and email the link
+async function sendVerificationEmail(userId, email) {
+  const token = randomBytes(32).toString('hex');
+  await new Promise((resolve, reject) => {
+    db.query(
+      `INSERT INTO email_verification_tokens (user_id, email, token_hash, expires_at)
+       VALUES (?, ?, ?, DATE_ADD(NOW(), INTERVAL ? HOUR))`,
+      [userId, email, hashToken(token), EMAIL_VERIFICATION_TTL_HOURS],
+      (err) => (err ? reject(err) : resolve())
+    );
+  });
+
+  const link = `${APP_URL}/auth?mode=verify&token=${token}`;
+  await mailer.send({
+    to: email,
+    subject: 'Verify your iykeLib email address',
+    text: `Welcome to iykeLib!\n\nConfirm your email address by opening this link:\n${link}\n\nThe link expires in ${EMAIL_VERIFICATION_TTL_HOURS} hours. If you did not create an account, you can ignore this email.`,
+    html: `<p>Welcome to iykeLib!</p><p><a href="${link}">Confirm your email address</a></p><p>The link expires in ${EMAIL_VERIFICATION_TTL_HOURS} hours. If you did not create an account, you can ignore this email.</p>`
+  });
+}
+
+// Helper to create a password reset token (superseding older ones) and email the link
+async function sendPasswordResetEmail(user, req) {
+  const token = randomBytes(32).toString('hex');
+  await new Promise((resolve, reject) => {
+    db.query(
+      'UPDATE password_reset_tokens SET used_at = CURRENT_TIMESTAMP WHERE user_id = ? AND used_at IS NULL',
+      [user.id],
+      (err) => (err ? reject(err) : resolve())
+    );
+  });
+  await new Promise((resolve, reject) => {
+    db.query(
+      `INSERT INTO password_reset_tokens (user_id, token_hash, expires_at, ip_address)
+       VALUES (?, ?, DATE_ADD(NOW(), INTERVAL ? MINUTE), ?)`,
+      [user.id, hashToken(token), PASSWORD_RESET_TTL_MINUTES, req.ip || null],
+      (err) => (err ? reject(err) : resolve())
+    );
+  });
+
+  const link = `${APP_URL}/auth?mode=reset&token=${token}`;
+  await mailer.send({
+    to: user.email,
+    subject: 'Reset your iykeLib password',
+    text: `Hi ${user.username},\n\nSomeone asked to reset the password for your iykeLib account. Choose a new password here:\n${link}\n\nThe link expires in ${PASSWORD_RESET_TTL_MINUTES} minutes. If you did not ask for this, you can ignore this email.`,
+    html: `<p>Hi ${user.username},</p><p>Someone asked to reset the password for your iykeLib account.</p><p><a href="${link}">Choose a new password</a></p><p>The link expires in ${PASSWORD_RESET_TTL_MINUTES} minutes. If you did not ask for this, you can ignore this email.</p>`
+  });
+}
+
 // Authentication Endpoints
 
 // User sign in
@@ -162,6 +541,12 @@ app.post('/api/auth/signin', (req, res) => {
     return res.status(400).json({ error: 'Email and password are required' });
   }
   
+  const ip = req.ip || 'unknown';
+  const ipRetryAfter = getIpRetryAfterSeconds(ip);
+  if (ipRetryAfter > 0) {
+    return sendLoginThrottled(res, ipRetryAfter, false);
+  }
+  
   // Find user by email
   const sql = `
     SELECT 
@@ -172,10 +557,11 @@ app.post('/api/auth/signin', (req, res) => {
       u.first_name,
       u.last_name,
       u.is_active,
-      r.name as role
+      u.email_verified_at,
+      u.failed_login_count,
+      u.totp_enabled_at,
+      GREATEST(TIMESTAMPDIFF(SECOND, NOW(), u.locked_until), 0) as lock_seconds_left
     FROM users u
-    LEFT JOIN user_roles ur ON u.id = ur.user_id
-    LEFT JOIN roles r ON ur.role_id = r.id
     WHERE u.email = ?
   `;
   
@@ -186,6 +572,7 @@ app.post('/api/auth/signin', (req, res) => {
     }
     
     if (Array.isArray(results) && results.length === 0) {
+      recordIpLoginFailure(ip);
       return res.status(401).json({ error: 'Invalid email or password' });
     }
     
@@ -196,36 +583,149 @@ app.post('/api/auth/signin', (req, res) => {
       return res.status(401).json({ error: 'Account is deactivated. Please contact an administrator.' });
     }
     
+    // Locked or backing off: refuse without checking the password
+    if (user.lock_seconds_left > 0) {
+      return sendLoginThrottled(res, Number(user.lock_seconds_left), user.failed_login_count >= LOGIN_MAX_FAILURES);
+    }
+    
     // Verify password
     try {
       const isValidPassword = await bcrypt.compare(password, user.password_hash);
       
       if (!isValidPassword) {
+        recordIpLoginFailure(ip);
+        await recordAccountLoginFailure(user, req);
         return res.status(401).json({ error: 'Invalid email or password' });
       }
       
-      // Update last login
-      db.query('UPDATE users SET last_login = CURRENT_TIMESTAMP WHERE id = ?', [user.id]);
+      if (REQUIRE_EMAIL_VERIFICATION && !user.email_verified_at) {
+        return res.status(403).json({
+          error: 'Please verify your email address before signing in.',
+          code: 'EMAIL_NOT_VERIFIED'
+        });
+      }
       
-      // Return user data (without password)
-      const userData = {
-        id: user.id,
-        username: user.username,
-        email: user.email,
-        first_name: user.first_name,
-        last_name: user.last_name,
-        role: user.role || 'user',
-        is_active: user.is_active
-      };
+      // Second step required: hand out a challenge instead of a session
+      if (user.totp_enabled_at) {
+        const challengeToken = await createTwoFactorChallenge(user.id, req);
+        return res.json({
+          two_factor_required: true,
+          challenge_token: challengeToken,
+          expires_in: TWO_FACTOR_CHALLENGE_MINUTES * 60,
+          message: 'Enter the code from your authenticator app'
+        });
+      }
       
-      res.json({ 
-        user: userData,
-        message: 'Sign in successful'
-      });
+      await completeSignIn(user, req, res, 'password');
       
     } catch (bcryptError) {
-      console.error('Password verification error:', bcryptError);
-      return res.status(500).json({ error: 'Error verifying password' });
+      console.error('Sign in error:', bcryptError);
+      return res.status(500).json({ error: 'Error signing in' });
+    }
+  });
+});
+
+// Second sign-in step for accounts with two-factor authentication
+app.post('/api/auth/signin/2fa', (req, res) => {
+  const { challenge_token, code, recovery_code } = req.body;
+  
+  if (!challenge_token || (!code && !recovery_code)) {
+    return res.status(400).json({ error: 'A verification code or recovery code is required' });
+  }
+  
+  const sql = `
+    SELECT 
+      c.id as challenge_id,
+      c.attempts,
+      u.id,
+      u.username,
+      u.email,
+      u.first_name,
+      u.last_name,
+      u.is_active,
+      u.email_verified_at,
+      u.failed_login_count,
+      u.totp_secret,
+      u.totp_enabled_at,
+      u.totp_last_used_step,
+      GREATEST(TIMESTAMPDIFF(SECOND, NOW(), u.locked_until), 0) as lock_seconds_left
+    FROM two_factor_challenges c
+    JOIN users u ON u.id = c.user_id
+    WHERE c.token_hash = ? AND c.used_at IS NULL AND c.expires_at > NOW()
+  `;
+  
+  db.query(sql, [hashToken(challenge_token)], async (err, rows) => {
+    if (err) {
+      console.error('Error loading two-factor challenge:', err);
+      return res.status(500).json({ error: 'Database error during sign in' });
+    }
+    
+    const user = Array.isArray(rows) && rows.length > 0 ? rows[0] : null;
+    if (!user || !user.totp_enabled_at || user.attempts >= TWO_FACTOR_MAX_ATTEMPTS) {
+      return res.status(401).json({
+        error: 'This sign-in attempt has expired. Please sign in again.',
+        code: 'TWO_FACTOR_CHALLENGE_EXPIRED'
+      });
+    }
+    
+    if (!user.is_active) {
+      return res.status(401).json({ error: 'Account is deactivated. Please contact an administrator.' });
+    }
+    
+    if (user.lock_seconds_left > 0) {
+      return sendLoginThrottled(res, Number(user.lock_seconds_left), user.failed_login_count >= LOGIN_MAX_FAILURES);
+    }
+    
+    const expired = () => res.status(401).json({
+      error: 'This sign-in attempt has expired. Please sign in again.',
+      code: 'TWO_FACTOR_CHALLENGE_EXPIRED'
+    });
+    
+    try {
+      let verified = false;
+      let step = null;
+      if (code) {
+        step = verifyTotp(user.totp_secret, code, {
+          lastUsedStep: user.totp_last_used_step === null ? null : Number(user.totp_last_used_step)
+        });
+        verified = step !== null;
+      } else {
+        verified = await consumeRecoveryCode(user.id, recovery_code);
+      }
+      
+      if (!verified) {
+        db.query('UPDATE two_factor_challenges SET attempts = attempts + 1 WHERE id = ?', [user.challenge_id]);
+        recordIpLoginFailure(req.ip || 'unknown');
+        await recordAccountLoginFailure(user, req);
+        return res.status(401).json({ error: code ? 'Invalid verification code' : 'Invalid recovery code' });
+      }
+      
+      // Single use, even when two requests race with the same challenge and code
+      const claim = await dbQuery(
+        'UPDATE two_factor_challenges SET used_at = CURRENT_TIMESTAMP WHERE id = ? AND used_at IS NULL',
+        [user.challenge_id]
+      );
+      if (claim.affectedRows !== 1) return expired();
+      
+      // A code is only good once, also across two challenges of the same account
+      if (step !== null) {
+        const saved = await dbQuery(
+          'UPDATE users SET totp_last_used_step = ? WHERE id = ? AND (totp_last_used_step IS NULL OR totp_last_used_step < ?)',
+          [step, user.id, step]
+        );
+        if (saved.affectedRows !== 1) {
+          return res.status(401).json({ error: 'Invalid verification code' });
+        }
+      }
+      
+      if (recovery_code && !code) {
+        logUserActivity(user.id, 'RECOVERY_CODE_USED', { ip: req.ip || null });
+      }
+      
+      await completeSignIn(user, req, res, code ? 'totp' : 'recovery_code');
+    } catch (verifyErr) {
+      console.error('Two-factor sign in error:', verifyErr);
+      return res.status(500).json({ error: 'Error signing in' });
     }
   });
 });
@@ -272,7 +772,7 @@ app.post('/api/auth/signup', (req, res) => {
         db.query(
           'INSERT INTO user_roles (user_id, role_id) VALUES (?, ?)',
           [userId, roleId],
-          (err) => {
+          async (err) => {
             if (err) {
               console.error('Error assigning role:', err);
               // User was created but role assignment failed
@@ -291,6 +791,22 @@ app.post('/api/auth/signup', (req, res) => {
               });
             }
             
+            try {
+              await sendVerificationEmail(userId, email);
+            } catch (mailErr) {
+              console.error('Error sending verification email:', mailErr);
+            }
+            
+            // Sign the new user in straight away unless they must verify first
+            let session = null;
+            if (!REQUIRE_EMAIL_VERIFICATION) {
+              try {
+                session = await issueSession(userId, req);
+              } catch (sessionErr) {
+                console.error('Error creating session for new user:', sessionErr);
+              }
+            }
+            
             // Return created user
             res.status(201).json({ 
               user: { 
@@ -300,9 +816,14 @@ app.post('/api/auth/signup', (req, res) => {
                 first_name, 
                 last_name,
                 role: 'user',
-                is_active: true
+                is_active: true,
+                email_verified: false
               },
-              message: 'Account created successfully'
+              session,
+              verification_required: REQUIRE_EMAIL_VERIFICATION,
+              message: REQUIRE_EMAIL_VERIFICATION
+                ? 'Account created. Check your email to verify your address before signing in.'
+                : 'Account created successfully'
             });
           }
         );
@@ -315,21 +836,67 @@ app.post('/api/auth/signup', (req, res) => {
   });
 });
 
-// User sign out (optional - can be handled client-side)
-app.post('/api/auth/signout', (req, res) => {
-  // In a real application, you might invalidate JWT tokens here
-  // For now, just return success
-  res.json({ message: 'Sign out successful' });
+// Exchange a refresh token for a new session (the old session is revoked)
+app.post('/api/auth/refresh', (req, res) => {
+  const { refresh_token } = req.body || {};
+  
+  if (!refresh_token) {
+    return res.status(400).json({ error: 'refresh_token is required' });
+  }
+  
+  const sql = `
+    SELECT s.id, s.user_id, u.is_active
+    FROM user_sessions s
+    JOIN users u ON u.id = s.user_id
+    WHERE s.refresh_token_hash = ? AND s.revoked_at IS NULL AND s.refresh_expires_at > NOW()
+    LIMIT 1
+  `;
+  
+  db.query(sql, [hashToken(refresh_token)], async (err, results) => {
+    if (err) {
+      console.error('Error refreshing session:', err);
+      return res.status(500).json({ error: 'Database error during session refresh' });
+    }
+    
+    if (!Array.isArray(results) || results.length === 0) {
+      return res.status(401).json({ error: 'Session expired. Please sign in again.' });
+    }
+    
+    const current = results[0];
+    if (current.is_active === 0 || current.is_active === false) {
+      return res.status(401).json({ error: 'Account is deactivated. Please contact an administrator.' });
+    }
+    
+    try {
+      await new Promise((resolve, reject) => {
+        db.query('UPDATE user_sessions SET revoked_at = CURRENT_TIMESTAMP WHERE id = ?', [current.id], (updateErr) => (updateErr ? reject(updateErr) : resolve()));
+      });
+      const session = await issueSession(current.user_id, req);
+      res.json({ session });
+    } catch (sessionErr) {
+      console.error('Error rotating session:', sessionErr);
+      res.status(500).json({ error: 'Failed to refresh session' });
+    }
+  });
 });
 
-// Get current user profile
-app.get('/api/auth/profile', (req, res) => {
-  const userEmail = req.headers['x-user-email'];
+// User sign out: revoke the session behind the access and/or refresh token
+app.post('/api/auth/signout', async (req, res) => {
+  const accessToken = getBearerToken(req);
+  const { refresh_token } = req.body || {};
   
-  if (!userEmail) {
-    return res.status(401).json({ error: 'User not authenticated' });
+  try {
+    if (accessToken) await revokeSessionByToken('token_hash', accessToken);
+    if (refresh_token) await revokeSessionByToken('refresh_token_hash', refresh_token);
+    res.json({ message: 'Sign out successful' });
+  } catch (err) {
+    console.error('Error revoking session:', err);
+    res.status(500).json({ error: 'Failed to sign out' });
   }
-  
+});
+
+// Helper to load the profile returned by GET/PUT /api/auth/profile; resolves null for unknown users
+async function getProfileData(userId) {
   const sql = `
     SELECT 
       u.id,
@@ -340,787 +907,5403 @@ app.get('/api/auth/profile', (req, res) => {
       u.is_active,
       u.created_at,
       u.last_login,
-      r.name as role
+      u.profile_image,
+      u.email_verified_at,
+      u.totp_enabled_at
     FROM users u
-    LEFT JOIN user_roles ur ON u.id = ur.user_id
-    LEFT JOIN roles r ON ur.role_id = r.id
-    WHERE u.email = ?
+    WHERE u.id = ?
   `;
+  const rows = await new Promise((resolve, reject) => {
+    db.query(sql, [userId], (err, results) => (err ? reject(err) : resolve(results)));
+  });
+  if (!Array.isArray(rows) || rows.length === 0) return null;
   
-  db.query(sql, [userEmail], (err, results) => {
-    if (err) {
-      console.error('Error fetching user profile:', err);
-      return res.status(500).json({ error: 'Failed to fetch user profile' });
-    }
-    
-    if (Array.isArray(results) && results.length === 0) {
+  const user = rows[0];
+  // Roles are resolved on every call so demotions take effect immediately
+  const access = await getUserAccess(user.id);
+  
+  // Return user data (without sensitive information)
+  return {
+    id: user.id,
+    username: user.username,
+    email: user.email,
+    first_name: user.first_name,
+    last_name: user.last_name,
+    profile_image: user.profile_image,
+    role: access.role,
+    roles: access.roles,
+    permissions: access.permissions,
+    is_active: user.is_active,
+    email_verified: Boolean(user.email_verified_at),
+    two_factor_enabled: Boolean(user.totp_enabled_at),
+    two_factor_required: access.two_factor_required,
+    two_factor_setup_required: access.two_factor_setup_required,
+    created_at: user.created_at,
+    last_login: user.last_login
+  };
+}
+
+// Get current user profile
+app.get('/api/auth/profile', ensureAuthenticated, async (req, res) => {
+  try {
+    const userData = await getProfileData(req.userId);
+    if (!userData) {
       return res.status(404).json({ error: 'User not found' });
     }
-    
-    const user = results[0];
-    
-    // Return user data (without sensitive information)
-    const userData = {
-      id: user.id,
-      username: user.username,
-      email: user.email,
-      first_name: user.first_name,
-      last_name: user.last_name,
-      role: user.role || 'user',
-      is_active: user.is_active,
-      created_at: user.created_at,
-      last_login: user.last_login
-    };
-    
     res.json({ user: userData });
-  });
+  } catch (err) {
+    console.error('Error fetching user profile:', err);
+    res.status(500).json({ error: 'Failed to fetch user profile' });
+  }
 });
 
-// Book Management Endpoints
-
-// Get all books with category information
-app.get('/api/books', (req, res) => {
-  const userEmail = req.headers['x-user-email'];
+// Limits mirror the `users` columns
+const USERNAME_PATTERN = /^[A-Za-z0-9_.-]{3,50}$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const NAME_MAX_LENGTH = 50;
 
-  const sql = `
-    SELECT 
-      b.*,
-      c.name as category_name,
-      COALESCE(dl.download_count, 0) as download_count,
-      COALESCE(r_up.up_votes, 0) as up_votes,
-      COALESCE(r_down.down_votes, 0) as down_votes,
-      ur.vote as user_vote
-    FROM books b
-    LEFT JOIN categories c ON b.category_id = c.id
-    LEFT JOIN (
-        SELECT content_id, COUNT(*) as download_count
-        FROM download_logs
-        WHERE content_type = 'book'
-        GROUP BY content_id
-    ) dl ON b.id = dl.content_id
-    LEFT JOIN (
-        SELECT content_id, COUNT(*) as up_votes
-        FROM ratings
-        WHERE content_type = 'book' AND vote = 1
-        GROUP BY content_id
-    ) r_up ON b.id = r_up.content_id
-    LEFT JOIN (
-        SELECT content_id, COUNT(*) as down_votes
-        FROM ratings
-        WHERE content_type = 'book' AND vote = -1
-        GROUP BY content_id
-    ) r_down ON b.id = r_down.content_id
-    LEFT JOIN ratings ur ON ur.content_id = b.id AND ur.content_type = 'book' AND ur.user_id = (SELECT id FROM users WHERE email = ?)
-    ORDER BY b.created_at DESC
-  `;
+// Update the current user's profile. Changing the email or password requires the current password;
+// a new email must be verified again, and a new password signs out every other session.
+app.put('/api/auth/profile', ensureAuthenticated, async (req, res) => {
+  const { username, first_name, last_name, email, current_password, new_password } = req.body || {};
   
-  db.query(sql, [userEmail], (err, results) => {
-    if (err) {
-      console.error('Error fetching books:', err);
-      return res.status(500).json({ error: 'Failed to fetch books' });
+  try {
+    const rows = await new Promise((resolve, reject) => {
+      db.query('SELECT id, username, email, password_hash FROM users WHERE id = ?', [req.userId], (err, results) => (err ? reject(err) : resolve(results)));
+    });
+    if (!Array.isArray(rows) || rows.length === 0) {
+      return res.status(404).json({ error: 'User not found' });
     }
-
-    const mapped = (results || []).map((r) => {
-      const row = Object.assign({}, r);
-      row.thumbnail = `/api/books/${row.id}/thumbnail`;
-      return row;
+    const current = rows[0];
+    
+    const updates = {};
+    
+    if (username !== undefined && username !== current.username) {
+      if (typeof username !== 'string' || !USERNAME_PATTERN.test(username)) {
+        return res.status(400).json({ error: 'Username must be 3-50 characters: letters, numbers, dots, dashes or underscores', field: 'username' });
+      }
+      updates.username = username;
+    }
+    
+    for (const [field, value] of [['first_name', first_name], ['last_name', last_name]]) {
+      if (value === undefined) continue;
+      if (value !== null && typeof value !== 'string') {
+        return res.status(400).json({ error: `${field} must be a string`, field });
+      }
+      const trimmed = value === null ? '' : value.trim();
+      if (trimmed.length > NAME_MAX_LENGTH) {
+        return res.status(400).json({ error: `${field} must be at most ${NAME_MAX_LENGTH} characters`, field });
+      }
+      updates[field] = trimmed || null;
+    }
+    
+    const normalizedEmail = typeof email === 'string' ? email.trim().toLowerCase() : email;
+    const emailChanged = normalizedEmail !== undefined && normalizedEmail !== String(current.email).toLowerCase();
+    if (emailChanged) {
+      if (typeof normalizedEmail !== 'string' || normalizedEmail.length > 255 || !EMAIL_PATTERN.test(normalizedEmail)) {
+        return res.status(400).json({ error: 'Please enter a valid email address', field: 'email' });
+      }
+      updates.email = normalizedEmail;
+    }
+    
+    const passwordChanged = new_password !== undefined && new_password !== '';
+    if (passwordChanged && (typeof new_password !== 'string' || new_password.length < MIN_PASSWORD_LENGTH)) {
+      return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters long`, field: 'new_password' });
+    }
+    
+    // Sensitive changes need the current password
+    if (emailChanged || passwordChanged) {
+      const valid = current_password ? await bcrypt.compare(current_password, current.password_hash) : false;
+      if (!valid) {
+        return res.status(401).json({ error: 'Current password is incorrect', field: 'current_password' });
+      }
+    }
+    
+    // Same uniqueness rules as the uq_username / uq_email keys, reported per field
+    if (updates.username || updates.email) {
+      const conflicts = await new Promise((resolve, reject) => {
+        db.query(
+          'SELECT username, email FROM users WHERE id <> ? AND (username = ? OR email = ?)',
+          [req.userId, updates.username || null, updates.email || null],
+          (err, results) => (err ? reject(err) : resolve(results))
+        );
+      });
+      if (updates.username && conflicts.some(row => String(row.username).toLowerCase() === updates.username.toLowerCase())) {
+        return res.status(409).json({ error: 'That username is already taken', field: 'username' });
+      }
+      if (updates.email && conflicts.some(row => String(row.email).toLowerCase() === updates.email)) {
+        return res.status(409).json({ error: 'An account with that email already exists', field: 'email' });
+      }
+    }
+    
+    if (passwordChanged) {
+      updates.password_hash = await bcrypt.hash(new_password, 12);
+    }
+    
+    const columns = Object.keys(updates);
+    if (columns.length > 0) {
+      const assignments = columns.map(column => `${column} = ?`);
+      if (emailChanged) assignments.push('email_verified_at = NULL');
+      await new Promise((resolve, reject) => {
+        db.query(
+          `UPDATE users SET ${assignments.join(', ')} WHERE id = ?`,
+          [...columns.map(column => updates[column]), req.userId],
+          (err) => (err ? reject(err) : resolve())
+        );
+      });
+    }
+    
+    if (emailChanged) {
+      logUserActivity(req.userId, 'EMAIL_CHANGED', { from: current.email, to: updates.email, ip: req.ip || null });
+      try {
+        await sendVerificationEmail(req.userId, updates.email);
+      } catch (mailErr) {
+        console.error('Failed to send verification email:', mailErr);
+      }
+    }
+    
+    let sessionsRevoked = 0;
+    if (passwordChanged) {
+      // Keep the session making this request, sign out everywhere else
+      sessionsRevoked = await new Promise((resolve, reject) => {
+        db.query(
+          'UPDATE user_sessions SET revoked_at = CURRENT_TIMESTAMP WHERE user_id = ? AND id <> ? AND revoked_at IS NULL',
+          [req.userId, req.sessionUser.sessionId],
+          (err, result) => (err ? reject(err) : resolve(result.affectedRows))
+        );
+      });
+      logUserActivity(req.userId, 'PASSWORD_CHANGED', { ip: req.ip || null, sessions_revoked: sessionsRevoked });
+    }
+    
+    if (updates.username || updates.first_name !== undefined || updates.last_name !== undefined) {
+      logUserActivity(req.userId, 'PROFILE_UPDATED', { fields: columns.filter(column => !['email', 'password_hash'].includes(column)) });
+    }
+    
+    const userData = await getProfileData(req.userId);
+    res.json({
+      user: userData,
+      message: emailChanged
+        ? 'Profile updated. Check your new email address for a verification link.'
+        : 'Profile updated successfully',
+      email_verification_sent: emailChanged,
+      sessions_revoked: sessionsRevoked
     });
+  } catch (err) {
+    if (err && err.code === 'ER_DUP_ENTRY') {
+      return res.status(409).json({ error: 'That username or email is already in use' });
+    }
+    console.error('Error updating user profile:', err);
+    res.status(500).json({ error: 'Failed to update profile' });
+  }
+});
 
-    res.json(mapped);
+// Avatars: images only, stored resized under uploads/avatars
+const avatarsDir = join(uploadsDir, 'avatars');
+if (!existsSync(avatarsDir)) {
+  mkdirSync(avatarsDir, { recursive: true });
+}
+const AVATAR_SIZE = 256;
+const avatarUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    if (['image/jpeg', 'image/png', 'image/gif', 'image/webp'].includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid file type. Only JPEG, PNG, GIF and WebP images are allowed.'));
+    }
+  }
+});
+
+// Helper to delete a previously stored avatar file (only ones we created under /uploads/avatars/)
+function removeAvatarFile(profileImage) {
+  if (!profileImage || !profileImage.startsWith('/uploads/avatars/')) return;
+  const filePath = join(avatarsDir, profileImage.slice('/uploads/avatars/'.length));
+  try {
+    if (existsSync(filePath)) unlinkSync(filePath);
+  } catch (err) {
+    console.error('Failed to remove old avatar:', err);
+  }
+}
+
+// Upload or replace the current user's avatar
+app.post('/api/auth/profile/avatar', ensureAuthenticated, (req, res) => {
+  avatarUpload.single('avatar')(req, res, async (uploadErr) => {
+    if (uploadErr) {
+      const message = uploadErr.code === 'LIMIT_FILE_SIZE' ? 'Avatar images must be 5MB or smaller' : uploadErr.message;
+      return res.status(400).json({ error: message });
+    }
+    
+    if (!req.file) {
+      return res.status(400).json({ error: 'No image uploaded' });
+    }
+    
+    try {
+      const fileName = `avatar-${req.userId}-${Date.now()}.webp`;
+      await sharp(req.file.buffer)
+        .rotate()
+        .resize(AVATAR_SIZE, AVATAR_SIZE, { fit: 'cover' })
+        .webp({ quality: 85 })
+        .toFile(join(avatarsDir, fileName));
+      
+      const rows = await new Promise((resolve, reject) => {
+        db.query('SELECT profile_image FROM users WHERE id = ?', [req.userId], (err, results) => (err ? reject(err) : resolve(results)));
+      });
+      const profileImage = `/uploads/avatars/${fileName}`;
+      await new Promise((resolve, reject) => {
+        db.query('UPDATE users SET profile_image = ? WHERE id = ?', [profileImage, req.userId], (err) => (err ? reject(err) : resolve()));
+      });
+      removeAvatarFile(rows[0]?.profile_image);
+      
+      res.json({ message: 'Avatar updated successfully', profile_image: profileImage });
+    } catch (err) {
+      console.error('Error saving avatar:', err);
+      res.status(400).json({ error: 'Could not process that image' });
+    }
   });
 });
 
-// Get book by ID
-app.get('/api/books/:id', (req, res) => {
-  const bookId = req.params.id;
-  const userEmail = req.headers['x-user-email'];
-  
-  const sql = `
-    SELECT 
-      b.*,
-      c.name as category_name,
-      COALESCE(dl.download_count, 0) as download_count,
-      COALESCE(r_up.up_votes, 0) as up_votes,
-      COALESCE(r_down.down_votes, 0) as down_votes,
-      ur.vote as user_vote
-    FROM books b
-    LEFT JOIN categories c ON b.category_id = c.id
-    LEFT JOIN (
-        SELECT content_id, COUNT(*) as download_count
-        FROM download_logs
-        WHERE content_type = 'book'
-        GROUP BY content_id
-    ) dl ON b.id = dl.content_id
-    LEFT JOIN (
-        SELECT content_id, COUNT(*) as up_votes
-        FROM ratings
-        WHERE content_type = 'book' AND vote = 1
-        GROUP BY content_id
-    ) r_up ON b.id = r_up.content_id
-    LEFT JOIN (
-        SELECT content_id, COUNT(*) as down_votes
-        FROM ratings
-        WHERE content_type = 'book' AND vote = -1
-        GROUP BY content_id
-    ) r_down ON b.id = r_down.content_id
-    LEFT JOIN ratings ur ON ur.content_id = b.id AND ur.content_type = 'book' AND ur.user_id = (SELECT id FROM users WHERE email = ?)
-    WHERE b.id = ?
-  `;
-  
-  db.query(sql, [userEmail, bookId], (err, results) => {
+// Remove the current user's avatar
+app.delete('/api/auth/profile/avatar', ensureAuthenticated, (req, res) => {
+  db.query('SELECT profile_image FROM users WHERE id = ?', [req.userId], (err, rows) => {
     if (err) {
-      console.error('Error fetching book:', err);
-      return res.status(500).json({ error: 'Failed to fetch book' });
+      console.error('Error removing avatar:', err);
+      return res.status(500).json({ error: 'Failed to remove avatar' });
     }
     
-    if (Array.isArray(results) && results.length === 0) {
-      return res.status(404).json({ error: 'Book not found' });
-    }
-    const book = results[0];
-    book.thumbnail = `/api/books/${book.id}/thumbnail`;
-    res.json(book);
+    db.query('UPDATE users SET profile_image = NULL WHERE id = ?', [req.userId], (updateErr) => {
+      if (updateErr) {
+        console.error('Error removing avatar:', updateErr);
+        return res.status(500).json({ error: 'Failed to remove avatar' });
+      }
+      
+      removeAvatarFile(rows[0]?.profile_image);
+      res.json({ message: 'Avatar removed successfully' });
+    });
   });
 });
 
-// Create new book (admin only)
-app.post('/api/admin/books', ensureAdmin, (req, res) => {
-  const { 
-    title, 
-    author, 
-    description, 
-    book_type,
-    cover_image_path, 
-    cover_image_base64,
-    cover_image_type,
-    file_path, 
-    file_content,
-    file_size,
-    file_type,
-    external_link,
-    purchase_link,
-    price,
-    currency,
-    category_id, 
-    isbn, 
-    published_year, 
-    page_count 
-  } = req.body;
-  
-  if (!title || !author || !category_id) {
-    return res.status(400).json({ error: 'title, author, and category_id are required' });
-  }
+// =============================================
+// PERSONAL DATA (export & account deletion)
+// =============================================
 
-  // Validate file size (100MB limit)
-  const maxFileSize = 100 * 1024 * 1024; // 100MB in bytes
-  if (file_size && parseInt(file_size) > maxFileSize) {
-    return res.status(413).json({ 
-      error: 'File too large', 
-      message: `File size ${Math.round(file_size / (1024 * 1024))}MB exceeds the maximum allowed size of 100MB. Please compress the file or use a smaller version.`,
-      maxSize: '100MB',
-      currentSize: `${Math.round(file_size / (1024 * 1024))}MB`
-    });
-  }
+// Everything "Download my data" includes besides the profile, keyed by its name in the export
+const PERSONAL_DATA_QUERIES = {
+  roles: `SELECT r.name FROM user_roles ur JOIN roles r ON r.id = ur.role_id WHERE ur.user_id = ?`,
+  ratings: `SELECT content_type, content_id, vote, review, created_at FROM ratings WHERE user_id = ? ORDER BY created_at`,
+  bookmarks: `SELECT content_type, content_id, created_at FROM bookmarks WHERE user_id = ? ORDER BY created_at`,
+  reading_history: `SELECT content_type, content_id, progress, last_accessed_at FROM reading_history WHERE user_id = ? ORDER BY last_accessed_at`,
+  comments: `SELECT id, content_type, content_id, parent_comment_id, comment_text, created_at FROM comments WHERE user_id = ? ORDER BY created_at`,
+  download_logs: `SELECT content_type, content_id, downloaded_at, ip_address FROM download_logs WHERE user_id = ? ORDER BY downloaded_at`,
+  view_logs: `SELECT content_type, content_id, viewed_at, ip_address FROM view_logs WHERE user_id = ? ORDER BY viewed_at`,
+  purchase_clicks: `SELECT book_id, purchase_link, clicked_at, ip_address FROM purchase_clicks WHERE user_id = ? ORDER BY clicked_at`,
+  search_history: `SELECT search_query, created_at FROM search_history WHERE user_id = ? ORDER BY created_at`,
+  activity: `SELECT action_type, details, created_at FROM user_activity_logs WHERE user_id = ? ORDER BY created_at`,
+  sessions: `SELECT created_at, last_used_at, expires_at, revoked_at, ip_address, user_agent FROM user_sessions WHERE user_id = ? ORDER BY created_at`,
+  linked_accounts: `SELECT provider, email, created_at, last_used_at FROM user_identities WHERE user_id = ? ORDER BY created_at`,
+  app_tokens: `SELECT name, token_hint, created_at, last_used_at FROM user_app_tokens WHERE user_id = ? ORDER BY created_at`
+};
 
-  // Validate file content length for base64 data
-  if (file_content && file_content.length > maxFileSize * 1.4) { // Base64 is ~1.4x larger than binary
-    return res.status(413).json({ 
-      error: 'File content too large', 
-      message: 'The uploaded file content exceeds the maximum allowed size. Please compress the file or use a smaller version.',
-      maxSize: '100MB'
+// Helper to delete an account. Personal content (ratings, bookmarks, comments, reading history,
+// sessions) goes with the user; logs are kept for aggregate analytics but stripped of anything
+// pointing back to the person. Resolves with the removed user's profile_image, if any.
+async function deleteUserAccount(userId) {
+  const run = (sql) => dbQuery(sql, [userId]);
+
+  const rows = await run('SELECT profile_image FROM users WHERE id = ?');
+  await run('UPDATE download_logs SET user_id = NULL, ip_address = NULL WHERE user_id = ?');
+  await run('UPDATE view_logs SET user_id = NULL, ip_address = NULL WHERE user_id = ?');
+  await run('UPDATE purchase_clicks SET user_id = NULL, ip_address = NULL WHERE user_id = ?');
+  await run('UPDATE search_history SET user_id = NULL WHERE user_id = ?');
+  await run('UPDATE user_activity_logs SET user_id = NULL, details = NULL WHERE user_id = ?');
+  await run('DELETE FROM users WHERE id = ?');
+  return Array.isArray(rows) && rows.length > 0 ? rows[0].profile_image : null;
+}
+
+// Download everything stored about the current user as a JSON file
+app.get('/api/auth/account/export', ensureAuthenticated, async (req, res) => {
+  try {
+    const userRows = await new Promise((resolve, reject) => {
+      db.query(
+        `SELECT id, username, email, first_name, last_name, profile_image, is_active, email_verified_at,
+                totp_enabled_at, last_login, created_at, updated_at
+         FROM users WHERE id = ?`,
+        [req.userId],
+        (err, results) => (err ? reject(err) : resolve(results))
+      );
     });
+    if (!Array.isArray(userRows) || userRows.length === 0) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    
+    const data = {};
+    for (const [name, sql] of Object.entries(PERSONAL_DATA_QUERIES)) {
+      data[name] = await new Promise((resolve, reject) => {
+        db.query(sql, [req.userId], (err, results) => (err ? reject(err) : resolve(results)));
+      });
+    }
+    data.roles = data.roles.map(row => row.name);
+    
+    const exportData = {
+      exported_at: new Date().toISOString(),
+      user: userRows[0],
+      ...data
+    };
+    
+    logUserActivity(req.userId, 'DATA_EXPORTED', { ip: req.ip || null });
+    
+    const fileName = `iykelib-data-${userRows[0].username}-${new Date().toISOString().slice(0, 10)}.json`;
+    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName.replace(/[^A-Za-z0-9_.-]/g, '_')}"`);
+    res.send(JSON.stringify(exportData, null, 2));
+  } catch (err) {
+    console.error('Error exporting user data:', err);
+    res.status(500).json({ error: 'Failed to export your data' });
   }
+});
 
-  // Validate book type specific requirements
-  if (book_type === 'file' && !file_path) {
-    return res.status(400).json({ error: 'file_path is required for file type books' });
-  }
-  if (book_type === 'link' && !external_link) {
-    return res.status(400).json({ error: 'external_link is required for link type books' });
-  }
-  if (book_type === 'purchase' && !purchase_link) {
-    return res.status(400).json({ error: 'purchase_link is required for purchase type books' });
+// Delete the current user's account (requires the current password)
+app.delete('/api/auth/account', ensureAuthenticated, async (req, res) => {
+  const { password } = req.body || {};
+  
+  try {
+    if (!(await verifyUserPassword(req.userId, password))) {
+      return res.status(401).json({ error: 'Current password is incorrect' });
+    }
+    
+    // The library must keep at least one admin
+    const { roles } = await getUserAccess(req.userId);
+    if (roles.includes('admin') && (await countAdmins()) <= 1) {
+      return res.status(400).json({ error: 'You are the only admin. Make someone else an admin before deleting your account.' });
+    }
+    
+    const profileImage = await deleteUserAccount(req.userId);
+    removeAvatarFile(profileImage);
+    console.log(`User ${req.userId} deleted their account`);
+    
+    res.json({ message: 'Your account has been deleted' });
+  } catch (err) {
+    console.error('Error deleting account:', err);
+    res.status(500).json({ error: 'Failed to delete account' });
   }
+});
+
+// Two-factor status for the current user
+app.get('/api/auth/2fa', ensureAuthenticated, (req, res) => {
+  const sql = `
+    SELECT 
+      u.totp_enabled_at,
+      (SELECT COUNT(*) FROM user_recovery_codes rc WHERE rc.user_id = u.id AND rc.used_at IS NULL) as recovery_codes_remaining
+    FROM users u
+    WHERE u.id = ?
+  `;
   
-  // Check if category exists
-  db.query('SELECT id FROM categories WHERE id = ?', [category_id], (err, categoryResults) => {
+  db.query(sql, [req.userId], async (err, rows) => {
     if (err) {
-      console.error('Error checking category:', err);
-      return res.status(500).json({ error: 'Database error' });
+      console.error('Error fetching two-factor status:', err);
+      return res.status(500).json({ error: 'Failed to fetch two-factor status' });
     }
     
-    if (Array.isArray(categoryResults) && categoryResults.length === 0) {
-      return res.status(400).json({ error: 'Category not found' });
+    if (!Array.isArray(rows) || rows.length === 0) {
+      return res.status(404).json({ error: 'User not found' });
     }
     
-    // Insert book
-    const sql = `
-      INSERT INTO books (
-        title, author, description, book_type, cover_image_path, file_path, 
-        file_content, file_size, file_type, external_link, purchase_link, price, currency, category_id, isbn, published_year, page_count
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `;
+    try {
+      const access = await getUserAccess(req.userId);
+      res.json({
+        enabled: Boolean(rows[0].totp_enabled_at),
+        enabled_at: rows[0].totp_enabled_at,
+        required: access.two_factor_required,
+        recovery_codes_remaining: Number(rows[0].recovery_codes_remaining) || 0
+      });
+    } catch (accessErr) {
+      console.error('Error resolving user roles:', accessErr);
+      res.status(500).json({ error: 'Failed to fetch two-factor status' });
+    }
+  });
+});
+
+// Start enrollment: create a pending secret and return it with a QR code for the authenticator app
+app.post('/api/auth/2fa/setup', ensureAuthenticated, (req, res) => {
+  db.query('SELECT email, totp_enabled_at FROM users WHERE id = ?', [req.userId], async (err, rows) => {
+    if (err) {
+      console.error('Error starting two-factor setup:', err);
+      return res.status(500).json({ error: 'Failed to start two-factor setup' });
+    }
     
-    const values = [
-      title, 
-      author, 
-      description || null, 
-      book_type || 'file',
-      cover_image_path || null, 
-      file_path || null,
-      file_content || null,
-      file_size ? parseInt(file_size) : null,
-      file_type || null,
-      external_link || null,
-      purchase_link || null,
-      price ? parseFloat(price) : null,
-      currency || 'USD',
-      category_id, 
-      isbn || null, 
-      published_year ? parseInt(published_year) : null, 
-      page_count ? parseInt(page_count) : null
-    ];
+    if (!Array.isArray(rows) || rows.length === 0) {
+      return res.status(404).json({ error: 'User not found' });
+    }
     
-    db.query(sql, values, (err, result) => {
-      if (err) {
-        console.error('Error creating book:', err);
-        return res.status(500).json({ error: 'Failed to create book' });
-      }
-      
-      // Fetch the created book with category info
-      const fetchSql = `
-        SELECT 
-          b.*,
-          c.name as category_name
-        FROM books b
-        LEFT JOIN categories c ON b.category_id = c.id
-        WHERE b.id = ?
-      `;
-      
-      db.query(fetchSql, [result.insertId], (fetchErr, fetchResults) => {
-        if (fetchErr) {
-          console.error('Error fetching created book:', fetchErr);
-          return res.status(500).json({ error: 'Book created but failed to fetch details' });
+    if (rows[0].totp_enabled_at) {
+      return res.status(409).json({ error: 'Two-factor authentication is already enabled' });
+    }
+    
+    const secret = generateTotpSecret();
+    const otpauthUrl = buildOtpauthUrl({ secret, account: rows[0].email, issuer: TWO_FACTOR_ISSUER });
+    
+    try {
+      const qrCode = await QRCode.toDataURL(otpauthUrl);
+      db.query('UPDATE users SET totp_pending_secret = ? WHERE id = ?', [secret, req.userId], (updateErr) => {
+        if (updateErr) {
+          console.error('Error saving pending two-factor secret:', updateErr);
+          return res.status(500).json({ error: 'Failed to start two-factor setup' });
         }
         
-        // If a cover image base64 was provided in the request, store it and update the book record
-        try {
-          if (req.body && req.body.cover_image_base64) {
-            const coverBuffer = Buffer.from(req.body.cover_image_base64, 'base64');
-            const ext = req.body.cover_image_type ? req.body.cover_image_type.split('/').pop() : 'png';
-            const coverFilename = `cover_${Date.now()}.${ext}`;
-            const coverFullPath = join(uploadsDir, coverFilename);
-            writeFileSync(coverFullPath, coverBuffer);
-            const coverWebPath = `/uploads/${coverFilename}`;
-            db.query('UPDATE books SET cover_image_path = ? WHERE id = ?', [coverWebPath, result.insertId], (updateErr) => {
-              if (updateErr) console.error('Failed to update cover_image_path for book:', updateErr);
-            });
-            // Also generate a thumbnail from the uploaded cover and store it in DB
-            (async () => {
-              try {
-                const thumbBuf = await sharp(coverBuffer)
-                  .resize(300, 400, { fit: 'inside', withoutEnlargement: true, background: { r: 255, g: 255, b: 255, alpha: 1 } })
-                  .png({ quality: 90 })
-                  .toBuffer();
-                db.query('UPDATE books SET thumbnail_content = ?, thumbnail_mime = ? WHERE id = ?', [thumbBuf, req.body.cover_image_type || 'image/png', result.insertId], (tErr) => {
-                  if (tErr) console.error('Failed to store thumbnail in DB for new book:', tErr);
-                });
-              } catch (thumbErr) {
-                console.error('Failed to generate/store thumbnail from uploaded cover:', thumbErr);
-              }
-            })();
-          } else {
-            // Legacy behavior removed: PDF thumbnail generation disabled
-          }
-        } catch (coverStoreErr) {
-          console.error('Error storing cover image for book:', coverStoreErr);
-        }
-
-        res.status(201).json(fetchResults[0]);
+        res.json({ secret, otpauth_url: otpauthUrl, qr_code: qrCode });
       });
-    });
+    } catch (qrErr) {
+      console.error('Error generating two-factor QR code:', qrErr);
+      res.status(500).json({ error: 'Failed to start two-factor setup' });
+    }
   });
 });
 
-// Utility function to safely convert PDF to image with timeout and error handling
-async function safePdfToImage(pdfPath, options, timeoutMs = 30000) {
-  return new Promise(async (resolve, reject) => {
-    let timeoutId;
-    let conversionProcess;
+// Finish enrollment: confirm a code from the pending secret, then hand out recovery codes
+app.post('/api/auth/2fa/enable', ensureAuthenticated, (req, res) => {
+  const { code } = req.body;
+  
+  if (!code) {
+    return res.status(400).json({ error: 'Verification code is required' });
+  }
+  
+  db.query('SELECT totp_pending_secret, totp_enabled_at FROM users WHERE id = ?', [req.userId], async (err, rows) => {
+    if (err) {
+      console.error('Error enabling two-factor authentication:', err);
+      return res.status(500).json({ error: 'Failed to enable two-factor authentication' });
+    }
     
-    try {
-      // Set up timeout
-      timeoutId = setTimeout(() => {
-        reject(new Error('PDF conversion timeout'));
-      }, timeoutMs);
-      
-      // Start conversion
-      const convert = fromPath(pdfPath, options);
-      conversionProcess = convert(1);
-      
-      const pageData = await conversionProcess;
-      
-      // Clear timeout on success
-      clearTimeout(timeoutId);
+    const user = Array.isArray(rows) && rows.length > 0 ? rows[0] : null;
+    if (!user || !user.totp_pending_secret) {
+      return res.status(400).json({ error: 'Start two-factor setup first' });
+    }
+    
+    if (user.totp_enabled_at) {
+      return res.status(409).json({ error: 'Two-factor authentication is already enabled' });
+    }
+    
+    const step = verifyTotp(user.totp_pending_secret, code);
+    if (step === null) {
+      return res.status(400).json({ error: 'Invalid verification code' });
+    }
+    
+    const updateSql = `
+      UPDATE users
+      SET totp_secret = totp_pending_secret, totp_pending_secret = NULL,
+          totp_enabled_at = CURRENT_TIMESTAMP, totp_last_used_step = ?
+      WHERE id = ?
+    `;
+    db.query(updateSql, [step, req.userId], async (updateErr) => {
+      if (updateErr) {
+        console.error('Error enabling two-factor authentication:', updateErr);
+        return res.status(500).json({ error: 'Failed to enable two-factor authentication' });
+      }
       
-      if (!pageData || !pageData.path) {
-        reject(new Error('Failed to convert PDF page'));
-        return;
+      try {
+        const recoveryCodes = await replaceRecoveryCodes(req.userId);
+        logUserActivity(req.userId, 'TWO_FACTOR_ENABLED', { ip: req.ip || null });
+        res.json({
+          message: 'Two-factor authentication enabled',
+          recovery_codes: recoveryCodes
+        });
+      } catch (codesErr) {
+        console.error('Error creating recovery codes:', codesErr);
+        res.status(500).json({ error: 'Two-factor authentication was enabled but recovery codes could not be created' });
+      }
+    });
+  });
+});
+
+// Turn two-factor authentication off (requires the current password)
+app.post('/api/auth/2fa/disable', ensureAuthenticated, async (req, res) => {
+  const { password } = req.body;
+  
+  try {
+    if (!(await verifyUserPassword(req.userId, password))) {
+      return res.status(401).json({ error: 'Current password is incorrect' });
+    }
+    
+    const access = await getUserAccess(req.userId);
+    if (access.two_factor_required) {
+      return res.status(403).json({ error: 'Two-factor authentication is required for your role and cannot be turned off' });
+    }
+    
+    const updateSql = `
+      UPDATE users
+      SET totp_secret = NULL, totp_pending_secret = NULL, totp_enabled_at = NULL, totp_last_used_step = NULL
+      WHERE id = ?
+    `;
+    db.query(updateSql, [req.userId], (err) => {
+      if (err) {
+        console.error('Error disabling two-factor authentication:', err);
+        return res.status(500).json({ error: 'Failed to disable two-factor authentication' });
       }
       
-      resolve(pageData);
-    } catch (error) {
-      clearTimeout(timeoutId);
-      reject(error);
+      db.query('DELETE FROM user_recovery_codes WHERE user_id = ?', [req.userId]);
+      logUserActivity(req.userId, 'TWO_FACTOR_DISABLED', { ip: req.ip || null });
+      res.json({ message: 'Two-factor authentication disabled' });
+    });
+  } catch (err) {
+    console.error('Error disabling two-factor authentication:', err);
+    res.status(500).json({ error: 'Failed to disable two-factor authentication' });
+  }
+});
+
+// Replace the recovery codes (requires the current password); old codes stop working
+app.post('/api/auth/2fa/recovery-codes', ensureAuthenticated, async (req, res) => {
+  const { password } = req.body;
+  
+  try {
+    if (!(await verifyUserPassword(req.userId, password))) {
+      return res.status(401).json({ error: 'Current password is incorrect' });
+    }
+    
+    const rows = await new Promise((resolve, reject) => {
+      db.query('SELECT totp_enabled_at FROM users WHERE id = ?', [req.userId], (err, results) => (err ? reject(err) : resolve(results)));
+    });
+    if (!Array.isArray(rows) || rows.length === 0 || !rows[0].totp_enabled_at) {
+      return res.status(400).json({ error: 'Two-factor authentication is not enabled' });
     }
+    
+    const recoveryCodes = await replaceRecoveryCodes(req.userId);
+    logUserActivity(req.userId, 'RECOVERY_CODES_REGENERATED', { ip: req.ip || null });
+    res.json({ message: 'New recovery codes generated', recovery_codes: recoveryCodes });
+  } catch (err) {
+    console.error('Error regenerating recovery codes:', err);
+    res.status(500).json({ error: 'Failed to generate recovery codes' });
+  }
+});
+
+// =============================================
+// SIGN IN WITH EXTERNAL PROVIDERS (OpenID Connect)
+// =============================================
+
+// The provider redirects the browser back to the API; a login then ends on /auth with a one-time
+// handoff code the web app swaps for a session, so tokens never appear in a URL.
+const SOCIAL_LOGIN_ENABLED = process.env.ENABLE_SOCIAL_LOGIN === 'true';
+const oidcProviders = SOCIAL_LOGIN_ENABLED ? loadOidcProviders() : new Map();
+const OIDC_REQUEST_MINUTES = 10;
+const OIDC_HANDOFF_SECONDS = 120;
+if (oidcProviders.size > 0) {
+  console.log(`Sign-in providers: ${[...oidcProviders.keys()].join(', ')}`);
+}
+
+function oidcRedirectUri(provider) {
+  return `${APP_URL}/api/auth/oidc/${provider.id}/callback`;
+}
+
+// Helper to send the browser back to the web app after the provider callback
+function redirectAfterOidc(res, linking, params) {
+  const query = new URLSearchParams(params).toString();
+  res.redirect(linking ? `${APP_URL}/profile?${query}` : `${APP_URL}/auth?mode=oidc&${query}`);
+}
+
+// Helper to derive a free username from the provider's profile for a new account
+async function uniqueUsernameFor(identity) {
+  const base = String(identity.preferredUsername || identity.email.split('@')[0])
+    .replace(/[^A-Za-z0-9_.-]/g, '')
+    .slice(0, 40)
+    .padEnd(3, '0');
+  for (let attempt = 0; attempt < 20; attempt++) {
+    const candidate = attempt === 0 ? base : `${base}${randomBytes(2).readUInt16BE(0) % 10000}`;
+    const rows = await new Promise((resolve, reject) => {
+      db.query('SELECT id FROM users WHERE username = ?', [candidate], (err, results) => (err ? reject(err) : resolve(results)));
+    });
+    if (!Array.isArray(rows) || rows.length === 0) return candidate;
+  }
+  throw new Error('Could not find a free username');
+}
+
+// Helper to record a new provider link for a user
+function insertUserIdentity(userId, provider, identity) {
+  return new Promise((resolve, reject) => {
+    db.query(
+      'INSERT INTO user_identities (user_id, provider, subject, email, last_used_at) VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)',
+      [userId, provider.id, identity.subject, identity.email],
+      (err) => (err ? reject(err) : resolve())
+    );
   });
 }
 
-// Helper function to generate thumbnail for a book
-async function generateBookThumbnail(bookId) {
-  let tempPdfPath = null;
-  let tempImagePath = null;
+// Find (or create) the user a provider identity signs in as.
+// Matches an existing link first, then an account whose verified email equals the provider's
+// verified email; otherwise a new account is created. Resolves with { userId } or { error }.
+async function resolveOidcUser(provider, identity) {
+  const linked = await dbQuery('SELECT user_id FROM user_identities WHERE provider = ? AND subject = ?', [provider.id, identity.subject]);
+  if (linked.length > 0) {
+    await dbQuery('UPDATE user_identities SET last_used_at = CURRENT_TIMESTAMP WHERE provider = ? AND subject = ?', [provider.id, identity.subject]);
+    return { userId: linked[0].user_id };
+  }
+
+  if (!identity.email || !identity.emailVerified) {
+    return { error: `${provider.name} did not share a verified email address` };
+  }
+
+  const existing = await dbQuery('SELECT id, email_verified_at FROM users WHERE email = ?', [identity.email]);
+  if (existing.length > 0) {
+    // Linking to an address nobody has proven to own would let whoever registered it first
+    // keep a password into the provider user's account
+    if (!existing[0].email_verified_at) {
+      return { error: 'An account with this email exists but its address is not verified. Sign in with your password and link the provider from your profile.' };
+    }
+    await insertUserIdentity(existing[0].id, provider, identity);
+    logUserActivity(existing[0].id, 'IDENTITY_LINKED', { provider: provider.id, method: 'verified_email' });
+    return { userId: existing[0].id };
+  }
+
+  // New account; the random password can be replaced through "Forgot password"
+  const username = await uniqueUsernameFor(identity);
+  const passwordHash = await hashPassword(randomBytes(32).toString('hex'));
+  const result = await dbQuery(
+    `INSERT INTO users (username, email, password_hash, first_name, last_name, is_active, email_verified_at)
+     VALUES (?, ?, ?, ?, ?, 1, CURRENT_TIMESTAMP)`,
+    [username, identity.email, passwordHash, identity.givenName ? identity.givenName.slice(0, NAME_MAX_LENGTH) : null, identity.familyName ? identity.familyName.slice(0, NAME_MAX_LENGTH) : null]
+  );
+  const roleId = await ensureRole('user');
+  await dbQuery('INSERT INTO user_roles (user_id, role_id) VALUES (?, ?)', [result.insertId, roleId]);
+  await insertUserIdentity(result.insertId, provider, identity);
+  logUserActivity(result.insertId, 'IDENTITY_LINKED', { provider: provider.id, method: 'signup' });
+  return { userId: result.insertId };
+}
+
+// Sign-in providers offered on the sign-in page
+app.get('/api/auth/providers', (req, res) => {
+  res.json({
+    providers: [...oidcProviders.values()].map(provider => ({ id: provider.id, name: provider.name }))
+  });
+});
+
+// Start a provider sign in, or a link when `link` is true (requires a session).
+// Responds with the provider URL the browser should be sent to.
+app.post('/api/auth/oidc/:provider/start', async (req, res) => {
+  const provider = oidcProviders.get(req.params.provider);
+  if (!provider) {
+    return res.status(404).json({ error: 'Unknown sign-in provider' });
+  }
   
   try {
-    // Get book file information
-    const bookResult = await new Promise((resolve, reject) => {
-      db.query('SELECT file_path, file_content, file_type, title FROM books WHERE id = ?', [bookId], (err, results) => {
-        if (err) reject(err);
-        else resolve(results);
-      });
+    let linkUserId = null;
+    if (req.body && req.body.link) {
+      const sessionUser = await getSessionUser(req);
+      if (!sessionUser) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+      linkUserId = sessionUser.id;
+    }
+    
+    const endpoints = await getProviderEndpoints(provider);
+    const request = createAuthorizationRequest();
+    await new Promise((resolve, reject) => {
+      db.query(
+        `INSERT INTO oidc_login_requests (provider, state_hash, nonce, code_verifier, link_user_id, expires_at, ip_address)
+         VALUES (?, ?, ?, ?, ?, DATE_ADD(NOW(), INTERVAL ? MINUTE), ?)`,
+        [provider.id, hashToken(request.state), request.nonce, request.codeVerifier, linkUserId, OIDC_REQUEST_MINUTES, req.ip || null],
+        (err) => (err ? reject(err) : resolve())
+      );
     });
     
-    if (!Array.isArray(bookResult) || bookResult.length === 0) {
-      console.log(`Book ${bookId} not found for thumbnail generation`);
-      return;
+    res.json({
+      authorization_url: buildAuthorizationUrl(provider, endpoints, { ...request, redirectUri: oidcRedirectUri(provider) })
+    });
+  } catch (err) {
+    console.error(`Error starting ${provider.id} sign in:`, err);
+    res.status(502).json({ error: `Could not reach ${provider.name}. Please try again later.` });
+  }
+});
+
+// The provider redirects the browser here with the authorization code
+app.get('/api/auth/oidc/:provider/callback', async (req, res) => {
+  const provider = oidcProviders.get(req.params.provider);
+  const { code, state, error: providerError } = req.query;
+  if (!provider || typeof state !== 'string') {
+    return redirectAfterOidc(res, false, { error: 'This sign-in link is not valid' });
+  }
+  
+  try {
+    const rows = await new Promise((resolve, reject) => {
+      db.query(
+        `SELECT id, nonce, code_verifier, link_user_id FROM oidc_login_requests
+         WHERE state_hash = ? AND provider = ? AND used_at IS NULL AND expires_at > NOW()`,
+        [hashToken(state), provider.id],
+        (err, results) => (err ? reject(err) : resolve(results))
+      );
+    });
+    const request = Array.isArray(rows) && rows.length > 0 ? rows[0] : null;
+    if (!request) {
+      return redirectAfterOidc(res, false, { error: 'This sign-in attempt has expired. Please try again.' });
     }
+    db.query('UPDATE oidc_login_requests SET used_at = CURRENT_TIMESTAMP WHERE id = ?', [request.id]);
+    const linking = request.link_user_id !== null;
     
-    const book = bookResult[0];
+    if (providerError || typeof code !== 'string') {
+      return redirectAfterOidc(res, linking, { error: `${provider.name} sign in was cancelled` });
+    }
     
-    if (!book.file_content || book.file_type !== 'application/pdf') {
-      console.log(`Book ${bookId} is not a PDF, skipping thumbnail generation`);
-      return;
+    const endpoints = await getProviderEndpoints(provider);
+    const identity = await completeAuthorization(provider, endpoints, {
+      code,
+      codeVerifier: request.code_verifier,
+      nonce: request.nonce,
+      redirectUri: oidcRedirectUri(provider)
+    });
+    
+    if (linking) {
+      const owners = await new Promise((resolve, reject) => {
+        db.query(
+          'SELECT user_id, provider, subject FROM user_identities WHERE (provider = ? AND subject = ?) OR (provider = ? AND user_id = ?)',
+          [provider.id, identity.subject, provider.id, request.link_user_id],
+          (err, results) => (err ? reject(err) : resolve(results))
+        );
+      });
+      if (owners.some(owner => owner.subject === identity.subject && owner.user_id !== request.link_user_id)) {
+        return redirectAfterOidc(res, true, { error: `That ${provider.name} account is already linked to another user` });
+      }
+      if (owners.some(owner => owner.user_id === request.link_user_id)) {
+        return redirectAfterOidc(res, true, { error: `A ${provider.name} account is already linked to your profile` });
+      }
+      await insertUserIdentity(request.link_user_id, provider, identity);
+      logUserActivity(request.link_user_id, 'IDENTITY_LINKED', { provider: provider.id, method: 'profile' });
+      return redirectAfterOidc(res, true, { linked: provider.id });
     }
     
-    // Check file size to prevent memory issues
-    const pdfBuffer = Buffer.from(book.file_content, 'base64');
-    const fileSizeMB = pdfBuffer.length / (1024 * 1024);
+    const resolved = await resolveOidcUser(provider, identity);
+    if (resolved.error) {
+      return redirectAfterOidc(res, false, { error: resolved.error });
+    }
     
-    if (fileSizeMB > 50) { // Skip very large PDFs (>50MB)
-      console.log(`Book ${bookId} PDF too large (${fileSizeMB.toFixed(2)}MB), skipping thumbnail generation`);
-      return;
+    const handoff = randomBytes(32).toString('hex');
+    await new Promise((resolve, reject) => {
+      db.query(
+        'UPDATE oidc_login_requests SET user_id = ?, handoff_hash = ?, expires_at = DATE_ADD(NOW(), INTERVAL ? SECOND) WHERE id = ?',
+        [resolved.userId, hashToken(handoff), OIDC_HANDOFF_SECONDS, request.id],
+        (err) => (err ? reject(err) : resolve())
+      );
+    });
+    redirectAfterOidc(res, false, { code: handoff });
+  } catch (err) {
+    console.error(`Error completing ${provider.id} sign in:`, err);
+    redirectAfterOidc(res, false, { error: `Could not sign you in with ${provider.name}. Please try again.` });
+  }
+});
+
+// Exchange the handoff code from the provider callback for a session (or a 2FA challenge)
+app.post('/api/auth/oidc/complete', (req, res) => {
+  const { code } = req.body || {};
+  
+  if (!code) {
+    return res.status(400).json({ error: 'code is required' });
+  }
+  
+  const sql = `
+    SELECT 
+      r.id as request_id,
+      r.provider,
+      u.id,
+      u.username,
+      u.email,
+      u.first_name,
+      u.last_name,
+      u.is_active,
+      u.email_verified_at,
+      u.totp_enabled_at
+    FROM oidc_login_requests r
+    JOIN users u ON u.id = r.user_id
+    WHERE r.handoff_hash = ? AND r.completed_at IS NULL AND r.expires_at > NOW()
+  `;
+  
+  db.query(sql, [hashToken(code)], async (err, rows) => {
+    if (err) {
+      console.error('Error loading provider sign in:', err);
+      return res.status(500).json({ error: 'Database error during sign in' });
     }
     
-    // Convert base64 to buffer and save to temporary file
-    tempPdfPath = join(tmpdir(), `book_${bookId}_${Date.now()}.pdf`);
+    const user = Array.isArray(rows) && rows.length > 0 ? rows[0] : null;
+    if (!user) {
+      return res.status(401).json({ error: 'This sign-in attempt has expired. Please try again.' });
+    }
     
     try {
-      // Write PDF to temporary file
-      writeFileSync(tempPdfPath, pdfBuffer);
-      
-      // Configure pdf2pic options with better error handling
-      const options = {
-        density: 150,
-        saveFilename: `thumb_${bookId}_${Date.now()}`,
-        savePath: tmpdir(),
-        format: "png",
-        width: 300,
-        height: 400
-      };
+      // Single use, even when two requests race for the same code
+      const claimed = await new Promise((resolve, reject) => {
+        db.query(
+          'UPDATE oidc_login_requests SET completed_at = CURRENT_TIMESTAMP WHERE id = ? AND completed_at IS NULL',
+          [user.request_id],
+          (updateErr, result) => (updateErr ? reject(updateErr) : resolve(result.affectedRows > 0))
+        );
+      });
+      if (!claimed) {
+        return res.status(401).json({ error: 'This sign-in attempt has expired. Please try again.' });
+      }
       
-      // Convert PDF to image with timeout and better error handling
-      const pageData = await safePdfToImage(tempPdfPath, options, 30000);
+      if (!user.is_active) {
+        return res.status(401).json({ error: 'Account is deactivated. Please contact an administrator.' });
+      }
       
-      if (!pageData || !pageData.path) {
-        console.log(`Failed to convert PDF page for book ${bookId}`);
-        return;
+      if (REQUIRE_EMAIL_VERIFICATION && !user.email_verified_at) {
+        return res.status(403).json({
+          error: 'Please verify your email address before signing in.',
+          code: 'EMAIL_NOT_VERIFIED'
+        });
       }
       
-      tempImagePath = pageData.path;
-      
-      // Process the image with sharp
-      const thumbnailBuffer = await sharp(tempImagePath)
-        .resize(300, 400, { fit: 'inside', withoutEnlargement: true, background: { r: 255, g: 255, b: 255, alpha: 1 } })
-        .png({ quality: 90 })
-        .toBuffer()
-        .catch(error => {
-          console.error(`Sharp processing error for book ${bookId}:`, error);
-          throw new Error('Failed to process image with Sharp');
+      // The provider replaces the password step only; 2FA still applies
+      if (user.totp_enabled_at) {
+        const challengeToken = await createTwoFactorChallenge(user.id, req);
+        return res.json({
+          two_factor_required: true,
+          challenge_token: challengeToken,
+          expires_in: TWO_FACTOR_CHALLENGE_MINUTES * 60,
+          message: 'Enter the code from your authenticator app'
         });
+      }
       
-      // Convert to base64 for storage (optional - you could store this in the database)
-      const thumbnailBase64 = thumbnailBuffer.toString('base64');
-      
-      // Update the book with thumbnail data (you might want to add a thumbnail_content field to your database)
-      // For now, we'll just log success
-      console.log(`Successfully generated thumbnail for book ${bookId}`);
-      
-    } catch (conversionError) {
-      console.error(`PDF conversion error for book ${bookId}:`, conversionError);
-      // Don't re-throw, just log and continue
+      await completeSignIn(user, req, res, `oidc:${user.provider}`);
+    } catch (signInErr) {
+      console.error('Provider sign in error:', signInErr);
+      return res.status(500).json({ error: 'Error signing in' });
     }
-    
-  } catch (error) {
-    console.error(`Error generating thumbnail for book ${bookId}:`, error);
-  } finally {
-    // Clean up temporary files with better error handling
-    try {
-      if (tempPdfPath && require('fs').existsSync(tempPdfPath)) {
-        unlinkSync(tempPdfPath);
-      }
-      if (tempImagePath && require('fs').existsSync(tempImagePath)) {
-        unlinkSync(tempImagePath);
+  });
+});
+
+// Providers linked to the current user
+app.get('/api/auth/identities', ensureAuthenticated, (req, res) => {
+  db.query(
+    'SELECT provider, email, created_at, last_used_at FROM user_identities WHERE user_id = ? ORDER BY created_at',
+    [req.userId],
+    (err, rows) => {
+      if (err) {
+        console.error('Error fetching linked providers:', err);
+        return res.status(500).json({ error: 'Failed to fetch linked accounts' });
       }
       
-      // Clean up any pdf2pic output files that might have been created
-      const pdf2picOutputs = require('fs').readdirSync(tmpdir())
-        .filter(file => file.startsWith('untitled.') || file.startsWith(`thumb_${bookId}_`))
-        .map(file => join(tmpdir(), file));
-      
-      pdf2picOutputs.forEach(file => {
-        try {
-          if (require('fs').existsSync(file)) {
-            unlinkSync(file);
-          }
-        } catch (cleanupError) {
-          console.warn(`Warning: Failed to clean up temporary file ${file}:`, cleanupError);
-        }
+      res.json({
+        identities: rows.map(row => ({
+          ...row,
+          name: oidcProviders.has(row.provider) ? oidcProviders.get(row.provider).name : row.provider
+        }))
+      });
+    }
+  );
+});
+
+// Unlink a provider. Removing the last one needs the password, so nobody is locked out of an
+// account that was created through a provider and never had a password set.
+app.delete('/api/auth/identities/:provider', ensureAuthenticated, async (req, res) => {
+  const { password } = req.body || {};
+  
+  try {
+    const rows = await new Promise((resolve, reject) => {
+      db.query('SELECT provider FROM user_identities WHERE user_id = ?', [req.userId], (err, results) => (err ? reject(err) : resolve(results)));
+    });
+    if (!rows.some(row => row.provider === req.params.provider)) {
+      return res.status(404).json({ error: 'That provider is not linked to your account' });
+    }
+    
+    if (rows.length === 1 && !(await verifyUserPassword(req.userId, password))) {
+      return res.status(401).json({
+        error: 'Enter your password to unlink your last sign-in provider. If you never set one, use "Forgot password" first.',
+        code: 'PASSWORD_REQUIRED'
       });
-    } catch (cleanupError) {
-      console.warn('Warning: Failed to clean up temporary files:', cleanupError);
     }
+    
+    await new Promise((resolve, reject) => {
+      db.query(
+        'DELETE FROM user_identities WHERE user_id = ? AND provider = ?',
+        [req.userId, req.params.provider],
+        (err) => (err ? reject(err) : resolve())
+      );
+    });
+    logUserActivity(req.userId, 'IDENTITY_UNLINKED', { provider: req.params.provider });
+    
+    res.json({ message: 'Provider unlinked' });
+  } catch (err) {
+    console.error('Error unlinking provider:', err);
+    res.status(500).json({ error: 'Failed to unlink provider' });
   }
-}
+});
 
-// Update book (admin only)
-app.put('/api/admin/books/:id', ensureAdmin, (req, res) => {
-  const bookId = req.params.id;
-  const { 
-    title, 
-    author, 
-    description, 
-    book_type,
-    cover_image_path, 
-    file_path, 
-    file_content,
-    file_size,
-    file_type,
-    external_link,
-    purchase_link,
-    price,
-    currency,
-    category_id, 
-    isbn, 
-    published_year, 
-    page_count 
-  } = req.body;
+// Request a password reset link. Always answers the same way so emails cannot be enumerated.
+app.post('/api/auth/forgot-password', (req, res) => {
+  if (!PASSWORD_RESET_ENABLED) {
+    return res.status(404).json({ error: 'Password reset is disabled' });
+  }
   
-  if (!bookId) {
-    return res.status(400).json({ error: 'Book ID is required' });
+  const { email } = req.body || {};
+  if (!email || typeof email !== 'string') {
+    return res.status(400).json({ error: 'Email is required' });
   }
   
-  // Validate file size (100MB limit) if updating file
-  const maxFileSize = 100 * 1024 * 1024; // 100MB in bytes
-  if (file_size && parseInt(file_size) > maxFileSize) {
-    return res.status(413).json({ 
-      error: 'File too large', 
-      message: `File size ${Math.round(file_size / (1024 * 1024))}MB exceeds the maximum allowed size of 100MB. Please compress the file or use a smaller version.`,
-      maxSize: '100MB',
-      currentSize: `${Math.round(file_size / (1024 * 1024))}MB`
-    });
+  const genericResponse = { message: 'If an account exists for that email, a reset link has been sent.' };
+  
+  db.query('SELECT id, username, email, is_active FROM users WHERE email = ?', [email], async (err, rows) => {
+    if (err) {
+      console.error('Error looking up user for password reset:', err);
+      return res.status(500).json({ error: 'Failed to request password reset' });
+    }
+    
+    const user = Array.isArray(rows) && rows.length > 0 ? rows[0] : null;
+    if (!user || user.is_active === 0 || user.is_active === false) {
+      return res.json(genericResponse);
+    }
+    
+    try {
+      await sendPasswordResetEmail(user, req);
+    } catch (mailErr) {
+      console.error('Error sending password reset email:', mailErr);
+    }
+    res.json(genericResponse);
+  });
+});
+
+// Set a new password using a reset token; every open session is signed out
+app.post('/api/auth/reset-password', (req, res) => {
+  if (!PASSWORD_RESET_ENABLED) {
+    return res.status(404).json({ error: 'Password reset is disabled' });
+  }
+  
+  const { token, password } = req.body || {};
+  if (!token || !password) {
+    return res.status(400).json({ error: 'Token and new password are required' });
+  }
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
   }
+  
+  const sql = `
+    SELECT id, user_id
+    FROM password_reset_tokens
+    WHERE token_hash = ? AND used_at IS NULL AND expires_at > NOW()
+    LIMIT 1
+  `;
+  
+  db.query(sql, [hashToken(token)], async (err, rows) => {
+    if (err) {
+      console.error('Error checking password reset token:', err);
+      return res.status(500).json({ error: 'Failed to reset password' });
+    }
+    
+    if (!Array.isArray(rows) || rows.length === 0) {
+      return res.status(400).json({ error: 'This reset link is invalid or has expired. Please request a new one.' });
+    }
+    
+    const resetToken = rows[0];
+    
+    try {
+      const passwordHash = await bcrypt.hash(password, 12);
+      // Claim the token; of two requests racing with it, only the one that marks it used goes on
+      const claim = await new Promise((resolve, reject) => {
+        db.query(
+          'UPDATE password_reset_tokens SET used_at = CURRENT_TIMESTAMP WHERE id = ? AND used_at IS NULL',
+          [resetToken.id],
+          (updateErr, result) => (updateErr ? reject(updateErr) : resolve(result))
+        );
+      });
+      if (claim.affectedRows !== 1) {
+        return res.status(400).json({ error: 'This reset link is invalid or has expired. Please request a new one.' });
+      }
+      // The user proved access to the mailbox, so the address counts as verified too
+      await new Promise((resolve, reject) => {
+        db.query(
+          'UPDATE users SET password_hash = ?, email_verified_at = COALESCE(email_verified_at, CURRENT_TIMESTAMP), updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+          [passwordHash, resetToken.user_id],
+          (updateErr) => (updateErr ? reject(updateErr) : resolve())
+        );
+      });
+      await revokeUserSessions(resetToken.user_id);
+      res.json({ message: 'Password updated. You can now sign in with your new password.' });
+    } catch (resetErr) {
+      console.error('Error resetting password:', resetErr);
+      res.status(500).json({ error: 'Failed to reset password' });
+    }
+  });
+});
 
-  // Validate file content length for base64 data if updating file
-  if (file_content && file_content.length > maxFileSize * 1.4) { // Base64 is ~1.4x larger than binary
-    return res.status(413).json({ 
-      error: 'File content too large', 
-      message: 'The uploaded file content exceeds the maximum allowed size. Please compress the file or use a smaller version.',
-      maxSize: '100MB'
-    });
+// Confirm an email address with a verification token
+app.post('/api/auth/verify-email', (req, res) => {
+  const { token } = req.body || {};
+  if (!token) {
+    return res.status(400).json({ error: 'Token is required' });
   }
   
-  // Check if book exists
-  db.query('SELECT id FROM books WHERE id = ?', [bookId], (err, bookResults) => {
+  const sql = `
+    SELECT t.id, t.user_id
+    FROM email_verification_tokens t
+    JOIN users u ON u.id = t.user_id
+    WHERE t.token_hash = ? AND t.used_at IS NULL AND t.expires_at > NOW() AND u.email = t.email
+    LIMIT 1
+  `;
+  
+  db.query(sql, [hashToken(token)], async (err, rows) => {
     if (err) {
-      console.error('Error checking book existence:', err);
-      return res.status(500).json({ error: 'Database error' });
+      console.error('Error checking verification token:', err);
+      return res.status(500).json({ error: 'Failed to verify email' });
     }
     
-    if (Array.isArray(bookResults) && bookResults.length === 0) {
-      return res.status(404).json({ error: 'Book not found' });
+    if (!Array.isArray(rows) || rows.length === 0) {
+      return res.status(400).json({ error: 'This verification link is invalid or has expired.' });
     }
     
-    // Check if category exists if provided
-    if (category_id) {
-      db.query('SELECT id FROM categories WHERE id = ?', [category_id], (err, categoryResults) => {
-        if (err) {
-          console.error('Error checking category:', err);
-          return res.status(500).json({ error: 'Database error' });
-        }
-        
-        if (Array.isArray(categoryResults) && categoryResults.length === 0) {
-          return res.status(400).json({ error: 'Category not found' });
-        }
-        
-        updateBook();
+    const verification = rows[0];
+    
+    try {
+      await new Promise((resolve, reject) => {
+        db.query('UPDATE email_verification_tokens SET used_at = CURRENT_TIMESTAMP WHERE id = ?', [verification.id], (updateErr) => (updateErr ? reject(updateErr) : resolve()));
       });
-    } else {
-      updateBook();
+      await new Promise((resolve, reject) => {
+        db.query('UPDATE users SET email_verified_at = CURRENT_TIMESTAMP WHERE id = ?', [verification.user_id], (updateErr) => (updateErr ? reject(updateErr) : resolve()));
+      });
+      res.json({ message: 'Email verified successfully' });
+    } catch (verifyErr) {
+      console.error('Error verifying email:', verifyErr);
+      res.status(500).json({ error: 'Failed to verify email' });
+    }
+  });
+});
+
+// Send a fresh verification link. Answers the same way whether or not the email exists.
+app.post('/api/auth/resend-verification', (req, res) => {
+  const { email } = req.body || {};
+  if (!email || typeof email !== 'string') {
+    return res.status(400).json({ error: 'Email is required' });
+  }
+  
+  const genericResponse = { message: 'If that account still needs verification, a new link has been sent.' };
+  
+  db.query('SELECT id, email, email_verified_at FROM users WHERE email = ?', [email], async (err, rows) => {
+    if (err) {
+      console.error('Error looking up user for verification:', err);
+      return res.status(500).json({ error: 'Failed to send verification email' });
     }
     
-    function updateBook() {
-      const updateFields = [];
-      const updateValues = [];
-      
-      if (title !== undefined) {
-        updateFields.push('title = ?');
-        updateValues.push(title);
-      }
-      if (author !== undefined) {
-        updateFields.push('author = ?');
-        updateValues.push(author);
-      }
-      if (description !== undefined) {
-        updateFields.push('description = ?');
-        updateValues.push(description);
-      }
-      if (book_type !== undefined) {
-        updateFields.push('book_type = ?');
-        updateValues.push(book_type);
-      }
-      if (cover_image_path !== undefined) {
-        updateFields.push('cover_image_path = ?');
-        updateValues.push(cover_image_path);
-      }
-      if (file_path !== undefined) {
-        updateFields.push('file_path = ?');
-        updateValues.push(file_path);
-      }
-      if (file_content !== undefined) {
-        updateFields.push('file_content = ?');
-        updateValues.push(file_content);
+    const user = Array.isArray(rows) && rows.length > 0 ? rows[0] : null;
+    if (!user || user.email_verified_at) {
+      return res.json(genericResponse);
+    }
+    
+    try {
+      await sendVerificationEmail(user.id, user.email);
+    } catch (mailErr) {
+      console.error('Error sending verification email:', mailErr);
+    }
+    res.json(genericResponse);
+  });
+});
+
+// Book Management Endpoints
+
+// =============================================
+// APP TOKENS (e-reader apps & OPDS)
+// =============================================
+
+// Long-lived tokens for apps that cannot go through the sign-in flow, such as e-readers
+// browsing the OPDS catalog. They only open the catalog and book downloads, never the rest
+// of the API. Apps send one as the password of HTTP Basic auth (or as a Bearer token).
+const APP_TOKEN_PREFIX = 'ilb_';
+const MAX_APP_TOKENS_PER_USER = 20;
+
+// Helper to read an app token from Basic auth (the password) or a Bearer header
+function getAppTokenFromRequest(req) {
+  const header = req.header('authorization');
+  if (!header || typeof header !== 'string') return null;
+  const [scheme, value] = header.trim().split(/\s+/);
+  let token = null;
+  if (scheme && scheme.toLowerCase() === 'basic' && value) {
+    const decoded = Buffer.from(value, 'base64').toString('utf8');
+    token = decoded.slice(decoded.indexOf(':') + 1);
+  } else {
+    token = getBearerToken(req);
+  }
+  return token && token.startsWith(APP_TOKEN_PREFIX) ? token : null;
+}
+
+// Resolve the user behind the request's app token, or null
+async function getAppTokenUser(req) {
+  if (req.appTokenUser !== undefined) return req.appTokenUser;
+
+  const token = getAppTokenFromRequest(req);
+  if (!token) {
+    req.appTokenUser = null;
+    return null;
+  }
+
+  const rows = await new Promise((resolve, reject) => {
+    db.query(
+      `SELECT t.id AS token_id, u.id, u.email, u.username, u.is_active
+       FROM user_app_tokens t
+       JOIN users u ON u.id = t.user_id
+       WHERE t.token_hash = ?
+       LIMIT 1`,
+      [hashToken(token)],
+      (err, results) => (err ? reject(err) : resolve(results))
+    );
+  });
+
+  const row = Array.isArray(rows) && rows.length > 0 ? rows[0] : null;
+  if (!row || row.is_active === 0 || row.is_active === false) {
+    req.appTokenUser = null;
+    return null;
+  }
+
+  db.query('UPDATE user_app_tokens SET last_used_at = CURRENT_TIMESTAMP WHERE id = ?', [row.token_id], (err) => {
+    if (err) console.error('Failed to update app token last_used_at:', err);
+  });
+
+  req.appTokenUser = { id: row.id, email: row.email, username: row.username, tokenId: row.token_id };
+  return req.appTokenUser;
+}
+
+// Middleware: ensure the request carries a valid app token. The Basic challenge makes
+// e-reader apps ask for the credentials.
+async function ensureAppToken(req, res, next) {
+  try {
+    const appUser = await getAppTokenUser(req);
+    if (!appUser) {
+      res.setHeader('WWW-Authenticate', 'Basic realm="iykeLib catalog", charset="UTF-8"');
+      return res.status(401).json({ error: 'Sign in with your email and an app token created on your profile page' });
+    }
+    req.userId = appUser.id;
+    req.userEmail = appUser.email;
+    next();
+  } catch (err) {
+    console.error('ensureAppToken error:', err);
+    return res.status(500).json({ error: 'Failed to verify app token' });
+  }
+}
+
+// The current user's app tokens (never the tokens themselves) and the catalog address to use them with
+app.get('/api/auth/app-tokens', ensureAuthenticated, (req, res) => {
+  db.query(
+    'SELECT id, name, token_hint, created_at, last_used_at FROM user_app_tokens WHERE user_id = ? ORDER BY created_at DESC',
+    [req.userId],
+    (err, rows) => {
+      if (err) {
+        console.error('Error fetching app tokens:', err);
+        return res.status(500).json({ error: 'Failed to fetch app tokens' });
       }
-      if (file_size !== undefined) {
-        updateFields.push('file_size = ?');
-        updateValues.push(file_size ? parseInt(file_size) : null);
+      
+      res.json({ tokens: rows, opds_url: `${APP_URL}/api/opds`, opds2_url: `${APP_URL}/api/opds/v2` });
+    }
+  );
+});
+
+// Create an app token. Body { name }; the token is only ever shown in this response.
+app.post('/api/auth/app-tokens', ensureAuthenticated, async (req, res) => {
+  const { name: rawName } = req.body || {};
+  const name = typeof rawName === 'string' ? rawName.trim() : '';
+  if (!name || name.length > 100) {
+    return res.status(400).json({ error: 'Give the token a name of up to 100 characters, such as the device it is for' });
+  }
+  
+  try {
+    const [{ count }] = await new Promise((resolve, reject) => {
+      db.query('SELECT COUNT(*) AS count FROM user_app_tokens WHERE user_id = ?', [req.userId], (err, results) => (err ? reject(err) : resolve(results)));
+    });
+    if (count >= MAX_APP_TOKENS_PER_USER) {
+      return res.status(400).json({ error: `You can have at most ${MAX_APP_TOKENS_PER_USER} app tokens. Revoke one you no longer use first.` });
+    }
+    
+    const token = `${APP_TOKEN_PREFIX}${randomBytes(24).toString('base64url')}`;
+    const result = await new Promise((resolve, reject) => {
+      db.query(
+        'INSERT INTO user_app_tokens (user_id, name, token_hash, token_hint) VALUES (?, ?, ?, ?)',
+        [req.userId, name, hashToken(token), token.slice(-4)],
+        (err, insertResult) => (err ? reject(err) : resolve(insertResult))
+      );
+    });
+    logUserActivity(req.userId, 'APP_TOKEN_CREATED', { name });
+    
+    res.status(201).json({
+      id: result.insertId,
+      name,
+      token_hint: token.slice(-4),
+      created_at: new Date().toISOString(),
+      last_used_at: null,
+      token
+    });
+  } catch (err) {
+    console.error('Error creating app token:', err);
+    res.status(500).json({ error: 'Failed to create app token' });
+  }
+});
+
+// Revoke an app token; apps using it are signed out straight away
+app.delete('/api/auth/app-tokens/:id', ensureAuthenticated, (req, res) => {
+  db.query('DELETE FROM user_app_tokens WHERE id = ? AND user_id = ?', [req.params.id, req.userId], (err, result) => {
+    if (err) {
+      console.error('Error revoking app token:', err);
+      return res.status(500).json({ error: 'Failed to revoke app token' });
+    }
+    if (result.affectedRows === 0) {
+      return res.status(404).json({ error: 'App token not found' });
+    }
+    
+    logUserActivity(req.userId, 'APP_TOKEN_REVOKED', { id: Number(req.params.id) });
+    res.json({ message: 'App token revoked' });
+  });
+});
+
+// =============================================
+// BOOK LISTING (search, filters, sorting & pagination)
+// =============================================
+
+const BOOK_LIST_DEFAULT_LIMIT = 24;
+const BOOK_LIST_MAX_LIMIT = 100;
+const BOOK_TYPES = ['file', 'link', 'purchase'];
+
+// Columns returned by book listings; the LONGBLOB file and thumbnail contents are never selected
+const BOOK_LIST_COLUMNS = `
+  b.id, b.title, b.author, b.category_id, b.description, b.isbn, b.book_type,
+  b.file_path, b.file_size, b.file_type, b.external_link, b.purchase_link, b.price, b.currency,
+  b.cover_image_path, b.published_year, b.page_count, b.series_id, b.series_position,
+  b.license, b.access_level, b.access_role_id, b.created_at, b.updated_at
+`;
+
+// Sort orders for GET /api/books; ties are broken by id in the same direction so cursors are stable
+const BOOK_LIST_SORTS = {
+  newest: { expression: 'UNIX_TIMESTAMP(b.created_at)', direction: 'DESC' },
+  title: { expression: 'b.title', direction: 'ASC' },
+  downloads: { expression: 'COALESCE(dl.download_count, 0)', direction: 'DESC' },
+  votes: { expression: '(COALESCE(r_up.up_votes, 0) - COALESCE(r_down.down_votes, 0))', direction: 'DESC' }
+};
+
+// Helper to turn user input into a LIKE pattern that matches it literally
+function likePattern(value) {
+  return `%${String(value).replace(/[\\%_]/g, char => `\\${char}`)}%`;
+}
+
+// Cursors are opaque to clients: the sort they belong to, the last row's sort value and id
+function encodeBookCursor(sort, row) {
+  return Buffer.from(JSON.stringify({ sort, value: row.sort_value, id: row.id })).toString('base64url');
+}
+
+function decodeBookCursor(cursor, sort) {
+  try {
+    const decoded = JSON.parse(Buffer.from(String(cursor), 'base64url').toString('utf8'));
+    if (decoded.sort !== sort || decoded.value === undefined || !Number.isInteger(decoded.id)) return null;
+    return decoded;
+  } catch {
+    return null;
+  }
+}
+
+// Parse the GET /api/books query string; resolves { where, params } or { error }.
+// Books hidden by the link checker are left out unless `includeHidden` is set.
+function buildBookListFilters(query, { includeHidden = false } = {}) {
+  const where = includeHidden ? [] : ['b.link_hidden_at IS NULL'];
+  const params = [];
+
+  if (query.q) {
+    const pattern = likePattern(query.q);
+    where.push('(b.title LIKE ? OR b.author LIKE ? OR b.description LIKE ? OR b.isbn LIKE ? OR c.name LIKE ?)');
+    params.push(pattern, pattern, pattern, pattern, pattern);
+  }
+  if (query.category) {
+    // Accept a category id or its name
+    if (/^\d+$/.test(String(query.category))) {
+      where.push('b.category_id = ?');
+    } else {
+      where.push('c.name = ?');
+    }
+    params.push(query.category);
+  }
+  if (query.book_type) {
+    if (!BOOK_TYPES.includes(query.book_type)) {
+      return { error: `book_type must be one of ${BOOK_TYPES.join(', ')}` };
+    }
+    where.push('b.book_type = ?');
+    params.push(query.book_type);
+  }
+  if (query.author) {
+    where.push('b.author LIKE ?');
+    params.push(likePattern(query.author));
+  }
+  for (const [name, operator] of [['year_from', '>='], ['year_to', '<=']]) {
+    if (query[name] === undefined || query[name] === '') continue;
+    if (!/^\d{1,4}$/.test(String(query[name]))) {
+      return { error: `${name} must be a year` };
+    }
+    where.push(`b.published_year ${operator} ?`);
+    params.push(Number(query[name]));
+  }
+  if (query.exclude) {
+    const excluded = String(query.exclude).split(',').filter(id => /^\d+$/.test(id));
+    if (excluded.length > 0) {
+      where.push('b.id NOT IN (?)');
+      params.push(excluded.map(Number));
+    }
+  }
+
+  return { where, params };
+}
+
+// Query parameters: q, category (id or name), book_type, author, year_from, year_to,
+// sort (newest | title | downloads | votes), limit, and either offset or cursor.
+// Responds with { books, total, limit, offset, next_cursor }.
+app.get('/api/books', async (req, res) => {
+  let sessionUser = null;
+  try {
+    sessionUser = await getSessionUser(req);
+  } catch (sessionErr) {
+    console.error('Failed to resolve session for books list:', sessionErr);
+  }
+
+  const sort = req.query.sort || 'newest';
+  const order = BOOK_LIST_SORTS[sort];
+  if (!order) {
+    return res.status(400).json({ error: `sort must be one of ${Object.keys(BOOK_LIST_SORTS).join(', ')}` });
+  }
+  
+  const limit = req.query.limit === undefined ? BOOK_LIST_DEFAULT_LIMIT : parseInt(req.query.limit, 10);
+  if (!Number.isInteger(limit) || limit < 1 || limit > BOOK_LIST_MAX_LIMIT) {
+    return res.status(400).json({ error: `limit must be between 1 and ${BOOK_LIST_MAX_LIMIT}` });
+  }
+  
+  const filters = buildBookListFilters(req.query);
+  if (filters.error) {
+    return res.status(400).json({ error: filters.error });
+  }
+  
+  // Cursor pagination continues after the last row seen; otherwise page by offset
+  const where = [...filters.where];
+  const params = [...filters.params];
+  let offset = null;
+  if (req.query.cursor) {
+    const cursor = decodeBookCursor(req.query.cursor, sort);
+    if (!cursor) {
+      return res.status(400).json({ error: 'Invalid cursor' });
+    }
+    const comparison = order.direction === 'DESC' ? '<' : '>';
+    where.push(`(${order.expression} ${comparison} ? OR (${order.expression} = ? AND b.id ${comparison} ?))`);
+    params.push(cursor.value, cursor.value, cursor.id);
+  } else {
+    offset = req.query.offset === undefined ? 0 : parseInt(req.query.offset, 10);
+    if (!Number.isInteger(offset) || offset < 0) {
+      return res.status(400).json({ error: 'offset must be a non-negative integer' });
+    }
+  }
+  
+  const sql = `
+    SELECT 
+      ${BOOK_LIST_COLUMNS},
+      c.name as category_name,
+      COALESCE(dl.download_count, 0) as download_count,
+      COALESCE(r_up.up_votes, 0) as up_votes,
+      COALESCE(r_down.down_votes, 0) as down_votes,
+      ur.vote as user_vote,
+      ${order.expression} as sort_value
+    FROM books b
+    LEFT JOIN categories c ON b.category_id = c.id
+    LEFT JOIN (
+        SELECT content_id, COUNT(*) as download_count
+        FROM download_logs
+        WHERE content_type = 'book'
+        GROUP BY content_id
+    ) dl ON b.id = dl.content_id
+    LEFT JOIN (
+        SELECT content_id, COUNT(*) as up_votes
+        FROM ratings
+        WHERE content_type = 'book' AND vote = 1
+        GROUP BY content_id
+    ) r_up ON b.id = r_up.content_id
+    LEFT JOIN (
+        SELECT content_id, COUNT(*) as down_votes
+        FROM ratings
+        WHERE content_type = 'book' AND vote = -1
+        GROUP BY content_id
+    ) r_down ON b.id = r_down.content_id
+    LEFT JOIN ratings ur ON ur.content_id = b.id AND ur.content_type = 'book' AND ur.user_id = ?
+    ${where.length > 0 ? `WHERE ${where.join(' AND ')}` : ''}
+    ORDER BY ${order.expression} ${order.direction}, b.id ${order.direction}
+    LIMIT ?${offset !== null ? ' OFFSET ?' : ''}
+  `;
+  const countSql = `
+    SELECT COUNT(*) as total
+    FROM books b
+    LEFT JOIN categories c ON b.category_id = c.id
+    ${filters.where.length > 0 ? `WHERE ${filters.where.join(' AND ')}` : ''}
+  `;
+  
+  try {
+    // One extra row tells whether there is a next page
+    const listParams = [sessionUser ? sessionUser.id : null, ...params, limit + 1];
+    if (offset !== null) listParams.push(offset);
+    
+    const [rows, countRows] = await Promise.all([
+      new Promise((resolve, reject) => {
+        db.query(sql, listParams, (err, results) => (err ? reject(err) : resolve(results)));
+      }),
+      new Promise((resolve, reject) => {
+        db.query(countSql, filters.params, (err, results) => (err ? reject(err) : resolve(results)));
+      })
+    ]);
+    
+    const hasMore = rows.length > limit;
+    const pageRows = hasMore ? rows.slice(0, limit) : rows;
+    const books = (await hideLockedContentLinks(req, 'book', pageRows)).map(({ sort_value, ...row }) => {
+      row.thumbnail = `/api/books/${row.id}/thumbnail`;
+      return row;
+    });
+    
+    res.json({
+      books,
+      total: Number(countRows[0].total),
+      limit,
+      offset,
+      next_cursor: hasMore ? encodeBookCursor(sort, pageRows[pageRows.length - 1]) : null
+    });
+  } catch (err) {
+    console.error('Error fetching books:', err);
+    res.status(500).json({ error: 'Failed to fetch books' });
+  }
+});
+
+// Get book by ID
+app.get('/api/books/:id', requireContentAccess('book'), async (req, res) => {
+  const bookId = req.params.id;
+  let sessionUser = null;
+  try {
+    sessionUser = await getSessionUser(req);
+  } catch (sessionErr) {
+    console.error('Failed to resolve session for book details:', sessionErr);
+  }
+  
+  const sql = `
+    SELECT 
+      b.*,
+      c.name as category_name,
+      s.name as series_name,
+      ar.name as access_role,
+      COALESCE(dl.download_count, 0) as download_count,
+      COALESCE(r_up.up_votes, 0) as up_votes,
+      COALESCE(r_down.down_votes, 0) as down_votes,
+      ur.vote as user_vote
+    FROM books b
+    LEFT JOIN categories c ON b.category_id = c.id
+    LEFT JOIN series s ON b.series_id = s.id
+    LEFT JOIN roles ar ON b.access_role_id = ar.id
+    LEFT JOIN (
+        SELECT content_id, COUNT(*) as download_count
+        FROM download_logs
+        WHERE content_type = 'book'
+        GROUP BY content_id
+    ) dl ON b.id = dl.content_id
+    LEFT JOIN (
+        SELECT content_id, COUNT(*) as up_votes
+        FROM ratings
+        WHERE content_type = 'book' AND vote = 1
+        GROUP BY content_id
+    ) r_up ON b.id = r_up.content_id
+    LEFT JOIN (
+        SELECT content_id, COUNT(*) as down_votes
+        FROM ratings
+        WHERE content_type = 'book' AND vote = -1
+        GROUP BY content_id
+    ) r_down ON b.id = r_down.content_id
+    LEFT JOIN ratings ur ON ur.content_id = b.id AND ur.content_type = 'book' AND ur.user_id = ?
+    WHERE b.id = ?
+  `;
+  
+  db.query(sql, [sessionUser ? sessionUser.id : null, bookId], (err, results) => {
+    if (err) {
+      console.error('Error fetching book:', err);
+      return res.status(500).json({ error: 'Failed to fetch book' });
+    }
+    
+    if (Array.isArray(results) && results.length === 0) {
+      return res.status(404).json({ error: 'Book not found' });
+    }
+    const book = results[0];
+    book.thumbnail = `/api/books/${book.id}/thumbnail`;
+    withContributors('book', [book])
+      .then(([credited]) => res.json(credited))
+      .catch(creditErr => {
+        console.error('Error adding contributors to book:', creditErr);
+        res.json(book);
+      });
+  });
+});
+
+const INSERT_BOOK_SQL = `
+  INSERT INTO books (
+    title, author, description, book_type, cover_image_path, file_path, 
+    file_content, file_size, file_type, external_link, purchase_link, price, currency, category_id, isbn, published_year, page_count,
+    series_id, series_position, license, access_level, access_role_id
+  ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+`;
+
+// Helper to turn validated book fields into INSERT_BOOK_SQL parameters
+function insertBookValues({ title, author, description, book_type, cover_image_path, file_path, file_content, file_size, file_type, external_link, purchase_link, price, currency, category_id, isbn, published_year, page_count, series_id, series_position, license, access_level, access_role_id }) {
+  return [
+    title, 
+    author, 
+    description || null, 
+    book_type || 'file',
+    cover_image_path || null, 
+    file_path || null,
+    file_content || null,
+    file_size ? parseInt(file_size) : null,
+    file_type || null,
+    external_link || null,
+    purchase_link || null,
+    price ? parseFloat(price) : null,
+    currency || 'USD',
+    category_id, 
+    isbn || null, 
+    published_year ? parseInt(published_year) : null, 
+    page_count ? parseInt(page_count) : null,
+    series_id || null,
+    series_id && series_position ? parseInt(series_position) : null,
+    license || null,
+    access_level || 'public',
+    access_level === 'restricted' && access_role_id ? access_role_id : null
+  ];
+}
+
+// Rules every new book must pass, shared by POST /api/admin/books and the bulk importer.
+// Returns { status, body } describing the first problem, or null when the book is valid.
+function validateNewBook({ title, author, category_id, book_type, file_path, file_size, file_content, external_link, purchase_link }) {
+  if (!title || !author || !category_id) {
+    return { status: 400, body: { error: 'title, author, and category_id are required' } };
+  }
+
+  // Validate file size (100MB limit)
+  const maxFileSize = 100 * 1024 * 1024; // 100MB in bytes
+  if (file_size && parseInt(file_size) > maxFileSize) {
+    return {
+      status: 413,
+      body: {
+        error: 'File too large', 
+        message: `File size ${Math.round(file_size / (1024 * 1024))}MB exceeds the maximum allowed size of 100MB. Please compress the file or use a smaller version.`,
+        maxSize: '100MB',
+        currentSize: `${Math.round(file_size / (1024 * 1024))}MB`
+      }
+    };
+  }
+
+  // Validate file content length for base64 data
+  if (file_content && file_content.length > maxFileSize * 1.4) { // Base64 is ~1.4x larger than binary
+    return {
+      status: 413,
+      body: {
+        error: 'File content too large', 
+        message: 'The uploaded file content exceeds the maximum allowed size. Please compress the file or use a smaller version.',
+        maxSize: '100MB'
+      }
+    };
+  }
+
+  // Validate book type specific requirements
+  if (book_type === 'file' && !file_path) {
+    return { status: 400, body: { error: 'file_path is required for file type books' } };
+  }
+  if (book_type === 'link' && !external_link) {
+    return { status: 400, body: { error: 'external_link is required for link type books' } };
+  }
+  if (book_type === 'purchase' && !purchase_link) {
+    return { status: 400, body: { error: 'purchase_link is required for purchase type books' } };
+  }
+  return null;
+}
+
+// Every book for the admin list, including books hidden by the link checker, with their link health
+app.get('/api/admin/books', requirePermission('books.write'), async (req, res) => {
+  const sql = `
+    SELECT
+      ${BOOK_LIST_COLUMNS},
+      b.link_hidden_at,
+      c.name as category_name,
+      s.name as series_name,
+      COALESCE(dl.download_count, 0) as download_count,
+      COALESCE(r_up.up_votes, 0) as up_votes,
+      COALESCE(r_down.down_votes, 0) as down_votes
+    FROM books b
+    LEFT JOIN categories c ON b.category_id = c.id
+    LEFT JOIN series s ON b.series_id = s.id
+    LEFT JOIN (
+        SELECT content_id, COUNT(*) as download_count
+        FROM download_logs
+        WHERE content_type = 'book'
+        GROUP BY content_id
+    ) dl ON b.id = dl.content_id
+    LEFT JOIN (
+        SELECT content_id, COUNT(*) as up_votes
+        FROM ratings
+        WHERE content_type = 'book' AND vote = 1
+        GROUP BY content_id
+    ) r_up ON b.id = r_up.content_id
+    LEFT JOIN (
+        SELECT content_id, COUNT(*) as down_votes
+        FROM ratings
+        WHERE content_type = 'book' AND vote = -1
+        GROUP BY content_id
+    ) r_down ON b.id = r_down.content_id
+    ORDER BY b.title, b.id
+  `;
+
+  try {
+    const rows = await new Promise((resolve, reject) => {
+      db.query(sql, (err, results) => (err ? reject(err) : resolve(results)));
+    });
+    res.json({ books: await withContributors('book', await withLinkHealth(rows, bookLinkUrls)) });
+  } catch (err) {
+    console.error('Error fetching books (admin):', err);
+    res.status(500).json({ error: 'Failed to fetch books' });
+  }
+});
+
+// Create new book (admin only)
+app.post('/api/admin/books', requirePermission('books.write'), checkBookSeries, checkContributors('book'), checkContentAccess, storeInlineBookFile, (req, res) => {
+  const { category_id } = req.body;
+  
+  const invalid = validateNewBook(req.body);
+  if (invalid) {
+    return res.status(invalid.status).json(invalid.body);
+  }
+  
+  // Check if category exists
+  db.query('SELECT id FROM categories WHERE id = ?', [category_id], (err, categoryResults) => {
+    if (err) {
+      console.error('Error checking category:', err);
+      return res.status(500).json({ error: 'Database error' });
+    }
+    
+    if (Array.isArray(categoryResults) && categoryResults.length === 0) {
+      return res.status(400).json({ error: 'Category not found' });
+    }
+    
+    // Insert book
+    db.query(INSERT_BOOK_SQL, insertBookValues(req.body), (err, result) => {
+      if (err) {
+        console.error('Error creating book:', err);
+        return res.status(500).json({ error: 'Failed to create book' });
+      }
+      
+      const primaryFile = req.body.book_type === 'file' || !req.body.book_type
+        ? recordPrimaryBookFile(result.insertId, req.body).catch(fileErr => console.error('Failed to record primary book file:', fileErr))
+        : Promise.resolve();
+      
+      // Fetch the created book with category info
+      const fetchSql = `
+        SELECT 
+          b.*,
+          c.name as category_name
+        FROM books b
+        LEFT JOIN categories c ON b.category_id = c.id
+        WHERE b.id = ?
+      `;
+      
+      db.query(fetchSql, [result.insertId], (fetchErr, fetchResults) => {
+        if (fetchErr) {
+          console.error('Error fetching created book:', fetchErr);
+          return res.status(500).json({ error: 'Book created but failed to fetch details' });
+        }
+        
+        // If a cover image base64 was provided in the request, store it and update the book record
+        try {
+          if (req.body && req.body.cover_image_base64) {
+            const coverBuffer = Buffer.from(req.body.cover_image_base64, 'base64');
+            const ext = req.body.cover_image_type ? req.body.cover_image_type.split('/').pop() : 'png';
+            const coverFilename = `cover_${Date.now()}.${ext}`;
+            const coverFullPath = join(uploadsDir, coverFilename);
+            writeFileSync(coverFullPath, coverBuffer);
+            const coverWebPath = `/uploads/${coverFilename}`;
+            db.query('UPDATE books SET cover_image_path = ? WHERE id = ?', [coverWebPath, result.insertId], (updateErr) => {
+              if (updateErr) console.error('Failed to update cover_image_path for book:', updateErr);
+            });
+            // Also generate a thumbnail from the uploaded cover and store it in DB
+            (async () => {
+              try {
+                const thumbBuf = await sharp(coverBuffer)
+                  .resize(300, 400, { fit: 'inside', withoutEnlargement: true, background: { r: 255, g: 255, b: 255, alpha: 1 } })
+                  .png({ quality: 90 })
+                  .toBuffer();
+                storeBookThumbnail(result.insertId, thumbBuf).catch(tErr => console.error('Failed to store thumbnail for new book:', tErr));
+              } catch (thumbErr) {
+                console.error('Failed to generate/store thumbnail from uploaded cover:', thumbErr);
+              }
+            })();
+          } else {
+            // Legacy behavior removed: PDF thumbnail generation disabled
+          }
+        } catch (coverStoreErr) {
+          console.error('Error storing cover image for book:', coverStoreErr);
+        }
+
+        // Make the file's text searchable in the background
+        if (fetchResults[0].book_type === 'file') {
+          queueBookTextIndex(result.insertId);
+        }
+        // Purchase books start their price history
+        if (fetchResults[0].book_type === 'purchase') {
+          recordBookPrice(result.insertId, req.userId).catch(priceErr => console.error('Failed to record book price:', priceErr));
+        }
+
+        const credits = recordContributors('book', result.insertId, req.body)
+          .catch(creditErr => console.error('Failed to record contributors:', creditErr));
+
+        // The book is saved either way; likely duplicates come back as warnings
+        Promise.all([primaryFile, credits])
+          .then(() => findBookDuplicates(result.insertId))
+          .catch(dupErr => {
+            console.error('Error checking for duplicate books:', dupErr);
+            return [];
+          })
+          .then(duplicates => res.status(201).json({ ...fetchResults[0], duplicates }));
+      });
+    });
+  });
+});
+
+// Utility function to safely convert PDF to image with timeout and error handling
+async function safePdfToImage(pdfPath, options, timeoutMs = 30000) {
+  return new Promise(async (resolve, reject) => {
+    let timeoutId;
+    let conversionProcess;
+    
+    try {
+      // Set up timeout
+      timeoutId = setTimeout(() => {
+        reject(new Error('PDF conversion timeout'));
+      }, timeoutMs);
+      
+      // Start conversion
+      const convert = fromPath(pdfPath, options);
+      conversionProcess = convert(1);
+      
+      const pageData = await conversionProcess;
+      
+      // Clear timeout on success
+      clearTimeout(timeoutId);
+      
+      if (!pageData || !pageData.path) {
+        reject(new Error('Failed to convert PDF page'));
+        return;
+      }
+      
+      resolve(pageData);
+    } catch (error) {
+      clearTimeout(timeoutId);
+      reject(error);
+    }
+  });
+}
+
+// Helper function to generate thumbnail for a book
+async function generateBookThumbnail(bookId) {
+  let tempPdfPath = null;
+  let tempImagePath = null;
+  
+  try {
+    // Get book file information
+    const bookResult = await new Promise((resolve, reject) => {
+      db.query('SELECT file_path, file_content, file_type, title FROM books WHERE id = ?', [bookId], (err, results) => {
+        if (err) reject(err);
+        else resolve(results);
+      });
+    });
+    
+    if (!Array.isArray(bookResult) || bookResult.length === 0) {
+      console.log(`Book ${bookId} not found for thumbnail generation`);
+      return;
+    }
+    
+    const book = bookResult[0];
+    
+    if (!book.file_content || book.file_type !== 'application/pdf') {
+      console.log(`Book ${bookId} is not a PDF, skipping thumbnail generation`);
+      return;
+    }
+    
+    // Check file size to prevent memory issues
+    const pdfBuffer = Buffer.from(book.file_content, 'base64');
+    const fileSizeMB = pdfBuffer.length / (1024 * 1024);
+    
+    if (fileSizeMB > 50) { // Skip very large PDFs (>50MB)
+      console.log(`Book ${bookId} PDF too large (${fileSizeMB.toFixed(2)}MB), skipping thumbnail generation`);
+      return;
+    }
+    
+    // Convert base64 to buffer and save to temporary file
+    tempPdfPath = join(tmpdir(), `book_${bookId}_${Date.now()}.pdf`);
+    
+    try {
+      // Write PDF to temporary file
+      writeFileSync(tempPdfPath, pdfBuffer);
+      
+      // Configure pdf2pic options with better error handling
+      const options = {
+        density: 150,
+        saveFilename: `thumb_${bookId}_${Date.now()}`,
+        savePath: tmpdir(),
+        format: "png",
+        width: 300,
+        height: 400
+      };
+      
+      // Convert PDF to image with timeout and better error handling
+      const pageData = await safePdfToImage(tempPdfPath, options, 30000);
+      
+      if (!pageData || !pageData.path) {
+        console.log(`Failed to convert PDF page for book ${bookId}`);
+        return;
+      }
+      
+      tempImagePath = pageData.path;
+      
+      // Process the image with sharp
+      const thumbnailBuffer = await sharp(tempImagePath)
+        .resize(300, 400, { fit: 'inside', withoutEnlargement: true, background: { r: 255, g: 255, b: 255, alpha: 1 } })
+        .png({ quality: 90 })
+        .toBuffer()
+        .catch(error => {
+          console.error(`Sharp processing error for book ${bookId}:`, error);
+          throw new Error('Failed to process image with Sharp');
+        });
+      
+      // Convert to base64 for storage (optional - you could store this in the database)
+      const thumbnailBase64 = thumbnailBuffer.toString('base64');
+      
+      // Update the book with thumbnail data (you might want to add a thumbnail_content field to your database)
+      // For now, we'll just log success
+      console.log(`Successfully generated thumbnail for book ${bookId}`);
+      
+    } catch (conversionError) {
+      console.error(`PDF conversion error for book ${bookId}:`, conversionError);
+      // Don't re-throw, just log and continue
+    }
+    
+  } catch (error) {
+    console.error(`Error generating thumbnail for book ${bookId}:`, error);
+  } finally {
+    // Clean up temporary files with better error handling
+    try {
+      if (tempPdfPath && require('fs').existsSync(tempPdfPath)) {
+        unlinkSync(tempPdfPath);
+      }
+      if (tempImagePath && require('fs').existsSync(tempImagePath)) {
+        unlinkSync(tempImagePath);
+      }
+      
+      // Clean up any pdf2pic output files that might have been created
+      const pdf2picOutputs = require('fs').readdirSync(tmpdir())
+        .filter(file => file.startsWith('untitled.') || file.startsWith(`thumb_${bookId}_`))
+        .map(file => join(tmpdir(), file));
+      
+      pdf2picOutputs.forEach(file => {
+        try {
+          if (require('fs').existsSync(file)) {
+            unlinkSync(file);
+          }
+        } catch (cleanupError) {
+          console.warn(`Warning: Failed to clean up temporary file ${file}:`, cleanupError);
+        }
+      });
+    } catch (cleanupError) {
+      console.warn('Warning: Failed to clean up temporary files:', cleanupError);
+    }
+  }
+}
+
+// Update book (admin only)
+app.put('/api/admin/books/:id', requirePermission('books.write'), checkBookSeries, checkContributors('book'), checkContentAccess, storeInlineBookFile, (req, res) => {
+  const bookId = req.params.id;
+  const { 
+    title, 
+    author, 
+    description, 
+    book_type,
+    cover_image_path, 
+    file_path, 
+    file_content,
+    file_size,
+    file_type,
+    external_link,
+    purchase_link,
+    price,
+    currency,
+    category_id, 
+    isbn, 
+    published_year, 
+    page_count,
+    series_id,
+    series_position,
+    license,
+    access_level,
+    access_role_id
+  } = req.body;
+  
+  if (!bookId) {
+    return res.status(400).json({ error: 'Book ID is required' });
+  }
+  
+  // Validate file size (100MB limit) if updating file
+  const maxFileSize = 100 * 1024 * 1024; // 100MB in bytes
+  if (file_size && parseInt(file_size) > maxFileSize) {
+    return res.status(413).json({ 
+      error: 'File too large', 
+      message: `File size ${Math.round(file_size / (1024 * 1024))}MB exceeds the maximum allowed size of 100MB. Please compress the file or use a smaller version.`,
+      maxSize: '100MB',
+      currentSize: `${Math.round(file_size / (1024 * 1024))}MB`
+    });
+  }
+
+  // Validate file content length for base64 data if updating file
+  if (file_content && file_content.length > maxFileSize * 1.4) { // Base64 is ~1.4x larger than binary
+    return res.status(413).json({ 
+      error: 'File content too large', 
+      message: 'The uploaded file content exceeds the maximum allowed size. Please compress the file or use a smaller version.',
+      maxSize: '100MB'
+    });
+  }
+  
+  // Check if book exists
+  db.query('SELECT id FROM books WHERE id = ?', [bookId], (err, bookResults) => {
+    if (err) {
+      console.error('Error checking book existence:', err);
+      return res.status(500).json({ error: 'Database error' });
+    }
+    
+    if (Array.isArray(bookResults) && bookResults.length === 0) {
+      return res.status(404).json({ error: 'Book not found' });
+    }
+    
+    // Check if category exists if provided
+    if (category_id) {
+      db.query('SELECT id FROM categories WHERE id = ?', [category_id], (err, categoryResults) => {
+        if (err) {
+          console.error('Error checking category:', err);
+          return res.status(500).json({ error: 'Database error' });
+        }
+        
+        if (Array.isArray(categoryResults) && categoryResults.length === 0) {
+          return res.status(400).json({ error: 'Category not found' });
+        }
+        
+        updateBook();
+      });
+    } else {
+      updateBook();
+    }
+    
+    function updateBook() {
+      const updateFields = [];
+      const updateValues = [];
+      
+      if (title !== undefined) {
+        updateFields.push('title = ?');
+        updateValues.push(title);
+      }
+      if (author !== undefined) {
+        updateFields.push('author = ?');
+        updateValues.push(author);
+      }
+      if (description !== undefined) {
+        updateFields.push('description = ?');
+        updateValues.push(description);
+      }
+      if (book_type !== undefined) {
+        updateFields.push('book_type = ?');
+        updateValues.push(book_type);
+      }
+      if (cover_image_path !== undefined) {
+        updateFields.push('cover_image_path = ?');
+        updateValues.push(cover_image_path);
+      }
+      if (file_path !== undefined) {
+        updateFields.push('file_path = ?');
+        updateValues.push(file_path);
+      }
+      if (file_content !== undefined) {
+        updateFields.push('file_content = ?');
+        updateValues.push(file_content);
+      }
+      if (file_size !== undefined) {
+        updateFields.push('file_size = ?');
+        updateValues.push(file_size ? parseInt(file_size) : null);
+      }
+      if (file_type !== undefined) {
+        updateFields.push('file_type = ?');
+        updateValues.push(file_type);
+      }
+      if (external_link !== undefined) {
+        updateFields.push('external_link = ?');
+        updateValues.push(external_link);
+      }
+      if (purchase_link !== undefined) {
+        updateFields.push('purchase_link = ?');
+        updateValues.push(purchase_link);
+      }
+      if (price !== undefined) {
+        updateFields.push('price = ?');
+        updateValues.push(price ? parseFloat(price) : null);
+      }
+      if (currency !== undefined) {
+        updateFields.push('currency = ?');
+        updateValues.push(currency);
+      }
+      if (category_id !== undefined) {
+        updateFields.push('category_id = ?');
+        updateValues.push(category_id);
+      }
+      if (isbn !== undefined) {
+        updateFields.push('isbn = ?');
+        updateValues.push(isbn);
+      }
+      if (published_year !== undefined) {
+        updateFields.push('published_year = ?');
+        updateValues.push(published_year ? parseInt(published_year) : null);
+      }
+      if (page_count !== undefined) {
+        updateFields.push('page_count = ?');
+        updateValues.push(page_count ? parseInt(page_count) : null);
+      }
+      if (series_id !== undefined) {
+        updateFields.push('series_id = ?');
+        updateValues.push(series_id);
+      }
+      if (series_position !== undefined) {
+        updateFields.push('series_position = ?');
+        updateValues.push(series_position);
+      }
+      if (license !== undefined) {
+        updateFields.push('license = ?');
+        updateValues.push(license);
+      }
+      if (access_level !== undefined) {
+        updateFields.push('access_level = ?');
+        updateValues.push(access_level);
+      }
+      if (access_role_id !== undefined) {
+        updateFields.push('access_role_id = ?');
+        updateValues.push(access_role_id);
+      }
+      
+      if (updateFields.length === 0) {
+        return res.status(400).json({ error: 'No fields to update' });
+      }
+      
+      updateFields.push('updated_at = CURRENT_TIMESTAMP');
+      updateValues.push(bookId);
+      
+      const sql = `UPDATE books SET ${updateFields.join(', ')} WHERE id = ?`;
+      
+      db.query(sql, updateValues, (err) => {
+        if (err) {
+          console.error('Error updating book:', err);
+          return res.status(500).json({ error: 'Failed to update book' });
+        }
+        
+        // Fetch the updated book with category info
+        const fetchSql = `
+          SELECT 
+            b.*,
+            c.name as category_name
+          FROM books b
+          LEFT JOIN categories c ON b.category_id = c.id
+          WHERE b.id = ?
+        `;
+        
+        db.query(fetchSql, [bookId], (fetchErr, fetchResults) => {
+          if (fetchErr) {
+            console.error('Error fetching updated book:', fetchErr);
+            return res.status(500).json({ error: 'Book updated but failed to fetch details' });
+          }
+          
+          // If a cover image base64 was provided in the update request, store it and generate a thumbnail
+          try {
+            if (req.body && req.body.cover_image_base64) {
+              const coverBuffer = Buffer.from(req.body.cover_image_base64, 'base64');
+              const ext = req.body.cover_image_type ? req.body.cover_image_type.split('/').pop() : 'png';
+              const coverFilename = `cover_${Date.now()}.${ext}`;
+              const coverFullPath = join(uploadsDir, coverFilename);
+              writeFileSync(coverFullPath, coverBuffer);
+              const coverWebPath = `/uploads/${coverFilename}`;
+
+              // Update cover_image_path on the record
+              db.query('UPDATE books SET cover_image_path = ? WHERE id = ?', [coverWebPath, bookId], (updateErr) => {
+                if (updateErr) console.error('Failed to update cover_image_path for book (PUT):', updateErr);
+              });
+
+              // Generate and store thumbnail buffer asynchronously
+              (async () => {
+                try {
+                  const thumbBuf = await sharp(coverBuffer)
+                    .resize(300, 400, { fit: 'inside', withoutEnlargement: true, background: { r: 255, g: 255, b: 255, alpha: 1 } })
+                    .png({ quality: 90 })
+                    .toBuffer();
+
+                  storeBookThumbnail(bookId, thumbBuf).catch(tErr => console.error('Failed to store thumbnail for updated book (PUT):', tErr));
+                } catch (thumbErr) {
+                  console.error('Failed to generate/store thumbnail from uploaded cover (PUT):', thumbErr);
+                }
+              })();
+
+              // Reflect the new cover path in the response object
+              fetchResults[0].cover_image_path = coverWebPath;
+            }
+          } catch (coverStoreErr) {
+            console.error('Error storing cover image for book (PUT):', coverStoreErr);
+          }
+
+          // A new file (or a change to a file book) needs its searchable text rebuilt
+          if (file_path !== undefined || file_content !== undefined || book_type !== undefined) {
+            queueBookTextIndex(bookId);
+          }
+          // A fixed link makes a book hidden for a broken one visible again
+          if (external_link !== undefined || purchase_link !== undefined || book_type !== undefined) {
+            applyLinkVisibility().catch(linkErr => console.error('Failed to update link visibility:', linkErr));
+          }
+          // A new price (or a book that just became a purchase book) goes into its price history
+          if (price !== undefined || currency !== undefined || book_type !== undefined) {
+            recordBookPrice(bookId, req.userId).catch(priceErr => console.error('Failed to record book price:', priceErr));
+          }
+          // A replaced file replaces the primary entry of the book's files
+          const primaryFile = file_path !== undefined && fetchResults[0].book_type === 'file'
+            ? recordPrimaryBookFile(bookId, { ...req.body, file_path: fetchResults[0].file_path })
+              .catch(fileErr => console.error('Failed to record primary book file:', fileErr))
+            : Promise.resolve();
+
+          const credits = recordContributors('book', bookId, req.body)
+            .catch(creditErr => console.error('Failed to record contributors:', creditErr));
+
+          Promise.all([primaryFile, credits])
+            .then(() => findBookDuplicates(bookId))
+            .catch(dupErr => {
+              console.error('Error checking for duplicate books:', dupErr);
+              return [];
+            })
+            .then(duplicates => res.json({ ...fetchResults[0], duplicates }));
+        });
+      });
+    }
+  });
+});
+
+// Delete book (admin only)
+app.delete('/api/admin/books/:id', requirePermission('books.write'), (req, res) => {
+  const bookId = req.params.id;
+  
+  if (!bookId) {
+    return res.status(400).json({ error: 'Book ID is required' });
+  }
+  
+  // Check if book exists
+  db.query('SELECT id FROM books WHERE id = ?', [bookId], (err, bookResults) => {
+    if (err) {
+      console.error('Error checking book existence:', err);
+      return res.status(500).json({ error: 'Database error' });
+    }
+    
+    if (Array.isArray(bookResults) && bookResults.length === 0) {
+      return res.status(404).json({ error: 'Book not found' });
+    }
+    
+    // Delete book
+    db.query('DELETE FROM books WHERE id = ?', [bookId], (err) => {
+      if (err) {
+        console.error('Error deleting book:', err);
+        return res.status(500).json({ error: 'Failed to delete book' });
+      }
+      
+      forgetContributors('book', Number(bookId)).catch(creditErr => console.error('Failed to remove contributors:', creditErr));
+      res.json({ message: 'Book deleted successfully' });
+    });
+  });
+});
+
+// =============================================
+// BOOK FILES (formats, editions & languages)
+// =============================================
+
+// A book can offer several files, e.g. the PDF and EPUB of a title or its 2nd and 3rd editions.
+// Files are uploaded with /api/admin/upload-file first and then attached here. The primary file
+// is mirrored into the books row, which the reader, text search and OPDS feeds keep using.
+
+const BOOK_FILE_COLUMNS = 'id, book_id, format, edition, language, file_name, file_type, file_size, is_primary, created_at';
+const BOOK_FILE_LANGUAGE = /^[A-Za-z]{2,3}(-[A-Za-z0-9]{1,8})*$/;
+const MAX_BOOK_FILE_SIZE = 100 * 1024 * 1024; // Same limit as the book form
+
+// Helper to check a path points at stored file bytes (an upload or an S3 object)
+function isStoredBookFile(filePath) {
+  return fileStorage.isLocation(filePath);
+}
+
+// Helper to label a file's format from its extension, falling back to its MIME type
+function bookFileFormat(fileName, fileType) {
+  const extension = extname(String(fileName || '')).slice(1).toLowerCase();
+  if (/^[a-z0-9]{1,10}$/.test(extension)) return extension;
+  const known = Object.entries(READER_CONTENT_TYPES).find(([, type]) => type === fileType);
+  return known ? known[0].slice(1) : 'file';
+}
+
+function formatBookFile(row) {
+  return { ...row, is_primary: Boolean(row.is_primary) };
+}
+
+// Validate the edition/language labels of a new or edited file; returns an error message or null
+function validateBookFileLabels({ edition, language }) {
+  if (edition !== undefined && edition !== null && (typeof edition !== 'string' || edition.trim().length > 100)) {
+    return 'edition must be text of at most 100 characters';
+  }
+  if (language !== undefined && language !== null && language !== '' &&
+      (typeof language !== 'string' || language.length > 35 || !BOOK_FILE_LANGUAGE.test(language.trim()))) {
+    return 'language must be a language tag such as en or pt-BR';
+  }
+  return null;
+}
+
+// Keep the primary file row in step with the file saved on the books row (new books, edits, imports).
+// Callers that still hold the bytes pass file_hash; otherwise the stored file is read back to hash it.
+async function recordPrimaryBookFile(bookId, { file_path, file_name, file_type, file_size, file_hash }) {
+  if (!isStoredBookFile(file_path)) return;
+  const name = file_name || String(file_path).split('/').pop();
+  const fileHash = file_hash || await storedFileHash(file_path);
+  const values = [bookFileFormat(name, file_type), file_path, name, file_type || null, file_size ? parseInt(file_size) : null, fileHash];
+
+  const updated = await dbQuery(
+    'UPDATE book_files SET format = ?, file_path = ?, file_name = ?, file_type = ?, file_size = ?, file_hash = ? WHERE book_id = ? AND is_primary = TRUE',
+    [...values, bookId]
+  );
+  if (updated.affectedRows === 0) {
+    await dbQuery(
+      'INSERT INTO book_files (format, file_path, file_name, file_type, file_size, file_hash, book_id, is_primary) VALUES (?, ?, ?, ?, ?, ?, ?, TRUE)',
+      [...values, bookId]
+    );
+  }
+}
+
+// Make one file the book's primary file and copy it onto the books row
+async function setPrimaryBookFile(bookId, fileId) {
+  await dbQuery('UPDATE book_files SET is_primary = (id = ?) WHERE book_id = ?', [fileId, bookId]);
+  await dbQuery(
+    `UPDATE books b JOIN book_files f ON f.book_id = b.id AND f.id = ?
+     SET b.file_path = f.file_path, b.file_type = f.file_type, b.file_size = f.file_size
+     WHERE b.id = ?`,
+    [fileId, bookId]
+  );
+  // The reader and text search follow the primary file
+  queueBookTextIndex(bookId);
+}
+
+// Remove a file's bytes from S3 or the uploads folder once nothing refers to it
+async function removeStoredBookFile(filePath) {
+  const [{ references }] = await dbQuery(
+    'SELECT (SELECT COUNT(*) FROM book_files WHERE file_path = ?) + (SELECT COUNT(*) FROM books WHERE file_path = ?) AS `references`',
+    [filePath, filePath]
+  );
+  if (references > 0) return;
+  await fileStorage.remove(filePath);
+}
+
+// List a book's files for the format picker, primary file first
+app.get('/api/books/:id/files', requireContentAccess('book'), async (req, res) => {
+  try {
+    const rows = await dbQuery(
+      `SELECT ${BOOK_FILE_COLUMNS} FROM book_files WHERE book_id = ? ORDER BY is_primary DESC, format, edition, id`,
+      [req.params.id]
+    );
+    res.json({ files: rows.map(formatBookFile) });
+  } catch (err) {
+    console.error('Error fetching book files:', err);
+    res.status(500).json({ error: 'Failed to fetch book files' });
+  }
+});
+
+// Attach an uploaded file to a book (admin only)
+app.post('/api/admin/books/:id/files', requirePermission('books.write'), async (req, res) => {
+  const bookId = req.params.id;
+  const { file_path, file_name, file_type, file_size, edition, language, is_primary } = req.body || {};
+
+  if (!isStoredBookFile(file_path)) {
+    return res.status(400).json({ error: 'file_path must be a path returned by /api/admin/upload-file' });
+  }
+  if (file_size && parseInt(file_size) > MAX_BOOK_FILE_SIZE) {
+    return res.status(413).json({ error: 'File too large', maxSize: '100MB' });
+  }
+  const invalidLabel = validateBookFileLabels({ edition, language });
+  if (invalidLabel) {
+    return res.status(400).json({ error: invalidLabel });
+  }
+
+  try {
+    const books = await dbQuery(
+      `SELECT b.id, b.book_type, b.file_content IS NOT NULL AS has_content,
+        (SELECT COUNT(*) FROM book_files WHERE book_id = b.id AND is_primary = TRUE) AS primary_files
+       FROM books b WHERE b.id = ?`,
+      [bookId]
+    );
+    if (books.length === 0) {
+      return res.status(404).json({ error: 'Book not found' });
+    }
+    if (books[0].book_type !== 'file') {
+      return res.status(400).json({ error: 'Only file books can have files' });
+    }
+
+    const name = file_name || String(file_path).split('/').pop();
+    const result = await dbQuery(
+      'INSERT INTO book_files (book_id, format, edition, language, file_path, file_name, file_type, file_size, file_hash) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+      [
+        bookId,
+        bookFileFormat(name, file_type),
+        edition ? edition.trim() : null,
+        language ? language.trim() : null,
+        file_path,
+        name,
+        file_type || null,
+        file_size ? parseInt(file_size) : null,
+        await storedFileHash(file_path)
+      ]
+    );
+
+    // The first file of a book without one becomes its primary file
+    const { has_content: hasContent, primary_files: primaryFiles } = books[0];
+    if (is_primary === true || (primaryFiles === 0 && !hasContent)) {
+      await setPrimaryBookFile(bookId, result.insertId);
+    }
+
+    const [file] = await dbQuery(`SELECT ${BOOK_FILE_COLUMNS} FROM book_files WHERE id = ?`, [result.insertId]);
+    logUserActivity(req.userId, 'BOOK_FILE_ADDED', { book_id: Number(bookId), file_id: result.insertId, format: file.format });
+    res.status(201).json(formatBookFile(file));
+  } catch (err) {
+    console.error('Error adding book file:', err);
+    res.status(500).json({ error: 'Failed to add book file' });
+  }
+});
+
+// Change a file's edition or language, or make it the primary file (admin only)
+app.put('/api/admin/books/:id/files/:fileId', requirePermission('books.write'), async (req, res) => {
+  const { id: bookId, fileId } = req.params;
+  const { edition, language, is_primary } = req.body || {};
+
+  const invalidLabel = validateBookFileLabels({ edition, language });
+  if (invalidLabel) {
+    return res.status(400).json({ error: invalidLabel });
+  }
+  if (is_primary !== undefined && is_primary !== true) {
+    return res.status(400).json({ error: 'is_primary can only be set to true; make another file primary instead' });
+  }
+
+  try {
+    const files = await dbQuery('SELECT id FROM book_files WHERE id = ? AND book_id = ?', [fileId, bookId]);
+    if (files.length === 0) {
+      return res.status(404).json({ error: 'Book file not found' });
+    }
+
+    const updateFields = [];
+    const updateValues = [];
+    if (edition !== undefined) {
+      updateFields.push('edition = ?');
+      updateValues.push(edition ? edition.trim() : null);
+    }
+    if (language !== undefined) {
+      updateFields.push('language = ?');
+      updateValues.push(language ? language.trim() : null);
+    }
+    if (updateFields.length === 0 && !is_primary) {
+      return res.status(400).json({ error: 'No fields to update' });
+    }
+
+    if (updateFields.length > 0) {
+      await dbQuery(`UPDATE book_files SET ${updateFields.join(', ')} WHERE id = ?`, [...updateValues, fileId]);
+    }
+    if (is_primary) {
+      await setPrimaryBookFile(bookId, fileId);
+    }
+
+    const [file] = await dbQuery(`SELECT ${BOOK_FILE_COLUMNS} FROM book_files WHERE id = ?`, [fileId]);
+    res.json(formatBookFile(file));
+  } catch (err) {
+    console.error('Error updating book file:', err);
+    res.status(500).json({ error: 'Failed to update book file' });
+  }
+});
+
+// Remove a file from a book (admin only). The primary file stays until another one replaces it.
+app.delete('/api/admin/books/:id/files/:fileId', requirePermission('books.write'), async (req, res) => {
+  const { id: bookId, fileId } = req.params;
+
+  try {
+    const files = await dbQuery('SELECT id, file_path, format, is_primary FROM book_files WHERE id = ? AND book_id = ?', [fileId, bookId]);
+    if (files.length === 0) {
+      return res.status(404).json({ error: 'Book file not found' });
+    }
+    if (files[0].is_primary) {
+      return res.status(409).json({ error: 'Make another file primary before removing this one' });
+    }
+
+    await dbQuery('DELETE FROM book_files WHERE id = ?', [fileId]);
+    try {
+      await removeStoredBookFile(files[0].file_path);
+    } catch (removeErr) {
+      console.error('Failed to remove stored book file:', removeErr);
+    }
+
+    logUserActivity(req.userId, 'BOOK_FILE_REMOVED', { book_id: Number(bookId), file_id: Number(fileId), format: files[0].format });
+    res.json({ message: 'Book file removed' });
+  } catch (err) {
+    console.error('Error removing book file:', err);
+    res.status(500).json({ error: 'Failed to remove book file' });
+  }
+});
+
+// =============================================
+// DUPLICATE BOOKS (detection & merge)
+// =============================================
+
+// Books are checked for likely duplicates when they are created, edited or imported: the same
+// ISBN, a close title by the same author (see server/book-duplicates.js) or a file with the same
+// bytes (book_files.file_hash). Matches are only warnings; the admin Duplicates view lists them
+// across the catalog and merges a duplicate into the book that should be kept.
+
+const DUPLICATE_BOOK_COLUMNS = 'b.id, b.title, b.author, b.isbn, b.book_type, b.category_id, c.name AS category_name, b.cover_image_path, b.created_at';
+const DUPLICATE_REASON_LABELS = { isbn: 'same ISBN', title_author: 'same title and author', file: 'same file' };
+
+// Tables whose rows belong to a user and a book; on a merge the user's row on the kept book wins
+const MERGE_PER_USER_TABLES = ['ratings', 'bookmarks', 'reading_history'];
+// Tables whose rows simply follow the book
+const MERGE_CONTENT_TABLES = ['download_logs', 'view_logs', 'comments'];
+
+// SHA-256 of a stored book file, or null when it cannot be read (duplicate checks are best effort)
+async function storedFileHash(filePath) {
+  if (!isStoredBookFile(filePath)) return null;
+  try {
+    return await fileStorage.checksum(filePath);
+  } catch (err) {
+    console.error(`Failed to hash book file ${filePath}:`, err);
+    return null;
+  }
+}
+
+function describeDuplicateReasons(reasons) {
+  return reasons.map(reason => DUPLICATE_REASON_LABELS[reason]).join(', ');
+}
+
+// Likely duplicates of a saved book, leaving out pairs an admin dismissed: [{ ...book, reasons }]
+async function findBookDuplicates(bookId) {
+  const [book] = await dbQuery('SELECT id, title, author, isbn FROM books WHERE id = ?', [bookId]);
+  if (!book) return [];
+
+  const others = await dbQuery(
+    `SELECT ${DUPLICATE_BOOK_COLUMNS}
+     FROM books b LEFT JOIN categories c ON c.id = b.category_id
+     WHERE b.id <> ?
+       AND NOT EXISTS (
+         SELECT 1 FROM book_duplicate_dismissals d
+         WHERE d.book_id = LEAST(b.id, ?) AND d.other_book_id = GREATEST(b.id, ?)
+       )`,
+    [book.id, book.id, book.id]
+  );
+  const matches = new Map(findLikelyDuplicates(book, others).map(({ book: other, reasons }) => [other.id, { ...other, reasons }]));
+
+  const sameFiles = await dbQuery(
+    `SELECT DISTINCT other.book_id
+     FROM book_files mine JOIN book_files other ON other.file_hash = mine.file_hash AND other.book_id <> mine.book_id
+     WHERE mine.book_id = ? AND mine.file_hash IS NOT NULL`,
+    [book.id]
+  );
+  for (const { book_id: otherId } of sameFiles) {
+    if (matches.has(otherId)) {
+      matches.get(otherId).reasons.push('file');
+    } else {
+      const other = others.find(candidate => candidate.id === otherId);
+      if (other) matches.set(otherId, { ...other, reasons: ['file'] });
+    }
+  }
+  return [...matches.values()];
+}
+
+// Files added before duplicate detection have no hash yet. Hash them one at a time in the
+// background; files that cannot be read are tried again the next time.
+let bookFileHashing = null;
+function queueBookFileHashes() {
+  if (bookFileHashing) return bookFileHashing;
+  bookFileHashing = (async () => {
+    let lastId = 0;
+    for (;;) {
+      const rows = await dbQuery('SELECT id, file_path FROM book_files WHERE file_hash IS NULL AND id > ? ORDER BY id LIMIT 1', [lastId]);
+      if (rows.length === 0) break;
+      lastId = rows[0].id;
+      const fileHash = await storedFileHash(rows[0].file_path);
+      if (fileHash) await dbQuery('UPDATE book_files SET file_hash = ? WHERE id = ?', [fileHash, lastId]);
+    }
+  })()
+    .catch(err => console.error('Failed to hash book files:', err))
+    .finally(() => { bookFileHashing = null; });
+  return bookFileHashing;
+}
+
+// How many ratings, bookmarks and downloads each book has, to help pick the one to keep
+async function duplicateEngagementCounts(bookIds) {
+  const counts = new Map(bookIds.map(id => [id, { ratings: 0, bookmarks: 0, downloads: 0, files: 0 }]));
+  if (bookIds.length === 0) return counts;
+  const tallies = [
+    ['ratings', "SELECT content_id AS id, COUNT(*) AS total FROM ratings WHERE content_type = 'book' AND content_id IN (?) GROUP BY content_id"],
+    ['bookmarks', "SELECT content_id AS id, COUNT(*) AS total FROM bookmarks WHERE content_type = 'book' AND content_id IN (?) GROUP BY content_id"],
+    ['downloads', "SELECT content_id AS id, COUNT(*) AS total FROM download_logs WHERE content_type = 'book' AND content_id IN (?) GROUP BY content_id"],
+    ['files', 'SELECT book_id AS id, COUNT(*) AS total FROM book_files WHERE book_id IN (?) GROUP BY book_id']
+  ];
+  for (const [field, sql] of tallies) {
+    for (const row of await dbQuery(sql, [bookIds])) {
+      counts.get(row.id)[field] = Number(row.total);
+    }
+  }
+  return counts;
+}
+
+// Every group of likely duplicates in the catalog (admin only). Books linked by any matching
+// pair form one group; `pairs` says why each two look alike. unhashed_files counts files whose
+// contents have not been compared yet (they are being hashed in the background).
+app.get('/api/admin/books/duplicates', requirePermission('books.write'), async (req, res) => {
+  try {
+    const books = await dbQuery(`SELECT ${DUPLICATE_BOOK_COLUMNS} FROM books b LEFT JOIN categories c ON c.id = b.category_id ORDER BY b.id`);
+    const byId = new Map(books.map(book => [book.id, book]));
+    const dismissed = new Set(
+      (await dbQuery('SELECT book_id, other_book_id FROM book_duplicate_dismissals'))
+        .map(pair => `${pair.book_id}-${pair.other_book_id}`)
+    );
+
+    // Collect pairs keyed by "lowId-highId" so a pair found several ways lists every reason
+    const pairs = new Map();
+    const addPair = (a, b, reasons) => {
+      const [low, high] = a < b ? [a, b] : [b, a];
+      const key = `${low}-${high}`;
+      if (dismissed.has(key)) return;
+      const pair = pairs.get(key) || { book_id: low, other_book_id: high, reasons: [] };
+      pair.reasons = [...new Set([...pair.reasons, ...reasons])];
+      pairs.set(key, pair);
+    };
+    findDuplicatePairs(books).forEach(({ a, b, reasons }) => addPair(a.id, b.id, reasons));
+    const sameFiles = await dbQuery(
+      `SELECT DISTINCT a.book_id AS book_id, b.book_id AS other_book_id
+       FROM book_files a JOIN book_files b ON b.file_hash = a.file_hash AND b.book_id > a.book_id
+       WHERE a.file_hash IS NOT NULL`
+    );
+    sameFiles.forEach(pair => addPair(pair.book_id, pair.other_book_id, ['file']));
+
+    // Group connected books (union-find over the pairs)
+    const parent = new Map();
+    const root = (id) => {
+      while (parent.has(id) && parent.get(id) !== id) id = parent.get(id);
+      return id;
+    };
+    for (const pair of pairs.values()) {
+      const [a, b] = [root(pair.book_id), root(pair.other_book_id)];
+      if (a !== b) parent.set(Math.max(a, b), Math.min(a, b));
+    }
+    const groups = new Map();
+    for (const pair of pairs.values()) {
+      const key = root(pair.book_id);
+      const group = groups.get(key) || { bookIds: new Set(), pairs: [] };
+      group.bookIds.add(pair.book_id);
+      group.bookIds.add(pair.other_book_id);
+      group.pairs.push(pair);
+      groups.set(key, group);
+    }
+
+    const groupedIds = [...groups.values()].flatMap(group => [...group.bookIds]);
+    const counts = await duplicateEngagementCounts(groupedIds);
+    const [{ unhashed }] = await dbQuery('SELECT COUNT(*) AS unhashed FROM book_files WHERE file_hash IS NULL');
+    if (unhashed > 0) queueBookFileHashes();
+
+    res.json({
+      groups: [...groups.values()].map(group => ({
+        books: [...group.bookIds].sort((a, b) => a - b).map(id => ({ ...byId.get(id), ...counts.get(id) })),
+        pairs: group.pairs
+      })),
+      unhashed_files: Number(unhashed)
+    });
+  } catch (err) {
+    console.error('Error finding duplicate books:', err);
+    res.status(500).json({ error: 'Failed to find duplicate books' });
+  }
+});
+
+// Mark two books as not duplicates so they stop being suggested (admin only). Body { book_id, other_book_id }.
+app.post('/api/admin/books/duplicates/dismiss', requirePermission('books.write'), async (req, res) => {
+  const ids = [req.body && req.body.book_id, req.body && req.body.other_book_id].map(Number);
+  if (!ids.every(id => Number.isInteger(id) && id > 0) || ids[0] === ids[1]) {
+    return res.status(400).json({ error: 'book_id and other_book_id must be two different book ids' });
+  }
+  const [low, high] = ids.sort((a, b) => a - b);
+
+  try {
+    const books = await dbQuery('SELECT id FROM books WHERE id IN (?, ?)', [low, high]);
+    if (books.length !== 2) {
+      return res.status(404).json({ error: 'Book not found' });
+    }
+    await dbQuery(
+      'INSERT IGNORE INTO book_duplicate_dismissals (book_id, other_book_id, dismissed_by) VALUES (?, ?, ?)',
+      [low, high, req.userId]
+    );
+    logUserActivity(req.userId, 'BOOK_DUPLICATE_DISMISSED', { book_id: low, other_book_id: high });
+    res.json({ message: 'Books marked as not duplicates' });
+  } catch (err) {
+    console.error('Error dismissing duplicate books:', err);
+    res.status(500).json({ error: 'Failed to dismiss duplicate' });
+  }
+});
+
+// Merge one book into another inside a transaction: everything that points at the duplicate
+// (ratings, bookmarks, reading history, comments, download and view logs, tags, recommendations,
+// courses, import rows) moves to the kept book, its files become extra files of the kept book
+// unless the kept book already has the same bytes, fields the kept book lacks are filled in, and
+// the duplicate is deleted. Returns { files, thumbnails } left without a book, to remove after the commit.
+async function mergeDuplicateBook(query, survivorId, duplicateId) {
+  for (const table of MERGE_PER_USER_TABLES) {
+    await query(`UPDATE IGNORE ${table} SET content_id = ? WHERE content_type = 'book' AND content_id = ?`, [survivorId, duplicateId]);
+    await query(`DELETE FROM ${table} WHERE content_type = 'book' AND content_id = ?`, [duplicateId]);
+  }
+  for (const table of MERGE_CONTENT_TABLES) {
+    await query(`UPDATE ${table} SET content_id = ? WHERE content_type = 'book' AND content_id = ?`, [survivorId, duplicateId]);
+  }
+  await query("UPDATE IGNORE content_tags SET content_id = ? WHERE content_type = 'book' AND content_id = ?", [survivorId, duplicateId]);
+  await query("DELETE FROM content_tags WHERE content_type = 'book' AND content_id = ?", [duplicateId]);
+  await query("UPDATE IGNORE content_contributors SET content_id = ? WHERE content_type = 'book' AND content_id = ?", [survivorId, duplicateId]);
+  await query("DELETE FROM content_contributors WHERE content_type = 'book' AND content_id = ?", [duplicateId]);
+  await query('UPDATE IGNORE book_tutorial_recommendations SET book_id = ? WHERE book_id = ?', [survivorId, duplicateId]);
+  await query('UPDATE purchase_clicks SET book_id = ? WHERE book_id = ?', [survivorId, duplicateId]);
+  await query('DELETE FROM book_tutorial_recommendations WHERE book_id = ?', [duplicateId]);
+  await query('UPDATE courses SET associated_book_id = ? WHERE associated_book_id = ?', [survivorId, duplicateId]);
+  await query('UPDATE book_import_rows SET book_id = ? WHERE book_id = ?', [survivorId, duplicateId]);
+
+  const orphaned = { files: [], thumbnails: [] };
+  const survivorFiles = await query('SELECT id, file_hash FROM book_files WHERE book_id = ? AND file_hash IS NOT NULL', [survivorId]);
+  const survivorFileByHash = new Map(survivorFiles.map(file => [file.file_hash, file.id]));
+  for (const file of await query('SELECT id, file_path, file_hash FROM book_files WHERE book_id = ?', [duplicateId])) {
+    const sameFileId = file.file_hash ? survivorFileByHash.get(file.file_hash) : null;
+    if (sameFileId) {
+      await query('UPDATE download_logs SET book_file_id = ? WHERE book_file_id = ?', [sameFileId, file.id]);
+      await query('DELETE FROM book_files WHERE id = ?', [file.id]);
+      orphaned.files.push(file.file_path);
+    } else {
+      await query('UPDATE book_files SET book_id = ?, is_primary = FALSE WHERE id = ?', [survivorId, file.id]);
+    }
+  }
+
+  await query(
+    `UPDATE books s JOIN books d ON d.id = ?
+     SET s.description = COALESCE(NULLIF(s.description, ''), d.description),
+         s.isbn = COALESCE(NULLIF(s.isbn, ''), d.isbn),
+         s.published_year = COALESCE(s.published_year, d.published_year),
+         s.page_count = COALESCE(s.page_count, d.page_count),
+         s.cover_image_path = COALESCE(NULLIF(s.cover_image_path, ''), d.cover_image_path),
+         s.thumbnail_path = COALESCE(s.thumbnail_path, d.thumbnail_path)
+     WHERE s.id = ?`,
+    [duplicateId, survivorId]
+  );
+  // Series and volume number travel together
+  await query(
+    `UPDATE books s JOIN books d ON d.id = ?
+     SET s.series_id = d.series_id, s.series_position = d.series_position
+     WHERE s.id = ? AND s.series_id IS NULL`,
+    [duplicateId, survivorId]
+  );
+  const thumbnails = await query('SELECT id, thumbnail_path FROM books WHERE id IN (?, ?)', [survivorId, duplicateId]);
+  const thumbnailOf = (id) => (thumbnails.find(row => row.id === id) || {}).thumbnail_path;
+  if (thumbnailOf(duplicateId) && thumbnailOf(duplicateId) !== thumbnailOf(survivorId)) {
+    orphaned.thumbnails.push(thumbnailOf(duplicateId));
+  }
+
+  await query('DELETE FROM books WHERE id = ?', [duplicateId]);
+  return orphaned;
+}
+
+// Merge duplicates into the book to keep (admin only). Body { duplicate_ids: [id, ...] }.
+app.post('/api/admin/books/:id/merge', requirePermission('books.write'), async (req, res) => {
+  const survivorId = Number(req.params.id);
+  const duplicateIds = [...new Set((req.body && Array.isArray(req.body.duplicate_ids) ? req.body.duplicate_ids : []).map(Number))];
+  if (!Number.isInteger(survivorId) || duplicateIds.length === 0 || !duplicateIds.every(id => Number.isInteger(id) && id > 0)) {
+    return res.status(400).json({ error: 'duplicate_ids must list the ids of the books to merge' });
+  }
+  if (duplicateIds.includes(survivorId)) {
+    return res.status(400).json({ error: 'A book cannot be merged into itself' });
+  }
+
+  try {
+    const books = await dbQuery(
+      `SELECT b.id, b.title, b.book_type, b.file_content IS NOT NULL AS has_content,
+        (SELECT COUNT(*) FROM book_files f WHERE f.book_id = b.id) AS files
+       FROM books b WHERE b.id IN (?)`,
+      [[survivorId, ...duplicateIds]]
+    );
+    const survivor = books.find(book => book.id === survivorId);
+    if (!survivor || books.length !== duplicateIds.length + 1) {
+      return res.status(404).json({ error: 'Book not found' });
+    }
+    const duplicates = books.filter(book => book.id !== survivorId);
+    const withBlob = duplicates.find(book => book.has_content);
+    if (withBlob) {
+      return res.status(409).json({ error: `"${withBlob.title}" still keeps its file in the database. Move files out of the database (Settings > File Storage) before merging.` });
+    }
+    if (survivor.book_type !== 'file' && duplicates.some(book => book.files > 0)) {
+      return res.status(400).json({ error: 'Keep the book that has the files: only file books can hold files' });
+    }
+  } catch (err) {
+    console.error('Error checking books to merge:', err);
+    return res.status(500).json({ error: 'Database error' });
+  }
+
+  // A connection of its own, so the transaction never takes in queries from other requests
+  const connection = mysql.createConnection(dbConfig);
+  const query = (sql, params = []) => new Promise((resolve, reject) => {
+    connection.query(sql, params, (err, results) => (err ? reject(err) : resolve(results)));
+  });
+  const orphaned = { files: [], thumbnails: [] };
+  try {
+    await query('START TRANSACTION');
+    for (const duplicateId of duplicateIds) {
+      const { files, thumbnails } = await mergeDuplicateBook(query, survivorId, duplicateId);
+      orphaned.files.push(...files);
+      orphaned.thumbnails.push(...thumbnails);
+    }
+    await query('COMMIT');
+  } catch (err) {
+    console.error('Error merging books:', err);
+    await query('ROLLBACK').catch(() => {});
+    connection.destroy();
+    return res.status(500).json({ error: 'Failed to merge books' });
+  }
+  connection.end();
+
+  orphaned.files.forEach(filePath => {
+    removeStoredBookFile(filePath).catch(removeErr => console.error('Failed to remove merged book file:', removeErr));
+  });
+  orphaned.thumbnails.forEach(location => {
+    fileStorage.remove(location).catch(removeErr => console.error('Failed to remove merged thumbnail:', removeErr));
+  });
+  logUserActivity(req.userId, 'BOOKS_MERGED', { book_id: survivorId, merged_ids: duplicateIds });
+
+  try {
+    const [book] = await dbQuery(
+      'SELECT b.*, c.name AS category_name FROM books b LEFT JOIN categories c ON b.category_id = c.id WHERE b.id = ?',
+      [survivorId]
+    );
+    res.json({ message: 'Books merged', book, merged_ids: duplicateIds });
+  } catch (err) {
+    console.error('Error fetching merged book:', err);
+    res.json({ message: 'Books merged', merged_ids: duplicateIds });
+  }
+});
+
+// =============================================
+// PURCHASE LINKS (prices, exchange rates & click tracking)
+// =============================================
+// Purchase books keep a price history (book_price_history), visitors can see prices converted with
+// the exchange rates admins maintain (exchange_rates, in units per 1 USD; USD itself has no row),
+// and purchase links are followed through /api/books/:id/purchase so clicks can be counted.
+
+const BASE_CURRENCY = 'USD';
+const CURRENCY_CODE = /^[A-Z]{3}$/;
+const MAX_EXCHANGE_RATE = 1e10; // DECIMAL(18,8)
+const PURCHASE_CLICK_REPORT_MAX_DAYS = 3650;
+
+function isHttpUrl(value) {
+  return /^https?:\/\//i.test(String(value || ''));
+}
+
+// Add a purchase book's current price to its history unless it is already the latest entry
+async function recordBookPrice(bookId, userId = null) {
+  const [book] = await dbQuery('SELECT book_type, price, currency FROM books WHERE id = ?', [bookId]);
+  if (!book || book.book_type !== 'purchase' || book.price === null) return;
+
+  const currency = book.currency || BASE_CURRENCY;
+  const [latest] = await dbQuery(
+    'SELECT price, currency FROM book_price_history WHERE book_id = ? ORDER BY recorded_at DESC, id DESC LIMIT 1',
+    [bookId]
+  );
+  if (latest && Number(latest.price) === Number(book.price) && latest.currency === currency) return;
+
+  await dbQuery(
+    'INSERT INTO book_price_history (book_id, price, currency, changed_by) VALUES (?, ?, ?, ?)',
+    [bookId, book.price, currency, userId]
+  );
+}
+
+// Exchange rates for showing prices in a visitor's currency (public)
+app.get('/api/exchange-rates', async (req, res) => {
+  try {
+    const rows = await dbQuery('SELECT currency, rate, updated_at FROM exchange_rates ORDER BY currency');
+    res.json({
+      base: BASE_CURRENCY,
+      rates: rows.map(row => ({ currency: row.currency, rate: Number(row.rate), updated_at: row.updated_at }))
+    });
+  } catch (err) {
+    console.error('Error fetching exchange rates:', err);
+    res.status(500).json({ error: 'Failed to fetch exchange rates' });
+  }
+});
+
+// Add or change a currency's rate against USD
+app.put('/api/admin/exchange-rates/:currency', requirePermission('settings.manage'), async (req, res) => {
+  const currency = String(req.params.currency).toUpperCase();
+  const rate = Number(req.body && req.body.rate);
+
+  if (!CURRENCY_CODE.test(currency) || currency === BASE_CURRENCY) {
+    return res.status(400).json({ error: `Currency must be a three-letter code other than ${BASE_CURRENCY}` });
+  }
+  if (!Number.isFinite(rate) || rate <= 0 || rate >= MAX_EXCHANGE_RATE) {
+    return res.status(400).json({ error: `Rate must be a positive number of ${currency} per 1 ${BASE_CURRENCY}` });
+  }
+
+  try {
+    await dbQuery(
+      'INSERT INTO exchange_rates (currency, rate, updated_by) VALUES (?, ?, ?) ON DUPLICATE KEY UPDATE rate = VALUES(rate), updated_by = VALUES(updated_by)',
+      [currency, rate, req.userId]
+    );
+    const [row] = await dbQuery('SELECT currency, rate, updated_at FROM exchange_rates WHERE currency = ?', [currency]);
+    logUserActivity(req.userId, 'EXCHANGE_RATE_UPDATED', { currency, rate });
+    res.json({ currency: row.currency, rate: Number(row.rate), updated_at: row.updated_at });
+  } catch (err) {
+    console.error('Error saving exchange rate:', err);
+    res.status(500).json({ error: 'Failed to save exchange rate' });
+  }
+});
+
+app.delete('/api/admin/exchange-rates/:currency', requirePermission('settings.manage'), async (req, res) => {
+  const currency = String(req.params.currency).toUpperCase();
+  try {
+    const result = await dbQuery('DELETE FROM exchange_rates WHERE currency = ?', [currency]);
+    if (result.affectedRows === 0) {
+      return res.status(404).json({ error: 'Exchange rate not found' });
+    }
+    logUserActivity(req.userId, 'EXCHANGE_RATE_REMOVED', { currency });
+    res.json({ message: 'Exchange rate removed' });
+  } catch (err) {
+    console.error('Error removing exchange rate:', err);
+    res.status(500).json({ error: 'Failed to remove exchange rate' });
+  }
+});
+
+// Every recorded price of a book, oldest first
+app.get('/api/books/:id/price-history', requireContentAccess('book'), async (req, res) => {
+  try {
+    const rows = await dbQuery(
+      'SELECT price, currency, recorded_at FROM book_price_history WHERE book_id = ? ORDER BY recorded_at, id',
+      [req.params.id]
+    );
+    res.json({ history: rows.map(row => ({ price: Number(row.price), currency: row.currency, recorded_at: row.recorded_at })) });
+  } catch (err) {
+    console.error('Error fetching price history:', err);
+    res.status(500).json({ error: 'Failed to fetch price history' });
+  }
+});
+
+// Follow a purchase link, counting the click. Plain links (e-reader apps, shared URLs) get a redirect;
+// the web app asks for ?format=json so its signed-in user is known, then opens { url } itself.
+app.get('/api/books/:id/purchase', requireContentAccess('book'), async (req, res) => {
+  try {
+    const [book] = await dbQuery("SELECT id, purchase_link FROM books WHERE id = ? AND book_type = 'purchase'", [req.params.id]);
+    if (!book || !isHttpUrl(book.purchase_link)) {
+      return res.status(404).json({ error: 'Purchase link not found' });
+    }
+
+    let userId = null;
+    try {
+      const sessionUser = (await getSessionUser(req)) || (await getAppTokenUser(req));
+      userId = sessionUser ? sessionUser.id : null;
+    } catch (authErr) {
+      console.error('Error identifying purchase click user:', authErr);
+    }
+    dbQuery(
+      'INSERT INTO purchase_clicks (user_id, book_id, purchase_link, ip_address) VALUES (?, ?, ?, ?)',
+      [userId, book.id, book.purchase_link, req.ip]
+    ).catch(logErr => console.error('Failed to log purchase click:', logErr));
+
+    if (req.query.format === 'json') {
+      return res.json({ url: book.purchase_link });
+    }
+    res.redirect(302, book.purchase_link);
+  } catch (err) {
+    console.error('Error following purchase link:', err);
+    res.status(500).json({ error: 'Failed to follow purchase link' });
+  }
+});
+
+// Clicks per purchase link over the last `days` days, busiest first. A book's old links stay listed
+// with is_current = false after the link changes.
+app.get('/api/admin/analytics/purchase-clicks', requirePermission('analytics.read'), async (req, res) => {
+  const days = req.query.days === undefined ? 30 : Number(req.query.days);
+  if (!Number.isInteger(days) || days < 1 || days > PURCHASE_CLICK_REPORT_MAX_DAYS) {
+    return res.status(400).json({ error: `days must be a whole number from 1 to ${PURCHASE_CLICK_REPORT_MAX_DAYS}` });
+  }
+
+  try {
+    const rows = await dbQuery(`
+      SELECT
+        b.id AS book_id,
+        b.title,
+        b.author,
+        pc.purchase_link,
+        pc.purchase_link = b.purchase_link AS is_current,
+        COUNT(*) AS clicks,
+        COUNT(DISTINCT pc.user_id) AS users,
+        COUNT(DISTINCT pc.ip_address) AS visitors,
+        MAX(pc.clicked_at) AS last_clicked_at
+      FROM purchase_clicks pc
+      JOIN books b ON b.id = pc.book_id
+      WHERE pc.clicked_at >= DATE_SUB(NOW(), INTERVAL ? DAY)
+      GROUP BY b.id, pc.purchase_link
+      ORDER BY clicks DESC, last_clicked_at DESC
+    `, [days]);
+
+    const links = rows.map(row => ({
+      ...row,
+      is_current: Boolean(row.is_current),
+      clicks: Number(row.clicks),
+      users: Number(row.users),
+      visitors: Number(row.visitors)
+    }));
+    res.json({ days, total_clicks: links.reduce((sum, link) => sum + link.clicks, 0), links });
+  } catch (err) {
+    console.error('Error fetching purchase clicks:', err);
+    res.status(500).json({ error: 'Failed to fetch purchase clicks' });
+  }
+});
+
+// =============================================
+// EXTERNAL LINK CHECKS (dead links)
+// =============================================
+// Link and purchase books and tutorials point at outside sites. A scheduled job checks every such
+// URL (see server/link-checker.js), keeps the latest result per URL in external_links and every
+// result in external_link_checks. With LINK_CHECK_HIDE_AFTER_DAYS set, items whose link has failed
+// for that long are hidden from lists and the OPDS catalog until it works again.
+
+const LINK_CHECK_INTERVAL_HOURS = parseFloat(process.env.LINK_CHECK_INTERVAL_HOURS || '24'); // 0 turns the schedule off
+const LINK_CHECK_TIMEOUT_MS = parseInt(process.env.LINK_CHECK_TIMEOUT_MS || '10000', 10);
+const LINK_CHECK_CONCURRENCY = parseInt(process.env.LINK_CHECK_CONCURRENCY || '4', 10);
+const LINK_CHECK_HIDE_AFTER_DAYS = parseInt(process.env.LINK_CHECK_HIDE_AFTER_DAYS || '0', 10); // 0 never hides
+const LINK_CHECK_HISTORY_DAYS = 365;
+const LINK_CHECK_HISTORY_LIMIT = 30; // checks listed per URL in an item's report
+
+// The outside URL a book is checked by, as SQL and for a row
+const BOOK_LINK_URL_SQL = "CASE b.book_type WHEN 'link' THEN b.external_link WHEN 'purchase' THEN b.purchase_link END";
+const bookLinkUrls = (book) => [book.book_type === 'link' ? book.external_link : book.book_type === 'purchase' ? book.purchase_link : null];
+const tutorialLinkUrls = (tutorial) => [tutorial.content_url, tutorial.embed_url];
+
+// Progress of the current or last check. One run at a time.
+const linkCheckRun = {
+  status: 'idle', // idle | running | completed | failed
+  started_at: null,
+  finished_at: null,
+  total: 0,
+  checked: 0,
+  failing: 0,
+  error: null
+};
+
+// Add link_status ('ok' | 'broken' | 'unreachable' | 'unchecked', null without an outside link),
+// link_status_code, link_error, link_checked_at and link_broken_since to each item, from the worst
+// of its URLs: a failing link outranks an unchecked one, which outranks a working one
+async function withLinkHealth(items, urlsOf) {
+  const links = await dbQuery('SELECT url_hash, status, status_code, error, last_checked_at, broken_since FROM external_links');
+  const linksByHash = new Map(links.map(link => [link.url_hash, link]));
+  const rank = (link) => (!link.status ? 1 : link.status === 'ok' ? 0 : 2);
+
+  return items.map(item => {
+    const health = urlsOf(item)
+      .filter(isCheckableUrl)
+      .map(url => linksByHash.get(sha256(url)) || { status: null })
+      .sort((a, b) => rank(b) - rank(a) || (a.broken_since || 0) - (b.broken_since || 0))[0];
+    return {
+      ...item,
+      link_status: health ? health.status || 'unchecked' : null,
+      link_status_code: health ? health.status_code ?? null : null,
+      link_error: health ? health.error ?? null : null,
+      link_checked_at: health ? health.last_checked_at ?? null : null,
+      link_broken_since: health ? health.broken_since ?? null : null
+    };
+  });
+}
+
+// Hide items whose link has failed for LINK_CHECK_HIDE_AFTER_DAYS, and show hidden items again once
+// their link works, changes, or hiding is switched off
+async function applyLinkVisibility() {
+  const days = LINK_CHECK_HIDE_AFTER_DAYS;
+  const tutorialLinkFailing = `EXISTS (
+    SELECT 1 FROM external_links el
+    WHERE el.url_hash IN (SHA2(t.content_url, 256), SHA2(t.embed_url, 256))
+      AND el.broken_since <= NOW() - INTERVAL ? DAY
+  )`;
+
+  if (days > 0) {
+    await dbQuery(
+      `UPDATE books b JOIN external_links el ON el.url_hash = SHA2(${BOOK_LINK_URL_SQL}, 256)
+       SET b.link_hidden_at = NOW()
+       WHERE b.link_hidden_at IS NULL AND el.broken_since <= NOW() - INTERVAL ? DAY`,
+      [days]
+    );
+    await dbQuery(`UPDATE tutorials t SET t.link_hidden_at = NOW() WHERE t.link_hidden_at IS NULL AND ${tutorialLinkFailing}`, [days]);
+  }
+
+  await dbQuery(
+    `UPDATE books b LEFT JOIN external_links el ON el.url_hash = SHA2(${BOOK_LINK_URL_SQL}, 256)
+     SET b.link_hidden_at = NULL
+     WHERE b.link_hidden_at IS NOT NULL AND (? = 0 OR el.broken_since IS NULL OR el.broken_since > NOW() - INTERVAL ? DAY)`,
+    [days, days]
+  );
+  await dbQuery(
+    `UPDATE tutorials t SET t.link_hidden_at = NULL WHERE t.link_hidden_at IS NOT NULL AND (? = 0 OR NOT ${tutorialLinkFailing})`,
+    [days, days]
+  );
+}
+
+// Check every outside URL in use. Scheduled runs skip URLs checked within half an interval (so a
+// restart does not check everything again); `force` checks them all.
+async function runLinkCheck({ force = false } = {}) {
+  Object.assign(linkCheckRun, {
+    status: 'running',
+    started_at: new Date().toISOString(),
+    finished_at: null,
+    total: 0,
+    checked: 0,
+    failing: 0,
+    error: null
+  });
+
+  try {
+    // Register every URL in use and forget the ones nothing points at any more
+    const rows = await dbQuery(`
+      SELECT ${BOOK_LINK_URL_SQL} AS url FROM books b WHERE b.book_type IN ('link', 'purchase')
+      UNION SELECT t.content_url FROM tutorials t
+      UNION SELECT t.embed_url FROM tutorials t
+    `);
+    const urls = [...new Set(rows.map(row => row.url).filter(isCheckableUrl))];
+    if (urls.length > 0) {
+      const hashes = urls.map(url => sha256(url));
+      await dbQuery('INSERT IGNORE INTO external_links (url_hash, url) VALUES ?', [urls.map((url, i) => [hashes[i], url])]);
+      await dbQuery('DELETE FROM external_links WHERE url_hash NOT IN (?)', [hashes]);
+    } else {
+      await dbQuery('DELETE FROM external_links');
+    }
+
+    const due = await dbQuery(
+      force
+        ? 'SELECT url FROM external_links ORDER BY last_checked_at'
+        : 'SELECT url FROM external_links WHERE last_checked_at IS NULL OR last_checked_at < NOW() - INTERVAL ? MINUTE ORDER BY last_checked_at',
+      force ? [] : [Math.round(LINK_CHECK_INTERVAL_HOURS * 30)]
+    );
+    linkCheckRun.total = due.length;
+
+    await checkUrls(due.map(row => row.url), async (url, result) => {
+      const hash = sha256(url);
+      await dbQuery(
+        'INSERT INTO external_link_checks (url_hash, status, status_code, error, response_ms) VALUES (?, ?, ?, ?, ?)',
+        [hash, result.status, result.status_code, result.error, result.response_ms]
+      );
+      await dbQuery(
+        `UPDATE external_links
+         SET status = ?, status_code = ?, error = ?, final_url = ?, last_checked_at = NOW(),
+             broken_since = IF(? = 'ok', NULL, COALESCE(broken_since, NOW()))
+         WHERE url_hash = ?`,
+        [result.status, result.status_code, result.error, result.final_url ? result.final_url.slice(0, 1000) : null, result.status, hash]
+      );
+      linkCheckRun.checked++;
+      if (result.status !== 'ok') linkCheckRun.failing++;
+    }, { concurrency: LINK_CHECK_CONCURRENCY, timeoutMs: LINK_CHECK_TIMEOUT_MS });
+
+    await applyLinkVisibility();
+    await dbQuery('DELETE FROM external_link_checks WHERE checked_at < NOW() - INTERVAL ? DAY', [LINK_CHECK_HISTORY_DAYS]);
+    linkCheckRun.status = 'completed';
+  } catch (err) {
+    console.error('Link check failed:', err);
+    linkCheckRun.status = 'failed';
+    linkCheckRun.error = err.message;
+  } finally {
+    linkCheckRun.finished_at = new Date().toISOString();
+  }
+}
+
+// Node fires timers longer than 2^31-1 ms (about 24.8 days) straight away, so longer waits are split into steps
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+if (LINK_CHECK_INTERVAL_HOURS > 0) {
+  const intervalMs = LINK_CHECK_INTERVAL_HOURS * 60 * 60 * 1000;
+  const scheduleLinkCheck = (delayMs) => {
+    setTimeout(() => {
+      if (delayMs > MAX_TIMER_DELAY_MS) return scheduleLinkCheck(delayMs - MAX_TIMER_DELAY_MS);
+      if (linkCheckRun.status !== 'running') runLinkCheck();
+      scheduleLinkCheck(intervalMs);
+    }, Math.min(delayMs, MAX_TIMER_DELAY_MS)).unref();
+  };
+  scheduleLinkCheck(60 * 1000);
+}
+
+// The latest result and recent history of each of an item's outside URLs
+async function linkHealthReport(fields) {
+  const links = [];
+  for (const [field, url] of Object.entries(fields)) {
+    if (!isCheckableUrl(url)) continue;
+    const hash = sha256(url);
+    const [link] = await dbQuery(
+      'SELECT status, status_code, error, final_url, last_checked_at, broken_since FROM external_links WHERE url_hash = ?',
+      [hash]
+    );
+    const checks = await dbQuery(
+      'SELECT status, status_code, error, response_ms, checked_at FROM external_link_checks WHERE url_hash = ? ORDER BY checked_at DESC, id DESC LIMIT ?',
+      [hash, LINK_CHECK_HISTORY_LIMIT]
+    );
+    links.push({ field, url, ...(link || { status: null }), checks });
+  }
+  return links;
+}
+
+// Checker settings, the last run and how many links are in each state
+app.get('/api/admin/link-checks', requirePermission('settings.manage'), async (req, res) => {
+  try {
+    const counts = await dbQuery("SELECT COALESCE(status, 'unchecked') AS status, COUNT(*) AS total FROM external_links GROUP BY status");
+    const [hidden] = await dbQuery(`
+      SELECT
+        (SELECT COUNT(*) FROM books WHERE link_hidden_at IS NOT NULL) AS books,
+        (SELECT COUNT(*) FROM tutorials WHERE link_hidden_at IS NOT NULL) AS tutorials
+    `);
+    res.json({
+      settings: {
+        interval_hours: LINK_CHECK_INTERVAL_HOURS,
+        hide_after_days: LINK_CHECK_HIDE_AFTER_DAYS,
+        timeout_ms: LINK_CHECK_TIMEOUT_MS
+      },
+      run: linkCheckRun,
+      counts: Object.fromEntries(['ok', 'broken', 'unreachable', 'unchecked'].map(status => [
+        status,
+        Number((counts.find(row => row.status === status) || { total: 0 }).total)
+      ])),
+      hidden: { books: Number(hidden.books), tutorials: Number(hidden.tutorials) }
+    });
+  } catch (err) {
+    console.error('Error fetching link check status:', err);
+    res.status(500).json({ error: 'Failed to fetch link check status' });
+  }
+});
+
+// Check every link now, in the background
+app.post('/api/admin/link-checks/run', requirePermission('settings.manage'), (req, res) => {
+  if (linkCheckRun.status === 'running') {
+    return res.status(409).json({ error: 'A link check is already running', run: linkCheckRun });
+  }
+  runLinkCheck({ force: true });
+  logUserActivity(req.userId, 'LINK_CHECK_STARTED', {});
+  res.status(202).json({ run: linkCheckRun });
+});
+
+app.get('/api/admin/books/:id/link-checks', requirePermission('books.write'), async (req, res) => {
+  try {
+    const [book] = await dbQuery('SELECT book_type, external_link, purchase_link, link_hidden_at FROM books WHERE id = ?', [req.params.id]);
+    if (!book) {
+      return res.status(404).json({ error: 'Book not found' });
+    }
+    const [url] = bookLinkUrls(book);
+    const field = book.book_type === 'link' ? 'external_link' : 'purchase_link';
+    res.json({ hidden_at: book.link_hidden_at, links: await linkHealthReport(url ? { [field]: url } : {}) });
+  } catch (err) {
+    console.error('Error fetching book link checks:', err);
+    res.status(500).json({ error: 'Failed to fetch link checks' });
+  }
+});
+
+app.get('/api/admin/tutorials/:id/link-checks', requirePermission('tutorials.write'), async (req, res) => {
+  try {
+    const [tutorial] = await dbQuery('SELECT content_url, embed_url, link_hidden_at FROM tutorials WHERE id = ?', [req.params.id]);
+    if (!tutorial) {
+      return res.status(404).json({ error: 'Tutorial not found' });
+    }
+    res.json({
+      hidden_at: tutorial.link_hidden_at,
+      links: await linkHealthReport({ content_url: tutorial.content_url, embed_url: tutorial.embed_url })
+    });
+  } catch (err) {
+    console.error('Error fetching tutorial link checks:', err);
+    res.status(500).json({ error: 'Failed to fetch link checks' });
+  }
+});
+
+// =============================================
+// FILE STORAGE (thumbnails, inline uploads & blob migration)
+// =============================================
+
+// Book files and thumbnails live in file storage (local disk or S3, see server/storage.js).
+// Older rows keep their bytes in books.file_content / thumbnail_content until the migration
+// below moves them out, verifying each copy by checksum before the column is cleared.
+
+function sha256(buffer) {
+  return createHash('sha256').update(buffer).digest('hex');
+}
+
+// Store a generated (PNG) thumbnail and point the book at it, removing the one it replaces
+async function storeBookThumbnail(bookId, thumbnail) {
+  const location = await fileStorage.write(`thumbnails/book_${bookId}_${Date.now()}.png`, thumbnail, { contentType: 'image/png' });
+  const rows = await dbQuery('SELECT thumbnail_path FROM books WHERE id = ?', [bookId]);
+  await dbQuery(
+    "UPDATE books SET thumbnail_path = ?, thumbnail_mime = 'image/png', thumbnail_content = NULL WHERE id = ?",
+    [location, bookId]
+  );
+  const previous = rows.length > 0 ? rows[0].thumbnail_path : null;
+  if (previous && previous !== location) {
+    fileStorage.remove(previous).catch(removeErr => console.error('Failed to remove old thumbnail:', removeErr));
+  }
+  return location;
+}
+
+// API clients may still send a book file inline as base64 (file_content). Put those bytes in file
+// storage and save the location instead, so no new blobs land in MySQL. Oversized content is left
+// for the route's own size check to reject.
+async function storeInlineBookFile(req, res, next) {
+  const fileContent = req.body ? req.body.file_content : null;
+  if (!fileContent || typeof fileContent !== 'string' || fileContent.length > MAX_BOOK_FILE_SIZE * 1.4) {
+    return next();
+  }
+
+  try {
+    const buffer = Buffer.from(fileContent, 'base64');
+    // Alongside inline content, file_path holds the original file name
+    const fileName = String(req.body.file_path || req.body.title || 'book').split('/').pop();
+    const safeName = fileName.replace(/[^\w.-]+/g, '_').slice(-100);
+    const location = await fileStorage.write(
+      `books/file-${Date.now()}-${Math.round(Math.random() * 1E9)}-${safeName}`,
+      buffer,
+      { contentType: req.body.file_type || undefined }
+    );
+    req.body = { ...req.body, file_path: location, file_name: req.body.file_name || fileName, file_size: buffer.length, file_content: null };
+    next();
+  } catch (err) {
+    console.error('Error storing inline book file:', err);
+    res.status(500).json({ error: 'Failed to store book file' });
+  }
+}
+
+// Progress of the blob migration. One run at a time; every row is committed on its own,
+// so a run cut short by a restart simply continues where it stopped when started again.
+const storageMigration = {
+  status: 'idle', // idle | running | completed | failed
+  started_at: null,
+  finished_at: null,
+  moved_files: 0,
+  moved_thumbnails: 0,
+  failures: [], // { book_id, kind: 'file' | 'thumbnail', error }
+  error: null
+};
+
+// Copy bytes into file storage and read them back; the copy is removed if the checksums differ
+async function copyBlobToStorage(key, buffer, contentType) {
+  const expected = sha256(buffer);
+  const location = await fileStorage.write(key, buffer, { contentType });
+  const stored = await fileStorage.checksum(location);
+  if (stored !== expected) {
+    await fileStorage.remove(location).catch(() => {});
+    throw new Error(`Checksum mismatch after copying (expected ${expected}, got ${stored}); the blob was left in place`);
+  }
+  return location;
+}
+
+async function migrateBookFileBlob(book) {
+  const buffer = decodeStoredFile(book.file_content);
+  // For blob-stored books, file_path holds the original file name
+  const hasStoredFile = fileStorage.isLocation(book.file_path);
+  const fileName = hasStoredFile ? null : book.file_path;
+  const safeName = String(fileName || `book_${book.id}`).replace(/[^\w.-]+/g, '_').slice(-100);
+  const location = await copyBlobToStorage(`books/migrated_${book.id}_${Date.now()}_${safeName}`, buffer, book.file_type || undefined);
+  const file = { file_path: location, file_name: fileName, file_type: book.file_type, file_size: buffer.length, file_hash: sha256(buffer) };
+
+  if (hasStoredFile) {
+    // The book already serves another stored file; keep the blob's bytes as one of its files
+    await dbQuery(
+      'INSERT INTO book_files (book_id, format, file_path, file_name, file_type, file_size, file_hash) VALUES (?, ?, ?, ?, ?, ?, ?)',
+      [book.id, bookFileFormat(fileName || location, book.file_type), location, fileName || location.split('/').pop(), book.file_type || null, buffer.length, file.file_hash]
+    );
+    await dbQuery('UPDATE books SET file_content = NULL WHERE id = ?', [book.id]);
+  } else {
+    await dbQuery('UPDATE books SET file_path = ?, file_size = ?, file_content = NULL WHERE id = ?', [location, buffer.length, book.id]);
+    await recordPrimaryBookFile(book.id, file);
+  }
+}
+
+async function migrateThumbnailBlob(book) {
+  const buffer = Buffer.isBuffer(book.thumbnail_content) ? book.thumbnail_content : Buffer.from(book.thumbnail_content, 'binary');
+  const mime = book.thumbnail_mime || 'image/png';
+  const location = await copyBlobToStorage(`thumbnails/book_${book.id}_${Date.now()}.${mime.split('/').pop()}`, buffer, mime);
+  await dbQuery('UPDATE books SET thumbnail_path = ?, thumbnail_content = NULL WHERE id = ?', [location, book.id]);
+}
+
+// Move every remaining blob, one row at a time so at most one file is held in memory
+async function runStorageMigration() {
+  const passes = [
+    { kind: 'file', column: 'file_content', select: 'id, file_path, file_type, file_content', migrate: migrateBookFileBlob, counter: 'moved_files' },
+    { kind: 'thumbnail', column: 'thumbnail_content', select: 'id, thumbnail_content, thumbnail_mime', migrate: migrateThumbnailBlob, counter: 'moved_thumbnails' }
+  ];
+
+  try {
+    for (const pass of passes) {
+      let lastId = 0;
+      for (;;) {
+        const rows = await dbQuery(
+          `SELECT ${pass.select} FROM books WHERE ${pass.column} IS NOT NULL AND id > ? ORDER BY id LIMIT 1`,
+          [lastId]
+        );
+        if (rows.length === 0) break;
+        lastId = rows[0].id;
+        try {
+          await pass.migrate(rows[0]);
+          storageMigration[pass.counter]++;
+        } catch (rowErr) {
+          console.error(`Failed to migrate ${pass.kind} of book ${lastId}:`, rowErr);
+          storageMigration.failures.push({ book_id: lastId, kind: pass.kind, error: rowErr.message });
+        }
+      }
+    }
+    storageMigration.status = 'completed';
+  } catch (err) {
+    console.error('Storage migration failed:', err);
+    storageMigration.status = 'failed';
+    storageMigration.error = err.message;
+  } finally {
+    storageMigration.finished_at = new Date().toISOString();
+  }
+}
+
+// Where files are stored, how many blobs are left in MySQL and how the last migration went
+app.get('/api/admin/storage', requirePermission('settings.manage'), async (req, res) => {
+  try {
+    const [pending] = await dbQuery(
+      `SELECT
+        (SELECT COUNT(*) FROM books WHERE file_content IS NOT NULL) AS files,
+        (SELECT COUNT(*) FROM books WHERE thumbnail_content IS NOT NULL) AS thumbnails`
+    );
+    res.json({ storage: fileStorage.describe(), pending, migration: storageMigration });
+  } catch (err) {
+    console.error('Error fetching storage status:', err);
+    res.status(500).json({ error: 'Failed to fetch storage status' });
+  }
+});
+
+// Start moving file and thumbnail blobs out of MySQL into the configured storage backend
+app.post('/api/admin/storage/migrate', requirePermission('settings.manage'), (req, res) => {
+  if (storageMigration.status === 'running') {
+    return res.status(409).json({ error: 'A storage migration is already running', migration: storageMigration });
+  }
+
+  Object.assign(storageMigration, {
+    status: 'running',
+    started_at: new Date().toISOString(),
+    finished_at: null,
+    moved_files: 0,
+    moved_thumbnails: 0,
+    failures: [],
+    error: null
+  });
+  runStorageMigration();
+
+  logUserActivity(req.userId, 'STORAGE_MIGRATION_STARTED', { backend: fileStorage.backend });
+  res.status(202).json({ migration: storageMigration });
+});
+
+// Download book file (supports local uploads and S3). ?file=<id> picks one of the book's
+// files (see /api/books/:id/files); without it the primary file is served.
+app.get('/api/books/:id/download', requireContentAccess('book'), async (req, res) => {
+  const bookId = req.params.id;
+  if (!bookId) return res.status(400).json({ error: 'Book ID is required' });
+
+  const requestedFile = req.query.file;
+  if (requestedFile !== undefined && !/^\d+$/.test(String(requestedFile))) {
+    return res.status(400).json({ error: 'file must be the id of one of the book\'s files' });
+  }
+
+  const sql = `
+    SELECT b.title, b.file_path, b.file_content, b.file_type, b.file_size,
+      f.id AS book_file_id, f.file_path AS stored_path, f.file_type AS stored_type, f.format, f.edition
+    FROM books b
+    LEFT JOIN book_files f ON f.book_id = b.id AND ${requestedFile !== undefined ? 'f.id = ?' : 'f.is_primary = TRUE'}
+    WHERE b.id = ?
+  `;
+  const params = requestedFile !== undefined ? [requestedFile, bookId] : [bookId];
+
+  db.query(sql, params, async (err, results) => {
+    if (err) {
+      console.error('Error fetching book file:', err);
+      return res.status(500).json({ error: 'Database error' });
+    }
+    if (!Array.isArray(results) || results.length === 0) {
+      return res.status(404).json({ error: 'Book not found' });
+    }
+    if (requestedFile !== undefined && !results[0].book_file_id) {
+      return res.status(404).json({ error: 'Book file not found' });
+    }
+
+    const row = results[0];
+    // A chosen (or primary) file comes from book_files; books without one fall back to the books row
+    const book = row.book_file_id
+      ? { title: row.edition ? `${row.title} (${row.edition})` : row.title, file_path: row.stored_path, file_type: row.stored_type, file_content: null }
+      : row;
+
+    // Log the download event; e-reader apps identify themselves with an app token
+    try {
+      const sessionUser = (await getSessionUser(req)) || (await getAppTokenUser(req));
+      if (sessionUser) {
+        db.query(
+          'INSERT INTO download_logs (user_id, content_id, content_type, ip_address, book_file_id) VALUES (?, ?, ?, ?, ?)',
+          [sessionUser.id, bookId, 'book', req.ip, row.book_file_id || null]
+        );
+      }
+    } catch (logError) {
+      console.error('Failed to log download:', logError);
+    }
+
+    // If file stored in S3 (s3://bucket/key), return presigned URL
+    if (book.file_path && String(book.file_path).startsWith('s3://')) {
+      if (!fileStorage.s3Configured) return res.status(500).json({ error: 'S3 not configured on server' });
+      try {
+        const url = await fileStorage.signedUrl(book.file_path);
+        // E-reader apps follow OPDS acquisition links and expect the file, not JSON
+        if (req.appTokenUser) return res.redirect(url);
+        return res.json({ url });
+      } catch (s3err) {
+        console.error('S3 presign error:', s3err);
+        return res.status(500).json({ error: 'Failed to generate download URL' });
+      }
+    }
+
+    // If file stored on disk via local uploads
+    const diskPath = fileStorage.localPath(book.file_path);
+    if (diskPath) {
+      if (!existsSync(diskPath)) return res.status(404).json({ error: 'File not found on disk' });
+      const filename = book.title ? `${book.title}${extname(diskPath) || ''}` : diskPath.split('/').pop();
+      return res.download(diskPath, filename, (downloadErr) => {
+        if (downloadErr) console.error('Download error:', downloadErr);
+      });
+    }
+
+    // If file content stored in DB as base64
+    if (book.file_content) {
+      const buffer = decodeStoredFile(book.file_content);
+      res.setHeader('Content-Type', book.file_type || 'application/octet-stream');
+      res.setHeader('Content-Disposition', `attachment; filename="${(book.file_path || book.title || 'download')}"`);
+      res.setHeader('Content-Length', buffer.length);
+      return res.send(buffer);
+    }
+
+    return res.status(404).json({ error: 'File content not found' });
+  });
+});
+
+// =============================================
+// BOOK READER (inline streaming & reading progress)
+// =============================================
+
+const READER_CONTENT_TYPES = {
+  '.pdf': 'application/pdf',
+  '.epub': 'application/epub+zip'
+};
+
+// Helper to work out a stored book file's MIME type, falling back to its extension
+function bookContentType(book) {
+  if (book.file_type) return book.file_type;
+  return READER_CONTENT_TYPES[extname(String(book.file_path || '')).toLowerCase()] || 'application/octet-stream';
+}
+
+// Helper to turn the file_content column back into the file's bytes.
+// The admin form uploads files as base64 text, so that is what the blob holds.
+function decodeStoredFile(fileContent) {
+  const text = Buffer.isBuffer(fileContent) ? fileContent.toString('latin1') : String(fileContent);
+  return Buffer.from(text, 'base64');
+}
+
+// Helper to send an in-memory file honouring a single byte range
+function sendBufferWithRange(req, res, buffer) {
+  res.setHeader('Accept-Ranges', 'bytes');
+  const ranges = req.headers.range ? req.range(buffer.length) : null;
+
+  if (ranges === -1) {
+    res.setHeader('Content-Range', `bytes */${buffer.length}`);
+    return res.status(416).end();
+  }
+  // Malformed or multi-part ranges get the whole file, which RFC 9110 allows
+  if (Array.isArray(ranges) && ranges.type === 'bytes' && ranges.length === 1) {
+    const { start, end } = ranges[0];
+    res.status(206);
+    res.setHeader('Content-Range', `bytes ${start}-${end}/${buffer.length}`);
+    res.setHeader('Content-Length', end - start + 1);
+    return res.end(buffer.subarray(start, end + 1));
+  }
+
+  res.setHeader('Content-Length', buffer.length);
+  res.end(buffer);
+}
+
+// Stream a book's file for the in-browser reader. Unlike /download this serves the file inline,
+// supports Range requests (so PDFs can load page by page) and does not count as a download.
+// ?file=<id> opens one of the book's files, as on /download; without it the book's own file is read.
+app.get('/api/books/:id/read', requireContentAccess('book'), (req, res) => {
+  const requestedFile = req.query.file;
+  if (requestedFile !== undefined && !/^\d+$/.test(String(requestedFile))) {
+    return res.status(400).json({ error: 'file must be the id of one of the book\'s files' });
+  }
+
+  const sql = requestedFile !== undefined
+    ? `SELECT b.id, f.id AS book_file_id, f.file_path, f.file_type, FALSE AS has_content
+       FROM books b
+       LEFT JOIN book_files f ON f.book_id = b.id AND f.id = ?
+       WHERE b.id = ? AND b.book_type = 'file'`
+    : "SELECT id, file_path, file_type, file_content IS NOT NULL as has_content FROM books WHERE id = ? AND book_type = 'file'";
+  const params = requestedFile !== undefined ? [requestedFile, req.params.id] : [req.params.id];
+
+  db.query(
+    sql,
+    params,
+    async (err, results) => {
+      if (err) {
+        console.error('Error fetching book file for reader:', err);
+        return res.status(500).json({ error: 'Database error' });
+      }
+      if (!Array.isArray(results) || results.length === 0) {
+        return res.status(404).json({ error: 'Book not found' });
+      }
+      if (requestedFile !== undefined && !results[0].book_file_id) {
+        return res.status(404).json({ error: 'Book file not found' });
+      }
+      
+      const book = results[0];
+      const contentType = bookContentType(book);
+      res.setHeader('Content-Disposition', 'inline');
+      
+      // S3: proxy the object so the reader stays same-origin, forwarding the range
+      if (book.file_path && String(book.file_path).startsWith('s3://')) {
+        if (!fileStorage.s3Configured) return res.status(500).json({ error: 'S3 not configured on server' });
+        try {
+          const object = await fileStorage.open(book.file_path, { range: req.headers.range });
+          res.status(object.contentRange ? 206 : 200);
+          res.setHeader('Content-Type', contentType);
+          res.setHeader('Accept-Ranges', 'bytes');
+          if (object.contentLength !== undefined) res.setHeader('Content-Length', object.contentLength);
+          if (object.contentRange) res.setHeader('Content-Range', object.contentRange);
+          object.body.on('error', (streamErr) => {
+            console.error('S3 stream error:', streamErr);
+            res.destroy(streamErr);
+          });
+          return object.body.pipe(res);
+        } catch (s3err) {
+          if (s3err.$metadata && s3err.$metadata.httpStatusCode === 416) {
+            return res.status(416).end();
+          }
+          console.error('S3 read error:', s3err);
+          return res.status(500).json({ error: 'Failed to read the book file' });
+        }
+      }
+      
+      // Local uploads: sendFile handles Range, If-Range and conditional requests itself
+      if (book.file_path && String(book.file_path).startsWith('/uploads/')) {
+        const diskPath = fileStorage.localPath(book.file_path);
+        if (!diskPath || !existsSync(diskPath)) {
+          return res.status(404).json({ error: 'File not found on disk' });
+        }
+        return res.sendFile(diskPath, { headers: { 'Content-Type': contentType } }, (sendErr) => {
+          if (sendErr && !res.headersSent) {
+            console.error('Reader file error:', sendErr);
+            res.status(sendErr.status || 500).end();
+          }
+        });
+      }
+      
+      // Database blob
+      if (book.has_content) {
+        db.query('SELECT file_content FROM books WHERE id = ?', [book.id], (blobErr, blobRows) => {
+          if (blobErr) {
+            console.error('Error loading book file content:', blobErr);
+            return res.status(500).json({ error: 'Database error' });
+          }
+          res.setHeader('Content-Type', contentType);
+          sendBufferWithRange(req, res, decodeStoredFile(blobRows[0].file_content));
+        });
+        return;
+      }
+      
+      res.status(404).json({ error: 'File content not found' });
+    }
+  );
+});
+
+// Reading position is stored as "page N of M" in reading_history.progress
+const READING_PROGRESS_PATTERN = /^page (\d+)(?: of (\d+))?$/;
+
+// Helper to turn a reading_history row's progress into { page, total_pages, last_accessed_at }
+function parseReadingProgress(progress, lastAccessedAt) {
+  const match = READING_PROGRESS_PATTERN.exec(progress || '');
+  return {
+    page: match ? Number(match[1]) : null,
+    total_pages: match && match[2] ? Number(match[2]) : null,
+    last_accessed_at: match ? lastAccessedAt : null
+  };
+}
+
+// Current user's reading position in a book, with the book file (file_id) it is in
+app.get('/api/books/:id/progress', ensureAuthenticated, (req, res) => {
+  db.query(
+    "SELECT progress, book_file_id, last_accessed_at FROM reading_history WHERE user_id = ? AND content_id = ? AND content_type = 'book'",
+    [req.userId, req.params.id],
+    (err, rows) => {
+      if (err) {
+        console.error('Error fetching reading progress:', err);
+        return res.status(500).json({ error: 'Failed to fetch reading progress' });
       }
-      if (file_type !== undefined) {
-        updateFields.push('file_type = ?');
-        updateValues.push(file_type);
+      
+      const row = Array.isArray(rows) && rows.length > 0 ? rows[0] : {};
+      res.json({ ...parseReadingProgress(row.progress, row.last_accessed_at), file_id: row.book_file_id ?? null });
+    }
+  );
+});
+
+// Save the current user's reading position; body { page, total_pages?, file? }. `file` is the book file
+// the reader has open (as in /read?file=); one position is kept per book, so reading another file replaces it.
+app.put('/api/books/:id/progress', ensureAuthenticated, (req, res) => {
+  const { page, total_pages, file } = req.body || {};
+  
+  if (!Number.isInteger(page) || page < 1 || (total_pages !== undefined && total_pages !== null && (!Number.isInteger(total_pages) || total_pages < page))) {
+    return res.status(400).json({ error: 'page must be a positive whole number no greater than total_pages' });
+  }
+  const hasFile = file !== undefined && file !== null;
+  if (hasFile && !(Number.isInteger(file) && file > 0)) {
+    return res.status(400).json({ error: 'file must be the id of one of the book\'s files' });
+  }
+  
+  db.query(
+    `SELECT b.id, f.id AS book_file_id
+     FROM books b
+     LEFT JOIN book_files f ON f.book_id = b.id AND f.id = ?
+     WHERE b.id = ? AND b.book_type = 'file'`,
+    [hasFile ? file : null, req.params.id],
+    (err, books) => {
+      if (err) {
+        console.error('Error checking book for reading progress:', err);
+        return res.status(500).json({ error: 'Failed to save reading progress' });
       }
-      if (external_link !== undefined) {
-        updateFields.push('external_link = ?');
-        updateValues.push(external_link);
+      if (!Array.isArray(books) || books.length === 0) {
+        return res.status(404).json({ error: 'Book not found' });
+      }
+      if (hasFile && !books[0].book_file_id) {
+        return res.status(404).json({ error: 'Book file not found' });
+      }
+      
+      const progress = total_pages ? `page ${page} of ${total_pages}` : `page ${page}`;
+      db.query(
+        `INSERT INTO reading_history (user_id, content_id, content_type, progress, book_file_id) VALUES (?, ?, 'book', ?, ?)
+         ON DUPLICATE KEY UPDATE progress = VALUES(progress), book_file_id = VALUES(book_file_id), last_accessed_at = CURRENT_TIMESTAMP`,
+        [req.userId, books[0].id, progress, books[0].book_file_id || null],
+        (saveErr) => {
+          if (saveErr) {
+            console.error('Error saving reading progress:', saveErr);
+            return res.status(500).json({ error: 'Failed to save reading progress' });
+          }
+          res.json({ page, total_pages: total_pages || null, file_id: books[0].book_file_id || null });
+        }
+      );
+    }
+  );
+});
+
+// =============================================
+// BOOK SERIES (reading order)
+// =============================================
+// A book can be one volume of a series: books.series_id names the series and books.series_position
+// the volume number. Series pages list the volumes in order with the reader's progress in each.
+
+const MAX_SERIES_NAME_LENGTH = 255;
+const MAX_SERIES_POSITION = 65535; // SMALLINT UNSIGNED
+
+// Check series_id and series_position on book create and update requests, turning them into a
+// series id (or null) and a volume number (or null). A book taken out of its series loses its volume number.
+async function checkBookSeries(req, res, next) {
+  const body = req.body || {};
+  const blank = (value) => value === null || value === '';
+  const fields = {};
+
+  if (body.series_id !== undefined) {
+    fields.series_id = blank(body.series_id) ? null : Number(body.series_id);
+    if (fields.series_id !== null && !(Number.isInteger(fields.series_id) && fields.series_id > 0)) {
+      return res.status(400).json({ error: 'series_id must be the id of a series' });
+    }
+  }
+  if (body.series_position !== undefined) {
+    fields.series_position = blank(body.series_position) ? null : Number(body.series_position);
+    if (fields.series_position !== null && !(Number.isInteger(fields.series_position) && fields.series_position >= 1 && fields.series_position <= MAX_SERIES_POSITION)) {
+      return res.status(400).json({ error: `series_position must be a whole number from 1 to ${MAX_SERIES_POSITION}` });
+    }
+  }
+  if (fields.series_id === null) {
+    fields.series_position = null;
+  }
+  if (req.method === 'POST' && !fields.series_id && fields.series_position) {
+    return res.status(400).json({ error: 'series_position needs a series_id' });
+  }
+
+  try {
+    if (fields.series_id) {
+      const rows = await dbQuery('SELECT id FROM series WHERE id = ?', [fields.series_id]);
+      if (rows.length === 0) {
+        return res.status(400).json({ error: 'Series not found' });
+      }
+    }
+    req.body = { ...body, ...fields };
+    next();
+  } catch (err) {
+    console.error('Error checking series:', err);
+    res.status(500).json({ error: 'Database error' });
+  }
+}
+
+// Name and description from a series create or update body; resolves { name, description } or { error }
+function seriesInput(body) {
+  const name = String((body && body.name) || '').trim();
+  if (!name || name.length > MAX_SERIES_NAME_LENGTH) {
+    return { error: `name is required and must be at most ${MAX_SERIES_NAME_LENGTH} characters` };
+  }
+  const description = body.description ? String(body.description).trim() : '';
+  return { name, description: description || null };
+}
+
+// Every series with its number of visible books (public)
+app.get('/api/series', async (req, res) => {
+  try {
+    const rows = await dbQuery(
+      `SELECT s.id, s.name, s.description, COUNT(b.id) AS book_count
+       FROM series s
+       LEFT JOIN books b ON b.series_id = s.id AND b.link_hidden_at IS NULL
+       GROUP BY s.id
+       ORDER BY s.name`
+    );
+    res.json({ series: rows.map(row => ({ ...row, book_count: Number(row.book_count) })) });
+  } catch (err) {
+    console.error('Error fetching series:', err);
+    res.status(500).json({ error: 'Failed to fetch series' });
+  }
+});
+
+// A series with its volumes in reading order. Signed-in readers also get their progress in each
+// volume ({ page, total_pages, last_accessed_at }, page null when not started); visitors get null.
+app.get('/api/series/:id', async (req, res) => {
+  let sessionUser = null;
+  try {
+    sessionUser = await getSessionUser(req);
+  } catch (sessionErr) {
+    console.error('Failed to resolve session for series:', sessionErr);
+  }
+
+  try {
+    const [series] = await dbQuery('SELECT id, name, description FROM series WHERE id = ?', [req.params.id]);
+    if (!series) {
+      return res.status(404).json({ error: 'Series not found' });
+    }
+
+    // Volumes without a number go last, oldest first
+    const rows = await dbQuery(
+      `SELECT ${BOOK_LIST_COLUMNS}, c.name AS category_name, rh.progress, rh.last_accessed_at
+       FROM books b
+       LEFT JOIN categories c ON b.category_id = c.id
+       LEFT JOIN reading_history rh ON rh.content_id = b.id AND rh.content_type = 'book' AND rh.user_id = ?
+       WHERE b.series_id = ? AND b.link_hidden_at IS NULL
+       ORDER BY b.series_position IS NULL, b.series_position, b.published_year, b.id`,
+      [sessionUser ? sessionUser.id : null, series.id]
+    );
+    const volumes = (await hideLockedContentLinks(req, 'book', rows)).map(({ progress, last_accessed_at, ...book }) => ({
+      ...book,
+      thumbnail: `/api/books/${book.id}/thumbnail`,
+      progress: sessionUser ? parseReadingProgress(progress, last_accessed_at) : null
+    }));
+
+    res.json({ ...series, volumes });
+  } catch (err) {
+    console.error('Error fetching series:', err);
+    res.status(500).json({ error: 'Failed to fetch series' });
+  }
+});
+
+// Create a series; body { name, description? }
+app.post('/api/admin/series', requirePermission('books.write'), async (req, res) => {
+  const input = seriesInput(req.body);
+  if (input.error) {
+    return res.status(400).json({ error: input.error });
+  }
+
+  try {
+    const result = await dbQuery('INSERT INTO series (name, description) VALUES (?, ?)', [input.name, input.description]);
+    logUserActivity(req.userId, 'SERIES_CREATED', { series_id: result.insertId, name: input.name });
+    res.status(201).json({ id: result.insertId, ...input, book_count: 0 });
+  } catch (err) {
+    if (err.code === 'ER_DUP_ENTRY') {
+      return res.status(409).json({ error: 'A series with this name already exists' });
+    }
+    console.error('Error creating series:', err);
+    res.status(500).json({ error: 'Failed to create series' });
+  }
+});
+
+// Rename a series or change its description; body { name, description? }
+app.put('/api/admin/series/:id', requirePermission('books.write'), async (req, res) => {
+  const input = seriesInput(req.body);
+  if (input.error) {
+    return res.status(400).json({ error: input.error });
+  }
+
+  try {
+    const result = await dbQuery('UPDATE series SET name = ?, description = ? WHERE id = ?', [input.name, input.description, req.params.id]);
+    if (result.affectedRows === 0) {
+      return res.status(404).json({ error: 'Series not found' });
+    }
+    logUserActivity(req.userId, 'SERIES_UPDATED', { series_id: Number(req.params.id), name: input.name });
+    res.json({ id: Number(req.params.id), ...input });
+  } catch (err) {
+    if (err.code === 'ER_DUP_ENTRY') {
+      return res.status(409).json({ error: 'A series with this name already exists' });
+    }
+    console.error('Error updating series:', err);
+    res.status(500).json({ error: 'Failed to update series' });
+  }
+});
+
+// Delete a series; its books stay in the library without a series
+app.delete('/api/admin/series/:id', requirePermission('books.write'), async (req, res) => {
+  try {
+    const [series] = await dbQuery('SELECT id, name FROM series WHERE id = ?', [req.params.id]);
+    if (!series) {
+      return res.status(404).json({ error: 'Series not found' });
+    }
+    await dbQuery('UPDATE books SET series_id = NULL, series_position = NULL WHERE series_id = ?', [series.id]);
+    await dbQuery('DELETE FROM series WHERE id = ?', [series.id]);
+    logUserActivity(req.userId, 'SERIES_DELETED', { series_id: series.id, name: series.name });
+    res.json({ message: 'Series deleted successfully' });
+  } catch (err) {
+    console.error('Error deleting series:', err);
+    res.status(500).json({ error: 'Failed to delete series' });
+  }
+});
+
+// =============================================
+// CONTRIBUTORS (authors, editors, translators & instructors)
+// =============================================
+// books.author and tutorials.creator stay the display text; content_contributors credits each
+// person (contributors) with a role so author pages can list everything by them. Admin forms send
+// a `contributors` list, from which the display text is written; API clients and the importer
+// that only send the text have it parsed. Existing items are credited from their text on startup.
+
+const CONTRIBUTOR_SUGGESTION_LIMIT = 10;
+const CONTRIBUTOR_TEXT_FIELDS = { book: 'author', tutorial: 'creator' };
+const CONTRIBUTOR_DEFAULT_ROLES = { book: 'author', tutorial: 'instructor' };
+
+// Middleware for book and tutorial create/update: checks a `contributors` list and writes the
+// display text (author or creator) from it
+function checkContributors(contentType) {
+  return (req, res, next) => {
+    const textField = CONTRIBUTOR_TEXT_FIELDS[contentType];
+    const body = req.body || {};
+    if (body.contributors === undefined) return next();
+
+    const { contributors, error } = normalizeContributors(body.contributors);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+    // The "et al." of the text sent alongside stays while the list names nobody that text did not
+    const role = CONTRIBUTOR_DEFAULT_ROLES[contentType];
+    const named = new Set(parseContributors(body[textField], role).map(person => person.name.toLowerCase()));
+    const etAl = hasEtAl(body[textField]) && contributors.every(person => named.has(person.name.toLowerCase()));
+    const text = formatContributors(contributors, role, { etAl });
+    req.body = { ...body, contributors, [textField]: text || (contentType === 'tutorial' ? null : '') };
+    next();
+  };
+}
+
+// Delete people no longer credited anywhere, out of `contributorIds`
+async function removeUncreditedContributors(contributorIds) {
+  if (contributorIds.length === 0) return;
+  await dbQuery(
+    `DELETE c FROM contributors c
+     LEFT JOIN content_contributors cc ON cc.contributor_id = c.id
+     WHERE c.id IN (?) AND cc.contributor_id IS NULL`,
+    [contributorIds]
+  );
+}
+
+// Save an item's credits from a create/update body. A `contributors` list replaces every credit;
+// the display text alone replaces only the credits of the roles parsed from it.
+async function recordContributors(contentType, contentId, body) {
+  const textField = CONTRIBUTOR_TEXT_FIELDS[contentType];
+  let people;
+  let roles;
+  if (Array.isArray(body.contributors)) {
+    people = body.contributors;
+    roles = CONTRIBUTOR_ROLES;
+  } else if (body[textField] !== undefined) {
+    people = parseContributors(body[textField], CONTRIBUTOR_DEFAULT_ROLES[contentType]);
+    roles = [...new Set([CONTRIBUTOR_DEFAULT_ROLES[contentType], ...people.map(person => person.role)])];
+  } else {
+    return;
+  }
+
+  const previous = await dbQuery(
+    'SELECT contributor_id FROM content_contributors WHERE content_type = ? AND content_id = ? AND role IN (?)',
+    [contentType, contentId, roles]
+  );
+  await dbQuery(
+    'DELETE FROM content_contributors WHERE content_type = ? AND content_id = ? AND role IN (?)',
+    [contentType, contentId, roles]
+  );
+  for (const [position, person] of people.entries()) {
+    // Names match case- and accent-insensitively (the column's collation), so "ada lovelace" is Ada Lovelace
+    const result = await dbQuery(
+      'INSERT INTO contributors (name) VALUES (?) ON DUPLICATE KEY UPDATE id = LAST_INSERT_ID(id)',
+      [person.name]
+    );
+    await dbQuery(
+      'INSERT IGNORE INTO content_contributors (contributor_id, content_id, content_type, role, position) VALUES (?, ?, ?, ?, ?)',
+      [result.insertId, contentId, contentType, person.role, position]
+    );
+  }
+  await removeUncreditedContributors(previous.map(row => row.contributor_id));
+}
+
+// Drop a deleted item's credits
+async function forgetContributors(contentType, contentId) {
+  const previous = await dbQuery(
+    'SELECT contributor_id FROM content_contributors WHERE content_type = ? AND content_id = ?',
+    [contentType, contentId]
+  );
+  await dbQuery('DELETE FROM content_contributors WHERE content_type = ? AND content_id = ?', [contentType, contentId]);
+  await removeUncreditedContributors(previous.map(row => row.contributor_id));
+}
+
+// Add `contributors` ([{ id, name, role }] in credit order) to books or tutorials
+async function withContributors(contentType, items) {
+  if (items.length === 0) return items;
+  const rows = await dbQuery(
+    `SELECT cc.content_id, c.id, c.name, cc.role
+     FROM content_contributors cc
+     JOIN contributors c ON c.id = cc.contributor_id
+     WHERE cc.content_type = ? AND cc.content_id IN (?)
+     ORDER BY cc.position, cc.role`,
+    [contentType, items.map(item => item.id)]
+  );
+  return items.map(item => ({
+    ...item,
+    contributors: rows
+      .filter(row => row.content_id === item.id)
+      .map(({ id, name, role }) => ({ id, name, role }))
+  }));
+}
+
+// Catalogs from before contributors have display text but no credits. After migrate-add-contributors.sql
+// an admin credits them from that text with POST /api/admin/contributors/backfill.
+const contributorBackfill = {
+  status: 'idle', // idle | running | completed | failed
+  started_at: null,
+  finished_at: null,
+  credited_books: 0,
+  credited_tutorials: 0,
+  failures: [], // { content_type, content_id, error }
+  error: null
+};
+
+// Books and tutorials with display text but no credits, as SQL for `t`
+const uncreditedSql = (contentType) => {
+  const textField = CONTRIBUTOR_TEXT_FIELDS[contentType];
+  return `t.${textField} IS NOT NULL AND t.${textField} <> ''
+    AND NOT EXISTS (SELECT 1 FROM content_contributors cc WHERE cc.content_type = '${contentType}' AND cc.content_id = t.id)`;
+};
+
+async function runContributorBackfill() {
+  const passes = [
+    { contentType: 'book', table: 'books', counter: 'credited_books' },
+    { contentType: 'tutorial', table: 'tutorials', counter: 'credited_tutorials' }
+  ];
+
+  try {
+    for (const pass of passes) {
+      const textField = CONTRIBUTOR_TEXT_FIELDS[pass.contentType];
+      let lastId = 0;
+      for (;;) {
+        const rows = await dbQuery(
+          `SELECT t.id, t.${textField} AS text FROM ${pass.table} t
+           WHERE ${uncreditedSql(pass.contentType)} AND t.id > ? ORDER BY t.id LIMIT 100`,
+          [lastId]
+        );
+        if (rows.length === 0) break;
+        for (const row of rows) {
+          lastId = row.id;
+          try {
+            await recordContributors(pass.contentType, row.id, { [textField]: row.text });
+            contributorBackfill[pass.counter]++;
+          } catch (rowErr) {
+            console.error(`Failed to credit contributors of ${pass.contentType} ${row.id}:`, rowErr);
+            contributorBackfill.failures.push({ content_type: pass.contentType, content_id: row.id, error: rowErr.message });
+          }
+        }
+      }
+    }
+    contributorBackfill.status = 'completed';
+  } catch (err) {
+    console.error('Contributor backfill failed:', err);
+    contributorBackfill.status = 'failed';
+    contributorBackfill.error = err.message;
+  } finally {
+    contributorBackfill.finished_at = new Date().toISOString();
+  }
+}
+
+// How many books and tutorials still have no credits, and how the last backfill went
+app.get('/api/admin/contributors/backfill', requirePermission('settings.manage'), async (req, res) => {
+  try {
+    const [pending] = await dbQuery(
+      `SELECT
+        (SELECT COUNT(*) FROM books t WHERE ${uncreditedSql('book')}) AS books,
+        (SELECT COUNT(*) FROM tutorials t WHERE ${uncreditedSql('tutorial')}) AS tutorials`
+    );
+    res.json({ pending, backfill: contributorBackfill });
+  } catch (err) {
+    console.error('Error fetching contributor backfill status:', err);
+    res.status(500).json({ error: 'Failed to fetch contributor backfill status' });
+  }
+});
+
+// Start crediting uncredited books and tutorials from their author / creator text
+app.post('/api/admin/contributors/backfill', requirePermission('settings.manage'), (req, res) => {
+  if (contributorBackfill.status === 'running') {
+    return res.status(409).json({ error: 'Contributors are already being credited', backfill: contributorBackfill });
+  }
+
+  Object.assign(contributorBackfill, {
+    status: 'running',
+    started_at: new Date().toISOString(),
+    finished_at: null,
+    credited_books: 0,
+    credited_tutorials: 0,
+    failures: [],
+    error: null
+  });
+  runContributorBackfill();
+
+  logUserActivity(req.userId, 'CONTRIBUTOR_BACKFILL_STARTED', {});
+  res.status(202).json({ backfill: contributorBackfill });
+});
+
+// People whose name contains `q`, for autocomplete (public). Query parameters: q, limit.
+app.get('/api/contributors', async (req, res) => {
+  const limit = req.query.limit === undefined ? CONTRIBUTOR_SUGGESTION_LIMIT : parseInt(req.query.limit, 10);
+  if (!Number.isInteger(limit) || limit < 1 || limit > BOOK_LIST_MAX_LIMIT) {
+    return res.status(400).json({ error: `limit must be between 1 and ${BOOK_LIST_MAX_LIMIT}` });
+  }
+
+  try {
+    const rows = await dbQuery(
+      `SELECT c.id, c.name,
+              COUNT(DISTINCT CASE WHEN cc.content_type = 'book' THEN cc.content_id END) AS book_count,
+              COUNT(DISTINCT CASE WHEN cc.content_type = 'tutorial' THEN cc.content_id END) AS tutorial_count
+       FROM contributors c
+       LEFT JOIN content_contributors cc ON cc.contributor_id = c.id
+       ${req.query.q ? 'WHERE c.name LIKE ?' : ''}
+       GROUP BY c.id, c.name
+       ORDER BY c.name
+       LIMIT ?`,
+      req.query.q ? [likePattern(req.query.q), limit] : [limit]
+    );
+    res.json({
+      contributors: rows.map(row => ({ ...row, book_count: Number(row.book_count), tutorial_count: Number(row.tutorial_count) }))
+    });
+  } catch (err) {
+    console.error('Error fetching contributors:', err);
+    res.status(500).json({ error: 'Failed to fetch contributors' });
+  }
+});
+
+// A person's page: their books and tutorials, each with the roles they had on it (public)
+app.get('/api/contributors/:id', async (req, res) => {
+  try {
+    const [contributor] = await dbQuery('SELECT id, name FROM contributors WHERE id = ?', [req.params.id]);
+    if (!contributor) {
+      return res.status(404).json({ error: 'Contributor not found' });
+    }
+
+    const [books, tutorials] = await Promise.all([
+      dbQuery(
+        `SELECT ${BOOK_LIST_COLUMNS}, c.name AS category_name, credits.roles
+         FROM (
+           SELECT content_id, GROUP_CONCAT(role ORDER BY role) AS roles
+           FROM content_contributors
+           WHERE content_type = 'book' AND contributor_id = ?
+           GROUP BY content_id
+         ) credits
+         JOIN books b ON b.id = credits.content_id
+         LEFT JOIN categories c ON b.category_id = c.id
+         WHERE b.link_hidden_at IS NULL
+         ORDER BY b.published_year IS NULL, b.published_year DESC, b.title`,
+        [contributor.id]
+      ),
+      dbQuery(
+        `SELECT t.id, t.title, t.description, t.creator, t.difficulty, t.content_type, t.content_url, t.created_at,
+                t.access_level, t.access_role_id, c.name AS category_name, credits.roles
+         FROM (
+           SELECT content_id, GROUP_CONCAT(role ORDER BY role) AS roles
+           FROM content_contributors
+           WHERE content_type = 'tutorial' AND contributor_id = ?
+           GROUP BY content_id
+         ) credits
+         JOIN tutorials t ON t.id = credits.content_id
+         LEFT JOIN categories c ON t.category_id = c.id
+         WHERE t.link_hidden_at IS NULL
+         ORDER BY t.created_at DESC`,
+        [contributor.id]
+      )
+    ]);
+    const withRoles = (row) => ({ ...row, roles: String(row.roles || '').split(',').filter(Boolean) });
+
+    res.json({
+      ...contributor,
+      books: (await hideLockedContentLinks(req, 'book', books))
+        .map(book => ({ ...withRoles(book), thumbnail: `/api/books/${book.id}/thumbnail` })),
+      tutorials: (await hideLockedContentLinks(req, 'tutorial', tutorials)).map(withRoles)
+    });
+  } catch (err) {
+    console.error('Error fetching contributor:', err);
+    res.status(500).json({ error: 'Failed to fetch contributor' });
+  }
+});
+
+// =============================================
+// CONTENT ACCESS (licenses & access levels)
+// =============================================
+// Books and tutorials carry a license (shown as a badge) and an access level deciding who may open
+// them: everyone, signed-in users, or members of one role (see server/content-access.js). The detail,
+// files, download, reader, thumbnail, purchase and price history routes check it, and so do stored
+// files under /uploads. Lists show every item but leave out the links and files of those the viewer
+// may not open.
+
+// Roles and permissions of the user behind the request's session or app token; null for visitors
+async function getContentViewer(req) {
+  if (req.contentViewer !== undefined) return req.contentViewer;
+  const user = (await getSessionUser(req)) || (await getAppTokenUser(req));
+  req.contentViewer = user ? await getUserAccess(user.id) : null;
+  return req.contentViewer;
+}
+
+// Middleware for routes serving a book or tutorial by :id. Unknown ids are left to the route's own 404.
+function requireContentAccess(contentType) {
+  return async (req, res, next) => {
+    const table = contentType === 'book' ? 'books' : 'tutorials';
+    try {
+      const [item] = await dbQuery(
+        `SELECT x.access_level, r.name AS access_role FROM ${table} x LEFT JOIN roles r ON r.id = x.access_role_id WHERE x.id = ?`,
+        [req.params.id]
+      );
+      if (!item) return next();
+      const denial = contentAccessDenial(contentType, item, await getContentViewer(req));
+      if (denial) {
+        return res.status(denial.status).json({ error: denial.error, code: denial.code });
+      }
+      next();
+    } catch (err) {
+      console.error('Error checking content access:', err);
+      res.status(500).json({ error: 'Failed to check access' });
+    }
+  };
+}
+
+// Stored files are also reachable as /uploads/<key>. Book files, covers and thumbnails follow the access
+// level of the books using them and tutorial PDFs that of their tutorial; files nothing uses yet, such
+// as a fresh upload, are served as before. Avatars are always public. The key is worked out the way
+// express.static resolves it (decoded, with repeated slashes and dot segments collapsed), so spellings
+// such as /uploads//books/<file> name the same file here as there.
+async function guardStoredFiles(req, res, next) {
+  let key;
+  try {
+    key = posix.normalize(decodeURIComponent(req.path)).replace(/^\/+/, '');
+  } catch (decodeErr) {
+    return res.status(400).json({ error: 'Invalid file path' });
+  }
+  if (!key || key.startsWith('avatars/')) return next();
+
+  try {
+    const location = `/uploads/${key}`;
+    const items = await dbQuery(
+      `SELECT 'book' AS content_type, b.access_level, r.name AS access_role
+       FROM books b
+       LEFT JOIN roles r ON r.id = b.access_role_id
+       WHERE b.file_path = ? OR b.thumbnail_path = ? OR b.cover_image_path = ?
+          OR b.id IN (SELECT book_id FROM book_files WHERE file_path = ?)
+       UNION ALL
+       SELECT 'tutorial' AS content_type, t.access_level, r.name AS access_role
+       FROM tutorials t
+       LEFT JOIN roles r ON r.id = t.access_role_id
+       WHERE t.file_path = ?`,
+      [location, location, location, location, location]
+    );
+    if (items.length === 0) return next();
+
+    const viewer = await getContentViewer(req);
+    const denials = items.map(item => contentAccessDenial(item.content_type, item, viewer));
+    if (denials.some(denial => !denial)) return next();
+    res.status(denials[0].status).json({ error: denials[0].error, code: denials[0].code });
+  } catch (err) {
+    console.error('Error checking stored file access:', err);
+    res.status(500).json({ error: 'Failed to check access' });
+  }
+}
+
+// Helper for list routes: blanks the links and files of the rows the viewer may not open (see
+// withoutContentLinks). Rows need access_level and access_role_id.
+async function hideLockedContentLinks(req, contentType, rows) {
+  if (!rows.some(row => row.access_level && row.access_level !== 'public')) return rows;
+
+  const viewer = await getContentViewer(req);
+  const roleIds = [...new Set(rows.map(row => row.access_role_id).filter(Boolean))];
+  const roles = roleIds.length > 0 ? await dbQuery('SELECT id, name FROM roles WHERE id IN (?)', [roleIds]) : [];
+  const roleNames = new Map(roles.map(role => [role.id, role.name]));
+
+  return rows.map(row => {
+    const item = { access_level: row.access_level, access_role: roleNames.get(row.access_role_id) || null };
+    return contentAccessDenial(contentType, item, viewer) ? withoutContentLinks(contentType, row) : row;
+  });
+}
+
+// Middleware for book and tutorial create/update: checks license, access_level and access_role_id.
+// A role only applies to restricted items, so other access levels clear it.
+async function checkContentAccess(req, res, next) {
+  const body = req.body || {};
+  const invalid = validateContentAccess(body);
+  if (invalid) {
+    return res.status(400).json({ error: invalid });
+  }
+
+  const fields = {};
+  if (body.license !== undefined) {
+    fields.license = body.license || null;
+  }
+  if (body.access_role_id !== undefined) {
+    fields.access_role_id = body.access_role_id ? Number(body.access_role_id) : null;
+  }
+  if (body.access_level !== undefined && body.access_level !== 'restricted') {
+    fields.access_role_id = null;
+  }
+
+  try {
+    if (fields.access_role_id) {
+      const rows = await dbQuery('SELECT id FROM roles WHERE id = ?', [fields.access_role_id]);
+      if (rows.length === 0) {
+        return res.status(400).json({ error: 'Role not found' });
+      }
+    }
+    req.body = { ...body, ...fields };
+    next();
+  } catch (err) {
+    console.error('Error checking access role:', err);
+    res.status(500).json({ error: 'Database error' });
+  }
+}
+
+// Roles a book or tutorial can be restricted to, for the admin forms
+app.get('/api/admin/access-roles', requirePermission('admin.access'), async (req, res) => {
+  try {
+    const roles = await dbQuery('SELECT id, name FROM roles ORDER BY name');
+    res.json({ roles });
+  } catch (err) {
+    console.error('Error fetching access roles:', err);
+    res.status(500).json({ error: 'Failed to fetch roles' });
+  }
+});
+
+// =====================================================
+// OPDS CATALOG (e-reader apps)
+// =====================================================
+
+// OPDS 1.2 feeds live under /api/opds and OPDS 2.0 feeds under /api/opds/v2. Both need an
+// app token; acquisition links point at /api/books/:id/download.
+const OPDS_PAGE_SIZE = 50;
+const OPDS_CATALOG_NAME = process.env.OPDS_CATALOG_NAME || 'iykeLib';
+const OPDS_URLS = { baseUrl: APP_URL, catalogName: OPDS_CATALOG_NAME };
+
+function opdsPage(query) {
+  const page = parseInt(query.page, 10);
+  return Number.isInteger(page) && page > 0 ? page : 1;
+}
+
+// Helper to read one page of books for a feed; resolves { books, total }
+async function queryOpdsBooks({ where = [], params = [], joins = '', orderBy, page }) {
+  const whereSql = `WHERE ${['b.link_hidden_at IS NULL', ...where].join(' AND ')}`;
+  const books = await new Promise((resolve, reject) => {
+    db.query(
+      `SELECT ${BOOK_LIST_COLUMNS}, b.file_content IS NOT NULL AS has_file_content,
+              c.name AS category_name, c.slug AS category_slug
+       FROM books b
+       LEFT JOIN categories c ON b.category_id = c.id
+       ${joins}
+       ${whereSql}
+       ORDER BY ${orderBy}
+       LIMIT ? OFFSET ?`,
+      [...params, OPDS_PAGE_SIZE, (page - 1) * OPDS_PAGE_SIZE],
+      (err, results) => (err ? reject(err) : resolve(results))
+    );
+  });
+  const [{ total }] = await new Promise((resolve, reject) => {
+    db.query(
+      `SELECT COUNT(*) AS total FROM books b LEFT JOIN categories c ON b.category_id = c.id ${whereSql}`,
+      params,
+      (err, results) => (err ? reject(err) : resolve(results))
+    );
+  });
+  return {
+    books: books.map(book => ({ ...book, file_type: bookContentType(book), has_file_content: !!book.has_file_content })),
+    total
+  };
+}
+
+// Links shared by every feed of one OPDS version; `path` is the feed's path without the prefix
+function opdsFeedLinks(prefix, path, { page, total, query = {} } = {}) {
+  const url = (pageNumber) => {
+    const search = new URLSearchParams({ ...query, ...(pageNumber > 1 ? { page: String(pageNumber) } : {}) }).toString();
+    return `${APP_URL}${prefix}${path}${search ? `?${search}` : ''}`;
+  };
+  const links = {
+    self: url(page || 1),
+    start: `${APP_URL}${prefix}`,
+    openSearch: `${APP_URL}/api/opds/opensearch.xml`,
+    searchTemplate: `${APP_URL}/api/opds/v2/search{?query}`
+  };
+  if (page) {
+    links.first = url(1);
+    if (page > 1) links.previous = url(page - 1);
+    if (page * OPDS_PAGE_SIZE < total) links.next = url(page + 1);
+  }
+  return links;
+}
+
+function sendOpdsFeed(res, version, feed) {
+  if (version === 2) {
+    return res.type(OPDS2_CONTENT_TYPE).send(JSON.stringify(renderOpds2(feed, OPDS_URLS)));
+  }
+  res.type(OPDS1_CONTENT_TYPE).send(renderOpds1(feed, OPDS_URLS));
+}
+
+// Build and send a feed of books for one page of a listing
+async function sendOpdsBookFeed(req, res, version, prefix, { id, title, path, query, ...listing }) {
+  const page = opdsPage(req.query);
+  const { books, total } = await queryOpdsBooks({ ...listing, page });
+  const updated = books.reduce((latest, book) => (new Date(book.updated_at) > latest ? new Date(book.updated_at) : latest), new Date(0));
+  sendOpdsFeed(res, version, {
+    id,
+    title,
+    updated: books.length > 0 ? updated : new Date(),
+    kind: 'acquisition',
+    links: opdsFeedLinks(prefix, path, { page, total, query }),
+    publications: await hideLockedContentLinks(req, 'book', books),
+    pagination: { page, perPage: OPDS_PAGE_SIZE, total }
+  });
+}
+
+// Same routes for both versions; only the rendering differs
+for (const [version, prefix] of [[1, '/api/opds'], [2, '/api/opds/v2']]) {
+  // Root: where to start browsing
+  app.get(prefix, ensureAppToken, (req, res) => {
+    sendOpdsFeed(res, version, {
+      id: 'urn:iykelib:opds:root',
+      title: OPDS_CATALOG_NAME,
+      updated: new Date(),
+      kind: 'navigation',
+      links: opdsFeedLinks(prefix, ''),
+      entries: [
+        { id: 'urn:iykelib:opds:new', title: 'Newest books', description: 'Recently added to the library', href: `${APP_URL}${prefix}/new`, kind: 'acquisition' },
+        { id: 'urn:iykelib:opds:popular', title: 'Popular books', description: 'Most downloaded', href: `${APP_URL}${prefix}/popular`, kind: 'acquisition' },
+        { id: 'urn:iykelib:opds:categories', title: 'Categories', description: 'Browse by category', href: `${APP_URL}${prefix}/categories`, kind: 'navigation' }
+      ]
+    });
+  });
+
+  app.get(`${prefix}/new`, ensureAppToken, async (req, res) => {
+    try {
+      await sendOpdsBookFeed(req, res, version, prefix, {
+        id: 'urn:iykelib:opds:new',
+        title: 'Newest books',
+        path: '/new',
+        orderBy: 'b.created_at DESC, b.id DESC'
+      });
+    } catch (error) {
+      console.error('Error building OPDS newest feed:', error);
+      res.status(500).json({ error: 'Failed to build catalog feed' });
+    }
+  });
+
+  // Most downloaded first, from download_logs
+  app.get(`${prefix}/popular`, ensureAppToken, async (req, res) => {
+    try {
+      await sendOpdsBookFeed(req, res, version, prefix, {
+        id: 'urn:iykelib:opds:popular',
+        title: 'Popular books',
+        path: '/popular',
+        joins: `LEFT JOIN (
+          SELECT content_id, COUNT(*) AS download_count
+          FROM download_logs
+          WHERE content_type = 'book'
+          GROUP BY content_id
+        ) dl ON b.id = dl.content_id`,
+        orderBy: 'COALESCE(dl.download_count, 0) DESC, b.id DESC'
+      });
+    } catch (error) {
+      console.error('Error building OPDS popular feed:', error);
+      res.status(500).json({ error: 'Failed to build catalog feed' });
+    }
+  });
+
+  app.get(`${prefix}/categories`, ensureAppToken, (req, res) => {
+    db.query(
+      `SELECT c.id, c.name, c.description, COUNT(b.id) AS book_count, MAX(b.updated_at) AS updated_at
+       FROM categories c
+       JOIN books b ON b.category_id = c.id AND b.link_hidden_at IS NULL
+       GROUP BY c.id, c.name, c.description
+       ORDER BY c.name`,
+      (err, categories) => {
+        if (err) {
+          console.error('Error building OPDS categories feed:', err);
+          return res.status(500).json({ error: 'Failed to build catalog feed' });
+        }
+        
+        sendOpdsFeed(res, version, {
+          id: 'urn:iykelib:opds:categories',
+          title: 'Categories',
+          updated: new Date(),
+          kind: 'navigation',
+          links: opdsFeedLinks(prefix, '/categories'),
+          entries: categories.map(category => ({
+            id: `urn:iykelib:opds:category:${category.id}`,
+            title: category.name,
+            description: `${category.book_count} book${category.book_count === 1 ? '' : 's'}${category.description ? ` · ${category.description}` : ''}`,
+            updated: category.updated_at,
+            href: `${APP_URL}${prefix}/categories/${category.id}`,
+            kind: 'acquisition'
+          }))
+        });
+      }
+    );
+  });
+
+  app.get(`${prefix}/categories/:id`, ensureAppToken, async (req, res) => {
+    try {
+      const categories = await new Promise((resolve, reject) => {
+        db.query('SELECT id, name FROM categories WHERE id = ?', [req.params.id], (err, results) => (err ? reject(err) : resolve(results)));
+      });
+      if (!Array.isArray(categories) || categories.length === 0) {
+        return res.status(404).json({ error: 'Category not found' });
+      }
+      
+      await sendOpdsBookFeed(req, res, version, prefix, {
+        id: `urn:iykelib:opds:category:${categories[0].id}`,
+        title: categories[0].name,
+        path: `/categories/${categories[0].id}`,
+        where: ['b.category_id = ?'],
+        params: [categories[0].id],
+        orderBy: 'b.title ASC, b.id ASC'
+      });
+    } catch (error) {
+      console.error('Error building OPDS category feed:', error);
+      res.status(500).json({ error: 'Failed to build catalog feed' });
+    }
+  });
+
+  // Search titles, authors, descriptions, ISBNs and category names like GET /api/books?q=.
+  // OPDS 1.2 clients send ?q= (see opensearch.xml); OPDS 2.0 clients ?query=.
+  app.get(`${prefix}/search`, ensureAppToken, async (req, res) => {
+    const q = String(req.query.query || req.query.q || '').trim();
+    if (!q) {
+      return res.status(400).json({ error: 'Search query is required' });
+    }
+    
+    try {
+      const filters = buildBookListFilters({ q }, { includeHidden: true }); // queryOpdsBooks leaves hidden books out
+      await sendOpdsBookFeed(req, res, version, prefix, {
+        id: `urn:iykelib:opds:search:${encodeURIComponent(q)}`,
+        title: `Search: ${q}`,
+        path: '/search',
+        query: { [version === 2 ? 'query' : 'q']: q },
+        where: filters.where,
+        params: filters.params,
+        orderBy: 'b.title ASC, b.id ASC'
+      });
+    } catch (error) {
+      console.error('Error building OPDS search feed:', error);
+      res.status(500).json({ error: 'Failed to build catalog feed' });
+    }
+  });
+}
+
+// OpenSearch description for OPDS 1.2 clients
+app.get('/api/opds/opensearch.xml', ensureAppToken, (req, res) => {
+  res.type('application/opensearchdescription+xml').send(renderOpenSearchDescription({
+    catalogName: OPDS_CATALOG_NAME,
+    template: `${APP_URL}/api/opds/search?q={searchTerms}`
+  }));
+});
+
+// A single OPDS 2.0 publication (the target of each publication's self link)
+app.get('/api/opds/v2/books/:id', ensureAppToken, requireContentAccess('book'), (req, res) => {
+  db.query(
+    `SELECT ${BOOK_LIST_COLUMNS}, b.file_content IS NOT NULL AS has_file_content,
+            c.name AS category_name, c.slug AS category_slug
+     FROM books b
+     LEFT JOIN categories c ON b.category_id = c.id
+     WHERE b.id = ? AND b.link_hidden_at IS NULL`,
+    [req.params.id],
+    (err, results) => {
+      if (err) {
+        console.error('Error fetching OPDS publication:', err);
+        return res.status(500).json({ error: 'Failed to fetch book' });
       }
-      if (purchase_link !== undefined) {
-        updateFields.push('purchase_link = ?');
-        updateValues.push(purchase_link);
+      if (!Array.isArray(results) || results.length === 0) {
+        return res.status(404).json({ error: 'Book not found' });
       }
-      if (price !== undefined) {
-        updateFields.push('price = ?');
-        updateValues.push(price ? parseFloat(price) : null);
+      
+      const book = { ...results[0], file_type: bookContentType(results[0]), has_file_content: !!results[0].has_file_content };
+      res.type('application/opds-publication+json').send(JSON.stringify(renderOpds2Publication(book, OPDS_URLS)));
+    }
+  );
+});
+
+// =====================================================
+// FULL-TEXT SEARCH INSIDE BOOKS
+// =====================================================
+
+const BOOK_TEXT_SEARCH_MAX_LIMIT = 50;
+const BOOK_TEXT_MATCHES_PER_BOOK = 3;
+const BOOK_TEXT_INSERT_BATCH = 100;
+// InnoDB's default FULLTEXT stopwords; requiring one of them (+word) would match nothing
+const BOOK_TEXT_STOPWORDS = new Set(['about', 'are', 'com', 'for', 'from', 'how', 'that', 'the', 'this', 'was', 'what', 'when', 'where', 'who', 'will', 'with', 'und', 'www']);
+// Text pulled out of a file at upload time waits here until the book using it is saved
+const UPLOAD_TEXT_TTL_MS = 60 * 60 * 1000;
+const uploadedFileText = new Map();
+// Extraction is CPU and memory heavy, so books are indexed one at a time
+let bookTextQueue = Promise.resolve();
+
+// Helper to read a book's file into memory from S3, /uploads or the database blob
+async function loadBookFileBuffer(bookId) {
+  const rows = await new Promise((resolve, reject) => {
+    db.query('SELECT id, book_type, file_path, file_type, file_content FROM books WHERE id = ?', [bookId], (err, results) => {
+      if (err) reject(err);
+      else resolve(results);
+    });
+  });
+  if (!Array.isArray(rows) || rows.length === 0) return null;
+
+  const book = rows[0];
+  const filePath = String(book.file_path || '');
+  if (filePath.startsWith('s3://') && fileStorage.s3Configured) {
+    return { book, buffer: await fileStorage.read(filePath) };
+  }
+  const diskPath = fileStorage.localPath(filePath);
+  if (diskPath && existsSync(diskPath)) {
+    return { book, buffer: readFileSync(diskPath) };
+  }
+  if (book.file_content) {
+    return { book, buffer: decodeStoredFile(book.file_content) };
+  }
+  return { book, buffer: null };
+}
+
+// Start extracting an uploaded file's text so it is ready when the book is saved
+function extractUploadedFileText(filePath, buffer, mimetype, originalName) {
+  if (!bookTextFormat(mimetype, originalName)) return;
+  const pages = new Promise((resolve) => {
+    bookTextQueue = bookTextQueue.then(async () => {
+      try {
+        resolve(await extractBookText(buffer, { fileType: mimetype, filePath: originalName }));
+      } catch (extractErr) {
+        console.error(`Failed to extract text from upload ${originalName}:`, extractErr);
+        resolve(null);
       }
-      if (currency !== undefined) {
-        updateFields.push('currency = ?');
-        updateValues.push(currency);
+    });
+  });
+  uploadedFileText.set(filePath, pages);
+  setTimeout(() => uploadedFileText.delete(filePath), UPLOAD_TEXT_TTL_MS).unref();
+}
+
+// Replace a book's searchable text, using text extracted at upload time when there is some
+async function indexBookText(bookId) {
+  const file = await loadBookFileBuffer(bookId);
+  if (!file) return 0;
+
+  const { book, buffer } = file;
+  let pages = null;
+  if (book.file_path && uploadedFileText.has(book.file_path)) {
+    pages = await uploadedFileText.get(book.file_path);
+    uploadedFileText.delete(book.file_path);
+  }
+  if (book.book_type !== 'file') {
+    pages = null;
+  } else if (!pages && buffer && bookTextFormat(book.file_type, book.file_path)) {
+    pages = await extractBookText(buffer, { fileType: book.file_type, filePath: book.file_path });
+  }
+
+  await new Promise((resolve, reject) => {
+    db.query('DELETE FROM book_text_pages WHERE book_id = ?', [book.id], (err) => err ? reject(err) : resolve());
+  });
+  const rows = (pages || []).map(page => [book.id, page.page, page.text]);
+  for (let i = 0; i < rows.length; i += BOOK_TEXT_INSERT_BATCH) {
+    await new Promise((resolve, reject) => {
+      db.query('INSERT INTO book_text_pages (book_id, page, content) VALUES ?', [rows.slice(i, i + BOOK_TEXT_INSERT_BATCH)], (err) => err ? reject(err) : resolve());
+    });
+  }
+  return rows.length;
+}
+
+// Queue a book for (re)indexing; failures are logged rather than surfaced to the admin form
+function queueBookTextIndex(bookId) {
+  const job = bookTextQueue.then(async () => {
+    try {
+      const count = await indexBookText(bookId);
+      console.log(`Indexed ${count} text page(s) for book ${bookId}`);
+    } catch (indexErr) {
+      console.error(`Failed to index text for book ${bookId}:`, indexErr);
+    }
+  });
+  bookTextQueue = job;
+  return job;
+}
+
+// Search the text of every indexed book. Returns the best-matching books, each with up to
+// three pages of highlighted snippets; `highlights` are [start, end) offsets into `snippet`.
+app.get('/api/search/book-text', (req, res) => {
+  const terms = searchTerms(req.query.q).filter(term => term.length >= 3 && !BOOK_TEXT_STOPWORDS.has(term));
+  if (terms.length === 0) {
+    return res.status(400).json({ error: 'Search for at least one word of three or more letters' });
+  }
+
+  const limit = req.query.limit === undefined ? 10 : Number(req.query.limit);
+  const offset = req.query.offset === undefined ? 0 : Number(req.query.offset);
+  if (!Number.isInteger(limit) || limit < 1 || limit > BOOK_TEXT_SEARCH_MAX_LIMIT) {
+    return res.status(400).json({ error: `limit must be between 1 and ${BOOK_TEXT_SEARCH_MAX_LIMIT}` });
+  }
+  if (!Number.isInteger(offset) || offset < 0) {
+    return res.status(400).json({ error: 'offset must be zero or more' });
+  }
+
+  // Every word must appear on the page; a trailing * also matches longer forms ("electr" finds "electron")
+  const booleanQuery = terms.map(term => `+${term}*`).join(' ');
+  const matchSql = 'MATCH(p.content) AGAINST(? IN BOOLEAN MODE)';
+
+  const booksSql = `
+    SELECT p.book_id, MAX(${matchSql}) as score
+    FROM book_text_pages p
+    JOIN books b ON b.id = p.book_id AND b.access_level = 'public'
+    WHERE ${matchSql}
+    GROUP BY p.book_id
+    ORDER BY score DESC, p.book_id ASC
+    LIMIT ? OFFSET ?
+  `;
+  const countSql = `
+    SELECT COUNT(DISTINCT p.book_id) as total
+    FROM book_text_pages p
+    JOIN books b ON b.id = p.book_id AND b.access_level = 'public'
+    WHERE ${matchSql}
+  `;
+
+  db.query(booksSql, [booleanQuery, booleanQuery, limit, offset], (err, bookRows) => {
+    if (err) {
+      console.error('Error searching book text:', err);
+      return res.status(500).json({ error: 'Search failed' });
+    }
+    db.query(countSql, [booleanQuery], (countErr, countRows) => {
+      if (countErr) {
+        console.error('Error counting book text matches:', countErr);
+        return res.status(500).json({ error: 'Search failed' });
       }
-      if (category_id !== undefined) {
-        updateFields.push('category_id = ?');
-        updateValues.push(category_id);
+      const total = Number(countRows[0].total);
+      const bookIds = bookRows.map(row => row.book_id);
+      if (bookIds.length === 0) {
+        return res.json({ results: [], total, limit, offset });
       }
-      if (isbn !== undefined) {
-        updateFields.push('isbn = ?');
-        updateValues.push(isbn);
+
+      const pagesSql = `
+        SELECT p.book_id, p.page, p.content, ${matchSql} as score
+        FROM book_text_pages p
+        WHERE p.book_id IN (?) AND ${matchSql}
+        ORDER BY score DESC, p.page ASC
+      `;
+      db.query(pagesSql, [booleanQuery, bookIds, booleanQuery], (pagesErr, pageRows) => {
+        if (pagesErr) {
+          console.error('Error loading book text matches:', pagesErr);
+          return res.status(500).json({ error: 'Search failed' });
+        }
+        db.query(
+          `SELECT ${BOOK_LIST_COLUMNS}, c.name as category_name FROM books b LEFT JOIN categories c ON b.category_id = c.id WHERE b.id IN (?)`,
+          [bookIds],
+          (bookErr, books) => {
+            if (bookErr) {
+              console.error('Error loading books for text search:', bookErr);
+              return res.status(500).json({ error: 'Search failed' });
+            }
+
+            const booksById = new Map(books.map(book => [book.id, book]));
+            const results = bookRows
+              .filter(row => booksById.has(row.book_id))
+              .map(row => ({
+                book: booksById.get(row.book_id),
+                matches: pageRows
+                  .filter(page => page.book_id === row.book_id)
+                  .slice(0, BOOK_TEXT_MATCHES_PER_BOOK)
+                  .map(page => ({ page: page.page, ...buildSnippet(page.content, terms) }))
+              }));
+            res.json({ results, total, limit, offset });
+          }
+        );
+      });
+    });
+  });
+});
+
+// Re-extract one book's text (e.g. after replacing its file outside the admin form)
+app.post('/api/admin/books/:id/text-index', requirePermission('books.write'), async (req, res) => {
+  try {
+    const count = await queueBookTextIndex(req.params.id).then(() => new Promise((resolve, reject) => {
+      db.query('SELECT COUNT(*) as pages FROM book_text_pages WHERE book_id = ?', [req.params.id], (err, rows) => {
+        if (err) reject(err);
+        else resolve(Number(rows[0].pages));
+      });
+    }));
+    res.json({ book_id: Number(req.params.id), pages: count });
+  } catch (error) {
+    console.error('Error indexing book text:', error);
+    res.status(500).json({ error: 'Failed to index book text' });
+  }
+});
+
+// Index every file book that has no searchable text yet; runs in the background
+app.post('/api/admin/books/text-index', requirePermission('books.write'), (req, res) => {
+  const sql = `
+    SELECT b.id FROM books b
+    WHERE b.book_type = 'file'
+      AND NOT EXISTS (SELECT 1 FROM book_text_pages p WHERE p.book_id = b.id)
+    ORDER BY b.id
+  `;
+  db.query(sql, (err, rows) => {
+    if (err) {
+      console.error('Error finding books to index:', err);
+      return res.status(500).json({ error: 'Database error' });
+    }
+    rows.forEach(row => queueBookTextIndex(row.id));
+    res.status(202).json({ queued: rows.length });
+  });
+});
+
+// =====================================================
+// BOOK METADATA FROM ISBN
+// =====================================================
+
+const metadataProviders = loadMetadataProviders();
+
+// Look up a book's details by ISBN for the admin form, which shows them as a diff to accept.
+// Body { isbn }; returns { isbn, metadata, sources, cover } where cover is { base64, type } or null.
+app.post('/api/admin/books/enrich', requirePermission('books.write'), async (req, res) => {
+  const isbn = normalizeIsbn(req.body && req.body.isbn);
+  if (!isbn) {
+    return res.status(400).json({ error: 'Enter a valid ISBN-10 or ISBN-13' });
+  }
+  if (metadataProviders.length === 0) {
+    return res.status(503).json({ error: 'No book metadata providers are configured' });
+  }
+
+  try {
+    const { metadata, sources, errors } = await lookupBookMetadata(metadataProviders, isbn);
+    if (Object.keys(sources).length === 0) {
+      return errors.length === metadataProviders.length
+        ? res.status(502).json({ error: 'Book metadata providers could not be reached' })
+        : res.status(404).json({ error: 'No details found for this ISBN' });
+    }
+
+    // Fetch the cover here so the browser does not need to reach the provider; anything
+    // other than JPEG, PNG or WebP is converted to PNG so it can be stored as a normal cover
+    let cover = null;
+    if (metadata.cover_url) {
+      try {
+        cover = await fetchCoverImage(metadata.cover_url);
+        if (cover && !['image/jpeg', 'image/png', 'image/webp'].includes(cover.type)) {
+          const png = await sharp(Buffer.from(cover.base64, 'base64')).png().toBuffer();
+          cover = { base64: png.toString('base64'), type: 'image/png' };
+        }
+      } catch (coverErr) {
+        console.error('Failed to fetch cover art for ISBN', isbn, coverErr);
+        cover = null;
       }
-      if (published_year !== undefined) {
-        updateFields.push('published_year = ?');
-        updateValues.push(published_year ? parseInt(published_year) : null);
+    }
+
+    res.json({ isbn, metadata, sources, cover });
+  } catch (error) {
+    console.error('Error enriching book from ISBN:', error);
+    res.status(500).json({ error: 'Failed to look up ISBN' });
+  }
+});
+
+// =====================================================
+// BULK BOOK IMPORT
+// =====================================================
+
+// Manifests and archives wait here, outside the public uploads folder, until their import ends
+const importsDir = join(tmpdir(), 'iykelib-imports');
+if (!existsSync(importsDir)) {
+  mkdirSync(importsDir, { recursive: true });
+}
+
+const MAX_IMPORT_MANIFEST_BYTES = 10 * 1024 * 1024;
+const IMPORT_ROW_INSERT_BATCH = 500;
+
+const importUpload = multer({
+  storage: multer.diskStorage({
+    destination: (req, file, cb) => {
+      cb(null, importsDir);
+    },
+    filename: (req, file, cb) => {
+      const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
+      cb(null, `${file.fieldname}-${uniqueSuffix}${extname(file.originalname).toLowerCase()}`);
+    }
+  }),
+  limits: {
+    fileSize: 1024 * 1024 * 1024, // 1GB limit for the archive
+    files: 2
+  },
+  fileFilter: (req, file, cb) => {
+    const ext = extname(file.originalname).toLowerCase();
+    if ((file.fieldname === 'manifest' && ['.csv', '.json'].includes(ext)) || (file.fieldname === 'archive' && ext === '.zip')) {
+      cb(null, true);
+    } else {
+      cb(new Error('Upload a .csv or .json manifest and, optionally, a .zip of book files'));
+    }
+  }
+});
+
+// Helper to delete an uploaded manifest or archive (only files inside importsDir)
+function removeImportFile(filePath) {
+  if (!filePath || !filePath.startsWith(importsDir)) return;
+  try {
+    if (existsSync(filePath)) unlinkSync(filePath);
+  } catch (err) {
+    console.error('Failed to remove import file:', err);
+  }
+}
+
+function parseImportJson(value) {
+  if (value === null || value === undefined) return null;
+  return typeof value === 'string' ? JSON.parse(value) : value;
+}
+
+function isWholeNumber(value) {
+  return /^\d+$/.test(value);
+}
+
+// Check every manifest row against the rules of POST /api/admin/books, plus what only an
+// import needs (category by slug or name, files inside the ZIP, duplicate ISBNs). Likely
+// duplicates of books already in the library are warnings, as they are for a single book.
+// Returns one { book, errors, warnings } per row; `book` holds the fields to insert.
+async function validateImportRows(rows, zip) {
+  const categories = await dbQuery('SELECT id, name, slug FROM categories');
+  const existingBooks = await dbQuery('SELECT id, title, author, isbn FROM books');
+  const seenIsbns = new Map();
+
+  const checked = rows.map((row, index) => {
+    const errors = [];
+    const warnings = [];
+
+    const bookType = (row.book_type || (row.file || row.file_path ? 'file' : row.purchase_link ? 'purchase' : row.external_link ? 'link' : 'file')).toLowerCase();
+    if (!BOOK_TYPES.includes(bookType)) {
+      errors.push(`book_type must be one of ${BOOK_TYPES.join(', ')}`);
+    }
+
+    let categoryId = null;
+    if (row.category) {
+      const wanted = row.category.toLowerCase();
+      const category = categories.find(c => c.slug.toLowerCase() === wanted || c.name.toLowerCase() === wanted);
+      if (category) categoryId = category.id;
+      else errors.push(`Category "${row.category}" not found`);
+    }
+
+    if (row.title.length > 255) errors.push('title must be 255 characters or fewer');
+    if (row.author.length > 255) errors.push('author must be 255 characters or fewer');
+    if (row.external_link.length > 500) errors.push('external_link must be 500 characters or fewer');
+    if (row.purchase_link.length > 500) errors.push('purchase_link must be 500 characters or fewer');
+    if (row.price && (!Number.isFinite(Number(row.price)) || Number(row.price) < 0)) errors.push('price must be a number of 0 or more');
+    if (row.currency && !/^[A-Z]{3}$/.test(row.currency.toUpperCase())) errors.push('currency must be a three-letter code such as USD');
+    if (row.published_year && !isWholeNumber(row.published_year)) errors.push('published_year must be a whole number');
+    if (row.page_count && !isWholeNumber(row.page_count)) errors.push('page_count must be a whole number');
+
+    let isbn = row.isbn || null;
+    if (isbn) {
+      const normalized = normalizeIsbn(isbn);
+      if (normalized) isbn = normalized;
+      else if (isbn.length > 20) errors.push('isbn must be 20 characters or fewer');
+      else warnings.push(`ISBN "${row.isbn}" does not look valid`);
+
+      if (seenIsbns.has(isbn)) warnings.push(`Same ISBN as row ${seenIsbns.get(isbn)}`);
+      else seenIsbns.set(isbn, index + 1);
+    }
+
+    findLikelyDuplicates({ title: row.title, author: row.author, isbn }, existingBooks)
+      .slice(0, 3)
+      .forEach(({ book: other, reasons }) => {
+        warnings.push(`Looks like book #${other.id} "${other.title}" already in the library (${describeDuplicateReasons(reasons)})`);
+      });
+
+    let filePath = row.file_path;
+    let fileType = null;
+    if (bookType === 'file' && row.file) {
+      const entry = findArchiveEntry(zip, row.file);
+      if (!zip) errors.push('file is set but no ZIP archive was uploaded');
+      else if (!entry) errors.push(`"${row.file}" is not in the ZIP archive`);
+      else if (!mimeTypeForFile(entry.name) || mimeTypeForFile(entry.name).startsWith('image/')) errors.push(`"${row.file}" is not a PDF, DOC, DOCX, TXT or EPUB file`);
+      else {
+        filePath = entry.name;
+        fileType = mimeTypeForFile(entry.name);
       }
-      if (page_count !== undefined) {
-        updateFields.push('page_count = ?');
-        updateValues.push(page_count ? parseInt(page_count) : null);
+    } else if (bookType === 'file' && row.file_path) {
+      if (!row.file_path.startsWith('/uploads/') && !row.file_path.startsWith('s3://')) {
+        errors.push('file_path must be an /uploads/ or s3:// path');
+      } else if (row.file_path.startsWith('/uploads/') && !existsSync(join(uploadsDir, row.file_path.slice('/uploads/'.length)))) {
+        errors.push(`"${row.file_path}" does not exist`);
+      } else if (row.file_path.length > 255) {
+        errors.push('file_path must be 255 characters or fewer');
       }
-      
-      if (updateFields.length === 0) {
-        return res.status(400).json({ error: 'No fields to update' });
+      fileType = mimeTypeForFile(row.file_path);
+    }
+
+    if (row.cover) {
+      const entry = findArchiveEntry(zip, row.cover);
+      if (!zip) errors.push('cover is set but no ZIP archive was uploaded');
+      else if (!entry) errors.push(`"${row.cover}" is not in the ZIP archive`);
+      else if (!(mimeTypeForFile(entry.name) || '').startsWith('image/')) errors.push(`"${row.cover}" is not a JPEG, PNG, GIF or WebP image`);
+    }
+
+    const book = {
+      title: row.title,
+      author: row.author,
+      description: row.description,
+      book_type: bookType,
+      category_id: categoryId,
+      isbn,
+      published_year: row.published_year,
+      page_count: row.page_count,
+      external_link: row.external_link,
+      purchase_link: row.purchase_link,
+      price: row.price,
+      currency: row.currency ? row.currency.toUpperCase() : '',
+      file_path: filePath,
+      file_type: fileType,
+      file: row.file,
+      cover: row.cover
+    };
+
+    // An unknown category is reported above, so pass its name on rather than repeat the error
+    const invalid = validateNewBook({ ...book, category_id: categoryId || row.category });
+    if (invalid) errors.push(invalid.body.message || invalid.body.error);
+
+    return { book: errors.length === 0 ? book : null, errors, warnings };
+  });
+
+  await warnAboutDuplicateImportFiles(checked, zip);
+  return checked;
+}
+
+// Warn about archive files whose bytes are already in the library or in an earlier row
+async function warnAboutDuplicateImportFiles(checked, zip) {
+  if (!zip) return;
+  const seenHashes = new Map();
+  for (const [index, { book, warnings }] of checked.entries()) {
+    if (!book || !book.file) continue;
+    const fileHash = sha256(await findArchiveEntry(zip, book.file).async('nodebuffer'));
+    const matches = await dbQuery(
+      'SELECT DISTINCT b.id, b.title FROM book_files f JOIN books b ON b.id = f.book_id WHERE f.file_hash = ? LIMIT 3',
+      [fileHash]
+    );
+    matches.forEach(other => warnings.push(`Looks like book #${other.id} "${other.title}" already in the library (same file)`));
+    if (seenHashes.has(fileHash)) warnings.push(`Same file as row ${seenHashes.get(fileHash)}`);
+    else seenHashes.set(fileHash, index + 1);
+  }
+}
+
+// Store a book file taken from the archive the same way /api/admin/upload-file does
+async function storeImportedFile(buffer, originalName, mimetype) {
+  const safeName = originalName.replace(/[^\w.-]+/g, '_').slice(-100);
+  const fileName = `file-${Date.now()}-${Math.round(Math.random() * 1E9)}-${safeName}`;
+  return fileStorage.write(`books/${fileName}`, buffer, { contentType: mimetype });
+}
+
+// Create one book from a validated row; returns the new book id
+async function importBookRow(book, zip) {
+  const fields = { ...book };
+  let storedFile = null;
+
+  if (fields.file) {
+    const entry = findArchiveEntry(zip, fields.file);
+    const buffer = await entry.async('nodebuffer');
+    fields.file_size = buffer.length;
+    const invalid = validateNewBook(fields);
+    if (invalid) throw new Error(invalid.body.message || invalid.body.error);
+    fields.file_path = await storeImportedFile(buffer, entry.name.split('/').pop(), fields.file_type);
+    fields.file_hash = sha256(buffer);
+    storedFile = fields.file_path;
+  }
+
+  let result;
+  try {
+    result = await dbQuery(INSERT_BOOK_SQL, insertBookValues(fields));
+  } catch (insertErr) {
+    if (storedFile) {
+      await fileStorage.remove(storedFile).catch(() => {});
+    }
+    throw insertErr;
+  }
+  const bookId = result.insertId;
+  await recordContributors('book', bookId, fields);
+  if (fields.book_type === 'file') {
+    await recordPrimaryBookFile(bookId, { ...fields, file_name: fields.file ? fields.file.split('/').pop() : null });
+  } else if (fields.book_type === 'purchase') {
+    await recordBookPrice(bookId);
+  }
+
+  if (fields.cover) {
+    const entry = findArchiveEntry(zip, fields.cover);
+    const coverBuffer = await entry.async('nodebuffer');
+    const coverType = mimeTypeForFile(entry.name);
+    const coverFilename = `cover_${Date.now()}_${bookId}.${coverType.split('/').pop()}`;
+    writeFileSync(join(uploadsDir, coverFilename), coverBuffer);
+    const thumbBuf = await sharp(coverBuffer)
+      .resize(300, 400, { fit: 'inside', withoutEnlargement: true, background: { r: 255, g: 255, b: 255, alpha: 1 } })
+      .png({ quality: 90 })
+      .toBuffer();
+    await dbQuery('UPDATE books SET cover_image_path = ? WHERE id = ?', [`/uploads/${coverFilename}`, bookId]);
+    await storeBookThumbnail(bookId, thumbBuf);
+  }
+
+  if (fields.book_type === 'file') {
+    queueBookTextIndex(bookId);
+  }
+  return bookId;
+}
+
+// Import every row that passed the dry run, one at a time, recording each row's result.
+// Rows are checked again first because categories or the archive may have changed since.
+async function runBookImport(importId) {
+  const [job] = await dbQuery('SELECT id, archive_path FROM book_imports WHERE id = ?', [importId]);
+  let imported = 0;
+  let failed = 0;
+  try {
+    const zip = job.archive_path ? await openArchive(job.archive_path) : null;
+    const rows = await dbQuery('SELECT id, line, data, status FROM book_import_rows WHERE import_id = ? ORDER BY line', [importId]);
+    const checked = await validateImportRows(rows.map(row => parseImportJson(row.data)), zip);
+
+    for (let i = 0; i < rows.length; i++) {
+      if (rows[i].status !== 'valid') continue;
+      const { book, errors, warnings } = checked[i];
+      let status = 'failed';
+      let bookId = null;
+      try {
+        if (!book) throw new Error(errors.join('; '));
+        bookId = await importBookRow(book, zip);
+        status = 'imported';
+        imported++;
+      } catch (rowErr) {
+        console.error(`Book import ${importId} row ${rows[i].line} failed:`, rowErr);
+        if (book) errors.push(rowErr.message);
+        failed++;
       }
-      
-      updateFields.push('updated_at = CURRENT_TIMESTAMP');
-      updateValues.push(bookId);
-      
-      const sql = `UPDATE books SET ${updateFields.join(', ')} WHERE id = ?`;
-      
-      db.query(sql, updateValues, (err) => {
-        if (err) {
-          console.error('Error updating book:', err);
-          return res.status(500).json({ error: 'Failed to update book' });
-        }
-        
-        // Fetch the updated book with category info
-        const fetchSql = `
-          SELECT 
-            b.*,
-            c.name as category_name
-          FROM books b
-          LEFT JOIN categories c ON b.category_id = c.id
-          WHERE b.id = ?
-        `;
-        
-        db.query(fetchSql, [bookId], (fetchErr, fetchResults) => {
-          if (fetchErr) {
-            console.error('Error fetching updated book:', fetchErr);
-            return res.status(500).json({ error: 'Book updated but failed to fetch details' });
-          }
-          
-          // If a cover image base64 was provided in the update request, store it and generate a thumbnail
-          try {
-            if (req.body && req.body.cover_image_base64) {
-              const coverBuffer = Buffer.from(req.body.cover_image_base64, 'base64');
-              const ext = req.body.cover_image_type ? req.body.cover_image_type.split('/').pop() : 'png';
-              const coverFilename = `cover_${Date.now()}.${ext}`;
-              const coverFullPath = join(uploadsDir, coverFilename);
-              writeFileSync(coverFullPath, coverBuffer);
-              const coverWebPath = `/uploads/${coverFilename}`;
+      await dbQuery(
+        'UPDATE book_import_rows SET status = ?, book_id = ?, messages = ? WHERE id = ?',
+        [status, bookId, JSON.stringify({ errors, warnings }), rows[i].id]
+      );
+      await dbQuery('UPDATE book_imports SET imported_rows = ?, failed_rows = ? WHERE id = ?', [imported, failed, importId]);
+    }
 
-              // Update cover_image_path on the record
-              db.query('UPDATE books SET cover_image_path = ? WHERE id = ?', [coverWebPath, bookId], (updateErr) => {
-                if (updateErr) console.error('Failed to update cover_image_path for book (PUT):', updateErr);
-              });
+    await dbQuery("UPDATE book_imports SET status = 'completed', finished_at = NOW() WHERE id = ?", [importId]);
+  } catch (error) {
+    console.error(`Book import ${importId} failed:`, error);
+    await dbQuery(
+      "UPDATE book_imports SET status = 'failed', error = ?, imported_rows = ?, failed_rows = ?, finished_at = NOW() WHERE id = ?",
+      [String(error.message || error).slice(0, 500), imported, failed, importId]
+    );
+  } finally {
+    removeImportFile(job.archive_path);
+  }
+}
 
-              // Generate and store thumbnail buffer asynchronously
-              (async () => {
-                try {
-                  const thumbBuf = await sharp(coverBuffer)
-                    .resize(300, 400, { fit: 'inside', withoutEnlargement: true, background: { r: 255, g: 255, b: 255, alpha: 1 } })
-                    .png({ quality: 90 })
-                    .toBuffer();
+// Imports that were running when the server stopped cannot resume
+db.query(
+  "UPDATE book_imports SET status = 'failed', error = 'The server restarted during the import', finished_at = NOW() WHERE status = 'running'",
+  (err) => {
+    if (err && err.code !== 'ER_NO_SUCH_TABLE') console.error('Failed to close interrupted book imports:', err);
+  }
+);
+
+function formatBookImportRow(row) {
+  const data = parseImportJson(row.data) || {};
+  const messages = parseImportJson(row.messages) || {};
+  return {
+    line: row.line,
+    title: data.title || '',
+    author: data.author || '',
+    book_type: data.book_type || null,
+    status: row.status,
+    errors: messages.errors || [],
+    warnings: messages.warnings || [],
+    book_id: row.book_id || null
+  };
+}
 
-                  db.query('UPDATE books SET thumbnail_content = ?, thumbnail_mime = ? WHERE id = ?', [thumbBuf, req.body.cover_image_type || 'image/png', bookId], (tErr) => {
-                    if (tErr) console.error('Failed to store thumbnail in DB for updated book (PUT):', tErr);
-                  });
-                } catch (thumbErr) {
-                  console.error('Failed to generate/store thumbnail from uploaded cover (PUT):', thumbErr);
-                }
-              })();
+// Helper to load an import with its rows for the wizard, or null
+async function loadBookImport(importId) {
+  const jobs = await dbQuery(
+    `SELECT id, manifest_name, archive_path IS NOT NULL AS has_archive, status, total_rows, valid_rows,
+            imported_rows, failed_rows, error, created_at, started_at, finished_at
+     FROM book_imports WHERE id = ?`,
+    [importId]
+  );
+  if (!Array.isArray(jobs) || jobs.length === 0) return null;
+  const rows = await dbQuery('SELECT line, data, status, messages, book_id FROM book_import_rows WHERE import_id = ? ORDER BY line', [importId]);
+  return { import: { ...jobs[0], has_archive: !!jobs[0].has_archive }, rows: rows.map(formatBookImportRow) };
+}
+
+// Dry run: upload a manifest (`manifest`, .csv or .json) and optionally a ZIP of files and
+// covers (`archive`). Every row is validated and the report is saved; nothing is imported
+// until POST /api/admin/book-imports/:id/start.
+app.post('/api/admin/book-imports', requirePermission('books.write'), (req, res) => {
+  importUpload.fields([{ name: 'manifest', maxCount: 1 }, { name: 'archive', maxCount: 1 }])(req, res, async (uploadErr) => {
+    if (uploadErr) {
+      const message = uploadErr.code === 'LIMIT_FILE_SIZE' ? 'Import files must be 1GB or smaller' : uploadErr.message;
+      return res.status(400).json({ error: message });
+    }
+
+    const manifestFile = req.files && req.files.manifest ? req.files.manifest[0] : null;
+    const archiveFile = req.files && req.files.archive ? req.files.archive[0] : null;
+    if (!manifestFile) {
+      removeImportFile(archiveFile && archiveFile.path);
+      return res.status(400).json({ error: 'Upload a CSV or JSON manifest' });
+    }
+
+    let rows;
+    let zip = null;
+    try {
+      if (manifestFile.size > MAX_IMPORT_MANIFEST_BYTES) {
+        throw new Error('The manifest must be 10MB or smaller');
+      }
+      rows = parseManifest(readFileSync(manifestFile.path), manifestFile.originalname);
+      if (archiveFile) zip = await openArchive(archiveFile.path);
+    } catch (parseErr) {
+      removeImportFile(archiveFile && archiveFile.path);
+      return res.status(400).json({ error: parseErr.message });
+    } finally {
+      removeImportFile(manifestFile.path);
+    }
+
+    try {
+      const results = await validateImportRows(rows, zip);
+      const validRows = results.filter(result => result.errors.length === 0).length;
+      const job = await dbQuery(
+        'INSERT INTO book_imports (created_by, manifest_name, archive_path, total_rows, valid_rows) VALUES (?, ?, ?, ?, ?)',
+        [req.userId, manifestFile.originalname.slice(0, 255), archiveFile ? archiveFile.path : null, rows.length, validRows]
+      );
 
-              // Reflect the new cover path in the response object
-              fetchResults[0].cover_image_path = coverWebPath;
-            }
-          } catch (coverStoreErr) {
-            console.error('Error storing cover image for book (PUT):', coverStoreErr);
-          }
+      const values = results.map((result, index) => [
+        job.insertId,
+        index + 1,
+        JSON.stringify(rows[index]),
+        result.errors.length === 0 ? 'valid' : 'invalid',
+        JSON.stringify({ errors: result.errors, warnings: result.warnings })
+      ]);
+      for (let i = 0; i < values.length; i += IMPORT_ROW_INSERT_BATCH) {
+        await dbQuery('INSERT INTO book_import_rows (import_id, line, data, status, messages) VALUES ?', [values.slice(i, i + IMPORT_ROW_INSERT_BATCH)]);
+      }
 
-          res.json(fetchResults[0]);
-        });
-      });
+      console.log(`Book import ${job.insertId} validated: ${validRows} of ${rows.length} row(s) ready, by ${req.userEmail}`);
+      res.status(201).json(await loadBookImport(job.insertId));
+    } catch (error) {
+      console.error('Error validating book import:', error);
+      removeImportFile(archiveFile && archiveFile.path);
+      res.status(500).json({ error: 'Failed to validate import' });
     }
   });
 });
 
-// Delete book (admin only)
-app.delete('/api/admin/books/:id', ensureAdmin, (req, res) => {
-  const bookId = req.params.id;
-  
-  if (!bookId) {
-    return res.status(400).json({ error: 'Book ID is required' });
-  }
-  
-  // Check if book exists
-  db.query('SELECT id FROM books WHERE id = ?', [bookId], (err, bookResults) => {
-    if (err) {
-      console.error('Error checking book existence:', err);
-      return res.status(500).json({ error: 'Database error' });
+// Start a validated import in the background; poll GET /api/admin/book-imports/:id for progress
+app.post('/api/admin/book-imports/:id/start', requirePermission('books.write'), async (req, res) => {
+  try {
+    const importId = req.params.id;
+    const jobs = await dbQuery('SELECT id, status, valid_rows FROM book_imports WHERE id = ?', [importId]);
+    if (!Array.isArray(jobs) || jobs.length === 0) {
+      return res.status(404).json({ error: 'Import not found' });
     }
-    
-    if (Array.isArray(bookResults) && bookResults.length === 0) {
-      return res.status(404).json({ error: 'Book not found' });
+    if (jobs[0].valid_rows === 0) {
+      return res.status(400).json({ error: 'Nothing to import: every row has errors' });
     }
-    
-    // Delete book
-    db.query('DELETE FROM books WHERE id = ?', [bookId], (err) => {
-      if (err) {
-        console.error('Error deleting book:', err);
-        return res.status(500).json({ error: 'Failed to delete book' });
-      }
-      
-      res.json({ message: 'Book deleted successfully' });
-    });
-  });
+
+    const started = await dbQuery(
+      "UPDATE book_imports SET status = 'running', started_at = NOW() WHERE id = ? AND status = 'validated'",
+      [importId]
+    );
+    if (started.affectedRows === 0) {
+      return res.status(409).json({ error: 'This import has already been started' });
+    }
+
+    runBookImport(importId).catch(error => console.error(`Book import ${importId} crashed:`, error));
+    console.log(`Book import ${importId} started by ${req.userEmail}`);
+    res.status(202).json(await loadBookImport(importId));
+  } catch (error) {
+    console.error('Error starting book import:', error);
+    res.status(500).json({ error: 'Failed to start import' });
+  }
 });
 
-// Download book file (supports local uploads and S3)
-app.get('/api/books/:id/download', async (req, res) => {
-  const bookId = req.params.id;
-  if (!bookId) return res.status(400).json({ error: 'Book ID is required' });
+// Recent imports, newest first
+app.get('/api/admin/book-imports', requirePermission('books.write'), async (req, res) => {
+  try {
+    const imports = await dbQuery(
+      `SELECT i.id, i.manifest_name, i.status, i.total_rows, i.valid_rows, i.imported_rows, i.failed_rows,
+              i.error, i.created_at, i.started_at, i.finished_at, u.email AS created_by_email
+       FROM book_imports i
+       LEFT JOIN users u ON u.id = i.created_by
+       ORDER BY i.created_at DESC, i.id DESC
+       LIMIT 20`
+    );
+    res.json(imports);
+  } catch (error) {
+    console.error('Error fetching book imports:', error);
+    res.status(500).json({ error: 'Failed to fetch imports' });
+  }
+});
 
-  // Log the download event
-  const userEmail = req.headers['x-user-email'];
-  if (userEmail) {
-    try {
-      const userId = await getUserIdByEmail(userEmail);
-      if (userId) {
-        db.query(
-          'INSERT INTO download_logs (user_id, content_id, content_type, ip_address) VALUES (?, ?, ?, ?)',
-          [userId, bookId, 'book', req.ip]
-        );
-      }
-    } catch (logError) {
-      console.error('Failed to log download:', logError);
+// An import with its per-row report
+app.get('/api/admin/book-imports/:id', requirePermission('books.write'), async (req, res) => {
+  try {
+    const result = await loadBookImport(req.params.id);
+    if (!result) {
+      return res.status(404).json({ error: 'Import not found' });
     }
+    res.json(result);
+  } catch (error) {
+    console.error('Error fetching book import:', error);
+    res.status(500).json({ error: 'Failed to fetch import' });
   }
+});
 
-  db.query('SELECT file_path, file_content, file_type, file_size, title FROM books WHERE id = ?', [bookId], async (err, results) => {
-    if (err) {
-      console.error('Error fetching book file:', err);
-      return res.status(500).json({ error: 'Database error' });
+// Discard an import's report (and its uploaded archive); books already imported are kept
+app.delete('/api/admin/book-imports/:id', requirePermission('books.write'), async (req, res) => {
+  try {
+    const jobs = await dbQuery('SELECT id, status, archive_path FROM book_imports WHERE id = ?', [req.params.id]);
+    if (!Array.isArray(jobs) || jobs.length === 0) {
+      return res.status(404).json({ error: 'Import not found' });
     }
-    if (!Array.isArray(results) || results.length === 0) {
-      return res.status(404).json({ error: 'Book not found' });
+    if (jobs[0].status === 'running') {
+      return res.status(409).json({ error: 'Wait for the import to finish before removing it' });
     }
 
-    const book = results[0];
+    await dbQuery('DELETE FROM book_imports WHERE id = ?', [req.params.id]);
+    removeImportFile(jobs[0].archive_path);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting book import:', error);
+    res.status(500).json({ error: 'Failed to delete import' });
+  }
+});
 
-    // If file stored in S3 (s3://bucket/key), return presigned URL
-    if (book.file_path && String(book.file_path).startsWith('s3://')) {
-      if (!s3Client) return res.status(500).json({ error: 'S3 not configured on server' });
-      try {
-        const [, bucketAndKey] = book.file_path.split('s3://');
-        const firstSlash = bucketAndKey.indexOf('/');
-        const bucket = bucketAndKey.substring(0, firstSlash);
-        const key = bucketAndKey.substring(firstSlash + 1);
-        const command = new GetObjectCommand({ Bucket: bucket, Key: key });
-        const url = await getSignedUrl(s3Client, command, { expiresIn: 3600 });
-        return res.json({ url });
-      } catch (s3err) {
-        console.error('S3 presign error:', s3err);
-        return res.status(500).json({ error: 'Failed to generate download URL' });
-      }
-    }
+// =====================================================
+// CATALOG EXPORT
+// =====================================================
+
+// Sort columns of the admin Books table
+const BOOK_EXPORT_SORTS = {
+  title: 'b.title',
+  author: 'b.author',
+  category: 'c.name',
+  type: 'b.book_type',
+  isbn: 'b.isbn',
+  published_year: 'b.published_year',
+  page_count: 'b.page_count'
+};
 
-    // If file stored on disk via local uploads
-    if (book.file_path && String(book.file_path).startsWith('/uploads/')) {
-      const diskPath = join(process.cwd(), book.file_path.replace(/^\//, ''));
-      if (!existsSync(diskPath)) return res.status(404).json({ error: 'File not found on disk' });
-      const filename = book.title ? `${book.title}${extname(diskPath) || ''}` : diskPath.split('/').pop();
-      return res.download(diskPath, filename, (downloadErr) => {
-        if (downloadErr) console.error('Download error:', downloadErr);
-      });
-    }
+// Stream a query's rows through an export serializer as a download. Each export gets its own
+// connection so a large or slow download never holds up the shared one.
+function streamCatalogExport(req, res, { sql, params, format, columns, name }) {
+  const exporter = createExportStream(format, columns, { baseUrl: APP_URL });
+  const connection = mysql.createConnection(dbConfig);
+  const date = new Date().toISOString().slice(0, 10);
 
-    // If file content stored in DB as base64
-    if (book.file_content) {
-      const buffer = Buffer.from(book.file_content, 'base64');
-      res.setHeader('Content-Type', book.file_type || 'application/octet-stream');
-      res.setHeader('Content-Disposition', `attachment; filename="${(book.file_path || book.title || 'download')}"`);
-      res.setHeader('Content-Length', book.file_size || buffer.length);
-      return res.send(buffer);
+  res.setHeader('Content-Type', exporter.contentType);
+  res.setHeader('Content-Disposition', `attachment; filename="iykelib-${name}-${date}.${exporter.extension}"`);
+  pipeline(connection.query(sql, params).stream({ highWaterMark: 100 }), exporter.stream, res, (err) => {
+    if (err) {
+      // Headers and part of the file may already be sent, so the download just ends early
+      console.error(`Error exporting ${name}:`, err);
+      connection.destroy();
+      return;
     }
-
-    return res.status(404).json({ error: 'File content not found' });
+    connection.end();
   });
+  logUserActivity(req.userId, 'CATALOG_EXPORTED', { type: name, format });
+}
+
+// Export books as csv, json, marc (MARC 21, ISO 2709) or marcxml. Takes the admin Books table
+// filters: q (title, author or ISBN), category (id or name), book_type, author, year_from,
+// year_to, sort (title | author | category | type | isbn | published_year | page_count), direction.
+app.get('/api/admin/export/books', requirePermission('books.write'), (req, res) => {
+  const format = req.query.format || 'csv';
+  if (!['csv', 'json', 'marc', 'marcxml'].includes(format)) {
+    return res.status(400).json({ error: 'format must be one of csv, json, marc, marcxml' });
+  }
+  const sortColumn = BOOK_EXPORT_SORTS[req.query.sort || 'title'];
+  if (!sortColumn) {
+    return res.status(400).json({ error: `sort must be one of ${Object.keys(BOOK_EXPORT_SORTS).join(', ')}` });
+  }
+  const direction = req.query.direction === 'desc' ? 'DESC' : 'ASC';
+
+  const filters = buildBookListFilters({ ...req.query, q: undefined }, { includeHidden: true });
+  if (filters.error) {
+    return res.status(400).json({ error: filters.error });
+  }
+  const where = [...filters.where];
+  const params = [...filters.params];
+  if (req.query.q) {
+    const pattern = likePattern(req.query.q);
+    where.push('(b.title LIKE ? OR b.author LIKE ? OR b.isbn LIKE ?)');
+    params.push(pattern, pattern, pattern);
+  }
+
+  const sql = `
+    SELECT ${BOOK_LIST_COLUMNS}, c.slug AS category, c.name AS category_name
+    FROM books b
+    LEFT JOIN categories c ON b.category_id = c.id
+    ${where.length > 0 ? `WHERE ${where.join(' AND ')}` : ''}
+    ORDER BY ${sortColumn} ${direction}, b.id ${direction}
+  `;
+  streamCatalogExport(req, res, { sql, params, format, columns: BOOK_EXPORT_COLUMNS, name: 'books' });
+});
+
+// Export tutorials as csv or json, with the admin Tutorials table filters: q (title or
+// description) and category (id)
+app.get('/api/admin/export/tutorials', requirePermission('tutorials.write'), (req, res) => {
+  const format = req.query.format || 'csv';
+  if (!['csv', 'json'].includes(format)) {
+    return res.status(400).json({ error: 'format must be one of csv, json' });
+  }
+
+  const where = [];
+  const params = [];
+  if (req.query.q) {
+    const pattern = likePattern(req.query.q);
+    where.push('(t.title LIKE ? OR t.description LIKE ?)');
+    params.push(pattern, pattern);
+  }
+  if (req.query.category) {
+    where.push('t.category_id = ?');
+    params.push(req.query.category);
+  }
+
+  const sql = `
+    SELECT t.id, t.title, c.slug AS category, c.name AS category_name, t.description, t.creator, t.difficulty,
+           t.content_type, t.content_url, t.embed_url, t.file_path, t.created_at, t.updated_at
+    FROM tutorials t
+    LEFT JOIN categories c ON t.category_id = c.id
+    ${where.length > 0 ? `WHERE ${where.join(' AND ')}` : ''}
+    ORDER BY t.title ASC, t.id ASC
+  `;
+  streamCatalogExport(req, res, { sql, params, format, columns: TUTORIAL_EXPORT_COLUMNS, name: 'tutorials' });
 });
 
 // Update book thumbnail (admin only)
-app.patch('/api/books/:id', ensureAdmin, async (req, res) => {
+app.patch('/api/books/:id', requirePermission('books.write'), async (req, res) => {
   const bookId = req.params.id;
   const { cover_image_path, cover_image_base64, cover_image_type } = req.body;
 
@@ -1128,7 +6311,7 @@ app.patch('/api/books/:id', ensureAdmin, async (req, res) => {
     return res.status(400).json({ error: 'Book ID is required' });
   }
 
-  // If a base64 cover image is provided, store it to uploads and also generate + store thumbnail blob in DB
+  // If a base64 cover image is provided, store it to uploads and also generate + store a thumbnail
   if (cover_image_base64) {
     try {
       const coverBuffer = Buffer.from(cover_image_base64, 'base64');
@@ -1150,9 +6333,7 @@ app.patch('/api/books/:id', ensureAdmin, async (req, res) => {
           .png({ quality: 90 })
           .toBuffer();
 
-        db.query('UPDATE books SET thumbnail_content = ?, thumbnail_mime = ? WHERE id = ?', [thumbBuf, cover_image_type || 'image/png', bookId], (tErr) => {
-          if (tErr) console.error('Failed to store thumbnail in DB (PATCH):', tErr);
-        });
+        storeBookThumbnail(bookId, thumbBuf).catch(tErr => console.error('Failed to store thumbnail (PATCH):', tErr));
       } catch (thumbErr) {
         console.error('Failed to generate/store thumbnail from uploaded cover (PATCH):', thumbErr);
       }
@@ -1221,157 +6402,27 @@ app.get('/api/scrape-cover', async (req, res) => {
     if (coverUrl) {
       res.json({ coverUrl });
     } else {
-      res.status(404).json({ error: 'Could not extract cover from this URL' });
-    }
-    
-  } catch (error) {
-    console.error('Error scraping cover:', error);
-    res.status(500).json({ error: 'Failed to scrape cover image' });
-  }
-});
-
-// Test endpoint for debugging
-app.get('/api/test-thumbnail', (req, res) => {
-  res.json({ 
-    message: 'Thumbnail endpoint is working',
-    uploadsDir: uploadsDir,
-    currentDir: process.cwd(),
-    exists: existsSync(uploadsDir)
-  });
-});
-
-// Generate thumbnail from various file types
-app.post('/api/generate-thumbnail', async (req, res) => {
-  const { filePath, type } = req.body;
-  
-  console.log('Thumbnail generation request:', { filePath, type });
-  
-  if (!filePath) {
-    return res.status(400).json({ error: 'File path is required' });
-  }
-  
-  try {
-    let thumbnailPath = null;
-    
-    if (type === 'pdf' || filePath.toLowerCase().endsWith('.pdf')) {
-      // Generate PDF thumbnail
-      const diskPath = filePath.startsWith('/uploads/') 
-        ? join(process.cwd(), filePath.replace(/^\//, ''))
-        : filePath;
-      
-      console.log('PDF processing:', { 
-        originalPath: filePath, 
-        diskPath, 
-        exists: existsSync(diskPath),
-        cwd: process.cwd()
-      });
-      
-      if (!existsSync(diskPath)) {
-        return res.status(404).json({ error: 'PDF file not found' });
-      }
-      
-      // Check file size
-      const stats = require('fs').statSync(diskPath);
-      const fileSizeMB = stats.size / (1024 * 1024);
-      
-      if (fileSizeMB > 50) {
-        return res.status(413).json({ error: 'PDF file too large for thumbnail generation' });
-      }
-      
-      // Generate thumbnail
-      const options = {
-        density: 150,
-        saveFilename: `thumb_${Date.now()}`,
-        savePath: tmpdir(),
-        format: 'png',
-        width: 300,
-        height: 400
-      };
-      
-      try {
-        const pageData = await safePdfToImage(diskPath, options, 30000);
-        
-        if (!pageData || !pageData.path) {
-          throw new Error('Failed to convert PDF page');
-        }
-        
-        // Process with Sharp
-        const thumbnailBuffer = await sharp(pageData.path)
-          .resize(300, 400, { fit: 'inside', withoutEnlargement: true, background: { r: 255, g: 255, b: 255, alpha: 1 } })
-          .png({ quality: 90 })
-          .toBuffer();
-        
-        // Save thumbnail to uploads directory
-        const thumbnailFilename = `thumbnail_${Date.now()}.png`;
-        const thumbnailFullPath = join(uploadsDir, thumbnailFilename);
-        require('fs').writeFileSync(thumbnailFullPath, thumbnailBuffer);
-        
-        // Return the web-accessible path
-        thumbnailPath = `/uploads/${thumbnailFilename}`;
-        
-        // Clean up temporary files
-        try {
-          if (existsSync(pageData.path)) {
-            unlinkSync(pageData.path);
-          }
-        } catch (cleanupError) {
-          console.warn('Warning: Failed to clean up temporary file:', cleanupError);
-        }
-        
-      } catch (pdfError) {
-        console.error('PDF conversion error:', pdfError);
-        throw new Error(`PDF conversion failed: ${pdfError.message}`);
-      }
-      
-    } else if (type && type.startsWith('image/')) {
-      // Generate thumbnail from image
-      const diskPath = filePath.startsWith('/uploads/') 
-        ? join(process.cwd(), filePath.replace(/^\//, ''))
-        : filePath;
-      
-      if (!existsSync(diskPath)) {
-        return res.status(404).json({ error: 'Image file not found' });
-      }
-      
-      try {
-        // Process with Sharp
-        const thumbnailBuffer = await sharp(diskPath)
-          .resize(300, 400, { fit: 'inside', withoutEnlargement: true, background: { r: 255, g: 255, b: 255, alpha: 1 } })
-          .png({ quality: 90 })
-          .toBuffer();
-        
-        // Save thumbnail
-        const thumbnailFilename = `thumbnail_${Date.now()}.png`;
-        const thumbnailFullPath = join(uploadsDir, thumbnailFilename);
-        require('fs').writeFileSync(thumbnailFullPath, thumbnailBuffer);
-        
-        // Return the web-accessible path
-        thumbnailPath = `/uploads/${thumbnailFilename}`;
-        
-      } catch (imageError) {
-        console.error('Image processing error:', imageError);
-        throw new Error(`Image processing failed: ${imageError.message}`);
-      }
-    }
-    
-    if (thumbnailPath) {
-      res.json({ thumbnailPath });
-    } else {
-      res.status(400).json({ error: 'Unsupported file type for thumbnail generation' });
-    }
-    
-  } catch (error) {
-    console.error('Error generating thumbnail:', error);
-    res.status(500).json({ 
-      error: 'Failed to generate thumbnail',
-      message: error.message,
-      details: process.env.NODE_ENV === 'development' ? error.stack : undefined
-    });
+      res.status(404).json({ error: 'Could not extract cover from this URL' });
+    }
+    
+  } catch (error) {
+    console.error('Error scraping cover:', error);
+    res.status(500).json({ error: 'Failed to scrape cover image' });
   }
 });
 
+// Test endpoint for debugging
+app.get('/api/test-thumbnail', (req, res) => {
+  res.json({ 
+    message: 'Thumbnail endpoint is working',
+    uploadsDir: uploadsDir,
+    currentDir: process.cwd(),
+    exists: existsSync(uploadsDir)
+  });
+});
+
 // Generate thumbnail from PDF first page or serve existing cover image
-app.get('/api/books/:id/thumbnail', async (req, res) => {
+app.get('/api/books/:id/thumbnail', requireContentAccess('book'), async (req, res) => {
   const bookId = req.params.id;
 
   if (!bookId) {
@@ -1381,8 +6432,8 @@ app.get('/api/books/:id/thumbnail', async (req, res) => {
   try {
     // Get book file information
     const bookResult = await new Promise((resolve, reject) => {
-      // Ensure we select thumbnail_content and thumbnail_mime so we can serve stored blobs
-      db.query('SELECT file_path, file_content, file_type, cover_image_path, title, thumbnail_content, thumbnail_mime FROM books WHERE id = ?', [bookId], (err, results) => {
+      // Ensure we select the thumbnail location (or legacy blob) and thumbnail_mime so we can serve stored thumbnails
+      db.query('SELECT file_path, file_content, file_type, cover_image_path, title, thumbnail_path, thumbnail_content, thumbnail_mime FROM books WHERE id = ?', [bookId], (err, results) => {
         if (err) reject(err);
         else resolve(results);
       });
@@ -1407,10 +6458,12 @@ app.get('/api/books/:id/thumbnail', async (req, res) => {
       }
     }
 
-    // If thumbnail blob exists in DB, serve it with caching headers
-    if (book.thumbnail_content) {
+    // If a stored thumbnail exists (file storage, or a blob in the DB before migration), serve it with caching headers
+    if (book.thumbnail_path || book.thumbnail_content) {
       try {
-        const buffer = Buffer.from(book.thumbnail_content, 'binary');
+        const buffer = book.thumbnail_path
+          ? await fileStorage.read(book.thumbnail_path)
+          : Buffer.from(book.thumbnail_content, 'binary');
         const mime = book.thumbnail_mime || 'image/png';
         res.setHeader('Content-Type', mime);
         // Cache for 1 day and set ETag for conditional requests
@@ -1426,7 +6479,7 @@ app.get('/api/books/:id/thumbnail', async (req, res) => {
         res.setHeader('Content-Length', buffer.length);
         return res.send(buffer);
       } catch (serveErr) {
-        console.error('Error serving thumbnail blob from DB:', serveErr);
+        console.error('Error serving stored thumbnail:', serveErr);
         // fall through to other generation strategies
       }
     }
@@ -1634,8 +6687,13 @@ app.get('/api/categories', (req, res) => {
 });
 
 // Public: Get all tutorials (no auth required)
-app.get('/api/tutorials', (req, res) => {
-  const userEmail = req.headers['x-user-email'];
+app.get('/api/tutorials', async (req, res) => {
+  let sessionUser = null;
+  try {
+    sessionUser = await getSessionUser(req);
+  } catch (sessionErr) {
+    console.error('Failed to resolve session for tutorials list:', sessionErr);
+  }
   const sql = `
     SELECT
       t.*,
@@ -1664,20 +6722,26 @@ app.get('/api/tutorials', (req, res) => {
         WHERE content_type = 'tutorial' AND vote = -1
         GROUP BY content_id
     ) r_down ON t.id = r_down.content_id
-    LEFT JOIN ratings ur ON ur.content_id = t.id AND ur.content_type = 'tutorial' AND ur.user_id = (SELECT id FROM users WHERE email = ?)
+    LEFT JOIN ratings ur ON ur.content_id = t.id AND ur.content_type = 'tutorial' AND ur.user_id = ?
+    WHERE t.link_hidden_at IS NULL
     ORDER BY t.created_at DESC
   `;
-  db.query(sql, [userEmail], (err, results) => {
+  db.query(sql, [sessionUser ? sessionUser.id : null], async (err, results) => {
     if (err) {
       console.error('Error fetching tutorials (public):', err);
       return res.status(500).json({ error: 'Failed to fetch tutorials' });
     }
-    res.json(results);
+    try {
+      res.json(await hideLockedContentLinks(req, 'tutorial', results));
+    } catch (accessErr) {
+      console.error('Error checking tutorial access:', accessErr);
+      res.status(500).json({ error: 'Failed to fetch tutorials' });
+    }
   });
 });
 
 // Get all tutorials (admin only)
-app.get('/api/admin/tutorials', ensureAdmin, (req, res) => {
+app.get('/api/admin/tutorials', requirePermission('tutorials.write'), (req, res) => {
   const sql = `
     SELECT
       t.*,
@@ -1712,12 +6776,18 @@ app.get('/api/admin/tutorials', ensureAdmin, (req, res) => {
       console.error('Error fetching tutorials:', err);
       return res.status(500).json({ error: 'Failed to fetch tutorials' });
     }
-    res.json(results);
+    withLinkHealth(results, tutorialLinkUrls)
+      .then(tutorials => withContributors('tutorial', tutorials))
+      .then(tutorials => res.json(tutorials))
+      .catch(linkErr => {
+        console.error('Error adding link health to tutorials:', linkErr);
+        res.json(results);
+      });
   });
 });
 
 // Create category (admin only)
-app.post('/api/admin/categories', ensureAdmin, (req, res) => {
+app.post('/api/admin/categories', requirePermission('categories.write'), (req, res) => {
   const { name, description, slug } = req.body;
   
   if (!name) {
@@ -1761,7 +6831,7 @@ app.post('/api/admin/categories', ensureAdmin, (req, res) => {
 });
 
 // Update category (admin only)
-app.put('/api/admin/categories/:id', ensureAdmin, (req, res) => {
+app.put('/api/admin/categories/:id', requirePermission('categories.write'), (req, res) => {
   const categoryId = req.params.id;
   const { name, description, slug } = req.body;
   
@@ -1818,7 +6888,7 @@ app.put('/api/admin/categories/:id', ensureAdmin, (req, res) => {
 });
 
 // Delete category (admin only)
-app.delete('/api/admin/categories/:id', ensureAdmin, (req, res) => {
+app.delete('/api/admin/categories/:id', requirePermission('categories.write'), (req, res) => {
   const categoryId = req.params.id;
   
   // Check if category exists
@@ -1862,34 +6932,15 @@ app.delete('/api/admin/categories/:id', ensureAdmin, (req, res) => {
 // TUTORIALS MANAGEMENT ENDPOINTS
 // =============================================
 
-// Get all tutorials with category information
-app.get('/api/tutorials', (req, res) => {
-  const sql = `
-    SELECT 
-      t.*,
-      c.name as category_name
-    FROM tutorials t
-    LEFT JOIN categories c ON t.category_id = c.id
-    ORDER BY t.created_at DESC
-  `;
-  
-  db.query(sql, (err, results) => {
-    if (err) {
-      console.error('Error fetching tutorials:', err);
-      return res.status(500).json({ error: 'Failed to fetch tutorials' });
-    }
-    res.json(results);
-  });
-});
-
 // Get tutorial by ID
-app.get('/api/tutorials/:id', async (req, res) => {
+app.get('/api/tutorials/:id', requireContentAccess('tutorial'), async (req, res) => {
   const tutorialId = req.params.id;
-  const userEmail = req.headers['x-user-email'];
+  let userId = null;
 
   // Log the view event
   try {
-    const userId = userEmail ? await getUserIdByEmail(userEmail) : null;
+    const sessionUser = await getSessionUser(req);
+    userId = sessionUser ? sessionUser.id : null;
     db.query(
       'INSERT INTO view_logs (user_id, content_id, content_type, ip_address) VALUES (?, ?, ?, ?)',
       [userId, tutorialId, 'tutorial', req.ip]
@@ -1905,9 +6956,11 @@ app.get('/api/tutorials/:id', async (req, res) => {
       COALESCE(vl.view_count, 0) as view_count,
       COALESCE(r_up.up_votes, 0) as up_votes,
       COALESCE(r_down.down_votes, 0) as down_votes,
-      ur.vote as user_vote
+      ur.vote as user_vote,
+      ar.name as access_role
     FROM tutorials t
     LEFT JOIN categories c ON t.category_id = c.id
+    LEFT JOIN roles ar ON t.access_role_id = ar.id
     LEFT JOIN (
         SELECT content_id, COUNT(*) as view_count
         FROM view_logs
@@ -1926,11 +6979,11 @@ app.get('/api/tutorials/:id', async (req, res) => {
         WHERE content_type = 'tutorial' AND vote = -1
         GROUP BY content_id
     ) r_down ON t.id = r_down.content_id
-    LEFT JOIN ratings ur ON ur.content_id = t.id AND ur.content_type = 'tutorial' AND ur.user_id = (SELECT id FROM users WHERE email = ?)
+    LEFT JOIN ratings ur ON ur.content_id = t.id AND ur.content_type = 'tutorial' AND ur.user_id = ?
     WHERE t.id = ?
   `;
   
-  db.query(sql, [userEmail, tutorialId], (err, results) => {
+  db.query(sql, [userId, tutorialId], (err, results) => {
     if (err) {
       console.error('Error fetching tutorial:', err);
       return res.status(500).json({ error: 'Failed to fetch tutorial' });
@@ -1940,29 +6993,32 @@ app.get('/api/tutorials/:id', async (req, res) => {
       return res.status(404).json({ error: 'Tutorial not found' });
     }
     
-    res.json(results[0]);
+    withContributors('tutorial', [results[0]])
+      .then(([credited]) => res.json(credited))
+      .catch(creditErr => {
+        console.error('Error adding contributors to tutorial:', creditErr);
+        res.json(results[0]);
+      });
   });
 });
 
 // Record a view for a tutorial (called by client after playback threshold)
 app.post('/api/tutorials/:id/views', async (req, res) => {
   const tutorialId = req.params.id;
-  const userEmail = req.header('x-user-email') || null;
 
   if (!tutorialId) {
     return res.status(400).json({ error: 'Tutorial ID is required' });
   }
 
   try {
-    // Optional: resolve user id from email
+    // Optional: resolve user id from the session
     let userId = null;
-    if (userEmail) {
-      try {
-        userId = await getUserIdByEmail(userEmail);
-      } catch (err) {
-        console.warn('Failed to resolve user id for view log:', err);
-        userId = null;
-      }
+    try {
+      const sessionUser = await getSessionUser(req);
+      userId = sessionUser ? sessionUser.id : null;
+    } catch (err) {
+      console.warn('Failed to resolve user id for view log:', err);
+      userId = null;
     }
 
     // Insert into view_logs
@@ -1997,7 +7053,7 @@ app.post('/api/tutorials/:id/views', async (req, res) => {
 });
 
 // Create new tutorial (admin only)
-app.post('/api/admin/tutorials', ensureAdmin, (req, res) => {
+app.post('/api/admin/tutorials', requirePermission('tutorials.write'), checkContributors('tutorial'), checkContentAccess, (req, res) => {
   const { 
     title, 
     description, 
@@ -2007,7 +7063,10 @@ app.post('/api/admin/tutorials', ensureAdmin, (req, res) => {
     content_type,
     content_url,
     embed_url,
-    file_path
+    file_path,
+    license,
+    access_level,
+    access_role_id
   } = req.body;
   
   if (!title || !category_id) {
@@ -2028,8 +7087,9 @@ app.post('/api/admin/tutorials', ensureAdmin, (req, res) => {
     // Insert tutorial
     const sql = `
       INSERT INTO tutorials (
-        title, description, category_id, creator, difficulty, content_type, content_url, embed_url, file_path
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        title, description, category_id, creator, difficulty, content_type, content_url, embed_url, file_path,
+        license, access_level, access_role_id
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `;
     
     const values = [
@@ -2041,7 +7101,10 @@ app.post('/api/admin/tutorials', ensureAdmin, (req, res) => {
       content_type || 'Video',
       content_url || null,
       embed_url || null,
-      file_path || null
+      file_path || null,
+      license || null,
+      access_level || 'public',
+      access_level === 'restricted' && access_role_id ? access_role_id : null
     ];
     
     db.query(sql, values, (err, result) => {
@@ -2066,14 +7129,16 @@ app.post('/api/admin/tutorials', ensureAdmin, (req, res) => {
           return res.status(500).json({ error: 'Tutorial created but failed to fetch details' });
         }
         
-        res.status(201).json(fetchResults[0]);
+        recordContributors('tutorial', result.insertId, req.body)
+          .catch(creditErr => console.error('Failed to record contributors:', creditErr))
+          .then(() => res.status(201).json(fetchResults[0]));
       });
     });
   });
 });
 
 // Update tutorial (admin only)
-app.put('/api/admin/tutorials/:id', ensureAdmin, (req, res) => {
+app.put('/api/admin/tutorials/:id', requirePermission('tutorials.write'), checkContributors('tutorial'), checkContentAccess, (req, res) => {
   const tutorialId = req.params.id;
   const { 
     title, 
@@ -2084,7 +7149,10 @@ app.put('/api/admin/tutorials/:id', ensureAdmin, (req, res) => {
     content_type,
     content_url,
     embed_url,
-    file_path
+    file_path,
+    license,
+    access_level,
+    access_role_id
   } = req.body;
   
   if (!tutorialId) {
@@ -2160,6 +7228,18 @@ app.put('/api/admin/tutorials/:id', ensureAdmin, (req, res) => {
         updateFields.push('file_path = ?');
         updateValues.push(file_path);
       }
+      if (license !== undefined) {
+        updateFields.push('license = ?');
+        updateValues.push(license);
+      }
+      if (access_level !== undefined) {
+        updateFields.push('access_level = ?');
+        updateValues.push(access_level);
+      }
+      if (access_role_id !== undefined) {
+        updateFields.push('access_role_id = ?');
+        updateValues.push(access_role_id);
+      }
       
       if (updateFields.length === 0) {
         return res.status(400).json({ error: 'No fields to update' });
@@ -2192,7 +7272,13 @@ app.put('/api/admin/tutorials/:id', ensureAdmin, (req, res) => {
             return res.status(500).json({ error: 'Tutorial updated but failed to fetch details' });
           }
           
-          res.json(fetchResults[0]);
+          // A fixed link makes a tutorial hidden for a broken one visible again
+          if (content_url !== undefined || embed_url !== undefined) {
+            applyLinkVisibility().catch(linkErr => console.error('Failed to update link visibility:', linkErr));
+          }
+          recordContributors('tutorial', Number(tutorialId), req.body)
+            .catch(creditErr => console.error('Failed to record contributors:', creditErr))
+            .then(() => res.json(fetchResults[0]));
         });
       });
     }
@@ -2200,7 +7286,7 @@ app.put('/api/admin/tutorials/:id', ensureAdmin, (req, res) => {
 });
 
 // Delete tutorial (admin only)
-app.delete('/api/admin/tutorials/:id', ensureAdmin, (req, res) => {
+app.delete('/api/admin/tutorials/:id', requirePermission('tutorials.write'), (req, res) => {
   const tutorialId = req.params.id;
   
   if (!tutorialId) {
@@ -2225,62 +7311,99 @@ app.delete('/api/admin/tutorials/:id', ensureAdmin, (req, res) => {
         return res.status(500).json({ error: 'Failed to delete tutorial' });
       }
       
+      forgetContributors('tutorial', Number(tutorialId)).catch(creditErr => console.error('Failed to remove contributors:', creditErr));
       res.json({ message: 'Tutorial deleted successfully' });
     });
   });
 });
 
-// Helper: check if an email belongs to an admin user
-async function isEmailAdmin(email) {
-  return new Promise((resolve, reject) => {
+// Permission catalog. Mirrors the `permissions` table; the 'admin' role always holds every entry.
+const PERMISSIONS = [
+  'admin.access',
+  'books.write',
+  'tutorials.write',
+  'categories.write',
+  'comments.moderate',
+  'analytics.read',
+  'users.manage',
+  'settings.manage'
+];
+
+// Helper: resolve a user's role names, primary role and permissions.
+// When one of the user's roles requires two-factor authentication and the user has not
+// enrolled yet, no permissions are granted until they do.
+async function getUserAccess(userId) {
+  const rows = await new Promise((resolve, reject) => {
     const sql = `
-      SELECT 1
-      FROM users u
-      JOIN user_roles ur ON ur.user_id = u.id
+      SELECT r.name AS role, r.require_two_factor, u.totp_enabled_at, p.name AS permission
+      FROM user_roles ur
+      JOIN users u ON u.id = ur.user_id
       JOIN roles r ON r.id = ur.role_id
-      WHERE u.email = ? AND r.name = 'admin'
-      LIMIT 1
+      LEFT JOIN role_permissions rp ON rp.role_id = r.id
+      LEFT JOIN permissions p ON p.id = rp.permission_id
+      WHERE ur.user_id = ?
     `;
-    db.query(sql, [email], (err, rows) => {
-      if (err) return reject(err);
-      resolve(Array.isArray(rows) && rows.length > 0);
-    });
+    db.query(sql, [userId], (err, results) => (err ? reject(err) : resolve(Array.isArray(results) ? results : [])));
   });
+
+  const roles = [...new Set(rows.map(r => r.role))];
+  const role = roles.includes('admin') ? 'admin' : (roles.includes('moderator') ? 'moderator' : 'user');
+  const twoFactorRequired = rows.some(r => Boolean(r.require_two_factor));
+  const twoFactorSetupRequired = twoFactorRequired && !rows.some(r => r.totp_enabled_at);
+  let permissions = roles.includes('admin')
+    ? [...PERMISSIONS]
+    : [...new Set(rows.map(r => r.permission).filter(Boolean))];
+  if (twoFactorSetupRequired) permissions = [];
+  return {
+    role,
+    roles,
+    permissions,
+    two_factor_required: twoFactorRequired,
+    two_factor_setup_required: twoFactorSetupRequired
+  };
 }
 
-// Middleware: ensure the request comes from an admin
-async function ensureAdmin(req, res, next) {
-  try {
-    const emailHeader = req.header('x-user-email');
-    const email = typeof emailHeader === 'string' ? emailHeader.trim() : '';
-    if (!email) {
-      return res.status(401).json({ error: 'Missing x-user-email header' });
-    }
-    const isAdmin = await isEmailAdmin(email);
-    if (!isAdmin) {
-      return res.status(403).json({ error: 'Admin privileges required' });
+// Middleware factory: ensure the request comes from a user holding every listed permission
+function requirePermission(...required) {
+  return async (req, res, next) => {
+    try {
+      const sessionUser = await getSessionUser(req);
+      if (!sessionUser) {
+        return res.status(401).json({ error: 'Authentication required. Please log in.' });
+      }
+      const { permissions, two_factor_setup_required } = await getUserAccess(sessionUser.id);
+      const missing = required.filter(name => !permissions.includes(name));
+      if (missing.length > 0 && two_factor_setup_required) {
+        return res.status(403).json({
+          error: 'Set up two-factor authentication on your profile to use this feature',
+          code: 'TWO_FACTOR_SETUP_REQUIRED'
+        });
+      }
+      if (missing.length > 0) {
+        return res.status(403).json({ error: `Permission required: ${missing.join(', ')}` });
+      }
+      // Attach to req for downstream usage
+      req.userId = sessionUser.id;
+      req.userEmail = sessionUser.email;
+      req.userPermissions = permissions;
+      next();
+    } catch (err) {
+      console.error('requirePermission error:', err);
+      return res.status(500).json({ error: 'Failed to verify permissions' });
     }
-    // Attach to req for downstream usage
-    req.userEmail = email;
-    next();
-  } catch (err) {
-    console.error('ensureAdmin error:', err);
-    return res.status(500).json({ error: 'Failed to verify admin role' });
-  }
+  };
 }
 
 // Middleware: ensure the request comes from an authenticated user
 async function ensureAuthenticated(req, res, next) {
-  const userEmail = req.headers['x-user-email'];
-  if (!userEmail) {
-    return res.status(401).json({ error: 'Authentication required. Please log in.' });
-  }
   try {
-    const userId = await getUserIdByEmail(userEmail);
-    if (!userId) {
-      return res.status(401).json({ error: 'Invalid user. Please log in again.' });
+    const sessionUser = await getSessionUser(req);
+    if (!sessionUser) {
+      return res.status(401).json({ error: 'Authentication required. Please log in.' });
     }
-    req.userId = userId; // Attach user ID to the request
+    // Attach user to the request
+    req.userId = sessionUser.id;
+    req.userEmail = sessionUser.email;
     next();
   } catch (err) {
     console.error('ensureAuthenticated error:', err);
@@ -2315,18 +7438,112 @@ async function ensureRole(roleName) {
   });
 }
 
+// Replace a user's roles with a single role. When the role actually changes, the
+// user's open sessions are revoked so the new role applies from their next sign in.
+// Resolves with the number of sessions revoked.
+async function replaceUserRole(userId, roleName) {
+  const { roles } = await getUserAccess(userId);
+  if (roles.length === 1 && roles[0] === roleName) return 0;
+
+  const roleId = await ensureRole(roleName);
+  await new Promise((resolve, reject) => {
+    db.query('DELETE FROM user_roles WHERE user_id = ?', [userId], (err) => (err ? reject(err) : resolve()));
+  });
+  await new Promise((resolve, reject) => {
+    db.query('INSERT INTO user_roles (user_id, role_id) VALUES (?, ?)', [userId, roleId], (err) => (err ? reject(err) : resolve()));
+  });
+  return revokeUserSessions(userId);
+}
+
 // Helper to hash password using bcryptjs
 function hashPassword(plain) {
   const rounds = process.env.BCRYPT_SALT_ROUNDS ? Number(process.env.BCRYPT_SALT_ROUNDS) : 12;
   return bcrypt.hashSync(plain, rounds);
 }
 
+// =============================================
+// ADMIN BOOTSTRAP
+// =============================================
+
+// `/api/admin/setup` creates an admin account. It is open only while no admin exists
+// (first-run bootstrap); afterwards it requires ADMIN_SETUP_TOKEN from the environment,
+// and is closed entirely when no token is configured.
+const ADMIN_SETUP_TOKEN = process.env.ADMIN_SETUP_TOKEN || '';
+// Guards against two bootstrap requests racing to create the first admin
+let adminSetupInProgress = false;
+
+// Helper to count users holding the admin role
+function countAdmins() {
+  return new Promise((resolve, reject) => {
+    db.query(
+      `SELECT COUNT(DISTINCT ur.user_id) AS total
+       FROM user_roles ur
+       JOIN roles r ON r.id = ur.role_id
+       WHERE r.name = 'admin'`,
+      (err, rows) => (err ? reject(err) : resolve(Number(rows[0].total) || 0))
+    );
+  });
+}
+
+// Helper to compare a supplied setup token with ADMIN_SETUP_TOKEN in constant time
+function isValidSetupToken(token) {
+  if (!ADMIN_SETUP_TOKEN || !token) return false;
+  return timingSafeEqual(Buffer.from(hashToken(token)), Buffer.from(hashToken(ADMIN_SETUP_TOKEN)));
+}
+
+// Helper to turn down a setup request; every refusal is kept in the activity log next to ADMIN_SETUP
+function rejectAdminSetup(req, res, status, reason, body) {
+  console.warn(`Rejected admin setup request from ${req.ip || 'unknown'}: ${reason}`);
+  logUserActivity(null, 'ADMIN_SETUP_REJECTED', {
+    reason,
+    ip: req.ip || null,
+    user_agent: req.header('user-agent') || null
+  });
+  return res.status(status).json(body);
+}
+
+// Tell the setup page whether it is still needed
+app.get('/api/admin/setup', async (req, res) => {
+  try {
+    const admins = await countAdmins();
+    res.json({
+      configured: admins > 0,
+      setup_token_enabled: Boolean(ADMIN_SETUP_TOKEN)
+    });
+  } catch (error) {
+    console.error('Error checking admin setup state:', error);
+    res.status(500).json({ error: 'Failed to check admin setup state' });
+  }
+});
+
 // Admin setup endpoint: creates a user and assigns the admin role
 app.post('/api/admin/setup', async (req, res) => {
+  if (adminSetupInProgress) {
+    return rejectAdminSetup(req, res, 409, 'setup already in progress', { error: 'Admin setup is already in progress' });
+  }
+  adminSetupInProgress = true;
+
   try {
-    const { email, password, displayName } = req.body || {};
+    const { email, password, displayName, setup_token } = req.body || {};
+
+    // Only the first admin can be created without the setup token
+    const admins = await countAdmins();
+    const mode = admins === 0 ? 'bootstrap' : 'setup_token';
+    if (mode === 'setup_token' && !isValidSetupToken(setup_token)) {
+      return ADMIN_SETUP_TOKEN
+        ? rejectAdminSetup(req, res, 403, 'invalid setup token',
+          { error: 'A valid setup token is required to create another admin', code: 'SETUP_TOKEN_REQUIRED' })
+        : rejectAdminSetup(req, res, 403, 'setup already complete',
+          { error: 'Admin setup is already complete', code: 'SETUP_COMPLETE' });
+    }
+
     if (!email || !password || !displayName) {
-      return res.status(400).json({ error: 'email, password, and displayName are required' });
+      return rejectAdminSetup(req, res, 400, 'missing fields', { error: 'email, password, and displayName are required' });
+    }
+
+    if (String(password).length < MIN_PASSWORD_LENGTH) {
+      return rejectAdminSetup(req, res, 400, 'password too short',
+        { error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters long` });
     }
 
     // Check if user exists
@@ -2337,7 +7554,7 @@ app.post('/api/admin/setup', async (req, res) => {
       });
     });
     if (existing) {
-      return res.status(409).json({ error: 'User with this email already exists' });
+      return rejectAdminSetup(req, res, 409, 'email already registered', { error: 'User with this email already exists' });
     }
 
     // Derive username from displayName or email local part
@@ -2345,10 +7562,10 @@ app.post('/api/admin/setup', async (req, res) => {
     const username = usernameBase.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 50) || String(email).split('@')[0];
     const passwordHash = hashPassword(password);
 
-    // Insert user
+    // Insert user; the address was typed in by whoever controls the deployment, so it counts as verified
     const userId = await new Promise((resolve, reject) => {
       db.query(
-        'INSERT INTO users (username, email, password_hash, first_name, last_name) VALUES (?, ?, ?, ?, ?)',
+        'INSERT INTO users (username, email, password_hash, first_name, last_name, email_verified_at) VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)',
         [username, email, passwordHash, displayName, null],
         (err, result) => {
           if (err) return reject(err);
@@ -2367,43 +7584,21 @@ app.post('/api/admin/setup', async (req, res) => {
       );
     });
 
+    logUserActivity(userId, 'ADMIN_SETUP', {
+      mode,
+      ip: req.ip || null,
+      user_agent: req.header('user-agent') || null
+    });
+
     return res.status(201).json({ id: userId, email, username, role: 'admin' });
   } catch (error) {
     console.error('Admin setup error:', error);
     return res.status(500).json({ error: 'Failed to create admin user' });
+  } finally {
+    adminSetupInProgress = false;
   }
 });
 
-// Get a user's role(s) by email
-app.get('/api/users/role', (req, res) => {
-  const { email } = req.query;
-  if (!email || typeof email !== 'string') {
-    return res.status(400).json({ error: 'email query param is required' });
-  }
-
-  // Fetch role names for the user identified by email
-  const sql = `
-    SELECT r.name AS role
-    FROM users u
-    JOIN user_roles ur ON ur.user_id = u.id
-    JOIN roles r ON r.id = ur.role_id
-    WHERE u.email = ?
-  `;
-
-  db.query(sql, [email], (err, rows) => {
-    if (err) {
-      console.error('Error fetching user role:', err);
-      return res.status(500).json({ error: 'Failed to fetch user role' });
-    }
-    if (!Array.isArray(rows) || rows.length === 0) {
-      return res.json({ role: null, roles: [] });
-    }
-    const roles = rows.map(r => r.role);
-    const role = roles.includes('admin') ? 'admin' : (roles.includes('moderator') ? 'moderator' : 'user');
-    return res.json({ role, roles });
-  });
-});
-
 // Ratings Endpoint
 app.post('/api/ratings', ensureAuthenticated, async (req, res) => {
   const { userId } = req;
@@ -2470,7 +7665,7 @@ app.post('/api/ratings', ensureAuthenticated, async (req, res) => {
 // User Management Endpoints
 
 // Get all users (admin only)
-app.get('/api/admin/users', ensureAdmin, (req, res) => {
+app.get('/api/admin/users', requirePermission('users.manage'), (req, res) => {
   const sql = `
     SELECT 
       u.id,
@@ -2491,6 +7686,8 @@ app.get('/api/admin/users', ensureAdmin, (req, res) => {
       END as is_active,
       u.last_login,
       u.profile_image,
+      u.failed_login_count,
+      CASE WHEN u.locked_until > NOW() THEN u.locked_until ELSE NULL END as locked_until,
       COALESCE(dl.download_count, 0) as total_downloads,
       COALESCE(vl.view_count, 0) as total_views
     FROM users u
@@ -2520,7 +7717,7 @@ app.get('/api/admin/users', ensureAdmin, (req, res) => {
 });
 
 // Create new user (admin only)
-app.post('/api/admin/users', ensureAdmin, (req, res) => {
+app.post('/api/admin/users', requirePermission('users.manage'), (req, res) => {
   const { username, email, first_name, last_name, role, password } = req.body;
   
   if (!username || !email || !password || !role) {
@@ -2597,7 +7794,7 @@ app.post('/api/admin/users', ensureAdmin, (req, res) => {
 });
 
 // Update user (admin only)
-app.put('/api/admin/users/:id', ensureAdmin, (req, res) => {
+app.put('/api/admin/users/:id', requirePermission('users.manage'), (req, res) => {
   const userId = req.params.id;
   const { username, email, first_name, last_name, role } = req.body;
   
@@ -2655,29 +7852,8 @@ app.put('/api/admin/users/:id', ensureAdmin, (req, res) => {
         // Update role if provided
         if (role && ['user', 'moderator', 'admin'].includes(role)) {
           try {
-            const roleId = await ensureRole(role);
-            
-            // Remove existing roles
-            db.query('DELETE FROM user_roles WHERE user_id = ?', [userId], (err) => {
-              if (err) {
-                console.error('Error removing existing roles:', err);
-                return res.status(500).json({ error: 'User updated but role update failed' });
-              }
-              
-              // Assign new role
-              db.query(
-                'INSERT INTO user_roles (user_id, role_id) VALUES (?, ?)',
-                [userId, roleId],
-                (err) => {
-                  if (err) {
-                    console.error('Error assigning new role:', err);
-                    return res.status(500).json({ error: 'User updated but role assignment failed' });
-                  }
-                  
-                  res.json({ message: 'User updated successfully' });
-                }
-              );
-            });
+            const sessionsRevoked = await replaceUserRole(userId, role);
+            res.json({ message: 'User updated successfully', sessions_revoked: sessionsRevoked });
           } catch (error) {
             console.error('Error updating role:', error);
             return res.status(500).json({ error: 'User updated but role update failed' });
@@ -2691,7 +7867,7 @@ app.put('/api/admin/users/:id', ensureAdmin, (req, res) => {
 });
 
 // Delete user (admin only)
-app.delete('/api/admin/users/:id', ensureAdmin, (req, res) => {
+app.delete('/api/admin/users/:id', requirePermission('users.manage'), (req, res) => {
   const userId = req.params.id;
   
   if (!userId) {
@@ -2709,20 +7885,80 @@ app.delete('/api/admin/users/:id', ensureAdmin, (req, res) => {
       return res.status(404).json({ error: 'User not found' });
     }
     
-    // Delete user (cascade will handle related records)
-    db.query('DELETE FROM users WHERE id = ?', [userId], (err) => {
-      if (err) {
+    // Delete user (personal content cascades, logs are anonymised)
+    deleteUserAccount(userId)
+      .then((profileImage) => {
+        removeAvatarFile(profileImage);
+        res.json({ message: 'User deleted successfully' });
+      })
+      .catch((err) => {
         console.error('Error deleting user:', err);
-        return res.status(500).json({ error: 'Failed to delete user' });
+        res.status(500).json({ error: 'Failed to delete user' });
+      });
+  });
+});
+
+// Update user role (admin only)
+app.patch('/api/admin/users/:id/role', requirePermission('users.manage'), (req, res) => {
+  const userId = req.params.id;
+  const { role } = req.body;
+  
+  if (!['user', 'moderator', 'admin'].includes(role)) {
+    return res.status(400).json({ error: 'Invalid role. Must be user, moderator, or admin' });
+  }
+  
+  db.query('SELECT id FROM users WHERE id = ?', [userId], async (err, rows) => {
+    if (err) {
+      console.error('Error checking user existence:', err);
+      return res.status(500).json({ error: 'Database error' });
+    }
+    
+    if (Array.isArray(rows) && rows.length === 0) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    
+    try {
+      const sessionsRevoked = await replaceUserRole(userId, role);
+      res.json({ message: 'User role updated successfully', sessions_revoked: sessionsRevoked });
+    } catch (error) {
+      console.error('Error updating user role:', error);
+      res.status(500).json({ error: 'Failed to update user role' });
+    }
+  });
+});
+
+// Unlock an account locked by failed sign-in attempts (admin only)
+app.post('/api/admin/users/:id/unlock', requirePermission('users.manage'), (req, res) => {
+  const userId = req.params.id;
+  
+  db.query('SELECT id FROM users WHERE id = ?', [userId], (err, rows) => {
+    if (err) {
+      console.error('Error checking user existence:', err);
+      return res.status(500).json({ error: 'Database error' });
+    }
+    
+    if (Array.isArray(rows) && rows.length === 0) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    
+    db.query(
+      'UPDATE users SET failed_login_count = 0, locked_until = NULL WHERE id = ?',
+      [userId],
+      (err) => {
+        if (err) {
+          console.error('Error unlocking user:', err);
+          return res.status(500).json({ error: 'Failed to unlock user' });
+        }
+        
+        logUserActivity(userId, 'ACCOUNT_UNLOCKED', { by_user_id: req.userId });
+        res.json({ message: 'User unlocked successfully' });
       }
-      
-      res.json({ message: 'User deleted successfully' });
-    });
+    );
   });
 });
 
 // Update user status (admin only)
-app.patch('/api/admin/users/:id/status', ensureAdmin, (req, res) => {
+app.patch('/api/admin/users/:id/status', requirePermission('users.manage'), (req, res) => {
   const userId = req.params.id;
   const { is_active } = req.body;
   
@@ -2745,12 +7981,21 @@ app.patch('/api/admin/users/:id/status', ensureAdmin, (req, res) => {
     db.query(
       'UPDATE users SET is_active = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
       [is_active ? 1 : 0, userId],
-      (err) => {
+      async (err) => {
         if (err) {
           console.error('Error updating user status:', err);
           return res.status(500).json({ error: 'Failed to update user status' });
         }
         
+        // A deactivated account must not keep any open session
+        if (!is_active) {
+          try {
+            await revokeUserSessions(userId);
+          } catch (revokeErr) {
+            console.error('Error revoking sessions for deactivated user:', revokeErr);
+          }
+        }
+        
         res.json({ message: 'User status updated successfully' });
       }
     );
@@ -2758,7 +8003,7 @@ app.patch('/api/admin/users/:id/status', ensureAdmin, (req, res) => {
 });
 
 // Get user statistics (admin only)
-app.get('/api/admin/users/stats', ensureAdmin, (req, res) => {
+app.get('/api/admin/users/stats', requirePermission('users.manage'), (req, res) => {
   const sql = `
     SELECT 
       COUNT(*) as total_users,
@@ -2808,7 +8053,7 @@ app.get('/api/admin/users/stats', ensureAdmin, (req, res) => {
 });
 
 // Search users (admin only)
-app.get('/api/admin/users/search', ensureAdmin, (req, res) => {
+app.get('/api/admin/users/search', requirePermission('users.manage'), (req, res) => {
   const { q, role, status } = req.query;
   
   if (!q) {
@@ -2835,6 +8080,8 @@ app.get('/api/admin/users/search', ensureAdmin, (req, res) => {
       END as is_active,
       u.last_login,
       u.profile_image,
+      u.failed_login_count,
+      CASE WHEN u.locked_until > NOW() THEN u.locked_until ELSE NULL END as locked_until,
       COALESCE(dl.download_count, 0) as total_downloads,
       COALESCE(vl.view_count, 0) as total_views
     FROM users u
@@ -2882,14 +8129,167 @@ app.get('/api/admin/users/search', ensureAdmin, (req, res) => {
   });
 });
 
+// Roles & permissions endpoints
+
+// List roles with their permissions, plus the permission catalog
+app.get('/api/admin/roles', requirePermission('settings.manage'), (req, res) => {
+  const sql = `
+    SELECT r.id, r.name, r.require_two_factor, p.name AS permission, COUNT(DISTINCT ur.user_id) AS user_count
+    FROM roles r
+    LEFT JOIN role_permissions rp ON rp.role_id = r.id
+    LEFT JOIN permissions p ON p.id = rp.permission_id
+    LEFT JOIN user_roles ur ON ur.role_id = r.id
+    GROUP BY r.id, r.name, r.require_two_factor, p.name
+    ORDER BY r.name
+  `;
+  
+  db.query(sql, (err, rows) => {
+    if (err) {
+      console.error('Error fetching roles:', err);
+      return res.status(500).json({ error: 'Failed to fetch roles' });
+    }
+    
+    db.query('SELECT name, description FROM permissions ORDER BY name', (permErr, permissions) => {
+      if (permErr) {
+        console.error('Error fetching permissions:', permErr);
+        return res.status(500).json({ error: 'Failed to fetch permissions' });
+      }
+      
+      const roles = [];
+      const byId = new Map();
+      for (const row of rows) {
+        if (!byId.has(row.id)) {
+          const role = {
+            id: row.id,
+            name: row.name,
+            user_count: Number(row.user_count) || 0,
+            require_two_factor: Boolean(row.require_two_factor),
+            permissions: []
+          };
+          byId.set(row.id, role);
+          roles.push(role);
+        }
+        if (row.permission) byId.get(row.id).permissions.push(row.permission);
+      }
+      
+      // admin holds every permission regardless of role_permissions rows
+      for (const role of roles) {
+        if (role.name === 'admin') role.permissions = [...PERMISSIONS];
+      }
+      
+      res.json({ roles, permissions });
+    });
+  });
+});
+
+// Replace the permissions granted to a role
+app.put('/api/admin/roles/:id/permissions', requirePermission('settings.manage'), (req, res) => {
+  const roleId = req.params.id;
+  const { permissions } = req.body;
+  
+  if (!Array.isArray(permissions) || permissions.some(name => typeof name !== 'string')) {
+    return res.status(400).json({ error: 'permissions must be an array of permission names' });
+  }
+  
+  const unknown = permissions.filter(name => !PERMISSIONS.includes(name));
+  if (unknown.length > 0) {
+    return res.status(400).json({ error: `Unknown permissions: ${unknown.join(', ')}` });
+  }
+  
+  db.query('SELECT id, name FROM roles WHERE id = ?', [roleId], (err, rows) => {
+    if (err) {
+      console.error('Error checking role existence:', err);
+      return res.status(500).json({ error: 'Database error' });
+    }
+    
+    if (!Array.isArray(rows) || rows.length === 0) {
+      return res.status(404).json({ error: 'Role not found' });
+    }
+    
+    if (rows[0].name === 'admin') {
+      return res.status(400).json({ error: 'The admin role always has every permission' });
+    }
+    
+    db.query('DELETE FROM role_permissions WHERE role_id = ?', [roleId], (deleteErr) => {
+      if (deleteErr) {
+        console.error('Error clearing role permissions:', deleteErr);
+        return res.status(500).json({ error: 'Failed to update role permissions' });
+      }
+      
+      if (permissions.length === 0) {
+        return res.json({ message: 'Role permissions updated successfully', permissions: [] });
+      }
+      
+      const insertSql = `
+        INSERT INTO role_permissions (role_id, permission_id)
+        SELECT ?, id FROM permissions WHERE name IN (?)
+      `;
+      db.query(insertSql, [roleId, permissions], (insertErr) => {
+        if (insertErr) {
+          console.error('Error assigning role permissions:', insertErr);
+          return res.status(500).json({ error: 'Failed to update role permissions' });
+        }
+        
+        res.json({ message: 'Role permissions updated successfully', permissions });
+      });
+    });
+  });
+});
+
+// Require (or stop requiring) two-factor authentication for everyone holding a role
+app.put('/api/admin/roles/:id/two-factor', requirePermission('settings.manage'), (req, res) => {
+  const roleId = req.params.id;
+  const { required } = req.body;
+  
+  if (typeof required !== 'boolean') {
+    return res.status(400).json({ error: 'required must be true or false' });
+  }
+  
+  db.query('SELECT id, name FROM roles WHERE id = ?', [roleId], async (err, rows) => {
+    if (err) {
+      console.error('Error checking role existence:', err);
+      return res.status(500).json({ error: 'Database error' });
+    }
+    
+    if (!Array.isArray(rows) || rows.length === 0) {
+      return res.status(404).json({ error: 'Role not found' });
+    }
+    
+    try {
+      // Don't let an admin lock themselves out of the settings they are editing
+      if (required) {
+        const { roles } = await getUserAccess(req.userId);
+        const self = await new Promise((resolve, reject) => {
+          db.query('SELECT totp_enabled_at FROM users WHERE id = ?', [req.userId], (selfErr, results) => (selfErr ? reject(selfErr) : resolve(results[0])));
+        });
+        if (roles.includes(rows[0].name) && !self?.totp_enabled_at) {
+          return res.status(400).json({ error: 'Enable two-factor authentication on your own account before requiring it for your role' });
+        }
+      }
+      
+      db.query('UPDATE roles SET require_two_factor = ? WHERE id = ?', [required, roleId], (updateErr) => {
+        if (updateErr) {
+          console.error('Error updating role two-factor requirement:', updateErr);
+          return res.status(500).json({ error: 'Failed to update role' });
+        }
+        
+        res.json({ message: 'Role updated successfully', require_two_factor: required });
+      });
+    } catch (accessErr) {
+      console.error('Error updating role two-factor requirement:', accessErr);
+      res.status(500).json({ error: 'Failed to update role' });
+    }
+  });
+});
+
 // Example protected admin route
-app.post('/api/admin/books', ensureAdmin, (req, res) => {
+app.post('/api/admin/books', requirePermission('books.write'), (req, res) => {
   // This is just a placeholder to demonstrate protection – implement actual insert later
   return res.json({ ok: true, message: 'Admin route accessed', by: req.userEmail });
 });
 
 // Analytics endpoints (admin only)
-app.get('/api/admin/analytics', ensureAdmin, (req, res) => {
+app.get('/api/admin/analytics', requirePermission('analytics.read'), (req, res) => {
   try {
     // Get user metrics
     const userSql = `
@@ -3062,7 +8462,7 @@ app.get('/api/admin/analytics', ensureAdmin, (req, res) => {
   }
 });
 
-app.get('/api/admin/analytics/user-growth', ensureAdmin, (req, res) => {
+app.get('/api/admin/analytics/user-growth', requirePermission('analytics.read'), (req, res) => {
   const months = parseInt(req.query.months) || 6;
   
   const sql = `
@@ -3086,7 +8486,7 @@ app.get('/api/admin/analytics/user-growth', ensureAdmin, (req, res) => {
 });
 
 // Get recent activity for dashboard
-app.get('/api/admin/analytics/recent-activity', ensureAdmin, (req, res) => {
+app.get('/api/admin/analytics/recent-activity', requirePermission('analytics.read'), (req, res) => {
   const limit = parseInt(req.query.limit) || 10;
   
   const sql = `
@@ -3150,7 +8550,7 @@ function formatTimeAgo(dateString) {
   return `${Math.floor(diffInSeconds / 31536000)} years ago`;
 }
 
-app.get('/api/admin/analytics/daily-activity', ensureAdmin, (req, res) => {
+app.get('/api/admin/analytics/daily-activity', requirePermission('analytics.read'), (req, res) => {
   const days = parseInt(req.query.days) || 7;
   
   const sql = `
@@ -3269,59 +8669,30 @@ const initializeDefaultCategories = async () => {
 };
 
 // File Upload Endpoint (updated to optionally upload to S3)
-app.post('/api/admin/upload-file', upload.single('file'), async (req, res) => {
+app.post('/api/admin/upload-file', requirePermission('books.write'), upload.single('file'), async (req, res) => {
   try {
     console.log('/api/admin/upload-file called', { file: req.file && { originalname: req.file.originalname, mimetype: req.file.mimetype, size: req.file.size }, bodyKeys: Object.keys(req.body || {}) });
     if (!req.file) {
       return res.status(400).json({ error: 'No file uploaded' });
     }
 
-    const userEmail = req.body.userEmail;
-    if (!userEmail) {
-      return res.status(401).json({ error: 'User not authenticated' });
-    }
-
-    const localFilePath = `/uploads/${req.file.filename}`;
-
-    // If S3 is configured, upload to S3 and remove local file
-    if (s3Client) {
-      const fileStream = createReadStream(join(uploadsDir, req.file.filename));
-      const key = `books/${Date.now()}_${req.file.filename}`;
-      const putCommand = new PutObjectCommand({
-        Bucket: S3_BUCKET,
-        Key: key,
-        Body: fileStream,
-        ContentType: req.file.mimetype
-      });
-
-      await s3Client.send(putCommand);
-
-      // Optionally remove local file after upload
-      try { unlinkSync(join(uploadsDir, req.file.filename)); } catch (e) {}
-
-      const s3Path = `s3://${S3_BUCKET}/${key}`;
+    const userEmail = req.userEmail;
+    const uploadedPath = join(uploadsDir, req.file.filename);
 
-      res.json({
-        success: true,
-        filePath: s3Path,
-        originalName: req.file.originalname,
-        size: req.file.size,
-        mimetype: req.file.mimetype
-      });
-      console.log(`File uploaded to S3: ${key} by ${userEmail}`);
-      return;
-    }
+    // Read the text source now: storing the file in S3 removes the local copy
+    const textSource = bookTextFormat(req.file.mimetype, req.file.originalname) ? readFileSync(uploadedPath) : null;
+    const filePath = await fileStorage.writeFile(uploadedPath, `books/${Date.now()}_${req.file.filename}`, { contentType: req.file.mimetype });
+    if (textSource) extractUploadedFileText(filePath, textSource, req.file.mimetype, req.file.originalname);
 
-    // Fallback: return local uploads path
     res.json({
       success: true,
-      filePath: localFilePath,
+      filePath,
       originalName: req.file.originalname,
       size: req.file.size,
       mimetype: req.file.mimetype
     });
 
-    console.log(`File uploaded: ${req.file.originalname} (${req.file.size} bytes) by ${userEmail}`);
+    console.log(`File uploaded: ${req.file.originalname} (${req.file.size} bytes) to ${filePath} by ${userEmail}`);
   } catch (error) {
     console.error('Error uploading file:', error);
     // Emit error details when in development for easier debugging
@@ -3333,7 +8704,7 @@ app.post('/api/admin/upload-file', upload.single('file'), async (req, res) => {
 });
 
 // Create tutorial (admin only)
-app.post('/api/admin/tutorials', ensureAdmin, (req, res) => {
+app.post('/api/admin/tutorials', requirePermission('tutorials.write'), (req, res) => {
   const { title, content, category_id } = req.body;
   if (!title || !content) {
     return res.status(400).json({ error: 'Title and content are required' });
@@ -3362,7 +8733,7 @@ app.post('/api/admin/tutorials', ensureAdmin, (req, res) => {
 });
 
 // Admin endpoint for generating thumbnails from files
-app.post('/api/admin/generate-thumbnail', ensureAdmin, async (req, res) => {
+app.post('/api/admin/generate-thumbnail', requirePermission('books.write'), async (req, res) => {
   const { filePath, type } = req.body;
   
   console.log('Admin thumbnail generation request:', { filePath, type });
@@ -3376,18 +8747,16 @@ app.post('/api/admin/generate-thumbnail', ensureAdmin, async (req, res) => {
     
     if (type === 'pdf' || filePath.toLowerCase().endsWith('.pdf')) {
       // Generate PDF thumbnail
-      const diskPath = filePath.startsWith('/uploads/') 
-        ? join(process.cwd(), filePath.replace(/^\//, ''))
-        : filePath;
+      const diskPath = fileStorage.localPath(filePath);
       
       console.log('PDF processing:', { 
         originalPath: filePath, 
         diskPath, 
-        exists: existsSync(diskPath),
+        exists: Boolean(diskPath) && existsSync(diskPath),
         cwd: process.cwd()
       });
       
-      if (!existsSync(diskPath)) {
+      if (!diskPath || !existsSync(diskPath)) {
         return res.status(404).json({ error: 'PDF file not found' });
       }
       
@@ -3446,11 +8815,9 @@ app.post('/api/admin/generate-thumbnail', ensureAdmin, async (req, res) => {
       
     } else if (type && type.startsWith('image/')) {
       // Generate thumbnail from image
-      const diskPath = filePath.startsWith('/uploads/') 
-        ? join(process.cwd(), filePath.replace(/^\//, ''))
-        : filePath;
+      const diskPath = fileStorage.localPath(filePath);
       
-      if (!existsSync(diskPath)) {
+      if (!diskPath || !existsSync(diskPath)) {
         return res.status(404).json({ error: 'Image file not found' });
       }
       
@@ -3492,7 +8859,7 @@ app.post('/api/admin/generate-thumbnail', ensureAdmin, async (req, res) => {
 });
 
 // Admin endpoint for scraping cover images from URLs
-app.post('/api/admin/scrape-cover', ensureAdmin, async (req, res) => {
+app.post('/api/admin/scrape-cover', requirePermission('books.write'), async (req, res) => {
   const { url } = req.body;
   
   if (!url) {
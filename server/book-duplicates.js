@@ -0,0 +1,131 @@
+// Likely-duplicate detection for books, used when books are created, edited or imported and by
+// the admin Duplicates view.
+//
+// Two books look like the same book when they share an ISBN (ISBN-10 and ISBN-13 forms compare
+// equal) or when both their titles and their authors are close after normalization: case, accents,
+// punctuation and a leading article are ignored, and author names compare alike in any word order
+// ("Knuth, Donald" and "Donald Knuth"). Identical file contents are a third signal; those are
+// matched by SHA-256 (book_files.file_hash) in SQL, so they are not handled here.
+import { normalizeIsbn } from './book-metadata.js';
+
+export const TITLE_SIMILARITY = 0.85;
+export const AUTHOR_SIMILARITY = 0.8;
+
+const LEADING_ARTICLE = /^(the|a|an) /;
+
+function fold(value) {
+  return String(value || '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+export function normalizeTitle(title) {
+  return fold(title).replace(LEADING_ARTICLE, '');
+}
+
+export function normalizeAuthor(author) {
+  return fold(author).split(' ').filter(Boolean).sort().join(' ');
+}
+
+function bigrams(text) {
+  const grams = new Map();
+  for (let i = 0; i < text.length - 1; i++) {
+    const gram = text.slice(i, i + 2);
+    grams.set(gram, (grams.get(gram) || 0) + 1);
+  }
+  return grams;
+}
+
+// Sørensen–Dice coefficient over character bigrams: 1 for equal strings, 0 for nothing in common
+function dice(a, b) {
+  if (a.text === b.text) return a.text ? 1 : 0;
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const [gram, count] of a.grams) {
+    shared += Math.min(count, b.grams.get(gram) || 0);
+  }
+  return (2 * shared) / (a.size + b.size);
+}
+
+function textKey(text) {
+  return { text, grams: bigrams(text), size: Math.max(text.length - 1, 0) };
+}
+
+export function similarity(a, b) {
+  return dice(textKey(a), textKey(b));
+}
+
+// Keys are cached per book object, so checking many rows against one list of books
+// (e.g. an import against the catalog) normalizes each catalog book only once
+const keyCache = new WeakMap();
+
+// Precompute what duplicateReasons() compares
+export function duplicateKeys(book) {
+  if (keyCache.has(book)) return keyCache.get(book);
+  const isbn = book.isbn ? normalizeIsbn(book.isbn) || String(book.isbn).replace(/[\s-]/g, '').toUpperCase() : null;
+  const keys = {
+    isbn: isbn || null,
+    title: textKey(normalizeTitle(book.title)),
+    author: textKey(normalizeAuthor(book.author))
+  };
+  keyCache.set(book, keys);
+  return keys;
+}
+
+// Why two books (as duplicateKeys) look like the same book: a list of 'isbn' and 'title_author', or []
+export function duplicateReasons(a, b) {
+  const reasons = [];
+  if (a.isbn && a.isbn === b.isbn) reasons.push('isbn');
+  if (a.title.text && dice(a.title, b.title) >= TITLE_SIMILARITY && dice(a.author, b.author) >= AUTHOR_SIMILARITY) {
+    reasons.push('title_author');
+  }
+  return reasons;
+}
+
+// Books in `books` that look like `book`: [{ book, reasons }], closest title first
+export function findLikelyDuplicates(book, books) {
+  const keys = duplicateKeys(book);
+  return books
+    .map(other => ({
+      book: other,
+      reasons: duplicateReasons(keys, duplicateKeys(other)),
+      score: dice(keys.title, duplicateKeys(other).title)
+    }))
+    .filter(match => match.reasons.length > 0)
+    .sort((a, b) => b.score - a.score)
+    .map(({ book: other, reasons }) => ({ book: other, reasons }));
+}
+
+// Every pair of likely duplicates in a catalog: [{ a, b, reasons }] with a and b from `books`.
+// Titles whose lengths alone rule out TITLE_SIMILARITY are never compared, which keeps a full
+// scan of a few thousand books well under a second.
+export function findDuplicatePairs(books) {
+  const entries = books
+    .map(book => ({ book, keys: duplicateKeys(book) }))
+    .sort((a, b) => a.keys.title.size - b.keys.title.size);
+  const maxSizeRatio = 2 / TITLE_SIMILARITY - 1;
+  const pairs = [];
+  const byIsbn = new Map();
+
+  for (let i = 0; i < entries.length; i++) {
+    const { book, keys } = entries[i];
+    if (keys.isbn) {
+      for (const other of byIsbn.get(keys.isbn) || []) {
+        if (duplicateReasons(keys, other.keys).includes('title_author')) continue; // found by the title pass below
+        pairs.push({ a: other.book, b: book, reasons: ['isbn'] });
+      }
+      byIsbn.set(keys.isbn, [...(byIsbn.get(keys.isbn) || []), entries[i]]);
+    }
+    if (!keys.title.text) continue;
+    for (let j = i + 1; j < entries.length && entries[j].keys.title.size <= keys.title.size * maxSizeRatio + 1; j++) {
+      const other = entries[j];
+      const reasons = duplicateReasons(keys, other.keys);
+      if (reasons.includes('title_author')) pairs.push({ a: book, b: other.book, reasons });
+    }
+  }
+  return pairs;
+}
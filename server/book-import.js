@@ -0,0 +1,134 @@
+// Manifest parsing for the bulk book importer.
+//
+// A manifest is CSV (first row is the header) or JSON (an array of objects, or { "books": [...] }).
+// Recognised columns:
+//   title, author, category (slug or name), isbn, book_type (file | link | purchase),
+//   description, published_year, page_count, external_link, purchase_link, price, currency,
+//   file      - path of the book file inside the ZIP (file books)
+//   file_path - an already uploaded file (/uploads/... or s3://...), instead of `file`
+//   cover     - path of a cover image inside the ZIP (optional)
+// Header names are matched case-insensitively; unknown columns are ignored.
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import JSZip from 'jszip';
+
+export const MANIFEST_COLUMNS = [
+  'title', 'author', 'category', 'isbn', 'book_type', 'description', 'published_year', 'page_count',
+  'external_link', 'purchase_link', 'price', 'currency', 'file', 'file_path', 'cover'
+];
+export const MAX_MANIFEST_ROWS = 5000;
+
+const FILE_MIME_TYPES = {
+  '.pdf': 'application/pdf',
+  '.epub': 'application/epub+zip',
+  '.txt': 'text/plain',
+  '.doc': 'application/msword',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp'
+};
+
+// MIME type for a file in the archive, or null when the upload form would not accept it either
+export function mimeTypeForFile(name) {
+  return FILE_MIME_TYPES[extname(String(name)).toLowerCase()] || null;
+}
+
+// RFC 4180 CSV: quoted fields may contain commas, newlines and doubled quotes
+export function parseCsv(text) {
+  const rows = [];
+  let row = [];
+  let field = '';
+  let quoted = false;
+  const input = String(text).replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) throw new Error('The CSV has an unclosed quoted field');
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const nonEmpty = rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+  if (nonEmpty.length === 0) return [];
+  const header = nonEmpty[0].map(name => name.trim().toLowerCase());
+  return nonEmpty.slice(1).map(cells => Object.fromEntries(header.map((name, index) => [name, cells[index] ?? ''])));
+}
+
+function normalizeRow(raw) {
+  const lowered = Object.fromEntries(Object.entries(raw || {}).map(([key, value]) => [String(key).trim().toLowerCase(), value]));
+  const row = {};
+  for (const column of MANIFEST_COLUMNS) {
+    const value = lowered[column];
+    row[column] = value === undefined || value === null ? '' : String(value).trim();
+  }
+  return row;
+}
+
+// Read a manifest into rows of trimmed strings keyed by MANIFEST_COLUMNS
+export function parseManifest(buffer, fileName) {
+  const text = buffer.toString('utf8');
+  let records;
+  if (extname(String(fileName)).toLowerCase() === '.json') {
+    let parsed;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error('The JSON manifest could not be parsed');
+    }
+    records = Array.isArray(parsed) ? parsed : parsed && parsed.books;
+    if (!Array.isArray(records)) throw new Error('A JSON manifest must be an array of books or { "books": [...] }');
+  } else {
+    records = parseCsv(text);
+  }
+
+  if (records.length === 0) throw new Error('The manifest has no books');
+  if (records.length > MAX_MANIFEST_ROWS) throw new Error(`A manifest can list at most ${MAX_MANIFEST_ROWS} books`);
+  return records.map(normalizeRow);
+}
+
+// Find a ZIP entry by the path written in the manifest (leading ./ or / and case differences allowed)
+export function findArchiveEntry(zip, path) {
+  if (!zip || !path) return null;
+  const wanted = String(path).replace(/\\/g, '/').replace(/^\.?\//, '');
+  const exact = zip.file(wanted);
+  if (exact) return exact;
+  const lower = wanted.toLowerCase();
+  return Object.values(zip.files).find(entry => !entry.dir && entry.name.toLowerCase() === lower) || null;
+}
+
+// Open an uploaded ZIP of book files and covers
+export async function openArchive(filePath) {
+  try {
+    return await JSZip.loadAsync(readFileSync(filePath));
+  } catch {
+    throw new Error('The ZIP archive could not be read');
+  }
+}
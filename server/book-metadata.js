@@ -0,0 +1,184 @@
+// Book metadata lookup by ISBN, used by the admin "Enrich from ISBN" action.
+//
+// Every provider has the same shape: { id, name, lookup(isbn13) } where lookup resolves to
+// { title, author, description, page_count, published_year, cover_url } (any field may be
+// null) or null when the provider does not know the book. Providers are tried in the order
+// listed in BOOK_METADATA_PROVIDERS and later ones only fill fields earlier ones left empty.
+//
+//   openlibrary  - Open Library books API (no key needed)
+//   googlebooks  - Google Books volumes API; GOOGLE_BOOKS_API_KEY raises the anonymous quota
+//   fixtures     - reads BOOK_METADATA_FIXTURES (a JSON object keyed by ISBN-13), for working offline
+import { readFileSync } from 'fs';
+
+const REQUEST_TIMEOUT_MS = 10000;
+const MAX_COVER_BYTES = 5 * 1024 * 1024;
+export const METADATA_FIELDS = ['title', 'author', 'description', 'page_count', 'published_year', 'cover_url'];
+
+function isbn10CheckDigit(digits) {
+  const sum = digits.split('').reduce((total, digit, index) => total + Number(digit) * (10 - index), 0);
+  const check = (11 - (sum % 11)) % 11;
+  return check === 10 ? 'X' : String(check);
+}
+
+function isbn13CheckDigit(digits) {
+  const sum = digits.split('').reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 1 : 3), 0);
+  return String((10 - (sum % 10)) % 10);
+}
+
+// Validate an ISBN-10 or ISBN-13 (hyphens and spaces allowed) and return it as ISBN-13, or null
+export function normalizeIsbn(value) {
+  const compact = String(value || '').replace(/[\s-]/g, '').toUpperCase();
+  if (/^\d{9}[\dX]$/.test(compact)) {
+    if (isbn10CheckDigit(compact.slice(0, 9)) !== compact[9]) return null;
+    const body = `978${compact.slice(0, 9)}`;
+    return body + isbn13CheckDigit(body);
+  }
+  if (/^97[89]\d{10}$/.test(compact)) {
+    return isbn13CheckDigit(compact.slice(0, 12)) === compact[12] ? compact : null;
+  }
+  return null;
+}
+
+function yearFrom(value) {
+  const match = /\b(\d{4})\b/.exec(String(value || ''));
+  return match ? Number(match[1]) : null;
+}
+
+function emptyToNull(value) {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'string' && value.trim() === '') return null;
+  return typeof value === 'string' ? value.trim() : value;
+}
+
+function cleanMetadata(metadata) {
+  const cleaned = {};
+  for (const field of METADATA_FIELDS) cleaned[field] = emptyToNull(metadata[field]);
+  if (cleaned.page_count !== null) cleaned.page_count = Number.parseInt(cleaned.page_count, 10) || null;
+  if (cleaned.published_year !== null) cleaned.published_year = yearFrom(cleaned.published_year);
+  if (cleaned.cover_url) cleaned.cover_url = String(cleaned.cover_url).replace(/^http:\/\//, 'https://');
+  return cleaned;
+}
+
+async function fetchJson(url) {
+  const response = await fetch(url, {
+    headers: { Accept: 'application/json' },
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+  });
+  if (!response.ok) throw new Error(`${new URL(url).host} responded ${response.status}`);
+  return response.json();
+}
+
+export function createOpenLibraryProvider() {
+  return {
+    id: 'openlibrary',
+    name: 'Open Library',
+    async lookup(isbn) {
+      const data = await fetchJson(`https://openlibrary.org/api/books?bibkeys=ISBN:${isbn}&format=json&jscmd=data`);
+      const record = data[`ISBN:${isbn}`];
+      if (!record) return null;
+      return cleanMetadata({
+        title: record.subtitle ? `${record.title}: ${record.subtitle}` : record.title,
+        author: (record.authors || []).map(author => author.name).join(', '),
+        description: typeof record.notes === 'string' ? record.notes : record.notes && record.notes.value,
+        page_count: record.number_of_pages,
+        published_year: record.publish_date,
+        cover_url: record.cover && (record.cover.large || record.cover.medium)
+      });
+    }
+  };
+}
+
+export function createGoogleBooksProvider({ apiKey } = {}) {
+  return {
+    id: 'googlebooks',
+    name: 'Google Books',
+    async lookup(isbn) {
+      const key = apiKey ? `&key=${encodeURIComponent(apiKey)}` : '';
+      const data = await fetchJson(`https://www.googleapis.com/books/v1/volumes?q=isbn:${isbn}${key}`);
+      const volume = Array.isArray(data.items) && data.items[0] ? data.items[0].volumeInfo : null;
+      if (!volume) return null;
+      const images = volume.imageLinks || {};
+      return cleanMetadata({
+        title: volume.subtitle ? `${volume.title}: ${volume.subtitle}` : volume.title,
+        author: (volume.authors || []).join(', '),
+        // Descriptions may contain simple HTML markup
+        description: volume.description && volume.description.replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]+>/g, ''),
+        page_count: volume.pageCount,
+        published_year: volume.publishedDate,
+        cover_url: images.extraLarge || images.large || images.medium || images.thumbnail
+      });
+    }
+  };
+}
+
+// Metadata from a local JSON file keyed by ISBN-13; cover_url may be a data: URL
+export function createFixtureProvider(filePath) {
+  return {
+    id: 'fixtures',
+    name: 'Local fixtures',
+    async lookup(isbn) {
+      const fixtures = JSON.parse(readFileSync(filePath, 'utf8'));
+      return fixtures[isbn] ? cleanMetadata(fixtures[isbn]) : null;
+    }
+  };
+}
+
+// Build the configured providers, in lookup order
+export function loadMetadataProviders(env = process.env) {
+  const ids = String(env.BOOK_METADATA_PROVIDERS || 'openlibrary,googlebooks')
+    .split(',')
+    .map(id => id.trim().toLowerCase())
+    .filter(Boolean);
+
+  const providers = [];
+  for (const id of ids) {
+    if (id === 'openlibrary') providers.push(createOpenLibraryProvider());
+    else if (id === 'googlebooks') providers.push(createGoogleBooksProvider({ apiKey: env.GOOGLE_BOOKS_API_KEY }));
+    else if (id === 'fixtures') providers.push(createFixtureProvider(env.BOOK_METADATA_FIXTURES || 'server/fixtures/isbn-metadata.json'));
+    else console.warn(`Ignoring unknown book metadata provider "${id}"`);
+  }
+  return providers;
+}
+
+// Ask each provider in turn, filling fields that are still empty.
+// Returns { metadata, sources } where sources maps each filled field to the provider that supplied it.
+export async function lookupBookMetadata(providers, isbn) {
+  const metadata = Object.fromEntries(METADATA_FIELDS.map(field => [field, null]));
+  const sources = {};
+  const errors = [];
+
+  for (const provider of providers) {
+    if (METADATA_FIELDS.every(field => metadata[field] !== null)) break;
+    try {
+      const found = await provider.lookup(isbn);
+      if (!found) continue;
+      for (const field of METADATA_FIELDS) {
+        if (metadata[field] === null && found[field] !== null) {
+          metadata[field] = found[field];
+          sources[field] = provider.name;
+        }
+      }
+    } catch (error) {
+      console.error(`Book metadata lookup failed at ${provider.name}:`, error);
+      errors.push(provider.name);
+    }
+  }
+
+  return { metadata, sources, errors };
+}
+
+// Download cover art so the admin form can submit it like an uploaded cover
+export async function fetchCoverImage(url) {
+  if (url.startsWith('data:')) {
+    const match = /^data:(image\/[\w.+-]+);base64,(.+)$/.exec(url);
+    return match ? { base64: match[2], type: match[1] } : null;
+  }
+
+  const response = await fetch(url, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+  const type = (response.headers.get('content-type') || '').split(';')[0];
+  if (!response.ok || !type.startsWith('image/')) return null;
+  const buffer = Buffer.from(await response.arrayBuffer());
+  // Open Library answers unknown covers with a 1x1 placeholder; anything tiny is not real art
+  if (buffer.length < 1024 || buffer.length > MAX_COVER_BYTES) return null;
+  return { base64: buffer.toString('base64'), type };
+}
@@ -0,0 +1,170 @@
+// Text extraction and snippet helpers for full-text search inside book files.
+//
+// PDFs are split by their real pages. EPUBs have no pages, so each spine section is cut into
+// chunks of about EPUB_PAGE_CHARS characters, the same size the in-browser reader (epub.js)
+// uses for its locations, so a search hit's page number opens the reader close to the match.
+import { posix } from 'path';
+import JSZip from 'jszip';
+
+export const EPUB_PAGE_CHARS = 1600;
+const MAX_PAGES = 5000;
+const MAX_PAGE_CHARS = 60000;
+const SNIPPET_BEFORE = 80;
+const SNIPPET_AFTER = 160;
+
+const HTML_ENTITIES = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', mdash: '—', ndash: '–', hellip: '…', rsquo: '’', lsquo: '‘', rdquo: '”', ldquo: '“' };
+
+function normalizeText(text) {
+  return String(text).replace(/\s+/g, ' ').trim().slice(0, MAX_PAGE_CHARS);
+}
+
+// Which extractor handles a file, from its MIME type or file name
+export function bookTextFormat(fileType, filePath) {
+  const type = String(fileType || '').toLowerCase();
+  const path = String(filePath || '').toLowerCase();
+  if (type.includes('pdf') || path.endsWith('.pdf')) return 'pdf';
+  if (type.includes('epub') || path.endsWith('.epub')) return 'epub';
+  return null;
+}
+
+async function extractPdfPages(buffer) {
+  const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+  const doc = await pdfjs.getDocument({
+    data: new Uint8Array(buffer),
+    isEvalSupported: false,
+    disableFontFace: true,
+    verbosity: 0
+  }).promise;
+
+  try {
+    const pages = [];
+    const pageCount = Math.min(doc.numPages, MAX_PAGES);
+    for (let number = 1; number <= pageCount; number++) {
+      const page = await doc.getPage(number);
+      const content = await page.getTextContent();
+      const text = normalizeText(content.items.map(item => `${item.str || ''}${item.hasEOL ? '\n' : ''}`).join(' '));
+      if (text) pages.push({ page: number, text });
+      page.cleanup();
+    }
+    return pages;
+  } finally {
+    await doc.destroy();
+  }
+}
+
+function htmlToText(html) {
+  return String(html)
+    .replace(/<head[\s\S]*?<\/head>/gi, ' ')
+    .replace(/<(script|style)[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code) => {
+      if (code[0] === '#') {
+        const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+        return Number.isFinite(point) && point <= 0x10ffff ? String.fromCodePoint(point) : ' ';
+      }
+      return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+    });
+}
+
+function readAttributes(tag) {
+  const attributes = {};
+  for (const [, name, value] of tag.matchAll(/([\w:-]+)\s*=\s*"([^"]*)"/g)) {
+    attributes[name] = value;
+  }
+  for (const [, name, value] of tag.matchAll(/([\w:-]+)\s*=\s*'([^']*)'/g)) {
+    attributes[name] = value;
+  }
+  return attributes;
+}
+
+// Cut a section's text into page-sized chunks, breaking at the last space where possible
+function chunkText(text, size) {
+  const chunks = [];
+  let rest = text;
+  while (rest.length > size) {
+    const breakAt = rest.lastIndexOf(' ', size);
+    const end = breakAt > size / 2 ? breakAt : size;
+    chunks.push(rest.slice(0, end).trim());
+    rest = rest.slice(end).trim();
+  }
+  if (rest) chunks.push(rest);
+  return chunks;
+}
+
+async function extractEpubPages(buffer) {
+  const zip = await JSZip.loadAsync(buffer);
+  const container = await zip.file('META-INF/container.xml')?.async('string');
+  const rootfile = container && /<rootfile\b[^>]*full-path\s*=\s*["']([^"']+)["']/i.exec(container);
+  if (!rootfile) throw new Error('EPUB has no package document');
+
+  const opfPath = rootfile[1];
+  const opf = await zip.file(opfPath)?.async('string');
+  if (!opf) throw new Error('EPUB package document is missing');
+
+  const manifest = new Map();
+  for (const [tag] of opf.matchAll(/<(?:\w+:)?item\b[^>]*>/gi)) {
+    const item = readAttributes(tag);
+    if (item.id && item.href) manifest.set(item.id, item.href);
+  }
+
+  const baseDir = posix.dirname(opfPath);
+  const pages = [];
+  for (const [tag] of opf.matchAll(/<(?:\w+:)?itemref\b[^>]*>/gi)) {
+    const itemref = readAttributes(tag);
+    const href = manifest.get(itemref.idref);
+    if (!href || itemref.linear === 'no') continue;
+
+    const entryPath = posix.normalize(posix.join(baseDir === '.' ? '' : baseDir, decodeURIComponent(href.split('#')[0])));
+    const html = await zip.file(entryPath)?.async('string');
+    if (!html) continue;
+
+    for (const chunk of chunkText(normalizeText(htmlToText(html)), EPUB_PAGE_CHARS)) {
+      pages.push({ page: pages.length + 1, text: chunk });
+      if (pages.length >= MAX_PAGES) return pages;
+    }
+  }
+  return pages;
+}
+
+// Extract searchable text from a book file: [{ page, text }], or null for unsupported formats
+export async function extractBookText(buffer, { fileType, filePath } = {}) {
+  const format = bookTextFormat(fileType, filePath);
+  if (format === 'pdf') return extractPdfPages(buffer);
+  if (format === 'epub') return extractEpubPages(buffer);
+  return null;
+}
+
+// Words from a search box, for FULLTEXT boolean queries and highlighting
+export function searchTerms(query) {
+  return Array.from(new Set(String(query || '').toLowerCase().match(/[\p{L}\p{N}]+/gu) || []));
+}
+
+// A short excerpt around the first matching term, with [start, end) offsets of every term in it
+export function buildSnippet(text, terms) {
+  const escaped = terms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const pattern = escaped.length ? new RegExp(escaped.join('|'), 'giu') : null;
+  const first = pattern ? pattern.exec(text) : null;
+  const matchAt = first ? first.index : 0;
+
+  let start = Math.max(0, matchAt - SNIPPET_BEFORE);
+  let end = Math.min(text.length, matchAt + SNIPPET_AFTER);
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    if (space !== -1 && space < matchAt) start = space + 1;
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    if (space > matchAt) end = space;
+  }
+
+  const prefix = start > 0 ? '… ' : '';
+  const snippet = `${prefix}${text.slice(start, end)}${end < text.length ? ' …' : ''}`;
+  const highlights = [];
+  if (pattern) {
+    pattern.lastIndex = 0;
+    for (const match of text.slice(start, end).matchAll(pattern)) {
+      highlights.push([match.index + prefix.length, match.index + prefix.length + match[0].length]);
+    }
+  }
+  return { snippet, highlights };
+}
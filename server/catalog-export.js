@@ -0,0 +1,230 @@
+// Serializers for the admin catalog export.
+//
+// Rows arrive one at a time from a streamed MySQL query and leave as text (or MARC bytes),
+// so an export never holds the whole catalog in memory. Book CSV/JSON columns use the
+// bulk-import manifest names where they overlap, so an export can be imported again.
+//
+//   csv     - RFC 4180, header row first
+//   json    - a JSON array of objects
+//   marc    - MARC 21 bibliographic records in ISO 2709 transmission format (UTF-8)
+//   marcxml - the same records as MARCXML (http://www.loc.gov/MARC21/slim)
+import { Transform } from 'stream';
+
+export const BOOK_EXPORT_COLUMNS = [
+  'id', 'title', 'author', 'category', 'category_name', 'isbn', 'book_type', 'description',
+  'published_year', 'page_count', 'external_link', 'purchase_link', 'price', 'currency',
+  'file_path', 'file_type', 'file_size', 'cover_image_path', 'created_at', 'updated_at'
+];
+export const TUTORIAL_EXPORT_COLUMNS = [
+  'id', 'title', 'category', 'category_name', 'description', 'creator', 'difficulty', 'content_type',
+  'content_url', 'embed_url', 'file_path', 'created_at', 'updated_at'
+];
+
+const FIELD_TERMINATOR = '\x1E';
+const RECORD_TERMINATOR = '\x1D';
+const SUBFIELD_DELIMITER = '\x1F';
+const MAX_MARC_VALUE_CHARS = 2000; // keeps every field under ISO 2709's 9999-byte limit
+
+function exportValue(value) {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+}
+
+function csvCell(value) {
+  const text = exportValue(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function pickColumns(row, columns) {
+  return Object.fromEntries(columns.map(column => [column, row[column] instanceof Date ? row[column].toISOString() : row[column] ?? null]));
+}
+
+function xmlEscape(value) {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Characters XML 1.0 cannot carry at all
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '');
+}
+
+function marcValue(value) {
+  return exportValue(value).replace(/[\x1D-\x1F]/g, ' ').replace(/\s+/g, ' ').trim().slice(0, MAX_MARC_VALUE_CHARS);
+}
+
+function pad(value, length) {
+  return String(value).padStart(length, '0');
+}
+
+// MARC 21 fields for a book: { tag, value } for control fields, { tag, ind1, ind2, subfields } otherwise
+export function bookMarcFields(book, { baseUrl } = {}) {
+  const updated = book.updated_at instanceof Date ? book.updated_at : new Date(book.updated_at || Date.now());
+  const created = book.created_at instanceof Date ? book.created_at : new Date(book.created_at || Date.now());
+  const year = /^\d{4}$/.test(String(book.published_year || '')) ? String(book.published_year) : null;
+  const online = book.book_type === 'file' || book.book_type === 'link';
+
+  // 008: date entered, publication date, then book-specific positions left blank
+  const fixed = [
+    `${pad(created.getUTCFullYear() % 100, 2)}${pad(created.getUTCMonth() + 1, 2)}${pad(created.getUTCDate(), 2)}`,
+    year ? `s${year}    ` : 'nuuuuuuuu',
+    'xx ',
+    '     ',
+    online ? 'o' : ' ',
+    '    ',
+    ' 000 0 ',
+    'und',
+    ' d'
+  ].join('');
+
+  const fields = [
+    { tag: '001', value: String(book.id) },
+    {
+      tag: '005',
+      value: `${updated.getUTCFullYear()}${pad(updated.getUTCMonth() + 1, 2)}${pad(updated.getUTCDate(), 2)}` +
+        `${pad(updated.getUTCHours(), 2)}${pad(updated.getUTCMinutes(), 2)}${pad(updated.getUTCSeconds(), 2)}.0`
+    },
+    { tag: '008', value: fixed }
+  ];
+
+  const datafield = (tag, ind1, ind2, subfields) => {
+    const kept = subfields.map(([code, value]) => [code, marcValue(value)]).filter(([, value]) => value);
+    if (kept.length > 0) fields.push({ tag, ind1, ind2, subfields: kept });
+  };
+
+  datafield('020', ' ', ' ', [['a', book.isbn]]);
+  datafield('100', '1', ' ', [['a', book.author]]);
+  datafield('245', book.author ? '1' : '0', '0', [['a', book.title], ['c', book.author]]);
+  datafield('264', ' ', '1', [['c', year]]);
+  datafield('300', ' ', ' ', [['a', book.page_count ? `${book.page_count} pages` : null]]);
+  if (book.price !== null && book.price !== undefined) {
+    datafield('365', ' ', ' ', [['b', book.price], ['c', book.currency || 'USD']]);
+  }
+  datafield('520', ' ', ' ', [['a', book.description]]);
+  datafield('650', ' ', '4', [['a', book.category_name]]);
+
+  if (book.book_type === 'link') {
+    datafield('856', '4', '0', [['u', book.external_link], ['z', 'Read online']]);
+  } else if (book.book_type === 'purchase') {
+    datafield('856', '4', '2', [['u', book.purchase_link], ['z', 'Purchase']]);
+  } else if (baseUrl) {
+    datafield('856', '4', '0', [['u', `${baseUrl}/books/${book.id}`], ['z', 'Read online']]);
+  }
+  return fields;
+}
+
+function marcLeader(recordLength, baseAddress) {
+  // n = new record, a = language material, m = monograph, a = UCS/Unicode
+  return `${pad(recordLength, 5)}nam a22${pad(baseAddress, 5)} u 4500`;
+}
+
+// One record in ISO 2709 form; lengths and offsets count UTF-8 bytes
+export function toMarc21(fields) {
+  const encoded = fields.map(field => {
+    const body = field.value !== undefined
+      ? field.value
+      : `${field.ind1}${field.ind2}${field.subfields.map(([code, value]) => `${SUBFIELD_DELIMITER}${code}${value}`).join('')}`;
+    return { tag: field.tag, bytes: Buffer.from(body + FIELD_TERMINATOR, 'utf8') };
+  });
+
+  let offset = 0;
+  const directory = encoded.map(field => {
+    const entry = `${field.tag}${pad(field.bytes.length, 4)}${pad(offset, 5)}`;
+    offset += field.bytes.length;
+    return entry;
+  }).join('');
+
+  const baseAddress = 24 + directory.length + 1;
+  const recordLength = baseAddress + offset + 1;
+  return Buffer.concat([
+    Buffer.from(marcLeader(recordLength, baseAddress) + directory + FIELD_TERMINATOR, 'utf8'),
+    ...encoded.map(field => field.bytes),
+    Buffer.from(RECORD_TERMINATOR, 'utf8')
+  ]);
+}
+
+// One <record> element of a MARCXML collection
+export function toMarcXml(fields) {
+  const lines = [`  <record>`, `    <leader>${marcLeader(0, 0)}</leader>`];
+  for (const field of fields) {
+    if (field.value !== undefined) {
+      lines.push(`    <controlfield tag="${field.tag}">${xmlEscape(field.value)}</controlfield>`);
+    } else {
+      lines.push(`    <datafield tag="${field.tag}" ind1="${field.ind1}" ind2="${field.ind2}">`);
+      for (const [code, value] of field.subfields) {
+        lines.push(`      <subfield code="${code}">${xmlEscape(value)}</subfield>`);
+      }
+      lines.push('    </datafield>');
+    }
+  }
+  lines.push('  </record>');
+  return `${lines.join('\n')}\n`;
+}
+
+// Transform stream turning row objects into one export format. `head` is written before the
+// first row (or on its own for an empty export), `separator` between rows, `tail` at the end.
+function rowTransform({ head = '', separator = '', tail = '', row }) {
+  let count = 0;
+  return new Transform({
+    writableObjectMode: true,
+    transform(record, encoding, callback) {
+      try {
+        const chunk = row(record);
+        const prefix = count === 0 ? head : separator;
+        count++;
+        callback(null, prefix ? Buffer.concat([Buffer.from(prefix), Buffer.from(chunk)]) : chunk);
+      } catch (error) {
+        callback(error);
+      }
+    },
+    flush(callback) {
+      callback(null, `${count === 0 ? head : ''}${tail}`);
+    }
+  });
+}
+
+// Content type, file extension and Transform for exporting rows with `columns` in `format`
+export function createExportStream(format, columns, { baseUrl } = {}) {
+  if (format === 'csv') {
+    return {
+      contentType: 'text/csv; charset=utf-8',
+      extension: 'csv',
+      stream: rowTransform({
+        head: `${columns.join(',')}\r\n`,
+        row: record => `${columns.map(column => csvCell(record[column])).join(',')}\r\n`
+      })
+    };
+  }
+  if (format === 'json') {
+    return {
+      contentType: 'application/json; charset=utf-8',
+      extension: 'json',
+      stream: rowTransform({
+        head: '[\n',
+        separator: ',\n',
+        tail: '\n]\n',
+        row: record => JSON.stringify(pickColumns(record, columns))
+      })
+    };
+  }
+  if (format === 'marc') {
+    return {
+      contentType: 'application/marc',
+      extension: 'mrc',
+      stream: rowTransform({ row: record => toMarc21(bookMarcFields(record, { baseUrl })) })
+    };
+  }
+  if (format === 'marcxml') {
+    return {
+      contentType: 'application/marcxml+xml; charset=utf-8',
+      extension: 'xml',
+      stream: rowTransform({
+        head: '<?xml version="1.0" encoding="UTF-8"?>\n<collection xmlns="http://www.loc.gov/MARC21/slim">\n',
+        tail: '</collection>\n',
+        row: record => toMarcXml(bookMarcFields(record, { baseUrl }))
+      })
+    };
+  }
+  return null;
+}
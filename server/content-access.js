@@ -0,0 +1,77 @@
+// Licenses and access levels of books and tutorials.
+//
+// license is informational (shown as a badge; NULL when unknown). access_level decides who may open
+// an item - its details, files, reader, thumbnail and the stored files behind them:
+//   public     - everyone, including visitors and e-reader apps
+//   signed_in  - any signed-in user (or app token)
+//   restricted - members of access_role_id's role; with no role set (or once the role is deleted)
+//                staff only. Staff are admins and whoever can edit that kind of content
+//                (books.write / tutorials.write), so they can always open what they manage.
+export const CONTENT_LICENSES = [
+  'cc-by',
+  'cc-by-sa',
+  'cc-by-nd',
+  'cc-by-nc',
+  'cc-by-nc-sa',
+  'cc-by-nc-nd',
+  'cc0',
+  'public-domain',
+  'all-rights-reserved'
+];
+export const ACCESS_LEVELS = ['public', 'signed_in', 'restricted'];
+
+const STAFF_PERMISSIONS = { book: 'books.write', tutorial: 'tutorials.write' };
+const CONTENT_NOUNS = { book: 'book', tutorial: 'tutorial' };
+// Columns that lead to an item's content rather than describe it
+const CONTENT_LINK_COLUMNS = {
+  book: ['file_path', 'external_link', 'purchase_link'],
+  tutorial: ['content_url', 'embed_url', 'file_path']
+};
+
+// Check license / access_level / access_role_id from an API request; resolves an error message or null.
+// Whether the role exists is left to the caller.
+export function validateContentAccess({ license, access_level, access_role_id }) {
+  if (license !== undefined && license !== null && !CONTENT_LICENSES.includes(license)) {
+    return `license must be one of ${CONTENT_LICENSES.join(', ')}`;
+  }
+  if (access_level !== undefined && !ACCESS_LEVELS.includes(access_level)) {
+    return `access_level must be one of ${ACCESS_LEVELS.join(', ')}`;
+  }
+  if (access_role_id !== undefined && access_role_id !== null && access_role_id !== '' &&
+      !(Number.isInteger(Number(access_role_id)) && Number(access_role_id) > 0)) {
+    return 'access_role_id must be the id of a role';
+  }
+  return null;
+}
+
+// Why `viewer` ({ roles, permissions }, or null for visitors) may not open `item`
+// ({ access_level, access_role }, access_role being the role's name): { status, code, error }, or null
+export function contentAccessDenial(contentType, item, viewer) {
+  const noun = CONTENT_NOUNS[contentType];
+  if (!item.access_level || item.access_level === 'public') return null;
+
+  if (!viewer) {
+    return { status: 401, code: 'SIGN_IN_REQUIRED', error: `Sign in to open this ${noun}` };
+  }
+  if (item.access_level === 'signed_in') return null;
+
+  if (viewer.roles.includes('admin') || viewer.permissions.includes(STAFF_PERMISSIONS[contentType])) return null;
+  if (item.access_role && viewer.roles.includes(item.access_role)) return null;
+  return {
+    status: 403,
+    code: 'ACCESS_RESTRICTED',
+    error: item.access_role
+      ? `This ${noun} is only available to ${item.access_role} members`
+      : `This ${noun} is only available to staff`
+  };
+}
+
+// Copy of a list row with its link and file columns set to null, for items the viewer may not open:
+// lists still show them, but only the detail routes (which check access) lead to the content
+export function withoutContentLinks(contentType, row) {
+  const hidden = { ...row };
+  for (const column of CONTENT_LINK_COLUMNS[contentType]) {
+    if (column in hidden) hidden[column] = null;
+  }
+  return hidden;
+}
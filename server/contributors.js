@@ -0,0 +1,145 @@
+// People credited on books and tutorials, parsed from and formatted back into the free-text
+// books.author and tutorials.creator fields.
+//
+// Those fields stay the display text (search, duplicate detection, exports and OPDS read them),
+// while contributors/content_contributors hold one row per person and role so everything by
+// someone can be listed. Parsing understands the usual ways several people are written:
+//   "Harold Abelson, Gerald Jay Sussman"   "Abelson & Sussman"   "A; B and C"
+//   "Knuth, Donald E."          - "Last, First" is one person, also as the first of several:
+//   "Smith, John and Jane Roe"    John Smith and Jane Roe
+//   "Martin Luther King, Jr."   - Jr., Sr., II, III, PhD ... stay with the name before them
+//   "Jane Doe (ed.)"            - (ed.), (eds.), (editor), (trans.), (translator) set the role
+//   "translated by Jane Doe"    - "edited by" / "translated by" set the role of the names after them
+//   "Kyle Simpson et al."       - "et al." is not a person; hasEtAl() tells whether the text ends in it
+export const CONTRIBUTOR_ROLES = ['author', 'editor', 'translator', 'instructor'];
+export const MAX_CONTRIBUTOR_NAME_LENGTH = 255;
+
+// "and", "&" and ";" always separate people; commas separate them unless they invert a name
+const SEPARATOR = /\s*(?:;|&|\band\b)\s*/i;
+const NAME_SUFFIX = /^(?:jr|sr|ii|iii|iv|phd|md)\.?$/i;
+const ET_AL = /,?\s*et al\.?$/i;
+const ROLE_PREFIXES = [
+  [/^(?:edited by|ed\. by)\s+/i, 'editor'],
+  [/^(?:translated by|trans\. by)\s+/i, 'translator']
+];
+const ROLE_SUFFIXES = [
+  [/\s*\((?:eds?\.?|editors?)\)$/i, 'editor'],
+  [/\s*\((?:trans\.?|tr\.?|translators?)\)$/i, 'translator']
+];
+
+const cleanName = (value) => String(value || '').replace(/\s+/g, ' ').trim();
+
+// Whether credit text such as "Kyle Simpson et al." says more people are involved than it names
+export const hasEtAl = (text) => ET_AL.test(cleanName(text));
+
+// The people in one "and"-separated part: "Harold Abelson, Gerald Jay Sussman" is two, while
+// "Knuth, Donald E." (a one-word surname, then the given names) is one, written "Donald E. Knuth".
+// A role prefix stays in front ("translated by Roe, Jane") and a role suffix at the end.
+function splitOnCommas(part) {
+  const pieces = part.split(',').map(cleanName).filter(Boolean);
+  const names = [];
+  for (const piece of pieces) {
+    if (NAME_SUFFIX.test(piece) && names.length > 0) {
+      names[names.length - 1] += ` ${piece}`;
+    } else {
+      names.push(piece);
+    }
+  }
+  if (names.length !== 2) return names;
+
+  const [first, second] = names;
+  const surname = ROLE_PREFIXES.reduce((value, [pattern]) => value.replace(pattern, ''), first);
+  if (/\s/.test(surname)) return names;
+  const prefix = first.slice(0, first.length - surname.length);
+  const [given, suffix] = splitTrailingSuffix(second);
+  return [`${prefix}${given} ${surname}${suffix}`];
+}
+
+// "Jane (ed.)" -> ["Jane", " (ed.)"], "Martin Luther Jr." -> ["Martin Luther", " Jr."]
+function splitTrailingSuffix(name) {
+  for (const [pattern] of ROLE_SUFFIXES) {
+    const match = pattern.exec(name);
+    if (match) return [name.slice(0, match.index), match[0]];
+  }
+  const words = name.split(' ');
+  if (words.length > 1 && NAME_SUFFIX.test(words[words.length - 1])) {
+    return [words.slice(0, -1).join(' '), ` ${words[words.length - 1]}`];
+  }
+  return [name, ''];
+}
+
+// Split free text into [{ name, role }]; names without a role marker get `defaultRole`
+export function parseContributors(text, defaultRole = 'author') {
+  const value = cleanName(text).replace(ET_AL, '');
+  if (!value) return [];
+
+  const names = value.split(SEPARATOR).map(cleanName).filter(Boolean).flatMap(splitOnCommas);
+
+  const people = [];
+  const seen = new Set();
+  let carriedRole = defaultRole;
+  for (let name of names) {
+    let role = carriedRole;
+    for (const [pattern, prefixRole] of ROLE_PREFIXES) {
+      if (pattern.test(name)) {
+        name = name.replace(pattern, '');
+        role = carriedRole = prefixRole;
+      }
+    }
+    for (const [pattern, suffixRole] of ROLE_SUFFIXES) {
+      if (pattern.test(name)) {
+        name = name.replace(pattern, '');
+        role = suffixRole;
+      }
+    }
+    name = cleanName(name).slice(0, MAX_CONTRIBUTOR_NAME_LENGTH);
+    const key = `${name.toLowerCase()}|${role}`;
+    if (name && !seen.has(key)) {
+      seen.add(key);
+      people.push({ name, role });
+    }
+  }
+  return people;
+}
+
+// Check a `contributors` list from an API request; resolves { contributors } or { error }
+export function normalizeContributors(list) {
+  if (!Array.isArray(list)) {
+    return { error: 'contributors must be a list of { name, role }' };
+  }
+  const contributors = [];
+  const seen = new Set();
+  for (const entry of list) {
+    const name = cleanName(entry && entry.name);
+    const role = (entry && entry.role) || 'author';
+    if (!name) continue;
+    if (name.length > MAX_CONTRIBUTOR_NAME_LENGTH) {
+      return { error: `Contributor names must be at most ${MAX_CONTRIBUTOR_NAME_LENGTH} characters` };
+    }
+    if (!CONTRIBUTOR_ROLES.includes(role)) {
+      return { error: `role must be one of ${CONTRIBUTOR_ROLES.join(', ')}` };
+    }
+    const key = `${name.toLowerCase()}|${role}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      contributors.push({ name, role });
+    }
+  }
+  return { contributors };
+}
+
+// Display text for books.author / tutorials.creator: the people credited with `role` (everyone
+// when nobody is), as "A", "A & B" or "A, B & C". Names that do not fit become "et al.", as do
+// lists that are known to be incomplete (`etAl`), e.g. "A, B et al.".
+export function formatContributors(people, role, { etAl = false, maxLength = 255 } = {}) {
+  const credited = people.some(person => person.role === role) ? people.filter(person => person.role === role) : people;
+  const names = credited.map(person => person.name);
+  const join = (list) => (list.length <= 1 ? list.join('') : `${list.slice(0, -1).join(', ')} & ${list[list.length - 1]}`);
+
+  if (names.length === 0) return '';
+  const full = etAl ? `${names.join(', ')} et al.` : join(names);
+  if (full.length <= maxLength) return full;
+  let count = names.length - 1;
+  while (count > 1 && `${names.slice(0, count).join(', ')} et al.`.length > maxLength) count--;
+  return `${names.slice(0, count).join(', ')} et al.`.slice(0, maxLength);
+}
@@ -0,0 +1,98 @@
+// Tests for server/contributors.js.
+// Run with: npm test
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseContributors, normalizeContributors, formatContributors, hasEtAl } from './contributors.js';
+
+const names = (text, role) => parseContributors(text, role).map(person => person.name);
+
+test('splits the usual separators', () => {
+  assert.deepEqual(names('Harold Abelson, Gerald Jay Sussman'), ['Harold Abelson', 'Gerald Jay Sussman']);
+  assert.deepEqual(names('Abelson & Sussman'), ['Abelson', 'Sussman']);
+  assert.deepEqual(names('A; B and C'), ['A', 'B', 'C']);
+  assert.deepEqual(names('Thomas H. Cormen, Charles E. Leiserson, Ronald L. Rivest, and Clifford Stein'), [
+    'Thomas H. Cormen', 'Charles E. Leiserson', 'Ronald L. Rivest', 'Clifford Stein'
+  ]);
+  assert.deepEqual(names('  '), []);
+});
+
+test('reads "Last, First" as one person', () => {
+  assert.deepEqual(names('Knuth, Donald E.'), ['Donald E. Knuth']);
+  assert.deepEqual(names('King, Martin Luther, Jr.'), ['Martin Luther King Jr.']);
+});
+
+test('reads an inverted first name before splitting on "and"', () => {
+  assert.deepEqual(names('Smith, John and Jane Roe'), ['John Smith', 'Jane Roe']);
+  assert.deepEqual(names('Smith, John, and Jane Roe'), ['John Smith', 'Jane Roe']);
+  assert.deepEqual(names('Smith, John & Roe, Jane'), ['John Smith', 'Jane Roe']);
+});
+
+test('keeps name suffixes with the name before them', () => {
+  assert.deepEqual(names('Martin Luther King, Jr.'), ['Martin Luther King Jr.']);
+  assert.deepEqual(names('Jane Roe, PhD and John Doe'), ['Jane Roe PhD', 'John Doe']);
+});
+
+test('reads roles from markers', () => {
+  assert.deepEqual(parseContributors('Jane Doe (ed.)'), [{ name: 'Jane Doe', role: 'editor' }]);
+  assert.deepEqual(parseContributors('Doe, Jane (ed.)'), [{ name: 'Jane Doe', role: 'editor' }]);
+  assert.deepEqual(parseContributors('Leo Tolstoy; translated by Roe, Jane'), [
+    { name: 'Leo Tolstoy', role: 'author' },
+    { name: 'Jane Roe', role: 'translator' }
+  ]);
+  assert.deepEqual(parseContributors('edited by Jane Doe and John Roe'), [
+    { name: 'Jane Doe', role: 'editor' },
+    { name: 'John Roe', role: 'editor' }
+  ]);
+  assert.deepEqual(parseContributors('Kyle Simpson', 'instructor'), [{ name: 'Kyle Simpson', role: 'instructor' }]);
+});
+
+test('"et al." is not a person but is reported', () => {
+  assert.deepEqual(names('Kyle Simpson et al.'), ['Kyle Simpson']);
+  assert.deepEqual(names('Smith, John et al'), ['John Smith']);
+  assert.equal(hasEtAl('Kyle Simpson et al.'), true);
+  assert.equal(hasEtAl('Kyle Simpson, et al'), true);
+  assert.equal(hasEtAl('Kyle Simpson'), false);
+  assert.equal(hasEtAl(null), false);
+});
+
+test('lists each person and role once', () => {
+  assert.deepEqual(names('Jane Roe & jane roe'), ['Jane Roe']);
+  assert.deepEqual(parseContributors('Jane Roe and Jane Roe (ed.)'), [
+    { name: 'Jane Roe', role: 'author' },
+    { name: 'Jane Roe', role: 'editor' }
+  ]);
+});
+
+test('normalizeContributors checks names and roles', () => {
+  assert.deepEqual(normalizeContributors([{ name: '  Ada  Lovelace ' }, { name: '' }, { name: 'ada lovelace', role: 'author' }]), {
+    contributors: [{ name: 'Ada Lovelace', role: 'author' }]
+  });
+  assert.match(normalizeContributors('Ada Lovelace').error, /must be a list/);
+  assert.match(normalizeContributors([{ name: 'Ada', role: 'illustrator' }]).error, /role must be one of/);
+  assert.match(normalizeContributors([{ name: 'x'.repeat(256) }]).error, /at most 255/);
+});
+
+test('formatContributors writes the display text', () => {
+  const people = [
+    { name: 'Harold Abelson', role: 'author' },
+    { name: 'Gerald Jay Sussman', role: 'author' },
+    { name: 'Julie Sussman', role: 'author' },
+    { name: 'Jane Doe', role: 'editor' }
+  ];
+
+  assert.equal(formatContributors(people.slice(0, 1), 'author'), 'Harold Abelson');
+  assert.equal(formatContributors(people.slice(0, 2), 'author'), 'Harold Abelson & Gerald Jay Sussman');
+  assert.equal(formatContributors(people, 'author'), 'Harold Abelson, Gerald Jay Sussman & Julie Sussman');
+  // Nobody credited with the role: everyone is listed
+  assert.equal(formatContributors(people.slice(3), 'author'), 'Jane Doe');
+  assert.equal(formatContributors([], 'author'), '');
+  assert.equal(formatContributors([], 'author', { etAl: true }), '');
+});
+
+test('formatContributors keeps "et al." and shortens long lists with it', () => {
+  const people = [{ name: 'Kyle Simpson', role: 'author' }, { name: 'Jane Roe', role: 'author' }];
+
+  assert.equal(formatContributors(people.slice(0, 1), 'author', { etAl: true }), 'Kyle Simpson et al.');
+  assert.equal(formatContributors(people, 'author', { etAl: true }), 'Kyle Simpson, Jane Roe et al.');
+  assert.equal(formatContributors(people, 'author', { maxLength: 20 }), 'Kyle Simpson et al.');
+});
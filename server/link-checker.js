@@ -0,0 +1,109 @@
+// Checks whether the outside URLs books and tutorials point at still work.
+//
+// A URL is asked for with HEAD and, when that fails or is refused (many servers answer HEAD with
+// 403/405 or not at all), again with GET. Redirects are followed by hand, up to MAX_REDIRECTS, so
+// the final URL can be reported. Only the status line matters: response bodies are never read.
+//
+// Results:
+//   ok          - the final response had a status below 400
+//   broken      - the site answered with an HTTP error (4xx/5xx)
+//   unreachable - no answer: DNS failure, refused connection, TLS error, timeout or a redirect loop
+export const LINK_STATUSES = ['ok', 'broken', 'unreachable'];
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const MAX_REDIRECTS = 5;
+const MAX_ERROR_LENGTH = 255;
+const USER_AGENT = 'Mozilla/5.0 (compatible; iykeLib-link-checker/1.0)';
+
+export function isCheckableUrl(url) {
+  return /^https?:\/\/[^\s]+$/i.test(String(url || '').trim());
+}
+
+function describeError(error, timeoutMs) {
+  if (error.name === 'AbortError' || error.name === 'TimeoutError') return `Timed out after ${timeoutMs} ms`;
+  // fetch() wraps network errors; the cause carries the useful code (ENOTFOUND, ECONNREFUSED, ...)
+  const cause = error.cause;
+  const message = cause ? [cause.code, cause.message].filter(Boolean).join(': ') : error.message;
+  return String(message || 'Request failed').slice(0, MAX_ERROR_LENGTH);
+}
+
+async function request(url, method, timeoutMs) {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const response = await fetch(url, {
+      method,
+      redirect: 'manual',
+      signal: controller.signal,
+      headers: { 'User-Agent': USER_AGENT, Accept: '*/*' }
+    });
+    if (response.body) response.body.cancel().catch(() => {});
+    return response;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Resolves { status_code, final_url } for the last response after redirects
+async function follow(url, method, timeoutMs) {
+  let current = url;
+  for (let hops = 0; hops <= MAX_REDIRECTS; hops++) {
+    const response = await request(current, method, timeoutMs);
+    const location = response.headers.get('location');
+    if (response.status >= 300 && response.status < 400 && location) {
+      current = new URL(location, current).toString();
+      continue;
+    }
+    return { status_code: response.status, final_url: current };
+  }
+  throw new Error(`More than ${MAX_REDIRECTS} redirects`);
+}
+
+// Check one URL; resolves { status, status_code, error, final_url, response_ms } and never rejects
+export async function checkUrl(url, { timeoutMs = DEFAULT_TIMEOUT_MS } = {}) {
+  const started = Date.now();
+  const finish = (fields) => ({ status_code: null, error: null, final_url: null, ...fields, response_ms: Date.now() - started });
+
+  if (!isCheckableUrl(url)) {
+    return finish({ status: 'unreachable', error: 'Not an http(s) URL' });
+  }
+
+  let result = null;
+  let failure = null;
+  try {
+    result = await follow(url.trim(), 'HEAD', timeoutMs);
+  } catch (error) {
+    failure = error;
+  }
+  // A timeout would only time out again; anything else gets a second chance with GET
+  const timedOut = failure && (failure.name === 'AbortError' || failure.name === 'TimeoutError');
+  if (!timedOut && (failure || result.status_code >= 400)) {
+    try {
+      result = await follow(url.trim(), 'GET', timeoutMs);
+      failure = null;
+    } catch (error) {
+      if (!result) failure = error;
+    }
+  }
+
+  if (!result) {
+    return finish({ status: 'unreachable', error: describeError(failure, timeoutMs) });
+  }
+  return finish({
+    status: result.status_code < 400 ? 'ok' : 'broken',
+    status_code: result.status_code,
+    final_url: result.final_url
+  });
+}
+
+// Check many URLs, at most `concurrency` at a time, calling onResult(url, result) as each finishes
+export async function checkUrls(urls, onResult, { concurrency = 4, timeoutMs = DEFAULT_TIMEOUT_MS } = {}) {
+  const queue = [...urls];
+  const worker = async () => {
+    while (queue.length > 0) {
+      const url = queue.shift();
+      await onResult(url, await checkUrl(url, { timeoutMs }));
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, queue.length)) }, worker));
+}
@@ -0,0 +1,136 @@
+// Tests for server/link-checker.js against a local HTTP stub.
+// Run with: npm test
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'http';
+import { checkUrl, checkUrls, isCheckableUrl } from './link-checker.js';
+
+// Every request the stub answered, as "METHOD /path"
+const requests = [];
+let server;
+let base;
+
+// path -> handler(req, res)
+const routes = {
+  '/ok': (req, res) => res.writeHead(200).end('fine'),
+  '/no-head': (req, res) => res.writeHead(req.method === 'HEAD' ? 405 : 200).end(),
+  '/redirect-1': (req, res) => res.writeHead(301, { Location: '/redirect-2' }).end(),
+  '/redirect-2': (req, res) => res.writeHead(302, { Location: `${base}/redirect-3` }).end(),
+  '/redirect-3': (req, res) => res.writeHead(307, { Location: 'ok' }).end(),
+  '/loop': (req, res) => res.writeHead(302, { Location: '/loop' }).end(),
+  '/missing': (req, res) => res.writeHead(404).end('not here'),
+  '/gone': (req, res) => res.writeHead(410).end(),
+  '/error': (req, res) => res.writeHead(503).end(),
+  // Never answers, so the checker has to give up
+  '/slow': () => {}
+};
+
+before(async () => {
+  server = createServer((req, res) => {
+    requests.push(`${req.method} ${req.url}`);
+    const route = routes[req.url];
+    if (route) return route(req, res);
+    res.writeHead(404).end();
+  });
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  base = `http://127.0.0.1:${server.address().port}`;
+});
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+const requestsFor = (path) => requests.filter(line => line.endsWith(` ${path}`));
+
+test('a 200 is ok after a single HEAD', async () => {
+  const result = await checkUrl(`${base}/ok`);
+
+  assert.equal(result.status, 'ok');
+  assert.equal(result.status_code, 200);
+  assert.equal(result.final_url, `${base}/ok`);
+  assert.equal(result.error, null);
+  assert.equal(typeof result.response_ms, 'number');
+  assert.deepEqual(requestsFor('/ok'), ['HEAD /ok']);
+});
+
+test('falls back to GET when HEAD is refused', async () => {
+  const result = await checkUrl(`${base}/no-head`);
+
+  assert.equal(result.status, 'ok');
+  assert.equal(result.status_code, 200);
+  assert.deepEqual(requestsFor('/no-head'), ['HEAD /no-head', 'GET /no-head']);
+});
+
+test('follows a redirect chain to the final URL', async () => {
+  const result = await checkUrl(`${base}/redirect-1`);
+
+  assert.equal(result.status, 'ok');
+  assert.equal(result.status_code, 200);
+  assert.equal(result.final_url, `${base}/ok`);
+});
+
+test('gives up on redirect loops', async () => {
+  const result = await checkUrl(`${base}/loop`);
+
+  assert.equal(result.status, 'unreachable');
+  assert.equal(result.status_code, null);
+  assert.match(result.error, /More than 5 redirects/);
+});
+
+test('reports 404, 410 and 5xx answers as broken', async () => {
+  for (const [path, code] of [['/missing', 404], ['/gone', 410], ['/error', 503]]) {
+    const result = await checkUrl(`${base}${path}`);
+
+    assert.equal(result.status, 'broken', path);
+    assert.equal(result.status_code, code, path);
+    assert.equal(result.final_url, `${base}${path}`, path);
+    // The error status is confirmed with GET before the link counts as broken
+    assert.deepEqual(requestsFor(path), [`HEAD ${path}`, `GET ${path}`]);
+  }
+});
+
+test('times out slow servers without retrying', async () => {
+  const result = await checkUrl(`${base}/slow`, { timeoutMs: 200 });
+
+  assert.equal(result.status, 'unreachable');
+  assert.equal(result.status_code, null);
+  assert.equal(result.error, 'Timed out after 200 ms');
+  assert.deepEqual(requestsFor('/slow'), ['HEAD /slow']);
+});
+
+test('reports refused connections as unreachable', async () => {
+  const closed = createServer();
+  await new Promise(resolve => closed.listen(0, '127.0.0.1', resolve));
+  const { port } = closed.address();
+  await new Promise(resolve => closed.close(resolve));
+
+  const result = await checkUrl(`http://127.0.0.1:${port}/`);
+
+  assert.equal(result.status, 'unreachable');
+  assert.match(result.error, /ECONNREFUSED/);
+});
+
+test('only checks http(s) URLs', async () => {
+  assert.equal(isCheckableUrl('https://example.com/book'), true);
+  assert.equal(isCheckableUrl('ftp://example.com/book'), false);
+  assert.equal(isCheckableUrl('/uploads/books/a.pdf'), false);
+
+  const result = await checkUrl('mailto:someone@example.com');
+  assert.equal(result.status, 'unreachable');
+  assert.equal(result.error, 'Not an http(s) URL');
+});
+
+test('checkUrls reports every URL once', async () => {
+  const urls = [`${base}/ok`, `${base}/gone`, `${base}/redirect-1`, `${base}/no-head`];
+  const results = new Map();
+
+  await checkUrls(urls, (url, result) => { results.set(url, result.status); }, { concurrency: 2, timeoutMs: 1000 });
+
+  assert.deepEqual(Object.fromEntries(results), {
+    [`${base}/ok`]: 'ok',
+    [`${base}/gone`]: 'broken',
+    [`${base}/redirect-1`]: 'ok',
+    [`${base}/no-head`]: 'ok'
+  });
+});
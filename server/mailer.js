@@ -0,0 +1,100 @@
+// Pluggable mailer used by the API server for account emails.
+//
+// Transports:
+//   smtp    - delivers through an SMTP server (SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS, SMTP_SECURE)
+//   console - prints the message to stdout (default when SMTP_HOST is not set)
+//   file    - writes each message as JSON into MAIL_FILE_DIR, handy for local development and tests
+//
+// Select one with MAIL_TRANSPORT; every transport exposes the same `send(message)` method.
+import nodemailer from 'nodemailer';
+import { mkdirSync, existsSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+function createSmtpTransport(config) {
+  const transporter = nodemailer.createTransport({
+    host: config.smtpHost,
+    port: config.smtpPort,
+    secure: config.smtpSecure,
+    auth: config.smtpUser ? { user: config.smtpUser, pass: config.smtpPass } : undefined
+  });
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      const info = await transporter.sendMail(message);
+      return { id: info.messageId };
+    }
+  };
+}
+
+function createConsoleTransport() {
+  return {
+    name: 'console',
+    async send(message) {
+      console.log('📧 Email (console transport)');
+      console.log(`   From: ${message.from}`);
+      console.log(`   To: ${message.to}`);
+      console.log(`   Subject: ${message.subject}`);
+      console.log(message.text);
+      return { id: null };
+    }
+  };
+}
+
+function createFileTransport(config) {
+  if (!existsSync(config.fileDir)) {
+    mkdirSync(config.fileDir, { recursive: true });
+  }
+
+  return {
+    name: 'file',
+    async send(message) {
+      const id = `${Date.now()}-${Math.round(Math.random() * 1E9)}`;
+      const filePath = join(config.fileDir, `${id}.json`);
+      writeFileSync(filePath, JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2));
+      return { id, filePath };
+    }
+  };
+}
+
+// Build a mailer from environment variables (overridable for tests)
+export function createMailer(overrides = {}) {
+  const env = process.env;
+  const config = {
+    transport: env.MAIL_TRANSPORT || (env.SMTP_HOST ? 'smtp' : 'console'),
+    from: env.EMAIL_FROM || env.SMTP_USER || 'iykeLib <no-reply@localhost>',
+    smtpHost: env.SMTP_HOST,
+    smtpPort: parseInt(env.SMTP_PORT || '587', 10),
+    smtpSecure: env.SMTP_SECURE === 'true',
+    smtpUser: env.SMTP_USER,
+    smtpPass: env.SMTP_PASS,
+    fileDir: env.MAIL_FILE_DIR || join(process.cwd(), 'mail-outbox'),
+    ...overrides
+  };
+
+  let transport;
+  switch (config.transport) {
+    case 'smtp':
+      if (!config.smtpHost) {
+        throw new Error('MAIL_TRANSPORT=smtp requires SMTP_HOST');
+      }
+      transport = createSmtpTransport(config);
+      break;
+    case 'file':
+      transport = createFileTransport(config);
+      break;
+    case 'console':
+      transport = createConsoleTransport();
+      break;
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${config.transport}". Use smtp, console or file.`);
+  }
+
+  return {
+    transport: transport.name,
+    // message: { to, subject, text, html? }
+    send(message) {
+      return transport.send({ from: config.from, ...message });
+    }
+  };
+}
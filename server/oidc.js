@@ -0,0 +1,226 @@
+// OpenID Connect (and plain OAuth 2.0) sign-in providers.
+//
+// Providers are listed in OIDC_PROVIDERS (comma separated ids) and configured per id:
+//   OIDC_<ID>_CLIENT_ID, OIDC_<ID>_CLIENT_SECRET  - credentials registered with the provider
+//   OIDC_<ID>_ISSUER                              - issuer URL; endpoints come from its discovery document
+//   OIDC_<ID>_NAME                                - label for the "Continue with ..." button
+//   OIDC_<ID>_SCOPES                              - defaults to "openid email profile"
+//   OIDC_<ID>_AUTHORIZATION_URL, _TOKEN_URL, _USERINFO_URL - override or replace discovery
+//
+// `google` and `github` have presets, so only the credentials are needed for them. GitHub is
+// OAuth 2.0 without ID tokens; its profile and verified emails come from the REST API instead.
+//
+// The authorization code flow uses PKCE, a state value and a nonce. ID tokens are read from
+// the token endpoint response over TLS with client authentication, which OIDC Core 3.1.3.7
+// accepts in place of checking the signature; issuer, audience, expiry and nonce are checked.
+import { createHash, randomBytes } from 'crypto';
+
+const DISCOVERY_TTL_MS = 60 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10000;
+
+const PRESETS = {
+  google: {
+    name: 'Google',
+    issuer: 'https://accounts.google.com'
+  },
+  github: {
+    name: 'GitHub',
+    authorizationUrl: 'https://github.com/login/oauth/authorize',
+    tokenUrl: 'https://github.com/login/oauth/access_token',
+    userinfoUrl: 'https://api.github.com/user',
+    emailsUrl: 'https://api.github.com/user/emails',
+    scopes: 'read:user user:email'
+  }
+};
+
+const discoveryCache = new Map();
+
+function base64url(buffer) {
+  return buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+// Read the providers configured in the environment; ids are lower-case and URL safe
+export function loadOidcProviders(env = process.env) {
+  const providers = new Map();
+  const ids = String(env.OIDC_PROVIDERS || '')
+    .split(',')
+    .map(id => id.trim().toLowerCase())
+    .filter(Boolean);
+
+  for (const id of ids) {
+    if (!/^[a-z0-9_-]+$/.test(id)) {
+      console.warn(`Ignoring OIDC provider with invalid id "${id}"`);
+      continue;
+    }
+    const prefix = `OIDC_${id.toUpperCase().replace(/-/g, '_')}_`;
+    const preset = PRESETS[id] || {};
+    const provider = {
+      id,
+      name: env[`${prefix}NAME`] || preset.name || id,
+      clientId: env[`${prefix}CLIENT_ID`] || '',
+      clientSecret: env[`${prefix}CLIENT_SECRET`] || '',
+      issuer: (env[`${prefix}ISSUER`] || preset.issuer || '').replace(/\/$/, ''),
+      authorizationUrl: env[`${prefix}AUTHORIZATION_URL`] || preset.authorizationUrl || '',
+      tokenUrl: env[`${prefix}TOKEN_URL`] || preset.tokenUrl || '',
+      userinfoUrl: env[`${prefix}USERINFO_URL`] || preset.userinfoUrl || '',
+      emailsUrl: preset.emailsUrl || '',
+      scopes: env[`${prefix}SCOPES`] || preset.scopes || 'openid email profile'
+    };
+
+    if (!provider.clientId || (!provider.issuer && !(provider.authorizationUrl && provider.tokenUrl))) {
+      console.warn(`OIDC provider "${id}" needs a client id and either an issuer or explicit endpoints`);
+      continue;
+    }
+    providers.set(id, provider);
+  }
+
+  return providers;
+}
+
+async function fetchJson(url, options = {}) {
+  const response = await fetch(url, {
+    ...options,
+    headers: { Accept: 'application/json', ...(options.headers || {}) },
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+  });
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    const detail = body && (body.error_description || body.error || body.message);
+    throw new Error(`${url} responded ${response.status}${detail ? `: ${detail}` : ''}`);
+  }
+  return body;
+}
+
+// Resolve a provider's endpoints, reading (and caching) the issuer's discovery document
+export async function getProviderEndpoints(provider) {
+  if (!provider.issuer) {
+    return {
+      issuer: null,
+      authorizationUrl: provider.authorizationUrl,
+      tokenUrl: provider.tokenUrl,
+      userinfoUrl: provider.userinfoUrl
+    };
+  }
+
+  const cached = discoveryCache.get(provider.id);
+  if (cached && cached.expiresAt > Date.now()) return cached.endpoints;
+
+  const metadata = await fetchJson(`${provider.issuer}/.well-known/openid-configuration`);
+  const endpoints = {
+    issuer: metadata.issuer || provider.issuer,
+    authorizationUrl: provider.authorizationUrl || metadata.authorization_endpoint,
+    tokenUrl: provider.tokenUrl || metadata.token_endpoint,
+    userinfoUrl: provider.userinfoUrl || metadata.userinfo_endpoint || ''
+  };
+  if (!endpoints.authorizationUrl || !endpoints.tokenUrl) {
+    throw new Error(`Discovery document for "${provider.id}" has no authorization or token endpoint`);
+  }
+
+  discoveryCache.set(provider.id, { endpoints, expiresAt: Date.now() + DISCOVERY_TTL_MS });
+  return endpoints;
+}
+
+// Random values for one sign-in attempt: state, nonce and the PKCE verifier/challenge pair
+export function createAuthorizationRequest() {
+  const codeVerifier = base64url(randomBytes(32));
+  return {
+    state: base64url(randomBytes(32)),
+    nonce: base64url(randomBytes(16)),
+    codeVerifier,
+    codeChallenge: base64url(createHash('sha256').update(codeVerifier).digest())
+  };
+}
+
+export function buildAuthorizationUrl(provider, endpoints, { state, nonce, codeChallenge, redirectUri }) {
+  const url = new URL(endpoints.authorizationUrl);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', provider.clientId);
+  url.searchParams.set('redirect_uri', redirectUri);
+  url.searchParams.set('scope', provider.scopes);
+  url.searchParams.set('state', state);
+  url.searchParams.set('nonce', nonce);
+  url.searchParams.set('code_challenge', codeChallenge);
+  url.searchParams.set('code_challenge_method', 'S256');
+  return url.toString();
+}
+
+function decodeIdToken(idToken) {
+  const parts = String(idToken).split('.');
+  if (parts.length !== 3) throw new Error('Malformed ID token');
+  return JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8'));
+}
+
+function checkIdTokenClaims(claims, provider, endpoints, nonce) {
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (endpoints.issuer && claims.iss !== endpoints.issuer) throw new Error('ID token issuer mismatch');
+  if (!audiences.includes(provider.clientId)) throw new Error('ID token audience mismatch');
+  if (!claims.exp || claims.exp * 1000 < Date.now()) throw new Error('ID token has expired');
+  if (claims.nonce !== nonce) throw new Error('ID token nonce mismatch');
+  if (!claims.sub) throw new Error('ID token has no subject');
+}
+
+async function fetchGithubIdentity(provider, accessToken) {
+  const headers = { Authorization: `Bearer ${accessToken}` };
+  const profile = await fetchJson(provider.userinfoUrl, { headers });
+  const emails = await fetchJson(provider.emailsUrl, { headers }).catch(() => []);
+  const primary = (Array.isArray(emails) ? emails : []).find(entry => entry.primary && entry.verified);
+  const [givenName, ...familyName] = String(profile.name || '').split(' ');
+
+  return {
+    subject: String(profile.id),
+    email: primary ? primary.email : null,
+    emailVerified: Boolean(primary),
+    givenName: givenName || null,
+    familyName: familyName.join(' ') || null,
+    preferredUsername: profile.login || null
+  };
+}
+
+// Swap the authorization code for tokens and return the signed-in identity:
+// { subject, email, emailVerified, givenName, familyName, preferredUsername }
+export async function completeAuthorization(provider, endpoints, { code, codeVerifier, nonce, redirectUri }) {
+  const tokens = await fetchJson(endpoints.tokenUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: redirectUri,
+      client_id: provider.clientId,
+      client_secret: provider.clientSecret,
+      code_verifier: codeVerifier
+    })
+  });
+  if (!tokens || !tokens.access_token) throw new Error('Token response has no access token');
+
+  if (provider.emailsUrl) {
+    return fetchGithubIdentity(provider, tokens.access_token);
+  }
+
+  let claims = {};
+  if (tokens.id_token) {
+    claims = decodeIdToken(tokens.id_token);
+    checkIdTokenClaims(claims, provider, endpoints, nonce);
+  } else if (!endpoints.userinfoUrl) {
+    throw new Error('Token response has no ID token and the provider has no userinfo endpoint');
+  }
+
+  // Userinfo fills in claims some providers leave out of the ID token
+  if (endpoints.userinfoUrl) {
+    const userinfo = await fetchJson(endpoints.userinfoUrl, {
+      headers: { Authorization: `Bearer ${tokens.access_token}` }
+    });
+    if (claims.sub && userinfo.sub !== claims.sub) throw new Error('Userinfo subject does not match the ID token');
+    claims = { ...userinfo, ...claims };
+  }
+  if (!claims.sub) throw new Error('Provider did not return a subject');
+
+  return {
+    subject: String(claims.sub),
+    email: claims.email || null,
+    emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+    givenName: claims.given_name || null,
+    familyName: claims.family_name || null,
+    preferredUsername: claims.preferred_username || claims.nickname || null
+  };
+}
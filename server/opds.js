@@ -0,0 +1,194 @@
+// OPDS catalog feeds for e-reader apps (KOReader, Thorium, ...).
+//
+// Every feed is described once as { id, title, updated, kind, links, entries | publications,
+// pagination } and rendered either as OPDS 1.2 (Atom XML) or OPDS 2.0 (JSON). `kind` is
+// 'navigation' (entries link to other feeds) or 'acquisition' (publications are books).
+// Hrefs are absolute, built from `baseUrl` (the site's address, which also serves /api).
+
+const ATOM_TYPES = {
+  navigation: 'application/atom+xml;profile=opds-catalog;kind=navigation',
+  acquisition: 'application/atom+xml;profile=opds-catalog;kind=acquisition'
+};
+export const OPDS1_CONTENT_TYPE = 'application/atom+xml;charset=utf-8';
+export const OPDS2_CONTENT_TYPE = 'application/opds+json';
+const OPDS2_PUBLICATION_TYPE = 'application/opds-publication+json';
+
+const ACQUISITION = 'http://opds-spec.org/acquisition';
+const ACQUISITION_OPEN = 'http://opds-spec.org/acquisition/open-access';
+const ACQUISITION_BUY = 'http://opds-spec.org/acquisition/buy';
+const IMAGE = 'http://opds-spec.org/image';
+const THUMBNAIL = 'http://opds-spec.org/image/thumbnail';
+
+function xmlEscape(value) {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '');
+}
+
+function isoDate(value) {
+  const date = value instanceof Date ? value : new Date(value || Date.now());
+  return Number.isNaN(date.getTime()) ? new Date().toISOString() : date.toISOString();
+}
+
+// The links a book offers: where to get the file (or buy / open it), its cover and its web page.
+// `book.file_type` must already be the MIME type of the stored file.
+function bookLinks(book, { baseUrl }) {
+  const links = [];
+  if (book.book_type === 'file' && (book.file_path || book.has_file_content)) {
+    links.push({ rel: ACQUISITION, href: `${baseUrl}/api/books/${book.id}/download`, type: book.file_type || 'application/octet-stream' });
+  } else if (book.book_type === 'link' && book.external_link) {
+    links.push({ rel: ACQUISITION_OPEN, href: book.external_link, type: 'text/html' });
+  } else if (book.book_type === 'purchase' && book.purchase_link) {
+    links.push({
+      rel: ACQUISITION_BUY,
+      href: `${baseUrl}/api/books/${book.id}/purchase`, // counted as a purchase click, then redirected
+      type: 'text/html',
+      price: book.price !== null && book.price !== undefined ? { value: Number(book.price), currency: book.currency || 'USD' } : null
+    });
+  }
+  links.push({ rel: IMAGE, href: `${baseUrl}/api/books/${book.id}/thumbnail` });
+  links.push({ rel: THUMBNAIL, href: `${baseUrl}/api/books/${book.id}/thumbnail` });
+  links.push({ rel: 'alternate', href: `${baseUrl}/books/${book.id}`, type: 'text/html' });
+  return links;
+}
+
+function atomLink({ rel, href, type, title, price }) {
+  const attributes = [
+    rel ? `rel="${xmlEscape(rel)}"` : '',
+    `href="${xmlEscape(href)}"`,
+    type ? `type="${xmlEscape(type)}"` : '',
+    title ? `title="${xmlEscape(title)}"` : ''
+  ].filter(Boolean).join(' ');
+  if (!price) return `<link ${attributes}/>`;
+  return `<link ${attributes}><opds:price currencycode="${xmlEscape(price.currency)}">${price.value.toFixed(2)}</opds:price></link>`;
+}
+
+function atomNavigationEntry(entry) {
+  return [
+    '  <entry>',
+    `    <title>${xmlEscape(entry.title)}</title>`,
+    `    <id>${xmlEscape(entry.id)}</id>`,
+    `    <updated>${isoDate(entry.updated)}</updated>`,
+    entry.description ? `    <content type="text">${xmlEscape(entry.description)}</content>` : '',
+    `    ${atomLink({ rel: 'subsection', href: entry.href, type: ATOM_TYPES[entry.kind] })}`,
+    '  </entry>'
+  ].filter(Boolean).join('\n');
+}
+
+function atomPublicationEntry(book, urls) {
+  return [
+    '  <entry>',
+    `    <title>${xmlEscape(book.title)}</title>`,
+    `    <id>urn:iykelib:book:${book.id}</id>`,
+    `    <updated>${isoDate(book.updated_at)}</updated>`,
+    book.author ? `    <author><name>${xmlEscape(book.author)}</name></author>` : '',
+    book.isbn ? `    <dc:identifier>urn:isbn:${xmlEscape(book.isbn)}</dc:identifier>` : '',
+    book.published_year ? `    <dc:issued>${xmlEscape(book.published_year)}</dc:issued>` : '',
+    book.category_name ? `    <category term="${xmlEscape(book.category_slug || book.category_name)}" label="${xmlEscape(book.category_name)}"/>` : '',
+    book.description ? `    <summary type="text">${xmlEscape(book.description)}</summary>` : '',
+    ...bookLinks(book, urls).map(link => `    ${atomLink(link)}`),
+    '  </entry>'
+  ].filter(Boolean).join('\n');
+}
+
+// OPDS 1.2: an Atom feed
+export function renderOpds1(feed, urls) {
+  const { pagination } = feed;
+  const entries = feed.kind === 'navigation'
+    ? feed.entries.map(atomNavigationEntry)
+    : feed.publications.map(book => atomPublicationEntry(book, urls));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/terms/" xmlns:opds="http://opds-spec.org/2010/catalog" xmlns:opensearch="http://a9.com/-/spec/opensearch/1.1/">',
+    `  <id>${xmlEscape(feed.id)}</id>`,
+    `  <title>${xmlEscape(feed.title)}</title>`,
+    `  <updated>${isoDate(feed.updated)}</updated>`,
+    `  <author><name>${xmlEscape(urls.catalogName)}</name><uri>${xmlEscape(urls.baseUrl)}</uri></author>`,
+    `  ${atomLink({ rel: 'self', href: feed.links.self, type: ATOM_TYPES[feed.kind] })}`,
+    `  ${atomLink({ rel: 'start', href: feed.links.start, type: ATOM_TYPES.navigation })}`,
+    `  ${atomLink({ rel: 'search', href: feed.links.openSearch, type: 'application/opensearchdescription+xml' })}`,
+    ...['first', 'previous', 'next'].filter(rel => feed.links[rel]).map(rel => `  ${atomLink({ rel, href: feed.links[rel], type: ATOM_TYPES[feed.kind] })}`),
+    pagination ? `  <opensearch:totalResults>${pagination.total}</opensearch:totalResults>` : '',
+    pagination ? `  <opensearch:itemsPerPage>${pagination.perPage}</opensearch:itemsPerPage>` : '',
+    pagination ? `  <opensearch:startIndex>${(pagination.page - 1) * pagination.perPage + 1}</opensearch:startIndex>` : '',
+    ...entries,
+    '</feed>'
+  ].filter(Boolean).join('\n') + '\n';
+}
+
+function jsonPublication(book, urls) {
+  const links = bookLinks(book, urls);
+  const metadata = {
+    '@type': 'http://schema.org/Book',
+    identifier: book.isbn ? `urn:isbn:${book.isbn}` : `urn:iykelib:book:${book.id}`,
+    title: book.title,
+    modified: isoDate(book.updated_at)
+  };
+  if (book.author) metadata.author = { name: book.author };
+  if (book.description) metadata.description = book.description;
+  if (book.published_year) metadata.published = String(book.published_year);
+  if (book.page_count) metadata.numberOfPages = book.page_count;
+  if (book.category_name) metadata.subject = [{ name: book.category_name, code: book.category_slug || undefined }];
+
+  return {
+    metadata,
+    links: [
+      { rel: 'self', href: `${urls.baseUrl}/api/opds/v2/books/${book.id}`, type: OPDS2_PUBLICATION_TYPE },
+      ...links
+        .filter(link => link.rel !== IMAGE && link.rel !== THUMBNAIL)
+        .map(({ price, ...link }) => (price ? { ...link, properties: { price } } : link))
+    ],
+    images: [{ href: `${urls.baseUrl}/api/books/${book.id}/thumbnail` }]
+  };
+}
+
+// OPDS 2.0: a JSON feed
+export function renderOpds2(feed, urls) {
+  const { pagination } = feed;
+  const metadata = { title: feed.title, modified: isoDate(feed.updated) };
+  if (pagination) {
+    metadata.numberOfItems = pagination.total;
+    metadata.itemsPerPage = pagination.perPage;
+    metadata.currentPage = pagination.page;
+  }
+
+  const links = [
+    { rel: 'self', href: feed.links.self, type: OPDS2_CONTENT_TYPE },
+    { rel: 'start', href: feed.links.start, type: OPDS2_CONTENT_TYPE },
+    { rel: 'search', href: feed.links.searchTemplate, type: OPDS2_CONTENT_TYPE, templated: true },
+    ...['first', 'previous', 'next'].filter(rel => feed.links[rel]).map(rel => ({ rel, href: feed.links[rel], type: OPDS2_CONTENT_TYPE }))
+  ];
+
+  if (feed.kind === 'navigation') {
+    return {
+      metadata,
+      links,
+      navigation: feed.entries.map(entry => ({ href: entry.href, title: entry.title, type: OPDS2_CONTENT_TYPE, rel: 'subsection' }))
+    };
+  }
+  return { metadata, links, publications: feed.publications.map(book => jsonPublication(book, urls)) };
+}
+
+// A single publication for OPDS 2.0 clients that follow a publication's self link
+export function renderOpds2Publication(book, urls) {
+  return jsonPublication(book, urls);
+}
+
+// OpenSearch description so OPDS 1.2 clients know how to search
+export function renderOpenSearchDescription({ catalogName, template }) {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<OpenSearchDescription xmlns="http://a9.com/-/spec/opensearch/1.1/">',
+    `  <ShortName>${xmlEscape(catalogName)}</ShortName>`,
+    `  <Description>Search the ${xmlEscape(catalogName)} catalog</Description>`,
+    '  <InputEncoding>UTF-8</InputEncoding>',
+    '  <OutputEncoding>UTF-8</OutputEncoding>',
+    `  <Url type="${ATOM_TYPES.acquisition}" template="${xmlEscape(template)}"/>`,
+    '</OpenSearchDescription>',
+    ''
+  ].join('\n');
+}
@@ -0,0 +1,197 @@
+// Pluggable storage for uploaded book files and generated thumbnails.
+//
+// Backends:
+//   local - files in the uploads folder, addressed as /uploads/<key> (the folder is also served statically)
+//   s3    - an S3 bucket or an S3-compatible service such as MinIO (S3_ENDPOINT), addressed as s3://bucket/key
+//   db    - legacy only: bytes in the books.file_content / thumbnail_content LONGBLOB columns. Nothing new is
+//           written there; callers read the columns when a row has no location, and the storage migration
+//           (POST /api/admin/storage/migrate) moves the bytes into the configured backend.
+//
+// STORAGE_BACKEND picks where new files go (s3 when a bucket is configured, local otherwise). A location is
+// always read by the backend that wrote it, so rows written before a switch keep working.
+import { createReadStream, createWriteStream, existsSync, mkdirSync, renameSync, copyFileSync, unlinkSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join, relative, sep } from 'path';
+import { createHash } from 'crypto';
+import { pipeline } from 'stream/promises';
+import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+
+const LOCAL_PREFIX = '/uploads/';
+const S3_PREFIX = 's3://';
+
+function parseS3Location(location) {
+  const bucketAndKey = String(location).slice(S3_PREFIX.length);
+  const firstSlash = bucketAndKey.indexOf('/');
+  return { Bucket: bucketAndKey.substring(0, firstSlash), Key: bucketAndKey.substring(firstSlash + 1) };
+}
+
+// Keys are relative paths such as books/1700000000_sicp.pdf; anything that could climb out is dropped
+function safeKey(key) {
+  return String(key)
+    .split('/')
+    .map(part => part.replace(/[^A-Za-z0-9._-]/g, '_'))
+    .filter(part => part && part !== '.' && part !== '..')
+    .join('/');
+}
+
+function createS3Client(config) {
+  if (!config.s3Bucket || !config.s3AccessKey || !config.s3Secret || (!config.s3Region && !config.s3Endpoint)) {
+    return null;
+  }
+  return new S3Client({
+    region: config.s3Region || 'us-east-1',
+    endpoint: config.s3Endpoint || undefined,
+    forcePathStyle: config.s3ForcePathStyle,
+    credentials: {
+      accessKeyId: config.s3AccessKey,
+      secretAccessKey: config.s3Secret
+    }
+  });
+}
+
+// Build the file storage from environment variables (overridable for tests)
+export function createFileStorage(overrides = {}) {
+  const env = process.env;
+  const config = {
+    uploadsDir: join(process.cwd(), 'uploads'),
+    s3Bucket: env.S3_BUCKET || env.AWS_S3_BUCKET || '',
+    s3Region: env.S3_REGION || env.AWS_REGION || '',
+    s3AccessKey: env.S3_ACCESS_KEY_ID || env.AWS_ACCESS_KEY_ID || '',
+    s3Secret: env.S3_SECRET_ACCESS_KEY || env.AWS_SECRET_ACCESS_KEY || '',
+    s3Endpoint: env.S3_ENDPOINT || '',
+    // MinIO and most other S3-compatible services want path-style URLs
+    s3ForcePathStyle: env.S3_FORCE_PATH_STYLE ? env.S3_FORCE_PATH_STYLE === 'true' : Boolean(env.S3_ENDPOINT),
+    ...overrides
+  };
+  const s3 = createS3Client(config);
+  const backend = config.backend || env.STORAGE_BACKEND || (s3 ? 's3' : 'local');
+
+  if (backend !== 'local' && backend !== 's3') {
+    throw new Error(`Unknown STORAGE_BACKEND "${backend}". Use local or s3.`);
+  }
+  if (backend === 's3' && !s3) {
+    throw new Error('STORAGE_BACKEND=s3 requires S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY and S3_REGION or S3_ENDPOINT');
+  }
+  if (!existsSync(config.uploadsDir)) {
+    mkdirSync(config.uploadsDir, { recursive: true });
+  }
+
+  const requireS3 = () => {
+    if (!s3) throw new Error('S3 not configured on server');
+    return s3;
+  };
+
+  // Absolute path of a local location, or null for S3 locations and paths outside the uploads folder
+  const localPath = (location) => {
+    if (!String(location || '').startsWith(LOCAL_PREFIX)) return null;
+    const diskPath = join(config.uploadsDir, String(location).slice(LOCAL_PREFIX.length));
+    return diskPath.startsWith(config.uploadsDir + sep) ? diskPath : null;
+  };
+
+  const localLocation = (diskPath) => `${LOCAL_PREFIX}${relative(config.uploadsDir, diskPath).split(sep).join('/')}`;
+
+  return {
+    backend,
+    s3Configured: Boolean(s3),
+
+    describe() {
+      return backend === 's3'
+        ? { backend, bucket: config.s3Bucket, endpoint: config.s3Endpoint || null }
+        : { backend, directory: config.uploadsDir };
+    },
+
+    isLocation(location) {
+      const value = String(location || '');
+      return value.startsWith(LOCAL_PREFIX) || value.startsWith(S3_PREFIX);
+    },
+
+    localPath,
+
+    // Store a Buffer or stream under `key` in the configured backend and return its location
+    async write(key, body, { contentType } = {}) {
+      const cleanKey = safeKey(key);
+      if (backend === 's3') {
+        await requireS3().send(new PutObjectCommand({ Bucket: config.s3Bucket, Key: cleanKey, Body: body, ContentType: contentType }));
+        return `${S3_PREFIX}${config.s3Bucket}/${cleanKey}`;
+      }
+      const diskPath = join(config.uploadsDir, cleanKey);
+      mkdirSync(dirname(diskPath), { recursive: true });
+      if (Buffer.isBuffer(body)) {
+        writeFileSync(diskPath, body);
+      } else {
+        await pipeline(body, createWriteStream(diskPath));
+      }
+      return localLocation(diskPath);
+    },
+
+    // Store a file that is already on this server's disk (e.g. a multer upload); the source file is
+    // moved, so callers must not use it afterwards. Uploads already in the uploads folder stay put.
+    async writeFile(sourcePath, key, { contentType } = {}) {
+      if (backend === 's3') {
+        const location = await this.write(key, createReadStream(sourcePath), { contentType });
+        try { unlinkSync(sourcePath); } catch (e) {}
+        return location;
+      }
+      if (sourcePath.startsWith(config.uploadsDir + sep)) {
+        return localLocation(sourcePath);
+      }
+      const diskPath = join(config.uploadsDir, safeKey(key));
+      mkdirSync(dirname(diskPath), { recursive: true });
+      try {
+        renameSync(sourcePath, diskPath);
+      } catch (renameErr) {
+        // Different filesystem (e.g. a tmpfs /tmp): copy instead
+        copyFileSync(sourcePath, diskPath);
+        unlinkSync(sourcePath);
+      }
+      return localLocation(diskPath);
+    },
+
+    async read(location) {
+      const diskPath = localPath(location);
+      if (diskPath) {
+        if (!existsSync(diskPath)) throw new Error(`File not found: ${location}`);
+        return readFileSync(diskPath);
+      }
+      if (String(location || '').startsWith(S3_PREFIX)) {
+        const object = await requireS3().send(new GetObjectCommand(parseS3Location(location)));
+        return Buffer.from(await object.Body.transformToByteArray());
+      }
+      throw new Error(`Not a storage location: ${location}`);
+    },
+
+    // Stream an S3 object, forwarding an HTTP Range header. Local files are served from localPath().
+    async open(location, { range } = {}) {
+      const object = await requireS3().send(new GetObjectCommand({ ...parseS3Location(location), Range: range }));
+      return { body: object.Body, contentLength: object.ContentLength, contentRange: object.ContentRange || null };
+    },
+
+    // Time-limited download URL for S3 objects; null for local files
+    async signedUrl(location, { expiresIn = 3600 } = {}) {
+      if (!String(location || '').startsWith(S3_PREFIX)) return null;
+      return getSignedUrl(requireS3(), new GetObjectCommand(parseS3Location(location)), { expiresIn });
+    },
+
+    async remove(location) {
+      const diskPath = localPath(location);
+      if (diskPath) {
+        if (existsSync(diskPath)) unlinkSync(diskPath);
+        return;
+      }
+      if (String(location || '').startsWith(S3_PREFIX)) {
+        await requireS3().send(new DeleteObjectCommand(parseS3Location(location)));
+      }
+    },
+
+    // SHA-256 of the stored bytes, read back from the backend
+    async checksum(location) {
+      const hash = createHash('sha256');
+      const diskPath = localPath(location);
+      const stream = diskPath ? createReadStream(diskPath) : (await this.open(location)).body;
+      for await (const chunk of stream) {
+        hash.update(chunk);
+      }
+      return hash.digest('hex');
+    }
+  };
+}
@@ -0,0 +1,261 @@
+// Tests for server/storage.js against a temporary uploads folder and a local S3 stand-in.
+// Run with: npm test
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'http';
+import { createHash } from 'crypto';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Readable } from 'stream';
+import { createFileStorage } from './storage.js';
+
+const sha256 = (buffer) => createHash('sha256').update(buffer).digest('hex');
+
+const collect = async (stream) => {
+  const chunks = [];
+  for await (const chunk of stream) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks);
+};
+
+// Streamed uploads arrive aws-chunked: "<hex size>[;chunk-signature=...]\r\n<bytes>\r\n" ... "0\r\n<trailers>"
+function decodeAwsChunked(body) {
+  const parts = [];
+  let offset = 0;
+  for (;;) {
+    const lineEnd = body.indexOf('\r\n', offset);
+    const size = parseInt(body.subarray(offset, lineEnd).toString().split(';')[0], 16);
+    if (!size) break;
+    parts.push(body.subarray(lineEnd + 2, lineEnd + 2 + size));
+    offset = lineEnd + 2 + size + 2;
+  }
+  return Buffer.concat(parts);
+}
+
+// Just enough of the S3 REST API (path-style PUT/GET/DELETE object, single byte ranges) for the storage
+// backend, in the spirit of a local MinIO. Signatures are not checked.
+function startS3Stub() {
+  const objects = new Map();
+  const server = createServer(async (req, res) => {
+    const key = decodeURIComponent(new URL(req.url, 'http://stub').pathname.slice(1));
+
+    if (req.method === 'PUT') {
+      const raw = await collect(req);
+      const chunked = String(req.headers['content-encoding'] || '').includes('aws-chunked') ||
+        String(req.headers['x-amz-content-sha256'] || '').startsWith('STREAMING-');
+      objects.set(key, { body: chunked ? decodeAwsChunked(raw) : raw, contentType: req.headers['content-type'] });
+      res.writeHead(200, { ETag: '"stub"' });
+      return res.end();
+    }
+
+    if (req.method === 'DELETE') {
+      objects.delete(key);
+      res.writeHead(204);
+      return res.end();
+    }
+
+    const object = objects.get(key);
+    if (!object) {
+      res.writeHead(404, { 'Content-Type': 'application/xml' });
+      return res.end('<?xml version="1.0" encoding="UTF-8"?><Error><Code>NoSuchKey</Code><Message>The specified key does not exist.</Message></Error>');
+    }
+    const range = /^bytes=(\d+)-(\d*)$/.exec(req.headers.range || '');
+    if (range) {
+      const start = Number(range[1]);
+      const end = range[2] ? Math.min(Number(range[2]), object.body.length - 1) : object.body.length - 1;
+      res.writeHead(206, {
+        'Content-Type': object.contentType || 'application/octet-stream',
+        'Content-Length': end - start + 1,
+        'Content-Range': `bytes ${start}-${end}/${object.body.length}`
+      });
+      return res.end(object.body.subarray(start, end + 1));
+    }
+    res.writeHead(200, { 'Content-Type': object.contentType || 'application/octet-stream', 'Content-Length': object.body.length });
+    res.end(object.body);
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => resolve({ server, objects, endpoint: `http://127.0.0.1:${server.address().port}` }));
+  });
+}
+
+describe('local storage', () => {
+  let uploadsDir;
+  let storage;
+
+  before(() => {
+    uploadsDir = mkdtempSync(join(tmpdir(), 'storage-local-'));
+    storage = createFileStorage({ backend: 'local', uploadsDir, s3Bucket: '' });
+  });
+
+  after(() => rmSync(uploadsDir, { recursive: true, force: true }));
+
+  test('writes and reads back a buffer', async () => {
+    const bytes = Buffer.from('%PDF-1.4 local test');
+    const location = await storage.write('books/1700000000_sicp.pdf', bytes);
+
+    assert.equal(location, '/uploads/books/1700000000_sicp.pdf');
+    assert.deepEqual(readFileSync(join(uploadsDir, 'books', '1700000000_sicp.pdf')), bytes);
+    assert.deepEqual(await storage.read(location), bytes);
+  });
+
+  test('writes a stream', async () => {
+    const location = await storage.write('books/streamed.epub', Readable.from([Buffer.from('PK'), Buffer.from('\x03\x04 epub')]));
+
+    assert.equal((await storage.read(location)).toString('latin1'), 'PK\x03\x04 epub');
+  });
+
+  test('moves a file from outside the uploads folder into it', async () => {
+    const sourceDir = mkdtempSync(join(tmpdir(), 'storage-source-'));
+    const sourcePath = join(sourceDir, 'upload.tmp');
+    writeFileSync(sourcePath, 'uploaded bytes');
+    try {
+      const location = await storage.writeFile(sourcePath, 'books/moved.pdf');
+
+      assert.equal(location, '/uploads/books/moved.pdf');
+      assert.equal(existsSync(sourcePath), false);
+      assert.equal((await storage.read(location)).toString(), 'uploaded bytes');
+    } finally {
+      rmSync(sourceDir, { recursive: true, force: true });
+    }
+  });
+
+  test('streams the stored bytes for checksums', async () => {
+    const bytes = Buffer.alloc(200000, 'x');
+    const location = await storage.write('books/large.pdf', bytes);
+
+    assert.equal(await storage.checksum(location), sha256(bytes));
+  });
+
+  test('deletes a file', async () => {
+    const location = await storage.write('thumbnails/book_1.png', Buffer.from('png'));
+    await storage.remove(location);
+
+    assert.equal(existsSync(storage.localPath(location)), false);
+    await assert.rejects(storage.read(location), /File not found/);
+    // Removing it again is not an error
+    await storage.remove(location);
+  });
+
+  test('localPath only resolves locations inside the uploads folder', () => {
+    assert.equal(storage.localPath('/uploads/books/a.pdf'), join(uploadsDir, 'books', 'a.pdf'));
+    assert.equal(storage.localPath('/uploads/../secret.txt'), null);
+    assert.equal(storage.localPath('/uploads/books/../../secret.txt'), null);
+    assert.equal(storage.localPath('/uploads/'), null);
+    assert.equal(storage.localPath('/etc/passwd'), null);
+    assert.equal(storage.localPath('s3://bucket/books/a.pdf'), null);
+    assert.equal(storage.localPath(null), null);
+  });
+
+  test('keys cannot climb out of the uploads folder', async () => {
+    const location = await storage.write('../../books/../escape.pdf', Buffer.from('x'));
+
+    assert.equal(location, '/uploads/books/escape.pdf');
+    assert.ok(storage.localPath(location).startsWith(uploadsDir));
+  });
+
+  test('refuses locations that are not storage locations', async () => {
+    assert.equal(storage.isLocation('https://example.com/book.pdf'), false);
+    await assert.rejects(storage.read('https://example.com/book.pdf'), /Not a storage location/);
+  });
+});
+
+describe('S3 storage', () => {
+  let stub;
+  let uploadsDir;
+  let storage;
+
+  before(async () => {
+    stub = await startS3Stub();
+    uploadsDir = mkdtempSync(join(tmpdir(), 'storage-s3-'));
+    storage = createFileStorage({
+      backend: 's3',
+      uploadsDir,
+      s3Bucket: 'library',
+      s3Region: 'us-east-1',
+      s3AccessKey: 'minioadmin',
+      s3Secret: 'minioadmin',
+      s3Endpoint: stub.endpoint,
+      s3ForcePathStyle: true
+    });
+  });
+
+  after(() => {
+    stub.server.close();
+    rmSync(uploadsDir, { recursive: true, force: true });
+  });
+
+  test('writes and reads back a buffer', async () => {
+    const bytes = Buffer.from('%PDF-1.7 s3 test');
+    const location = await storage.write('books/1700000000_sicp.pdf', bytes, { contentType: 'application/pdf' });
+
+    assert.equal(location, 's3://library/books/1700000000_sicp.pdf');
+    assert.deepEqual(stub.objects.get('library/books/1700000000_sicp.pdf').body, bytes);
+    assert.equal(stub.objects.get('library/books/1700000000_sicp.pdf').contentType, 'application/pdf');
+    assert.deepEqual(await storage.read(location), bytes);
+  });
+
+  test('uploads a file from disk and removes the source', async () => {
+    const sourcePath = join(uploadsDir, '..', `storage-s3-upload-${process.pid}.tmp`);
+    writeFileSync(sourcePath, 'uploaded to s3');
+    const location = await storage.writeFile(sourcePath, 'books/uploaded.pdf');
+
+    assert.equal(location, 's3://library/books/uploaded.pdf');
+    assert.equal(existsSync(sourcePath), false);
+    assert.equal((await storage.read(location)).toString(), 'uploaded to s3');
+  });
+
+  test('streams objects with byte ranges', async () => {
+    const location = await storage.write('books/range.pdf', Buffer.from('0123456789'));
+
+    const whole = await storage.open(location);
+    assert.equal((await collect(whole.body)).toString(), '0123456789');
+
+    const part = await storage.open(location, { range: 'bytes=2-5' });
+    assert.equal(part.contentLength, 4);
+    assert.equal(part.contentRange, 'bytes 2-5/10');
+    assert.equal((await collect(part.body)).toString(), '2345');
+  });
+
+  test('checksums the stored bytes', async () => {
+    const bytes = Buffer.alloc(100000, 'y');
+    const location = await storage.write('books/sum.pdf', bytes);
+
+    assert.equal(await storage.checksum(location), sha256(bytes));
+  });
+
+  test('signs download URLs for S3 locations only', async () => {
+    const location = await storage.write('books/signed.pdf', Buffer.from('x'));
+    const url = new URL(await storage.signedUrl(location, { expiresIn: 60 }));
+
+    assert.equal(url.origin, stub.endpoint);
+    assert.equal(url.pathname, '/library/books/signed.pdf');
+    assert.equal(url.searchParams.get('X-Amz-Expires'), '60');
+    assert.equal(await storage.signedUrl('/uploads/books/signed.pdf'), null);
+  });
+
+  test('deletes an object', async () => {
+    const location = await storage.write('books/gone.pdf', Buffer.from('x'));
+    await storage.remove(location);
+
+    assert.equal(stub.objects.has('library/books/gone.pdf'), false);
+    await assert.rejects(storage.read(location), { name: 'NoSuchKey' });
+  });
+
+  test('still reads files written to local disk before the switch', async () => {
+    const local = createFileStorage({ backend: 'local', uploadsDir, s3Bucket: '' });
+    const location = await local.write('books/legacy.pdf', Buffer.from('legacy'));
+
+    assert.equal((await storage.read(location)).toString(), 'legacy');
+  });
+});
+
+test('refuses an S3 backend without credentials', () => {
+  const uploadsDir = mkdtempSync(join(tmpdir(), 'storage-config-'));
+  try {
+    assert.throws(() => createFileStorage({ backend: 's3', uploadsDir, s3Bucket: '' }), /requires S3_BUCKET/);
+    assert.throws(() => createFileStorage({ backend: 'ftp', uploadsDir }), /Unknown STORAGE_BACKEND/);
+  } finally {
+    rmSync(uploadsDir, { recursive: true, force: true });
+  }
+});
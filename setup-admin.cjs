@@ -18,6 +18,18 @@ const dbConfig = {
 // Create connection
 const connection = mysql.createConnection(dbConfig);
 
+// Record the change in user_activity_logs, like the /api/admin/setup endpoint does
+async function logAdminSetup(userId, action) {
+  try {
+    await connection.promise().query(
+      'INSERT INTO user_activity_logs (user_id, action_type, details) VALUES (?, ?, ?)',
+      [userId, 'ADMIN_SETUP', JSON.stringify({ mode: 'script', action, script: 'setup-admin.cjs' })]
+    );
+  } catch (error) {
+    console.log('⚠️  Could not write to user_activity_logs:', error.message);
+  }
+}
+
 async function setupAdminUser() {
   try {
     console.log('📡 Connecting to MySQL database...');
@@ -90,6 +102,7 @@ async function setupAdminUser() {
       // Update user role to admin
       await connection.promise().query('DELETE FROM user_roles WHERE user_id = ?', [userId]);
       await connection.promise().query('INSERT INTO user_roles (user_id, role_id) VALUES (?, ?)', [userId, adminRoleId]);
+      await logAdminSetup(userId, 'promoted');
       
       console.log('✅ Updated existing user to admin role');
     } else {
@@ -106,6 +119,7 @@ async function setupAdminUser() {
       
       // Assign admin role
       await connection.promise().query('INSERT INTO user_roles (user_id, role_id) VALUES (?, ?)', [userId, adminRoleId]);
+      await logAdminSetup(userId, 'created');
       
       console.log('✅ Created new admin user with ID:', userId);
     }
@@ -115,7 +129,7 @@ async function setupAdminUser() {
     console.log('🔑 Password:', testPassword);
     console.log('👤 Username:', testUsername);
     console.log('\n💡 You can now use these credentials to test the admin panel');
-    console.log('💡 Make sure to set the user email in localStorage for authentication');
+    console.log('💡 Sign in at /auth with these credentials');
     
   } catch (error) {
     console.error('❌ Error setting up admin user:', error);
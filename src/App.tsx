@@ -8,6 +8,7 @@ import AdminPanel from "./pages/admin/AdminPanel";
 import AdminDashboard from "./pages/admin/Dashboard";
 import AdminCategories from "./pages/admin/Categories";
 import AdminBooks from "./pages/admin/Books";
+import AdminBookDuplicates from "./pages/admin/BookDuplicates";
 import AdminTutorials from "./pages/admin/Tutorials";
 import AdminUsers from "./pages/admin/Users";
 import AdminAnalytics from "./pages/admin/Analytics";
@@ -19,6 +20,8 @@ import Auth from "./pages/Auth";
 import NotFound from "./pages/NotFound";
 import Categories from "./pages/Categories";
 import CategoryPage from "./pages/Category";
+import SeriesPage from "./pages/Series";
+import ContributorPage from "./pages/Contributor";
 import Tutorials from "@/pages/Tutorials";
 import TutorialPage from "./pages/Tutorial";
 import About from "./pages/About";
@@ -43,6 +46,8 @@ const App = () => (
             <Route path="/books/:id" element={<BookPage />} />
             <Route path="/categories" element={<Categories />} />
             <Route path="/categories/:name" element={<CategoryPage />} />
+            <Route path="/series/:id" element={<SeriesPage />} />
+            <Route path="/authors/:id" element={<ContributorPage />} />
             <Route path="/tutorials" element={<Tutorials />} />
             <Route path="/tutorials/:id" element={<TutorialPage />} />
             <Route path="/about" element={<About />} />
@@ -53,18 +58,51 @@ const App = () => (
               </ProtectedRoute>
             } />
             <Route path="/admin" element={
-              <ProtectedRoute requireAdmin={true}>
+              <ProtectedRoute requirePermission="admin.access">
                 <AdminPanel />
               </ProtectedRoute>
             }>
               <Route index element={<AdminDashboard />} />
-              <Route path="categories" element={<AdminCategories />} />
-              <Route path="books" element={<AdminBooks />} />
-              <Route path="tutorials" element={<AdminTutorials />} />
-              <Route path="users" element={<AdminUsers />} />
-              <Route path="analytics" element={<AdminAnalytics />} />
-              <Route path="activity-log" element={<AdminActivityLog />} />
-              <Route path="settings" element={<AdminSettings />} />
+              <Route path="categories" element={
+                <ProtectedRoute requirePermission="categories.write" redirectTo="/admin">
+                  <AdminCategories />
+                </ProtectedRoute>
+              } />
+              <Route path="books" element={
+                <ProtectedRoute requirePermission="books.write" redirectTo="/admin">
+                  <AdminBooks />
+                </ProtectedRoute>
+              } />
+              <Route path="books/duplicates" element={
+                <ProtectedRoute requirePermission="books.write" redirectTo="/admin">
+                  <AdminBookDuplicates />
+                </ProtectedRoute>
+              } />
+              <Route path="tutorials" element={
+                <ProtectedRoute requirePermission="tutorials.write" redirectTo="/admin">
+                  <AdminTutorials />
+                </ProtectedRoute>
+              } />
+              <Route path="users" element={
+                <ProtectedRoute requirePermission="users.manage" redirectTo="/admin">
+                  <AdminUsers />
+                </ProtectedRoute>
+              } />
+              <Route path="analytics" element={
+                <ProtectedRoute requirePermission="analytics.read" redirectTo="/admin">
+                  <AdminAnalytics />
+                </ProtectedRoute>
+              } />
+              <Route path="activity-log" element={
+                <ProtectedRoute requirePermission="analytics.read" redirectTo="/admin">
+                  <AdminActivityLog />
+                </ProtectedRoute>
+              } />
+              <Route path="settings" element={
+                <ProtectedRoute requirePermission="settings.manage" redirectTo="/admin">
+                  <AdminSettings />
+                </ProtectedRoute>
+              } />
             </Route>
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
               <Route path="/setup-admin" element={<SetupAdmin />} />
@@ -0,0 +1,151 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { fetchAppTokens, createAppToken, revokeAppToken, type AppTokenList } from '@/lib/app-tokens';
+import { Copy, Tablet } from 'lucide-react';
+
+// "E-reader Apps": tokens for browsing the OPDS catalog from KOReader, Thorium and similar apps
+export default function AppTokens() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [list, setList] = useState<AppTokenList | null>(null);
+  const [name, setName] = useState('');
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const loadTokens = async () => {
+    try {
+      setList(await fetchAppTokens());
+    } catch (error) {
+      console.error('Error loading app tokens:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadTokens();
+  }, []);
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    try {
+      const created = await createAppToken(name.trim());
+      setNewToken(created.token);
+      setName('');
+      await loadTokens();
+    } catch (error) {
+      showError(error, 'Failed to create app token');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRevoke = async (id: number) => {
+    setBusy(true);
+    try {
+      await revokeAppToken(id);
+      toast({ title: "Token revoked", description: "Apps using it can no longer open the catalog." });
+      await loadTokens();
+    } catch (error) {
+      showError(error, 'Failed to revoke app token');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const copy = async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({ title: "Copied" });
+    } catch {
+      toast({ title: "Copy failed", description: "Select the text and copy it manually.", variant: "destructive" });
+    }
+  };
+
+  if (!list) return null;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Tablet className="h-5 w-5" />
+          E-reader Apps
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Browse and download books from apps such as KOReader or Thorium. Add this OPDS catalog in the app and sign
+          in with your email ({user?.email}) and an app token as the password.
+        </p>
+
+        <div className="space-y-1 text-sm">
+          <div className="flex items-center gap-2">
+            <span className="w-20 text-muted-foreground">OPDS 1.2</span>
+            <code className="flex-1 truncate rounded bg-muted px-2 py-1">{list.opds_url}</code>
+            <Button variant="ghost" size="sm" onClick={() => copy(list.opds_url)}><Copy className="h-4 w-4" /></Button>
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="w-20 text-muted-foreground">OPDS 2.0</span>
+            <code className="flex-1 truncate rounded bg-muted px-2 py-1">{list.opds2_url}</code>
+            <Button variant="ghost" size="sm" onClick={() => copy(list.opds2_url)}><Copy className="h-4 w-4" /></Button>
+          </div>
+        </div>
+
+        {newToken && (
+          <div className="rounded-md border border-green-200 bg-green-50 p-3 space-y-2">
+            <p className="text-sm font-medium">Copy your new token now. It will not be shown again.</p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 break-all rounded bg-white px-2 py-1 text-sm">{newToken}</code>
+              <Button variant="outline" size="sm" onClick={() => copy(newToken)}>
+                <Copy className="h-4 w-4 mr-2" />
+                Copy
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {list.tokens.map(token => (
+          <div key={token.id} className="flex items-center justify-between rounded-md border p-3">
+            <div>
+              <p className="font-medium">{token.name} <span className="text-xs text-muted-foreground">…{token.token_hint}</span></p>
+              <p className="text-sm text-muted-foreground">
+                Created {new Date(token.created_at).toLocaleDateString()} ·{' '}
+                {token.last_used_at ? `last used ${new Date(token.last_used_at).toLocaleDateString()}` : 'never used'}
+              </p>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => handleRevoke(token.id)} disabled={busy}>
+              Revoke
+            </Button>
+          </div>
+        ))}
+
+        <form onSubmit={handleCreate} className="flex items-end gap-2">
+          <div className="flex-1 max-w-sm space-y-2">
+            <Label htmlFor="app-token-name">New token</Label>
+            <Input
+              id="app-token-name"
+              placeholder="e.g. Kobo Clara"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={100}
+              disabled={busy}
+            />
+          </div>
+          <Button type="submit" disabled={busy || !name.trim()}>Create Token</Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,81 @@
+import { useEffect, useState } from "react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import usePreferredCurrency from "@/hooks/use-preferred-currency";
+import {
+  fetchExchangeRates,
+  fetchPriceHistory,
+  availableCurrencies,
+  convertPrice,
+  formatPrice,
+  type ExchangeRates,
+  type PricePoint,
+} from "@/lib/pricing";
+
+const BOOK_CURRENCY = "book";
+
+interface BookPriceProps {
+  bookId: number | string;
+  price: number;
+  currency: string;
+}
+
+// A purchase book's price, optionally converted into the visitor's currency, with its past prices
+export default function BookPrice({ bookId, price, currency }: BookPriceProps) {
+  const { currency: preferred, setCurrency } = usePreferredCurrency();
+  const [rates, setRates] = useState<ExchangeRates | null>(null);
+  const [history, setHistory] = useState<PricePoint[]>([]);
+
+  useEffect(() => {
+    fetchExchangeRates().then(setRates).catch(() => setRates(null));
+  }, []);
+
+  useEffect(() => {
+    fetchPriceHistory(bookId).then(setHistory).catch(() => setHistory([]));
+  }, [bookId]);
+
+  const shown = (amount: number, from: string) => {
+    if (!preferred || preferred === from || !rates) return formatPrice(amount, from);
+    const converted = convertPrice(amount, from, preferred, rates);
+    return converted === null ? formatPrice(amount, from) : `≈ ${formatPrice(converted, preferred)}`;
+  };
+
+  const currencies = rates ? availableCurrencies(rates) : [];
+  // The current price is already shown above the list
+  const pastPrices = history.slice(0, -1).reverse();
+
+  return (
+    <div className="space-y-2">
+      <p className="font-medium">
+        {shown(price, currency)}
+        {preferred && preferred !== currency && (
+          <span className="ml-2 text-sm text-muted-foreground">({formatPrice(price, currency)})</span>
+        )}
+      </p>
+
+      {currencies.length > 1 && (
+        <Select value={preferred || BOOK_CURRENCY} onValueChange={(value) => setCurrency(value === BOOK_CURRENCY ? null : value)}>
+          <SelectTrigger className="h-8 w-44 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={BOOK_CURRENCY}>Book's currency</SelectItem>
+            {currencies.map(code => (
+              <SelectItem key={code} value={code}>{code}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      {pastPrices.length > 0 && (
+        <div className="text-xs text-muted-foreground space-y-0.5">
+          <span className="font-medium">Earlier prices</span>
+          {pastPrices.map(point => (
+            <p key={`${point.recorded_at}-${point.price}-${point.currency}`}>
+              {new Date(point.recorded_at).toLocaleDateString()}: {shown(point.price, point.currency)}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,280 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { PDFDocumentProxy, PDFDocumentLoadingTask, RenderTask } from 'pdfjs-dist';
+import type { Book as EpubBook, Rendition } from 'epubjs';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { getAuthHeaders, isAuthenticated } from '@/lib/auth-helper';
+import { saveReadingProgress, type ReaderFormat } from '@/lib/reading';
+import { ChevronLeft, ChevronRight, X } from 'lucide-react';
+
+type Props = {
+  bookId: string | number;
+  fileId?: number | null; // one of the book's files (format / edition); the primary file when unset
+  title: string;
+  format: ReaderFormat;
+  initialPage?: number; // 1-based page to open at (from saved progress)
+  onClose: () => void;
+};
+
+// EPUBs have no fixed pages, so positions are epub.js "locations" of roughly this many characters
+const EPUB_LOCATION_CHARS = 1600;
+// Wait for the reader to settle on a page before saving it
+const SAVE_PROGRESS_DELAY_MS = 1500;
+
+export default function BookReader({ bookId, fileId, title, format, initialPage = 1, onClose }: Props) {
+  const viewerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const renditionRef = useRef<Rendition | null>(null);
+  const epubRef = useRef<EpubBook | null>(null);
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(0);
+  const [pageInput, setPageInput] = useState('1');
+  const [viewerWidth, setViewerWidth] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fileUrl = `/api/books/${bookId}/read${fileId ? `?file=${fileId}` : ''}`;
+
+  // Open the PDF; pdf.js asks for byte ranges so large files start rendering before they finish downloading
+  useEffect(() => {
+    if (format !== 'pdf') return;
+    let cancelled = false;
+    let loadingTask: PDFDocumentLoadingTask | null = null;
+
+    (async () => {
+      const pdfjs = await import('pdfjs-dist');
+      const { default: workerUrl } = await import('pdfjs-dist/build/pdf.worker.min.mjs?url');
+      if (cancelled) return;
+      pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+      // Members-only books need the session token with every range request
+      loadingTask = pdfjs.getDocument({ url: fileUrl, httpHeaders: getAuthHeaders(), disableAutoFetch: true, rangeChunkSize: 65536 });
+      const doc = await loadingTask.promise;
+      if (cancelled) return;
+      setPdf(doc);
+      setTotalPages(doc.numPages);
+      setPage(Math.min(Math.max(initialPage, 1), doc.numPages));
+      setIsLoading(false);
+    })().catch((err) => {
+      if (cancelled) return;
+      console.error('Error opening PDF:', err);
+      setError('This book could not be opened.');
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+      setPdf(null);
+      if (loadingTask) loadingTask.destroy();
+    };
+  }, [fileUrl, format, initialPage]);
+
+  // Keep the PDF page fitted to the width of the reader
+  useEffect(() => {
+    const updateWidth = () => setViewerWidth(viewerRef.current ? viewerRef.current.clientWidth : 0);
+    updateWidth();
+    window.addEventListener('resize', updateWidth);
+    return () => window.removeEventListener('resize', updateWidth);
+  }, []);
+
+  // Draw the current PDF page, cancelling a render still in progress
+  useEffect(() => {
+    if (!pdf || !viewerWidth) return;
+    let cancelled = false;
+    let renderTask: RenderTask | null = null;
+
+    pdf.getPage(page)
+      .then((pdfPage) => {
+        const canvas = canvasRef.current;
+        const context = canvas ? canvas.getContext('2d') : null;
+        if (cancelled || !canvas || !context) return;
+
+        const pixelRatio = window.devicePixelRatio || 1;
+        const scale = Math.min((viewerWidth - 32) / pdfPage.getViewport({ scale: 1 }).width, 2);
+        const viewport = pdfPage.getViewport({ scale: scale * pixelRatio });
+        canvas.width = viewport.width;
+        canvas.height = viewport.height;
+        canvas.style.width = `${viewport.width / pixelRatio}px`;
+        canvas.style.height = `${viewport.height / pixelRatio}px`;
+
+        renderTask = pdfPage.render({ canvasContext: context, viewport });
+        return renderTask.promise;
+      })
+      .catch((err) => {
+        if (err && err.name === 'RenderingCancelledException') return;
+        console.error('Error rendering PDF page:', err);
+      });
+
+    return () => {
+      cancelled = true;
+      if (renderTask) renderTask.cancel();
+    };
+  }, [pdf, page, viewerWidth]);
+
+  // Open the EPUB paginated, with generated locations standing in for page numbers
+  useEffect(() => {
+    if (format !== 'epub' || !viewerRef.current) return;
+    const element = viewerRef.current;
+    let cancelled = false;
+
+    (async () => {
+      const { default: ePub } = await import('epubjs');
+      if (cancelled) return;
+      const epub = ePub(fileUrl, { openAs: 'epub', requestHeaders: getAuthHeaders() });
+      epubRef.current = epub;
+      const rendition = epub.renderTo(element, { width: '100%', height: '100%', flow: 'paginated' });
+
+      await epub.ready;
+      await epub.locations.generate(EPUB_LOCATION_CHARS);
+      if (cancelled) return;
+
+      const total = Math.max(epub.locations.length(), 1);
+      rendition.on('relocated', (location: { start: { cfi: string } }) => {
+        const index = Number(epub.locations.locationFromCfi(location.start.cfi));
+        setPage(Number.isFinite(index) ? Math.min(index + 1, total) : 1);
+      });
+      renditionRef.current = rendition;
+
+      const startPage = Math.min(Math.max(initialPage, 1), total);
+      await rendition.display(startPage > 1 ? epub.locations.cfiFromLocation(startPage - 1) : undefined);
+      if (cancelled) return;
+      setTotalPages(total);
+      setIsLoading(false);
+    })().catch((err) => {
+      if (cancelled) return;
+      console.error('Error opening EPUB:', err);
+      setError('This book could not be opened.');
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+      renditionRef.current = null;
+      if (epubRef.current) epubRef.current.destroy();
+      epubRef.current = null;
+    };
+  }, [fileUrl, format, initialPage]);
+
+  useEffect(() => {
+    setPageInput(String(page));
+  }, [page]);
+
+  // Save the position once the reader has stayed on a page for a moment
+  useEffect(() => {
+    if (isLoading || error || !totalPages || !isAuthenticated()) return;
+    const timer = setTimeout(() => {
+      saveReadingProgress(bookId, page, totalPages, fileId).catch(() => {
+        // Already logged; reading carries on without a saved position
+      });
+    }, SAVE_PROGRESS_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [bookId, fileId, page, totalPages, isLoading, error]);
+
+  const goToPage = useCallback((target: number) => {
+    if (!totalPages) return;
+    const next = Math.min(Math.max(Math.round(target), 1), totalPages);
+    if (format === 'pdf') {
+      setPage(next);
+    } else if (renditionRef.current && epubRef.current) {
+      renditionRef.current.display(epubRef.current.locations.cfiFromLocation(next - 1));
+    }
+  }, [format, totalPages]);
+
+  const goNext = useCallback(() => {
+    if (format === 'pdf') {
+      setPage(current => Math.min(current + 1, totalPages || current));
+    } else if (renditionRef.current) {
+      renditionRef.current.next();
+    }
+  }, [format, totalPages]);
+
+  const goPrevious = useCallback(() => {
+    if (format === 'pdf') {
+      setPage(current => Math.max(current - 1, 1));
+    } else if (renditionRef.current) {
+      renditionRef.current.prev();
+    }
+  }, [format]);
+
+  // Arrow keys turn pages and Escape closes; the EPUB iframe reports its own key presses
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.target instanceof HTMLInputElement) return;
+      if (event.key === 'ArrowRight') goNext();
+      else if (event.key === 'ArrowLeft') goPrevious();
+      else if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keyup', handleKey);
+    const rendition = renditionRef.current;
+    if (rendition) rendition.on('keyup', handleKey);
+    return () => {
+      window.removeEventListener('keyup', handleKey);
+      if (rendition) rendition.off('keyup', handleKey);
+    };
+  }, [goNext, goPrevious, onClose, isLoading]);
+
+  const handlePageSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const target = Number(pageInput);
+    if (Number.isFinite(target)) {
+      goToPage(target);
+    } else {
+      setPageInput(String(page));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col bg-background" role="dialog" aria-label={`Reading ${title}`}>
+      <div className="flex items-center gap-2 border-b px-4 py-2">
+        <h2 className="flex-1 truncate font-semibold">{title}</h2>
+        <Button variant="outline" size="icon" onClick={goPrevious} disabled={isLoading || !!error || page <= 1} aria-label="Previous page">
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <form onSubmit={handlePageSubmit} className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Input
+            type="number"
+            min={1}
+            max={totalPages || undefined}
+            value={pageInput}
+            onChange={(e) => setPageInput(e.target.value)}
+            disabled={isLoading || !!error}
+            className="h-9 w-20"
+            aria-label="Page"
+          />
+          <span>of {totalPages || '…'}</span>
+        </form>
+        <Button variant="outline" size="icon" onClick={goNext} disabled={isLoading || !!error || page >= totalPages} aria-label="Next page">
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+        <Button variant="ghost" size="icon" onClick={onClose} aria-label="Close reader">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="relative min-h-0 flex-1">
+        <div
+          ref={viewerRef}
+          className={format === 'pdf' ? 'flex h-full justify-center overflow-auto bg-muted p-4' : 'h-full px-4 py-6'}
+        >
+          {format === 'pdf' && <canvas ref={canvasRef} className="h-fit shadow-lg" />}
+        </div>
+
+        {(isLoading || error) && (
+          <div className="absolute inset-0 flex items-center justify-center bg-background">
+            {error ? (
+              <div className="text-center">
+                <p className="mb-4 text-muted-foreground">{error}</p>
+                <Button onClick={onClose}>Back to book</Button>
+              </div>
+            ) : (
+              <div className="text-center">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+                <p className="text-muted-foreground">Opening book...</p>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
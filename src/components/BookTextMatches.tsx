@@ -0,0 +1,56 @@
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import SearchSnippet from '@/components/SearchSnippet';
+import type { BookTextResult } from '@/lib/api';
+import { FileText } from 'lucide-react';
+
+type MatchedBook = {
+  id: number | string;
+  title: string;
+  author?: string | null;
+};
+
+type Props = {
+  results: BookTextResult<MatchedBook>[];
+  total: number;
+};
+
+export default function BookTextMatches({ results, total }: Props) {
+  const navigate = useNavigate();
+
+  if (results.length === 0) return null;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <FileText className="h-5 w-5" />
+          Found inside {total} book{total === 1 ? '' : 's'}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {results.map(({ book, matches }) => (
+          <div key={String(book.id)} className="space-y-2">
+            <button
+              onClick={() => navigate(`/books/${book.id}`)}
+              className="text-left font-medium hover:text-primary transition-colors"
+            >
+              {book.title}
+              {book.author && <span className="text-sm text-muted-foreground font-normal"> by {book.author}</span>}
+            </button>
+            {matches.map(match => (
+              <button
+                key={match.page}
+                onClick={() => navigate(`/books/${book.id}?page=${match.page}`)}
+                className="block w-full text-left rounded-md border p-3 text-sm hover:bg-muted/50 transition-colors"
+              >
+                <span className="text-xs font-medium text-primary mr-2">Page {match.page}</span>
+                <span className="text-muted-foreground"><SearchSnippet match={match} /></span>
+              </button>
+            ))}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
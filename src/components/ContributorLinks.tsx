@@ -0,0 +1,30 @@
+import { Fragment } from "react";
+import { Link } from "react-router-dom";
+import type { ContributorRole, Credit } from "@/lib/contributors";
+
+type Props = {
+  contributors?: Credit[];
+  fallback: string; // the author / creator text, shown for items without credits
+  mainRole: ContributorRole; // credits with another role get it after their name
+};
+
+// "A, B & C (editor)", each name linking to the person's page
+const ContributorLinks = ({ contributors, fallback, mainRole }: Props) => {
+  if (!contributors || contributors.length === 0) return <>{fallback}</>;
+
+  return (
+    <>
+      {contributors.map((contributor, index) => (
+        <Fragment key={`${contributor.id}-${contributor.role}`}>
+          {index > 0 && (index === contributors.length - 1 ? ' & ' : ', ')}
+          <Link to={`/authors/${contributor.id}`} className="hover:text-primary hover:underline">
+            {contributor.name}
+          </Link>
+          {contributor.role !== mainRole && ` (${contributor.role})`}
+        </Fragment>
+      ))}
+    </>
+  );
+};
+
+export default ContributorLinks;
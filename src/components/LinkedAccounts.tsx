@@ -0,0 +1,156 @@
+import { useState, useEffect } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import {
+  fetchSignInProviders,
+  fetchLinkedIdentities,
+  startProviderLink,
+  unlinkIdentity,
+  type SignInProvider,
+  type LinkedIdentity
+} from '@/lib/oidc';
+import { Link2 } from 'lucide-react';
+
+export default function LinkedAccounts() {
+  const { toast } = useToast();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const [providers, setProviders] = useState<SignInProvider[]>([]);
+  const [identities, setIdentities] = useState<LinkedIdentity[]>([]);
+  const [password, setPassword] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const loadIdentities = async () => {
+    try {
+      setIdentities(await fetchLinkedIdentities());
+    } catch (error) {
+      console.error('Error loading linked accounts:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchSignInProviders()
+      .then(setProviders)
+      .catch(() => setProviders([]));
+    loadIdentities();
+  }, []);
+
+  // The provider callback redirects back here with the outcome of a link
+  useEffect(() => {
+    const params = new URLSearchParams(location.search);
+    const linked = params.get('linked');
+    const error = params.get('error');
+    if (!linked && !error) return;
+
+    toast(linked
+      ? { title: "Account linked", description: "You can now sign in with it." }
+      : { title: "Error", description: error, variant: "destructive" });
+    navigate('/profile', { replace: true });
+  }, [location.search, navigate, toast]);
+
+  const isLastIdentity = identities.length === 1;
+  const unlinkedProviders = providers.filter(provider => !identities.some(identity => identity.provider === provider.id));
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const handleLink = async (provider: SignInProvider) => {
+    setBusy(true);
+    try {
+      window.location.assign(await startProviderLink(provider.id));
+    } catch (error) {
+      showError(error, 'Failed to link provider');
+      setBusy(false);
+    }
+  };
+
+  const handleUnlink = async (identity: LinkedIdentity) => {
+    setBusy(true);
+    try {
+      await unlinkIdentity(identity.provider, isLastIdentity ? password : undefined);
+      setPassword('');
+      toast({
+        title: "Account unlinked",
+        description: `You can no longer sign in with ${identity.name}.`,
+      });
+      await loadIdentities();
+    } catch (error) {
+      showError(error, 'Failed to unlink provider');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (providers.length === 0 && identities.length === 0) return null;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Link2 className="h-5 w-5" />
+          Linked Accounts
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Sign in with another account instead of your password.
+        </p>
+
+        {identities.map(identity => (
+          <div key={identity.provider} className="flex items-center justify-between rounded-md border p-3">
+            <div>
+              <p className="font-medium">{identity.name}</p>
+              <p className="text-sm text-muted-foreground">
+                {identity.email || 'Linked'} · since {new Date(identity.created_at).toLocaleDateString()}
+              </p>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleUnlink(identity)}
+              disabled={busy || (isLastIdentity && !password)}
+            >
+              Unlink
+            </Button>
+          </div>
+        ))}
+
+        {isLastIdentity && (
+          <div className="space-y-2">
+            <Label htmlFor="unlink-password">Current Password</Label>
+            <Input
+              id="unlink-password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              disabled={busy}
+              className="max-w-sm"
+            />
+            <p className="text-xs text-muted-foreground">
+              Needed to unlink your last provider. If you never set a password, use "Forgot your password?" on the sign-in page first.
+            </p>
+          </div>
+        )}
+
+        {unlinkedProviders.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {unlinkedProviders.map(provider => (
+              <Button key={provider.id} variant="outline" onClick={() => handleLink(provider)} disabled={busy}>
+                Link {provider.name}
+              </Button>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,15 +1,20 @@
 import { useState, useRef, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { uploadAvatar, removeAvatar } from '@/lib/profile';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
-import { User, Settings, LogOut, ChevronDown } from 'lucide-react';
+import { User, Settings, LogOut, ChevronDown, Camera, Trash2 } from 'lucide-react';
 
 export default function ProfileAvatar() {
-  const { user, userProfile, isLoading, isAdmin, signOut, createProfile, refreshUserData } = useAuth();
+  const { user, userProfile, userRole, isLoading, hasPermission, signOut, createProfile, refreshUserData } = useAuth();
   const [isOpen, setIsOpen] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
 
   // Refresh user data if user is logged in but profile is missing
   useEffect(() => {
@@ -28,7 +33,45 @@ export default function ProfileAvatar() {
     return undefined;
   };
 
-  const avatarUrl = getAvatarUrlFromMetadata(user?.user_metadata);
+  const avatarUrl = userProfile?.avatar_url || getAvatarUrlFromMetadata(user?.user_metadata);
+
+  const handleAvatarSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsUploading(true);
+    try {
+      await uploadAvatar(file);
+      await refreshUserData();
+      toast({ title: "Success", description: "Profile photo updated" });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to upload profile photo",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleRemoveAvatar = async () => {
+    setIsUploading(true);
+    try {
+      await removeAvatar();
+      await refreshUserData();
+      toast({ title: "Success", description: "Profile photo removed" });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to remove profile photo",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
 
   // Close dropdown when clicking outside
   useEffect(() => {
@@ -137,7 +180,7 @@ export default function ProfileAvatar() {
             <div className="hidden md:flex flex-col items-start text-left">
               <span className="text-sm font-medium leading-none">{displayName}</span>
               <span className="text-xs text-muted-foreground leading-none">
-                {isAdmin ? 'Admin' : 'User'}
+                {userRole === 'admin' ? 'Admin' : userRole === 'moderator' ? 'Moderator' : 'User'}
               </span>
             </div>
             <ChevronDown className="h-4 w-4 text-muted-foreground" />
@@ -163,7 +206,23 @@ export default function ProfileAvatar() {
             </Link>
           </DropdownMenuItem>
           
-          {isAdmin && (
+          <DropdownMenuItem
+            onSelect={() => fileInputRef.current?.click()}
+            disabled={isUploading}
+            className="cursor-pointer"
+          >
+            <Camera className="mr-2 h-4 w-4" />
+            <span>{isUploading ? 'Uploading...' : 'Change photo'}</span>
+          </DropdownMenuItem>
+          
+          {userProfile.avatar_url && (
+            <DropdownMenuItem onSelect={handleRemoveAvatar} disabled={isUploading} className="cursor-pointer">
+              <Trash2 className="mr-2 h-4 w-4" />
+              <span>Remove photo</span>
+            </DropdownMenuItem>
+          )}
+          
+          {hasPermission('admin.access') && (
             <DropdownMenuItem asChild>
               <Link to="/admin" className="cursor-pointer">
                 <Settings className="mr-2 h-4 w-4" />
@@ -180,6 +239,13 @@ export default function ProfileAvatar() {
           </DropdownMenuItem>
         </DropdownMenuContent>
       </DropdownMenu>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/jpeg,image/png,image/gif,image/webp"
+        className="hidden"
+        onChange={handleAvatarSelected}
+      />
     </div>
   );
 }
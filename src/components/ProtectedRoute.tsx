@@ -4,35 +4,39 @@ import { useAuth } from '@/hooks/useAuth';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
-  requireAdmin?: boolean;
+  requirePermission?: string;
+  redirectTo?: string;
 }
 
-export function ProtectedRoute({ children, requireAdmin = false }: ProtectedRouteProps) {
-  const { user, isAdmin, isLoading, refreshUserRole } = useAuth();
+export function ProtectedRoute({ children, requirePermission, redirectTo = '/' }: ProtectedRouteProps) {
+  const { user, isLoading, refreshAccess } = useAuth();
   const location = useLocation();
-  const [checkingRole, setCheckingRole] = React.useState<boolean>(requireAdmin);
+  const [checkingAccess, setCheckingAccess] = React.useState<boolean>(Boolean(requirePermission));
+  // Permissions as reported by /api/auth/profile for the current session on this navigation
+  const [verifiedPermissions, setVerifiedPermissions] = React.useState<string[]>([]);
 
   React.useEffect(() => {
     let cancelled = false;
     async function verify() {
-      if (!requireAdmin || !user) {
-        if (!cancelled) setCheckingRole(false);
+      if (!requirePermission || !user) {
+        if (!cancelled) setCheckingAccess(false);
         return;
       }
-      setCheckingRole(true);
+      setCheckingAccess(true);
       try {
-        await refreshUserRole();
+        const access = await refreshAccess();
+        if (!cancelled) setVerifiedPermissions(access?.permissions ?? []);
       } finally {
-        if (!cancelled) setCheckingRole(false);
+        if (!cancelled) setCheckingAccess(false);
       }
     }
     verify();
     return () => {
       cancelled = true;
     };
-  }, [requireAdmin, user?.email, location.pathname]);
+  }, [requirePermission, user?.email, location.pathname]);
 
-  if (isLoading || checkingRole) {
+  if (isLoading || checkingAccess) {
     return (
       <div className="flex items-center justify-center min-h-screen">
         <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary"></div>
@@ -44,9 +48,9 @@ export function ProtectedRoute({ children, requireAdmin = false }: ProtectedRout
     return <Navigate to="/auth" replace />;
   }
 
-  if (requireAdmin && !isAdmin) {
-    return <Navigate to="/" replace />;
+  if (requirePermission && !verifiedPermissions.includes(requirePermission)) {
+    return <Navigate to={redirectTo} replace />;
   }
 
   return <>{children}</>;
-}
\ No newline at end of file
+}
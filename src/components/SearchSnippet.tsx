@@ -0,0 +1,16 @@
+import { Fragment } from 'react';
+import type { BookTextMatch } from '@/lib/api';
+
+// Render a search snippet with the matched words marked
+export default function SearchSnippet({ match }: { match: BookTextMatch }) {
+  const parts: JSX.Element[] = [];
+  let position = 0;
+  match.highlights.forEach(([start, end], index) => {
+    if (start < position) return;
+    parts.push(<Fragment key={`t${index}`}>{match.snippet.slice(position, start)}</Fragment>);
+    parts.push(<mark key={`m${index}`} className="bg-yellow-200 text-foreground rounded-sm px-0.5">{match.snippet.slice(start, end)}</mark>);
+    position = end;
+  });
+  parts.push(<Fragment key="rest">{match.snippet.slice(position)}</Fragment>);
+  return <>{parts}</>;
+}
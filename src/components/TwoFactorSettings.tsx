@@ -0,0 +1,242 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import {
+  fetchTwoFactorStatus,
+  startTwoFactorSetup,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  type TwoFactorStatus,
+  type TwoFactorSetup
+} from '@/lib/two-factor';
+import { ShieldCheck, Copy } from 'lucide-react';
+
+export default function TwoFactorSettings() {
+  const { refreshAccess } = useAuth();
+  const { toast } = useToast();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const loadStatus = async () => {
+    try {
+      setStatus(await fetchTwoFactorStatus());
+    } catch (error) {
+      console.error('Error loading two-factor status:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const handleStartSetup = async () => {
+    setBusy(true);
+    try {
+      setSetup(await startTwoFactorSetup());
+      setCode('');
+    } catch (error) {
+      showError(error, 'Failed to start two-factor setup');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    try {
+      setRecoveryCodes(await enableTwoFactor(code));
+      setSetup(null);
+      setCode('');
+      toast({
+        title: "Two-factor authentication enabled",
+        description: "Save your recovery codes somewhere safe.",
+      });
+      await loadStatus();
+      // Roles that require 2FA only grant their permissions once it is enabled
+      await refreshAccess();
+    } catch (error) {
+      showError(error, 'Failed to enable two-factor authentication');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    setBusy(true);
+    try {
+      await disableTwoFactor(password);
+      setPassword('');
+      setRecoveryCodes(null);
+      toast({
+        title: "Two-factor authentication disabled",
+        description: "Your account is now protected by your password only.",
+      });
+      await loadStatus();
+    } catch (error) {
+      showError(error, 'Failed to disable two-factor authentication');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    setBusy(true);
+    try {
+      setRecoveryCodes(await regenerateRecoveryCodes(password));
+      setPassword('');
+      toast({
+        title: "New recovery codes",
+        description: "Your previous recovery codes no longer work.",
+      });
+      await loadStatus();
+    } catch (error) {
+      showError(error, 'Failed to generate recovery codes');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const copyRecoveryCodes = async () => {
+    if (!recoveryCodes) return;
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+      toast({ title: "Copied", description: "Recovery codes copied to the clipboard." });
+    } catch (error) {
+      showError(error, 'Could not copy to the clipboard');
+    }
+  };
+
+  if (!status) return null;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Two-Factor Authentication
+          <Badge variant={status.enabled ? 'default' : 'secondary'} className="ml-2">
+            {status.enabled ? 'On' : 'Off'}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {status.required && !status.enabled && (
+          <div className="rounded-md border border-destructive/50 p-3 text-sm text-destructive">
+            Your role requires two-factor authentication. Set it up to regain access to the admin panel.
+          </div>
+        )}
+
+        {recoveryCodes && (
+          <div className="rounded-md border p-4 space-y-3">
+            <p className="text-sm">
+              Each recovery code signs you in once if you lose your authenticator app. They will not be shown again.
+            </p>
+            <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+              {recoveryCodes.map(recoveryCode => (
+                <span key={recoveryCode}>{recoveryCode}</span>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" onClick={copyRecoveryCodes}>
+                <Copy className="h-4 w-4 mr-2" />
+                Copy
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => setRecoveryCodes(null)}>
+                I've saved them
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {!status.enabled && !setup && (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              Protect your account with a code from an authenticator app in addition to your password.
+            </p>
+            <Button onClick={handleStartSetup} disabled={busy}>
+              Set up two-factor authentication
+            </Button>
+          </div>
+        )}
+
+        {!status.enabled && setup && (
+          <form onSubmit={handleEnable} className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+            </p>
+            <img src={setup.qr_code} alt="Two-factor authentication QR code" className="h-48 w-48 border rounded" />
+            <div className="text-sm">
+              <span className="text-muted-foreground">Can't scan it? Enter this key manually: </span>
+              <span className="font-mono break-all">{setup.secret}</span>
+            </div>
+            <InputOTP maxLength={6} value={code} onChange={setCode} disabled={busy}>
+              <InputOTPGroup>
+                {[0, 1, 2, 3, 4, 5].map(index => (
+                  <InputOTPSlot key={index} index={index} />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+            <div className="flex gap-2">
+              <Button type="submit" disabled={busy || code.length !== 6}>
+                Verify and enable
+              </Button>
+              <Button type="button" variant="outline" onClick={() => setSetup(null)} disabled={busy}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {status.enabled && (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              {status.recovery_codes_remaining} unused recovery codes left.
+              Enter your password to generate new recovery codes{status.required ? '' : ' or turn two-factor authentication off'}.
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="two-factor-password">Current Password</Label>
+              <Input
+                id="two-factor-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                disabled={busy}
+                className="max-w-sm"
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={handleRegenerate} disabled={busy || !password}>
+                New recovery codes
+              </Button>
+              {!status.required && (
+                <Button variant="destructive" onClick={handleDisable} disabled={busy || !password}>
+                  Turn off
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,233 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { WarningConfirmDialog } from '@/components/ui/confirm-dialog';
+import { useToast } from '@/hooks/use-toast';
+import {
+  fetchBookDuplicates,
+  dismissBookDuplicate,
+  mergeBooks,
+  DUPLICATE_REASON_LABELS,
+  type DuplicateGroup,
+  type DuplicateGroupBook,
+  type DuplicateReport,
+} from '@/lib/api';
+import { ArrowLeft, Copy, GitMerge, Loader, RefreshCw, X } from 'lucide-react';
+
+// The book a group most likely wants to keep: the one people use most, then the oldest
+const suggestedKeeper = (books: DuplicateGroupBook[]) =>
+  [...books].sort((a, b) =>
+    (b.ratings + b.bookmarks + b.downloads) - (a.ratings + a.bookmarks + a.downloads) || a.id - b.id
+  )[0].id;
+
+const groupKey = (group: DuplicateGroup) => group.books.map(book => book.id).join('-');
+
+// Admin "Duplicates" view: likely duplicate books across the catalog, merged into the one to keep
+export default function BookDuplicatesManager() {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [report, setReport] = useState<DuplicateReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [keepers, setKeepers] = useState<Record<string, number>>({});
+  const [busyGroup, setBusyGroup] = useState<string | null>(null);
+  const [mergeGroup, setMergeGroup] = useState<DuplicateGroup | null>(null);
+
+  const showError = useCallback((error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive"
+    });
+  }, [toast]);
+
+  const loadDuplicates = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setReport(await fetchBookDuplicates());
+    } catch (error) {
+      showError(error, 'Failed to load duplicate books');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    loadDuplicates();
+  }, [loadDuplicates]);
+
+  const keeperOf = (group: DuplicateGroup) => keepers[groupKey(group)] ?? suggestedKeeper(group.books);
+
+  const handleDismiss = async (group: DuplicateGroup, bookId: number, otherBookId: number) => {
+    setBusyGroup(groupKey(group));
+    try {
+      await dismissBookDuplicate(bookId, otherBookId);
+      await loadDuplicates();
+    } catch (error) {
+      showError(error, 'Failed to dismiss duplicate');
+    } finally {
+      setBusyGroup(null);
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!mergeGroup) return;
+    const keepId = keeperOf(mergeGroup);
+    const duplicateIds = mergeGroup.books.map(book => book.id).filter(id => id !== keepId);
+    setBusyGroup(groupKey(mergeGroup));
+    try {
+      await mergeBooks(keepId, duplicateIds);
+      toast({ title: "Success", description: `Merged ${duplicateIds.length} book${duplicateIds.length === 1 ? '' : 's'} into #${keepId}` });
+      setMergeGroup(null);
+      await loadDuplicates();
+    } catch (error) {
+      showError(error, 'Failed to merge books');
+    } finally {
+      setBusyGroup(null);
+    }
+  };
+
+  const mergeKeeper = mergeGroup ? mergeGroup.books.find(book => book.id === keeperOf(mergeGroup)) : null;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h2 className="text-2xl font-bold flex items-center gap-2">
+            <Copy className="h-6 w-6" />
+            Duplicate Books
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            Books with the same ISBN, a matching title and author, or the same file. Merging keeps one book and moves
+            the others' ratings, bookmarks, downloads and files to it.
+          </p>
+        </div>
+        <div className="flex gap-3">
+          <Button variant="outline" onClick={() => navigate('/admin/books')}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Books
+          </Button>
+          <Button variant="outline" onClick={loadDuplicates} disabled={isLoading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {report && report.unhashed_files > 0 && (
+        <p className="text-sm text-muted-foreground">
+          {report.unhashed_files} file{report.unhashed_files === 1 ? ' is' : 's are'} still being compared; refresh in a
+          while to see books that share a file.
+        </p>
+      )}
+
+      {isLoading && !report ? (
+        <div className="flex justify-center py-12">
+          <Loader className="h-6 w-6 animate-spin" />
+        </div>
+      ) : report && report.groups.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">No likely duplicates found.</CardContent>
+        </Card>
+      ) : (
+        report?.groups.map(group => {
+          const key = groupKey(group);
+          const keepId = keeperOf(group);
+          const titleOf = (id: number) => group.books.find(book => book.id === id)?.title || `#${id}`;
+          return (
+            <Card key={key}>
+              <CardHeader>
+                <CardTitle className="text-lg">{group.books[0].title}</CardTitle>
+                <div className="space-y-2">
+                  {group.pairs.map(pair => (
+                    <div key={`${pair.book_id}-${pair.other_book_id}`} className="flex flex-wrap items-center gap-2 text-sm">
+                      <span className="text-muted-foreground">
+                        #{pair.book_id} and #{pair.other_book_id}:
+                      </span>
+                      {pair.reasons.map(reason => (
+                        <Badge key={reason} variant="secondary">{DUPLICATE_REASON_LABELS[reason]}</Badge>
+                      ))}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDismiss(group, pair.book_id, pair.other_book_id)}
+                        disabled={busyGroup === key}
+                        title={`"${titleOf(pair.book_id)}" and "${titleOf(pair.other_book_id)}" are different books`}
+                      >
+                        <X className="h-4 w-4 mr-1" />
+                        Not duplicates
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Keep</TableHead>
+                        <TableHead>Book</TableHead>
+                        <TableHead>Category</TableHead>
+                        <TableHead>ISBN</TableHead>
+                        <TableHead className="text-right">Ratings</TableHead>
+                        <TableHead className="text-right">Bookmarks</TableHead>
+                        <TableHead className="text-right">Downloads</TableHead>
+                        <TableHead className="text-right">Files</TableHead>
+                        <TableHead>Added</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {group.books.map(book => (
+                        <TableRow key={book.id}>
+                          <TableCell>
+                            <input
+                              type="radio"
+                              name={`keep-${key}`}
+                              aria-label={`Keep #${book.id}`}
+                              checked={keepId === book.id}
+                              onChange={() => setKeepers(current => ({ ...current, [key]: book.id }))}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <div className="font-medium">#{book.id} {book.title}</div>
+                            <div className="text-xs text-muted-foreground">{book.author} · {book.book_type}</div>
+                          </TableCell>
+                          <TableCell>{book.category_name || '—'}</TableCell>
+                          <TableCell>{book.isbn || '—'}</TableCell>
+                          <TableCell className="text-right">{book.ratings}</TableCell>
+                          <TableCell className="text-right">{book.bookmarks}</TableCell>
+                          <TableCell className="text-right">{book.downloads}</TableCell>
+                          <TableCell className="text-right">{book.files}</TableCell>
+                          <TableCell>{new Date(book.created_at).toLocaleDateString()}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+                <Button onClick={() => setMergeGroup(group)} disabled={busyGroup === key}>
+                  {busyGroup === key ? <Loader className="h-4 w-4 mr-2 animate-spin" /> : <GitMerge className="h-4 w-4 mr-2" />}
+                  Merge into #{keepId}
+                </Button>
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+
+      <WarningConfirmDialog
+        open={mergeGroup !== null}
+        onOpenChange={(open) => { if (!open) setMergeGroup(null); }}
+        title="Merge books"
+        description={mergeGroup && mergeKeeper
+          ? `Keep "${mergeKeeper.title}" (#${mergeKeeper.id}) and delete the other ${mergeGroup.books.length - 1} book${mergeGroup.books.length === 2 ? '' : 's'} in this group. Their ratings, bookmarks, downloads, comments and files move to the kept book. This cannot be undone.`
+          : ''}
+        confirmText="Merge"
+        onConfirm={handleMerge}
+        loading={busyGroup !== null}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import {
+  fetchBookFiles,
+  uploadBookFile,
+  addBookFile,
+  updateBookFile,
+  deleteBookFile,
+  describeBookFile,
+  type BookFile,
+} from '@/lib/api';
+import { Loader, Star, Trash2, Upload } from 'lucide-react';
+
+type Props = {
+  bookId: string;
+  onChange?: () => void;
+};
+
+// "Files & Editions" for a file book: other formats, editions and languages, and which one is primary
+export default function BookFilesManager({ bookId, onChange }: Props) {
+  const { toast } = useToast();
+  const [files, setFiles] = useState<BookFile[]>([]);
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+  const [edition, setEdition] = useState('');
+  const [language, setLanguage] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [inputKey, setInputKey] = useState(0);
+
+  const showError = useCallback((error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive"
+    });
+  }, [toast]);
+
+  const loadFiles = useCallback(async () => {
+    try {
+      setFiles(await fetchBookFiles(bookId));
+    } catch (error) {
+      showError(error, 'Failed to load book files');
+    }
+  }, [bookId, showError]);
+
+  useEffect(() => {
+    loadFiles();
+  }, [loadFiles]);
+
+  const handleUpload = async () => {
+    setIsBusy(true);
+    try {
+      // One at a time, so a failure leaves the files before it attached
+      for (const file of selectedFiles) {
+        const uploaded = await uploadBookFile(file);
+        await addBookFile(bookId, uploaded, { edition: edition.trim(), language: language.trim() });
+      }
+      toast({ title: "Success", description: `${selectedFiles.length} file(s) added` });
+      setSelectedFiles([]);
+      setInputKey(key => key + 1);
+      onChange?.();
+    } catch (error) {
+      showError(error, 'Failed to add file');
+    } finally {
+      await loadFiles();
+      setIsBusy(false);
+    }
+  };
+
+  const handleMakePrimary = async (file: BookFile) => {
+    setIsBusy(true);
+    try {
+      await updateBookFile(bookId, file.id, { is_primary: true });
+      await loadFiles();
+      onChange?.();
+    } catch (error) {
+      showError(error, 'Failed to change the primary file');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRemove = async (file: BookFile) => {
+    setIsBusy(true);
+    try {
+      await deleteBookFile(bookId, file.id);
+      await loadFiles();
+      onChange?.();
+    } catch (error) {
+      showError(error, 'Failed to remove file');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {files.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No other formats or editions yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {files.map(file => (
+            <div key={file.id} className="flex items-center justify-between gap-3 rounded-md border bg-white p-3">
+              <div className="min-w-0">
+                <p className="text-sm font-medium">
+                  {describeBookFile(file)}
+                  {file.is_primary && <Badge variant="secondary" className="ml-2">Primary</Badge>}
+                </p>
+                {file.file_name && <p className="truncate text-xs text-muted-foreground">{file.file_name}</p>}
+              </div>
+              {!file.is_primary && (
+                <div className="flex shrink-0 gap-2">
+                  <Button type="button" variant="outline" size="sm" onClick={() => handleMakePrimary(file)} disabled={isBusy}>
+                    <Star className="h-4 w-4 mr-1" />
+                    Make Primary
+                  </Button>
+                  <Button type="button" variant="outline" size="sm" onClick={() => handleRemove(file)} disabled={isBusy}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+        <div className="space-y-2 md:col-span-3">
+          <Label htmlFor="book-extra-files">Add files</Label>
+          <Input
+            key={inputKey}
+            id="book-extra-files"
+            type="file"
+            multiple
+            accept=".pdf,.doc,.docx,.txt,.epub"
+            onChange={(e) => setSelectedFiles(Array.from(e.target.files || []))}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="book-file-edition">Edition</Label>
+          <Input id="book-file-edition" placeholder="e.g. 2nd edition" maxLength={100} value={edition} onChange={(e) => setEdition(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="book-file-language">Language</Label>
+          <Input id="book-file-language" placeholder="e.g. en" maxLength={35} value={language} onChange={(e) => setLanguage(e.target.value)} />
+        </div>
+        <div className="flex items-end">
+          <Button type="button" className="w-full" onClick={handleUpload} disabled={selectedFiles.length === 0 || isBusy}>
+            {isBusy ? <Loader className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+            Upload
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,251 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import {
+  validateBookImport,
+  startBookImport,
+  fetchBookImport,
+  deleteBookImport,
+  type BookImportReport,
+  type BookImportRow,
+} from '@/lib/api';
+import { Loader, Upload } from 'lucide-react';
+
+type Props = {
+  onImported: () => void;
+};
+
+const POLL_INTERVAL_MS = 2000;
+
+const STATUS_VARIANTS: Record<BookImportRow['status'], 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  valid: 'secondary',
+  invalid: 'destructive',
+  imported: 'default',
+  failed: 'destructive',
+};
+
+// "Import Books": upload a manifest and optional ZIP, review the dry run, then run the import
+export default function BookImportWizard({ onImported }: Props) {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [manifest, setManifest] = useState<File | null>(null);
+  const [archive, setArchive] = useState<File | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [report, setReport] = useState<BookImportReport | null>(null);
+
+  const job = report?.import;
+  const isRunning = job?.status === 'running';
+
+  // Poll while the import runs in the background
+  useEffect(() => {
+    if (!job || job.status !== 'running') return;
+    const timer = setTimeout(async () => {
+      try {
+        const next = await fetchBookImport(job.id);
+        setReport(next);
+        if (next.import.status !== 'running') onImported();
+      } catch (error) {
+        console.error('Error polling book import:', error);
+      }
+    }, POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [job, onImported]);
+
+  const reset = () => {
+    setManifest(null);
+    setArchive(null);
+    setReport(null);
+  };
+
+  const handleValidate = async () => {
+    if (!manifest) return;
+    setIsBusy(true);
+    try {
+      setReport(await validateBookImport(manifest, archive));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to validate import",
+        variant: "destructive"
+      });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleStart = async () => {
+    if (!job) return;
+    setIsBusy(true);
+    try {
+      setReport(await startBookImport(job.id));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to start import",
+        variant: "destructive"
+      });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  // Throw away a dry run that will not be imported, so its archive does not linger on the server
+  const handleDiscard = async () => {
+    if (job && job.status === 'validated') {
+      try {
+        await deleteBookImport(job.id);
+      } catch (error) {
+        console.error('Error discarding book import:', error);
+      }
+    }
+    reset();
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open && isRunning) {
+      toast({ title: "Import still running", description: "The import carries on in the background." });
+    }
+    if (!open && job?.status === 'validated') {
+      handleDiscard();
+    } else if (!open) {
+      reset();
+    }
+    setIsOpen(open);
+  };
+
+  const processed = job ? job.imported_rows + job.failed_rows : 0;
+
+  return (
+    <>
+      <Button variant="outline" onClick={() => setIsOpen(true)}>
+        <Upload className="h-4 w-4 mr-2" />
+        Import Books
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+        <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Import Books</DialogTitle>
+          </DialogHeader>
+
+          {!report && (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Upload a CSV or JSON manifest with the columns title, author, category (slug or name), isbn,
+                book_type, description, published_year, page_count, external_link, purchase_link, price,
+                currency, file and cover. <code>file</code> and <code>cover</code> are paths inside the ZIP archive.
+                Every row is checked first; nothing is imported until you start the import.
+              </p>
+              <div className="space-y-2">
+                <Label htmlFor="import-manifest">Manifest (.csv or .json)</Label>
+                <Input
+                  id="import-manifest"
+                  type="file"
+                  accept=".csv,.json"
+                  onChange={(e) => setManifest(e.target.files?.[0] || null)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="import-archive">Book files and covers (.zip, optional)</Label>
+                <Input
+                  id="import-archive"
+                  type="file"
+                  accept=".zip"
+                  onChange={(e) => setArchive(e.target.files?.[0] || null)}
+                />
+              </div>
+              <div className="flex justify-end gap-3 pt-4 border-t">
+                <Button variant="outline" onClick={() => handleOpenChange(false)}>Cancel</Button>
+                <Button onClick={handleValidate} disabled={!manifest || isBusy}>
+                  {isBusy && <Loader className="h-4 w-4 mr-2 animate-spin" />}
+                  Check Manifest
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {report && job && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="font-medium">{job.manifest_name}</span>
+                <Badge variant="outline">{job.total_rows} rows</Badge>
+                <Badge variant="secondary">{job.valid_rows} ready</Badge>
+                {job.total_rows > job.valid_rows && (
+                  <Badge variant="destructive">{job.total_rows - job.valid_rows} with errors</Badge>
+                )}
+                {job.status !== 'validated' && (
+                  <>
+                    <Badge>{job.imported_rows} imported</Badge>
+                    {job.failed_rows > 0 && <Badge variant="destructive">{job.failed_rows} failed</Badge>}
+                  </>
+                )}
+              </div>
+
+              {job.status !== 'validated' && (
+                <div className="space-y-1">
+                  <Progress value={job.valid_rows ? (processed / job.valid_rows) * 100 : 100} />
+                  <p className="text-xs text-muted-foreground">
+                    {isRunning && `Importing… ${processed} of ${job.valid_rows}`}
+                    {job.status === 'completed' && 'Import finished.'}
+                    {job.status === 'failed' && `Import stopped: ${job.error || 'unknown error'}`}
+                  </p>
+                </div>
+              )}
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Row</TableHead>
+                    <TableHead>Book</TableHead>
+                    <TableHead className="w-24">Type</TableHead>
+                    <TableHead className="w-24">Status</TableHead>
+                    <TableHead>Messages</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.rows.map(row => (
+                    <TableRow key={row.line}>
+                      <TableCell>{row.line}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{row.title || <span className="text-muted-foreground">Untitled</span>}</div>
+                        {row.author && <div className="text-xs text-muted-foreground">{row.author}</div>}
+                      </TableCell>
+                      <TableCell>{row.book_type || 'file'}</TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_VARIANTS[row.status]}>{row.status}</Badge>
+                      </TableCell>
+                      <TableCell className="text-xs space-y-1">
+                        {row.errors.map(message => <div key={message} className="text-red-700">{message}</div>)}
+                        {row.warnings.map(message => <div key={message} className="text-amber-700">{message}</div>)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              <div className="flex justify-end gap-3 pt-4 border-t">
+                {job.status === 'validated' ? (
+                  <>
+                    <Button variant="outline" onClick={handleDiscard}>Start Over</Button>
+                    <Button onClick={handleStart} disabled={isBusy || job.valid_rows === 0}>
+                      {isBusy && <Loader className="h-4 w-4 mr-2 animate-spin" />}
+                      Import {job.valid_rows} book{job.valid_rows === 1 ? '' : 's'}
+                    </Button>
+                  </>
+                ) : (
+                  <Button onClick={() => handleOpenChange(false)}>{isRunning ? 'Close' : 'Done'}</Button>
+                )}
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
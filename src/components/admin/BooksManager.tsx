@@ -7,7 +7,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
-import { Plus, Edit, Trash2, BookOpen, Star, Download, List, Grid3X3, Search, Tag, Link, ShoppingCart, FileText, Loader, ChevronUp, ChevronDown, ChevronsUpDown } from 'lucide-react';
+import { Plus, Edit, Trash2, BookOpen, Star, Download, List, Grid3X3, Search, Tag, Link, ShoppingCart, FileText, Loader, ChevronUp, ChevronDown, ChevronsUpDown, Copy, Link2Off } from 'lucide-react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
@@ -15,10 +15,24 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { useNavigate } from 'react-router-dom';
 import { FileUpload } from '@/components/ui/file-upload';
 import { DeleteConfirmDialog } from '@/components/ui/confirm-dialog';
+import IsbnEnrichment, { type EnrichableFields } from '@/components/admin/IsbnEnrichment';
+import BookImportWizard from '@/components/admin/BookImportWizard';
+import CatalogExportMenu from '@/components/admin/CatalogExportMenu';
+import BookFilesManager from '@/components/admin/BookFilesManager';
+import LinkStatusBadge from '@/components/admin/LinkStatusBadge';
+import SeriesManager from '@/components/admin/SeriesManager';
+import ContributorsInput from '@/components/admin/ContributorsInput';
+import ContentAccessFields, { type ContentAccessValue } from '@/components/admin/ContentAccessFields';
+import Thumbnail from '@/components/ui/thumbnail';
 import { ThumbsRating } from '@/components/ui/ThumbsRating';
-import { generateThumbnail as apiGenerateThumbnail, scrapeCover, updateBookThumbnail } from '@/lib/api';
-
-interface Book {
+import { generateThumbnail as apiGenerateThumbnail, scrapeCover, updateBookThumbnail, fetchAllBooks, indexBookText, downloadBookFile, DUPLICATE_REASON_LABELS, type BookDuplicate } from '@/lib/api';
+import { authFetch } from '@/lib/auth-helper';
+import { isLinkFailing, type LinkHealth } from '@/lib/link-checks';
+import { fetchSeriesList, type Series } from '@/lib/series';
+import { splitContributorNames, toContributorInputs, type ContributorInput, type Credit } from '@/lib/contributors';
+import { fetchAccessRoles, type AccessLevel, type AccessRole, type ContentLicense } from '@/lib/content-access';
+
+interface Book extends Partial<LinkHealth> {
   id: string;
   title: string;
   author: string;
@@ -36,6 +50,13 @@ interface Book {
   isbn: string | null;
   published_year: number | null;
   page_count: number | null;
+  series_id: string | null;
+  series_position: number | null;
+  series_name?: string | null;
+  contributors?: Credit[];
+  license: ContentLicense | null;
+  access_level: AccessLevel;
+  access_role_id: string | null;
   categories?: { name: string } | null;
   download_count?: number;
   up_votes?: number;
@@ -56,6 +77,8 @@ export default function BooksManager() {
   const { user } = useAuth();
   const [books, setBooks] = useState<Book[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
+  const [seriesList, setSeriesList] = useState<Series[]>([]);
+  const [accessRoles, setAccessRoles] = useState<AccessRole[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [dbConnected, setDbConnected] = useState(false);
   const [showDialog, setShowDialog] = useState(false);
@@ -63,6 +86,7 @@ export default function BooksManager() {
   const [viewMode, setViewMode] = useState<'list' | 'cards'>('list');
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
+  const [brokenLinksOnly, setBrokenLinksOnly] = useState(false);
   const [deleteDialog, setDeleteDialog] = useState<{ open: boolean; book: Book | null }>({
     open: false,
     book: null
@@ -91,8 +115,14 @@ export default function BooksManager() {
     category_id: '',
     isbn: '',
     published_year: '',
-    page_count: ''
+    page_count: '',
+    series_id: '',
+    series_position: '',
+    contributors: [] as ContributorInput[],
+    access: { license: '', access_level: 'public', access_role_id: '' } as ContentAccessValue
   });
+  // Credits are only sent once edited; otherwise the server keeps them in step with the author text
+  const [contributorsEdited, setContributorsEdited] = useState(false);
   const [fileData, setFileData] = useState<{
     content: string;
     size: number;
@@ -108,12 +138,14 @@ export default function BooksManager() {
     checkDatabaseConnection();
     fetchBooks();
     fetchCategories();
+    fetchSeries();
+    fetchAccessRoles().then(setAccessRoles).catch(() => setAccessRoles([]));
   }, []);
 
   // Reset to first page when search or filters change
   useEffect(() => {
     setCurrentPage(1);
-  }, [searchTerm, selectedCategory]);
+  }, [searchTerm, selectedCategory, brokenLinksOnly]);
 
   // Debug: Log form data changes
   useEffect(() => {
@@ -127,7 +159,7 @@ export default function BooksManager() {
 
   const checkDatabaseConnection = async () => {
     try {
-      const response = await fetch('/api/books');
+      const response = await fetch('/api/books?limit=1');
       setDbConnected(response.ok);
     } catch (error) {
       setDbConnected(false);
@@ -138,18 +170,16 @@ export default function BooksManager() {
   const fetchBooks = async () => {
     try {
       // First try to fetch from admin endpoint, fallback to public endpoint
-      let response = await fetch('/api/admin/books');
-      if (!response.ok) {
-        // Fallback to public endpoint
-        response = await fetch('/api/books');
-        if (!response.ok) {
-          throw new Error('Failed to fetch books');
-        }
+      let booksData: Book[];
+      const response = await authFetch('/api/admin/books');
+      if (response.ok) {
+        const data = await response.json();
+        // Handle both array and object responses
+        booksData = Array.isArray(data) ? data : (data.books || []);
+      } else {
+        // Fallback to public endpoint, which is paginated
+        booksData = await fetchAllBooks<Book>();
       }
-      const data = await response.json();
-      
-      // Handle both array and object responses
-      const booksData = Array.isArray(data) ? data : (data.books || []);
       
       // Transform the data to match our Book interface
       const transformedBooks: Book[] = booksData.map((book: any) => ({
@@ -170,11 +200,24 @@ export default function BooksManager() {
         isbn: book.isbn,
         published_year: book.published_year,
         page_count: book.page_count,
+        series_id: book.series_id?.toString() ?? null,
+        series_position: book.series_position ?? null,
+        series_name: book.series_name ?? null,
+        contributors: book.contributors,
+        license: book.license ?? null,
+        access_level: book.access_level || 'public',
+        access_role_id: book.access_role_id?.toString() ?? null,
         categories: book.category_name ? { name: book.category_name } : null,
         download_count: book.download_count,
         up_votes: book.up_votes,
         down_votes: book.down_votes,
-        user_vote: book.user_vote
+        user_vote: book.user_vote,
+        link_status: book.link_status ?? null,
+        link_status_code: book.link_status_code ?? null,
+        link_error: book.link_error ?? null,
+        link_checked_at: book.link_checked_at ?? null,
+        link_broken_since: book.link_broken_since ?? null,
+        link_hidden_at: book.link_hidden_at ?? null
       }));
       
       setBooks(transformedBooks);
@@ -215,6 +258,14 @@ export default function BooksManager() {
     }
   };
 
+  const fetchSeries = async () => {
+    try {
+      setSeriesList(await fetchSeriesList());
+    } catch (error) {
+      console.error('Error fetching series:', error);
+    }
+  };
+
   const resetForm = () => {
     setFormData({
       title: '',
@@ -230,8 +281,13 @@ export default function BooksManager() {
       category_id: '',
       isbn: '',
       published_year: '',
-      page_count: ''
+      page_count: '',
+      series_id: '',
+      series_position: '',
+      contributors: [],
+      access: { license: '', access_level: 'public', access_role_id: '' }
     });
+    setContributorsEdited(false);
     setFileData(null);
     setSelectedFile(null);
     setSelectedCoverFile(null);
@@ -256,23 +312,29 @@ export default function BooksManager() {
       category_id: book.category_id || '',
       isbn: book.isbn || '',
       published_year: book.published_year?.toString() || '',
-      page_count: book.page_count?.toString() || ''
+      page_count: book.page_count?.toString() || '',
+      series_id: book.series_id || '',
+      series_position: book.series_position?.toString() || '',
+      contributors: toContributorInputs(book.contributors, book.author, 'author'),
+      access: { license: book.license || '', access_level: book.access_level, access_role_id: book.access_role_id || '' }
     });
+    setContributorsEdited(false);
     setShowDialog(true);
   };
 
   const openBookFile = (book: Book) => {
     // Prefer direct file_path when available (local uploads or external URLs)
     if (book.file_path) {
-      // If it's an S3-like path (s3://) we can't open directly in browser; fall back to download endpoint
-      if (String(book.file_path).startsWith('s3://')) {
-        window.open(`/api/books/${book.id}/download`, '_blank');
+      // An absolute URL opens directly; stored files (/uploads/... or s3://) go through the download
+      // endpoint, which needs the session for members-only books
+      if (String(book.file_path).startsWith('http')) {
+        window.open(book.file_path, '_blank');
         return;
       }
-
-      // If it's an absolute URL or a server-served path (e.g. /uploads/...), open directly
-      if (String(book.file_path).startsWith('http') || String(book.file_path).startsWith('/')) {
-        window.open(book.file_path, '_blank');
+      if (String(book.file_path).startsWith('/') || String(book.file_path).startsWith('s3://')) {
+        downloadBookFile(book.id).catch(error => {
+          toast({ title: "Error", description: error instanceof Error ? error.message : 'Failed to open file', variant: "destructive" });
+        });
         return;
       }
 
@@ -317,17 +379,17 @@ export default function BooksManager() {
       
       if (book.book_type === 'purchase' && book.purchase_link) {
         // Try to extract cover from purchase link
-        const response = await scrapeCover(book.purchase_link, user.email);
+        const response = await scrapeCover(book.purchase_link);
         const data = await response.json();
         thumbnailPath = data.coverUrl;
       } else if (book.book_type === 'link' && book.external_link) {
         // Try to extract cover from external link
-        const response = await scrapeCover(book.external_link, user.email);
+        const response = await scrapeCover(book.external_link);
         const data = await response.json();
         thumbnailPath = data.coverUrl;
       } else if (book.book_type === 'file' && book.file_path) {
         // Generate thumbnail from uploaded file
-        const response = await apiGenerateThumbnail(book.file_path, undefined, user.email);
+        const response = await apiGenerateThumbnail(book.file_path);
         const data = await response.json();
         thumbnailPath = data.thumbnailPath;
       }
@@ -375,9 +437,8 @@ export default function BooksManager() {
         try {
           const formData = new FormData();
           formData.append('file', selectedFile);
-          formData.append('userEmail', user.email);
 
-          const uploadResponse = await fetch('/api/admin/upload-file', {
+          const uploadResponse = await authFetch('/api/admin/upload-file', {
             method: 'POST',
             body: formData
           });
@@ -440,6 +501,7 @@ export default function BooksManager() {
         cover_image_base64: coverBase64,
         cover_image_type: coverMimeType,
         file_path: formData.book_type === 'file' ? uploadedFilePath : null,
+        file_name: formData.book_type === 'file' ? (selectedFile?.name || null) : null,
         file_content: formData.book_type === 'file' ? (fileData?.content || null) : null,
         file_size: formData.book_type === 'file' ? (fileData?.size || selectedFile?.size || null) : null,
         file_type: formData.book_type === 'file' ? (fileData?.type || selectedFile?.type || null) : null,
@@ -450,7 +512,13 @@ export default function BooksManager() {
         category_id: formData.category_id,
         isbn: formData.isbn || null,
         published_year: formData.published_year ? parseInt(formData.published_year) : null,
-        page_count: formData.page_count ? parseInt(formData.page_count) : null
+        page_count: formData.page_count ? parseInt(formData.page_count) : null,
+        series_id: formData.series_id || null,
+        series_position: formData.series_id && formData.series_position ? parseInt(formData.series_position) : null,
+        contributors: contributorsEdited ? formData.contributors : undefined,
+        license: formData.access.license || null,
+        access_level: formData.access.access_level,
+        access_role_id: formData.access.access_role_id || null
       };
 
       // Debug logging
@@ -466,21 +534,19 @@ export default function BooksManager() {
       let response;
       if (editingBook) {
         // Update existing book
-        response = await fetch(`/api/admin/books/${editingBook.id}`, {
+        response = await authFetch(`/api/admin/books/${editingBook.id}`, {
           method: 'PUT',
           headers: {
-            'Content-Type': 'application/json',
-            'x-user-email': user.email
+            'Content-Type': 'application/json'
           },
           body: JSON.stringify(bookData)
         });
       } else {
         // Create new book
-        response = await fetch('/api/admin/books', {
+        response = await authFetch('/api/admin/books', {
           method: 'POST',
           headers: {
-            'Content-Type': 'application/json',
-            'x-user-email': user.email
+            'Content-Type': 'application/json'
           },
           body: JSON.stringify(bookData)
         });
@@ -493,10 +559,22 @@ export default function BooksManager() {
 
       const savedBook = await response.json();
       
-      toast({
-        title: "Success",
-        description: editingBook ? "Book updated successfully" : "Book created successfully"
-      });
+      // The book is saved either way; point out books it may duplicate
+      const duplicates: BookDuplicate[] = savedBook.duplicates || [];
+      if (duplicates.length > 0) {
+        toast({
+          title: editingBook ? "Book updated: possible duplicate" : "Book created: possible duplicate",
+          description: duplicates
+            .slice(0, 3)
+            .map(duplicate => `"${duplicate.title}" by ${duplicate.author} (#${duplicate.id}): ${duplicate.reasons.map(reason => DUPLICATE_REASON_LABELS[reason].toLowerCase()).join(', ')}`)
+            .join('; ') + '. Review and merge them under Duplicates.'
+        });
+      } else {
+        toast({
+          title: "Success",
+          description: editingBook ? "Book updated successfully" : "Book created successfully"
+        });
+      }
 
       setShowDialog(false);
       resetForm();
@@ -526,11 +604,8 @@ export default function BooksManager() {
         return;
       }
 
-      const response = await fetch(`/api/admin/books/${bookId}`, {
-        method: 'DELETE',
-        headers: {
-          'x-user-email': user.email
-        }
+      const response = await authFetch(`/api/admin/books/${bookId}`, {
+        method: 'DELETE'
       });
 
       if (!response.ok) {
@@ -554,6 +629,40 @@ export default function BooksManager() {
     }
   };
 
+  // Make books added before full-text search (or whose text failed to extract) searchable
+  const handleIndexBookText = async () => {
+    try {
+      const response = await indexBookText();
+      const data = await response.json();
+      toast({
+        title: "Indexing started",
+        description: data.queued
+          ? `Extracting text from ${data.queued} book${data.queued === 1 ? '' : 's'} in the background.`
+          : "Every file book already has searchable text."
+      });
+    } catch (error) {
+      console.error('Error indexing book text:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to start indexing",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Copy the details the admin accepted from an ISBN lookup into the form; a cover is
+  // handled exactly like one picked in the cover upload field
+  const handleApplyEnrichment = (values: Partial<EnrichableFields>, cover: File | null) => {
+    setFormData(prev => ({
+      ...prev,
+      ...values,
+      ...(values.author ? { contributors: splitContributorNames(values.author, 'author') } : {}),
+      ...(cover ? { cover_image_path: cover.name } : {})
+    }));
+    if (values.author) setContributorsEdited(true);
+    if (cover) setSelectedCoverFile(cover);
+  };
+
   const openDeleteDialog = (book: Book) => {
     setDeleteDialog({ open: true, book });
   };
@@ -662,8 +771,10 @@ export default function BooksManager() {
                          book.author.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          (book.isbn && book.isbn.includes(searchTerm));
     const matchesCategory = selectedCategory === 'all' || !selectedCategory || book.category_id === selectedCategory;
-    return matchesSearch && matchesCategory;
+    const matchesLink = !brokenLinksOnly || isLinkFailing(book.link_status) || !!book.link_hidden_at;
+    return matchesSearch && matchesCategory && matchesLink;
   });
+  const brokenLinkCount = books.filter(book => isLinkFailing(book.link_status) || book.link_hidden_at).length;
 
   // Sort filtered books
   const sortedBooks = sortBooks(filteredBooks);
@@ -774,6 +885,25 @@ export default function BooksManager() {
             <Tag className="h-4 w-4 mr-2" />
             Manage Categories
           </Button>
+          <Button variant="outline" onClick={handleIndexBookText}>
+            <FileText className="h-4 w-4 mr-2" />
+            Index Book Text
+          </Button>
+          <Button variant="outline" onClick={() => navigate('/admin/books/duplicates')}>
+            <Copy className="h-4 w-4 mr-2" />
+            Duplicates
+          </Button>
+          <SeriesManager series={seriesList} onChanged={() => { fetchSeries(); fetchBooks(); }} />
+          <BookImportWizard onImported={fetchBooks} />
+          <CatalogExportMenu
+            kind="books"
+            filters={{
+              q: searchTerm,
+              category: selectedCategory === 'all' ? undefined : selectedCategory,
+              sort: sortField,
+              direction: sortDirection,
+            }}
+          />
           <Dialog open={showDialog} onOpenChange={setShowDialog}>
             <DialogTrigger asChild>
               <Button onClick={() => { resetForm(); setShowDialog(true); }}>
@@ -815,15 +945,17 @@ export default function BooksManager() {
                     </div>
                     
                     <div className="space-y-2">
-                      <Label htmlFor="author" className="text-sm font-medium">
-                        Author <span className="text-red-500">*</span>
+                      <Label className="text-sm font-medium">
+                        Authors & Contributors <span className="text-red-500">*</span>
                       </Label>
-                      <Input
-                        id="author"
-                        value={formData.author}
-                        onChange={(e) => setFormData(prev => ({ ...prev, author: e.target.value }))}
+                      <ContributorsInput
+                        value={formData.contributors}
+                        onChange={(contributors) => {
+                          setFormData(prev => ({ ...prev, contributors }));
+                          setContributorsEdited(true);
+                        }}
+                        roles={['author', 'editor', 'translator']}
                         placeholder="Enter author name"
-                        className="h-11"
                       />
                     </div>
                   </div>
@@ -935,6 +1067,18 @@ export default function BooksManager() {
                         required
                       />
                     </div>
+
+                    {editingBook && (
+                      <div className="space-y-3 bg-blue-50 border border-blue-200 rounded-lg p-4">
+                        <div>
+                          <h4 className="text-sm font-semibold text-blue-700">Files &amp; Editions</h4>
+                          <p className="text-xs text-muted-foreground">
+                            Offer other formats (e.g. EPUB and PDF), editions or languages. The primary file is the one read online and downloaded by default.
+                          </p>
+                        </div>
+                        <BookFilesManager bookId={editingBook.id} onChange={fetchBooks} />
+                      </div>
+                    )}
                   </div>
                 )}
 
@@ -1058,11 +1202,10 @@ export default function BooksManager() {
                           <Label className="text-sm font-medium mb-3 block">Current Cover</Label>
                           <div className="flex items-center gap-4">
                             <div className="w-24 h-36 bg-muted rounded-lg overflow-hidden border">
-                              <img
+                              <Thumbnail
                                 src={`/api/books/${editingBook.id}/thumbnail?v=${thumbnailVersion}`}
                                 alt="Current cover"
                                 className="w-full h-full object-cover"
-                                onError={(e) => { e.currentTarget.onerror = null; e.currentTarget.src="/placeholder.svg"; }}
                               />
                             </div>
                             <div className="flex-1">
@@ -1116,6 +1259,18 @@ export default function BooksManager() {
                           placeholder="ISBN number"
                           className="h-11"
                         />
+                        <IsbnEnrichment
+                          isbn={formData.isbn}
+                          current={{
+                            title: formData.title,
+                            author: formData.contributors.map(contributor => contributor.name.trim()).filter(Boolean).join(', '),
+                            description: formData.description,
+                            page_count: formData.page_count,
+                            published_year: formData.published_year,
+                          }}
+                          hasCover={!!selectedCoverFile || !!formData.cover_image_path}
+                          onApply={handleApplyEnrichment}
+                        />
                       </div>
                       <div className="space-y-2">
                         <Label htmlFor="published_year" className="text-sm font-medium">Published Year</Label>
@@ -1140,6 +1295,47 @@ export default function BooksManager() {
                         />
                       </div>
                     </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <div className="space-y-2 md:col-span-2">
+                        <Label htmlFor="series" className="text-sm font-medium">Series</Label>
+                        <Select
+                          value={formData.series_id || 'none'}
+                          onValueChange={(value) => setFormData(prev => ({ ...prev, series_id: value === 'none' ? '' : value }))}
+                        >
+                          <SelectTrigger id="series" className="h-11">
+                            <SelectValue placeholder="Not part of a series" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">Not part of a series</SelectItem>
+                            {seriesList.map((series) => (
+                              <SelectItem key={series.id} value={series.id.toString()}>
+                                {series.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="series_position" className="text-sm font-medium">Volume Number</Label>
+                        <Input
+                          id="series_position"
+                          type="number"
+                          min="1"
+                          value={formData.series_position}
+                          onChange={(e) => setFormData(prev => ({ ...prev, series_position: e.target.value }))}
+                          placeholder="e.g. 1"
+                          className="h-11"
+                          disabled={!formData.series_id}
+                        />
+                      </div>
+                    </div>
+
+                    <ContentAccessFields
+                      value={formData.access}
+                      onChange={(access) => setFormData(prev => ({ ...prev, access }))}
+                      roles={accessRoles}
+                    />
                   </div>
                 </div>
               </div>
@@ -1158,7 +1354,7 @@ export default function BooksManager() {
                   disabled={
                     isSubmitting ||
                     !formData.title || 
-                    !formData.author || 
+                    !formData.contributors.some(contributor => contributor.name.trim()) || 
                     !formData.category_id || 
                     (formData.book_type === 'file' && !formData.file_path) ||
                     (formData.book_type === 'link' && !formData.external_link) ||
@@ -1207,6 +1403,17 @@ export default function BooksManager() {
           </SelectContent>
         </Select>
 
+        {(brokenLinkCount > 0 || brokenLinksOnly) && (
+          <Button
+            variant={brokenLinksOnly ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setBrokenLinksOnly(!brokenLinksOnly)}
+          >
+            <Link2Off className="h-4 w-4 mr-2" />
+            Broken links ({brokenLinkCount})
+          </Button>
+        )}
+
         <div className="flex items-center border rounded-md">
           <Button
             variant={viewMode === 'list' ? 'default' : 'ghost'}
@@ -1364,11 +1571,10 @@ export default function BooksManager() {
                   <TableCell className="h-20">
                     <div className="flex items-start space-x-3">
                       <div className="w-12 h-12 bg-muted rounded flex items-center justify-center flex-shrink-0">
-                        <img
+                        <Thumbnail
                           src={`/api/books/${book.id}/thumbnail?v=${thumbnailVersion}`}
                           alt={book.title}
                           className="w-full h-full object-cover rounded"
-                          onError={(e) => { e.currentTarget.onerror = null; e.currentTarget.src="/placeholder.svg"; }}
                         />
                       </div>
                       <div className="min-w-0 flex-1">
@@ -1379,6 +1585,12 @@ export default function BooksManager() {
                           {book.title}
                         </div>
                         <div className="text-sm text-muted-foreground leading-tight mt-1">{book.author}</div>
+                        {book.series_name && (
+                          <div className="text-xs text-muted-foreground leading-tight mt-1">
+                            {book.series_name}{book.series_position ? ` #${book.series_position}` : ''}
+                          </div>
+                        )}
+                        <LinkStatusBadge kind="books" id={book.id} title={book.title} health={book} />
                       </div>
                     </div>
                   </TableCell>
@@ -1491,11 +1703,10 @@ export default function BooksManager() {
               <CardHeader className="pb-3">
                 <div className="flex items-start justify-between">
                   <div className="w-12 h-12 bg-muted rounded flex items-center justify-center flex-shrink-0">
-                    <img
+                    <Thumbnail
                       src={`/api/books/${book.id}/thumbnail?v=${thumbnailVersion}`}
                       alt={book.title}
                       className="w-full h-full object-cover rounded"
-                      onError={(e) => { e.currentTarget.onerror = null; e.currentTarget.src="/placeholder.svg"; }}
                     />
                   </div>
                   <div className="flex space-x-1">
@@ -1546,6 +1757,11 @@ export default function BooksManager() {
                 </div>
                 <CardTitle className="text-lg line-clamp-2">{book.title}</CardTitle>
                 <p className="text-sm text-muted-foreground">by {book.author}</p>
+                {book.series_name && (
+                  <p className="text-xs text-muted-foreground">
+                    {book.series_name}{book.series_position ? ` #${book.series_position}` : ''}
+                  </p>
+                )}
                 <div className="flex gap-2">
                   {book.categories && (
                     <Badge variant="secondary" className="w-fit">
@@ -1562,6 +1778,7 @@ export default function BooksManager() {
                       </Badge>
                     );
                   })()}
+                  <LinkStatusBadge kind="books" id={book.id} title={book.title} health={book} />
                 </div>
               </CardHeader>
               <CardContent className="pt-0">
@@ -0,0 +1,60 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { useToast } from '@/hooks/use-toast';
+import { downloadCatalogExport, type CatalogExportFilters, type CatalogExportFormat } from '@/lib/api';
+import { Download, Loader } from 'lucide-react';
+
+type Props = {
+  kind: 'books' | 'tutorials';
+  filters: CatalogExportFilters;
+};
+
+const FORMAT_LABELS: Record<CatalogExportFormat, string> = {
+  csv: 'CSV',
+  json: 'JSON',
+  marc: 'MARC 21 (.mrc)',
+  marcxml: 'MARCXML',
+};
+
+// "Export" menu for the admin tables; exports what the table's search and filters show
+export default function CatalogExportMenu({ kind, filters }: Props) {
+  const { toast } = useToast();
+  const [isExporting, setIsExporting] = useState(false);
+  const formats: CatalogExportFormat[] = kind === 'books' ? ['csv', 'json', 'marc', 'marcxml'] : ['csv', 'json'];
+
+  const handleExport = async (format: CatalogExportFormat) => {
+    setIsExporting(true);
+    try {
+      await downloadCatalogExport(kind, format, filters);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to export catalog",
+        variant: "destructive"
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={isExporting}>
+          {isExporting ? <Loader className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Export filtered {kind}</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {formats.map(format => (
+          <DropdownMenuItem key={format} onClick={() => handleExport(format)}>
+            {FORMAT_LABELS[format]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
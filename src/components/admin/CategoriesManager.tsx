@@ -11,6 +11,7 @@ import { Label } from '@/components/ui/label';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { useAuth } from '@/hooks/useAuth';
 import { DeleteConfirmDialog } from '@/components/ui/confirm-dialog';
+import { authFetch } from '@/lib/auth-helper';
 
 interface Category {
   id: string;
@@ -189,11 +190,10 @@ export default function CategoriesManager() {
       
       const method = editingCategory ? 'PUT' : 'POST';
 
-      const response = await fetch(url, {
+      const response = await authFetch(url, {
         method,
         headers: {
-          'Content-Type': 'application/json',
-          'x-user-email': user.email
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify(categoryData)
       });
@@ -238,11 +238,8 @@ export default function CategoriesManager() {
     }
 
     try {
-      const response = await fetch(`/api/admin/categories/${categoryId}`, {
-        method: 'DELETE',
-        headers: {
-          'x-user-email': user.email
-        }
+      const response = await authFetch(`/api/admin/categories/${categoryId}`, {
+        method: 'DELETE'
       });
 
       if (!response.ok) {
@@ -0,0 +1,92 @@
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  ACCESS_LEVEL_LABELS,
+  LICENSE_LABELS,
+  type AccessLevel,
+  type AccessRole,
+  type ContentLicense,
+} from '@/lib/content-access';
+
+export type ContentAccessValue = {
+  license: ContentLicense | '';
+  access_level: AccessLevel;
+  access_role_id: string; // '' for staff only
+};
+
+type Props = {
+  value: ContentAccessValue;
+  onChange: (value: ContentAccessValue) => void;
+  roles: AccessRole[];
+};
+
+// License, access level and (for restricted items) role selects of the book and tutorial forms.
+// Radix selects cannot hold an empty value, so "none" stands for an unset license or role.
+export default function ContentAccessFields({ value, onChange, roles }: Props) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <div className="space-y-2">
+        <Label className="text-sm font-medium">License</Label>
+        <Select
+          value={value.license || 'none'}
+          onValueChange={(license) => onChange({ ...value, license: license === 'none' ? '' : license as ContentLicense })}
+        >
+          <SelectTrigger className="h-11">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Not specified</SelectItem>
+            {(Object.keys(LICENSE_LABELS) as ContentLicense[]).map(license => (
+              <SelectItem key={license} value={license}>
+                {LICENSE_LABELS[license]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label className="text-sm font-medium">Who can open it</Label>
+        <Select
+          value={value.access_level}
+          onValueChange={(level) => onChange({
+            ...value,
+            access_level: level as AccessLevel,
+            access_role_id: level === 'restricted' ? value.access_role_id : '',
+          })}
+        >
+          <SelectTrigger className="h-11">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(ACCESS_LEVEL_LABELS) as AccessLevel[]).map(level => (
+              <SelectItem key={level} value={level}>
+                {ACCESS_LEVEL_LABELS[level]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {value.access_level === 'restricted' && (
+        <div className="space-y-2">
+          <Label className="text-sm font-medium">Role</Label>
+          <Select
+            value={value.access_role_id || 'none'}
+            onValueChange={(roleId) => onChange({ ...value, access_role_id: roleId === 'none' ? '' : roleId })}
+          >
+            <SelectTrigger className="h-11">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Staff only</SelectItem>
+              {roles.map(role => (
+                <SelectItem key={role.id} value={String(role.id)}>
+                  {role.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+    </div>
+  );
+}
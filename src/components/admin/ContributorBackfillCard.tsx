@@ -0,0 +1,95 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { fetchContributorBackfill, startContributorBackfill, type ContributorBackfillStatus } from '@/lib/contributors';
+import { RefreshCw, Users } from 'lucide-react';
+
+const POLL_INTERVAL_MS = 2000;
+
+// "Contributors": crediting books and tutorials added before contributors from their author text
+export default function ContributorBackfillCard() {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<ContributorBackfillStatus | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+
+  const loadStatus = async () => {
+    try {
+      setStatus(await fetchContributorBackfill());
+    } catch (error) {
+      console.error('Error loading contributor backfill status:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  // Follow a running backfill
+  const isRunning = status?.backfill.status === 'running';
+  useEffect(() => {
+    if (!isRunning) return;
+    const timer = setInterval(loadStatus, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isRunning]);
+
+  const handleBackfill = async () => {
+    setIsStarting(true);
+    try {
+      await startContributorBackfill();
+      await loadStatus();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to start contributor backfill",
+        variant: "destructive",
+      });
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  if (!status) return null;
+
+  const { pending, backfill } = status;
+  const hasPending = pending.books > 0 || pending.tutorials > 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Users className="h-5 w-5" />
+          <span>Contributors</span>
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Books and tutorials added before contributors only have their author text. Crediting them splits that
+          text into people, so they show up on author pages.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm">{pending.books} books and {pending.tutorials} tutorials have no contributors yet</p>
+
+        {backfill.status !== 'idle' && (
+          <div className="rounded-md border p-3 text-sm space-y-1">
+            <p>
+              <span className="font-medium capitalize">{backfill.status}</span>
+              {' · '}credited {backfill.credited_books} books and {backfill.credited_tutorials} tutorials
+              {backfill.finished_at && ` · finished ${new Date(backfill.finished_at).toLocaleString()}`}
+            </p>
+            {backfill.error && <p className="text-red-600">{backfill.error}</p>}
+            {backfill.failures.map(failure => (
+              <p key={`${failure.content_type}-${failure.content_id}`} className="text-red-600">
+                {failure.content_type === 'book' ? 'Book' : 'Tutorial'} {failure.content_id}: {failure.error}
+              </p>
+            ))}
+          </div>
+        )}
+
+        <Button onClick={handleBackfill} disabled={!hasPending || isRunning || isStarting}>
+          {(isRunning || isStarting) && <RefreshCw className="h-4 w-4 mr-2 animate-spin" />}
+          Credit Contributors
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
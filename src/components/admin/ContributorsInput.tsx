@@ -0,0 +1,106 @@
+import { useEffect, useId, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  searchContributors,
+  CONTRIBUTOR_ROLE_LABELS,
+  type ContributorInput,
+  type ContributorRole,
+  type ContributorSuggestion,
+} from '@/lib/contributors';
+import { Plus, X } from 'lucide-react';
+
+type Props = {
+  value: ContributorInput[];
+  onChange: (contributors: ContributorInput[]) => void;
+  roles: ContributorRole[]; // offered in the role select; the first is the role of new rows
+  placeholder?: string;
+};
+
+const SUGGESTION_DELAY_MS = 250;
+
+// Credits editor for the book and tutorial forms: one row per person, with their role, suggesting
+// people already in the library as names are typed
+export default function ContributorsInput({ value, onChange, roles, placeholder = 'Name' }: Props) {
+  const listId = useId();
+  const [query, setQuery] = useState('');
+  const [suggestions, setSuggestions] = useState<ContributorSuggestion[]>([]);
+
+  useEffect(() => {
+    if (query.trim().length < 2) {
+      setSuggestions([]);
+      return;
+    }
+    const timer = setTimeout(() => {
+      searchContributors(query.trim())
+        .then(setSuggestions)
+        .catch(() => setSuggestions([]));
+    }, SUGGESTION_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  // Always show at least one row to type into
+  const rows = value.length > 0 ? value : [{ name: '', role: roles[0] }];
+
+  const updateRow = (index: number, changes: Partial<ContributorInput>) => {
+    onChange(rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  return (
+    <div className="space-y-2">
+      {rows.map((row, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Input
+            value={row.name}
+            list={listId}
+            onChange={(e) => {
+              updateRow(index, { name: e.target.value });
+              setQuery(e.target.value);
+            }}
+            placeholder={placeholder}
+            className="h-11 flex-1"
+          />
+          {roles.length > 1 && (
+            <Select value={row.role} onValueChange={(role) => updateRow(index, { role: role as ContributorRole })}>
+              <SelectTrigger className="h-11 w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {roles.map(role => (
+                  <SelectItem key={role} value={role}>
+                    {CONTRIBUTOR_ROLE_LABELS[role]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => onChange(rows.filter((_, i) => i !== index))}
+            disabled={rows.length === 1 && !row.name}
+            title="Remove"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <datalist id={listId}>
+        {suggestions.map(suggestion => (
+          <option key={suggestion.id} value={suggestion.name} />
+        ))}
+      </datalist>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...rows, { name: '', role: roles[0] }])}
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Add person
+      </Button>
+    </div>
+  );
+}
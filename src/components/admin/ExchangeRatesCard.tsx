@@ -0,0 +1,165 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { fetchExchangeRates, saveExchangeRate, deleteExchangeRate, type ExchangeRates } from '@/lib/pricing';
+import { Coins, Plus, Save, Trash2 } from 'lucide-react';
+
+// "Exchange Rates": the rates visitors' preferred currencies are converted with
+export default function ExchangeRatesCard() {
+  const { toast } = useToast();
+  const [rates, setRates] = useState<ExchangeRates | null>(null);
+  const [edits, setEdits] = useState<Record<string, string>>({});
+  const [newCurrency, setNewCurrency] = useState('');
+  const [newRate, setNewRate] = useState('');
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const loadRates = async () => {
+    try {
+      setRates(await fetchExchangeRates());
+      setEdits({});
+    } catch (error) {
+      console.error('Error loading exchange rates:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadRates();
+  }, []);
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const handleSave = async (currency: string, rate: string) => {
+    setBusy(currency);
+    try {
+      await saveExchangeRate(currency, Number(rate));
+      toast({ title: "Success", description: `${currency} rate saved` });
+      if (currency === newCurrency.toUpperCase()) {
+        setNewCurrency('');
+        setNewRate('');
+      }
+      await loadRates();
+    } catch (error) {
+      showError(error, 'Failed to save exchange rate');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleDelete = async (currency: string) => {
+    setBusy(currency);
+    try {
+      await deleteExchangeRate(currency);
+      await loadRates();
+    } catch (error) {
+      showError(error, 'Failed to remove exchange rate');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (!rates) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Coins className="h-5 w-5" />
+          <span>Exchange Rates</span>
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Visitors can see purchase prices in their own currency. Rates are how many units of a currency buy
+          1 {rates.base}; only currencies listed here can be chosen.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Currency</TableHead>
+              <TableHead>Per 1 {rates.base}</TableHead>
+              <TableHead>Updated</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rates.rates.map(rate => {
+              const value = edits[rate.currency] ?? String(rate.rate);
+              return (
+                <TableRow key={rate.currency}>
+                  <TableCell className="font-medium">{rate.currency}</TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="any"
+                      className="h-8 w-36"
+                      value={value}
+                      onChange={(e) => setEdits(current => ({ ...current, [rate.currency]: e.target.value }))}
+                    />
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {new Date(rate.updated_at).toLocaleDateString()}
+                  </TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleSave(rate.currency, value)}
+                      disabled={busy !== null || value === String(rate.rate)}
+                    >
+                      <Save className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleDelete(rate.currency)}
+                      disabled={busy !== null}
+                      title={`Remove ${rate.currency}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Input
+            placeholder="EUR"
+            maxLength={3}
+            className="h-9 w-24 uppercase"
+            value={newCurrency}
+            onChange={(e) => setNewCurrency(e.target.value.toUpperCase())}
+          />
+          <Input
+            type="number"
+            min="0"
+            step="any"
+            placeholder={`per 1 ${rates.base}`}
+            className="h-9 w-36"
+            value={newRate}
+            onChange={(e) => setNewRate(e.target.value)}
+          />
+          <Button
+            onClick={() => handleSave(newCurrency, newRate)}
+            disabled={busy !== null || newCurrency.length !== 3 || !newRate}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Currency
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
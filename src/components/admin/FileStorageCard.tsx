@@ -0,0 +1,102 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { fetchStorageStatus, startStorageMigration, type StorageStatus } from '@/lib/storage';
+import { HardDrive, RefreshCw } from 'lucide-react';
+
+const POLL_INTERVAL_MS = 2000;
+
+// "File Storage": where book files live, and moving old database blobs there
+export default function FileStorageCard() {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<StorageStatus | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+
+  const loadStatus = async () => {
+    try {
+      setStatus(await fetchStorageStatus());
+    } catch (error) {
+      console.error('Error loading storage status:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  // Follow a running migration
+  const isRunning = status?.migration.status === 'running';
+  useEffect(() => {
+    if (!isRunning) return;
+    const timer = setInterval(loadStatus, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isRunning]);
+
+  const handleMigrate = async () => {
+    setIsStarting(true);
+    try {
+      await startStorageMigration();
+      await loadStatus();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to start storage migration",
+        variant: "destructive",
+      });
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  if (!status) return null;
+
+  const { storage, pending, migration } = status;
+  const target = storage.backend === 's3'
+    ? `S3 bucket ${storage.bucket}${storage.endpoint ? ` at ${storage.endpoint}` : ''}`
+    : 'the server\'s uploads folder';
+  const hasBlobs = pending.files > 0 || pending.thumbnails > 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <HardDrive className="h-5 w-5" />
+          <span>File Storage</span>
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Book files and thumbnails are stored in {target}. Books added before file storage may still keep their
+          files in the database, which slows queries and bloats backups.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <Badge variant="secondary">{storage.backend === 's3' ? 'S3' : 'Local disk'}</Badge>
+          <span>{pending.files} book files and {pending.thumbnails} thumbnails left in the database</span>
+        </div>
+
+        {migration.status !== 'idle' && (
+          <div className="rounded-md border p-3 text-sm space-y-1">
+            <p>
+              <span className="font-medium capitalize">{migration.status}</span>
+              {' · '}moved {migration.moved_files} files and {migration.moved_thumbnails} thumbnails
+              {migration.finished_at && ` · finished ${new Date(migration.finished_at).toLocaleString()}`}
+            </p>
+            {migration.error && <p className="text-red-600">{migration.error}</p>}
+            {migration.failures.map(failure => (
+              <p key={`${failure.kind}-${failure.book_id}`} className="text-red-600">
+                Book {failure.book_id} ({failure.kind}): {failure.error}
+              </p>
+            ))}
+          </div>
+        )}
+
+        <Button onClick={handleMigrate} disabled={!hasBlobs || isRunning || isStarting}>
+          {(isRunning || isStarting) && <RefreshCw className="h-4 w-4 mr-2 animate-spin" />}
+          Move Files out of Database
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
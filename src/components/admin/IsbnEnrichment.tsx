@@ -0,0 +1,184 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { enrichFromIsbn, type IsbnEnrichment as IsbnEnrichmentResult } from '@/lib/api';
+import { Loader, Wand2 } from 'lucide-react';
+
+export type EnrichableFields = {
+  title: string;
+  author: string;
+  description: string;
+  page_count: string;
+  published_year: string;
+};
+
+type Props = {
+  isbn: string;
+  current: EnrichableFields;
+  hasCover: boolean;
+  onApply: (values: Partial<EnrichableFields>, cover: File | null) => void;
+};
+
+const FIELD_LABELS: Record<keyof EnrichableFields, string> = {
+  title: 'Title',
+  author: 'Author',
+  description: 'Description',
+  page_count: 'Page Count',
+  published_year: 'Published Year',
+};
+
+type Suggestion = {
+  field: keyof EnrichableFields;
+  current: string;
+  suggested: string;
+  source?: string;
+};
+
+function coverFile(cover: NonNullable<IsbnEnrichmentResult['cover']>, isbn: string) {
+  const bytes = Uint8Array.from(atob(cover.base64), char => char.charCodeAt(0));
+  const extension = cover.type.split('/').pop() || 'png';
+  return new File([bytes], `isbn-${isbn}.${extension}`, { type: cover.type });
+}
+
+// "Enrich from ISBN": fetch details for the ISBN and let the admin pick which to copy into the form
+export default function IsbnEnrichment({ isbn, current, hasCover, onApply }: Props) {
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(false);
+  const [result, setResult] = useState<IsbnEnrichmentResult | null>(null);
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+  const [accepted, setAccepted] = useState<Set<string>>(new Set());
+
+  const handleLookup = async () => {
+    setIsLoading(true);
+    try {
+      const data = await enrichFromIsbn(isbn.trim());
+      const changed = (Object.keys(FIELD_LABELS) as (keyof EnrichableFields)[])
+        .filter(field => data.metadata[field] !== null && String(data.metadata[field]) !== current[field].trim())
+        .map(field => ({
+          field,
+          current: current[field].trim(),
+          suggested: String(data.metadata[field]),
+          source: data.sources[field],
+        }));
+
+      if (changed.length === 0 && (!data.cover || hasCover)) {
+        toast({ title: "Nothing to update", description: "The form already matches the details found for this ISBN." });
+        return;
+      }
+
+      // Empty fields are ticked by default; replacing something the admin typed is opt-in
+      const defaults = new Set(changed.filter(change => !change.current).map(change => change.field as string));
+      if (data.cover && !hasCover) defaults.add('cover');
+      setSuggestions(changed);
+      setAccepted(defaults);
+      setResult(data);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to look up ISBN",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggle = (key: string, checked: boolean) => {
+    setAccepted(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(key);
+      else next.delete(key);
+      return next;
+    });
+  };
+
+  const handleApply = () => {
+    if (!result) return;
+    const values: Partial<EnrichableFields> = {};
+    suggestions
+      .filter(suggestion => accepted.has(suggestion.field))
+      .forEach(suggestion => { values[suggestion.field] = suggestion.suggested; });
+    const cover = result.cover && accepted.has('cover') ? coverFile(result.cover, result.isbn) : null;
+    onApply(values, cover);
+    setResult(null);
+  };
+
+  return (
+    <>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={handleLookup}
+        disabled={isLoading || !isbn.trim()}
+      >
+        {isLoading ? <Loader className="h-4 w-4 mr-2 animate-spin" /> : <Wand2 className="h-4 w-4 mr-2" />}
+        Enrich from ISBN
+      </Button>
+
+      <Dialog open={!!result} onOpenChange={(open) => { if (!open) setResult(null); }}>
+        <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Details for ISBN {result?.isbn}</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground">
+            Tick the changes to copy into the form. Nothing is saved until you save the book.
+          </p>
+
+          <div className="space-y-3">
+            {suggestions.map(suggestion => (
+              <label key={suggestion.field} className="flex items-start gap-3 rounded-md border p-3 cursor-pointer">
+                <Checkbox
+                  checked={accepted.has(suggestion.field)}
+                  onCheckedChange={(checked) => toggle(suggestion.field, checked === true)}
+                  className="mt-1"
+                />
+                <div className="flex-1 min-w-0 space-y-1 text-sm">
+                  <div className="font-medium">
+                    {FIELD_LABELS[suggestion.field]}
+                    {suggestion.source && <span className="ml-2 text-xs font-normal text-muted-foreground">from {suggestion.source}</span>}
+                  </div>
+                  {suggestion.current && (
+                    <div className="text-red-700 line-through break-words line-clamp-3">{suggestion.current}</div>
+                  )}
+                  <div className="text-green-700 break-words line-clamp-6">{suggestion.suggested}</div>
+                </div>
+              </label>
+            ))}
+
+            {result?.cover && (
+              <label className="flex items-start gap-3 rounded-md border p-3 cursor-pointer">
+                <Checkbox
+                  checked={accepted.has('cover')}
+                  onCheckedChange={(checked) => toggle('cover', checked === true)}
+                  className="mt-1"
+                />
+                <div className="flex-1 space-y-2 text-sm">
+                  <div className="font-medium">
+                    Cover Image
+                    {result.sources.cover_url && <span className="ml-2 text-xs font-normal text-muted-foreground">from {result.sources.cover_url}</span>}
+                  </div>
+                  {hasCover && <div className="text-muted-foreground">Replaces the current cover.</div>}
+                  <img
+                    src={`data:${result.cover.type};base64,${result.cover.base64}`}
+                    alt="Cover found for this ISBN"
+                    className="h-40 rounded shadow"
+                  />
+                </div>
+              </label>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-3 pt-4 border-t">
+            <Button variant="outline" onClick={() => setResult(null)}>Cancel</Button>
+            <Button onClick={handleApply} disabled={accepted.size === 0}>
+              Apply {accepted.size} change{accepted.size === 1 ? '' : 's'}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
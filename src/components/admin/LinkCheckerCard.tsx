@@ -0,0 +1,107 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { fetchLinkCheckStatus, startLinkCheck, LINK_STATUS_LABELS, type LinkCheckStatus, type LinkStatus } from '@/lib/link-checks';
+import { Link2Off, RefreshCw } from 'lucide-react';
+
+const POLL_INTERVAL_MS = 2000;
+const STATUS_ORDER: LinkStatus[] = ['ok', 'broken', 'unreachable', 'unchecked'];
+
+// "Link Checker": the health of books' and tutorials' outside links, and checking them now
+export default function LinkCheckerCard() {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<LinkCheckStatus | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+
+  const loadStatus = async () => {
+    try {
+      setStatus(await fetchLinkCheckStatus());
+    } catch (error) {
+      console.error('Error loading link check status:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  // Follow a running check
+  const isRunning = status?.run.status === 'running';
+  useEffect(() => {
+    if (!isRunning) return;
+    const timer = setInterval(loadStatus, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isRunning]);
+
+  const handleCheck = async () => {
+    setIsStarting(true);
+    try {
+      await startLinkCheck();
+      await loadStatus();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to start link check",
+        variant: "destructive",
+      });
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  if (!status) return null;
+
+  const { settings, run, counts, hidden } = status;
+  const schedule = settings.interval_hours > 0
+    ? `Links are checked every ${settings.interval_hours} hours`
+    : 'Scheduled checks are off (LINK_CHECK_INTERVAL_HOURS=0)';
+  const hiding = settings.hide_after_days > 0
+    ? `items whose link has failed for ${settings.hide_after_days} days are hidden until it works again.`
+    : 'broken items stay visible (set LINK_CHECK_HIDE_AFTER_DAYS to hide them).';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Link2Off className="h-5 w-5" />
+          <span>Link Checker</span>
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          {schedule}; {hiding} Broken links are flagged in the Books and Tutorials lists.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          {STATUS_ORDER.map(linkStatus => (
+            <Badge key={linkStatus} variant={linkStatus === 'broken' || linkStatus === 'unreachable' ? 'destructive' : 'secondary'}>
+              {LINK_STATUS_LABELS[linkStatus]}: {counts[linkStatus]}
+            </Badge>
+          ))}
+          {(hidden.books > 0 || hidden.tutorials > 0) && (
+            <span className="text-muted-foreground">
+              Hidden: {hidden.books} books, {hidden.tutorials} tutorials
+            </span>
+          )}
+        </div>
+
+        {run.status !== 'idle' && (
+          <div className="rounded-md border p-3 text-sm space-y-1">
+            <p>
+              <span className="font-medium capitalize">{run.status}</span>
+              {' · '}checked {run.checked} of {run.total} links, {run.failing} failing
+              {run.finished_at && ` · finished ${new Date(run.finished_at).toLocaleString()}`}
+            </p>
+            {run.error && <p className="text-red-600">{run.error}</p>}
+          </div>
+        )}
+
+        <Button onClick={handleCheck} disabled={isRunning || isStarting}>
+          {(isRunning || isStarting) && <RefreshCw className="h-4 w-4 mr-2 animate-spin" />}
+          Check Links Now
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { fetchItemLinkChecks, isLinkFailing, LINK_STATUS_LABELS, type ItemLinkReport, type LinkHealth } from '@/lib/link-checks';
+import { EyeOff, Link2Off, Loader } from 'lucide-react';
+
+interface LinkStatusBadgeProps {
+  kind: 'books' | 'tutorials';
+  id: string;
+  title: string;
+  health: Partial<LinkHealth>;
+}
+
+const describeResult = (status: string | null | undefined, statusCode?: number | null, error?: string | null) =>
+  [status ? LINK_STATUS_LABELS[status as keyof typeof LINK_STATUS_LABELS] : LINK_STATUS_LABELS.unchecked, statusCode ? `HTTP ${statusCode}` : null, error]
+    .filter(Boolean)
+    .join(' · ');
+
+// Flags a book or tutorial whose outside link is failing; opens the link's check history
+export default function LinkStatusBadge({ kind, id, title, health }: LinkStatusBadgeProps) {
+  const [open, setOpen] = useState(false);
+  const [report, setReport] = useState<ItemLinkReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isLinkFailing(health.link_status) && !health.link_hidden_at) return null;
+
+  const openHistory = async () => {
+    setOpen(true);
+    setError(null);
+    try {
+      setReport(await fetchItemLinkChecks(kind, id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load link checks');
+    }
+  };
+
+  const since = health.link_broken_since ? ` since ${new Date(health.link_broken_since).toLocaleDateString()}` : '';
+
+  return (
+    <>
+      <Badge
+        variant="destructive"
+        className="cursor-pointer w-fit"
+        title={`${describeResult(health.link_status, health.link_status_code, health.link_error)}${since}`}
+        onClick={openHistory}
+      >
+        {health.link_hidden_at ? <EyeOff className="h-3 w-3 mr-1" /> : <Link2Off className="h-3 w-3 mr-1" />}
+        {health.link_hidden_at ? 'Hidden: broken link' : LINK_STATUS_LABELS[health.link_status!]}
+      </Badge>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Link checks: {title}</DialogTitle>
+          </DialogHeader>
+          {error ? (
+            <p className="text-sm text-red-600">{error}</p>
+          ) : !report ? (
+            <div className="flex justify-center py-6">
+              <Loader className="h-5 w-5 animate-spin" />
+            </div>
+          ) : (
+            <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+              {report.hidden_at && (
+                <p className="text-sm text-muted-foreground">
+                  Hidden from visitors since {new Date(report.hidden_at).toLocaleString()}. It reappears once the link works
+                  again or is changed.
+                </p>
+              )}
+              {report.links.map(link => (
+                <div key={link.field} className="space-y-2">
+                  <div className="text-sm">
+                    <span className="font-medium">{link.field}</span>{' '}
+                    <a href={link.url} target="_blank" rel="noopener noreferrer" className="break-all hover:underline">
+                      {link.url}
+                    </a>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {describeResult(link.status, link.status_code, link.error)}
+                    {link.broken_since && ` · failing since ${new Date(link.broken_since).toLocaleString()}`}
+                    {link.final_url && link.final_url !== link.url && ` · redirects to ${link.final_url}`}
+                  </p>
+                  {link.checks.length > 0 && (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Checked</TableHead>
+                          <TableHead>Result</TableHead>
+                          <TableHead className="text-right">Time</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {link.checks.map(check => (
+                          <TableRow key={check.checked_at}>
+                            <TableCell className="text-sm">{new Date(check.checked_at).toLocaleString()}</TableCell>
+                            <TableCell className={`text-sm ${check.status === 'ok' ? '' : 'text-red-600'}`}>
+                              {describeResult(check.status, check.status_code, check.error)}
+                            </TableCell>
+                            <TableCell className="text-sm text-right">{check.response_ms ?? '—'} ms</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
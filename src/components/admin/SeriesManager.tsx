@@ -0,0 +1,200 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { DeleteConfirmDialog } from '@/components/ui/confirm-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { createSeries, updateSeries, deleteSeries, type Series } from '@/lib/series';
+import { Library, Plus, Save, Trash2 } from 'lucide-react';
+
+type Props = {
+  series: Series[];
+  onChanged: () => void;
+};
+
+type SeriesEdit = { name: string; description: string };
+
+// "Series": create, rename and delete the series books can be volumes of
+export default function SeriesManager({ series, onChanged }: Props) {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [edits, setEdits] = useState<Record<number, SeriesEdit>>({});
+  const [newName, setNewName] = useState('');
+  const [newDescription, setNewDescription] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [deleting, setDeleting] = useState<Series | null>(null);
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const editOf = (item: Series): SeriesEdit => edits[item.id] ?? { name: item.name, description: item.description || '' };
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) setEdits({});
+    setIsOpen(open);
+  };
+
+  const handleCreate = async () => {
+    setBusy(true);
+    try {
+      await createSeries(newName.trim(), newDescription.trim() || null);
+      setNewName('');
+      setNewDescription('');
+      onChanged();
+    } catch (error) {
+      showError(error, 'Failed to create series');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = async (item: Series) => {
+    const edit = editOf(item);
+    setBusy(true);
+    try {
+      await updateSeries(item.id, edit.name.trim(), edit.description.trim() || null);
+      setEdits(current => {
+        const { [item.id]: _saved, ...rest } = current;
+        return rest;
+      });
+      onChanged();
+    } catch (error) {
+      showError(error, 'Failed to update series');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    setBusy(true);
+    try {
+      await deleteSeries(deleting.id);
+      setDeleting(null);
+      onChanged();
+    } catch (error) {
+      showError(error, 'Failed to delete series');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" onClick={() => setIsOpen(true)}>
+        <Library className="h-4 w-4 mr-2" />
+        Series
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Series</DialogTitle>
+            <p className="text-sm text-muted-foreground">
+              Books join a series, with their volume number, from the book form.
+            </p>
+          </DialogHeader>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead className="text-right">Books</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {series.map(item => {
+                const edit = editOf(item);
+                const isChanged = edit.name !== item.name || edit.description !== (item.description || '');
+                return (
+                  <TableRow key={item.id}>
+                    <TableCell>
+                      <Input
+                        className="h-8"
+                        value={edit.name}
+                        onChange={(e) => setEdits(current => ({ ...current, [item.id]: { ...edit, name: e.target.value } }))}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        className="h-8"
+                        value={edit.description}
+                        onChange={(e) => setEdits(current => ({ ...current, [item.id]: { ...edit, description: e.target.value } }))}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">{item.book_count}</TableCell>
+                    <TableCell className="text-right space-x-2 whitespace-nowrap">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleSave(item)}
+                        disabled={busy || !isChanged || !edit.name.trim()}
+                      >
+                        <Save className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setDeleting(item)}
+                        disabled={busy}
+                        title={`Delete ${item.name}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+              {series.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-sm text-muted-foreground">
+                    No series yet
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <Input
+              placeholder="Series name"
+              className="h-9 flex-1 min-w-[12rem]"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+            />
+            <Input
+              placeholder="Description (optional)"
+              className="h-9 flex-1 min-w-[12rem]"
+              value={newDescription}
+              onChange={(e) => setNewDescription(e.target.value)}
+            />
+            <Button onClick={handleCreate} disabled={busy || !newName.trim()}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Series
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <DeleteConfirmDialog
+        open={deleting !== null}
+        onOpenChange={(open) => { if (!open) setDeleting(null); }}
+        onConfirm={handleDelete}
+        title="Delete Series"
+        description={
+          deleting
+            ? `Delete "${deleting.name}"? Its books stay in the library without a series.`
+            : ''
+        }
+      />
+    </>
+  );
+}
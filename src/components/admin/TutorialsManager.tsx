@@ -7,22 +7,34 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
-import { Plus, Edit, Trash2, Play, Tag, Youtube, List, Grid3X3, Search, Eye, Clock, User, BookOpen, Video, FileText, BarChart3, Filter } from 'lucide-react';
+import { Plus, Edit, Trash2, Play, Tag, Youtube, List, Grid3X3, Search, Eye, Clock, User, BookOpen, Video, FileText, BarChart3, Filter, Link2Off } from 'lucide-react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Label } from '@/components/ui/label';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { useNavigate } from 'react-router-dom';
 import { ThumbsRating } from '@/components/ui/ThumbsRating';
+import CatalogExportMenu from '@/components/admin/CatalogExportMenu';
+import LinkStatusBadge from '@/components/admin/LinkStatusBadge';
+import ContributorsInput from '@/components/admin/ContributorsInput';
+import ContentAccessFields, { type ContentAccessValue } from '@/components/admin/ContentAccessFields';
 import { Separator } from '@/components/ui/separator';
 import { getVideoDuration, extractYouTubeId } from '@/lib/youtube-utils';
+import { authFetch } from '@/lib/auth-helper';
+import { isLinkFailing, type LinkHealth } from '@/lib/link-checks';
+import { toContributorInputs, type ContributorInput, type Credit } from '@/lib/contributors';
+import { fetchAccessRoles, type AccessLevel, type AccessRole, type ContentLicense } from '@/lib/content-access';
 
-interface Tutorial {
+interface Tutorial extends Partial<LinkHealth> {
   id: string;
   title: string;
   category_id: string | null;
   description: string | null;
   author?: string | null;
   creator?: string | null;
+  contributors?: Credit[];
+  license?: ContentLicense | null;
+  access_level?: AccessLevel;
+  access_role_id?: string | null;
   difficulty: 'Beginner' | 'Intermediate' | 'Advanced';
   content_type: 'Video' | 'PDF';
   content_url: string | null;
@@ -55,6 +67,7 @@ export default function TutorialsManager() {
   const [viewMode, setViewMode] = useState<'list' | 'cards'>('list');
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
+  const [brokenLinksOnly, setBrokenLinksOnly] = useState(false);
   const [formData, setFormData] = useState({
     title: '',
     description: '',
@@ -64,14 +77,20 @@ export default function TutorialsManager() {
     content_type: 'Video' as 'Video' | 'PDF',
     content_url: '',
     embed_url: '',
-    file_path: ''
+    file_path: '',
+    contributors: [] as ContributorInput[],
+    access: { license: '', access_level: 'public', access_role_id: '' } as ContentAccessValue
   });
+  const [accessRoles, setAccessRoles] = useState<AccessRole[]>([]);
+  // Credits are only sent once edited; otherwise the server keeps them in step with the creator text
+  const [contributorsEdited, setContributorsEdited] = useState(false);
   const { toast } = useToast();
 
   useEffect(() => {
   checkDatabaseConnection();
   fetchTutorials();
   fetchCategories();
+  fetchAccessRoles().then(setAccessRoles).catch(() => setAccessRoles([]));
   }, []);
 
   // Use relative paths for API calls (Vite proxy will handle forwarding to backend)
@@ -82,9 +101,7 @@ export default function TutorialsManager() {
       // Try admin endpoint first (if user is admin), fallback to public endpoint
       let response: Response | null = null;
       if (user?.email) {
-        response = await fetch(`${API_BASE}/api/admin/tutorials`, {
-          headers: { 'x-user-email': user.email }
-        });
+        response = await authFetch(`${API_BASE}/api/admin/tutorials`);
       }
 
       if (!response || !response.ok) {
@@ -119,6 +136,10 @@ export default function TutorialsManager() {
           title: t.title,
           description: t.description,
           creator: t.creator || null,
+          contributors: t.contributors,
+          license: t.license ?? null,
+          access_level: t.access_level || 'public',
+          access_role_id: t.access_role_id?.toString() ?? null,
           content_url: t.content_url,
           embed_url: t.embed_url || null,
           category_id: t.category_id ? t.category_id.toString() : null,
@@ -132,6 +153,12 @@ export default function TutorialsManager() {
           up_votes: t.up_votes,
           down_votes: t.down_votes,
           user_vote: t.user_vote,
+          link_status: t.link_status ?? null,
+          link_status_code: t.link_status_code ?? null,
+          link_error: t.link_error ?? null,
+          link_checked_at: t.link_checked_at ?? null,
+          link_broken_since: t.link_broken_since ?? null,
+          link_hidden_at: t.link_hidden_at ?? null,
           duration
         };
       }));
@@ -216,20 +243,24 @@ export default function TutorialsManager() {
         content_type: formData.content_type,
         content_url: formData.content_url || null,
         embed_url: formData.embed_url || null,
-        file_path: formData.file_path || null
+        file_path: formData.file_path || null,
+        contributors: contributorsEdited ? formData.contributors : undefined,
+        license: formData.access.license || null,
+        access_level: formData.access.access_level,
+        access_role_id: formData.access.access_role_id || null
       };
 
       let response: Response;
       if (editingTutorial) {
-        response = await fetch(`${API_BASE}/api/admin/tutorials/${editingTutorial.id}`, {
+        response = await authFetch(`${API_BASE}/api/admin/tutorials/${editingTutorial.id}`, {
           method: 'PUT',
-          headers: { 'Content-Type': 'application/json', 'x-user-email': user.email },
+          headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify(payload)
         });
       } else {
-        response = await fetch(`${API_BASE}/api/admin/tutorials`, {
+        response = await authFetch(`${API_BASE}/api/admin/tutorials`, {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json', 'x-user-email': user.email },
+          headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify(payload)
         });
       }
@@ -260,8 +291,15 @@ export default function TutorialsManager() {
       content_type: 'Video',
       content_url: tutorial.content_url || '',
       embed_url: (tutorial as any).embed_url || '',
-      file_path: ''
+      file_path: '',
+      contributors: toContributorInputs(tutorial.contributors, tutorial.creator, 'instructor'),
+      access: {
+        license: tutorial.license || '',
+        access_level: tutorial.access_level || 'public',
+        access_role_id: tutorial.access_role_id || ''
+      }
     });
+    setContributorsEdited(false);
     setShowDialog(true);
   };
 
@@ -273,9 +311,8 @@ export default function TutorialsManager() {
           return;
         }
 
-        const response = await fetch(`${API_BASE}/api/admin/tutorials/${id}`, {
-          method: 'DELETE',
-          headers: { 'x-user-email': user.email }
+        const response = await authFetch(`${API_BASE}/api/admin/tutorials/${id}`, {
+          method: 'DELETE'
         });
 
         if (!response.ok) {
@@ -305,8 +342,11 @@ export default function TutorialsManager() {
       content_type: 'Video',
       content_url: '',
       embed_url: '',
-      file_path: ''
+      file_path: '',
+      contributors: [],
+      access: { license: '', access_level: 'public', access_role_id: '' }
     });
+    setContributorsEdited(false);
     setEditingTutorial(null);
   };
 
@@ -314,8 +354,10 @@ export default function TutorialsManager() {
     const matchesSearch = tutorial.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          tutorial.description?.toLowerCase().includes(searchTerm.toLowerCase());
     const matchesCategory = selectedCategory === 'all' || tutorial.category_id === selectedCategory;
-    return matchesSearch && matchesCategory;
+    const matchesLink = !brokenLinksOnly || isLinkFailing(tutorial.link_status) || !!tutorial.link_hidden_at;
+    return matchesSearch && matchesCategory && matchesLink;
   });
+  const brokenLinkCount = tutorials.filter(tutorial => isLinkFailing(tutorial.link_status) || tutorial.link_hidden_at).length;
 
   const getYouTubeThumbnail = (youtubeId: string | null) => {
     if (!youtubeId) return undefined;
@@ -369,13 +411,19 @@ export default function TutorialsManager() {
               </div>
             </div>
           </div>
-          <Button 
-            onClick={() => setShowDialog(true)} 
-            className="w-full sm:w-auto h-10 px-4 text-base font-medium"
-          >
-            <Plus className="mr-2 h-4 w-4" />
-            Add Tutorial
-          </Button>
+          <div className="flex flex-col sm:flex-row gap-3">
+            <CatalogExportMenu
+              kind="tutorials"
+              filters={{ q: searchTerm, category: selectedCategory === 'all' ? undefined : selectedCategory }}
+            />
+            <Button 
+              onClick={() => setShowDialog(true)} 
+              className="w-full sm:w-auto h-10 px-4 text-base font-medium"
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add Tutorial
+            </Button>
+          </div>
         </div>
       </div>
 
@@ -476,6 +524,17 @@ export default function TutorialsManager() {
                   ))}
                 </SelectContent>
               </Select>
+              {(brokenLinkCount > 0 || brokenLinksOnly) && (
+                <Button
+                  variant={brokenLinksOnly ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setBrokenLinksOnly(!brokenLinksOnly)}
+                  className="h-9"
+                >
+                  <Link2Off className="h-3 w-3 mr-1" />
+                  Broken links ({brokenLinkCount})
+                </Button>
+              )}
               <div className="flex border rounded-md overflow-hidden">
                 <Button
                   variant={viewMode === 'list' ? 'default' : 'ghost'}
@@ -558,6 +617,7 @@ export default function TutorialsManager() {
                           <div className="text-sm text-muted-foreground line-clamp-2 max-w-xs">
                             {tutorial.description || 'No description available'}
                           </div>
+                          <LinkStatusBadge kind="tutorials" id={tutorial.id} title={tutorial.title} health={tutorial} />
                         </div>
                       </div>
                     </TableCell>
@@ -681,6 +741,7 @@ export default function TutorialsManager() {
                   <p className="text-xs text-muted-foreground">
                     by {tutorial.creator || 'Unknown'}
                   </p>
+                  <LinkStatusBadge kind="tutorials" id={tutorial.id} title={tutorial.title} health={tutorial} />
                 </div>
               </CardHeader>
               <CardContent className="pt-0 space-y-4">
@@ -804,13 +865,15 @@ export default function TutorialsManager() {
               </div>
               
               <div className="space-y-2">
-                <Label htmlFor="creator" className="text-sm font-medium">Creator/Author</Label>
-                <Input
-                  id="creator"
-                  value={formData.creator}
-                  onChange={(e) => setFormData({ ...formData, creator: e.target.value })}
+                <Label className="text-sm font-medium">Creators</Label>
+                <ContributorsInput
+                  value={formData.contributors}
+                  onChange={(contributors) => {
+                    setFormData(prev => ({ ...prev, contributors }));
+                    setContributorsEdited(true);
+                  }}
+                  roles={['instructor', 'author', 'editor', 'translator']}
                   placeholder="Enter creator name"
-                  className="h-9"
                 />
               </div>
               
@@ -875,6 +938,12 @@ export default function TutorialsManager() {
               />
             </div>
 
+            <ContentAccessFields
+              value={formData.access}
+              onChange={(access) => setFormData(prev => ({ ...prev, access }))}
+              roles={accessRoles}
+            />
+
             {/* Action Buttons */}
             <div className="flex justify-end space-x-3 pt-2">
               <Button
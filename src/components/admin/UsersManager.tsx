@@ -14,7 +14,9 @@ import {
   Filter,
   MoreHorizontal,
   Shield,
-  RefreshCw
+  RefreshCw,
+  Lock,
+  Unlock
 } from 'lucide-react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Label } from '@/components/ui/label';
@@ -22,12 +24,13 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
-import { getUserEmail } from '@/lib/auth-helper';
+import { authFetch } from '@/lib/auth-helper';
 import { 
   fetchUsers, 
   createUser, 
   updateUser, 
   deleteUser, 
+  unlockUser,
   type User,
   type CreateUserData,
   type UpdateUserData
@@ -71,7 +74,7 @@ export default function UsersManager() {
 
   const checkDatabaseConnection = async () => {
     try {
-      const response = await fetch('/api/admin/users');
+      const response = await authFetch('/api/admin/users');
       setDbConnected(response.ok);
     } catch (error) {
       setDbConnected(false);
@@ -133,7 +136,9 @@ export default function UsersManager() {
         await updateUser(editingUser.id.toString(), updateData);
         toast({
           title: "Success",
-          description: "User updated successfully"
+          description: editingUser.role !== formData.role
+            ? "User updated successfully. Their role changed, so they have been signed out everywhere."
+            : "User updated successfully"
         });
       } else {
         // Create new user
@@ -220,6 +225,27 @@ export default function UsersManager() {
 
 
 
+  const isUserLocked = (user: User) =>
+    !!user.locked_until && new Date(user.locked_until).getTime() > Date.now();
+
+  const handleUnlock = async (user: User) => {
+    try {
+      await unlockUser(String(user.id));
+      toast({
+        title: "Success",
+        description: `${user.username} can sign in again`
+      });
+      loadUsers();
+    } catch (error) {
+      console.error('Error unlocking user:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to unlock user",
+        variant: "destructive"
+      });
+    }
+  };
+
   const resetForm = () => {
     setFormData({
       username: '',
@@ -670,6 +696,12 @@ export default function UsersManager() {
                         <Badge variant={getRoleBadgeVariant(user.role)}>
                           {user.role.charAt(0).toUpperCase() + user.role.slice(1)}
                         </Badge>
+                        {isUserLocked(user) && (
+                          <Badge variant="destructive" className="ml-2">
+                            <Lock className="mr-1 h-3 w-3" />
+                            Locked
+                          </Badge>
+                        )}
                       </TableCell>
 
                       <TableCell>
@@ -692,6 +724,12 @@ export default function UsersManager() {
                               <Edit className="mr-2 h-4 w-4" />
                               Edit User
                             </DropdownMenuItem>
+                            {isUserLocked(user) && (
+                              <DropdownMenuItem onClick={() => handleUnlock(user)}>
+                                <Unlock className="mr-2 h-4 w-4" />
+                                Unlock Account
+                              </DropdownMenuItem>
+                            )}
 
                             <DropdownMenuSeparator />
                             <DropdownMenuItem 
@@ -3,6 +3,7 @@ import { Button } from '@/components/ui/button';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
 import { useState } from 'react';
+import { authFetch } from '@/lib/auth-helper';
 
 interface ThumbsRatingProps {
   contentId: string;
@@ -67,11 +68,10 @@ export function ThumbsRating({
     }
 
     try {
-      const response = await fetch('/api/ratings', {
+      const response = await authFetch('/api/ratings', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'x-user-email': user.email,
         },
         body: JSON.stringify({
           content_id: contentId,
@@ -87,7 +87,7 @@ export function ThumbsRating({
       }
 
       // After a successful POST, fetch the latest vote counts and user vote to ensure UI sync
-      const refreshRes = await fetch(`/api/${contentType === 'book' ? 'books' : 'tutorials'}/${contentId}`);
+      const refreshRes = await authFetch(`/api/${contentType === 'book' ? 'books' : 'tutorials'}/${contentId}`);
       if (refreshRes.ok) {
         const refreshed = await refreshRes.json();
         setUpVotes(typeof refreshed.up_votes === 'number' ? refreshed.up_votes : upVotes);
@@ -1,5 +1,6 @@
 import { useEffect, useMemo, useState } from "react";
 import { cn } from "@/lib/utils";
+import { authFetch } from "@/lib/auth-helper";
 
 type Props = {
   src?: string | null;
@@ -13,9 +14,13 @@ type Props = {
 // Simple in-memory cache to avoid re-fetching blobs repeatedly during a session.
 const blobUrlCache = new Map<string, string>();
 
+// API thumbnails of members-only books need the session token, which an <img> cannot send
+const isApiUrl = (url?: string | null) => !!url && url.startsWith("/api/");
+
 export default function Thumbnail({ src, bookId, alt = "thumbnail", className = "", fallback = "/placeholder.svg", loading = "lazy" }: Props) {
-  const [resolvedSrc, setResolvedSrc] = useState<string | undefined>(() => src ?? undefined);
+  const [resolvedSrc, setResolvedSrc] = useState<string | undefined>(() => (isApiUrl(src) ? undefined : src ?? undefined));
   const fetchUrl = useMemo(() => {
+    if (isApiUrl(src)) return src ?? undefined;
     if (src) return undefined;
     if (typeof bookId === "number") return `/api/books/${bookId}/thumbnail`;
     return undefined;
@@ -23,9 +28,9 @@ export default function Thumbnail({ src, bookId, alt = "thumbnail", className =
 
   useEffect(() => {
     let mounted = true;
-    setResolvedSrc(src ?? undefined);
+    setResolvedSrc(fetchUrl ? undefined : src ?? undefined);
 
-    if (!src && fetchUrl) {
+    if (fetchUrl) {
       // If cached, use it.
       const cached = blobUrlCache.get(fetchUrl);
       if (cached) {
@@ -34,7 +39,7 @@ export default function Thumbnail({ src, bookId, alt = "thumbnail", className =
       }
 
       // Fetch as blob and create object URL. Backend is not implemented yet; this gracefully fails.
-      fetch(fetchUrl)
+      authFetch(fetchUrl)
         .then((res) => {
           if (!res.ok) {
             // Log more details for debugging thumbnail failures
@@ -0,0 +1,27 @@
+import { useEffect, useState } from "react";
+
+// null shows each book in its own currency
+const getInitialCurrency = (): string | null => {
+  try {
+    const stored = localStorage.getItem("preferredCurrency");
+    if (stored && /^[A-Z]{3}$/.test(stored)) return stored;
+  } catch (e) {
+    // ignore
+  }
+  return null;
+};
+
+export default function usePreferredCurrency() {
+  const [currency, setCurrency] = useState<string | null>(getInitialCurrency);
+
+  useEffect(() => {
+    try {
+      if (currency) localStorage.setItem("preferredCurrency", currency);
+      else localStorage.removeItem("preferredCurrency");
+    } catch (e) {
+      // ignore
+    }
+  }, [currency]);
+
+  return { currency, setCurrency } as const;
+}
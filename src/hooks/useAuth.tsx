@@ -1,4 +1,5 @@
 import { useState, useEffect, createContext, useContext, ReactNode } from 'react';
+import { authFetch, clearAuth, getAuthHeaders, getSessionTokens, type SessionTokens } from '@/lib/auth-helper';
 
 interface UserProfile {
   id: string;
@@ -6,6 +7,11 @@ interface UserProfile {
   display_name: string | null;
   email: string | null;
   created_at: string;
+  username?: string;
+  first_name?: string | null;
+  last_name?: string | null;
+  avatar_url?: string | null;
+  email_verified?: boolean;
 }
 
 interface User {
@@ -17,7 +23,22 @@ interface User {
   };
 }
 
-interface Session {
+// Profile and access details returned by /api/auth/profile
+export interface ServerProfile {
+  id?: number;
+  username?: string;
+  email?: string;
+  first_name?: string | null;
+  last_name?: string | null;
+  profile_image?: string | null;
+  email_verified?: boolean;
+  created_at?: string;
+  role?: string;
+  roles?: string[];
+  permissions?: string[];
+}
+
+interface Session extends Partial<SessionTokens> {
   user: User;
 }
 
@@ -25,14 +46,17 @@ interface AuthContextType {
   user: User | null;
   session: Session | null;
   userRole: string | null;
+  roles: string[];
+  permissions: string[];
   userProfile: UserProfile | null;
   isLoading: boolean;
   isAdmin: boolean;
+  hasPermission: (permission: string) => boolean;
   signOut: () => Promise<void>;
 
   createProfile: () => Promise<void>;
-  setAdminRole: (email: string) => void;
   refreshUserRole: () => Promise<string | null>;
+  refreshAccess: () => Promise<ServerProfile | null>;
   refreshUserData: () => Promise<void>;
 }
 
@@ -42,6 +66,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [userRole, setUserRole] = useState<string | null>(null);
+  const [roles, setRoles] = useState<string[]>([]);
+  const [permissions, setPermissions] = useState<string[]>([]);
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isInitialized, setIsInitialized] = useState(false);
@@ -70,13 +96,18 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     setUserRole('user');
   };
 
-  const setAdminRole = (email: string) => {
-    console.log('Setting admin role for email:', email);
-    localStorage.setItem(`admin_role_${email}`, 'admin');
-    if (user?.email === email) {
-      console.log('Updating userRole to admin for current user');
-      setUserRole('admin');
-    }
+  // Roles and permissions always come from the server with the current session
+  const applyAccess = (profile: ServerProfile | null) => {
+    setUserRole(profile?.role ?? 'user');
+    setRoles(profile?.roles ?? []);
+    setPermissions(profile?.permissions ?? []);
+  };
+
+  const fetchServerProfile = async (): Promise<ServerProfile | null> => {
+    const res = await authFetch('/api/auth/profile');
+    if (!res.ok) return null;
+    const data = await res.json();
+    return data?.user ?? null;
   };
 
   const fetchUserData = async (userId: string, userData?: User) => {
@@ -87,46 +118,55 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       const currentUser = userData || user;
       console.log('Current user for profile creation:', currentUser);
 
-      // Check if user is admin by email (temporary solution until backend is implemented)
-      let resolvedRole: string = 'user';
-      if (currentUser?.email) {
-        // Check localStorage for admin role first
-        const storedRole = localStorage.getItem(`admin_role_${currentUser.email}`);
-        if (storedRole === 'admin') {
-          resolvedRole = 'admin';
-          console.log('Found admin role in localStorage for:', currentUser.email);
-        } else {
-          // Try to fetch role from backend
-          try {
-            const res = await fetch(`/api/users/role?email=${encodeURIComponent(currentUser.email)}`);
-            if (res.ok) {
-              const data = await res.json();
-              resolvedRole = data?.role ?? 'user';
-              // Store the role in localStorage for persistence
-              localStorage.setItem(`admin_role_${currentUser.email}`, resolvedRole);
-              console.log('Fetched role from backend:', resolvedRole);
-            }
-          } catch (error) {
-            console.log('Backend role fetch failed, using default role');
-          }
-        }
+      // Resolve roles from the server; without a valid session the user gets no elevated access
+      let serverProfile: ServerProfile | null = null;
+      try {
+        serverProfile = await fetchServerProfile();
+        console.log('Fetched role from backend:', serverProfile?.role);
+      } catch (error) {
+        console.log('Backend profile fetch failed, using default role');
       }
 
-      // For now, synthesize a minimal profile and apply resolved role
+      // Prefer the server's copy of the profile; fall back to what was stored at sign in
+      const serverName = [serverProfile?.first_name, serverProfile?.last_name].filter(Boolean).join(' ');
       const profile: UserProfile = {
-        id: Date.now().toString(),
+        id: serverProfile?.id?.toString() || Date.now().toString(),
         user_id: userId,
-        email: currentUser?.email || 'user@example.com',
-        display_name: currentUser?.user_metadata?.display_name || currentUser?.email?.split('@')[0] || 'User',
-        created_at: new Date().toISOString()
+        email: serverProfile?.email || currentUser?.email || 'user@example.com',
+        display_name: serverName || serverProfile?.username || currentUser?.user_metadata?.display_name || currentUser?.email?.split('@')[0] || 'User',
+        created_at: serverProfile?.created_at || new Date().toISOString(),
+        username: serverProfile?.username,
+        first_name: serverProfile?.first_name,
+        last_name: serverProfile?.last_name,
+        avatar_url: serverProfile?.profile_image ?? currentUser?.user_metadata?.avatar_url ?? null,
+        email_verified: serverProfile?.email_verified
       };
 
+      // Keep the stored user in sync with profile edits made on other devices
+      if (serverProfile && currentUser) {
+        const syncedUser: User = {
+          ...currentUser,
+          email: profile.email || currentUser.email,
+          user_metadata: {
+            ...currentUser.user_metadata,
+            display_name: profile.display_name || undefined,
+            avatar_url: profile.avatar_url || undefined
+          }
+        };
+        // Only write when something changed, otherwise other tabs would keep re-syncing each other
+        if (JSON.stringify(syncedUser) !== localStorage.getItem('user')) {
+          localStorage.setItem('user', JSON.stringify(syncedUser));
+          localStorage.setItem('userEmail', syncedUser.email);
+          setUser(syncedUser);
+        }
+      }
+
       console.log('Created profile with display_name:', profile.display_name);
       console.log('User metadata:', currentUser?.user_metadata);
       console.log('User email:', currentUser?.email);
 
       setUserProfile(profile);
-      setUserRole(resolvedRole);
+      applyAccess(serverProfile);
       
     } catch (error) {
       console.error('Error fetching user data:', error);
@@ -137,27 +177,24 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const refreshUserRole = async (): Promise<string | null> => {
+  const refreshAccess = async (): Promise<ServerProfile | null> => {
     try {
-      if (!user?.email) return null;
-      const res = await fetch(`/api/users/role?email=${encodeURIComponent(user.email)}`);
-      if (!res.ok) return userRole;
-      const data = await res.json();
-      const resolved = data?.role ?? null;
-      if (resolved) {
-        localStorage.setItem(`admin_role_${user.email}`,'admin' === resolved ? 'admin' : resolved);
-        setUserRole(resolved);
-      } else {
-        localStorage.removeItem(`admin_role_${user.email}`);
-        setUserRole('user');
-      }
-      return resolved;
+      if (!user) return null;
+      const serverProfile = await fetchServerProfile();
+      applyAccess(serverProfile);
+      return serverProfile;
     } catch (e) {
       console.log('Failed to refresh user role from server');
-      return userRole;
+      applyAccess(null);
+      return null;
     }
   };
 
+  const refreshUserRole = async (): Promise<string | null> => {
+    const serverProfile = await refreshAccess();
+    return serverProfile?.role ?? null;
+  };
+
   const refreshUserData = async () => {
     if (!user) return;
     console.log('Refreshing user data for:', user.id);
@@ -177,7 +214,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         const storedUser = localStorage.getItem('user');
         const storedSession = localStorage.getItem('session');
         
-        if (mounted && storedUser && storedSession) {
+        if (mounted && storedUser && storedSession && getSessionTokens()) {
           const userData = JSON.parse(storedUser);
           const sessionData = JSON.parse(storedSession);
           
@@ -242,31 +279,57 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       }
     };
 
+    // Listen for sign-out (explicit, or a refresh token that was rejected)
+    const handleSignOut = () => {
+      if (!mounted) return;
+      setUser(null);
+      setSession(null);
+      setUserRole(null);
+      setRoles([]);
+      setPermissions([]);
+      setUserProfile(null);
+    };
+
     window.addEventListener('storage', handleStorageChange);
     window.addEventListener('signin', handleSignIn as EventListener);
+    window.addEventListener('signout', handleSignOut);
 
     return () => {
       mounted = false;
       window.removeEventListener('storage', handleStorageChange);
       window.removeEventListener('signin', handleSignIn as EventListener);
+      window.removeEventListener('signout', handleSignOut);
     };
   }, []);
 
   const signOut = async () => {
-    // TODO: Implement MySQL sign out
-    console.log('MySQL sign out not yet implemented');
+    // Revoke the session on the server before dropping the local copy
+    const tokens = getSessionTokens();
+    if (tokens) {
+      try {
+        await fetch('/api/auth/signout', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
+          body: JSON.stringify({ refresh_token: tokens.refresh_token }),
+        });
+      } catch (error) {
+        console.error('Error signing out on server:', error);
+      }
+    }
     
     // Clear local storage
-    localStorage.removeItem('user');
-    localStorage.removeItem('session');
+    clearAuth();
     
     setUser(null);
     setSession(null);
     setUserRole(null);
+    setRoles([]);
+    setPermissions([]);
     setUserProfile(null);
   };
 
-  const isAdmin = userRole === 'admin' || Boolean(user?.email && localStorage.getItem(`admin_role_${user.email}`) === 'admin');
+  const isAdmin = userRole === 'admin';
+  const hasPermission = (permission: string) => permissions.includes(permission);
 
   // Debug logging
   useEffect(() => {
@@ -290,17 +353,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     console.log('User role or admin status changed:', { userRole, isAdmin, userEmail: user?.email });
   }, [userRole, isAdmin, user?.email]);
 
-  // Development helper: Add setAdminRole to window for testing
+  // Development helper: inspect auth state from the console
   useEffect(() => {
     if (typeof window !== 'undefined') {
-      (window as any).setAdminRole = (email: string) => {
-        console.log('Setting admin role for:', email);
-        setAdminRole(email);
-      };
       (window as any).getAuthState = () => ({
         user: !!user,
         userProfile: !!userProfile,
         userRole,
+        permissions,
         isAdmin,
         isLoading,
         isInitialized
@@ -312,20 +372,23 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         }
       };
     }
-  }, [user, userProfile, userRole, isAdmin, isLoading, isInitialized, refreshUserData]);
+  }, [user, userProfile, userRole, permissions, isAdmin, isLoading, isInitialized, refreshUserData]);
 
   return (
     <AuthContext.Provider value={{
       user,
       session,
       userRole,
+      roles,
+      permissions,
       userProfile,
       isLoading,
       isAdmin,
+      hasPermission,
       signOut,
       createProfile,
-      setAdminRole,
       refreshUserRole,
+      refreshAccess,
       refreshUserData
     }}>
       {children}
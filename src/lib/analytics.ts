@@ -1,3 +1,5 @@
+import { authFetch } from './auth-helper';
+
 export interface AnalyticsData {
   users: {
     total: number;
@@ -30,13 +32,12 @@ export interface AnalyticsData {
   }>;
 }
 
-export const getAnalyticsData = async (userEmail: string): Promise<AnalyticsData> => {
+export const getAnalyticsData = async (): Promise<AnalyticsData> => {
   try {
-    const response = await fetch('/api/admin/analytics', {
+    const response = await authFetch('/api/admin/analytics', {
       method: 'GET',
       headers: {
-        'Content-Type': 'application/json',
-        'x-user-email': userEmail
+        'Content-Type': 'application/json'
       }
     });
 
@@ -59,17 +60,16 @@ export const getAnalyticsData = async (userEmail: string): Promise<AnalyticsData
   }
 };
 
-export const getMonthlyUserGrowth = async (userEmail: string, months: number = 6): Promise<Array<{
+export const getMonthlyUserGrowth = async (months: number = 6): Promise<Array<{
   month: string;
   newUsers: number;
   totalUsers: number;
 }>> => {
   try {
-    const response = await fetch(`/api/admin/analytics/user-growth?months=${months}`, {
+    const response = await authFetch(`/api/admin/analytics/user-growth?months=${months}`, {
       method: 'GET',
       headers: {
-        'Content-Type': 'application/json',
-        'x-user-email': userEmail
+        'Content-Type': 'application/json'
       }
     });
 
@@ -85,18 +85,17 @@ export const getMonthlyUserGrowth = async (userEmail: string, months: number = 6
   }
 };
 
-export const getDailyActivity = async (userEmail: string, days: number = 7): Promise<Array<{
+export const getDailyActivity = async (days: number = 7): Promise<Array<{
   date: string;
   activeUsers: number;
   pageViews: number;
   downloads: number;
 }>> => {
   try {
-    const response = await fetch(`/api/admin/analytics/daily-activity?days=${days}`, {
+    const response = await authFetch(`/api/admin/analytics/daily-activity?days=${days}`, {
       method: 'GET',
       headers: {
-        'Content-Type': 'application/json',
-        'x-user-email': userEmail
+        'Content-Type': 'application/json'
       }
     });
 
@@ -111,3 +110,40 @@ export const getDailyActivity = async (userEmail: string, days: number = 7): Pro
     return [];
   }
 };
+
+export interface PurchaseLinkClicks {
+  book_id: number;
+  title: string;
+  author: string;
+  purchase_link: string;
+  is_current: boolean; // false once the book's purchase link has changed
+  clicks: number;
+  users: number; // distinct signed-in users
+  visitors: number; // distinct IP addresses
+  last_clicked_at: string;
+}
+
+export const getPurchaseClicks = async (days: number = 30): Promise<{
+  days: number;
+  total_clicks: number;
+  links: PurchaseLinkClicks[];
+}> => {
+  try {
+    const response = await authFetch(`/api/admin/analytics/purchase-clicks?days=${days}`, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json'
+      }
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return data;
+  } catch (error) {
+    console.error('Error fetching purchase click data:', error);
+    return { days, total_clicks: 0, links: [] };
+  }
+};
@@ -1,3 +1,5 @@
+import { authFetch } from './auth-helper';
+
 // Centralized API configuration
 const API_BASE = '';
 
@@ -7,7 +9,7 @@ export const apiCall = async (endpoint: string, options: RequestInit = {}) => {
   console.log('API Call:', { url, options }); // Debug logging
   
   try {
-    const response = await fetch(url, {
+    const response = await authFetch(url, {
       ...options,
       headers: {
         'Content-Type': 'application/json',
@@ -28,18 +30,16 @@ export const apiCall = async (endpoint: string, options: RequestInit = {}) => {
 };
 
 // Specific API functions
-export const generateThumbnail = async (filePath: string, type?: string, userEmail?: string) => {
+export const generateThumbnail = async (filePath: string, type?: string) => {
   return apiCall('/api/admin/generate-thumbnail', {
     method: 'POST',
-    headers: userEmail ? { 'x-user-email': userEmail } : undefined,
     body: JSON.stringify({ filePath, type }),
   });
 };
 
-export const scrapeCover = async (url: string, userEmail?: string) => {
+export const scrapeCover = async (url: string) => {
   return apiCall('/api/admin/scrape-cover', {
     method: 'POST',
-    headers: userEmail ? { 'x-user-email': userEmail } : undefined,
     body: JSON.stringify({ url }),
   });
 };
@@ -51,10 +51,390 @@ export const updateBookThumbnail = async (bookId: string, coverImagePath: string
   });
 };
 
-export const fetchBooks = async () => {
-  return apiCall('/api/books');
+export interface BookListParams {
+  q?: string;
+  category?: string;
+  book_type?: 'file' | 'link' | 'purchase';
+  author?: string;
+  year_from?: number;
+  year_to?: number;
+  sort?: 'newest' | 'title' | 'downloads' | 'votes';
+  limit?: number;
+  offset?: number;
+  cursor?: string;
+  exclude?: string;
+}
+
+// One page of GET /api/books
+export interface BookListPage<T = Record<string, unknown>> {
+  books: T[];
+  total: number;
+  limit: number;
+  offset: number | null;
+  next_cursor: string | null;
+}
+
+// Build the /api/books URL for a set of list parameters, skipping empty ones
+export const booksUrl = (params: BookListParams = {}) => {
+  const search = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== '') search.set(key, String(value));
+  });
+  const query = search.toString();
+  return query ? `/api/books?${query}` : '/api/books';
+};
+
+export const fetchBooks = async (params: BookListParams = {}) => {
+  return apiCall(booksUrl(params));
+};
+
+// Fetch every book matching the parameters by following the pagination cursor
+export const fetchAllBooks = async <T = Record<string, unknown>>(params: Omit<BookListParams, 'limit' | 'offset' | 'cursor'> = {}) => {
+  const books: T[] = [];
+  let cursor: string | undefined;
+  do {
+    const response = await fetchBooks({ ...params, limit: 100, cursor });
+    const page: BookListPage<T> = await response.json();
+    books.push(...page.books);
+    cursor = page.next_cursor ?? undefined;
+  } while (cursor);
+  return books;
+};
+
+export interface BookTextMatch {
+  page: number;
+  snippet: string;
+  highlights: [number, number][]; // [start, end) offsets into snippet
+}
+
+export interface BookTextResult<T = Record<string, unknown>> {
+  book: T;
+  matches: BookTextMatch[];
+}
+
+export interface BookTextSearchPage<T = Record<string, unknown>> {
+  results: BookTextResult<T>[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+// Search the text inside uploaded PDFs and EPUBs
+export const searchBookText = async <T = Record<string, unknown>>(q: string, params: { limit?: number; offset?: number } = {}) => {
+  const search = new URLSearchParams({ q });
+  if (params.limit !== undefined) search.set('limit', String(params.limit));
+  if (params.offset !== undefined) search.set('offset', String(params.offset));
+  const response = await apiCall(`/api/search/book-text?${search.toString()}`);
+  const page: BookTextSearchPage<T> = await response.json();
+  return page;
+};
+
+// Reindex the text of one book, or queue every book that has none yet
+export const indexBookText = async (bookId?: string | number) => {
+  return apiCall(bookId === undefined ? '/api/admin/books/text-index' : `/api/admin/books/${bookId}/text-index`, {
+    method: 'POST',
+  });
+};
+
+export interface IsbnMetadata {
+  title: string | null;
+  author: string | null;
+  description: string | null;
+  page_count: number | null;
+  published_year: number | null;
+  cover_url: string | null;
+}
+
+export interface IsbnEnrichment {
+  isbn: string; // normalised to ISBN-13
+  metadata: IsbnMetadata;
+  sources: Partial<Record<keyof IsbnMetadata, string>>; // provider that supplied each field
+  cover: { base64: string; type: string } | null;
+}
+
+// Look up a book's details by ISBN from the configured metadata providers
+export const enrichFromIsbn = async (isbn: string) => {
+  const response = await apiCall('/api/admin/books/enrich', {
+    method: 'POST',
+    body: JSON.stringify({ isbn }),
+  });
+  const data: IsbnEnrichment = await response.json();
+  return data;
+};
+
+export type BookImportStatus = 'validated' | 'running' | 'completed' | 'failed';
+
+export interface BookImport {
+  id: number;
+  manifest_name: string;
+  has_archive: boolean;
+  status: BookImportStatus;
+  total_rows: number;
+  valid_rows: number;
+  imported_rows: number;
+  failed_rows: number;
+  error: string | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+}
+
+export interface BookImportRow {
+  line: number; // 1-based position in the manifest
+  title: string;
+  author: string;
+  book_type: string | null;
+  status: 'valid' | 'invalid' | 'imported' | 'failed';
+  errors: string[];
+  warnings: string[];
+  book_id: number | null;
+}
+
+export interface BookImportReport {
+  import: BookImport;
+  rows: BookImportRow[];
+}
+
+// Upload a manifest (and optional ZIP of files) for a dry run; nothing is imported yet
+export const validateBookImport = async (manifest: File, archive?: File | null) => {
+  const body = new FormData();
+  body.append('manifest', manifest);
+  if (archive) body.append('archive', archive);
+  // Not apiCall: the browser must set the multipart Content-Type itself
+  const response = await authFetch('/api/admin/book-imports', { method: 'POST', body });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Failed to validate import');
+  }
+  const report: BookImportReport = await response.json();
+  return report;
+};
+
+export const startBookImport = async (importId: number) => {
+  const response = await apiCall(`/api/admin/book-imports/${importId}/start`, { method: 'POST' });
+  const report: BookImportReport = await response.json();
+  return report;
+};
+
+export const fetchBookImport = async (importId: number) => {
+  const response = await apiCall(`/api/admin/book-imports/${importId}`);
+  const report: BookImportReport = await response.json();
+  return report;
+};
+
+export const deleteBookImport = async (importId: number) => {
+  return apiCall(`/api/admin/book-imports/${importId}`, { method: 'DELETE' });
+};
+
+export type CatalogExportFormat = 'csv' | 'json' | 'marc' | 'marcxml';
+
+// Filters of the admin tables; books also accept book_type, author, year_from and year_to
+export type CatalogExportFilters = Record<string, string | undefined>;
+
+// Download the books or tutorials catalog; marc and marcxml are only available for books
+export const downloadCatalogExport = async (kind: 'books' | 'tutorials', format: CatalogExportFormat, filters: CatalogExportFilters = {}) => {
+  const search = new URLSearchParams({ format });
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value) search.set(key, value);
+  });
+
+  const response = await authFetch(`/api/admin/export/${kind}?${search.toString()}`);
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Failed to export catalog');
+  }
+
+  // Use the server's file name when it sends one
+  const disposition = response.headers.get('Content-Disposition') || '';
+  const fileName = /filename="([^"]+)"/.exec(disposition)?.[1] || `iykelib-${kind}.${format}`;
+
+  const blob = await response.blob();
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+export interface BookFile {
+  id: number;
+  book_id: number;
+  format: string; // file extension, e.g. pdf or epub
+  edition: string | null;
+  language: string | null;
+  file_name: string | null;
+  file_type: string | null;
+  file_size: number | null;
+  is_primary: boolean;
+  created_at: string;
+}
+
+export interface UploadedFile {
+  filePath: string;
+  originalName: string;
+  size: number;
+  mimetype: string;
+}
+
+// e.g. "EPUB · 3rd edition · en · 1.2 MB", for the format picker and the admin file list
+export const describeBookFile = (file: BookFile) => {
+  const parts = [file.format.toUpperCase(), file.edition, file.language];
+  if (file.file_size) {
+    parts.push(file.file_size >= 1024 * 1024
+      ? `${(file.file_size / (1024 * 1024)).toFixed(1)} MB`
+      : `${Math.max(1, Math.round(file.file_size / 1024))} KB`);
+  }
+  return parts.filter(Boolean).join(' · ');
+};
+
+export const fetchBookFiles = async (bookId: string | number) => {
+  const response = await apiCall(`/api/books/${bookId}/files`);
+  const data: { files: BookFile[] } = await response.json();
+  return data.files;
+};
+
+// Store a file (on disk or in S3) so it can be attached to a book
+export const uploadBookFile = async (file: File) => {
+  const body = new FormData();
+  body.append('file', file);
+  // Not apiCall: the browser must set the multipart Content-Type itself
+  const response = await authFetch('/api/admin/upload-file', { method: 'POST', body });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Failed to upload file');
+  }
+  const uploaded: UploadedFile = await response.json();
+  return uploaded;
+};
+
+export const addBookFile = async (bookId: string | number, uploaded: UploadedFile, labels: { edition?: string; language?: string } = {}) => {
+  const response = await apiCall(`/api/admin/books/${bookId}/files`, {
+    method: 'POST',
+    body: JSON.stringify({
+      file_path: uploaded.filePath,
+      file_name: uploaded.originalName,
+      file_type: uploaded.mimetype,
+      file_size: uploaded.size,
+      edition: labels.edition || null,
+      language: labels.language || null,
+    }),
+  });
+  const file: BookFile = await response.json();
+  return file;
+};
+
+export const updateBookFile = async (bookId: string | number, fileId: number, changes: { edition?: string | null; language?: string | null; is_primary?: true }) => {
+  const response = await apiCall(`/api/admin/books/${bookId}/files/${fileId}`, {
+    method: 'PUT',
+    body: JSON.stringify(changes),
+  });
+  const file: BookFile = await response.json();
+  return file;
+};
+
+export const deleteBookFile = async (bookId: string | number, fileId: number) => {
+  return apiCall(`/api/admin/books/${bookId}/files/${fileId}`, { method: 'DELETE' });
+};
+
+// Download a book's primary file, or one of its files. Signed-in downloads are counted.
+export const downloadBookFile = async (bookId: string | number, fileId?: number | null) => {
+  const response = await authFetch(`/api/books/${bookId}/download${fileId ? `?file=${fileId}` : ''}`);
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Failed to download book');
+  }
+
+  // Files in S3 come back as a presigned URL
+  const link = document.createElement('a');
+  if ((response.headers.get('Content-Type') || '').includes('application/json')) {
+    const data: { url: string } = await response.json();
+    link.href = data.url;
+    link.target = '_blank';
+    link.rel = 'noopener';
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    return;
+  }
+
+  const disposition = response.headers.get('Content-Disposition') || '';
+  const encodedName = /filename\*=UTF-8''([^;]+)/i.exec(disposition)?.[1];
+  const fileName = encodedName ? decodeURIComponent(encodedName) : /filename="([^"]+)"/.exec(disposition)?.[1] || 'download';
+
+  const url = URL.createObjectURL(await response.blob());
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
 };
 
 export const fetchAdminBooks = async () => {
   return apiCall('/api/admin/books');
 };
+
+// Duplicate books: why two books look alike
+export type DuplicateReason = 'isbn' | 'title_author' | 'file';
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  isbn: 'Same ISBN',
+  title_author: 'Same title and author',
+  file: 'Same file',
+};
+
+// A likely duplicate returned with a created or updated book
+export interface BookDuplicate {
+  id: number;
+  title: string;
+  author: string;
+  isbn: string | null;
+  book_type: 'file' | 'link' | 'purchase';
+  category_id: number;
+  category_name: string | null;
+  cover_image_path: string | null;
+  created_at: string;
+  reasons: DuplicateReason[];
+}
+
+export interface DuplicateGroupBook extends Omit<BookDuplicate, 'reasons'> {
+  ratings: number;
+  bookmarks: number;
+  downloads: number;
+  files: number;
+}
+
+export interface DuplicateGroup {
+  books: DuplicateGroupBook[];
+  pairs: { book_id: number; other_book_id: number; reasons: DuplicateReason[] }[];
+}
+
+export interface DuplicateReport {
+  groups: DuplicateGroup[];
+  unhashed_files: number; // files whose contents are still being compared
+}
+
+export const fetchBookDuplicates = async () => {
+  const response = await apiCall('/api/admin/books/duplicates');
+  const report: DuplicateReport = await response.json();
+  return report;
+};
+
+// Stop suggesting two books as duplicates
+export const dismissBookDuplicate = async (bookId: number, otherBookId: number) => {
+  return apiCall('/api/admin/books/duplicates/dismiss', {
+    method: 'POST',
+    body: JSON.stringify({ book_id: bookId, other_book_id: otherBookId }),
+  });
+};
+
+// Merge duplicates into the book to keep; their ratings, bookmarks, downloads and files move to it
+export const mergeBooks = async (keepBookId: number, duplicateIds: number[]) => {
+  return apiCall(`/api/admin/books/${keepBookId}/merge`, {
+    method: 'POST',
+    body: JSON.stringify({ duplicate_ids: duplicateIds }),
+  });
+};
@@ -0,0 +1,90 @@
+export interface AppToken {
+  id: number;
+  name: string;
+  token_hint: string; // last four characters of the token
+  created_at: string;
+  last_used_at: string | null;
+}
+
+export interface AppTokenList {
+  tokens: AppToken[];
+  opds_url: string;
+  opds2_url: string;
+}
+
+export interface CreatedAppToken extends AppToken {
+  token: string; // only returned once, when the token is created
+}
+
+import { authFetch, isAuthenticated } from './auth-helper';
+
+// The signed-in user's app tokens and the OPDS catalog addresses to use them with
+export const fetchAppTokens = async (): Promise<AppTokenList> => {
+  try {
+    if (!isAuthenticated()) {
+      throw new Error('User not authenticated');
+    }
+
+    const response = await authFetch('/api/auth/app-tokens', {
+      method: 'GET',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to fetch app tokens');
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Error fetching app tokens:', error);
+    throw error;
+  }
+};
+
+// Create a token for an e-reader app
+export const createAppToken = async (name: string): Promise<CreatedAppToken> => {
+  try {
+    if (!isAuthenticated()) {
+      throw new Error('User not authenticated');
+    }
+
+    const response = await authFetch('/api/auth/app-tokens', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ name }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to create app token');
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Error creating app token:', error);
+    throw error;
+  }
+};
+
+// Revoke a token; apps using it lose access straight away
+export const revokeAppToken = async (id: number): Promise<void> => {
+  try {
+    if (!isAuthenticated()) {
+      throw new Error('User not authenticated');
+    }
+
+    const response = await authFetch(`/api/auth/app-tokens/${id}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to revoke app token');
+    }
+  } catch (error) {
+    console.error('Error revoking app token:', error);
+    throw error;
+  }
+};
@@ -9,6 +9,15 @@ export interface AuthUser {
   role?: string;
 }
 
+// Tokens issued by /api/auth/signin, /api/auth/signup and /api/auth/refresh
+export interface SessionTokens {
+  access_token: string;
+  refresh_token: string;
+  token_type?: string;
+  expires_at: string;
+  refresh_expires_at?: string;
+}
+
 // Set user authentication data
 export const setAuthUser = (user: AuthUser) => {
   localStorage.setItem('user', JSON.stringify(user));
@@ -46,56 +55,124 @@ export const getUserEmail = (): string | null => {
          JSON.parse(localStorage.getItem('user') || '{}')?.email : null;
 };
 
+// Get the session tokens stored alongside the session
+export const getSessionTokens = (): SessionTokens | null => {
+  try {
+    const sessionStr = localStorage.getItem('session');
+    if (!sessionStr) return null;
+    const session = JSON.parse(sessionStr);
+    if (!session?.access_token || !session?.refresh_token) return null;
+    return {
+      access_token: session.access_token,
+      refresh_token: session.refresh_token,
+      token_type: session.token_type,
+      expires_at: session.expires_at,
+      refresh_expires_at: session.refresh_expires_at
+    };
+  } catch (error) {
+    console.error('Error parsing session data:', error);
+    return null;
+  }
+};
+
+// Store new session tokens (e.g. after a refresh) without touching the rest of the session
+export const setSessionTokens = (tokens: SessionTokens) => {
+  let session: Record<string, unknown> = {};
+  try {
+    session = JSON.parse(localStorage.getItem('session') || '{}') || {};
+  } catch (error) {
+    session = {};
+  }
+  localStorage.setItem('session', JSON.stringify({ ...session, ...tokens }));
+};
+
+// Authorization header for API calls
+export const getAuthHeaders = (): Record<string, string> => {
+  const tokens = getSessionTokens();
+  return tokens ? { Authorization: `Bearer ${tokens.access_token}` } : {};
+};
+
 // Check if user is authenticated
 export const isAuthenticated = (): boolean => {
-  return getUserEmail() !== null;
+  return getSessionTokens() !== null;
 };
 
 // Clear authentication data
 export const clearAuth = () => {
-  localStorage.removeItem('user');
-  localStorage.removeItem('userEmail');
-  localStorage.removeItem('session');
-  
-  // Clear any admin role data
+  // Drop role values cached by older builds; roles now come from /api/auth/profile
   const user = getAuthUser();
   if (user?.email) {
     localStorage.removeItem(`admin_role_${user.email}`);
   }
+
+  localStorage.removeItem('user');
+  localStorage.removeItem('userEmail');
+  localStorage.removeItem('userRole');
+  localStorage.removeItem('session');
+  
+  // Dispatch custom event so the auth context drops its state
+  window.dispatchEvent(new CustomEvent('signout'));
   
   console.log('✅ Authentication data cleared');
 };
 
-// Set admin role for testing
-export const setAdminRole = (email: string) => {
-  localStorage.setItem(`admin_role_${email}`, 'admin');
-  console.log(`✅ Admin role set for: ${email}`);
-};
+// Rotate the session using the refresh token; concurrent callers share one request
+let refreshInFlight: Promise<boolean> | null = null;
+export const refreshSession = async (): Promise<boolean> => {
+  const tokens = getSessionTokens();
+  if (!tokens) return false;
+
+  if (!refreshInFlight) {
+    refreshInFlight = (async () => {
+      try {
+        const response = await fetch('/api/auth/refresh', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ refresh_token: tokens.refresh_token }),
+        });
+        if (!response.ok) {
+          clearAuth();
+          return false;
+        }
+        const data = await response.json();
+        setSessionTokens(data.session);
+        return true;
+      } catch (error) {
+        console.error('Error refreshing session:', error);
+        return false;
+      } finally {
+        refreshInFlight = null;
+      }
+    })();
+  }
 
-// Check if user has admin role
-export const hasAdminRole = (email: string): boolean => {
-  return localStorage.getItem(`admin_role_${email}`) === 'admin';
+  return refreshInFlight;
 };
 
-// Development helper: Quick admin setup
-export const setupTestAdmin = () => {
-  const testUser: AuthUser = {
-    id: '1',
-    email: 'admin@test.com',
-    username: 'admin',
-    first_name: 'Admin',
-    last_name: 'User',
-    role: 'admin'
+// fetch() wrapper that sends the access token and retries once after refreshing an expired session
+export const authFetch = async (input: string, init: RequestInit = {}): Promise<Response> => {
+  const withAuth = (): RequestInit => {
+    const headers = new Headers(init.headers);
+    const tokens = getSessionTokens();
+    if (tokens && !headers.has('Authorization')) {
+      headers.set('Authorization', `Bearer ${tokens.access_token}`);
+    }
+    return { ...init, headers };
   };
-  
-  setAuthUser(testUser);
-  setAdminRole(testUser.email);
-  
-  console.log('🎉 Test admin user setup complete!');
-  console.log('📧 Email:', testUser.email);
-  console.log('🔑 You can now access admin features');
-  
-  return testUser;
+
+  const tokens = getSessionTokens();
+  if (tokens?.expires_at && new Date(tokens.expires_at).getTime() <= Date.now()) {
+    await refreshSession();
+  }
+
+  let response = await fetch(input, withAuth());
+  if (response.status === 401 && getSessionTokens()) {
+    const refreshed = await refreshSession();
+    if (refreshed) {
+      response = await fetch(input, withAuth());
+    }
+  }
+  return response;
 };
 
 // Development helper: Quick user setup
@@ -123,11 +200,9 @@ if (typeof window !== 'undefined') {
     setAuthUser,
     getAuthUser,
     getUserEmail,
+    getSessionTokens,
     isAuthenticated,
     clearAuth,
-    setAdminRole,
-    hasAdminRole,
-    setupTestAdmin,
     setupTestUser
   };
 }
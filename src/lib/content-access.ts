@@ -0,0 +1,83 @@
+export type ContentLicense =
+  | 'cc-by'
+  | 'cc-by-sa'
+  | 'cc-by-nd'
+  | 'cc-by-nc'
+  | 'cc-by-nc-sa'
+  | 'cc-by-nc-nd'
+  | 'cc0'
+  | 'public-domain'
+  | 'all-rights-reserved';
+
+// Who may open a book or tutorial; restricted items are open to one role (or only staff without one)
+export type AccessLevel = 'public' | 'signed_in' | 'restricted';
+
+// Why the API refused to open an item
+export type AccessDeniedCode = 'SIGN_IN_REQUIRED' | 'ACCESS_RESTRICTED';
+
+export interface AccessRole {
+  id: number;
+  name: string;
+}
+
+export const LICENSE_LABELS: Record<ContentLicense, string> = {
+  'cc-by': 'CC BY 4.0',
+  'cc-by-sa': 'CC BY-SA 4.0',
+  'cc-by-nd': 'CC BY-ND 4.0',
+  'cc-by-nc': 'CC BY-NC 4.0',
+  'cc-by-nc-sa': 'CC BY-NC-SA 4.0',
+  'cc-by-nc-nd': 'CC BY-NC-ND 4.0',
+  'cc0': 'CC0 1.0',
+  'public-domain': 'Public domain',
+  'all-rights-reserved': 'All rights reserved',
+};
+
+export const LICENSE_URLS: Partial<Record<ContentLicense, string>> = {
+  'cc-by': 'https://creativecommons.org/licenses/by/4.0/',
+  'cc-by-sa': 'https://creativecommons.org/licenses/by-sa/4.0/',
+  'cc-by-nd': 'https://creativecommons.org/licenses/by-nd/4.0/',
+  'cc-by-nc': 'https://creativecommons.org/licenses/by-nc/4.0/',
+  'cc-by-nc-sa': 'https://creativecommons.org/licenses/by-nc-sa/4.0/',
+  'cc-by-nc-nd': 'https://creativecommons.org/licenses/by-nc-nd/4.0/',
+  'cc0': 'https://creativecommons.org/publicdomain/zero/1.0/',
+  'public-domain': 'https://creativecommons.org/publicdomain/mark/1.0/',
+};
+
+export const ACCESS_LEVEL_LABELS: Record<AccessLevel, string> = {
+  public: 'Everyone',
+  signed_in: 'Signed-in users',
+  restricted: 'One role only',
+};
+
+// Badge text for an item that is not public, e.g. "Members only" or "Staff only"
+export const accessBadgeLabel = (level: AccessLevel | null | undefined, role?: string | null): string | null => {
+  if (level === 'signed_in') return 'Members only';
+  if (level === 'restricted') return role ? `${role} only` : 'Staff only';
+  return null;
+};
+
+import { authFetch, isAuthenticated } from './auth-helper';
+
+// Roles a book or tutorial can be restricted to
+export const fetchAccessRoles = async (): Promise<AccessRole[]> => {
+  try {
+    if (!isAuthenticated()) {
+      throw new Error('User not authenticated');
+    }
+
+    const response = await authFetch('/api/admin/access-roles', {
+      method: 'GET',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to fetch roles');
+    }
+
+    const data = await response.json();
+    return data.roles;
+  } catch (error) {
+    console.error('Error fetching access roles:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,191 @@
+export type ContributorRole = 'author' | 'editor' | 'translator' | 'instructor';
+
+export const CONTRIBUTOR_ROLE_LABELS: Record<ContributorRole, string> = {
+  author: 'Author',
+  editor: 'Editor',
+  translator: 'Translator',
+  instructor: 'Instructor',
+};
+
+// A person credited on a book or tutorial, in credit order
+export interface Credit {
+  id: number;
+  name: string;
+  role: ContributorRole;
+}
+
+// A credit as edited in the admin forms, before it is saved
+export interface ContributorInput {
+  name: string;
+  role: ContributorRole;
+}
+
+export interface ContributorSuggestion {
+  id: number;
+  name: string;
+  book_count: number;
+  tutorial_count: number;
+}
+
+export interface ContributorBook {
+  id: number;
+  title: string;
+  author: string;
+  description: string | null;
+  book_type: 'file' | 'link' | 'purchase';
+  cover_image_path: string | null;
+  thumbnail: string;
+  category_name: string | null;
+  published_year: number | null;
+  roles: ContributorRole[];
+}
+
+export interface ContributorTutorial {
+  id: number;
+  title: string;
+  description: string | null;
+  creator: string | null;
+  difficulty: 'Beginner' | 'Intermediate' | 'Advanced';
+  content_type: 'Video' | 'PDF';
+  category_name: string | null;
+  created_at: string;
+  roles: ContributorRole[];
+}
+
+export interface ContributorDetail {
+  id: number;
+  name: string;
+  books: ContributorBook[]; // newest first
+  tutorials: ContributorTutorial[]; // newest first
+}
+
+export interface ContributorBackfillFailure {
+  content_type: 'book' | 'tutorial';
+  content_id: number;
+  error: string;
+}
+
+// Crediting books and tutorials from before contributors, started from the admin Settings page
+export interface ContributorBackfill {
+  status: 'idle' | 'running' | 'completed' | 'failed';
+  started_at: string | null;
+  finished_at: string | null;
+  credited_books: number;
+  credited_tutorials: number;
+  failures: ContributorBackfillFailure[];
+  error: string | null;
+}
+
+export interface ContributorBackfillStatus {
+  pending: { books: number; tutorials: number }; // items with author / creator text but no credits
+  backfill: ContributorBackfill;
+}
+
+// Editable credits for an item: its saved contributors, or its display text when it has none yet
+export const toContributorInputs = (
+  credits: Credit[] | undefined,
+  text: string | null | undefined,
+  defaultRole: ContributorRole
+): ContributorInput[] => {
+  if (credits && credits.length > 0) {
+    return credits.map(({ name, role }) => ({ name, role }));
+  }
+  return text ? [{ name: text, role: defaultRole }] : [];
+};
+
+// The people in a comma-separated list such as the author field ISBN lookups return
+export const splitContributorNames = (names: string, role: ContributorRole): ContributorInput[] =>
+  names.split(',').map(name => name.trim()).filter(Boolean).map(name => ({ name, role }));
+
+// "Author", "Editor & Translator", ... for a person's roles on one item
+export const rolesLabel = (roles: ContributorRole[]) =>
+  roles.map(role => CONTRIBUTOR_ROLE_LABELS[role]).join(' & ');
+
+import { authFetch, isAuthenticated } from './auth-helper';
+
+// People whose name contains `query`, for autocomplete
+export const searchContributors = async (query: string, limit = 10): Promise<ContributorSuggestion[]> => {
+  try {
+    const params = new URLSearchParams({ q: query, limit: String(limit) });
+    const response = await authFetch(`/api/contributors?${params}`, {
+      method: 'GET',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to fetch contributors');
+    }
+
+    const data = await response.json();
+    return data.contributors;
+  } catch (error) {
+    console.error('Error fetching contributors:', error);
+    throw error;
+  }
+};
+
+// A person with the books and tutorials they are credited on
+export const fetchContributor = async (contributorId: string | number): Promise<ContributorDetail> => {
+  try {
+    const response = await authFetch(`/api/contributors/${contributorId}`, {
+      method: 'GET',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to fetch contributor');
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Error fetching contributor:', error);
+    throw error;
+  }
+};
+
+// Items still without credits and the last backfill's progress
+export const fetchContributorBackfill = async (): Promise<ContributorBackfillStatus> => {
+  try {
+    if (!isAuthenticated()) {
+      throw new Error('User not authenticated');
+    }
+
+    const response = await authFetch('/api/admin/contributors/backfill', {
+      method: 'GET',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to fetch contributor backfill status');
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Error fetching contributor backfill status:', error);
+    throw error;
+  }
+};
+
+// Start crediting uncredited books and tutorials from their text; runs in the background
+export const startContributorBackfill = async (): Promise<ContributorBackfill> => {
+  try {
+    if (!isAuthenticated()) {
+      throw new Error('User not authenticated');
+    }
+
+    const response = await authFetch('/api/admin/contributors/backfill', {
+      method: 'POST',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to start contributor backfill');
+    }
+
+    const data = await response.json();
+    return data.backfill;
+  } catch (error) {
+    console.error('Error starting contributor backfill:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,134 @@
+export type LinkStatus = 'ok' | 'broken' | 'unreachable' | 'unchecked';
+
+// Added to books and tutorials in the admin lists; link_status is null for items without an outside link
+export interface LinkHealth {
+  link_status: LinkStatus | null;
+  link_status_code: number | null;
+  link_error: string | null;
+  link_checked_at: string | null;
+  link_broken_since: string | null;
+  link_hidden_at?: string | null; // set while the item is hidden for a broken link
+}
+
+export interface LinkCheck {
+  status: Exclude<LinkStatus, 'unchecked'>;
+  status_code: number | null;
+  error: string | null;
+  response_ms: number | null;
+  checked_at: string;
+}
+
+export interface LinkReport {
+  field: string; // external_link, purchase_link, content_url or embed_url
+  url: string;
+  status: Exclude<LinkStatus, 'unchecked'> | null;
+  status_code?: number | null;
+  error?: string | null;
+  final_url?: string | null;
+  last_checked_at?: string | null;
+  broken_since?: string | null;
+  checks: LinkCheck[]; // newest first
+}
+
+export interface ItemLinkReport {
+  hidden_at: string | null;
+  links: LinkReport[];
+}
+
+export interface LinkCheckRun {
+  status: 'idle' | 'running' | 'completed' | 'failed';
+  started_at: string | null;
+  finished_at: string | null;
+  total: number;
+  checked: number;
+  failing: number;
+  error: string | null;
+}
+
+export interface LinkCheckStatus {
+  settings: { interval_hours: number; hide_after_days: number; timeout_ms: number };
+  run: LinkCheckRun;
+  counts: Record<LinkStatus, number>;
+  hidden: { books: number; tutorials: number };
+}
+
+export const LINK_STATUS_LABELS: Record<LinkStatus, string> = {
+  ok: 'Link OK',
+  broken: 'Broken link',
+  unreachable: 'Link unreachable',
+  unchecked: 'Not checked yet',
+};
+
+export const isLinkFailing = (status: LinkStatus | null | undefined) => status === 'broken' || status === 'unreachable';
+
+import { authFetch, isAuthenticated } from './auth-helper';
+
+// Checker settings, the last run and counts of links per status
+export const fetchLinkCheckStatus = async (): Promise<LinkCheckStatus> => {
+  try {
+    if (!isAuthenticated()) {
+      throw new Error('User not authenticated');
+    }
+
+    const response = await authFetch('/api/admin/link-checks', {
+      method: 'GET',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to fetch link check status');
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Error fetching link check status:', error);
+    throw error;
+  }
+};
+
+// Check every link now; runs in the background
+export const startLinkCheck = async (): Promise<LinkCheckRun> => {
+  try {
+    if (!isAuthenticated()) {
+      throw new Error('User not authenticated');
+    }
+
+    const response = await authFetch('/api/admin/link-checks/run', {
+      method: 'POST',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to start link check');
+    }
+
+    const data = await response.json();
+    return data.run;
+  } catch (error) {
+    console.error('Error starting link check:', error);
+    throw error;
+  }
+};
+
+// Latest result and recent checks of a book's or tutorial's outside links
+export const fetchItemLinkChecks = async (kind: 'books' | 'tutorials', id: string | number): Promise<ItemLinkReport> => {
+  try {
+    if (!isAuthenticated()) {
+      throw new Error('User not authenticated');
+    }
+
+    const response = await authFetch(`/api/admin/${kind}/${id}/link-checks`, {
+      method: 'GET',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to fetch link checks');
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Error fetching link checks:', error);
+    throw error;
+  }
+};
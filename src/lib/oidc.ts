@@ -0,0 +1,136 @@
+export interface SignInProvider {
+  id: string;
+  name: string;
+}
+
+export interface LinkedIdentity {
+  provider: string;
+  name: string;
+  email: string | null;
+  created_at: string;
+  last_used_at: string | null;
+}
+
+import { authFetch, isAuthenticated } from './auth-helper';
+
+// Providers offered as "Continue with ..." on the sign-in page (empty when none are configured)
+export const fetchSignInProviders = async (): Promise<SignInProvider[]> => {
+  try {
+    const response = await fetch('/api/auth/providers');
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to fetch sign-in providers');
+    }
+
+    const data = await response.json();
+    return data.providers || [];
+  } catch (error) {
+    console.error('Error fetching sign-in providers:', error);
+    throw error;
+  }
+};
+
+// Start signing in with a provider; returns the provider URL to send the browser to
+export const startProviderSignIn = async (providerId: string): Promise<string> => {
+  try {
+    const response = await fetch(`/api/auth/oidc/${encodeURIComponent(providerId)}/start`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({}),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to start sign in');
+    }
+
+    const data = await response.json();
+    return data.authorization_url;
+  } catch (error) {
+    console.error('Error starting provider sign in:', error);
+    throw error;
+  }
+};
+
+// Start linking a provider to the signed-in account; returns the provider URL
+export const startProviderLink = async (providerId: string): Promise<string> => {
+  try {
+    if (!isAuthenticated()) {
+      throw new Error('User not authenticated');
+    }
+
+    const response = await authFetch(`/api/auth/oidc/${encodeURIComponent(providerId)}/start`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ link: true }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to link provider');
+    }
+
+    const data = await response.json();
+    return data.authorization_url;
+  } catch (error) {
+    console.error('Error starting provider link:', error);
+    throw error;
+  }
+};
+
+// Providers linked to the signed-in account
+export const fetchLinkedIdentities = async (): Promise<LinkedIdentity[]> => {
+  try {
+    if (!isAuthenticated()) {
+      throw new Error('User not authenticated');
+    }
+
+    const response = await authFetch('/api/auth/identities', {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to fetch linked accounts');
+    }
+
+    const data = await response.json();
+    return data.identities || [];
+  } catch (error) {
+    console.error('Error fetching linked accounts:', error);
+    throw error;
+  }
+};
+
+// Unlink a provider; the password is only needed for the last linked provider
+export const unlinkIdentity = async (providerId: string, password?: string): Promise<void> => {
+  try {
+    if (!isAuthenticated()) {
+      throw new Error('User not authenticated');
+    }
+
+    const response = await authFetch(`/api/auth/identities/${encodeURIComponent(providerId)}`, {
+      method: 'DELETE',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ password }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to unlink provider');
+    }
+  } catch (error) {
+    console.error('Error unlinking provider:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,156 @@
+export interface ExchangeRate {
+  currency: string; // ISO 4217 code
+  rate: number; // units of `currency` per 1 of the base currency
+  updated_at: string;
+}
+
+export interface ExchangeRates {
+  base: string; // always USD; it has no row of its own
+  rates: ExchangeRate[];
+}
+
+export interface PricePoint {
+  price: number;
+  currency: string;
+  recorded_at: string;
+}
+
+import { authFetch, isAuthenticated } from './auth-helper';
+
+// Rates admins maintain for showing prices in a visitor's currency
+export const fetchExchangeRates = async (): Promise<ExchangeRates> => {
+  try {
+    const response = await authFetch('/api/exchange-rates', {
+      method: 'GET',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to fetch exchange rates');
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Error fetching exchange rates:', error);
+    throw error;
+  }
+};
+
+// Currencies prices can be shown in: the base currency and every currency with a rate
+export const availableCurrencies = (rates: ExchangeRates) =>
+  [rates.base, ...rates.rates.map(rate => rate.currency)];
+
+// `amount` in `from` converted to `to`, or null when either currency has no rate
+export const convertPrice = (amount: number, from: string, to: string, rates: ExchangeRates): number | null => {
+  if (from === to) return amount;
+  const rateOf = (currency: string) =>
+    currency === rates.base ? 1 : rates.rates.find(rate => rate.currency === currency)?.rate;
+  const fromRate = rateOf(from);
+  const toRate = rateOf(to);
+  if (!fromRate || !toRate) return null;
+  return (amount / fromRate) * toRate;
+};
+
+export const formatPrice = (amount: number, currency: string) => {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+  } catch {
+    // Not a currency this browser knows
+    return `${currency} ${amount.toFixed(2)}`;
+  }
+};
+
+// Every recorded price of a book, oldest first
+export const fetchPriceHistory = async (bookId: string | number): Promise<PricePoint[]> => {
+  try {
+    const response = await authFetch(`/api/books/${bookId}/price-history`, {
+      method: 'GET',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to fetch price history');
+    }
+
+    const data = await response.json();
+    return data.history;
+  } catch (error) {
+    console.error('Error fetching price history:', error);
+    throw error;
+  }
+};
+
+// Open a purchase book's shop in a new tab. The click is counted by the server; the tab is opened
+// before the request so popup blockers treat it as part of the user's click.
+export const openPurchaseLink = async (bookId: string | number) => {
+  const tab = window.open('', '_blank');
+  try {
+    const response = await authFetch(`/api/books/${bookId}/purchase?format=json`, {
+      method: 'GET',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to open purchase link');
+    }
+
+    const { url } = await response.json();
+    if (tab) {
+      tab.opener = null;
+      tab.location.href = url;
+    } else {
+      window.location.href = url;
+    }
+  } catch (error) {
+    tab?.close();
+    console.error('Error opening purchase link:', error);
+    throw error;
+  }
+};
+
+// Add or change a currency's rate (units per 1 USD)
+export const saveExchangeRate = async (currency: string, rate: number): Promise<ExchangeRate> => {
+  try {
+    if (!isAuthenticated()) {
+      throw new Error('User not authenticated');
+    }
+
+    const response = await authFetch(`/api/admin/exchange-rates/${encodeURIComponent(currency)}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ rate }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to save exchange rate');
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Error saving exchange rate:', error);
+    throw error;
+  }
+};
+
+export const deleteExchangeRate = async (currency: string): Promise<void> => {
+  try {
+    if (!isAuthenticated()) {
+      throw new Error('User not authenticated');
+    }
+
+    const response = await authFetch(`/api/admin/exchange-rates/${encodeURIComponent(currency)}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to remove exchange rate');
+    }
+  } catch (error) {
+    console.error('Error removing exchange rate:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,157 @@
+export interface ProfileUpdate {
+  username?: string;
+  first_name?: string | null;
+  last_name?: string | null;
+  email?: string;
+  current_password?: string;
+  new_password?: string;
+}
+
+export interface ProfileUpdateResult {
+  message: string;
+  email_verification_sent: boolean;
+  sessions_revoked: number;
+}
+
+import { authFetch, isAuthenticated } from './auth-helper';
+
+// Update the signed-in user's own profile
+export const updateProfile = async (update: ProfileUpdate): Promise<ProfileUpdateResult> => {
+  try {
+    if (!isAuthenticated()) {
+      throw new Error('User not authenticated');
+    }
+
+    const response = await authFetch('/api/auth/profile', {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(update),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to update profile');
+    }
+
+    const data = await response.json();
+    return {
+      message: data.message,
+      email_verification_sent: Boolean(data.email_verification_sent),
+      sessions_revoked: data.sessions_revoked || 0,
+    };
+  } catch (error) {
+    console.error('Error updating profile:', error);
+    throw error;
+  }
+};
+
+// Upload a new avatar image; returns its URL
+export const uploadAvatar = async (file: File): Promise<string> => {
+  try {
+    if (!isAuthenticated()) {
+      throw new Error('User not authenticated');
+    }
+
+    const formData = new FormData();
+    formData.append('avatar', file);
+
+    const response = await authFetch('/api/auth/profile/avatar', {
+      method: 'POST',
+      body: formData,
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to upload avatar');
+    }
+
+    const data = await response.json();
+    return data.profile_image;
+  } catch (error) {
+    console.error('Error uploading avatar:', error);
+    throw error;
+  }
+};
+
+// Remove the current avatar
+export const removeAvatar = async (): Promise<void> => {
+  try {
+    if (!isAuthenticated()) {
+      throw new Error('User not authenticated');
+    }
+
+    const response = await authFetch('/api/auth/profile/avatar', {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to remove avatar');
+    }
+  } catch (error) {
+    console.error('Error removing avatar:', error);
+    throw error;
+  }
+};
+
+// Download everything stored about the signed-in user as a JSON file
+export const downloadMyData = async (): Promise<void> => {
+  try {
+    if (!isAuthenticated()) {
+      throw new Error('User not authenticated');
+    }
+
+    const response = await authFetch('/api/auth/account/export', {
+      method: 'GET',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to export your data');
+    }
+
+    // Use the server's file name when it sends one
+    const disposition = response.headers.get('Content-Disposition') || '';
+    const fileName = /filename="([^"]+)"/.exec(disposition)?.[1] || 'iykelib-data.json';
+
+    const blob = await response.blob();
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+  } catch (error) {
+    console.error('Error exporting user data:', error);
+    throw error;
+  }
+};
+
+// Permanently delete the signed-in user's account
+export const deleteMyAccount = async (password: string): Promise<void> => {
+  try {
+    if (!isAuthenticated()) {
+      throw new Error('User not authenticated');
+    }
+
+    const response = await authFetch('/api/auth/account', {
+      method: 'DELETE',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ password }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to delete account');
+    }
+  } catch (error) {
+    console.error('Error deleting account:', error);
+    throw error;
+  }
+};
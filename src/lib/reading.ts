@@ -0,0 +1,75 @@
+export interface ReadingProgress {
+  page: number | null;
+  total_pages: number | null;
+  last_accessed_at: string | null;
+  file_id?: number | null; // the book file the position is in; null for the primary file
+}
+
+export type ReaderFormat = 'pdf' | 'epub';
+
+import { authFetch, isAuthenticated } from './auth-helper';
+
+// The signed-in user's saved position in a book (page is null when they have not started it)
+export const fetchReadingProgress = async (bookId: string | number): Promise<ReadingProgress> => {
+  try {
+    if (!isAuthenticated()) {
+      throw new Error('User not authenticated');
+    }
+
+    const response = await authFetch(`/api/books/${bookId}/progress`, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to fetch reading progress');
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Error fetching reading progress:', error);
+    throw error;
+  }
+};
+
+// Save the page the signed-in user is on so "Continue reading" works on any device
+export const saveReadingProgress = async (
+  bookId: string | number,
+  page: number,
+  totalPages?: number,
+  fileId?: number | null
+): Promise<void> => {
+  try {
+    if (!isAuthenticated()) {
+      throw new Error('User not authenticated');
+    }
+
+    const response = await authFetch(`/api/books/${bookId}/progress`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ page, total_pages: totalPages, file: fileId ?? undefined }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to save reading progress');
+    }
+  } catch (error) {
+    console.error('Error saving reading progress:', error);
+    throw error;
+  }
+};
+
+// Work out whether a book's file can be opened in the in-browser reader
+export const getReaderFormat = (fileType?: string | null, filePath?: string | null): ReaderFormat | null => {
+  const type = String(fileType || '').toLowerCase();
+  const path = String(filePath || '').toLowerCase().split('?')[0];
+  if (type.includes('pdf') || path.endsWith('.pdf')) return 'pdf';
+  if (type.includes('epub') || path.endsWith('.epub')) return 'epub';
+  return null;
+};
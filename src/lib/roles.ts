@@ -0,0 +1,91 @@
+export interface Permission {
+  name: string;
+  description: string | null;
+}
+
+export interface Role {
+  id: number;
+  name: string;
+  user_count: number;
+  require_two_factor: boolean;
+  permissions: string[];
+}
+
+import { authFetch, isAuthenticated } from './auth-helper';
+
+// Fetch all roles with their permissions, plus the permission catalog
+export const fetchRoles = async (): Promise<{ roles: Role[]; permissions: Permission[] }> => {
+  try {
+    if (!isAuthenticated()) {
+      throw new Error('User not authenticated');
+    }
+
+    const response = await authFetch('/api/admin/roles', {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to fetch roles');
+    }
+
+    const data = await response.json();
+    return { roles: data.roles || [], permissions: data.permissions || [] };
+  } catch (error) {
+    console.error('Error fetching roles:', error);
+    throw error;
+  }
+};
+
+// Replace the permissions granted to a role
+export const updateRolePermissions = async (roleId: number, permissions: string[]): Promise<void> => {
+  try {
+    if (!isAuthenticated()) {
+      throw new Error('User not authenticated');
+    }
+
+    const response = await authFetch(`/api/admin/roles/${roleId}/permissions`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ permissions }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to update role permissions');
+    }
+  } catch (error) {
+    console.error('Error updating role permissions:', error);
+    throw error;
+  }
+};
+
+// Require (or stop requiring) two-factor authentication for a role
+export const setRoleTwoFactorRequired = async (roleId: number, required: boolean): Promise<void> => {
+  try {
+    if (!isAuthenticated()) {
+      throw new Error('User not authenticated');
+    }
+
+    const response = await authFetch(`/api/admin/roles/${roleId}/two-factor`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ required }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to update role');
+    }
+  } catch (error) {
+    console.error('Error updating role two-factor requirement:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,172 @@
+import type { ReadingProgress } from './reading';
+
+export interface Series {
+  id: number;
+  name: string;
+  description: string | null;
+  book_count: number; // books visitors can see
+}
+
+export interface SeriesVolume {
+  id: number;
+  title: string;
+  author: string;
+  description: string | null;
+  book_type: 'file' | 'link' | 'purchase';
+  cover_image_path: string | null;
+  thumbnail: string;
+  category_name: string | null;
+  published_year: number | null;
+  page_count: number | null;
+  series_position: number | null; // volume number; null for volumes without one, listed last
+  progress: ReadingProgress | null; // null for visitors who are not signed in
+}
+
+export interface SeriesDetail {
+  id: number;
+  name: string;
+  description: string | null;
+  volumes: SeriesVolume[]; // in reading order
+}
+
+export type VolumeStatus = 'unread' | 'reading' | 'finished';
+
+export const VOLUME_STATUS_LABELS: Record<VolumeStatus, string> = {
+  unread: 'Not started',
+  reading: 'Reading',
+  finished: 'Finished',
+};
+
+// Where the reader is with a volume, judged from their saved page
+export const volumeStatus = (progress: ReadingProgress | null): VolumeStatus => {
+  if (!progress || !progress.page) return 'unread';
+  if (progress.total_pages && progress.page >= progress.total_pages) return 'finished';
+  return 'reading';
+};
+
+// Share of a volume read, 0-100, or null when the page count is unknown
+export const volumePercent = (progress: ReadingProgress | null): number | null => {
+  if (!progress || !progress.page || !progress.total_pages) return null;
+  return Math.min(100, Math.round((progress.page / progress.total_pages) * 100));
+};
+
+// The volume after `bookId` in reading order, or null when it is the last one
+export const nextInSeries = (series: SeriesDetail, bookId: string | number): SeriesVolume | null => {
+  const index = series.volumes.findIndex(volume => String(volume.id) === String(bookId));
+  return index >= 0 && index < series.volumes.length - 1 ? series.volumes[index + 1] : null;
+};
+
+export const volumeLabel = (volume: { series_position: number | null }) =>
+  volume.series_position ? `Book ${volume.series_position}` : 'Extra';
+
+import { authFetch, isAuthenticated } from './auth-helper';
+
+// Every series, by name
+export const fetchSeriesList = async (): Promise<Series[]> => {
+  try {
+    const response = await authFetch('/api/series', {
+      method: 'GET',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to fetch series');
+    }
+
+    const data = await response.json();
+    return data.series;
+  } catch (error) {
+    console.error('Error fetching series:', error);
+    throw error;
+  }
+};
+
+// A series with its volumes in order and, when signed in, the user's progress in each
+export const fetchSeries = async (seriesId: string | number): Promise<SeriesDetail> => {
+  try {
+    const response = await authFetch(`/api/series/${seriesId}`, {
+      method: 'GET',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to fetch series');
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Error fetching series:', error);
+    throw error;
+  }
+};
+
+export const createSeries = async (name: string, description?: string | null): Promise<Series> => {
+  try {
+    if (!isAuthenticated()) {
+      throw new Error('User not authenticated');
+    }
+
+    const response = await authFetch('/api/admin/series', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ name, description }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to create series');
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Error creating series:', error);
+    throw error;
+  }
+};
+
+export const updateSeries = async (seriesId: number, name: string, description?: string | null): Promise<void> => {
+  try {
+    if (!isAuthenticated()) {
+      throw new Error('User not authenticated');
+    }
+
+    const response = await authFetch(`/api/admin/series/${seriesId}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ name, description }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to update series');
+    }
+  } catch (error) {
+    console.error('Error updating series:', error);
+    throw error;
+  }
+};
+
+// Delete a series; its books are kept without a series
+export const deleteSeries = async (seriesId: number): Promise<void> => {
+  try {
+    if (!isAuthenticated()) {
+      throw new Error('User not authenticated');
+    }
+
+    const response = await authFetch(`/api/admin/series/${seriesId}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to delete series');
+    }
+  } catch (error) {
+    console.error('Error deleting series:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,77 @@
+export interface StorageBackend {
+  backend: 'local' | 's3';
+  bucket?: string;
+  endpoint?: string | null; // S3-compatible services such as MinIO
+  directory?: string;
+}
+
+export interface StorageMigrationFailure {
+  book_id: number;
+  kind: 'file' | 'thumbnail';
+  error: string;
+}
+
+export interface StorageMigration {
+  status: 'idle' | 'running' | 'completed' | 'failed';
+  started_at: string | null;
+  finished_at: string | null;
+  moved_files: number;
+  moved_thumbnails: number;
+  failures: StorageMigrationFailure[];
+  error: string | null;
+}
+
+export interface StorageStatus {
+  storage: StorageBackend;
+  pending: { files: number; thumbnails: number }; // blobs still held in MySQL
+  migration: StorageMigration;
+}
+
+import { authFetch, isAuthenticated } from './auth-helper';
+
+// Storage backend, blobs left in the database and the last migration's progress
+export const fetchStorageStatus = async (): Promise<StorageStatus> => {
+  try {
+    if (!isAuthenticated()) {
+      throw new Error('User not authenticated');
+    }
+
+    const response = await authFetch('/api/admin/storage', {
+      method: 'GET',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to fetch storage status');
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Error fetching storage status:', error);
+    throw error;
+  }
+};
+
+// Start moving file and thumbnail blobs out of MySQL; runs in the background
+export const startStorageMigration = async (): Promise<StorageMigration> => {
+  try {
+    if (!isAuthenticated()) {
+      throw new Error('User not authenticated');
+    }
+
+    const response = await authFetch('/api/admin/storage/migrate', {
+      method: 'POST',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to start storage migration');
+    }
+
+    const data = await response.json();
+    return data.migration;
+  } catch (error) {
+    console.error('Error starting storage migration:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,147 @@
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabled_at: string | null;
+  required: boolean;
+  recovery_codes_remaining: number;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauth_url: string;
+  qr_code: string;
+}
+
+import { authFetch, isAuthenticated } from './auth-helper';
+
+// Fetch the current user's two-factor status
+export const fetchTwoFactorStatus = async (): Promise<TwoFactorStatus> => {
+  try {
+    if (!isAuthenticated()) {
+      throw new Error('User not authenticated');
+    }
+
+    const response = await authFetch('/api/auth/2fa', {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to fetch two-factor status');
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Error fetching two-factor status:', error);
+    throw error;
+  }
+};
+
+// Start enrollment; returns the secret and a QR code for the authenticator app
+export const startTwoFactorSetup = async (): Promise<TwoFactorSetup> => {
+  try {
+    if (!isAuthenticated()) {
+      throw new Error('User not authenticated');
+    }
+
+    const response = await authFetch('/api/auth/2fa/setup', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to start two-factor setup');
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Error starting two-factor setup:', error);
+    throw error;
+  }
+};
+
+// Confirm enrollment with a code from the app; returns the recovery codes
+export const enableTwoFactor = async (code: string): Promise<string[]> => {
+  try {
+    if (!isAuthenticated()) {
+      throw new Error('User not authenticated');
+    }
+
+    const response = await authFetch('/api/auth/2fa/enable', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ code }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to enable two-factor authentication');
+    }
+
+    const data = await response.json();
+    return data.recovery_codes || [];
+  } catch (error) {
+    console.error('Error enabling two-factor authentication:', error);
+    throw error;
+  }
+};
+
+// Turn two-factor authentication off
+export const disableTwoFactor = async (password: string): Promise<void> => {
+  try {
+    if (!isAuthenticated()) {
+      throw new Error('User not authenticated');
+    }
+
+    const response = await authFetch('/api/auth/2fa/disable', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ password }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to disable two-factor authentication');
+    }
+  } catch (error) {
+    console.error('Error disabling two-factor authentication:', error);
+    throw error;
+  }
+};
+
+// Replace the recovery codes; returns the new codes
+export const regenerateRecoveryCodes = async (password: string): Promise<string[]> => {
+  try {
+    if (!isAuthenticated()) {
+      throw new Error('User not authenticated');
+    }
+
+    const response = await authFetch('/api/auth/2fa/recovery-codes', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ password }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to generate recovery codes');
+    }
+
+    const data = await response.json();
+    return data.recovery_codes || [];
+  } catch (error) {
+    console.error('Error regenerating recovery codes:', error);
+    throw error;
+  }
+};
@@ -7,6 +7,8 @@ export interface User {
   role: 'user' | 'moderator' | 'admin';
   created_at: string;
   updated_at: string;
+  failed_login_count?: number;
+  locked_until?: string | null;
 }
 
 export interface CreateUserData {
@@ -26,23 +28,19 @@ export interface UpdateUserData {
   role?: 'user' | 'moderator' | 'admin';
 }
 
-import { getUserEmail } from './auth-helper';
+import { authFetch, isAuthenticated } from './auth-helper';
 
 // Fetch all users
 export const fetchUsers = async (): Promise<User[]> => {
   try {
-    // Get user email from auth helper
-    const userEmail = getUserEmail();
-    
-    if (!userEmail) {
+    if (!isAuthenticated()) {
       throw new Error('User not authenticated');
     }
 
-    const response = await fetch('/api/admin/users', {
+    const response = await authFetch('/api/admin/users', {
       method: 'GET',
       headers: {
         'Content-Type': 'application/json',
-        'x-user-email': userEmail,
       },
       credentials: 'include',
     });
@@ -62,18 +60,14 @@ export const fetchUsers = async (): Promise<User[]> => {
 // Create a new user
 export const createUser = async (userData: CreateUserData): Promise<User> => {
   try {
-    // Get user email from auth helper
-    const userEmail = getUserEmail();
-    
-    if (!userEmail) {
+    if (!isAuthenticated()) {
       throw new Error('User not authenticated');
     }
 
-    const response = await fetch('/api/admin/users', {
+    const response = await authFetch('/api/admin/users', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'x-user-email': userEmail,
       },
       credentials: 'include',
       body: JSON.stringify(userData),
@@ -95,18 +89,14 @@ export const createUser = async (userData: CreateUserData): Promise<User> => {
 // Update an existing user
 export const updateUser = async (userId: string, userData: UpdateUserData): Promise<User> => {
   try {
-    // Get user email from auth helper
-    const userEmail = getUserEmail();
-    
-    if (!userEmail) {
+    if (!isAuthenticated()) {
       throw new Error('User not authenticated');
     }
 
-    const response = await fetch(`/api/admin/users/${userId}`, {
+    const response = await authFetch(`/api/admin/users/${userId}`, {
       method: 'PUT',
       headers: {
         'Content-Type': 'application/json',
-        'x-user-email': userEmail,
       },
       credentials: 'include',
       body: JSON.stringify(userData),
@@ -128,18 +118,14 @@ export const updateUser = async (userId: string, userData: UpdateUserData): Prom
 // Delete a user
 export const deleteUser = async (userId: string): Promise<void> => {
   try {
-    // Get user email from auth helper
-    const userEmail = getUserEmail();
-    
-    if (!userEmail) {
+    if (!isAuthenticated()) {
       throw new Error('User not authenticated');
     }
 
-    const response = await fetch(`/api/admin/users/${userId}`, {
+    const response = await authFetch(`/api/admin/users/${userId}`, {
       method: 'DELETE',
       headers: {
         'Content-Type': 'application/json',
-        'x-user-email': userEmail,
       },
       credentials: 'include',
     });
@@ -157,18 +143,14 @@ export const deleteUser = async (userId: string): Promise<void> => {
 // Update user status (activate/deactivate)
 export const updateUserStatus = async (userId: string, isActive: boolean): Promise<void> => {
   try {
-    // Get user email from auth helper
-    const userEmail = getUserEmail();
-    
-    if (!userEmail) {
+    if (!isAuthenticated()) {
       throw new Error('User not authenticated');
     }
 
-    const response = await fetch(`/api/admin/users/${userId}/status`, {
+    const response = await authFetch(`/api/admin/users/${userId}/status`, {
       method: 'PATCH',
       headers: {
         'Content-Type': 'application/json',
-        'x-user-email': userEmail,
       },
       credentials: 'include',
       body: JSON.stringify({ is_active: isActive }),
@@ -187,18 +169,14 @@ export const updateUserStatus = async (userId: string, isActive: boolean): Promi
 // Update user role
 export const updateUserRole = async (userId: string, role: 'user' | 'moderator' | 'admin'): Promise<void> => {
   try {
-    // Get user email from auth helper
-    const userEmail = getUserEmail();
-    
-    if (!userEmail) {
+    if (!isAuthenticated()) {
       throw new Error('User not authenticated');
     }
 
-    const response = await fetch(`/api/admin/users/${userId}/role`, {
+    const response = await authFetch(`/api/admin/users/${userId}/role`, {
       method: 'PATCH',
       headers: {
         'Content-Type': 'application/json',
-        'x-user-email': userEmail,
       },
       credentials: 'include',
       body: JSON.stringify({ role }),
@@ -214,6 +192,31 @@ export const updateUserRole = async (userId: string, role: 'user' | 'moderator'
   }
 };
 
+// Unlock an account locked by failed sign-in attempts
+export const unlockUser = async (userId: string): Promise<void> => {
+  try {
+    if (!isAuthenticated()) {
+      throw new Error('User not authenticated');
+    }
+
+    const response = await authFetch(`/api/admin/users/${userId}/unlock`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to unlock user');
+    }
+  } catch (error) {
+    console.error('Error unlocking user:', error);
+    throw error;
+  }
+};
+
 // Get user statistics
 export const getUserStats = async (): Promise<{
   total_users: number;
@@ -222,18 +225,14 @@ export const getUserStats = async (): Promise<{
   users_by_role: Record<string, number>;
 }> => {
   try {
-    // Get user email from auth helper
-    const userEmail = getUserEmail();
-    
-    if (!userEmail) {
+    if (!isAuthenticated()) {
       throw new Error('User not authenticated');
     }
 
-    const response = await fetch('/api/admin/users/stats', {
+    const response = await authFetch('/api/admin/users/stats', {
       method: 'GET',
       headers: {
         'Content-Type': 'application/json',
-        'x-user-email': userEmail,
       },
       credentials: 'include',
     });
@@ -256,10 +255,7 @@ export const searchUsers = async (query: string, filters?: {
   status?: string;
 }): Promise<User[]> => {
   try {
-    // Get user email from auth helper
-    const userEmail = getUserEmail();
-    
-    if (!userEmail) {
+    if (!isAuthenticated()) {
       throw new Error('User not authenticated');
     }
 
@@ -267,11 +263,10 @@ export const searchUsers = async (query: string, filters?: {
     if (filters?.role) params.append('role', filters.role);
     if (filters?.status) params.append('status', filters.status);
 
-    const response = await fetch(`/api/admin/users/search?${params}`, {
+    const response = await authFetch(`/api/admin/users/search?${params}`, {
       method: 'GET',
       headers: {
         'Content-Type': 'application/json',
-        'x-user-email': userEmail,
       },
       credentials: 'include',
     });
@@ -1,11 +1,15 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Separator } from "@/components/ui/separator";
 import { useNavigate, useLocation } from "react-router-dom";
 import { useToast } from "@/hooks/use-toast";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { authFetch, clearAuth, type SessionTokens } from "@/lib/auth-helper";
+import { fetchSignInProviders, startProviderSignIn, type SignInProvider } from "@/lib/oidc";
 
 interface User {
   id: string;
@@ -16,7 +20,7 @@ interface User {
   };
 }
 
-interface Session {
+interface Session extends Partial<SessionTokens> {
   user: User;
 }
 
@@ -33,9 +37,66 @@ const Auth = () => {
   const location = useLocation();
   const params = new URLSearchParams(location.search);
   const defaultTab = params.get("tab") === "signup" ? "signup" : "signin";
+  const mode = params.get("mode");
+  const linkToken = params.get("token");
+  // Set when a sign-in provider redirects back here
+  const providerCode = mode === "oidc" ? params.get("code") : null;
+  const providerError = mode === "oidc" ? params.get("error") : null;
   const { toast } = useToast();
 
+  // Secondary views: forgot password, reset password (from email link), verify email (from email link),
+  // finishing a provider sign in, and the authenticator code step for accounts with two-factor authentication
+  const [view, setView] = useState<"tabs" | "forgot" | "reset" | "verify" | "provider" | "two-factor">(
+    mode === "reset" && linkToken ? "reset" : mode === "verify" && linkToken ? "verify" : providerCode ? "provider" : "tabs"
+  );
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmNewPassword, setConfirmNewPassword] = useState("");
+  const [verifyStatus, setVerifyStatus] = useState<"pending" | "success" | "error">("pending");
+  const [verifyMessage, setVerifyMessage] = useState("");
+  // Set when the server says the address must be verified before signing in
+  const [unverifiedEmail, setUnverifiedEmail] = useState<string | null>(null);
+  // Second sign-in step for accounts with two-factor authentication
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  // "Continue with ..." providers configured on the server
+  const [providers, setProviders] = useState<SignInProvider[]>([]);
+
+  useEffect(() => {
+    fetchSignInProviders()
+      .then(setProviders)
+      .catch(() => setProviders([]));
+  }, []);
+
+  // Consume the verification token from the email link
   useEffect(() => {
+    if (view !== "verify" || !linkToken) return;
+    let cancelled = false;
+    const verify = async () => {
+      try {
+        const response = await fetch('/api/auth/verify-email', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ token: linkToken }),
+        });
+        const data = await response.json();
+        if (cancelled) return;
+        setVerifyStatus(response.ok ? "success" : "error");
+        setVerifyMessage(response.ok ? data.message : data.error || 'Verification failed');
+      } catch (error) {
+        if (cancelled) return;
+        setVerifyStatus("error");
+        setVerifyMessage('Could not reach the server. Please try again.');
+      }
+    };
+    verify();
+    return () => { cancelled = true; };
+  }, [view, linkToken]);
+
+  useEffect(() => {
+    // Email and provider links must be handled even when already signed in
+    if (mode === "reset" || mode === "verify" || mode === "oidc") return;
+
     // Check localStorage for existing session
     const storedUser = localStorage.getItem('user');
     const storedSession = localStorage.getItem('session');
@@ -48,11 +109,7 @@ const Auth = () => {
         // Verify session is still valid by checking with the server
         const checkSession = async () => {
           try {
-            const response = await fetch('/api/auth/profile', {
-              headers: {
-                'x-user-email': userData.email,
-              },
-            });
+            const response = await authFetch('/api/auth/profile');
             
             if (response.ok) {
               // Session is valid, set user data
@@ -61,18 +118,12 @@ const Auth = () => {
               navigate("/");
             } else {
               // Session is invalid, clear localStorage
-              localStorage.removeItem('user');
-              localStorage.removeItem('session');
-              localStorage.removeItem('userEmail');
-              localStorage.removeItem('userRole');
+              clearAuth();
             }
           } catch (error) {
             console.error('Error checking session:', error);
             // On error, clear localStorage to be safe
-            localStorage.removeItem('user');
-            localStorage.removeItem('session');
-            localStorage.removeItem('userEmail');
-            localStorage.removeItem('userRole');
+            clearAuth();
           }
         };
         
@@ -80,13 +131,10 @@ const Auth = () => {
       } catch (error) {
         console.error('Error parsing stored session:', error);
         // Clear invalid localStorage data
-        localStorage.removeItem('user');
-        localStorage.removeItem('session');
-        localStorage.removeItem('userEmail');
-        localStorage.removeItem('userRole');
+        clearAuth();
       }
     }
-  }, [navigate]);
+  }, [navigate, mode]);
 
   const handleSignIn = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -104,47 +152,130 @@ const Auth = () => {
       const data = await response.json();
 
       if (!response.ok) {
+        if (data.code === 'EMAIL_NOT_VERIFIED') {
+          setUnverifiedEmail(email);
+        }
         throw new Error(data.error || 'Sign in failed');
       }
 
-      // Create user object compatible with existing interface
-      const userData: User = {
-        id: data.user.id.toString(),
-        email: data.user.email,
-        user_metadata: {
-          display_name: data.user.first_name || data.user.last_name || data.user.username || email.split('@')[0]
-        }
-      };
+      // Password was right; the session comes after the authenticator code
+      if (data.two_factor_required) {
+        setChallengeToken(data.challenge_token);
+        setTwoFactorCode("");
+        setUseRecoveryCode(false);
+        setView("two-factor");
+        return;
+      }
 
-      const sessionData: Session = {
-        user: userData
-      };
+      completeSignIn(data);
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      toast({
+        title: "Error",
+        description: message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
 
-      // Store in localStorage
-      localStorage.setItem('user', JSON.stringify(userData));
-      localStorage.setItem('session', JSON.stringify(sessionData));
-      localStorage.setItem('userEmail', data.user.email);
-      
-      // Store additional user data for admin functionality
-      localStorage.setItem('userRole', data.user.role);
-      if (data.user.role === 'admin') {
-        localStorage.setItem(`admin_role_${data.user.email}`, 'admin');
+  // Store the session returned by a successful sign in and leave the auth page
+  const completeSignIn = useCallback((data: {
+    user: { id: number; email: string; username?: string; first_name?: string | null; last_name?: string | null; two_factor_setup_required?: boolean };
+    session: SessionTokens;
+  }) => {
+    // Create user object compatible with existing interface
+    const userData: User = {
+      id: data.user.id.toString(),
+      email: data.user.email,
+      user_metadata: {
+        display_name: data.user.first_name || data.user.last_name || data.user.username || email.split('@')[0]
       }
+    };
 
-      setUser(userData);
-      setSession(sessionData);
+    const sessionData: Session = {
+      user: userData,
+      ...data.session
+    };
 
-      // Dispatch custom event to notify useAuth hook
-      window.dispatchEvent(new CustomEvent('signin', {
-        detail: { user: userData, session: sessionData }
-      }));
+    // Store in localStorage
+    localStorage.setItem('user', JSON.stringify(userData));
+    localStorage.setItem('session', JSON.stringify(sessionData));
+    localStorage.setItem('userEmail', data.user.email);
 
+    setUser(userData);
+    setSession(sessionData);
+
+    // Dispatch custom event to notify useAuth hook
+    window.dispatchEvent(new CustomEvent('signin', {
+      detail: { user: userData, session: sessionData }
+    }));
+
+    if (data.user.two_factor_setup_required) {
       toast({
-        title: "Success",
-        description: "Signed in successfully!",
+        title: "Two-factor authentication required",
+        description: "Your role requires two-factor authentication. Set it up to continue.",
       });
+      navigate("/profile");
+      return;
+    }
 
-      navigate("/");
+    toast({
+      title: "Success",
+      description: "Signed in successfully!",
+    });
+
+    navigate("/");
+  }, [email, navigate, toast]);
+
+  const handleProviderSignIn = async (provider: SignInProvider) => {
+    setLoading(true);
+
+    try {
+      window.location.assign(await startProviderSignIn(provider.id));
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      toast({
+        title: "Error",
+        description: message,
+        variant: "destructive",
+      });
+      setLoading(false);
+    }
+  };
+
+  const handleTwoFactor = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    try {
+      const response = await fetch('/api/auth/signin/2fa', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(useRecoveryCode
+          ? { challenge_token: challengeToken, recovery_code: twoFactorCode }
+          : { challenge_token: challengeToken, code: twoFactorCode }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        // Expired or exhausted challenge: start over from the password step
+        if (data.code === 'TWO_FACTOR_CHALLENGE_EXPIRED') {
+          setChallengeToken(null);
+          setView("tabs");
+        }
+        setTwoFactorCode("");
+        throw new Error(data.error || 'Verification failed');
+      }
+
+      setChallengeToken(null);
+      setTwoFactorCode("");
+      setView("tabs");
+      completeSignIn(data);
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : String(err);
       toast({
@@ -192,6 +323,18 @@ const Auth = () => {
         throw new Error(data.error || 'Sign up failed');
       }
 
+      // Accounts that must verify their email first get no session yet
+      if (!data.session) {
+        setUnverifiedEmail(data.user.email);
+        toast({
+          title: "Check your email",
+          description: data.message,
+        });
+        setPassword("");
+        setConfirmPassword("");
+        return;
+      }
+
       // Create user object compatible with existing interface
       const userData: User = {
         id: data.user.id.toString(),
@@ -202,18 +345,23 @@ const Auth = () => {
       };
 
       const sessionData: Session = {
-        user: userData
+        user: userData,
+        ...data.session
       };
 
       // Store in localStorage
       localStorage.setItem('user', JSON.stringify(userData));
       localStorage.setItem('session', JSON.stringify(sessionData));
       localStorage.setItem('userEmail', data.user.email);
-      localStorage.setItem('userRole', data.user.role);
 
       setUser(userData);
       setSession(sessionData);
 
+      // Dispatch custom event to notify useAuth hook
+      window.dispatchEvent(new CustomEvent('signin', {
+        detail: { user: userData, session: sessionData }
+      }));
+
       toast({
         title: "Success",
         description: "Account created successfully!",
@@ -240,6 +388,175 @@ const Auth = () => {
     }
   };
 
+  const handleForgotPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    try {
+      const response = await fetch('/api/auth/forgot-password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Could not request a reset link');
+      }
+
+      toast({
+        title: "Check your email",
+        description: data.message,
+      });
+      setView("tabs");
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      toast({
+        title: "Error",
+        description: message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleResetPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (newPassword !== confirmNewPassword) {
+      toast({
+        title: "Error",
+        description: "Passwords do not match",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const response = await fetch('/api/auth/reset-password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token: linkToken, password: newPassword }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Password reset failed');
+      }
+
+      // Every session was revoked server-side, including this browser's
+      clearAuth();
+      toast({
+        title: "Success",
+        description: data.message,
+      });
+      setNewPassword("");
+      setConfirmNewPassword("");
+      setView("tabs");
+      navigate("/auth", { replace: true });
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      toast({
+        title: "Error",
+        description: message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleResendVerification = async () => {
+    if (!unverifiedEmail) return;
+    setLoading(true);
+
+    try {
+      const response = await fetch('/api/auth/resend-verification', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: unverifiedEmail }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Could not resend the verification email');
+      }
+
+      toast({
+        title: "Check your email",
+        description: data.message,
+      });
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      toast({
+        title: "Error",
+        description: message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const backToSignIn = useCallback(() => {
+    setView("tabs");
+    navigate("/auth", { replace: true });
+  }, [navigate]);
+
+  // Swap the one-time code from a provider redirect for a session
+  useEffect(() => {
+    if (providerError) {
+      toast({
+        title: "Error",
+        description: providerError,
+        variant: "destructive",
+      });
+      navigate("/auth", { replace: true });
+      return;
+    }
+    if (view !== "provider" || !providerCode) return;
+    let cancelled = false;
+    const complete = async () => {
+      try {
+        const response = await fetch('/api/auth/oidc/complete', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ code: providerCode }),
+        });
+        const data = await response.json();
+        if (cancelled) return;
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Sign in failed');
+        }
+
+        if (data.two_factor_required) {
+          setChallengeToken(data.challenge_token);
+          setTwoFactorCode("");
+          setUseRecoveryCode(false);
+          setView("two-factor");
+          return;
+        }
+
+        setView("tabs");
+        completeSignIn(data);
+      } catch (err: unknown) {
+        if (cancelled) return;
+        toast({
+          title: "Error",
+          description: err instanceof Error ? err.message : String(err),
+          variant: "destructive",
+        });
+        backToSignIn();
+      }
+    };
+    complete();
+    return () => { cancelled = true; };
+  }, [view, providerCode, providerError, completeSignIn, backToSignIn, navigate, toast]);
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-background p-4">
       <Card className="w-full max-w-md">
@@ -250,6 +567,151 @@ const Auth = () => {
           </CardDescription>
         </CardHeader>
         <CardContent>
+          {view === "forgot" && (
+            <form onSubmit={handleForgotPassword} className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Enter the email address you signed up with and we'll send you a link to choose a new password.
+              </p>
+              <div className="space-y-2">
+                <Label htmlFor="forgot-email">Email</Label>
+                <Input
+                  id="forgot-email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  disabled={loading}
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={loading}>
+                {loading ? "Sending..." : "Send Reset Link"}
+              </Button>
+              <Button type="button" variant="link" className="w-full" onClick={backToSignIn} disabled={loading}>
+                Back to sign in
+              </Button>
+            </form>
+          )}
+
+          {view === "reset" && (
+            <form onSubmit={handleResetPassword} className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Choose a new password. You will be signed out of every device.
+              </p>
+              <div className="space-y-2">
+                <Label htmlFor="reset-password">New Password</Label>
+                <Input
+                  id="reset-password"
+                  type="password"
+                  value={newPassword}
+                  onChange={(e) => setNewPassword(e.target.value)}
+                  minLength={8}
+                  required
+                  disabled={loading}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="reset-confirm-password">Confirm New Password</Label>
+                <Input
+                  id="reset-confirm-password"
+                  type="password"
+                  value={confirmNewPassword}
+                  onChange={(e) => setConfirmNewPassword(e.target.value)}
+                  minLength={8}
+                  required
+                  disabled={loading}
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={loading}>
+                {loading ? "Saving..." : "Set New Password"}
+              </Button>
+              <Button type="button" variant="link" className="w-full" onClick={backToSignIn} disabled={loading}>
+                Back to sign in
+              </Button>
+            </form>
+          )}
+
+          {view === "two-factor" && (
+            <form onSubmit={handleTwoFactor} className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                {useRecoveryCode
+                  ? "Enter one of the recovery codes you saved when you set up two-factor authentication."
+                  : "Enter the 6-digit code from your authenticator app."}
+              </p>
+              {useRecoveryCode ? (
+                <div className="space-y-2">
+                  <Label htmlFor="recovery-code">Recovery Code</Label>
+                  <Input
+                    id="recovery-code"
+                    value={twoFactorCode}
+                    onChange={(e) => setTwoFactorCode(e.target.value)}
+                    autoComplete="off"
+                    required
+                    disabled={loading}
+                  />
+                </div>
+              ) : (
+                <div className="flex justify-center">
+                  <InputOTP maxLength={6} value={twoFactorCode} onChange={setTwoFactorCode} disabled={loading} autoFocus>
+                    <InputOTPGroup>
+                      {[0, 1, 2, 3, 4, 5].map(index => (
+                        <InputOTPSlot key={index} index={index} />
+                      ))}
+                    </InputOTPGroup>
+                  </InputOTP>
+                </div>
+              )}
+              <Button type="submit" className="w-full" disabled={loading || (!useRecoveryCode && twoFactorCode.length !== 6)}>
+                {loading ? "Verifying..." : "Verify"}
+              </Button>
+              <Button
+                type="button"
+                variant="link"
+                className="w-full"
+                onClick={() => {
+                  setUseRecoveryCode(!useRecoveryCode);
+                  setTwoFactorCode("");
+                }}
+                disabled={loading}
+              >
+                {useRecoveryCode ? "Use your authenticator app instead" : "Use a recovery code instead"}
+              </Button>
+              <Button type="button" variant="link" className="w-full" onClick={backToSignIn} disabled={loading}>
+                Back to sign in
+              </Button>
+            </form>
+          )}
+
+          {view === "provider" && (
+            <p className="text-sm text-muted-foreground text-center">
+              Signing you in...
+            </p>
+          )}
+
+          {view === "verify" && (
+            <div className="space-y-4 text-center">
+              <p className="text-sm text-muted-foreground">
+                {verifyStatus === "pending" ? "Verifying your email address..." : verifyMessage}
+              </p>
+              {verifyStatus !== "pending" && (
+                <Button className="w-full" onClick={backToSignIn}>
+                  Continue to sign in
+                </Button>
+              )}
+            </div>
+          )}
+
+          {view === "tabs" && unverifiedEmail && (
+            <div className="mb-4 rounded-md border p-3 text-sm space-y-2">
+              <p>
+                We sent a verification link to <span className="font-medium">{unverifiedEmail}</span>. Open it to activate your account.
+              </p>
+              <Button type="button" variant="outline" size="sm" onClick={handleResendVerification} disabled={loading}>
+                Resend verification email
+              </Button>
+            </div>
+          )}
+
+          {view === "tabs" && (
           <Tabs defaultValue={defaultTab} className="w-full">
             <TabsList className="grid w-full grid-cols-2">
               <TabsTrigger value="signin">Sign In</TabsTrigger>
@@ -283,6 +745,9 @@ const Auth = () => {
                 <Button type="submit" className="w-full" disabled={loading}>
                   {loading ? "Signing In..." : "Sign In"}
                 </Button>
+                <Button type="button" variant="link" className="w-full" onClick={() => setView("forgot")} disabled={loading}>
+                  Forgot your password?
+                </Button>
               </form>
             </TabsContent>
             
@@ -350,6 +815,29 @@ const Auth = () => {
               </form>
             </TabsContent>
           </Tabs>
+          )}
+
+          {view === "tabs" && providers.length > 0 && (
+            <div className="mt-6 space-y-3">
+              <div className="flex items-center gap-3 text-xs uppercase text-muted-foreground">
+                <Separator className="flex-1" />
+                or
+                <Separator className="flex-1" />
+              </div>
+              {providers.map(provider => (
+                <Button
+                  key={provider.id}
+                  type="button"
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => handleProviderSignIn(provider)}
+                  disabled={loading}
+                >
+                  Continue with {provider.name}
+                </Button>
+              ))}
+            </div>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -1,11 +1,30 @@
 import { useState, useEffect } from "react";
-import { useParams, useNavigate } from "react-router-dom";
+import { useParams, useNavigate, useSearchParams } from "react-router-dom";
 import Header from "@/components/Header";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import Thumbnail from "@/components/ui/thumbnail";
 import { ThumbsRating } from "@/components/ui/ThumbsRating";
-import { Heart, ShoppingCart } from "lucide-react";
+import BookReader from "@/components/BookReader";
+import BookPrice from "@/components/BookPrice";
+import ContributorLinks from "@/components/ContributorLinks";
+import { ArrowRight, BookOpen, Heart, Library, Lock, ShoppingCart } from "lucide-react";
+import { authFetch, isAuthenticated } from "@/lib/auth-helper";
+import { fetchReadingProgress, getReaderFormat, type ReadingProgress } from "@/lib/reading";
+import { fetchBookFiles, downloadBookFile, describeBookFile, type BookFile } from "@/lib/api";
+import { openPurchaseLink } from "@/lib/pricing";
+import { fetchSeries, nextInSeries, volumeLabel, volumeStatus, VOLUME_STATUS_LABELS, type SeriesDetail } from "@/lib/series";
+import type { Credit } from "@/lib/contributors";
+import {
+  accessBadgeLabel,
+  LICENSE_LABELS,
+  LICENSE_URLS,
+  type AccessDeniedCode,
+  type AccessLevel,
+  type ContentLicense,
+} from "@/lib/content-access";
+import { useToast } from "@/hooks/use-toast";
 
 type BackendBook = {
   id: number | string;
@@ -15,6 +34,7 @@ type BackendBook = {
   thumbnail?: string | null;
   cover_image_path?: string | null;
   file_path?: string | null;
+  file_type?: string | null;
   external_link?: string | null;
   purchase_link?: string | null;
   book_type?: 'file' | 'link' | 'purchase';
@@ -28,30 +48,115 @@ type BackendBook = {
   page_count?: number | null;
   price?: number | null;
   currency?: string | null;
+  series_id?: number | null;
+  series_position?: number | null;
+  series_name?: string | null;
+  contributors?: Credit[];
+  license?: ContentLicense | null;
+  access_level?: AccessLevel;
+  access_role?: string | null;
 };
 
 const BookPage = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [book, setBook] = useState<BackendBook | null>(null);
   const [recommendations, setRecommendations] = useState<BackendBook[]>([]);
   const [isDescriptionExpanded, setIsDescriptionExpanded] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Set when the book exists but is members-only or restricted to a role
+  const [accessDenied, setAccessDenied] = useState<AccessDeniedCode | null>(null);
   
   // Favorites state
   const [favorites, setFavorites] = useState<Set<string>>(new Set());
   const [isFavorite, setIsFavorite] = useState(false);
 
+  // In-browser reader state
+  const [isReaderOpen, setIsReaderOpen] = useState(false);
+  const [readingProgress, setReadingProgress] = useState<ReadingProgress | null>(null);
+  const [readerStartPage, setReaderStartPage] = useState<number | null>(null);
+
+  // Formats and editions on offer, and the one picked for download and the reader
+  const [files, setFiles] = useState<BookFile[]>([]);
+  const [selectedFileId, setSelectedFileId] = useState<number | null>(null);
+
+  // The series this book is a volume of, for "next in series"
+  const [series, setSeries] = useState<SeriesDetail | null>(null);
+  const { toast } = useToast();
+
   useEffect(() => {
     if (id) {
       fetchBook(id);
       fetchRecommendations(id);
+      loadReadingProgress(id);
+      loadFiles(id);
       // Load favorites from localStorage
       loadFavorites();
     }
   }, [id]);
 
+  useEffect(() => {
+    if (!book?.series_id) {
+      setSeries(null);
+      return;
+    }
+    fetchSeries(book.series_id)
+      .then(setSeries)
+      .catch(err => {
+        console.error('Failed to fetch series:', err);
+        setSeries(null);
+      });
+  }, [book?.series_id]);
+
+  // Saved reading position, so the reader can pick up where the user left off on any device
+  const loadReadingProgress = async (bookId: string) => {
+    if (!isAuthenticated()) {
+      setReadingProgress(null);
+      return;
+    }
+    try {
+      setReadingProgress(await fetchReadingProgress(bookId));
+    } catch (err) {
+      console.error('Failed to fetch reading progress:', err);
+      setReadingProgress(null);
+    }
+  };
+
+  const loadFiles = async (bookId: string) => {
+    try {
+      const bookFiles = await fetchBookFiles(bookId);
+      setFiles(bookFiles);
+      setSelectedFileId(bookFiles.find(file => file.is_primary)?.id ?? bookFiles[0]?.id ?? null);
+    } catch (err) {
+      console.error('Failed to fetch book files:', err);
+      setFiles([]);
+      setSelectedFileId(null);
+    }
+  };
+
+  // Search results link to /books/:id?page=N to open the reader at the match
+  useEffect(() => {
+    const requestedPage = Number(searchParams.get('page'));
+    if (Number.isInteger(requestedPage) && requestedPage > 0) {
+      setReaderStartPage(requestedPage);
+      setIsReaderOpen(true);
+    }
+  }, [searchParams]);
+
+  const handleOpenReader = () => {
+    setReaderStartPage(null);
+    setIsReaderOpen(true);
+  };
+
+  const handleCloseReader = () => {
+    setIsReaderOpen(false);
+    setReaderStartPage(null);
+    if (searchParams.has('page')) setSearchParams({}, { replace: true });
+    if (id) loadReadingProgress(id);
+  };
+
   // Load favorites from localStorage
   const loadFavorites = () => {
     try {
@@ -134,10 +239,15 @@ const BookPage = () => {
   const fetchBook = async (bookId: string) => {
     setIsLoading(true);
     setError(null);
+    setAccessDenied(null);
     try {
-      const response = await fetch(`/api/books/${bookId}`);
+      const response = await authFetch(`/api/books/${bookId}`);
       if (!response.ok) {
-        throw new Error('Failed to fetch book');
+        const errorData = await response.json().catch(() => ({}));
+        if (errorData.code === 'SIGN_IN_REQUIRED' || errorData.code === 'ACCESS_RESTRICTED') {
+          setAccessDenied(errorData.code);
+        }
+        throw new Error(errorData.error || 'Failed to fetch book');
       }
       const data = await response.json();
       setBook(data);
@@ -155,23 +265,39 @@ const BookPage = () => {
       const response = await fetch(`/api/books?exclude=${bookId}&limit=4`);
       if (response.ok) {
         const data = await response.json();
-        setRecommendations(data);
+        setRecommendations(data.books);
       }
     } catch (err) {
       console.error('Failed to fetch recommendations:', err);
     }
   };
 
-  const handleActionClick = (book: BackendBook) => {
-    if (book.book_type === 'file' && book.file_path) {
+  const handleActionClick = async (book: BackendBook) => {
+    if (book.book_type === 'file' && (book.file_path || files.length > 0)) {
       // Handle file download
-      window.open(book.file_path, '_blank');
+      try {
+        await downloadBookFile(book.id, selectedFileId);
+      } catch (err) {
+        toast({
+          title: "Error",
+          description: err instanceof Error ? err.message : "Failed to download book",
+          variant: "destructive"
+        });
+      }
     } else if (book.book_type === 'link' && book.external_link) {
       // Handle external link
       window.open(book.external_link, '_blank');
     } else if (book.book_type === 'purchase' && book.purchase_link) {
-      // Handle purchase link
-      window.open(book.purchase_link, '_blank');
+      // Handle purchase link; the click is counted on the way to the shop
+      try {
+        await openPurchaseLink(book.id);
+      } catch (err) {
+        toast({
+          title: "Error",
+          description: err instanceof Error ? err.message : "Failed to open purchase link",
+          variant: "destructive"
+        });
+      }
     } else {
       // Fallback for unknown types
       console.log('No action available for this book type');
@@ -179,7 +305,7 @@ const BookPage = () => {
   };
 
   const getActionButton = (book: BackendBook) => {
-    if (book.book_type === 'file' && book.file_path) {
+    if (book.book_type === 'file' && (book.file_path || files.length > 0)) {
       return (
         <Button onClick={() => handleActionClick(book)} className="w-full">
           📥 Download Book
@@ -244,23 +370,52 @@ const BookPage = () => {
         <main className="container mx-auto max-w-6xl px-4 py-8">
           <div className="text-center py-12">
             <div className="w-16 h-16 mx-auto mb-4 bg-red-100 rounded-full flex items-center justify-center">
-              <svg className="w-8 h-8 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L3.34 16.5c-.77.833.192 2.5 1.732 2.5z" />
-              </svg>
+              {accessDenied ? (
+                <Lock className="w-8 h-8 text-red-600" />
+              ) : (
+                <svg className="w-8 h-8 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L3.34 16.5c-.77.833.192 2.5 1.732 2.5z" />
+                </svg>
+              )}
             </div>
-            <h2 className="text-2xl font-bold mb-2">Book Not Found</h2>
+            <h2 className="text-2xl font-bold mb-2">
+              {accessDenied === 'SIGN_IN_REQUIRED' ? 'Members Only' : accessDenied ? 'Restricted Book' : 'Book Not Found'}
+            </h2>
             <p className="text-muted-foreground mb-6">
               {error || "The book you're looking for doesn't exist or has been removed."}
             </p>
-            <Button onClick={() => navigate('/books')}>
-              Back to Books
-            </Button>
+            <div className="flex justify-center gap-3">
+              {accessDenied === 'SIGN_IN_REQUIRED' && (
+                <Button onClick={() => navigate('/auth')}>
+                  Sign In
+                </Button>
+              )}
+              <Button variant={accessDenied === 'SIGN_IN_REQUIRED' ? 'outline' : 'default'} onClick={() => navigate('/books')}>
+                Back to Books
+              </Button>
+            </div>
           </div>
         </main>
       </div>
     );
   }
 
+  // The reader opens the format picked for download, when the book has several
+  const selectedFile = files.find(file => file.id === selectedFileId) ?? null;
+  const readerFormat = book.book_type !== 'file'
+    ? null
+    : selectedFile
+      ? getReaderFormat(selectedFile.file_type, selectedFile.file_name || `.${selectedFile.format}`)
+      : getReaderFormat(book.file_type, book.file_path);
+  // Saved positions only resume in the file they were read in; older ones (no file) were in the primary file
+  const resumeProgress = readingProgress && readingProgress.page && (
+    readingProgress.file_id
+      ? readingProgress.file_id === selectedFile?.id
+      : !selectedFile || selectedFile.is_primary
+  ) ? readingProgress : null;
+  const nextVolume = series ? nextInSeries(series, book.id) : null;
+  const accessLabel = accessBadgeLabel(book.access_level, book.access_role);
+
   return (
     <div className="min-h-screen bg-background">
       <Header />
@@ -298,6 +453,23 @@ const BookPage = () => {
 
               {/* Quick Actions */}
               <div className="space-y-3">
+                {book.book_type === 'file' && files.length > 1 && (
+                  <Select
+                    value={selectedFileId ? String(selectedFileId) : undefined}
+                    onValueChange={(value) => setSelectedFileId(Number(value))}
+                  >
+                    <SelectTrigger aria-label="Format">
+                      <SelectValue placeholder="Choose a format" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {files.map(file => (
+                        <SelectItem key={file.id} value={String(file.id)}>
+                          {describeBookFile(file)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
                 <Button 
                   onClick={() => handleActionClick(book)}
                   className="w-full h-12 text-lg font-medium"
@@ -305,6 +477,19 @@ const BookPage = () => {
                 >
                   {getActionButton(book).props.children}
                 </Button>
+
+                {readerFormat && (
+                  <Button
+                    variant="secondary"
+                    className="w-full"
+                    onClick={handleOpenReader}
+                  >
+                    <BookOpen className="h-4 w-4 mr-2" />
+                    {resumeProgress
+                      ? `Continue reading (page ${resumeProgress.page}${resumeProgress.total_pages ? ` of ${resumeProgress.total_pages}` : ''})`
+                      : 'Read Online'}
+                  </Button>
+                )}
                 
                 <div className="flex gap-2">
                                        <Button 
@@ -358,7 +543,18 @@ const BookPage = () => {
               <div className="flex items-start justify-between">
                 <div className="space-y-2">
                   <h1 className="text-4xl font-bold leading-tight">{book.title}</h1>
-                  <p className="text-xl text-muted-foreground">by {book.author}</p>
+                  <p className="text-xl text-muted-foreground">
+                    by <ContributorLinks contributors={book.contributors} fallback={book.author} mainRole="author" />
+                  </p>
+                  {book.series_id && book.series_name && (
+                    <button
+                      onClick={() => navigate(`/series/${book.series_id}`)}
+                      className="flex items-center gap-2 text-sm text-primary hover:underline"
+                    >
+                      <Library className="h-4 w-4" />
+                      {book.series_position ? `Book ${book.series_position} of ` : 'Part of '}{book.series_name}
+                    </button>
+                  )}
                 </div>
                 <div className="flex items-center gap-2">
                   <Badge variant="secondary" className="px-3 py-1 text-sm">
@@ -375,6 +571,25 @@ const BookPage = () => {
                        book.book_type === 'purchase' ? 'Purchase Required' : 'Unknown'}
                     </Badge>
                   )}
+                  {accessLabel && (
+                    <Badge variant="outline" className="px-3 py-1 text-sm">
+                      <Lock className="h-3 w-3 mr-1" />
+                      {accessLabel}
+                    </Badge>
+                  )}
+                  {book.license && (
+                    LICENSE_URLS[book.license] ? (
+                      <a href={LICENSE_URLS[book.license]} target="_blank" rel="noopener noreferrer license">
+                        <Badge variant="outline" className="px-3 py-1 text-sm hover:bg-muted">
+                          {LICENSE_LABELS[book.license]}
+                        </Badge>
+                      </a>
+                    ) : (
+                      <Badge variant="outline" className="px-3 py-1 text-sm">
+                        {LICENSE_LABELS[book.license]}
+                      </Badge>
+                    )
+                  )}
                 </div>
               </div>
 
@@ -456,7 +671,9 @@ const BookPage = () => {
                       </div>
                       <div className="flex-1">
                         <span className="text-sm font-medium text-muted-foreground">Author</span>
-                        <p className="font-medium">{book.author}</p>
+                        <p className="font-medium">
+                          <ContributorLinks contributors={book.contributors} fallback={book.author} mainRole="author" />
+                        </p>
                       </div>
                     </div>
                     
@@ -530,7 +747,7 @@ const BookPage = () => {
                         </div>
                         <div className="flex-1">
                           <span className="text-sm font-medium text-muted-foreground">Price</span>
-                          <p className="font-medium">{book.currency || 'USD'} {book.price}</p>
+                          <BookPrice bookId={book.id} price={Number(book.price)} currency={book.currency || 'USD'} />
                         </div>
                       </div>
                     )}
@@ -539,6 +756,48 @@ const BookPage = () => {
               </div>
             </div>
 
+            {/* Next in Series */}
+            {series && nextVolume && (
+              <div className="space-y-4">
+                <div className="flex items-center gap-2">
+                  <div className="p-2 bg-primary/10 rounded-lg">
+                    <Library className="w-5 h-5 text-primary" />
+                  </div>
+                  <h2 className="text-2xl font-semibold">Next in {series.name}</h2>
+                </div>
+
+                <div
+                  className="bg-muted/30 rounded-xl p-6 flex items-center gap-4 cursor-pointer hover:bg-muted/50 transition-colors"
+                  onClick={() => navigate(`/books/${nextVolume.id}`)}
+                >
+                  <div className="w-16 shrink-0 aspect-[3/4] bg-muted rounded-lg overflow-hidden">
+                    <Thumbnail
+                      src={nextVolume.thumbnail ?? nextVolume.cover_image_path ?? undefined}
+                      bookId={nextVolume.id}
+                      alt={`${nextVolume.title} cover`}
+                      className="w-full h-full object-cover"
+                      fallback="/placeholder.svg"
+                    />
+                  </div>
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="secondary" className="text-xs">{volumeLabel(nextVolume)}</Badge>
+                      {nextVolume.progress && (
+                        <span className="text-xs text-muted-foreground">{VOLUME_STATUS_LABELS[volumeStatus(nextVolume.progress)]}</span>
+                      )}
+                    </div>
+                    <h3 className="font-semibold text-lg leading-tight">{nextVolume.title}</h3>
+                    <p className="text-sm text-muted-foreground">by {nextVolume.author}</p>
+                  </div>
+                  <ArrowRight className="h-5 w-5 text-muted-foreground shrink-0" />
+                </div>
+
+                <Button variant="link" className="px-0" onClick={() => navigate(`/series/${series.id}`)}>
+                  See all {series.volumes.length} books in the series
+                </Button>
+              </div>
+            )}
+
             {/* Action Section */}
             <div className="bg-gradient-to-r from-primary/5 to-primary/10 rounded-xl p-6 border border-primary/20">
               <div className="text-center space-y-4">
@@ -621,6 +880,17 @@ const BookPage = () => {
           </section>
         )}
       </main>
+
+      {isReaderOpen && readerFormat && (
+        <BookReader
+          bookId={book.id}
+          fileId={selectedFile?.id}
+          title={book.title}
+          format={readerFormat}
+          initialPage={readerStartPage ?? resumeProgress?.page ?? 1}
+          onClose={handleCloseReader}
+        />
+      )}
     </div>
   );
 };
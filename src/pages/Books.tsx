@@ -7,10 +7,13 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import Thumbnail from "@/components/ui/thumbnail";
 import { ThumbsRating } from "@/components/ui/ThumbsRating";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import Footer from "@/components/Footer";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Separator } from "@/components/ui/separator";
+import { authFetch } from "@/lib/auth-helper";
+import BookTextMatches from "@/components/BookTextMatches";
+import { booksUrl, searchBookText, type BookListParams, type BookListPage, type BookTextSearchPage } from "@/lib/api";
 
 type BackendBook = {
   id: number | string;
@@ -30,16 +33,38 @@ type BackendBook = {
   download_count?: number;
 };
 
+type SortOption = NonNullable<BookListParams['sort']>;
+
+const SORT_OPTIONS: { value: SortOption; label: string }[] = [
+  { value: 'newest', label: 'Newest' },
+  { value: 'title', label: 'Title (A-Z)' },
+  { value: 'downloads', label: 'Most downloaded' },
+  { value: 'votes', label: 'Top rated' },
+];
+
 const Books = () => {
-  const [query, setQuery] = useState("");
+  const [searchParams] = useSearchParams();
+  // The home page search sends people here with ?q=
+  const [query, setQuery] = useState(() => searchParams.get('q') || "");
+  // The search and author boxes are sent to the server once typing pauses
+  const [debouncedQuery, setDebouncedQuery] = useState(() => (searchParams.get('q') || "").trim());
+  const [debouncedAuthor, setDebouncedAuthor] = useState("");
   const [activeCategory, setActiveCategory] = useState<string | 'All'>('All');
+  const [bookType, setBookType] = useState<'all' | 'file' | 'link' | 'purchase'>('all');
+  const [author, setAuthor] = useState("");
+  const [yearFrom, setYearFrom] = useState("");
+  const [yearTo, setYearTo] = useState("");
+  const [sort, setSort] = useState<SortOption>('newest');
   const [view, setView] = useState<"cards" | "list">("list");
   const [isSmallScreen, setIsSmallScreen] = useState<boolean>(false);
   const [page, setPage] = useState<number>(1);
   const [pageSize, setPageSize] = useState<number>(12);
   const [books, setBooks] = useState<BackendBook[]>([]);
+  const [total, setTotal] = useState(0);
   const [categories, setCategories] = useState<string[]>(['All']);
   const [isLoading, setIsLoading] = useState(true);
+  const [hasLoaded, setHasLoaded] = useState(false);
+  const [textMatches, setTextMatches] = useState<BookTextSearchPage<BackendBook> | null>(null);
   
   // Book preview modal state
   const [selectedBook, setSelectedBook] = useState<BackendBook | null>(null);
@@ -136,7 +161,6 @@ const Books = () => {
   };
 
   useEffect(() => {
-    fetchBooks();
     fetchCategories();
 
     // Detect small screens (Tailwind's `sm` breakpoint is 640px)
@@ -157,43 +181,83 @@ const Books = () => {
     }
   }, []);
 
-  const fetchBooks = async () => {
-    setIsLoading(true);
-    try {
-      const res = await fetch('/api/books');
-      if (!res.ok) throw new Error('Failed to fetch books');
-      const data = await res.json();
-      
-      console.log('Raw API response:', data);
-      
-      // Transform the data to match our BackendBook interface
-      const transformedBooks: BackendBook[] = (data || []).map((book: any) => ({
-        id: book.id,
-        title: book.title || 'Untitled',
-        author: book.author || 'Unknown Author',
-        description: book.description,
-        thumbnail: book.thumbnail,
-        cover_image_path: book.cover_image_path,
-        file_path: book.file_path,
-        external_link: book.external_link,
-        purchase_link: book.purchase_link,
-        book_type: book.book_type || 'file',
-        category_name: book.category_name
-        ,
-        up_votes: typeof book.up_votes === 'number' ? book.up_votes : 0,
-        down_votes: typeof book.down_votes === 'number' ? book.down_votes : 0,
-        user_vote: typeof book.user_vote === 'number' ? book.user_vote : null,
-        download_count: typeof book.download_count === 'number' ? book.download_count : 0,
-      }));
-      
-      console.log('Transformed books:', transformedBooks);
-      setBooks(transformedBooks);
-    } catch (err) {
-      console.error('Error fetching books', err);
-    } finally {
-      setIsLoading(false);
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedQuery(query.trim());
+      setDebouncedAuthor(author.trim());
+      setPage(1);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [query, author]);
+
+  // Search, filtering, sorting and paging all happen on the server
+  useEffect(() => {
+    let cancelled = false;
+    const fetchBooks = async () => {
+      setIsLoading(true);
+      try {
+        const res = await authFetch(booksUrl({
+          q: debouncedQuery,
+          category: activeCategory === 'All' ? undefined : activeCategory,
+          book_type: bookType === 'all' ? undefined : bookType,
+          author: debouncedAuthor,
+          year_from: yearFrom ? Number(yearFrom) : undefined,
+          year_to: yearTo ? Number(yearTo) : undefined,
+          sort,
+          limit: pageSize,
+          offset: (page - 1) * pageSize,
+        }));
+        if (!res.ok) throw new Error('Failed to fetch books');
+        const data: BookListPage = await res.json();
+        if (cancelled) return;
+
+        // Transform the data to match our BackendBook interface
+        const transformedBooks: BackendBook[] = data.books.map((book: any) => ({
+          id: book.id,
+          title: book.title || 'Untitled',
+          author: book.author || 'Unknown Author',
+          description: book.description,
+          thumbnail: book.thumbnail,
+          cover_image_path: book.cover_image_path,
+          file_path: book.file_path,
+          external_link: book.external_link,
+          purchase_link: book.purchase_link,
+          book_type: book.book_type || 'file',
+          category_name: book.category_name
+          ,
+          up_votes: typeof book.up_votes === 'number' ? book.up_votes : 0,
+          down_votes: typeof book.down_votes === 'number' ? book.down_votes : 0,
+          user_vote: typeof book.user_vote === 'number' ? book.user_vote : null,
+          download_count: typeof book.download_count === 'number' ? book.download_count : 0,
+        }));
+
+        setBooks(transformedBooks);
+        setTotal(data.total);
+      } catch (err) {
+        console.error('Error fetching books', err);
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+          setHasLoaded(true);
+        }
+      }
+    };
+    fetchBooks();
+    return () => { cancelled = true; };
+  }, [debouncedQuery, debouncedAuthor, activeCategory, bookType, yearFrom, yearTo, sort, page, pageSize]);
+
+  // Matches inside the books' text, shown above the catalogue results
+  useEffect(() => {
+    if (debouncedQuery.length < 3) {
+      setTextMatches(null);
+      return;
     }
-  };
+    let cancelled = false;
+    searchBookText<BackendBook>(debouncedQuery, { limit: 5 })
+      .then(data => { if (!cancelled) setTextMatches(data); })
+      .catch(() => { if (!cancelled) setTextMatches(null); });
+    return () => { cancelled = true; };
+  }, [debouncedQuery]);
 
   const fetchCategories = async () => {
     try {
@@ -207,20 +271,12 @@ const Books = () => {
     }
   };
 
-  const filtered = books.filter((b) => {
-    const matchesCategory = activeCategory === 'All' || b.category_name === activeCategory;
-    const combined = `${b.title || ''} ${b.author || ''} ${b.category_name || ''}`.toLowerCase();
-    const matchesQuery = combined.includes(query.toLowerCase());
-    return matchesCategory && matchesQuery;
-  });
-
-  const total = filtered.length;
   const totalPages = Math.max(1, Math.ceil(total / pageSize));
   const start = (page - 1) * pageSize;
   const end = start + pageSize;
-  const paginated = filtered.slice(start, end);
 
-  if (isLoading) {
+  // Only the first load replaces the page; later ones keep the controls (and their focus) in place
+  if (isLoading && !hasLoaded) {
     return (
       <div className="min-h-screen bg-background">
         <Header />
@@ -249,7 +305,7 @@ const Books = () => {
                   placeholder="Search by title, author or category"
                   className="pl-12 h-12 w-full"
                   value={query}
-                  onChange={(e) => { setQuery(e.target.value); setPage(1); }}
+                  onChange={(e) => setQuery(e.target.value)}
                 />
               </div>
 
@@ -280,7 +336,7 @@ const Books = () => {
                 </div>
 
                 <div className="text-sm text-muted-foreground hidden sm:flex">
-                  <span className="mr-3">{filtered.length} results</span>
+                  <span className="mr-3">{total} results</span>
                   {favorites.size > 0 && (
                     <span className="flex items-center gap-1">
                       <Heart className="h-4 w-4 text-red-500 fill-current" />
@@ -294,21 +350,84 @@ const Books = () => {
 
           {/* Filters column for larger screens */}
           <aside className="order-first lg:order-last lg:col-span-1">
-            <div className="bg-card rounded-lg p-4 shadow-sm">
-              <div className="text-sm text-muted-foreground">Use the category filter in the search bar.</div>
+            <div className="bg-card rounded-lg p-4 shadow-sm space-y-3">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <label htmlFor="sort-filter" className="text-xs font-medium text-muted-foreground">Sort by</label>
+                  <select
+                    id="sort-filter"
+                    value={sort}
+                    onChange={(e) => { setSort(e.target.value as SortOption); setPage(1); }}
+                    className="w-full rounded border px-3 py-2 bg-background text-sm"
+                  >
+                    {SORT_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-1">
+                  <label htmlFor="type-filter" className="text-xs font-medium text-muted-foreground">Type</label>
+                  <select
+                    id="type-filter"
+                    value={bookType}
+                    onChange={(e) => { setBookType(e.target.value as typeof bookType); setPage(1); }}
+                    className="w-full rounded border px-3 py-2 bg-background text-sm"
+                  >
+                    <option value="all">All types</option>
+                    <option value="file">File</option>
+                    <option value="link">Link</option>
+                    <option value="purchase">Purchase</option>
+                  </select>
+                </div>
+              </div>
+              <div className="space-y-1">
+                <label htmlFor="author-filter" className="text-xs font-medium text-muted-foreground">Author</label>
+                <Input
+                  id="author-filter"
+                  placeholder="Any author"
+                  value={author}
+                  onChange={(e) => setAuthor(e.target.value)}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <label htmlFor="year-from-filter" className="text-xs font-medium text-muted-foreground">Published from</label>
+                  <Input
+                    id="year-from-filter"
+                    type="number"
+                    placeholder="Year"
+                    value={yearFrom}
+                    onChange={(e) => { setYearFrom(e.target.value); setPage(1); }}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <label htmlFor="year-to-filter" className="text-xs font-medium text-muted-foreground">Published to</label>
+                  <Input
+                    id="year-to-filter"
+                    type="number"
+                    placeholder="Year"
+                    value={yearTo}
+                    onChange={(e) => { setYearTo(e.target.value); setPage(1); }}
+                  />
+                </div>
+              </div>
             </div>
           </aside>
         </div>
 
+        {textMatches && (
+          <BookTextMatches results={textMatches.results} total={textMatches.total} />
+        )}
+
         {/* Content grid */}
         <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
           <section className="lg:col-span-4">
-            {filtered.length === 0 ? (
+            {books.length === 0 ? (
               <div className="text-center py-12 text-muted-foreground">No books found.</div>
             ) : (
               <>
                 <div className={view === "cards" ? "grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6" : "flex flex-col gap-4"}>
-                  {paginated.map((book) => (
+                  {books.map((book) => (
                     <Card
                       key={String(book.id)}
                       className={`cursor-pointer hover:shadow-lg overflow-hidden rounded-lg ${view === "list" ? "flex flex-col sm:flex-row items-start gap-4 p-4 border" : "flex flex-col h-full"}`}
@@ -6,7 +6,7 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Book } from "@/lib/books";
 // `categories` static list removed from lib; prefer API categories via `/api/categories`.
-import { fetchBooks } from "@/lib/api";
+import { fetchAllBooks } from "@/lib/api";
 import { apiCall } from "@/lib/api";
 import Thumbnail from "@/components/ui/thumbnail";
 import { Input } from "@/components/ui/input";
@@ -44,8 +44,7 @@ const CategoryPage = () => {
     setLoading(true);
     setError(null);
     try {
-      const res = await fetchBooks();
-      const data = await res.json();
+      const data = await fetchAllBooks();
       // normalize category field coming from backend (category_name or category)
       const normalized = Array.isArray(data)
         ? data.map((b: any) => ({
@@ -0,0 +1,157 @@
+import { useState, useEffect } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import Header from "@/components/Header";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import Thumbnail from "@/components/ui/thumbnail";
+import { BookOpen, Play, User } from "lucide-react";
+import { fetchContributor, rolesLabel, type ContributorDetail } from "@/lib/contributors";
+
+const ContributorPage = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [contributor, setContributor] = useState<ContributorDetail | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (id) loadContributor(id);
+  }, [id]);
+
+  const loadContributor = async (contributorId: string) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setContributor(await fetchContributor(contributorId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch author');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <main className="container mx-auto max-w-6xl px-4 py-8">
+          <div className="flex justify-center items-center min-h-[60vh]">
+            <div className="text-center">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+              <p className="text-muted-foreground">Loading author...</p>
+            </div>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  if (error || !contributor) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <main className="container mx-auto max-w-6xl px-4 py-8">
+          <div className="text-center py-12">
+            <h2 className="text-2xl font-bold mb-2">Author Not Found</h2>
+            <p className="text-muted-foreground mb-6">
+              {error || "The author you're looking for doesn't exist or has been removed."}
+            </p>
+            <Button onClick={() => navigate('/books')}>
+              Back to Books
+            </Button>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  const { books, tutorials } = contributor;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <main className="container mx-auto max-w-6xl px-4 py-8">
+        <div className="space-y-4 mb-8">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-primary/10 rounded-lg">
+              <User className="w-6 h-6 text-primary" />
+            </div>
+            <h1 className="text-4xl font-bold leading-tight">{contributor.name}</h1>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {books.length} {books.length === 1 ? 'book' : 'books'} · {tutorials.length} {tutorials.length === 1 ? 'tutorial' : 'tutorials'}
+          </p>
+        </div>
+
+        {books.length === 0 && tutorials.length === 0 && (
+          <p className="text-muted-foreground text-center py-12">Nothing by this author is available yet.</p>
+        )}
+
+        {books.length > 0 && (
+          <section className="mb-10">
+            <h2 className="flex items-center gap-2 text-2xl font-semibold mb-4">
+              <BookOpen className="h-5 w-5" />
+              Books
+            </h2>
+            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-6">
+              {books.map(book => (
+                <div
+                  key={book.id}
+                  className="group cursor-pointer space-y-2"
+                  onClick={() => navigate(`/books/${book.id}`)}
+                >
+                  <div className="aspect-[3/4] bg-muted rounded-lg overflow-hidden group-hover:shadow-md transition-shadow">
+                    <Thumbnail
+                      src={book.thumbnail ?? book.cover_image_path ?? undefined}
+                      bookId={book.id}
+                      alt={`${book.title} cover`}
+                      className="w-full h-full object-cover"
+                      fallback="/placeholder.svg"
+                    />
+                  </div>
+                  <h3 className="font-semibold leading-tight line-clamp-2">{book.title}</h3>
+                  <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                    {book.roles.some(role => role !== 'author') && (
+                      <Badge variant="outline">{rolesLabel(book.roles)}</Badge>
+                    )}
+                    {book.published_year && <span>{book.published_year}</span>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {tutorials.length > 0 && (
+          <section>
+            <h2 className="flex items-center gap-2 text-2xl font-semibold mb-4">
+              <Play className="h-5 w-5" />
+              Tutorials
+            </h2>
+            <ul className="space-y-3">
+              {tutorials.map(tutorial => (
+                <li
+                  key={tutorial.id}
+                  className="rounded-xl border p-4 hover:shadow-md transition-shadow cursor-pointer space-y-2"
+                  onClick={() => navigate(`/tutorials/${tutorial.id}`)}
+                >
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge variant="secondary">{tutorial.difficulty}</Badge>
+                    {tutorial.category_name && <Badge variant="outline">{tutorial.category_name}</Badge>}
+                    <span className="text-xs text-muted-foreground">{rolesLabel(tutorial.roles)}</span>
+                  </div>
+                  <h3 className="font-semibold text-lg leading-tight">{tutorial.title}</h3>
+                  {tutorial.description && (
+                    <p className="text-sm text-muted-foreground line-clamp-2">{tutorial.description}</p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default ContributorPage;
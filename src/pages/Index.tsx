@@ -2,7 +2,7 @@ import { useState, useRef } from "react";
 import { Search, BookOpen, Users, Globe, Download, Clock } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 // Removed fallback imports for in-repo sample data.
-import { apiCall } from "@/lib/api";
+import { apiCall, fetchAllBooks, searchBookText } from "@/lib/api";
 import { useEffect } from "react";
 import { createPortal } from "react-dom";
 import { Input } from "@/components/ui/input";
@@ -11,6 +11,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge";
 import { DurationBadge } from "@/components/ui/duration-badge";
 import Header from "@/components/Header";
+import SearchSnippet from "@/components/SearchSnippet";
 import { ImageSlider } from "@/components/ImageSlider";
 import { getVideoDuration, extractYouTubeId, testYouTubeAPI } from "@/lib/youtube-utils";
 
@@ -35,7 +36,7 @@ const Index = () => {
     
     const loadFeatured = async () => {
       try {
-        const booksResp = await apiCall('/api/books');
+        const booksResp = await apiCall('/api/books?limit=2');
         const booksData = await booksResp.json();
         const books = Array.isArray(booksData) ? booksData : (booksData.books || []);
 
@@ -108,15 +109,14 @@ const Index = () => {
     return () => { mounted = false; };
   }, []);
 
-  // Load caches for client-side searching (server does not support q/limit params)
+  // Load caches for client-side searching (tutorials have no server-side search)
   useEffect(() => {
     let cancelled = false;
     const loadCaches = async () => {
       try {
-        const [booksResp, tutorialsResp] = await Promise.all([apiCall('/api/books'), apiCall('/api/tutorials')]);
-        const [booksJson, tutorialsJson] = await Promise.all([booksResp.json(), tutorialsResp.json()]);
+        const [books, tutorialsResp] = await Promise.all([fetchAllBooks(), apiCall('/api/tutorials')]);
+        const tutorialsJson = await tutorialsResp.json();
         if (cancelled) return;
-        const books = Array.isArray(booksJson) ? booksJson : (booksJson.books || []);
         const tutorials = Array.isArray(tutorialsJson) ? tutorialsJson : (tutorialsJson.tutorials || []);
         setBooksCache(books);
         setTutorialsCache(tutorials);
@@ -137,7 +137,8 @@ const Index = () => {
 
     // Use cached lists if available, otherwise wait until caches load
     const q = searchQuery.trim().toLowerCase();
-    const computeSuggestions = () => {
+    let cancelled = false;
+    const computeSuggestions = async () => {
       const bList = Array.isArray(booksCache) ? booksCache : [];
       const tList = Array.isArray(tutorialsCache) ? tutorialsCache : [];
 
@@ -151,7 +152,27 @@ const Index = () => {
         .slice(0, 5)
         .map((t: any) => ({ id: t.id, kind: 'tutorial', title: t.title, subtitle: t.category_name || t.category || '', link: `/tutorials/${t.id}` }));
 
-      setSuggestions([...bItems, ...tItems].slice(0, 8));
+      const localItems = [...bItems, ...tItems].slice(0, 8);
+      setSuggestions(localItems);
+
+      // Then add passages from inside books, which link straight to the page in the reader
+      if (q.length < 3) return;
+      try {
+        const { results } = await searchBookText(q, { limit: 3 });
+        if (cancelled) return;
+        const textItems = results
+          .filter(result => result.matches.length > 0)
+          .map(result => ({
+            id: `${result.book.id}-p${result.matches[0].page}`,
+            kind: `page ${result.matches[0].page}`,
+            title: result.book.title,
+            match: result.matches[0],
+            link: `/books/${result.book.id}?page=${result.matches[0].page}`,
+          }));
+        setSuggestions([...localItems.slice(0, 8 - textItems.length), ...textItems]);
+      } catch (err) {
+        // Text search is optional; keep the title matches
+      }
     };
 
     // Debounce locally
@@ -159,7 +180,7 @@ const Index = () => {
       computeSuggestions();
     }, 200);
 
-    return () => clearTimeout(timer);
+    return () => { cancelled = true; clearTimeout(timer); };
   }, [searchQuery, booksCache, tutorialsCache]);
 
   // Position dropdown in the document body so it's not clipped by the frosted hero
@@ -294,7 +315,7 @@ const Index = () => {
                         >
                           <div className="flex-1">
                             <div className="font-medium">{s.title}</div>
-                            <div className="text-sm text-muted-foreground">{s.subtitle}</div>
+                            <div className="text-sm text-muted-foreground">{s.match ? <SearchSnippet match={s.match} /> : s.subtitle}</div>
                           </div>
                           <div className="text-xs text-muted-foreground uppercase">{s.kind}</div>
                         </button>
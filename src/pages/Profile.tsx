@@ -1,44 +1,166 @@
 import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
-import { User, Mail, Edit, Save, X } from 'lucide-react';
+import { clearAuth } from '@/lib/auth-helper';
+import { updateProfile, downloadMyData, deleteMyAccount } from '@/lib/profile';
+import TwoFactorSettings from '@/components/TwoFactorSettings';
+import LinkedAccounts from '@/components/LinkedAccounts';
+import AppTokens from '@/components/AppTokens';
+import { User, Mail, Edit, Save, X, KeyRound, Download, Trash2 } from 'lucide-react';
+
+interface ProfileFormData {
+  username: string;
+  first_name: string;
+  last_name: string;
+  email: string;
+  current_password: string;
+}
+
+const emptyPasswordForm = { current_password: '', new_password: '', confirm_password: '' };
 
 export default function Profile() {
-  const { user, userProfile, signOut } = useAuth();
+  const { user, userProfile, signOut, refreshUserData } = useAuth();
   const { toast } = useToast();
   const [isEditing, setIsEditing] = useState(false);
-  const [displayName, setDisplayName] = useState(userProfile?.display_name || '');
+  const [isSaving, setIsSaving] = useState(false);
+  const [formData, setFormData] = useState<ProfileFormData>({
+    username: '',
+    first_name: '',
+    last_name: '',
+    email: '',
+    current_password: ''
+  });
+  const [passwordForm, setPasswordForm] = useState(emptyPasswordForm);
+  const [deletePassword, setDeletePassword] = useState('');
+  const navigate = useNavigate();
+
+  const emailChanged = isEditing && formData.email.trim().toLowerCase() !== (userProfile?.email || '').toLowerCase();
+
+  const startEditing = () => {
+    setFormData({
+      username: userProfile?.username || '',
+      first_name: userProfile?.first_name || '',
+      last_name: userProfile?.last_name || '',
+      email: userProfile?.email || user?.email || '',
+      current_password: ''
+    });
+    setIsEditing(true);
+  };
 
   const handleSave = async () => {
+    setIsSaving(true);
     try {
-      // TODO: Implement MySQL profile update
-      console.log('MySQL profile update not yet implemented');
-      
+      const result = await updateProfile({
+        username: formData.username.trim(),
+        first_name: formData.first_name.trim() || null,
+        last_name: formData.last_name.trim() || null,
+        ...(emailChanged ? { email: formData.email.trim(), current_password: formData.current_password } : {})
+      });
+
       toast({
         title: "Success",
-        description: "Profile updated successfully (mock)",
+        description: result.message,
       });
-      
+
       setIsEditing(false);
+      await refreshUserData();
     } catch (error) {
       console.error('Error updating profile:', error);
       toast({
         title: "Error",
-        description: "Failed to update profile",
+        description: error instanceof Error ? error.message : "Failed to update profile",
         variant: "destructive",
       });
+    } finally {
+      setIsSaving(false);
     }
   };
 
   const handleCancel = () => {
-    setDisplayName(userProfile?.display_name || '');
     setIsEditing(false);
   };
 
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passwordForm.new_password !== passwordForm.confirm_password) {
+      toast({
+        title: "Error",
+        description: "New passwords do not match",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const result = await updateProfile({
+        current_password: passwordForm.current_password,
+        new_password: passwordForm.new_password
+      });
+      toast({
+        title: "Password Changed",
+        description: result.sessions_revoked > 0
+          ? `Your password was changed and ${result.sessions_revoked} other session(s) were signed out.`
+          : "Your password was changed.",
+      });
+      setPasswordForm(emptyPasswordForm);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to change password",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDownloadData = async () => {
+    setIsSaving(true);
+    try {
+      await downloadMyData();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to export your data",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteAccount = async () => {
+    setIsSaving(true);
+    try {
+      await deleteMyAccount(deletePassword);
+      // The server already dropped every session along with the account
+      clearAuth();
+      toast({
+        title: "Account Deleted",
+        description: "Your account and personal data have been removed.",
+      });
+      navigate('/');
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete account",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+      setDeletePassword('');
+    }
+  };
+
   if (!user) {
     return (
       <div className="container mx-auto px-4 py-8">
@@ -51,6 +173,8 @@ export default function Profile() {
     );
   }
 
+  const displayName = userProfile?.display_name || user.email?.split('@')[0] || 'User';
+
   return (
     <div className="container mx-auto px-4 py-8">
       <Card>
@@ -62,40 +186,36 @@ export default function Profile() {
         </CardHeader>
         <CardContent className="space-y-6">
           <div className="flex items-center space-x-4">
-            <div className="w-20 h-20 bg-primary/10 rounded-full flex items-center justify-center">
-              <User className="h-10 w-10 text-primary" />
-            </div>
+            <Avatar className="w-20 h-20">
+              <AvatarImage src={userProfile?.avatar_url || undefined} alt={displayName} />
+              <AvatarFallback className="bg-primary/10">
+                <User className="h-10 w-10 text-primary" />
+              </AvatarFallback>
+            </Avatar>
             <div className="flex-1">
-              <h3 className="text-lg font-semibold">
-                {isEditing ? (
-                  <Input
-                    value={displayName}
-                    onChange={(e) => setDisplayName(e.target.value)}
-                    className="w-64"
-                  />
-                ) : (
-                  userProfile?.display_name || user.email?.split('@')[0] || 'User'
-                )}
-              </h3>
+              <h3 className="text-lg font-semibold">{displayName}</h3>
               <p className="text-muted-foreground flex items-center gap-2">
                 <Mail className="h-4 w-4" />
-                {user.email}
+                {userProfile?.email || user.email}
+                {userProfile?.email_verified === false && (
+                  <Badge variant="outline">Unverified</Badge>
+                )}
               </p>
             </div>
             <div className="flex space-x-2">
               {isEditing ? (
                 <>
-                  <Button size="sm" onClick={handleSave}>
+                  <Button size="sm" onClick={handleSave} disabled={isSaving || (emailChanged && !formData.current_password)}>
                     <Save className="h-4 w-4 mr-2" />
                     Save
                   </Button>
-                  <Button size="sm" variant="outline" onClick={handleCancel}>
+                  <Button size="sm" variant="outline" onClick={handleCancel} disabled={isSaving}>
                     <X className="h-4 w-4 mr-2" />
                     Cancel
                   </Button>
                 </>
               ) : (
-                <Button size="sm" onClick={() => setIsEditing(true)}>
+                <Button size="sm" onClick={startEditing}>
                   <Edit className="h-4 w-4 mr-2" />
                   Edit
                 </Button>
@@ -103,33 +223,98 @@ export default function Profile() {
             </div>
           </div>
 
-          <div className="border-t pt-6">
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              <div>
-                <Label className="text-sm font-medium text-muted-foreground">Display Name</Label>
-                <p className="mt-1">
-                  {userProfile?.display_name || user.email?.split('@')[0] || 'Not set'}
-                </p>
-              </div>
-              <div>
-                <Label className="text-sm font-medium text-muted-foreground">Email</Label>
-                <p className="mt-1">{user.email}</p>
-              </div>
-              <div>
-                <Label className="text-sm font-medium text-muted-foreground">Member Since</Label>
-                <p className="mt-1">
-                  {userProfile?.created_at 
-                    ? new Date(userProfile.created_at).toLocaleDateString()
-                    : 'Unknown'
-                  }
-                </p>
+          {isEditing ? (
+            <div className="border-t pt-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="space-y-2">
+                  <Label htmlFor="profile-username">Username</Label>
+                  <Input
+                    id="profile-username"
+                    value={formData.username}
+                    onChange={(e) => setFormData({ ...formData, username: e.target.value })}
+                    maxLength={50}
+                    disabled={isSaving}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="profile-email">Email</Label>
+                  <Input
+                    id="profile-email"
+                    type="email"
+                    value={formData.email}
+                    onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                    maxLength={255}
+                    disabled={isSaving}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="profile-first-name">First Name</Label>
+                  <Input
+                    id="profile-first-name"
+                    value={formData.first_name}
+                    onChange={(e) => setFormData({ ...formData, first_name: e.target.value })}
+                    maxLength={50}
+                    disabled={isSaving}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="profile-last-name">Last Name</Label>
+                  <Input
+                    id="profile-last-name"
+                    value={formData.last_name}
+                    onChange={(e) => setFormData({ ...formData, last_name: e.target.value })}
+                    maxLength={50}
+                    disabled={isSaving}
+                  />
+                </div>
+                {emailChanged && (
+                  <div className="space-y-2 md:col-span-2">
+                    <Label htmlFor="profile-current-password">Current Password</Label>
+                    <Input
+                      id="profile-current-password"
+                      type="password"
+                      value={formData.current_password}
+                      onChange={(e) => setFormData({ ...formData, current_password: e.target.value })}
+                      disabled={isSaving}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Changing your email needs your password. We'll send a verification link to the new address.
+                    </p>
+                  </div>
+                )}
               </div>
-              <div>
-                <Label className="text-sm font-medium text-muted-foreground">User ID</Label>
-                <p className="mt-1 font-mono text-sm">{user.id}</p>
+            </div>
+          ) : (
+            <div className="border-t pt-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                  <Label className="text-sm font-medium text-muted-foreground">Display Name</Label>
+                  <p className="mt-1">{displayName}</p>
+                </div>
+                <div>
+                  <Label className="text-sm font-medium text-muted-foreground">Username</Label>
+                  <p className="mt-1">{userProfile?.username || 'Not set'}</p>
+                </div>
+                <div>
+                  <Label className="text-sm font-medium text-muted-foreground">Email</Label>
+                  <p className="mt-1">{userProfile?.email || user.email}</p>
+                </div>
+                <div>
+                  <Label className="text-sm font-medium text-muted-foreground">Member Since</Label>
+                  <p className="mt-1">
+                    {userProfile?.created_at
+                      ? new Date(userProfile.created_at).toLocaleDateString()
+                      : 'Unknown'
+                    }
+                  </p>
+                </div>
+                <div>
+                  <Label className="text-sm font-medium text-muted-foreground">User ID</Label>
+                  <p className="mt-1 font-mono text-sm">{user.id}</p>
+                </div>
               </div>
             </div>
-          </div>
+          )}
 
           <div className="border-t pt-6">
             <Button variant="outline" onClick={signOut} className="w-full">
@@ -138,6 +323,127 @@ export default function Profile() {
           </div>
         </CardContent>
       </Card>
+
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            Change Password
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleChangePassword} className="space-y-4 max-w-sm">
+            <div className="space-y-2">
+              <Label htmlFor="password-current">Current Password</Label>
+              <Input
+                id="password-current"
+                type="password"
+                value={passwordForm.current_password}
+                onChange={(e) => setPasswordForm({ ...passwordForm, current_password: e.target.value })}
+                required
+                disabled={isSaving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="password-new">New Password</Label>
+              <Input
+                id="password-new"
+                type="password"
+                value={passwordForm.new_password}
+                onChange={(e) => setPasswordForm({ ...passwordForm, new_password: e.target.value })}
+                minLength={8}
+                required
+                disabled={isSaving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="password-confirm">Confirm New Password</Label>
+              <Input
+                id="password-confirm"
+                type="password"
+                value={passwordForm.confirm_password}
+                onChange={(e) => setPasswordForm({ ...passwordForm, confirm_password: e.target.value })}
+                minLength={8}
+                required
+                disabled={isSaving}
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Changing your password signs you out on every other device.
+            </p>
+            <Button type="submit" disabled={isSaving}>
+              Change Password
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <TwoFactorSettings />
+
+      <LinkedAccounts />
+
+      <AppTokens />
+
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle>Your Data</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm text-muted-foreground">
+              Download a copy of your account details, ratings, bookmarks, reading history, comments,
+              downloads, views and searches.
+            </p>
+            <Button variant="outline" onClick={handleDownloadData} disabled={isSaving}>
+              <Download className="h-4 w-4 mr-2" />
+              Download my data
+            </Button>
+          </div>
+
+          <div className="border-t pt-6 flex items-center justify-between gap-4">
+            <p className="text-sm text-muted-foreground">
+              Deleting your account removes your profile, ratings, bookmarks, comments and reading history.
+              Download and view statistics are kept without anything that identifies you.
+            </p>
+            <AlertDialog onOpenChange={(open) => !open && setDeletePassword('')}>
+              <AlertDialogTrigger asChild>
+                <Button variant="destructive" disabled={isSaving}>
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete account
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Delete your account?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    This cannot be undone. Enter your password to confirm.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <div className="space-y-2">
+                  <Label htmlFor="delete-password">Current Password</Label>
+                  <Input
+                    id="delete-password"
+                    type="password"
+                    value={deletePassword}
+                    onChange={(e) => setDeletePassword(e.target.value)}
+                    disabled={isSaving}
+                  />
+                </div>
+                <AlertDialogFooter>
+                  <AlertDialogCancel disabled={isSaving}>Cancel</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={handleDeleteAccount}
+                    disabled={isSaving || !deletePassword}
+                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                  >
+                    Delete account
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        </CardContent>
+      </Card>
     </div>
   );
 }
@@ -0,0 +1,183 @@
+import { useState, useEffect } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import Header from "@/components/Header";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import Thumbnail from "@/components/ui/thumbnail";
+import { BookOpen, CheckCircle2, Library } from "lucide-react";
+import {
+  fetchSeries,
+  volumeLabel,
+  volumePercent,
+  volumeStatus,
+  VOLUME_STATUS_LABELS,
+  type SeriesDetail,
+  type SeriesVolume,
+} from "@/lib/series";
+
+const SeriesPage = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [series, setSeries] = useState<SeriesDetail | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (id) loadSeries(id);
+  }, [id]);
+
+  const loadSeries = async (seriesId: string) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setSeries(await fetchSeries(seriesId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch series');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <main className="container mx-auto max-w-6xl px-4 py-8">
+          <div className="flex justify-center items-center min-h-[60vh]">
+            <div className="text-center">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+              <p className="text-muted-foreground">Loading series...</p>
+            </div>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  if (error || !series) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <main className="container mx-auto max-w-6xl px-4 py-8">
+          <div className="text-center py-12">
+            <h2 className="text-2xl font-bold mb-2">Series Not Found</h2>
+            <p className="text-muted-foreground mb-6">
+              {error || "The series you're looking for doesn't exist or has been removed."}
+            </p>
+            <Button onClick={() => navigate('/books')}>
+              Back to Books
+            </Button>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  // Progress is only known for signed-in readers
+  const isTracked = series.volumes.some(volume => volume.progress !== null);
+  const finishedCount = series.volumes.filter(volume => volumeStatus(volume.progress) === 'finished').length;
+  const upNext: SeriesVolume | undefined = isTracked
+    ? series.volumes.find(volume => volumeStatus(volume.progress) !== 'finished')
+    : series.volumes[0];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <main className="container mx-auto max-w-6xl px-4 py-8">
+        {/* Breadcrumb Navigation */}
+        <div className="mb-6">
+          <nav className="flex items-center gap-2 text-sm text-muted-foreground">
+            <button
+              onClick={() => navigate('/books')}
+              className="hover:text-foreground transition-colors"
+            >
+              Books
+            </button>
+            <span>/</span>
+            <span className="text-foreground font-medium">{series.name}</span>
+          </nav>
+        </div>
+
+        <div className="space-y-4 mb-8">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-primary/10 rounded-lg">
+              <Library className="w-6 h-6 text-primary" />
+            </div>
+            <h1 className="text-4xl font-bold leading-tight">{series.name}</h1>
+          </div>
+          {series.description && (
+            <p className="text-muted-foreground leading-relaxed max-w-3xl">{series.description}</p>
+          )}
+          <div className="flex flex-wrap items-center gap-4">
+            <span className="text-sm text-muted-foreground">
+              {series.volumes.length} {series.volumes.length === 1 ? 'book' : 'books'}
+              {isTracked && ` · ${finishedCount} finished`}
+            </span>
+            {upNext && (
+              <Button onClick={() => navigate(`/books/${upNext.id}`)}>
+                <BookOpen className="h-4 w-4 mr-2" />
+                {volumeStatus(upNext.progress) === 'reading' ? 'Continue' : 'Start'} with {upNext.title}
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {series.volumes.length === 0 ? (
+          <p className="text-muted-foreground text-center py-12">No books in this series yet.</p>
+        ) : (
+          <ol className="space-y-4">
+            {series.volumes.map(volume => {
+              const status = volumeStatus(volume.progress);
+              const percent = volumePercent(volume.progress);
+              return (
+                <li
+                  key={volume.id}
+                  className="flex gap-4 rounded-xl border p-4 hover:shadow-md transition-shadow cursor-pointer"
+                  onClick={() => navigate(`/books/${volume.id}`)}
+                >
+                  <div className="w-20 shrink-0 aspect-[3/4] bg-muted rounded-lg overflow-hidden">
+                    <Thumbnail
+                      src={volume.thumbnail ?? volume.cover_image_path ?? undefined}
+                      bookId={volume.id}
+                      alt={`${volume.title} cover`}
+                      className="w-full h-full object-cover"
+                      fallback="/placeholder.svg"
+                    />
+                  </div>
+                  <div className="flex-1 min-w-0 space-y-2">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge variant="secondary">{volumeLabel(volume)}</Badge>
+                      {isTracked && (
+                        <Badge variant={status === 'finished' ? 'default' : 'outline'}>
+                          {status === 'finished' && <CheckCircle2 className="h-3 w-3 mr-1" />}
+                          {VOLUME_STATUS_LABELS[status]}
+                        </Badge>
+                      )}
+                    </div>
+                    <h2 className="font-semibold text-lg leading-tight">{volume.title}</h2>
+                    <p className="text-sm text-muted-foreground">
+                      by {volume.author}
+                      {volume.published_year && ` · ${volume.published_year}`}
+                      {volume.page_count && ` · ${volume.page_count} pages`}
+                    </p>
+                    {status === 'reading' && volume.progress && (
+                      <div className="flex items-center gap-3 max-w-md">
+                        {percent !== null && <Progress value={percent} className="h-2" />}
+                        <span className="text-xs text-muted-foreground whitespace-nowrap">
+                          Page {volume.progress.page}{volume.progress.total_pages ? ` of ${volume.progress.total_pages}` : ''}
+                        </span>
+                      </div>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default SeriesPage;
@@ -1,4 +1,5 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
@@ -6,13 +7,41 @@ import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 // Use backend API instead of importing mysql client code in the browser
 
+interface SetupState {
+  configured: boolean;
+  setup_token_enabled: boolean;
+}
+
 const SetupAdmin = () => {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [displayName, setDisplayName] = useState("");
+  const [setupToken, setSetupToken] = useState("");
   const [loading, setLoading] = useState(false);
+  const [setupState, setSetupState] = useState<SetupState | null>(null);
   const { toast } = useToast();
 
+  // The endpoint only bootstraps the first admin; afterwards a setup token is needed
+  useEffect(() => {
+    let mounted = true;
+    const loadSetupState = async () => {
+      try {
+        const response = await fetch(`/api/admin/setup`);
+        if (!response.ok) throw new Error("Failed to check admin setup state");
+        const data = await response.json();
+        if (mounted) setSetupState(data);
+      } catch (error) {
+        console.error("Error checking admin setup state:", error);
+        // Assume the form may be needed; the server still enforces the rules
+        if (mounted) setSetupState({ configured: false, setup_token_enabled: false });
+      }
+    };
+    loadSetupState();
+    return () => { mounted = false; };
+  }, []);
+
+  const needsToken = Boolean(setupState?.configured);
+
   const handleCreateAdmin = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -20,7 +49,9 @@ const SetupAdmin = () => {
       const response = await fetch(`/api/admin/setup`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ email, password, displayName }),
+        body: JSON.stringify(needsToken
+          ? { email, password, displayName, setup_token: setupToken }
+          : { email, password, displayName }),
       });
       if (!response.ok) {
         const data = await response.json().catch(() => ({ error: "Unknown error" }));
@@ -34,6 +65,8 @@ const SetupAdmin = () => {
       setEmail("");
       setPassword("");
       setDisplayName("");
+      setSetupToken("");
+      setSetupState(prev => (prev ? { ...prev, configured: true } : prev));
     } catch (err: any) {
       toast({
         title: "Error",
@@ -52,7 +85,36 @@ const SetupAdmin = () => {
           <CardTitle>Setup Admin User</CardTitle>
         </CardHeader>
         <CardContent>
+          {!setupState ? (
+            <p className="text-sm text-muted-foreground">Checking setup status...</p>
+          ) : setupState.configured && !setupState.setup_token_enabled ? (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                This library is already configured: an admin account exists. Ask an existing admin
+                to grant you a role from the Users page.
+              </p>
+              <Button asChild className="w-full">
+                <Link to="/auth">Go to sign in</Link>
+              </Button>
+            </div>
+          ) : (
           <form onSubmit={handleCreateAdmin} className="space-y-4">
+            {setupState.configured && (
+              <div className="space-y-2">
+                <p className="text-sm text-muted-foreground">
+                  An admin already exists. Enter the setup token from the server configuration to create another one.
+                </p>
+                <Label htmlFor="setupToken">Setup Token</Label>
+                <Input
+                  id="setupToken"
+                  type="password"
+                  value={setupToken}
+                  onChange={(e) => setSetupToken(e.target.value)}
+                  required
+                  disabled={loading}
+                />
+              </div>
+            )}
             <div className="space-y-2">
               <Label htmlFor="displayName">Display Name</Label>
               <Input
@@ -82,6 +144,7 @@ const SetupAdmin = () => {
                 type="password"
                 value={password}
                 onChange={(e) => setPassword(e.target.value)}
+                minLength={8}
                 required
                 disabled={loading}
               />
@@ -90,6 +153,7 @@ const SetupAdmin = () => {
               {loading ? "Creating Admin..." : "Create Admin"}
             </Button>
           </form>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -12,7 +12,9 @@ import { Separator } from "@/components/ui/separator";
 
 // No local tutorial sample data; always load from API.
 import { apiCall } from "@/lib/api";
+import { authFetch } from "@/lib/auth-helper";
 import TutorialModule from "@/components/TutorialModule";
+import ContributorLinks from "@/components/ContributorLinks";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { getVideoDuration } from "@/lib/youtube-utils";
 
@@ -263,7 +265,7 @@ const TutorialPage: React.FC = () => {
       if (localStorage.getItem(key)) return;
       localStorage.setItem(key, '1');
 
-      await fetch(`/api/tutorials/${encodeURIComponent(String(tutorialId))}/views`, { method: 'POST' });
+      await authFetch(`/api/tutorials/${encodeURIComponent(String(tutorialId))}/views`, { method: 'POST' });
       // Optionally update local UI count
       setTutorial((prev: any) => prev ? ({ ...prev, view_count: (prev.view_count || 0) + 1 }) : prev);
     } catch (err) {
@@ -375,7 +377,9 @@ const TutorialPage: React.FC = () => {
               <div className="flex items-start justify-between">
                 <div className="space-y-2">
                   <h1 className="text-3xl font-bold leading-tight">{tutorial.title}</h1>
-                  <p className="text-lg text-muted-foreground">by {tutorial.author || 'Unknown Author'}</p>
+                  <p className="text-lg text-muted-foreground">
+                    by <ContributorLinks contributors={tutorial.contributors} fallback={tutorial.creator || tutorial.author || 'Unknown Author'} mainRole="instructor" />
+                  </p>
                 </div>
                 <div className="flex items-center gap-2">
                   <Badge variant="secondary" className="px-3 py-1 text-sm">
@@ -521,7 +525,9 @@ const TutorialPage: React.FC = () => {
                     </div>
                     <div className="flex-1">
                       <span className="text-sm font-medium text-muted-foreground">Author</span>
-                      <p className="font-medium">{tutorial.author || 'Unknown Author'}</p>
+                      <p className="font-medium">
+                        <ContributorLinks contributors={tutorial.contributors} fallback={tutorial.creator || tutorial.author || 'Unknown Author'} mainRole="instructor" />
+                      </p>
                     </div>
                   </div>
                   
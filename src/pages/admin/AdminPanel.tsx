@@ -27,7 +27,7 @@ import {
 } from 'lucide-react';
 
 const AdminPanel: React.FC = () => {
-  const { user, userProfile, signOut } = useAuth();
+  const { user, userProfile, userRole, hasPermission, signOut } = useAuth();
   const location = useLocation();
   const isMobile = useIsMobile();
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
@@ -82,14 +82,14 @@ const AdminPanel: React.FC = () => {
 
      const navigationItems = [
      { path: "/admin", label: "Dashboard", icon: <LayoutDashboard className="h-5 w-5" /> },
-     { path: "/admin/books", label: "Books", icon: <BookOpen className="h-5 w-5" /> },
-     { path: "/admin/categories", label: "Categories", icon: <Tag className="h-5 w-5" /> },
-     { path: "/admin/tutorials", label: "Tutorials", icon: <GraduationCap className="h-5 w-5" /> },
-     { path: "/admin/users", label: "Users", icon: <Users className="h-5 w-5" /> },
-     { path: "/admin/analytics", label: "Analytics", icon: <BarChart3 className="h-5 w-5" /> },
-     { path: "/admin/activity-log", label: "Activity Log", icon: <Activity className="h-5 w-5" /> },
-     { path: "/admin/settings", label: "Settings", icon: <Settings className="h-5 w-5" /> }
-   ];
+     { path: "/admin/books", label: "Books", icon: <BookOpen className="h-5 w-5" />, permission: "books.write" },
+     { path: "/admin/categories", label: "Categories", icon: <Tag className="h-5 w-5" />, permission: "categories.write" },
+     { path: "/admin/tutorials", label: "Tutorials", icon: <GraduationCap className="h-5 w-5" />, permission: "tutorials.write" },
+     { path: "/admin/users", label: "Users", icon: <Users className="h-5 w-5" />, permission: "users.manage" },
+     { path: "/admin/analytics", label: "Analytics", icon: <BarChart3 className="h-5 w-5" />, permission: "analytics.read" },
+     { path: "/admin/activity-log", label: "Activity Log", icon: <Activity className="h-5 w-5" />, permission: "analytics.read" },
+     { path: "/admin/settings", label: "Settings", icon: <Settings className="h-5 w-5" />, permission: "settings.manage" }
+   ].filter(item => !item.permission || hasPermission(item.permission));
 
   const isActiveRoute = (path: string) => {
     if (path === "/admin") {
@@ -109,6 +109,7 @@ const AdminPanel: React.FC = () => {
   };
 
   const displayName = userProfile?.display_name || user?.email?.split('@')[0] || 'Admin';
+  const roleLabel = userRole ? userRole.charAt(0).toUpperCase() + userRole.slice(1) : 'Admin';
 
   return (
     <div className="flex h-screen bg-background overflow-hidden">
@@ -284,7 +285,7 @@ const AdminPanel: React.FC = () => {
                     </Avatar>
                     <div className="hidden lg:flex flex-col items-start text-left">
                       <span className="text-sm font-medium leading-none">{displayName}</span>
-                      <span className="text-xs text-muted-foreground leading-none">Admin</span>
+                      <span className="text-xs text-muted-foreground leading-none">{roleLabel}</span>
                     </div>
                   </Button>
                 </DropdownMenuTrigger>
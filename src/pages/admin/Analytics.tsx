@@ -9,7 +9,8 @@ import {
   Eye, 
   Download, 
   Star,
-  Activity
+  Activity,
+  ShoppingCart
 } from 'lucide-react';
 import {
   LineChart,
@@ -26,7 +27,7 @@ import {
   Legend,
   ResponsiveContainer
 } from 'recharts';
-import { getAnalyticsData, getMonthlyUserGrowth, getDailyActivity, AnalyticsData } from '@/lib/analytics';
+import { getAnalyticsData, getMonthlyUserGrowth, getDailyActivity, getPurchaseClicks, AnalyticsData, PurchaseLinkClicks } from '@/lib/analytics';
 import { useAuth } from '@/hooks/useAuth';
 import useTheme from '@/hooks/use-theme';
 
@@ -45,32 +46,36 @@ interface DailyActivityData {
 }
 
 const Analytics: React.FC = () => {
-  const { user, isAdmin } = useAuth();
+  const { user, hasPermission } = useAuth();
+  const canReadAnalytics = hasPermission('analytics.read');
   const { theme } = useTheme();
   const [analyticsData, setAnalyticsData] = useState<AnalyticsData | null>(null);
   const [userGrowthData, setUserGrowthData] = useState<UserGrowthData[]>([]);
   const [dailyActivityData, setDailyActivityData] = useState<DailyActivityData[]>([]);
+  const [purchaseClicks, setPurchaseClicks] = useState<PurchaseLinkClicks[]>([]);
   const [loading, setLoading] = useState(true);
   const [timeRange, setTimeRange] = useState('30d');
 
   useEffect(() => {
     const fetchData = async () => {
-      if (!user?.email || !isAdmin) {
+      if (!user?.email || !canReadAnalytics) {
         setLoading(false);
         return;
       }
 
       try {
         setLoading(true);
-        const [analytics, growth, activity] = await Promise.all([
-          getAnalyticsData(user.email),
-          getMonthlyUserGrowth(user.email, 6),
-          getDailyActivity(user.email, 7)
+        const [analytics, growth, activity, clicks] = await Promise.all([
+          getAnalyticsData(),
+          getMonthlyUserGrowth(6),
+          getDailyActivity(7),
+          getPurchaseClicks(30)
         ]);
         
         setAnalyticsData(analytics);
         setUserGrowthData(growth);
         setDailyActivityData(activity);
+        setPurchaseClicks(clicks.links);
       } catch (error) {
         console.error('Error fetching analytics:', error);
       } finally {
@@ -79,17 +84,17 @@ const Analytics: React.FC = () => {
     };
 
     fetchData();
-  }, [user?.email, isAdmin]);
+  }, [user?.email, canReadAnalytics]);
 
-  // Show access denied if user is not admin
-  if (!isAdmin) {
+  // Show access denied if user cannot read analytics
+  if (!canReadAnalytics) {
     return (
       <div className="space-y-6">
         <div className="flex items-center justify-between">
           <div>
             <h1 className="text-3xl font-bold tracking-tight">Analytics Dashboard</h1>
             <p className="text-muted-foreground">
-              Access denied. Admin privileges required.
+              Access denied. Analytics permission required.
             </p>
           </div>
         </div>
@@ -382,6 +387,48 @@ const Analytics: React.FC = () => {
           </ResponsiveContainer>
         </CardContent>
       </Card>
+
+      {/* Purchase Link Clicks */}
+      <Card className="border-0 shadow-lg">
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <ShoppingCart className="h-5 w-5" />
+            <span>Purchase Link Clicks (Last 30 Days)</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {purchaseClicks.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No purchase links were clicked in the last 30 days.</p>
+          ) : (
+            <div className="space-y-3">
+              {purchaseClicks.map(link => (
+                <div key={`${link.book_id}-${link.purchase_link}`} className="flex items-center justify-between gap-4 p-3 rounded-lg border">
+                  <div className="min-w-0">
+                    <h4 className="font-medium text-sm truncate">{link.title}</h4>
+                    <div className="flex items-center space-x-2">
+                      <a
+                        href={link.purchase_link}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-xs text-muted-foreground truncate max-w-[320px] hover:underline"
+                      >
+                        {link.purchase_link}
+                      </a>
+                      {!link.is_current && <Badge variant="outline" className="text-xs">old link</Badge>}
+                    </div>
+                  </div>
+                  <div className="text-right shrink-0">
+                    <div className="text-sm font-medium">{link.clicks.toLocaleString()} clicks</div>
+                    <div className="text-xs text-muted-foreground">
+                      {link.visitors} visitors · {link.users} signed in · last {new Date(link.last_clicked_at).toLocaleDateString()}
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 };
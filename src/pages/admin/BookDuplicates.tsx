@@ -0,0 +1,8 @@
+import React from 'react';
+import BookDuplicatesManager from '@/components/admin/BookDuplicatesManager';
+
+const BookDuplicates: React.FC = () => {
+  return <BookDuplicatesManager />;
+};
+
+export default BookDuplicates;
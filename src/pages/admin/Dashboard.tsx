@@ -16,7 +16,8 @@ import {
 } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { useToast } from '@/hooks/use-toast';
-import { getUserEmail } from '@/lib/auth-helper';
+import { authFetch, isAuthenticated } from '@/lib/auth-helper';
+import { useAuth } from '@/hooks/useAuth';
 
 interface DashboardStats {
   users: {
@@ -51,17 +52,17 @@ const Dashboard: React.FC = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
   const { toast } = useToast();
+  const { hasPermission } = useAuth();
+  const canReadAnalytics = hasPermission('analytics.read');
 
   useEffect(() => {
     loadDashboardData();
-  }, []);
+  }, [canReadAnalytics]);
 
   const loadDashboardData = async () => {
     try {
       setIsLoading(true);
-      const userEmail = getUserEmail();
-      
-      if (!userEmail) {
+      if (!isAuthenticated()) {
         toast({
           title: "Authentication Error",
           description: "Please log in to view dashboard data",
@@ -70,12 +71,13 @@ const Dashboard: React.FC = () => {
         return;
       }
 
+      // Content curators without analytics access only get the quick actions
+      if (!canReadAnalytics) {
+        return;
+      }
+
       // Fetch analytics data
-      const analyticsResponse = await fetch('/api/admin/analytics', {
-        headers: {
-          'x-user-email': userEmail
-        }
-      });
+      const analyticsResponse = await authFetch('/api/admin/analytics');
 
       if (!analyticsResponse.ok) {
         throw new Error('Failed to fetch analytics data');
@@ -84,11 +86,7 @@ const Dashboard: React.FC = () => {
       const analyticsData: DashboardStats = await analyticsResponse.json();
 
       // Fetch recent activity
-      const activityResponse = await fetch(`/api/admin/analytics/recent-activity?limit=8`, {
-        headers: {
-          'x-user-email': userEmail
-        }
-      });
+      const activityResponse = await authFetch(`/api/admin/analytics/recent-activity?limit=8`);
 
       if (!activityResponse.ok) {
         throw new Error('Failed to fetch recent activity');
@@ -179,93 +177,97 @@ const Dashboard: React.FC = () => {
       </div>
 
       {/* Statistics Cards */}
-      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
-        {isLoading ? (
-          Array.from({ length: 6 }).map((_, index) => (
-            <Card key={index} className="border border-border">
-              <CardContent className="p-4">
-                <div className="space-y-3">
-                  <div className="h-5 w-5 bg-muted rounded animate-pulse"></div>
-                  <div className="space-y-2">
-                    <div className="h-4 w-16 bg-muted rounded animate-pulse"></div>
-                    <div className="h-6 w-12 bg-muted rounded animate-pulse"></div>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-          ))
-        ) : (
-          statsCards.map((stat, index) => (
-            <Card key={index} className="border border-border hover:border-border/60 transition-colors">
-              <CardContent className="p-4">
-                <div className="space-y-3">
-                  <div className="flex items-center justify-between">
-                    {stat.icon}
+      {canReadAnalytics && (
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+          {isLoading ? (
+            Array.from({ length: 6 }).map((_, index) => (
+              <Card key={index} className="border border-border">
+                <CardContent className="p-4">
+                  <div className="space-y-3">
+                    <div className="h-5 w-5 bg-muted rounded animate-pulse"></div>
+                    <div className="space-y-2">
+                      <div className="h-4 w-16 bg-muted rounded animate-pulse"></div>
+                      <div className="h-6 w-12 bg-muted rounded animate-pulse"></div>
+                    </div>
                   </div>
-                  <div>
-                    <p className="text-2xl font-bold text-foreground">{stat.value}</p>
-                    <p className="text-xs font-medium text-muted-foreground">{stat.title}</p>
-                    <p className="text-xs text-muted-foreground/70">{stat.description}</p>
+                </CardContent>
+              </Card>
+            ))
+          ) : (
+            statsCards.map((stat, index) => (
+              <Card key={index} className="border border-border hover:border-border/60 transition-colors">
+                <CardContent className="p-4">
+                  <div className="space-y-3">
+                    <div className="flex items-center justify-between">
+                      {stat.icon}
+                    </div>
+                    <div>
+                      <p className="text-2xl font-bold text-foreground">{stat.value}</p>
+                      <p className="text-xs font-medium text-muted-foreground">{stat.title}</p>
+                      <p className="text-xs text-muted-foreground/70">{stat.description}</p>
+                    </div>
                   </div>
-                </div>
-              </CardContent>
-            </Card>
-          ))
-        )}
-      </div>
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </div>
+      )}
 
       {/* Dashboard Content */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Recent Activity */}
-        <div className="lg:col-span-2">
-          <Card className="border border-border">
-            <CardHeader className="pb-3">
-              <div className="flex items-center justify-between">
-                <CardTitle className="text-lg font-semibold flex items-center gap-2">
-                  <Activity className="h-5 w-5 text-muted-foreground" />
-                  Recent Activity
-                </CardTitle>
-                <Link to="/admin/activity-log" className="text-sm text-primary hover:text-primary/80 hover:underline">
-                  View All
-                </Link>
-              </div>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-3">
-                {isLoading ? (
-                  <div className="flex items-center justify-center py-6">
-                    <RefreshCw className="h-5 w-5 animate-spin text-muted-foreground" />
-                    <span className="ml-2 text-sm text-muted-foreground">Loading...</span>
-                  </div>
-                ) : recentActivities.length > 0 ? (
-                  recentActivities.map((activity, index) => (
-                    <div key={index} className="flex items-start gap-3 p-3 rounded-lg hover:bg-accent/50 transition-colors">
-                      <div className="w-8 h-8 rounded-full bg-muted flex items-center justify-center flex-shrink-0">
-                        {activity.type === 'book' ? (
-                          <BookOpen className="h-4 w-4 text-blue-600 dark:text-blue-400" />
-                        ) : (
-                          <GraduationCap className="h-4 w-4 text-purple-600 dark:text-purple-400" />
-                        )}
-                      </div>
-                      <div className="flex-1 min-w-0">
-                        <p className="text-sm font-medium text-foreground">
-                          {activity.action}
-                        </p>
-                        <p className="text-xs text-muted-foreground">
-                          {activity.time} • by {activity.author}
-                        </p>
+        {canReadAnalytics && (
+          <div className="lg:col-span-2">
+            <Card className="border border-border">
+              <CardHeader className="pb-3">
+                <div className="flex items-center justify-between">
+                  <CardTitle className="text-lg font-semibold flex items-center gap-2">
+                    <Activity className="h-5 w-5 text-muted-foreground" />
+                    Recent Activity
+                  </CardTitle>
+                  <Link to="/admin/activity-log" className="text-sm text-primary hover:text-primary/80 hover:underline">
+                    View All
+                  </Link>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-3">
+                  {isLoading ? (
+                    <div className="flex items-center justify-center py-6">
+                      <RefreshCw className="h-5 w-5 animate-spin text-muted-foreground" />
+                      <span className="ml-2 text-sm text-muted-foreground">Loading...</span>
+                    </div>
+                  ) : recentActivities.length > 0 ? (
+                    recentActivities.map((activity, index) => (
+                      <div key={index} className="flex items-start gap-3 p-3 rounded-lg hover:bg-accent/50 transition-colors">
+                        <div className="w-8 h-8 rounded-full bg-muted flex items-center justify-center flex-shrink-0">
+                          {activity.type === 'book' ? (
+                            <BookOpen className="h-4 w-4 text-blue-600 dark:text-blue-400" />
+                          ) : (
+                            <GraduationCap className="h-4 w-4 text-purple-600 dark:text-purple-400" />
+                          )}
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm font-medium text-foreground">
+                            {activity.action}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {activity.time} • by {activity.author}
+                          </p>
+                        </div>
                       </div>
+                    ))
+                  ) : (
+                    <div className="text-center py-6 text-muted-foreground">
+                      <p className="text-sm">No recent activity</p>
                     </div>
-                  ))
-                ) : (
-                  <div className="text-center py-6 text-muted-foreground">
-                    <p className="text-sm">No recent activity</p>
-                  </div>
-                )}
-              </div>
-            </CardContent>
-          </Card>
-        </div>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
 
         {/* Quick Actions */}
         <div>
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -6,8 +6,16 @@ import { Textarea } from '@/components/ui/textarea';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { useToast } from '@/hooks/use-toast';
-import { Save, Globe, RefreshCw } from 'lucide-react';
+import FileStorageCard from '@/components/admin/FileStorageCard';
+import ContributorBackfillCard from '@/components/admin/ContributorBackfillCard';
+import ExchangeRatesCard from '@/components/admin/ExchangeRatesCard';
+import LinkCheckerCard from '@/components/admin/LinkCheckerCard';
+import { fetchRoles, updateRolePermissions, setRoleTwoFactorRequired, type Permission, type Role } from '@/lib/roles';
+import { Save, Globe, RefreshCw, ShieldCheck } from 'lucide-react';
 
 interface SiteSettings {
   siteName: string;
@@ -32,6 +40,86 @@ const Settings: React.FC = () => {
     allowRegistration: true
   });
 
+  // Roles & permissions editor state; drafts hold unsaved checkbox changes per role
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [permissionCatalog, setPermissionCatalog] = useState<Permission[]>([]);
+  const [draftPermissions, setDraftPermissions] = useState<Record<number, string[]>>({});
+  const [savingRoleId, setSavingRoleId] = useState<number | null>(null);
+
+  const loadRoles = useCallback(async () => {
+    try {
+      const data = await fetchRoles();
+      setRoles(data.roles);
+      setPermissionCatalog(data.permissions);
+      setDraftPermissions(Object.fromEntries(data.roles.map(role => [role.id, role.permissions])));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load roles",
+        variant: "destructive",
+      });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadRoles();
+  }, [loadRoles]);
+
+  const toggleRolePermission = (roleId: number, permission: string, checked: boolean) => {
+    setDraftPermissions(prev => {
+      const current = prev[roleId] || [];
+      const next = checked ? [...current, permission] : current.filter(name => name !== permission);
+      return { ...prev, [roleId]: next };
+    });
+  };
+
+  const isRoleDirty = (role: Role) => {
+    const draft = draftPermissions[role.id] || [];
+    return draft.length !== role.permissions.length || draft.some(name => !role.permissions.includes(name));
+  };
+
+  const handleSaveRole = async (role: Role) => {
+    setSavingRoleId(role.id);
+    try {
+      await updateRolePermissions(role.id, draftPermissions[role.id] || []);
+      toast({
+        title: "Permissions Saved",
+        description: `Permissions for the ${role.name} role have been updated.`,
+      });
+      await loadRoles();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update role permissions",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingRoleId(null);
+    }
+  };
+
+  const handleToggleTwoFactor = async (role: Role, required: boolean) => {
+    setSavingRoleId(role.id);
+    try {
+      await setRoleTwoFactorRequired(role.id, required);
+      toast({
+        title: "Security Updated",
+        description: required
+          ? `Members of the ${role.name} role must now use two-factor authentication.`
+          : `Two-factor authentication is now optional for the ${role.name} role.`,
+      });
+      await loadRoles();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update role",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingRoleId(null);
+    }
+  };
+
   // Load persisted settings from backend
   useEffect(() => {
     let mounted = true;
@@ -177,6 +265,112 @@ const Settings: React.FC = () => {
           Save Changes
         </Button>
       </div>
+
+      {/* Roles & Permissions */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <ShieldCheck className="h-5 w-5" />
+            <span>Roles & Permissions</span>
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Choose what each role may do. Admins always have every permission.
+          </p>
+        </CardHeader>
+        <CardContent>
+          {roles.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No roles found.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Permission</TableHead>
+                    {roles.map(role => (
+                      <TableHead key={role.id} className="text-center">
+                        <div className="flex flex-col items-center gap-1">
+                          <span className="capitalize">{role.name}</span>
+                          <Badge variant="secondary">{role.user_count} users</Badge>
+                        </div>
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {permissionCatalog.map(permission => (
+                    <TableRow key={permission.name}>
+                      <TableCell>
+                        <div className="font-medium">{permission.name}</div>
+                        {permission.description && (
+                          <div className="text-xs text-muted-foreground">{permission.description}</div>
+                        )}
+                      </TableCell>
+                      {roles.map(role => (
+                        <TableCell key={role.id} className="text-center">
+                          <Checkbox
+                            aria-label={`${permission.name} for ${role.name}`}
+                            checked={(draftPermissions[role.id] || []).includes(permission.name)}
+                            disabled={role.name === 'admin' || savingRoleId === role.id}
+                            onCheckedChange={(checked) => toggleRolePermission(role.id, permission.name, checked === true)}
+                          />
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                  <TableRow>
+                    <TableCell>
+                      <div className="font-medium">Require two-factor authentication</div>
+                      <div className="text-xs text-muted-foreground">
+                        Members get no permissions until they enable 2FA on their profile
+                      </div>
+                    </TableCell>
+                    {roles.map(role => (
+                      <TableCell key={role.id} className="text-center">
+                        <Switch
+                          aria-label={`Require two-factor authentication for ${role.name}`}
+                          checked={role.require_two_factor}
+                          disabled={savingRoleId === role.id}
+                          onCheckedChange={(checked) => handleToggleTwoFactor(role, checked)}
+                        />
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                  <TableRow>
+                    <TableCell />
+                    {roles.map(role => (
+                      <TableCell key={role.id} className="text-center">
+                        {role.name !== 'admin' && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={!isRoleDirty(role) || savingRoleId === role.id}
+                            onClick={() => handleSaveRole(role)}
+                          >
+                            {savingRoleId === role.id ? (
+                              <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                            ) : (
+                              <Save className="h-4 w-4 mr-2" />
+                            )}
+                            Save
+                          </Button>
+                        )}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <FileStorageCard />
+
+      <ContributorBackfillCard />
+
+      <ExchangeRatesCard />
+
+      <LinkCheckerCard />
     </div>
   );
 };
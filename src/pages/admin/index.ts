@@ -2,6 +2,7 @@ export { default as AdminPanel } from './AdminPanel';
 export { default as Dashboard } from './Dashboard';
 export { default as Categories } from './Categories';
 export { default as Books } from './Books';
+export { default as BookDuplicates } from './BookDuplicates';
 export { default as Tutorials } from './Tutorials';
 export { default as Users } from './Users';
 export { default as Analytics } from './Analytics';
@@ -24,8 +24,8 @@ async function testBooksAPI() {
     // Test 1: Get all books
     console.log('1️⃣ Testing GET /api/books...');
     const booksResponse = await fetch(`${BASE_URL}/books`);
-    const books = await booksResponse.json();
-    console.log(`✅ Found ${books.length} books`);
+    const { books, total } = await booksResponse.json();
+    console.log(`✅ Found ${total} books (first page: ${books.length})`);
     console.log('📚 Books:', books.map(b => ({ id: b.id, title: b.title, author: b.author })));
     console.log('');
 